@@ -384,6 +384,11 @@ async function buildAll() {
             path.join(extensionFolder, 'src', 'webviews', 'webview-side', 'selectInputSettings', 'index.tsx'),
             path.join(extensionFolder, 'dist', 'webviews', 'webview-side', 'selectInputSettings', 'index.js'),
             { target: 'web', watch: watchAll }
+        ),
+        build(
+            path.join(extensionFolder, 'src', 'webviews', 'webview-side', 'chartEditor', 'index.tsx'),
+            path.join(extensionFolder, 'dist', 'webviews', 'webview-side', 'chartEditor', 'index.js'),
+            { target: 'web', watch: watchAll }
         )
     );
 
@@ -420,6 +425,14 @@ async function buildAll() {
                 { target: 'desktop', watch: isWatchMode }
             )
         );
+        builders.push(
+            build(
+                path.join(extensionFolder, 'src', 'notebooks', 'deepnote', 'deepnoteRunnerCli.node.ts'),
+                path.join(extensionFolder, 'dist', 'deepnoteRunner.node.js'),
+                // Standalone entry point for running notebooks in CI, see README.
+                { target: 'desktop', watch: isWatchMode }
+            )
+        );
         builders.push(
             build(
                 path.join(extensionFolder, 'src', 'extension.node.proxy.ts'),
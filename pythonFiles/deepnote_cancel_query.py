@@ -0,0 +1,119 @@
+"""Cancels the running query of a Deepnote SQL block, when the block is cancelled.
+
+Reads the credentials from the DEEPNOTE_INTEGRATION_CREDENTIALS environment variable, in the format
+of the SQL_<INTEGRATION_ID> variables used by SQL blocks, the ISO 8601 UTC time at which the block
+started running from DEEPNOTE_QUERY_STARTED_AT, and the tag of the block from DEEPNOTE_QUERY_TAG. SQL blocks
+add their tag to their query as a comment: the running queries of the integration's user that contain the tag
+and started since then are cancelled in the database, using a connection of their own:
+    Postgres: pg_cancel_backend
+    Redshift: pg_cancel_backend
+    Snowflake: SYSTEM$CANCEL_QUERY
+    BigQuery: jobs.cancel
+
+and writes one JSON line to stdout:
+    {"success": true, "cancelled": 1} or {"success": false, "error_type": "...", "message": "..."}
+"""
+
+import json
+import os
+from datetime import datetime
+
+from deepnote_test_connection import create_bigquery_client, create_sqlalchemy_engine, format_error
+
+POSTGRES_RUNNING_QUERIES = """
+    SELECT pid FROM pg_stat_activity
+    WHERE usename = current_user AND datname = current_database() AND state = 'active'
+        AND pid <> pg_backend_pid() AND query_start >= :started_at AND strpos(query, :query_tag) > 0
+"""
+
+REDSHIFT_RUNNING_QUERIES = """
+    SELECT pid FROM stv_recents
+    WHERE status = 'Running' AND TRIM(user_name) = current_user AND pid <> pg_backend_pid()
+        AND starttime >= :started_at AND strpos(query, :query_tag) > 0
+"""
+
+SNOWFLAKE_RUNNING_QUERIES = """
+    SELECT query_id, rows_produced FROM TABLE(information_schema.query_history_by_user(user_name => CURRENT_USER()))
+    WHERE execution_status IN ('RUNNING', 'QUEUED', 'BLOCKED', 'RESUMING_WAREHOUSE')
+        AND session_id <> TO_NUMBER(CURRENT_SESSION()) AND start_time >= :started_at
+        AND CONTAINS(query_text, :query_tag)
+"""
+
+
+def find_bigquery_jobs(client, started_at, query_tag):
+    # Lists the jobs of the service account only
+    return [
+        job
+        for job in client.list_jobs(state_filter="running", min_creation_time=started_at)
+        if query_tag in (getattr(job, "query", None) or "")
+    ]
+
+
+def find_sqlalchemy_queries(connection, url, started_at, query_tag):
+    """Returns the rows of the running queries containing the tag, their id or process id first"""
+    from sqlalchemy import text
+
+    if url.startswith("snowflake://"):
+        running = text(SNOWFLAKE_RUNNING_QUERIES)
+    elif url.startswith("redshift"):
+        # Redshift keeps query start times in UTC, without time zone
+        running = text(REDSHIFT_RUNNING_QUERIES)
+        started_at = started_at.replace(tzinfo=None)
+    else:
+        running = text(POSTGRES_RUNNING_QUERIES)
+
+    return list(connection.execute(running, {"started_at": started_at, "query_tag": query_tag}))
+
+
+def cancel_bigquery(params, started_at, query_tag):
+    client = create_bigquery_client(params)
+    jobs = find_bigquery_jobs(client, started_at, query_tag)
+
+    for job in jobs:
+        client.cancel_job(job.job_id, location=job.location)
+
+    return len(jobs)
+
+
+def cancel_sqlalchemy(url, params, started_at, query_tag):
+    from sqlalchemy import text
+
+    engine = create_sqlalchemy_engine(url, params)
+    try:
+        with engine.connect() as connection:
+            queries = find_sqlalchemy_queries(connection, url, started_at, query_tag)
+
+            if url.startswith("snowflake://"):
+                for query in queries:
+                    connection.execute(text("SELECT SYSTEM$CANCEL_QUERY(:query_id)"), {"query_id": query[0]})
+                return len(queries)
+
+            cancel = text("SELECT pg_cancel_backend(:pid)")
+            return sum(1 for query in queries if connection.execute(cancel, {"pid": query[0]}).scalar())
+    finally:
+        engine.dispose()
+
+
+def read_started_at():
+    return datetime.fromisoformat(os.environ["DEEPNOTE_QUERY_STARTED_AT"].replace("Z", "+00:00"))
+
+
+def main():
+    credentials = json.loads(os.environ["DEEPNOTE_INTEGRATION_CREDENTIALS"])
+    started_at = read_started_at()
+    query_tag = os.environ["DEEPNOTE_QUERY_TAG"]
+
+    try:
+        if credentials["url"].startswith("bigquery://"):
+            cancelled = cancel_bigquery(credentials["params"], started_at, query_tag)
+        else:
+            cancelled = cancel_sqlalchemy(credentials["url"], credentials["params"], started_at, query_tag)
+    except Exception as e:
+        print(json.dumps(format_error(e)))
+        return
+
+    print(json.dumps({"success": True, "cancelled": cancelled}))
+
+
+if __name__ == "__main__":
+    main()
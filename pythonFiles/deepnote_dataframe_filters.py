@@ -0,0 +1,88 @@
+"""Applies the filters of Deepnote tables and charts to a DataFrame, in the kernel.
+
+The extension runs this file in the kernel before the scripts that filter DataFrames, which call
+_deepnote_filter_dataframe with the DataFrame and the filters, e.g.
+    [{"column": "a", "operator": "between", "comparativeValues": ["1", "5"]}]
+Filters of columns the DataFrame doesn't have, and filters without the values they compare with, are skipped.
+"""
+
+
+def _deepnote_filter_dataframe(dataframe, filters):
+    import datetime
+
+    import pandas as pd
+
+    # Days before today that the dates of the relative `is-relative-today` filter start at
+    relative_days = {
+        "today": 0,
+        "yesterday": 1,
+        "week-ago": 7,
+        "month-ago": 30,
+        "quarter-ago": 91,
+        "half-year-ago": 182,
+        "year-ago": 365,
+    }
+
+    labels = {str(label): label for label in dataframe.columns}
+
+    def convert(series, value):
+        if pd.api.types.is_bool_dtype(series):
+            return str(value).strip().lower() in ("true", "1", "yes")
+        if pd.api.types.is_numeric_dtype(series):
+            return pd.to_numeric(value)
+        if pd.api.types.is_datetime64_any_dtype(series):
+            timestamp = pd.Timestamp(value)
+            timezone = getattr(series.dt, "tz", None)
+            if timezone is not None and timestamp.tzinfo is None:
+                timestamp = timestamp.tz_localize(timezone)
+            return timestamp
+        return value
+
+    def matches(series, operator, values):
+        if operator in ("is-relative-today", "is-on", "is-after", "is-before"):
+            if not pd.api.types.is_datetime64_any_dtype(series):
+                series = pd.to_datetime(series, errors="coerce")
+
+        if operator == "is-null":
+            return series.isna()
+        if operator == "is-not-null":
+            return series.notna()
+        if operator in ("is-one-of", "is-not-one-of"):
+            mask = series.isin([convert(series, value) for value in values])
+            return mask if operator == "is-one-of" else ~mask
+        if operator in ("text-contains", "text-does-not-contain"):
+            mask = series.astype(str).str.contains(values[0], case=False, regex=False)
+            return mask if operator == "text-contains" else ~mask
+        if operator in ("between", "outside-of"):
+            low, high = (convert(series, value) for value in values[:2])
+            mask = (series >= low) & (series <= high)
+            return mask if operator == "between" else ~mask & series.notna()
+        if operator == "is-relative-today":
+            today = pd.Timestamp(datetime.date.today())
+            return series >= convert(series, today - pd.Timedelta(days=relative_days[values[0]]))
+        if operator == "is-on":
+            day = convert(series, pd.Timestamp(values[0]).normalize())
+            return series.dt.normalize() == day
+
+        value = convert(series, values[0])
+        comparisons = {
+            "is-equal": series.__eq__,
+            "is-not-equal": series.__ne__,
+            "greater-than": series.__gt__,
+            "greater-than-or-equal": series.__ge__,
+            "less-than": series.__lt__,
+            "less-than-or-equal": series.__le__,
+            "is-after": series.__gt__,
+            "is-before": series.__lt__,
+        }
+        return comparisons[operator](value)
+
+    for dataframe_filter in filters:
+        label = labels.get(dataframe_filter["column"])
+        values = dataframe_filter.get("comparativeValues") or []
+        if label is None or (not values and dataframe_filter["operator"] not in ("is-null", "is-not-null")):
+            continue
+        mask = matches(dataframe[label], dataframe_filter["operator"], values)
+        dataframe = dataframe[mask.fillna(False).astype(bool)]
+
+    return dataframe
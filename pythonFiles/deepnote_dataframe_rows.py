@@ -0,0 +1,108 @@
+"""Reads a range of rows of the DataFrame behind a table output of a Deepnote notebook, in the kernel.
+
+The extension runs this file in the kernel, after deepnote_dataframe_filters.py and followed by a call of
+_deepnote_dataframe_rows, whenever the table scrolls to rows it doesn't have yet. The DataFrame is the result
+of the execution that produced the output, or else the variable of the block when it still has the columns of
+the output. Its rows are sorted and filtered as in the table. The order of the rows of the last sorting and
+filters, and the last Spark or Polars DataFrame converted to pandas, are kept on the IPython shell, so scrolling
+doesn't convert and sort the DataFrame again.
+The result is a JSON document:
+    {"success": true, "row_count": 5000000, "rows": [{"_deepnote_index_column": 0, "a": 1}]}
+    {"success": false, "missing": true, "message": "..."} when the kernel no longer has the DataFrame
+    {"success": false, "message": "..."} when the rows could not be read
+"""
+
+
+def _deepnote_dataframe_rows(execution_count, variable_name, columns_json, offset, limit, sort_by_json, filters_json):
+    import json
+
+    import pandas as pd
+
+    shell = get_ipython()  # noqa: F821
+    namespace = shell.user_ns
+    output_columns = json.loads(columns_json)
+    candidates = []
+
+    if execution_count is not None:
+        candidates.append((namespace.get("Out", {}).get(execution_count), False))
+    if variable_name:
+        # The variable may hold another DataFrame since the output was produced
+        candidates.append((namespace.get(variable_name), True))
+
+    def to_pandas(candidate):
+        cached = getattr(shell, "_deepnote_dataframe_pandas", None)
+
+        if cached is not None and cached[0] is candidate:
+            return cached[1]
+
+        converted = candidate.to_pandas()
+        shell._deepnote_dataframe_pandas = (candidate, converted)
+
+        return converted
+
+    def has_output_columns(candidate):
+        names = [str(label) for label in candidate.columns]
+
+        return output_columns is None or names[: len(output_columns)] == output_columns
+
+    dataframe = None
+    source = None
+
+    for candidate, check_columns in candidates:
+        source = candidate
+
+        if isinstance(candidate, pd.Series):
+            candidate = candidate.to_frame()
+        elif not isinstance(candidate, pd.DataFrame) and callable(getattr(candidate, "to_pandas", None)):
+            candidate = to_pandas(candidate)
+
+        if isinstance(candidate, pd.DataFrame) and (not check_columns or has_output_columns(candidate)):
+            dataframe = candidate
+            break
+
+    if dataframe is None:
+        return json.dumps(
+            {"success": False, "missing": True, "message": "The DataFrame of the output is not in the kernel."}
+        )
+
+    labels = {str(label): label for label in dataframe.columns}
+
+    def get_positions():
+        sort_by = json.loads(sort_by_json)
+        filters = json.loads(filters_json)
+        key = (id(source), len(dataframe), sort_by_json, filters_json)
+        cached = getattr(shell, "_deepnote_dataframe_rows", None)
+
+        if cached is not None and cached[0] == key:
+            return cached[1]
+
+        view = _deepnote_filter_dataframe(dataframe.reset_index(drop=True), filters)  # noqa: F821
+
+        sort_labels = [labels[sort["id"]] for sort in sort_by if sort["id"] in labels]
+        if sort_labels:
+            view = view.sort_values(
+                by=sort_labels,
+                ascending=[sort["type"] == "asc" for sort in sort_by if sort["id"] in labels],
+                kind="stable",
+                na_position="last",
+            )
+
+        positions = view.index.to_numpy()
+        # Only the view of the table scrolled last is kept
+        shell._deepnote_dataframe_rows = (key, positions)
+
+        return positions
+
+    try:
+        positions = get_positions()
+        page = dataframe.iloc[positions[offset : offset + limit]]
+        columns = [str(label) for label in page.columns]
+        data = json.loads(page.to_json(orient="split", date_format="iso", default_handler=str))
+    except Exception as e:
+        return json.dumps({"success": False, "message": f"{type(e).__name__}: {e}"})
+
+    rows = [
+        dict(zip(columns, values), _deepnote_index_column=index) for index, values in zip(data["index"], data["data"])
+    ]
+
+    return json.dumps({"success": True, "row_count": len(positions), "rows": rows})
@@ -0,0 +1,64 @@
+"""Writes the whole DataFrame behind a table output of a Deepnote notebook to a file, in the kernel.
+
+The extension runs this file in the kernel, followed by a call of _deepnote_export_dataframe. The DataFrame
+is the result of the execution that produced the output, or else the variable of the block. The result is
+a JSON document:
+    {"success": true, "rows": 1000}
+    {"success": false, "missing": true, "message": "..."} when the kernel no longer has the DataFrame
+    {"success": false, "message": "..."} when the file could not be written
+A partially written file is removed, also when the export is interrupted.
+"""
+
+
+def _deepnote_export_dataframe(execution_count, variable_name, path, export_format):
+    import json
+    import os
+
+    import pandas as pd
+
+    namespace = get_ipython().user_ns  # noqa: F821
+    candidates = []
+
+    if execution_count is not None:
+        candidates.append(namespace.get("Out", {}).get(execution_count))
+    if variable_name:
+        candidates.append(namespace.get(variable_name))
+
+    dataframe = None
+
+    for candidate in candidates:
+        if isinstance(candidate, pd.Series):
+            candidate = candidate.to_frame()
+        elif not isinstance(candidate, pd.DataFrame) and callable(getattr(candidate, "to_pandas", None)):
+            candidate = candidate.to_pandas()
+
+        if isinstance(candidate, pd.DataFrame):
+            dataframe = candidate
+            break
+
+    if dataframe is None:
+        return json.dumps(
+            {"success": False, "missing": True, "message": "The DataFrame of the output is not in the kernel."}
+        )
+
+    # A default index only numbers the rows, other indexes are data
+    index = not isinstance(dataframe.index, pd.RangeIndex)
+    writers = {
+        "csv": lambda: dataframe.to_csv(path, index=index),
+        "parquet": lambda: dataframe.to_parquet(path, index=index),
+        "excel": lambda: dataframe.to_excel(path, index=index),
+        "jsonl": lambda: dataframe.to_json(path, orient="records", lines=True, date_format="iso"),
+    }
+
+    try:
+        writers[export_format]()
+    except BaseException as e:
+        if os.path.exists(path):
+            os.remove(path)
+
+        if isinstance(e, KeyboardInterrupt):
+            raise
+
+        return json.dumps({"success": False, "message": f"{type(e).__name__}: {e}"})
+
+    return json.dumps({"success": True, "rows": len(dataframe)})
@@ -0,0 +1,43 @@
+"""Lists the DataFrames of a Deepnote notebook, with their columns, in the kernel.
+
+The extension runs this file in the kernel, followed by a call of _deepnote_list_dataframes, when the chart editor
+of a visualization block opens, so the DataFrame and its columns can be picked. Variables starting with an
+underscore are left out, as are the outputs of executions. The result is a JSON document:
+    {"success": true, "dataframes": [{"name": "df", "columns": [{"name": "a", "dtype": "int64", "kind": "number"}]}]}
+    {"success": false, "message": "..."} when the DataFrames could not be listed
+"""
+
+
+def _deepnote_list_dataframes():
+    import json
+
+    try:
+        import pandas as pd
+    except ImportError:
+        return json.dumps({"success": True, "dataframes": []})
+
+    def get_kind(dtype):
+        if pd.api.types.is_bool_dtype(dtype):
+            return "boolean"
+        if pd.api.types.is_numeric_dtype(dtype):
+            return "number"
+        if pd.api.types.is_datetime64_any_dtype(dtype):
+            return "datetime"
+        return "text"
+
+    dataframes = []
+
+    try:
+        for name, value in get_ipython().user_ns.items():  # noqa: F821
+            if name.startswith("_") or not isinstance(value, pd.DataFrame):
+                continue
+
+            columns = [
+                {"name": str(label), "dtype": str(dtype), "kind": get_kind(dtype)}
+                for label, dtype in value.dtypes.items()
+            ]
+            dataframes.append({"name": name, "columns": columns})
+    except Exception as e:
+        return json.dumps({"success": False, "message": f"{type(e).__name__}: {e}"})
+
+    return json.dumps({"success": True, "dataframes": sorted(dataframes, key=lambda dataframe: dataframe["name"])})
@@ -0,0 +1,38 @@
+"""Previews the filters of a chart block of a Deepnote notebook on a sample of its DataFrame, in the kernel.
+
+The extension runs this file in the kernel, after deepnote_dataframe_filters.py and followed by a call of
+_deepnote_preview_chart_filters, while the JSON of a chart block is edited. The filters are applied to a random
+sample of the rows of the DataFrame, the same sample each time, so previewing large DataFrames stays quick.
+The result is a JSON document:
+    {"success": true, "row_count": 5000000, "sample_size": 10000, "remaining": 812}
+    {"success": false, "missing": true, "message": "..."} when the kernel has no DataFrame of that name
+    {"success": false, "message": "..."} when the filters could not be applied
+"""
+
+
+def _deepnote_preview_chart_filters(variable_name, filters_json, sample_size):
+    import json
+
+    import pandas as pd
+
+    dataframe = get_ipython().user_ns.get(variable_name)  # noqa: F821
+
+    if isinstance(dataframe, pd.Series):
+        dataframe = dataframe.to_frame()
+    elif not isinstance(dataframe, pd.DataFrame) and callable(getattr(dataframe, "to_pandas", None)):
+        dataframe = dataframe.to_pandas()
+
+    if not isinstance(dataframe, pd.DataFrame):
+        return json.dumps(
+            {"success": False, "missing": True, "message": f"The kernel has no DataFrame named {variable_name}."}
+        )
+
+    try:
+        sample = dataframe if len(dataframe) <= sample_size else dataframe.sample(n=sample_size, random_state=0)
+        remaining = _deepnote_filter_dataframe(sample.reset_index(drop=True), json.loads(filters_json))  # noqa: F821
+    except Exception as e:
+        return json.dumps({"success": False, "message": f"{type(e).__name__}: {e}"})
+
+    return json.dumps(
+        {"success": True, "row_count": len(dataframe), "sample_size": len(sample), "remaining": len(remaining)}
+    )
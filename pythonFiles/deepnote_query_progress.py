@@ -0,0 +1,65 @@
+"""Reads how many rows the running query of a Deepnote SQL block has produced so far.
+
+Reads the credentials from the DEEPNOTE_INTEGRATION_CREDENTIALS environment variable, in the format
+of the SQL_<INTEGRATION_ID> variables used by SQL blocks, the ISO 8601 UTC time at which the block
+started running from DEEPNOTE_QUERY_STARTED_AT, and the tag of the block from DEEPNOTE_QUERY_TAG, and finds
+the running query of the block like deepnote_cancel_query.py does. The rows it produced are read from:
+    Snowflake: ROWS_PRODUCED of the query history
+    BigQuery: the records written by the last stage of the query plan
+
+and writes one JSON line to stdout:
+    {"success": true, "rows": 1200} or {"success": false, "error_type": "...", "message": "..."}
+
+"rows" is null when the query is no longer running, or the database doesn't report its rows yet.
+"""
+
+import json
+import os
+
+from deepnote_cancel_query import find_bigquery_jobs, find_sqlalchemy_queries, read_started_at
+from deepnote_test_connection import create_bigquery_client, create_sqlalchemy_engine, format_error
+
+
+def read_bigquery_rows(params, started_at, query_tag):
+    client = create_bigquery_client(params)
+
+    for job in find_bigquery_jobs(client, started_at, query_tag):
+        if job.query_plan:
+            return job.query_plan[-1].records_written
+
+    return None
+
+
+def read_snowflake_rows(url, params, started_at, query_tag):
+    engine = create_sqlalchemy_engine(url, params)
+    try:
+        with engine.connect() as connection:
+            for query in find_sqlalchemy_queries(connection, url, started_at, query_tag):
+                return query[1]
+
+            return None
+    finally:
+        engine.dispose()
+
+
+def main():
+    credentials = json.loads(os.environ["DEEPNOTE_INTEGRATION_CREDENTIALS"])
+    started_at = read_started_at()
+    query_tag = os.environ["DEEPNOTE_QUERY_TAG"]
+
+    try:
+        if credentials["url"].startswith("bigquery://"):
+            rows = read_bigquery_rows(credentials["params"], started_at, query_tag)
+        elif credentials["url"].startswith("snowflake://"):
+            rows = read_snowflake_rows(credentials["url"], credentials["params"], started_at, query_tag)
+        else:
+            rows = None
+    except Exception as e:
+        print(json.dumps(format_error(e)))
+        return
+
+    print(json.dumps({"success": True, "rows": rows}))
+
+
+if __name__ == "__main__":
+    main()
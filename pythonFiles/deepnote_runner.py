@@ -0,0 +1,110 @@
+"""Executes Deepnote blocks in a Jupyter kernel for the headless Deepnote runner.
+
+Reads a job from stdin:
+    {"cells": [{"id": "...", "code": "..."}], "cwd": "...", "timeout": seconds or null}
+
+and writes one JSON line per executed cell to stdout:
+    {"id": "...", "execution_count": 1, "outputs": [...], "status": "ok" | "error"}
+
+Outputs are in the Jupyter notebook format. Execution stops at the first failing cell.
+
+Before the cells, the kernel imports deepnote_toolkit as `_dntk`, which the code of SQL, chart and other
+Deepnote blocks calls. SQL blocks read their connections from the SQL_* environment variables of this process.
+"""
+
+import json
+import queue
+import sys
+import time
+
+from jupyter_client.manager import start_new_kernel
+
+TOOLKIT_SETUP_CODE = "import deepnote_toolkit as _dntk"
+
+
+def execute_cell(client, cell, timeout, store_history=True):
+    msg_id = client.execute(cell["code"], store_history=store_history, allow_stdin=False)
+    deadline = time.monotonic() + timeout if timeout else None
+    outputs = []
+    execution_count = None
+    status = "ok"
+
+    while True:
+        remaining = None if deadline is None else max(deadline - time.monotonic(), 0)
+        try:
+            msg = client.get_iopub_msg(timeout=remaining)
+        except queue.Empty:
+            outputs.append(
+                {
+                    "output_type": "error",
+                    "ename": "TimeoutError",
+                    "evalue": "Block did not finish within %s seconds" % timeout,
+                    "traceback": [],
+                }
+            )
+            return {"id": cell["id"], "execution_count": execution_count, "outputs": outputs, "status": "error"}
+
+        if msg["parent_header"].get("msg_id") != msg_id:
+            continue
+
+        msg_type = msg["msg_type"]
+        content = msg["content"]
+
+        if msg_type == "status" and content["execution_state"] == "idle":
+            break
+        elif msg_type == "execute_input":
+            execution_count = content.get("execution_count")
+        elif msg_type == "stream":
+            if outputs and outputs[-1]["output_type"] == "stream" and outputs[-1]["name"] == content["name"]:
+                outputs[-1]["text"] += content["text"]
+            else:
+                outputs.append({"output_type": "stream", "name": content["name"], "text": content["text"]})
+        elif msg_type in ("display_data", "execute_result"):
+            output = {"output_type": msg_type, "data": content["data"], "metadata": content.get("metadata", {})}
+            if msg_type == "execute_result":
+                output["execution_count"] = content.get("execution_count")
+            outputs.append(output)
+        elif msg_type == "error":
+            outputs.append(
+                {
+                    "output_type": "error",
+                    "ename": content["ename"],
+                    "evalue": content["evalue"],
+                    "traceback": content["traceback"],
+                }
+            )
+            status = "error"
+        elif msg_type == "clear_output":
+            outputs = []
+
+    return {"id": cell["id"], "execution_count": execution_count, "outputs": outputs, "status": status}
+
+
+def main():
+    job = json.load(sys.stdin)
+    manager, client = start_new_kernel(cwd=job.get("cwd"))
+
+    try:
+        setup = execute_cell(client, {"id": "setup", "code": TOOLKIT_SETUP_CODE}, job.get("timeout"), False)
+        if setup["status"] != "ok":
+            errors = [output for output in setup["outputs"] if output["output_type"] == "error"]
+            detail = "%s: %s" % (errors[0]["ename"], errors[0]["evalue"]) if errors else "timed out"
+            sys.stderr.write("Failed to import deepnote_toolkit in the kernel (%s)\n" % detail)
+            return 3
+
+        for cell in job["cells"]:
+            result = execute_cell(client, cell, job.get("timeout"))
+            sys.stdout.write(json.dumps(result) + "\n")
+            sys.stdout.flush()
+
+            if result["status"] != "ok":
+                return 1
+
+        return 0
+    finally:
+        client.stop_channels()
+        manager.shutdown_kernel(now=True)
+
+
+if __name__ == "__main__":
+    sys.exit(main())
@@ -0,0 +1,151 @@
+"""Lists the schemas, tables and columns of a Deepnote SQL integration for the data sources view.
+
+Reads the credentials from the DEEPNOTE_INTEGRATION_CREDENTIALS environment variable, in the format
+of the SQL_<INTEGRATION_ID> variables used by SQL blocks, and the request from DEEPNOTE_SCHEMA_REQUEST:
+    {"action": "schemas"}
+    {"action": "tables", "schema": "..."}
+    {"action": "columns", "schema": "...", "table": "..."}
+    {"action": "preview", "schema": "...", "table": "...", "limit": 100}
+    {"action": "catalog"}
+
+and writes one JSON line to stdout:
+    {"success": true, "items": [...]} for listings,
+    {"success": true, "tables": [...], "default_schema": "...", "truncated": false} for catalogs,
+    {"success": true, "columns": [...], "rows": [[...]]} for previews,
+    {"success": false, "error_type": "...", "message": "..."} on failure
+"""
+
+import json
+import os
+
+from deepnote_test_connection import create_bigquery_client, create_sqlalchemy_engine, format_error
+
+# Catalogs feed the autocompletion of SQL blocks, larger databases are cut off to keep them quick to load
+MAX_CATALOG_TABLES = 500
+SYSTEM_SCHEMAS = {"information_schema", "pg_catalog", "performance_schema", "mysql", "sys", "system"}
+
+
+def catalog_table(schema, name, kind, columns):
+    return {
+        "schema": schema,
+        "name": name,
+        "kind": kind,
+        "columns": [{"name": column_name, "type": column_type} for column_name, column_type in columns],
+    }
+
+
+def catalog_bigquery(client):
+    tables = []
+
+    for dataset in client.list_datasets():
+        for item in client.list_tables(dataset.dataset_id):
+            if len(tables) >= MAX_CATALOG_TABLES:
+                return {"tables": tables, "truncated": True}
+
+            table = client.get_table(item)
+            kind = "view" if table.table_type == "VIEW" else "table"
+            columns = [(field.name, field.field_type) for field in table.schema]
+            tables.append(catalog_table(dataset.dataset_id, table.table_id, kind, columns))
+
+    return {"tables": tables, "truncated": False}
+
+
+def catalog_sqlalchemy(inspector):
+    tables = []
+    default_schema = inspector.default_schema_name
+
+    for schema in inspector.get_schema_names():
+        if schema.lower() in SYSTEM_SCHEMAS or schema.lower().startswith("pg_"):
+            continue
+
+        names = [(name, "table") for name in inspector.get_table_names(schema=schema)]
+        names += [(name, "view") for name in inspector.get_view_names(schema=schema)]
+
+        for name, kind in names:
+            if len(tables) >= MAX_CATALOG_TABLES:
+                return {"tables": tables, "default_schema": default_schema, "truncated": True}
+
+            columns = [(column["name"], str(column["type"])) for column in inspector.get_columns(name, schema=schema)]
+            tables.append(catalog_table(schema, name, kind, columns))
+
+    return {"tables": tables, "default_schema": default_schema, "truncated": False}
+
+
+def browse_bigquery(params, request):
+    client = create_bigquery_client(params)
+    action = request["action"]
+
+    if action == "catalog":
+        return catalog_bigquery(client)
+
+    if action == "schemas":
+        return {"items": [{"name": dataset.dataset_id} for dataset in client.list_datasets()]}
+
+    if action == "tables":
+        return {
+            "items": [
+                {"name": table.table_id, "kind": "view" if table.table_type == "VIEW" else "table"}
+                for table in client.list_tables(request["schema"])
+            ]
+        }
+
+    table = client.get_table(f"{request['schema']}.{request['table']}")
+
+    if action == "columns":
+        return {"items": [{"name": field.name, "type": field.field_type} for field in table.schema]}
+
+    rows = client.list_rows(table, max_results=request["limit"])
+    return {"columns": [field.name for field in table.schema], "rows": [list(row.values()) for row in rows]}
+
+
+def browse_sqlalchemy(url, params, request):
+    from sqlalchemy import MetaData, Table, inspect, select
+
+    engine = create_sqlalchemy_engine(url, params)
+    action = request["action"]
+
+    try:
+        if action == "catalog":
+            return catalog_sqlalchemy(inspect(engine))
+
+        if action == "schemas":
+            return {"items": [{"name": name} for name in inspect(engine).get_schema_names()]}
+
+        if action == "tables":
+            inspector = inspect(engine)
+            tables = [{"name": name, "kind": "table"} for name in inspector.get_table_names(schema=request["schema"])]
+            views = [{"name": name, "kind": "view"} for name in inspector.get_view_names(schema=request["schema"])]
+            return {"items": tables + views}
+
+        if action == "columns":
+            columns = inspect(engine).get_columns(request["table"], schema=request["schema"])
+            return {"items": [{"name": column["name"], "type": str(column["type"])} for column in columns]}
+
+        # Let SQLAlchemy quote the identifiers and write the row limit in the dialect of the database
+        table = Table(request["table"], MetaData(), schema=request["schema"], autoload_with=engine)
+        with engine.connect() as connection:
+            result = connection.execute(select(table).limit(request["limit"]))
+            return {"columns": list(result.keys()), "rows": [list(row) for row in result]}
+    finally:
+        engine.dispose()
+
+
+def main():
+    credentials = json.loads(os.environ["DEEPNOTE_INTEGRATION_CREDENTIALS"])
+    request = json.loads(os.environ["DEEPNOTE_SCHEMA_REQUEST"])
+
+    try:
+        if credentials["url"].startswith("bigquery://"):
+            result = browse_bigquery(credentials["params"], request)
+        else:
+            result = browse_sqlalchemy(credentials["url"], credentials["params"], request)
+    except Exception as e:
+        print(json.dumps(format_error(e)))
+        return
+
+    # Values of previews may be dates, decimals or binary data, which JSON can't represent
+    print(json.dumps({"success": True, **result}, default=str))
+
+
+if __name__ == "__main__":
+    main()
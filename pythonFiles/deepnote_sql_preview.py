@@ -0,0 +1,68 @@
+"""Compiles the Jinja template of a Deepnote SQL block against the variables of the kernel, without running it.
+
+The extension runs this file in the kernel, followed by a call of _deepnote_preview_sql with the template.
+As when the block runs, values of {{ }} expressions become bind parameters, `sqlsafe` inlines a value
+and `inclause` binds each item of a list. The result is a JSON document:
+    {"success": true, "query": "...", "parameters": [{"name": "...", "type": "...", "value": "..."}],
+     "undefined": ["..."]}
+    {"success": false, "message": "...", "line": 1} when the template is invalid
+"""
+
+
+def _deepnote_preview_sql(template):
+    import json
+
+    import jinja2
+    from jinja2 import meta
+
+    max_value_length = 200
+
+    class SqlSafe(str):
+        pass
+
+    class InClause(list):
+        pass
+
+    parameters = []
+
+    def bind(value):
+        if isinstance(value, SqlSafe):
+            return value
+
+        if isinstance(value, InClause):
+            return "(" + ", ".join(bind(item) for item in value) + ")"
+
+        name = f"param_{len(parameters) + 1}"
+
+        if isinstance(value, jinja2.Undefined):
+            parameters.append({"name": name, "type": "undefined", "value": None})
+        else:
+            text = repr(value)
+            if len(text) > max_value_length:
+                text = text[:max_value_length] + "..."
+            parameters.append({"name": name, "type": type(value).__name__, "value": text})
+
+        return f"%({name})s"
+
+    environment = jinja2.Environment(finalize=bind)
+    environment.filters["sqlsafe"] = SqlSafe
+    environment.filters["inclause"] = InClause
+
+    try:
+        names = meta.find_undeclared_variables(environment.parse(template))
+        namespace = get_ipython().user_ns  # noqa: F821
+        variables = {name: namespace[name] for name in names if name in namespace}
+        query = environment.from_string(template).render(variables)
+    except jinja2.TemplateSyntaxError as e:
+        return json.dumps({"success": False, "message": e.message or str(e), "line": e.lineno})
+    except Exception as e:
+        return json.dumps({"success": False, "message": f"{type(e).__name__}: {e}"})
+
+    return json.dumps(
+        {
+            "success": True,
+            "query": query,
+            "parameters": parameters,
+            "undefined": sorted(name for name in names if name not in namespace),
+        }
+    )
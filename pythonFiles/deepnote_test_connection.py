@@ -0,0 +1,83 @@
+"""Tests the connection of a Deepnote SQL integration for the integrations panel.
+
+Reads the credentials from the DEEPNOTE_INTEGRATION_CREDENTIALS environment variable, in the format
+of the SQL_<INTEGRATION_ID> variables used by SQL blocks:
+    {"url": "...", "params": {...}, "param_style": "..."}
+
+runs a trivial query and writes one JSON line to stdout:
+    {"success": true} or {"success": false, "error_type": "...", "message": "..."}
+"""
+
+import base64
+import json
+import os
+
+
+def create_bigquery_client(params):
+    from google.cloud import bigquery
+    from google.oauth2 import service_account
+
+    credentials = service_account.Credentials.from_service_account_info(params["credentials"])
+    return bigquery.Client(project=params["project_id"], credentials=credentials)
+
+
+def create_sqlalchemy_engine(url, params):
+    from sqlalchemy import create_engine
+
+    connect_args = dict(params)
+    private_key = connect_args.pop("snowflake_private_key", None)
+    passphrase = connect_args.pop("snowflake_private_key_passphrase", None)
+
+    if private_key is not None:
+        from cryptography.hazmat.primitives import serialization
+
+        key = serialization.load_pem_private_key(
+            base64.b64decode(private_key), password=passphrase.encode() if passphrase else None
+        )
+        connect_args["private_key"] = key.private_bytes(
+            encoding=serialization.Encoding.DER,
+            format=serialization.PrivateFormat.PKCS8,
+            encryption_algorithm=serialization.NoEncryption(),
+        )
+
+    return create_engine(url, connect_args=connect_args)
+
+
+def format_error(e):
+    # SQLAlchemy wraps driver errors, whose messages tell auth, network and SSL failures apart
+    error = getattr(e, "orig", None) or e
+    return {"success": False, "error_type": type(error).__name__, "message": str(error).strip()}
+
+
+def test_bigquery(params):
+    create_bigquery_client(params).query("SELECT 1").result()
+
+
+def test_sqlalchemy(url, params):
+    from sqlalchemy import text
+
+    engine = create_sqlalchemy_engine(url, params)
+    try:
+        with engine.connect() as connection:
+            connection.execute(text("SELECT 1"))
+    finally:
+        engine.dispose()
+
+
+def main():
+    credentials = json.loads(os.environ["DEEPNOTE_INTEGRATION_CREDENTIALS"])
+
+    try:
+        if credentials["url"].startswith("bigquery://"):
+            test_bigquery(credentials["params"])
+        else:
+            test_sqlalchemy(credentials["url"], credentials["params"])
+    except Exception as e:
+        print(json.dumps(format_error(e)))
+        return
+
+    print(json.dumps({"success": True}))
+
+
+if __name__ == "__main__":
+    main()
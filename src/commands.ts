@@ -202,11 +202,20 @@ export interface ICommandNameArgumentTypeMapping {
     [DSCommands.NewProject]: [];
     [DSCommands.ImportNotebook]: [];
     [DSCommands.ImportJupyterNotebook]: [];
+    [DSCommands.ExportToJupyterNotebook]: [];
     [DSCommands.RenameProject]: [];
     [DSCommands.DeleteProject]: [];
     [DSCommands.RenameNotebook]: [];
     [DSCommands.DeleteNotebook]: [];
     [DSCommands.DuplicateNotebook]: [];
+    [DSCommands.OpenAllDeepnoteNotebooks]: [];
+    [DSCommands.ShowDeepnoteMergeConflicts]: [];
+    [DSCommands.CompareDeepnoteWithHead]: [Uri | undefined];
+    [DSCommands.CompareDeepnoteRevisions]: [Uri | undefined];
+    [DSCommands.RunWithParameters]: [];
+    [DSCommands.ReplayParameterSet]: [];
+    [DSCommands.CompareParameterSets]: [];
     [DSCommands.AddNotebookToProject]: [];
     [DSCommands.OpenInDeepnote]: [];
+    [DSCommands.RefreshDataSources]: [];
 }
@@ -34,6 +34,7 @@ import { getCachedSysPrefix } from '../../platform/interpreter/helpers';
 import { getCellMetadata } from '../../platform/common/utils';
 import { NotebookCellExecutionState, notebookCellExecutions } from '../../platform/notebooks/cellExecutionStateService';
 import { DeepnoteDataConverter } from '../../notebooks/deepnote/deepnoteDataConverter';
+import { cellCodeTransforms } from '../../platform/notebooks/cellCodeTransforms';
 
 /**
  * Factory for CellExecution objects.
@@ -421,7 +422,7 @@ export class CellExecution implements ICellExecution, IDisposable {
         const deepnoteBlock = dataConverter.convertCellToBlock(cellData, this.cell.index);
 
         logger.info(`Cell ${this.cell.index}: Using createPythonCode for ${deepnoteBlock.type} block`);
-        code = createPythonCode(deepnoteBlock);
+        code = cellCodeTransforms.apply(this.cell, createPythonCode(deepnoteBlock));
 
         // Generate metadata from our cell (some kernels expect this.)
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -49,7 +49,8 @@ import { ClearJupyterServersCommand } from './jupyter/clearJupyterServersCommand
 import { KernelChatStartupCodeProvider } from './chat/kernelStartupCodeProvider';
 import { KernelWorkingDirectory } from './raw/session/kernelWorkingDirectory.node';
 import { SqlIntegrationEnvironmentVariablesProvider } from '../platform/notebooks/deepnote/sqlIntegrationEnvironmentVariablesProvider';
-import { ISqlIntegrationEnvVarsProvider } from '../platform/notebooks/deepnote/types';
+import { IntegrationCredentialResolver } from '../platform/notebooks/deepnote/integrationCredentialResolver.node';
+import { IIntegrationCredentialResolver, ISqlIntegrationEnvVarsProvider } from '../platform/notebooks/deepnote/types';
 
 export function registerTypes(serviceManager: IServiceManager, isDevMode: boolean) {
     serviceManager.addSingleton<IExtensionSyncActivationService>(IExtensionSyncActivationService, Activation);
@@ -64,6 +65,10 @@ export function registerTypes(serviceManager: IServiceManager, isDevMode: boolea
     );
     serviceManager.addSingleton<IRawKernelSessionFactory>(IRawKernelSessionFactory, RawKernelSessionFactory);
     serviceManager.addSingleton<IKernelLauncher>(IKernelLauncher, KernelLauncher);
+    serviceManager.addSingleton<IIntegrationCredentialResolver>(
+        IIntegrationCredentialResolver,
+        IntegrationCredentialResolver
+    );
     serviceManager.addSingleton<ISqlIntegrationEnvVarsProvider>(
         ISqlIntegrationEnvVarsProvider,
         SqlIntegrationEnvironmentVariablesProvider
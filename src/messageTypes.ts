@@ -159,12 +159,40 @@ export type LocalizedMessages = {
     selectedImageLabel: string;
     dvDeprecationWarning: string;
     dataframeRowsColumns: string;
-    dataframePerPage: string;
-    dataframePreviousPage: string;
-    dataframeNextPage: string;
-    dataframePageOf: string;
+    dataframeLoadingRows: string;
+    dataframeRowsFromOutput: string;
+    dataframeRowsError: string;
     dataframeCopyTable: string;
     dataframeExportTable: string;
+    dataframeSortAscending: string;
+    dataframeSortDescending: string;
+    dataframeClearSort: string;
+    dataframeFilterColumn: string;
+    dataframeFilterValue: string;
+    dataframeFilterValuesHint: string;
+    dataframeFilterApply: string;
+    dataframeFilterClear: string;
+    dataframeDistinctValues: string;
+    dataframeValueRange: string;
+    dataframeMissingValues: string;
+    dataframeFilterIsEqual: string;
+    dataframeFilterIsNotEqual: string;
+    dataframeFilterIsOneOf: string;
+    dataframeFilterIsNotOneOf: string;
+    dataframeFilterIsNotNull: string;
+    dataframeFilterIsNull: string;
+    dataframeFilterTextContains: string;
+    dataframeFilterTextDoesNotContain: string;
+    dataframeFilterGreaterThan: string;
+    dataframeFilterGreaterThanOrEqual: string;
+    dataframeFilterLessThan: string;
+    dataframeFilterLessThanOrEqual: string;
+    dataframeFilterBetween: string;
+    dataframeFilterOutsideOf: string;
+    dataframeFilterIsRelativeToday: string;
+    dataframeFilterIsAfter: string;
+    dataframeFilterIsBefore: string;
+    dataframeFilterIsOn: string;
     // Integration panel strings
     integrationsTitle: string;
     integrationsNoIntegrationsFound: string;
@@ -183,6 +211,12 @@ export type LocalizedMessages = {
     integrationsPostgresTypeLabel: string;
     integrationsBigQueryTypeLabel: string;
     integrationsSnowflakeTypeLabel: string;
+    integrationsMySqlTypeLabel: string;
+    integrationsMariaDbTypeLabel: string;
+    integrationsSqlServerTypeLabel: string;
+    integrationsRedshiftTypeLabel: string;
+    integrationsClickHouseTypeLabel: string;
+    integrationsTrinoTypeLabel: string;
     // PostgreSQL form strings
     integrationsPostgresNameLabel: string;
     integrationsPostgresNamePlaceholder: string;
@@ -214,6 +248,19 @@ export type LocalizedMessages = {
     integrationsSnowflakeAuthMethodSubLabel: string;
     integrationsSnowflakeAuthMethodUsernamePassword: string;
     integrationsSnowflakeAuthMethodKeyPair: string;
+    integrationsSnowflakeAuthMethodUserKeyPair: string;
+    integrationsSnowflakeAuthMethodExternalBrowser: string;
+    integrationsSnowflakeAuthMethodNativeOAuth: string;
+    integrationsSnowflakeAuthMethodOkta: string;
+    integrationsSnowflakeAuthMethodAzureAd: string;
+    integrationsSnowflakeExternalBrowserHelp: string;
+    integrationsSnowflakeOAuthHelp: string;
+    integrationsSnowflakeOktaSubdomainLabel: string;
+    integrationsSnowflakeOktaAuthorizationServerLabel: string;
+    integrationsSnowflakeAzureTenantLabel: string;
+    integrationsSnowflakeAzureResourceLabel: string;
+    integrationsSnowflakeClientIdLabel: string;
+    integrationsSnowflakeClientSecretLabel: string;
     integrationsSnowflakeUnsupportedAuthMethod: string;
     integrationsSnowflakeUsernameLabel: string;
     integrationsSnowflakePasswordLabel: string;
@@ -231,6 +278,38 @@ export type LocalizedMessages = {
     integrationsSnowflakeRolePlaceholder: string;
     integrationsSnowflakeWarehouseLabel: string;
     integrationsSnowflakeWarehousePlaceholder: string;
+    // Database server form strings
+    integrationsServerNameLabel: string;
+    integrationsServerNamePlaceholder: string;
+    integrationsServerHostLabel: string;
+    integrationsServerPortLabel: string;
+    integrationsServerDatabaseLabel: string;
+    integrationsServerDatabasePlaceholder: string;
+    integrationsServerCatalogLabel: string;
+    integrationsServerCatalogPlaceholder: string;
+    integrationsServerSchemaLabel: string;
+    integrationsServerUsernameLabel: string;
+    integrationsServerPasswordLabel: string;
+    integrationsServerPasswordOptionalLabel: string;
+    integrationsServerPasswordPlaceholder: string;
+    integrationsServerSslLabel: string;
+    integrationsServerHttpsLabel: string;
+    // Connection test strings
+    integrationsTestConnection: string;
+    integrationsTestingConnection: string;
+    integrationsConnectionSuccessful: string;
+    integrationsConnectionError: string;
+    integrationsConnectionFailed: string;
+    integrationsConnectionFailedAuth: string;
+    integrationsConnectionFailedNetwork: string;
+    integrationsConnectionFailedSsl: string;
+    integrationsConnectionFailedDriver: string;
+    integrationsConnectionFailedEnvironment: string;
+    integrationsCredentialSourcesTitle: string;
+    integrationsCredentialSourceEnv: string;
+    integrationsCredentialSourceDotenv: string;
+    integrationsCredentialSourceUndefined: string;
+    integrationsCredentialReferencesHint: string;
     // Common form strings
     integrationsRequiredField: string;
     integrationsOptionalField: string;
@@ -253,6 +332,44 @@ export type LocalizedMessages = {
     saveButton: string;
     cancelButton: string;
     failedToSave: string;
+    // Chart editor strings
+    chartEditorTitle: string;
+    chartEditorDataframe: string;
+    chartEditorDataframePlaceholder: string;
+    chartEditorReloadDataframes: string;
+    chartEditorLoadingDataframes: string;
+    chartEditorKernelNotRunning: string;
+    chartEditorUnsupportedSpec: string;
+    chartEditorChartType: string;
+    chartEditorChartTypeBar: string;
+    chartEditorChartTypeLine: string;
+    chartEditorChartTypeArea: string;
+    chartEditorChartTypePoint: string;
+    chartEditorChartTypeArc: string;
+    chartEditorChannelX: string;
+    chartEditorChannelY: string;
+    chartEditorChannelValue: string;
+    chartEditorChannelColor: string;
+    chartEditorChannelSize: string;
+    chartEditorNoColumn: string;
+    chartEditorNoAggregate: string;
+    chartEditorAggregateCount: string;
+    chartEditorAggregateSum: string;
+    chartEditorAggregateMean: string;
+    chartEditorAggregateMedian: string;
+    chartEditorAggregateMin: string;
+    chartEditorAggregateMax: string;
+    chartEditorFilters: string;
+    chartEditorAddFilter: string;
+    chartEditorRemoveFilter: string;
+    chartEditorSave: string;
+    chartEditorCancel: string;
+    chartNoVariable: string;
+    chartUnknownVariable: string;
+    chartMissingChannel: string;
+    chartUnknownColumn: string;
+    chartAggregateNotNumeric: string;
+    chartFilterValues: string;
 };
 // Map all messages to specific payloads
 export class IInteractiveWindowMapping {
@@ -0,0 +1,369 @@
+import {
+    Disposable,
+    NotebookCell,
+    Range,
+    Uri,
+    ViewColumn,
+    WebviewPanel,
+    window,
+    workspace,
+    WorkspaceEdit
+} from 'vscode';
+import { inject, injectable } from 'inversify';
+
+import { IExtensionContext } from '../../platform/common/types';
+import { LocalizedMessages } from '../../messageTypes';
+import * as localize from '../../platform/common/utils/localize';
+import {
+    buildChartSpec,
+    type ChartModel,
+    type DataframeInfo,
+    parseChartSpec,
+    validateChart
+} from '../../platform/deepnote/chartSpec';
+import type { DataframeFilter } from '../../platform/deepnote/dataframeFilters';
+import { ChartEditorWebviewMessage } from '../../platform/notebooks/deepnote/types';
+import { WrappedError } from '../../platform/errors/types';
+import { logger } from '../../platform/logging';
+import { KernelDataframes } from './kernelDataframes';
+
+/**
+ * Manages the webview panel that edits the chart of a visualization block
+ */
+@injectable()
+export class ChartEditorWebviewProvider {
+    private currentPanel: WebviewPanel | undefined;
+    private currentPanelId: number = 0;
+    private readonly disposables: Disposable[] = [];
+    private currentCell: NotebookCell | undefined;
+    /** Vega-Lite spec of the block when the editor opened, whose other settings are kept on save */
+    private currentSpec: Record<string, unknown> = {};
+    private dataframes: DataframeInfo[] | undefined;
+
+    constructor(
+        @inject(IExtensionContext) private readonly extensionContext: IExtensionContext,
+        @inject(KernelDataframes) private readonly kernelDataframes: KernelDataframes
+    ) {}
+
+    /**
+     * Show the chart editor of a visualization block
+     */
+    public async show(cell: NotebookCell): Promise<void> {
+        const column = window.activeTextEditor ? window.activeTextEditor.viewColumn : ViewColumn.One;
+
+        this.currentPanel?.dispose();
+
+        // Increment panel ID to track this specific panel instance
+        this.currentPanelId++;
+        const panelId = this.currentPanelId;
+
+        this.currentCell = cell;
+        this.dataframes = undefined;
+
+        this.currentPanel = window.createWebviewPanel(
+            'deepnoteChartEditor',
+            localize.ChartEditor.title,
+            column || ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [this.extensionContext.extensionUri]
+            }
+        );
+
+        this.currentPanel.webview.html = this.getWebviewContent();
+
+        this.currentPanel.webview.onDidReceiveMessage(
+            async (message: ChartEditorWebviewMessage) => {
+                await this.handleMessage(message);
+            },
+            null,
+            this.disposables
+        );
+
+        // Reset when the current panel is closed
+        // Guard with panel identity to prevent old panels from affecting new ones
+        this.currentPanel.onDidDispose(
+            () => {
+                if (this.currentPanelId === panelId) {
+                    this.currentPanel = undefined;
+                    this.currentCell = undefined;
+                    this.disposables.forEach((d) => d.dispose());
+                    this.disposables.length = 0;
+                }
+            },
+            null,
+            this.disposables
+        );
+
+        await this.sendLocStrings();
+        await this.sendInitialData();
+    }
+
+    private async sendInitialData(): Promise<void> {
+        if (!this.currentPanel || !this.currentCell) {
+            return;
+        }
+
+        let config: { variable?: unknown; spec?: unknown; filters?: unknown } = {};
+
+        try {
+            config = JSON.parse(this.currentCell.document.getText() || '{}') ?? {};
+        } catch (error) {
+            // Start from an empty chart, saving replaces the invalid JSON
+            logger.warn('ChartEditorWebview: The visualization block is not valid JSON', error);
+        }
+
+        this.currentSpec =
+            config.spec && typeof config.spec === 'object' ? (config.spec as Record<string, unknown>) : {};
+
+        const { chartType, encodings, isSupported } = parseChartSpec(this.currentSpec);
+        const chart: ChartModel = {
+            variable: typeof config.variable === 'string' ? config.variable : '',
+            chartType,
+            encodings,
+            filters: Array.isArray(config.filters) ? (config.filters as DataframeFilter[]) : []
+        };
+        const isLoadingDataframes = this.kernelDataframes.isKernelRunning(this.currentCell.notebook);
+
+        await this.currentPanel.webview.postMessage({
+            type: 'init',
+            chart,
+            isSupportedSpec: isSupported,
+            isLoadingDataframes
+        });
+
+        if (isLoadingDataframes) {
+            await this.sendDataframes(false);
+        }
+    }
+
+    /**
+     * Sends the DataFrames of the kernel, read again when the user reloads them
+     */
+    private async sendDataframes(refresh: boolean): Promise<void> {
+        const panel = this.currentPanel;
+        const cell = this.currentCell;
+
+        if (!panel || !cell) {
+            return;
+        }
+
+        const dataframes = await this.kernelDataframes.list(cell.notebook, refresh);
+
+        // The panel may have been closed, or opened for another block, while the kernel was busy
+        if (this.currentPanel !== panel) {
+            return;
+        }
+
+        this.dataframes = dataframes;
+
+        await panel.webview.postMessage({ type: 'dataframes', dataframes });
+    }
+
+    private async sendLocStrings(): Promise<void> {
+        if (!this.currentPanel) {
+            return;
+        }
+
+        const locStrings: Partial<LocalizedMessages> = {
+            chartEditorTitle: localize.ChartEditor.title,
+            chartEditorDataframe: localize.ChartEditor.dataframeLabel,
+            chartEditorDataframePlaceholder: localize.ChartEditor.dataframePlaceholder,
+            chartEditorReloadDataframes: localize.ChartEditor.reloadDataframes,
+            chartEditorLoadingDataframes: localize.ChartEditor.loadingDataframes,
+            chartEditorKernelNotRunning: localize.ChartEditor.kernelNotRunning,
+            chartEditorUnsupportedSpec: localize.ChartEditor.unsupportedSpec,
+            chartEditorChartType: localize.ChartEditor.chartTypeLabel,
+            chartEditorChartTypeBar: localize.ChartEditor.chartTypeBar,
+            chartEditorChartTypeLine: localize.ChartEditor.chartTypeLine,
+            chartEditorChartTypeArea: localize.ChartEditor.chartTypeArea,
+            chartEditorChartTypePoint: localize.ChartEditor.chartTypePoint,
+            chartEditorChartTypeArc: localize.ChartEditor.chartTypeArc,
+            chartEditorChannelX: localize.ChartEditor.channelX,
+            chartEditorChannelY: localize.ChartEditor.channelY,
+            chartEditorChannelValue: localize.ChartEditor.channelValue,
+            chartEditorChannelColor: localize.ChartEditor.channelColor,
+            chartEditorChannelSize: localize.ChartEditor.channelSize,
+            chartEditorNoColumn: localize.ChartEditor.noColumn,
+            chartEditorNoAggregate: localize.ChartEditor.noAggregate,
+            chartEditorAggregateCount: localize.ChartEditor.aggregateCount,
+            chartEditorAggregateSum: localize.ChartEditor.aggregateSum,
+            chartEditorAggregateMean: localize.ChartEditor.aggregateMean,
+            chartEditorAggregateMedian: localize.ChartEditor.aggregateMedian,
+            chartEditorAggregateMin: localize.ChartEditor.aggregateMin,
+            chartEditorAggregateMax: localize.ChartEditor.aggregateMax,
+            chartEditorFilters: localize.ChartEditor.filtersTitle,
+            chartEditorAddFilter: localize.ChartEditor.addFilter,
+            chartEditorRemoveFilter: localize.ChartEditor.removeFilter,
+            chartEditorSave: localize.ChartEditor.saveButton,
+            chartEditorCancel: localize.ChartEditor.cancelButton,
+            chartNoVariable: localize.ChartEditor.noVariable,
+            chartUnknownVariable: localize.ChartEditor.unknownVariable,
+            chartMissingChannel: localize.ChartEditor.missingChannel,
+            chartUnknownColumn: localize.ChartEditor.unknownColumn,
+            chartAggregateNotNumeric: localize.ChartEditor.aggregateNotNumeric,
+            chartFilterValues: localize.ChartEditor.filterValues,
+            dataframeFilterValue: localize.WebViews.dataframeFilterValue,
+            dataframeFilterValuesHint: localize.WebViews.dataframeFilterValuesHint,
+            dataframeFilterIsEqual: localize.WebViews.dataframeFilterIsEqual,
+            dataframeFilterIsNotEqual: localize.WebViews.dataframeFilterIsNotEqual,
+            dataframeFilterIsOneOf: localize.WebViews.dataframeFilterIsOneOf,
+            dataframeFilterIsNotOneOf: localize.WebViews.dataframeFilterIsNotOneOf,
+            dataframeFilterIsNotNull: localize.WebViews.dataframeFilterIsNotNull,
+            dataframeFilterIsNull: localize.WebViews.dataframeFilterIsNull,
+            dataframeFilterTextContains: localize.WebViews.dataframeFilterTextContains,
+            dataframeFilterTextDoesNotContain: localize.WebViews.dataframeFilterTextDoesNotContain,
+            dataframeFilterGreaterThan: localize.WebViews.dataframeFilterGreaterThan,
+            dataframeFilterGreaterThanOrEqual: localize.WebViews.dataframeFilterGreaterThanOrEqual,
+            dataframeFilterLessThan: localize.WebViews.dataframeFilterLessThan,
+            dataframeFilterLessThanOrEqual: localize.WebViews.dataframeFilterLessThanOrEqual,
+            dataframeFilterBetween: localize.WebViews.dataframeFilterBetween,
+            dataframeFilterOutsideOf: localize.WebViews.dataframeFilterOutsideOf,
+            dataframeFilterIsRelativeToday: localize.WebViews.dataframeFilterIsRelativeToday,
+            dataframeFilterIsAfter: localize.WebViews.dataframeFilterIsAfter,
+            dataframeFilterIsBefore: localize.WebViews.dataframeFilterIsBefore,
+            dataframeFilterIsOn: localize.WebViews.dataframeFilterIsOn
+        };
+
+        await this.currentPanel.webview.postMessage({
+            type: 'locInit',
+            locStrings
+        });
+    }
+
+    private async handleMessage(message: ChartEditorWebviewMessage): Promise<void> {
+        switch (message.type) {
+            case 'refreshDataframes':
+                await this.sendDataframes(true);
+                break;
+
+            case 'save': {
+                // The webview validates the chart as it is edited, but the DataFrames may have changed since
+                const issues = validateChart(message.chart, this.dataframes);
+
+                if (issues.length > 0) {
+                    await this.currentPanel?.webview.postMessage({ type: 'validation', issues });
+                    break;
+                }
+
+                try {
+                    await this.saveChart(message.chart);
+                    this.currentPanel?.dispose();
+                } catch (error) {
+                    // Error is already shown to user in saveChart, the panel remains open for retry
+                    logger.error('ChartEditorWebview: Failed to save chart', error);
+                }
+                break;
+            }
+
+            case 'cancel':
+                this.currentPanel?.dispose();
+                break;
+
+            case 'init':
+            case 'dataframes':
+            case 'validation':
+            case 'locInit':
+                // These messages are sent from extension to webview, not handled here
+                break;
+        }
+    }
+
+    /**
+     * Replaces the JSON of the visualization block, which its converter turns into the metadata of the block
+     */
+    private async saveChart(chart: ChartModel): Promise<void> {
+        if (!this.currentCell) {
+            return;
+        }
+
+        const document = this.currentCell.document;
+        const spec = buildChartSpec(
+            chart,
+            this.currentSpec,
+            this.dataframes?.find((dataframe) => dataframe.name === chart.variable)
+        );
+        const content = JSON.stringify({ variable: chart.variable, spec, filters: chart.filters }, null, 2);
+        const edit = new WorkspaceEdit();
+
+        edit.replace(document.uri, new Range(0, 0, document.lineCount, 0), content);
+
+        try {
+            const success = await workspace.applyEdit(edit);
+            if (!success) {
+                throw new Error('The edit was not applied');
+            }
+        } catch (error) {
+            const errorMessage = localize.ChartEditor.failedToSave;
+            const cause = error instanceof Error ? error : undefined;
+            logger.error(`${errorMessage}: ${cause?.message || String(error)}`, error);
+            void window.showErrorMessage(errorMessage);
+            throw new WrappedError(errorMessage, cause);
+        }
+
+        this.currentSpec = spec;
+    }
+
+    private getWebviewContent(): string {
+        if (!this.currentPanel) {
+            return '';
+        }
+
+        const webview = this.currentPanel.webview;
+        const nonce = this.getNonce();
+
+        const scriptUri = webview.asWebviewUri(
+            Uri.joinPath(
+                this.extensionContext.extensionUri,
+                'dist',
+                'webviews',
+                'webview-side',
+                'chartEditor',
+                'index.js'
+            )
+        );
+        const codiconUri = webview.asWebviewUri(
+            Uri.joinPath(
+                this.extensionContext.extensionUri,
+                'dist',
+                'webviews',
+                'webview-side',
+                'react-common',
+                'codicon',
+                'codicon.css'
+            )
+        );
+
+        const title = localize.ChartEditor.title;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource};">
+    <link rel="stylesheet" href="${codiconUri}">
+    <title>${title}</title>
+</head>
+<body>
+    <div id="root"></div>
+    <script nonce="${nonce}" type="module" src="${scriptUri}"></script>
+</body>
+</html>`;
+    }
+
+    private getNonce(): string {
+        let text = '';
+        const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+        for (let i = 0; i < 32; i++) {
+            text += possible.charAt(Math.floor(Math.random() * possible.length));
+        }
+        return text;
+    }
+
+    public dispose(): void {
+        this.currentPanel?.dispose();
+        this.disposables.forEach((d) => d.dispose());
+    }
+}
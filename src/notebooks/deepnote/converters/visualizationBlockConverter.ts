@@ -1,32 +1,9 @@
 import { NotebookCellData, NotebookCellKind } from 'vscode';
 
 import type { BlockConverter } from './blockConverter';
+import type { DataframeFilter } from '../../../platform/deepnote/dataframeFilters';
 import type { DeepnoteBlock } from '../../../platform/deepnote/deepnoteTypes';
 
-type DataframeFilter = {
-    column: string;
-    operator:
-        | 'is-equal'
-        | 'is-not-equal'
-        | 'is-one-of'
-        | 'is-not-one-of'
-        | 'is-not-null'
-        | 'is-null'
-        | 'text-contains'
-        | 'text-does-not-contain'
-        | 'greater-than'
-        | 'greater-than-or-equal'
-        | 'less-than'
-        | 'less-than-or-equal'
-        | 'between'
-        | 'outside-of'
-        | 'is-relative-today'
-        | 'is-after'
-        | 'is-before'
-        | 'is-on';
-    comparativeValues: string[];
-};
-
 interface FilterMetadata {
     /** @deprecated Use advancedFilters instead */
     filter?: unknown;
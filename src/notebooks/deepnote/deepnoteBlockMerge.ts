@@ -0,0 +1,151 @@
+import type { DeepnoteBlock } from '../../platform/deepnote/deepnoteTypes';
+
+/**
+ * A block that was changed both in the editor and on disk in incompatible ways.
+ * A missing side means the block was deleted on that side.
+ */
+export interface BlockConflict {
+    blockId: string;
+    base: DeepnoteBlock | undefined;
+    local: DeepnoteBlock | undefined;
+    remote: DeepnoteBlock | undefined;
+}
+
+export interface BlockMergeResult {
+    blocks: DeepnoteBlock[];
+    conflicts: BlockConflict[];
+}
+
+const simpleSortingKeyPattern = /^([a-z]+)(\d+)$/;
+
+/**
+ * Compares two block sorting keys.
+ * Keys generated by this extension (a0, a1, ..., a10) are compared by their numeric part,
+ * all other keys are compared as plain strings (the way Deepnote orders them).
+ */
+export function compareSortingKeys(a: string, b: string): number {
+    const matchA = simpleSortingKeyPattern.exec(a);
+    const matchB = simpleSortingKeyPattern.exec(b);
+
+    if (matchA && matchB && matchA[1] === matchB[1]) {
+        return Number(matchA[2]) - Number(matchB[2]);
+    }
+
+    if (a === b) {
+        return 0;
+    }
+
+    return a < b ? -1 : 1;
+}
+
+/**
+ * Checks whether two blocks have the same user-visible content.
+ * Outputs, execution counts and block groups are not compared, they only follow the chosen side.
+ */
+export function areBlocksEqual(a: DeepnoteBlock | undefined, b: DeepnoteBlock | undefined): boolean {
+    if (!a || !b) {
+        return a === b;
+    }
+
+    return stableStringify(getComparableFields(a)) === stableStringify(getComparableFields(b));
+}
+
+/**
+ * Performs a three-way merge of a notebook's blocks by block ID.
+ *
+ * Blocks changed on only one side take that side's version. Blocks changed on both sides
+ * keep the local (in-editor) version and are reported as conflicts, as are blocks deleted
+ * on one side and modified on the other. The result is ordered by sorting key.
+ *
+ * @param base The blocks as they were last loaded or saved
+ * @param local The blocks currently in the editor
+ * @param remote The blocks currently on disk
+ */
+export function mergeBlocks(base: DeepnoteBlock[], local: DeepnoteBlock[], remote: DeepnoteBlock[]): BlockMergeResult {
+    const baseById = new Map(base.map((block) => [block.id, block]));
+    const localById = new Map(local.map((block) => [block.id, block]));
+    const remoteById = new Map(remote.map((block) => [block.id, block]));
+
+    const blockIds = [...local.map((block) => block.id), ...remote.map((block) => block.id)].filter(
+        (id, index, ids) => ids.indexOf(id) === index
+    );
+
+    const merged: DeepnoteBlock[] = [];
+    const conflicts: BlockConflict[] = [];
+
+    for (const blockId of blockIds) {
+        const baseBlock = baseById.get(blockId);
+        const localBlock = localById.get(blockId);
+        const remoteBlock = remoteById.get(blockId);
+
+        const resolved = resolveBlock(baseBlock, localBlock, remoteBlock);
+
+        if (resolved.conflict) {
+            conflicts.push({ blockId, base: baseBlock, local: localBlock, remote: remoteBlock });
+        }
+
+        if (resolved.block) {
+            merged.push(resolved.block);
+        }
+    }
+
+    const originalIndex = new Map(merged.map((block, index) => [block.id, index]));
+
+    merged.sort(
+        (a, b) =>
+            compareSortingKeys(a.sortingKey, b.sortingKey) ||
+            (originalIndex.get(a.id) ?? 0) - (originalIndex.get(b.id) ?? 0)
+    );
+
+    return { blocks: merged, conflicts };
+}
+
+function resolveBlock(
+    base: DeepnoteBlock | undefined,
+    local: DeepnoteBlock | undefined,
+    remote: DeepnoteBlock | undefined
+): { block: DeepnoteBlock | undefined; conflict: boolean } {
+    if (areBlocksEqual(local, remote)) {
+        return { block: local, conflict: false };
+    }
+
+    if (areBlocksEqual(local, base)) {
+        return { block: remote, conflict: false };
+    }
+
+    if (areBlocksEqual(remote, base)) {
+        return { block: local, conflict: false };
+    }
+
+    // Both sides changed the block. Never drop a modified block, so a block that was deleted
+    // on one side and edited on the other is kept.
+    return { block: local ?? remote, conflict: true };
+}
+
+function getComparableFields(block: DeepnoteBlock): Record<string, unknown> {
+    return {
+        content: block.content ?? '',
+        metadata: block.metadata ?? {},
+        sortingKey: block.sortingKey,
+        type: block.type
+    };
+}
+
+/**
+ * Serializes a value to JSON with object keys in sorted order, so that values which only
+ * differ in key order produce the same string.
+ */
+export function stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_key, val) => {
+        if (val && typeof val === 'object' && !Array.isArray(val)) {
+            return Object.keys(val)
+                .sort()
+                .reduce<Record<string, unknown>>((sorted, key) => {
+                    sorted[key] = val[key];
+                    return sorted;
+                }, {});
+        }
+
+        return val;
+    });
+}
@@ -0,0 +1,164 @@
+import { assert } from 'chai';
+
+import { areBlocksEqual, compareSortingKeys, mergeBlocks } from './deepnoteBlockMerge';
+import type { DeepnoteBlock } from '../../platform/deepnote/deepnoteTypes';
+
+function createBlock(id: string, content: string, sortingKey: string, type = 'code'): DeepnoteBlock {
+    return { id, content, sortingKey, type, metadata: {} };
+}
+
+suite('deepnoteBlockMerge', () => {
+    suite('compareSortingKeys', () => {
+        test('should compare generated keys by their numeric part', () => {
+            assert.isBelow(compareSortingKeys('a2', 'a10'), 0);
+            assert.isAbove(compareSortingKeys('a10', 'a9'), 0);
+        });
+
+        test('should compare other keys as strings', () => {
+            assert.isBelow(compareSortingKeys('a0', 'b0'), 0);
+            assert.isBelow(compareSortingKeys('0V', 'a'), 0);
+            assert.strictEqual(compareSortingKeys('a0V', 'a0V'), 0);
+        });
+    });
+
+    suite('areBlocksEqual', () => {
+        test('should ignore outputs and execution counts', () => {
+            const a = { ...createBlock('1', 'x = 1', 'a0'), outputs: [{ output_type: 'stream' }], executionCount: 1 };
+            const b = { ...createBlock('1', 'x = 1', 'a0'), outputs: [], executionCount: 2 };
+
+            assert.isTrue(areBlocksEqual(a, b));
+        });
+
+        test('should ignore metadata key order', () => {
+            const a = { ...createBlock('1', '', 'a0'), metadata: { first: 1, second: { x: 1, y: 2 } } };
+            const b = { ...createBlock('1', '', 'a0'), metadata: { second: { y: 2, x: 1 }, first: 1 } };
+
+            assert.isTrue(areBlocksEqual(a, b));
+        });
+
+        test('should detect content changes', () => {
+            assert.isFalse(areBlocksEqual(createBlock('1', 'x = 1', 'a0'), createBlock('1', 'x = 2', 'a0')));
+        });
+
+        test('should treat a missing block as different from an existing one', () => {
+            assert.isFalse(areBlocksEqual(createBlock('1', '', 'a0'), undefined));
+            assert.isTrue(areBlocksEqual(undefined, undefined));
+        });
+    });
+
+    suite('mergeBlocks', () => {
+        const base = [
+            createBlock('1', 'a = 1', 'a0'),
+            createBlock('2', 'b = 1', 'a1'),
+            createBlock('3', 'c = 1', 'a2')
+        ];
+
+        test('should take remote changes to blocks unchanged in the editor', () => {
+            const local = base;
+            const remote = [base[0], createBlock('2', 'b = 2', 'a1'), base[2]];
+
+            const result = mergeBlocks(base, local, remote);
+
+            assert.deepStrictEqual(
+                result.blocks.map((b) => b.content),
+                ['a = 1', 'b = 2', 'c = 1']
+            );
+            assert.isEmpty(result.conflicts);
+        });
+
+        test('should combine changes to different blocks', () => {
+            const local = [createBlock('1', 'a = 2', 'a0'), base[1], base[2]];
+            const remote = [base[0], base[1], createBlock('3', 'c = 2', 'a2')];
+
+            const result = mergeBlocks(base, local, remote);
+
+            assert.deepStrictEqual(
+                result.blocks.map((b) => b.content),
+                ['a = 2', 'b = 1', 'c = 2']
+            );
+            assert.isEmpty(result.conflicts);
+        });
+
+        test('should keep blocks added on either side in sorting key order', () => {
+            const local = [...base, createBlock('local-new', 'local', 'a3')];
+            const remote = [base[0], createBlock('remote-new', 'remote', 'a0V'), base[1], base[2]];
+
+            const result = mergeBlocks(base, local, remote);
+
+            assert.deepStrictEqual(
+                result.blocks.map((b) => b.id),
+                ['1', 'remote-new', '2', '3', 'local-new']
+            );
+        });
+
+        test('should apply moves made on disk', () => {
+            const remote = [base[1], base[2], createBlock('1', 'a = 1', 'a3')];
+
+            const result = mergeBlocks(base, base, remote);
+
+            assert.deepStrictEqual(
+                result.blocks.map((b) => b.id),
+                ['2', '3', '1']
+            );
+        });
+
+        test('should drop blocks deleted on one side and unchanged on the other', () => {
+            const local = [base[0], base[1]];
+            const remote = [base[1], base[2]];
+
+            const result = mergeBlocks(base, local, remote);
+
+            assert.deepStrictEqual(
+                result.blocks.map((b) => b.id),
+                ['2']
+            );
+            assert.isEmpty(result.conflicts);
+        });
+
+        test('should report a conflict and keep the editor version when both sides changed a block', () => {
+            const local = [base[0], createBlock('2', 'b = local', 'a1'), base[2]];
+            const remote = [base[0], createBlock('2', 'b = remote', 'a1'), base[2]];
+
+            const result = mergeBlocks(base, local, remote);
+
+            assert.strictEqual(result.blocks[1].content, 'b = local');
+            assert.strictEqual(result.conflicts.length, 1);
+            assert.strictEqual(result.conflicts[0].blockId, '2');
+            assert.strictEqual(result.conflicts[0].remote?.content, 'b = remote');
+            assert.strictEqual(result.conflicts[0].base?.content, 'b = 1');
+        });
+
+        test('should not report a conflict when both sides made the same change', () => {
+            const changed = createBlock('2', 'b = 2', 'a1');
+
+            const result = mergeBlocks(base, [base[0], changed, base[2]], [base[0], { ...changed }, base[2]]);
+
+            assert.isEmpty(result.conflicts);
+        });
+
+        test('should keep a block deleted on disk but changed in the editor as a conflict', () => {
+            const local = [base[0], createBlock('2', 'b = local', 'a1'), base[2]];
+            const remote = [base[0], base[2]];
+
+            const result = mergeBlocks(base, local, remote);
+
+            assert.deepStrictEqual(
+                result.blocks.map((b) => b.id),
+                ['1', '2', '3']
+            );
+            assert.strictEqual(result.conflicts.length, 1);
+            assert.isUndefined(result.conflicts[0].remote);
+        });
+
+        test('should keep a block deleted in the editor but changed on disk as a conflict', () => {
+            const local = [base[0], base[2]];
+            const remote = [base[0], createBlock('2', 'b = remote', 'a1'), base[2]];
+
+            const result = mergeBlocks(base, local, remote);
+
+            assert.strictEqual(result.blocks[1].content, 'b = remote');
+            assert.strictEqual(result.conflicts.length, 1);
+            assert.isUndefined(result.conflicts[0].local);
+        });
+    });
+});
@@ -63,6 +63,14 @@ export class DeepnoteDataConverter {
         return this.registry.findConverter(blockType);
     }
 
+    /**
+     * Lists the block types that have a dedicated converter.
+     * @returns Sorted array of supported block types
+     */
+    public getSupportedBlockTypes(): string[] {
+        return this.registry.listSupportedTypes();
+    }
+
     /**
      * Converts Deepnote blocks to VS Code notebook cells.
      * Sorts blocks by sortingKey before conversion to maintain proper order.
@@ -1,17 +1,25 @@
 import { injectable, inject } from 'inversify';
-import { commands, window, workspace, type TreeView, Uri, l10n } from 'vscode';
+import { commands, window, workspace, type NotebookDocument, type TreeView, Uri, l10n } from 'vscode';
 import * as yaml from 'js-yaml';
+import type * as nbformat from '@jupyterlab/nbformat';
 import { DeepnoteBlock, DeepnoteFile } from '@deepnote/blocks';
 import { convertIpynbFilesToDeepnoteFile } from '@deepnote/convert';
 
+import { getDisplayPath } from '../../platform/common/platform/fs-paths';
 import { IExtensionContext } from '../../platform/common/types';
 import { IDeepnoteNotebookManager } from '../types';
 import { DeepnoteTreeDataProvider } from './deepnoteTreeDataProvider';
 import { type DeepnoteTreeItem, DeepnoteTreeItemType, type DeepnoteTreeItemContext } from './deepnoteTreeItem';
 import { generateUuid } from '../../platform/common/uuid';
+import * as path from '../../platform/vscode-path/path';
 import type { DeepnoteNotebook } from '../../platform/deepnote/deepnoteTypes';
 import { Commands } from '../../platform/common/constants';
 import { readDeepnoteProjectFile } from './deepnoteProjectUtils';
+import {
+    convertDeepnoteNotebookToIpynb,
+    convertIpynbExportsToDeepnoteFile,
+    isDeepnoteIpynbExport
+} from './deepnoteIpynbExport';
 import { ILogger } from '../../platform/logging/types';
 
 /**
@@ -191,6 +199,158 @@ export class DeepnoteExplorerView {
         }
     }
 
+    public async openAllNotebooks(treeItem: DeepnoteTreeItem): Promise<void> {
+        if (treeItem.type !== DeepnoteTreeItemType.ProjectFile) {
+            return;
+        }
+
+        try {
+            const fileUri = Uri.file(treeItem.context.filePath);
+            const projectData = await readDeepnoteProjectFile(fileUri);
+
+            if (!projectData?.project?.notebooks) {
+                await window.showErrorMessage(l10n.t('Invalid Deepnote file format'));
+                return;
+            }
+
+            const notebooks = projectData.project.notebooks.filter(
+                (nb: DeepnoteNotebook) => nb.id !== projectData.project.initNotebookId
+            );
+
+            // Every notebook gets its own document URI, so all notebooks of the project can be open
+            // and edited side by side.
+            for (const notebook of notebooks) {
+                const notebookUri = fileUri.with({ query: `notebook=${notebook.id}` });
+                const document = await this.openNotebookDocument(projectData.project.id, notebookUri);
+
+                await window.showNotebookDocument(document, {
+                    preserveFocus: false,
+                    preview: false
+                });
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            await window.showErrorMessage(l10n.t('Failed to open notebooks: {0}', errorMessage));
+        }
+    }
+
+    /**
+     * Exports a notebook, or every notebook of a project, to .ipynb files.
+     * Without a tree item the notebook in the active editor is exported.
+     * @param treeItem The notebook or project file to export
+     */
+    public async exportToJupyterNotebook(treeItem?: DeepnoteTreeItem): Promise<void> {
+        let fileUri: Uri;
+        let notebookId: string | undefined;
+
+        if (treeItem) {
+            if (treeItem.type !== DeepnoteTreeItemType.Notebook && treeItem.type !== DeepnoteTreeItemType.ProjectFile) {
+                return;
+            }
+
+            fileUri = Uri.file(treeItem.context.filePath);
+            notebookId = treeItem.type === DeepnoteTreeItemType.Notebook ? treeItem.context.notebookId : undefined;
+        } else {
+            const activeEditor = window.activeNotebookEditor;
+
+            if (!activeEditor || activeEditor.notebook.notebookType !== 'deepnote') {
+                await window.showErrorMessage(
+                    l10n.t('No active Deepnote file opened. Please open a Deepnote file first.')
+                );
+                return;
+            }
+
+            fileUri = activeEditor.notebook.uri.with({ query: '' });
+            notebookId = activeEditor.notebook.metadata?.deepnoteNotebookId;
+        }
+
+        try {
+            const projectData = await readDeepnoteProjectFile(fileUri);
+
+            if (!projectData?.project?.notebooks) {
+                await window.showErrorMessage(l10n.t('Invalid Deepnote file format'));
+                return;
+            }
+
+            const notebooks = notebookId
+                ? projectData.project.notebooks.filter((nb: DeepnoteNotebook) => nb.id === notebookId)
+                : projectData.project.notebooks;
+
+            if (notebooks.length === 0) {
+                await window.showErrorMessage(l10n.t('Notebook not found'));
+                return;
+            }
+
+            const projectFolderUri = Uri.joinPath(fileUri, '..');
+            const encoder = new TextEncoder();
+
+            if (notebookId) {
+                const targetUri = await window.showSaveDialog({
+                    defaultUri: Uri.joinPath(projectFolderUri, this.getIpynbFileName(notebooks[0].name)),
+                    saveLabel: l10n.t('Export'),
+                    filters: {
+                        'Jupyter Notebooks': ['ipynb']
+                    }
+                });
+
+                if (!targetUri) {
+                    return;
+                }
+
+                const content = convertDeepnoteNotebookToIpynb(projectData, notebooks[0]);
+                await workspace.fs.writeFile(targetUri, encoder.encode(this.serializeIpynb(content)));
+
+                await window.showInformationMessage(l10n.t('Notebook exported to: {0}', getDisplayPath(targetUri)));
+                return;
+            }
+
+            const folderUris = await window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                canSelectMany: false,
+                defaultUri: projectFolderUri,
+                openLabel: l10n.t('Export')
+            });
+
+            if (!folderUris || folderUris.length === 0) {
+                return;
+            }
+
+            // Different names can have the same file name, e.g. "Sales / Q1" and "sales-q1"
+            const fileNames = new Set<string>();
+            const targets = notebooks.map((notebook: DeepnoteNotebook) => {
+                const fileName = this.getIpynbFileName(notebook.name, fileNames);
+
+                fileNames.add(fileName);
+
+                return { notebook, uri: Uri.joinPath(folderUris[0], fileName) };
+            });
+
+            // Check for existing files before writing anything
+            for (const target of targets) {
+                try {
+                    await workspace.fs.stat(target.uri);
+                    await window.showErrorMessage(
+                        l10n.t('A file named "{0}" already exists in this folder.', path.basename(target.uri.path))
+                    );
+                    return;
+                } catch {
+                    // File doesn't exist, continue
+                }
+            }
+
+            for (const target of targets) {
+                const content = convertDeepnoteNotebookToIpynb(projectData, target.notebook);
+                await workspace.fs.writeFile(target.uri, encoder.encode(this.serializeIpynb(content)));
+            }
+
+            await window.showInformationMessage(l10n.t('{0} notebooks exported successfully.', targets.length));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            await window.showErrorMessage(l10n.t('Failed to export notebook: {0}', errorMessage));
+        }
+    }
+
     public async duplicateNotebook(treeItem: DeepnoteTreeItem): Promise<void> {
         if (treeItem.type !== DeepnoteTreeItemType.Notebook) {
             return;
@@ -261,9 +421,8 @@ export class DeepnoteExplorerView {
             await this.treeDataProvider.refreshNotebook(treeItem.context.projectId);
 
             // Optionally open the duplicated notebook
-            this.manager.selectNotebookForProject(treeItem.context.projectId, newNotebook.id);
             const notebookUri = fileUri.with({ query: `notebook=${newNotebook.id}` });
-            const document = await workspace.openNotebookDocument(notebookUri);
+            const document = await this.openNotebookDocument(treeItem.context.projectId, notebookUri);
             await window.showNotebookDocument(document, {
                 preserveFocus: false,
                 preview: false
@@ -358,6 +517,12 @@ export class DeepnoteExplorerView {
             commands.registerCommand(Commands.ImportJupyterNotebook, () => this.importJupyterNotebook())
         );
 
+        this.extensionContext.subscriptions.push(
+            commands.registerCommand(Commands.ExportToJupyterNotebook, (treeItem?: DeepnoteTreeItem) =>
+                this.exportToJupyterNotebook(treeItem)
+            )
+        );
+
         this.extensionContext.subscriptions.push(
             commands.registerCommand(Commands.NewNotebook, () => this.newNotebook())
         );
@@ -387,6 +552,12 @@ export class DeepnoteExplorerView {
             )
         );
 
+        this.extensionContext.subscriptions.push(
+            commands.registerCommand(Commands.OpenAllDeepnoteNotebooks, (treeItem: DeepnoteTreeItem) =>
+                this.openAllNotebooks(treeItem)
+            )
+        );
+
         this.extensionContext.subscriptions.push(
             commands.registerCommand(Commands.DuplicateNotebook, (treeItem: DeepnoteTreeItem) =>
                 this.duplicateNotebook(treeItem)
@@ -497,15 +668,40 @@ export class DeepnoteExplorerView {
         await this.treeDataProvider.refreshNotebook(projectData.project.id);
 
         // Open the new notebook
-        this.manager.selectNotebookForProject(projectData.project.id, notebookId);
         const notebookUri = fileUri.with({ query: `notebook=${notebookId}` });
-        const document = await workspace.openNotebookDocument(notebookUri);
+        const document = await this.openNotebookDocument(projectData.project.id, notebookUri);
         await window.showNotebookDocument(document, {
             preserveFocus: false,
             preview: false
         });
     }
 
+    /**
+     * Opens the document of a notebook of a project. The serializer reads the notebook to
+     * deserialize from the `?notebook=` query of the URI while the document is being opened.
+     */
+    private async openNotebookDocument(projectId: string, notebookUri: Uri): Promise<NotebookDocument> {
+        const notebookId = new URLSearchParams(notebookUri.query).get('notebook');
+
+        if (notebookId) {
+            this.manager.selectNotebookForProject(projectId, notebookId);
+        }
+
+        const openDocument = workspace.notebookDocuments.find((doc) => doc.uri.toString() === notebookUri.toString());
+
+        if (openDocument) {
+            return openDocument;
+        }
+
+        const opening = this.manager.beginOpeningNotebook(notebookUri.toString());
+
+        try {
+            return await workspace.openNotebookDocument(notebookUri);
+        } finally {
+            opening.dispose();
+        }
+    }
+
     private refreshExplorer(): void {
         this.treeDataProvider.refresh();
     }
@@ -524,13 +720,9 @@ export class DeepnoteExplorerView {
             // This ensures VS Code treats each notebook as a separate document
             const fileUri = Uri.file(context.filePath).with({ query: `notebook=${context.notebookId}` });
 
-            console.log(`Selecting notebook in manager.`);
-
-            this.manager.selectNotebookForProject(context.projectId, context.notebookId);
-
             console.log(`Opening notebook document.`, fileUri);
 
-            const document = await workspace.openNotebookDocument(fileUri);
+            const document = await this.openNotebookDocument(context.projectId, fileUri);
 
             console.log(`Showing notebook document.`);
 
@@ -690,10 +882,8 @@ export class DeepnoteExplorerView {
 
             this.treeDataProvider.refresh();
 
-            this.manager.selectNotebookForProject(projectId, notebookId);
-
             const notebookUri = fileUri.with({ query: `notebook=${notebookId}` });
-            const document = await workspace.openNotebookDocument(notebookUri);
+            const document = await this.openNotebookDocument(projectId, notebookUri);
 
             await window.showNotebookDocument(document, {
                 preserveFocus: false,
@@ -815,18 +1005,13 @@ export class DeepnoteExplorerView {
 
             // Convert and import jupyter files
             if (jupyterUris.length > 0) {
-                const inputFilePaths = jupyterUris.map((uri) => uri.path);
-
                 // Use the first Jupyter file's name for the project
                 const firstFileName = jupyterUris[0].path.split('/').pop() || 'notebook.ipynb';
                 const projectName = firstFileName.replace(/\.ipynb$/i, '');
                 const outputFileName = `${projectName}.deepnote`;
-                const outputPath = Uri.joinPath(workspaceFolder.uri, outputFileName).path;
+                const outputUri = Uri.joinPath(workspaceFolder.uri, outputFileName);
 
-                await convertIpynbFilesToDeepnoteFile(inputFilePaths, {
-                    outputPath: outputPath,
-                    projectName: projectName
-                });
+                await this.convertJupyterNotebooks(jupyterUris, outputUri, projectName);
             }
 
             const numberOfNotebooks = jupyterUris.length + deepnoteUris.length;
@@ -876,7 +1061,6 @@ export class DeepnoteExplorerView {
 
         try {
             const workspaceFolder = workspace.workspaceFolders[0];
-            const inputFilePaths = fileUris.map((uri) => uri.path);
 
             // Use the first Jupyter file's name for the project
             const firstFileName = fileUris[0].path.split('/').pop() || 'notebook.ipynb';
@@ -895,10 +1079,7 @@ export class DeepnoteExplorerView {
                 // File doesn't exist, continue
             }
 
-            await convertIpynbFilesToDeepnoteFile(inputFilePaths, {
-                outputPath: outputUri.path,
-                projectName: projectName
-            });
+            await this.convertJupyterNotebooks(fileUris, outputUri, projectName);
 
             const numberOfNotebooks = fileUris.length;
 
@@ -918,6 +1099,82 @@ export class DeepnoteExplorerView {
         }
     }
 
+    /**
+     * Converts Jupyter notebooks into a single .deepnote project file.
+     * Notebooks exported from Deepnote get back their original blocks, all others go through @deepnote/convert.
+     * @param fileUris The .ipynb files to convert
+     * @param outputUri The project file to write
+     * @param projectName The name of the project
+     */
+    private async convertJupyterNotebooks(fileUris: Uri[], outputUri: Uri, projectName: string): Promise<void> {
+        const contents: nbformat.INotebookContent[] = [];
+
+        for (const fileUri of fileUris) {
+            const content = await this.readDeepnoteIpynbExport(fileUri);
+
+            if (!content) {
+                break;
+            }
+
+            contents.push(content);
+        }
+
+        if (contents.length === fileUris.length) {
+            const projectData = convertIpynbExportsToDeepnoteFile(contents, projectName);
+            await workspace.fs.writeFile(outputUri, new TextEncoder().encode(yaml.dump(projectData)));
+            return;
+        }
+
+        const inputFilePaths = fileUris.map((uri) => uri.path);
+
+        await convertIpynbFilesToDeepnoteFile(inputFilePaths, {
+            outputPath: outputUri.path,
+            projectName: projectName
+        });
+    }
+
+    /**
+     * Reads a Jupyter notebook that was exported from Deepnote.
+     * @returns The notebook, or undefined if the file is not a Deepnote export or cannot be parsed
+     */
+    private async readDeepnoteIpynbExport(fileUri: Uri): Promise<nbformat.INotebookContent | undefined> {
+        try {
+            const fileContent = await workspace.fs.readFile(fileUri);
+            const content = JSON.parse(new TextDecoder().decode(fileContent)) as nbformat.INotebookContent;
+
+            return isDeepnoteIpynbExport(content) ? content : undefined;
+        } catch {
+            // Leave invalid files to @deepnote/convert, which reports its own errors
+            return undefined;
+        }
+    }
+
+    /**
+     * Creates the .ipynb file name of a notebook, keeping the letters and digits of any script.
+     * @param notebookName Name of the notebook
+     * @param takenFileNames File names already used by the same export, which get a numbered suffix
+     */
+    private getIpynbFileName(notebookName: string, takenFileNames: ReadonlySet<string> = new Set()): string {
+        const baseName =
+            notebookName
+                .normalize('NFC')
+                .replace(/[^\p{L}\p{N}]+/gu, '-')
+                .replace(/^-+|-+$/g, '')
+                .toLowerCase() || 'notebook';
+        let fileName = `${baseName}.ipynb`;
+
+        for (let suffix = 2; takenFileNames.has(fileName); suffix++) {
+            fileName = `${baseName}-${suffix}.ipynb`;
+        }
+
+        return fileName;
+    }
+
+    private serializeIpynb(content: nbformat.INotebookContent): string {
+        // Jupyter writes notebooks with an indentation of one space
+        return `${JSON.stringify(content, null, 1)}\n`;
+    }
+
     private async deleteProject(treeItem: DeepnoteTreeItem): Promise<void> {
         if (treeItem.type !== DeepnoteTreeItemType.ProjectFile) {
             return;
@@ -1602,6 +1602,246 @@ suite('DeepnoteExplorerView - Empty State Commands', () => {
         });
     });
 
+    suite('openAllNotebooks', () => {
+        test('should open every notebook except the init notebook', async () => {
+            const projectId = 'test-project-id';
+            const fileUri = Uri.file('/workspace/test-project.deepnote');
+
+            const projectData = {
+                version: 1.0,
+                metadata: {
+                    createdAt: '2024-01-01T00:00:00.000Z'
+                },
+                project: {
+                    id: projectId,
+                    name: 'Test Project',
+                    initNotebookId: 'init-notebook',
+                    notebooks: [
+                        { id: 'init-notebook', name: 'Init', blocks: [], executionMode: 'block' },
+                        { id: 'notebook-1', name: 'First', blocks: [], executionMode: 'block' },
+                        { id: 'notebook-2', name: 'Second', blocks: [], executionMode: 'block' }
+                    ]
+                }
+            };
+
+            const mockFS = mock<typeof workspace.fs>();
+            when(mockFS.readFile(anything())).thenReturn(Promise.resolve(Buffer.from(yaml.dump(projectData))));
+            when(mockedVSCodeNamespaces.workspace.fs).thenReturn(instance(mockFS));
+
+            const openedUris: string[] = [];
+            const deserializedUris: (string | undefined)[] = [];
+            when(mockedVSCodeNamespaces.workspace.openNotebookDocument(anything())).thenCall((uri: Uri) => {
+                openedUris.push(uri.query);
+                deserializedUris.push(mockManager.takeOpeningNotebookUri(() => true));
+                return Promise.resolve({ notebookType: 'deepnote' } as any);
+            });
+            when(mockedVSCodeNamespaces.window.showNotebookDocument(anything(), anything())).thenReturn(
+                Promise.resolve(undefined as any)
+            );
+
+            const mockTreeItem: Partial<DeepnoteTreeItem> = {
+                type: DeepnoteTreeItemType.ProjectFile,
+                context: {
+                    filePath: fileUri.fsPath,
+                    projectId
+                }
+            };
+
+            await explorerView.openAllNotebooks(mockTreeItem as DeepnoteTreeItem);
+
+            expect(openedUris).to.deep.equal(['notebook=notebook-1', 'notebook=notebook-2']);
+            expect(deserializedUris).to.deep.equal([
+                fileUri.with({ query: 'notebook=notebook-1' }).toString(),
+                fileUri.with({ query: 'notebook=notebook-2' }).toString()
+            ]);
+            expect(mockManager.getTheSelectedNotebookForAProject(projectId)).to.equal('notebook-2');
+        });
+
+        test('should return early if tree item type is not ProjectFile', async () => {
+            const mockTreeItem: Partial<DeepnoteTreeItem> = {
+                type: DeepnoteTreeItemType.Notebook,
+                context: {
+                    filePath: '/workspace/test-project.deepnote',
+                    projectId: 'test-project-id',
+                    notebookId: 'notebook-1'
+                }
+            };
+
+            const mockFS = mock<typeof workspace.fs>();
+            when(mockedVSCodeNamespaces.workspace.fs).thenReturn(instance(mockFS));
+
+            await explorerView.openAllNotebooks(mockTreeItem as DeepnoteTreeItem);
+
+            verify(mockFS.readFile(anything())).never();
+        });
+    });
+
+    suite('exportToJupyterNotebook', () => {
+        const projectId = 'test-project-id';
+        const fileUri = Uri.file('/workspace/test-project.deepnote');
+        const projectData = {
+            version: 1.0,
+            metadata: {
+                createdAt: '2024-01-01T00:00:00.000Z'
+            },
+            project: {
+                id: projectId,
+                name: 'Test Project',
+                notebooks: [
+                    {
+                        id: 'notebook-1',
+                        name: 'First Notebook',
+                        blocks: [{ id: 'block-1', sortingKey: 'a0', type: 'code', content: 'x = 1', metadata: {} }],
+                        executionMode: 'block'
+                    },
+                    { id: 'notebook-2', name: 'Second', blocks: [], executionMode: 'block' }
+                ]
+            }
+        };
+
+        test('should export a single notebook to the chosen file', async () => {
+            const targetUri = Uri.file('/export/first.ipynb');
+
+            const mockFS = mock<typeof workspace.fs>();
+            when(mockFS.readFile(anything())).thenReturn(Promise.resolve(Buffer.from(yaml.dump(projectData))));
+
+            let capturedUri: Uri | undefined;
+            let capturedContent: Uint8Array | undefined;
+            when(mockFS.writeFile(anything(), anything())).thenCall((uri: Uri, content: Uint8Array) => {
+                capturedUri = uri;
+                capturedContent = content;
+                return Promise.resolve();
+            });
+            when(mockedVSCodeNamespaces.workspace.fs).thenReturn(instance(mockFS));
+            when(mockedVSCodeNamespaces.window.showSaveDialog(anything())).thenReturn(Promise.resolve(targetUri));
+            when(mockedVSCodeNamespaces.window.showInformationMessage(anything())).thenReturn(
+                Promise.resolve(undefined)
+            );
+
+            const mockTreeItem: Partial<DeepnoteTreeItem> = {
+                type: DeepnoteTreeItemType.Notebook,
+                context: {
+                    filePath: fileUri.fsPath,
+                    projectId,
+                    notebookId: 'notebook-1'
+                }
+            };
+
+            await explorerView.exportToJupyterNotebook(mockTreeItem as DeepnoteTreeItem);
+
+            expect(capturedUri?.path).to.equal(targetUri.path);
+
+            const content = JSON.parse(Buffer.from(capturedContent!).toString('utf8'));
+            expect(content.metadata.deepnote.notebook.id).to.equal('notebook-1');
+            expect(content.cells).to.have.lengthOf(1);
+            expect(content.cells[0].metadata.deepnote.id).to.equal('block-1');
+        });
+
+        test('should export every notebook of a project to the chosen folder', async () => {
+            const mockFS = mock<typeof workspace.fs>();
+            when(mockFS.readFile(anything())).thenReturn(Promise.resolve(Buffer.from(yaml.dump(projectData))));
+            when(mockFS.stat(anything())).thenReject(new Error('File not found'));
+
+            const writtenPaths: string[] = [];
+            when(mockFS.writeFile(anything(), anything())).thenCall((uri: Uri) => {
+                writtenPaths.push(uri.path);
+                return Promise.resolve();
+            });
+            when(mockedVSCodeNamespaces.workspace.fs).thenReturn(instance(mockFS));
+            when(mockedVSCodeNamespaces.window.showOpenDialog(anything())).thenReturn(
+                Promise.resolve([Uri.file('/export')])
+            );
+            when(mockedVSCodeNamespaces.window.showInformationMessage(anything())).thenReturn(
+                Promise.resolve(undefined)
+            );
+
+            const mockTreeItem: Partial<DeepnoteTreeItem> = {
+                type: DeepnoteTreeItemType.ProjectFile,
+                context: {
+                    filePath: fileUri.fsPath,
+                    projectId
+                }
+            };
+
+            await explorerView.exportToJupyterNotebook(mockTreeItem as DeepnoteTreeItem);
+
+            expect(writtenPaths).to.deep.equal(['/export/first-notebook.ipynb', '/export/second.ipynb']);
+        });
+
+        test('should give notebooks with the same file name different files', async () => {
+            const collidingProject = structuredClone(projectData);
+            collidingProject.project.notebooks = [
+                { id: 'notebook-1', name: 'Sales / Q1', blocks: [], executionMode: 'block' },
+                { id: 'notebook-2', name: 'sales-q1', blocks: [], executionMode: 'block' },
+                { id: 'notebook-3', name: 'Přehled tržeb', blocks: [], executionMode: 'block' },
+                { id: 'notebook-4', name: '売上', blocks: [], executionMode: 'block' }
+            ];
+
+            const mockFS = mock<typeof workspace.fs>();
+            when(mockFS.readFile(anything())).thenReturn(Promise.resolve(Buffer.from(yaml.dump(collidingProject))));
+            when(mockFS.stat(anything())).thenReject(new Error('File not found'));
+
+            const writtenPaths: string[] = [];
+            when(mockFS.writeFile(anything(), anything())).thenCall((uri: Uri) => {
+                writtenPaths.push(uri.path);
+                return Promise.resolve();
+            });
+            when(mockedVSCodeNamespaces.workspace.fs).thenReturn(instance(mockFS));
+            when(mockedVSCodeNamespaces.window.showOpenDialog(anything())).thenReturn(
+                Promise.resolve([Uri.file('/export')])
+            );
+            when(mockedVSCodeNamespaces.window.showInformationMessage(anything())).thenReturn(
+                Promise.resolve(undefined)
+            );
+
+            const mockTreeItem: Partial<DeepnoteTreeItem> = {
+                type: DeepnoteTreeItemType.ProjectFile,
+                context: {
+                    filePath: fileUri.fsPath,
+                    projectId
+                }
+            };
+
+            await explorerView.exportToJupyterNotebook(mockTreeItem as DeepnoteTreeItem);
+
+            expect(writtenPaths).to.deep.equal([
+                '/export/sales-q1.ipynb',
+                '/export/sales-q1-2.ipynb',
+                '/export/přehled-tržeb.ipynb',
+                '/export/売上.ipynb'
+            ]);
+        });
+
+        test('should not overwrite existing files when exporting a project', async () => {
+            const mockFS = mock<typeof workspace.fs>();
+            when(mockFS.readFile(anything())).thenReturn(Promise.resolve(Buffer.from(yaml.dump(projectData))));
+            when(mockFS.stat(anything())).thenReturn(Promise.resolve({} as any));
+            when(mockedVSCodeNamespaces.workspace.fs).thenReturn(instance(mockFS));
+            when(mockedVSCodeNamespaces.window.showOpenDialog(anything())).thenReturn(
+                Promise.resolve([Uri.file('/export')])
+            );
+
+            let errorShown = false;
+            when(mockedVSCodeNamespaces.window.showErrorMessage(anything())).thenCall(() => {
+                errorShown = true;
+                return Promise.resolve(undefined);
+            });
+
+            const mockTreeItem: Partial<DeepnoteTreeItem> = {
+                type: DeepnoteTreeItemType.ProjectFile,
+                context: {
+                    filePath: fileUri.fsPath,
+                    projectId
+                }
+            };
+
+            await explorerView.exportToJupyterNotebook(mockTreeItem as DeepnoteTreeItem);
+
+            expect(errorShown).to.be.true;
+            verify(mockFS.writeFile(anything(), anything())).never();
+        });
+    });
+
     suite('renameProject', () => {
         test('should successfully rename a project with valid input', async () => {
             const oldProjectName = 'Old Project Name';
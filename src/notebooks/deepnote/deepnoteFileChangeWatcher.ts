@@ -0,0 +1,475 @@
+import { inject, injectable } from 'inversify';
+import * as yaml from 'js-yaml';
+import {
+    commands,
+    l10n,
+    NotebookCell,
+    NotebookCellData,
+    NotebookDocument,
+    NotebookEdit,
+    NotebookRange,
+    QuickPickItem,
+    Range,
+    TextDocument,
+    TextDocumentContentProvider,
+    Uri,
+    window,
+    workspace,
+    WorkspaceEdit
+} from 'vscode';
+
+import { IExtensionSyncActivationService } from '../../platform/activation/types';
+import { Commands } from '../../platform/common/constants';
+import { IDisposableRegistry } from '../../platform/common/types';
+import { logger } from '../../platform/logging';
+import type { DeepnoteBlock, DeepnoteFile } from '../../platform/deepnote/deepnoteTypes';
+import { IDeepnoteNotebookManager } from '../types';
+import { areBlocksEqual, BlockConflict, compareSortingKeys, mergeBlocks, stableStringify } from './deepnoteBlockMerge';
+import { DeepnoteDataConverter } from './deepnoteDataConverter';
+import { getSerializationOptions, stripBlockExecutionData } from './deepnoteSerializationOptions';
+
+/**
+ * URI scheme of the read-only documents showing the disk version of a conflicting block.
+ */
+export const DEEPNOTE_CONFLICT_SCHEME = 'deepnote-conflict';
+
+interface ConflictQuickPickItem extends QuickPickItem {
+    conflict: BlockConflict;
+}
+
+/**
+ * Watches .deepnote files for changes made outside of VS Code (e.g. `git pull` or another editor)
+ * and merges them into the open notebooks of the project.
+ *
+ * Notebooks without unsaved changes are reloaded from disk by VS Code. Notebooks with unsaved changes
+ * get a three-way merge by block ID between the project as it was last loaded or saved, the version
+ * on disk and the cells in the editor, which only edits the blocks changed on disk. Blocks changed on
+ * both sides keep the editor version and are listed as conflicts, each of which can be compared with
+ * the disk version and resolved with either version.
+ */
+@injectable()
+export class DeepnoteFileChangeWatcher implements IExtensionSyncActivationService, TextDocumentContentProvider {
+    private readonly converter = new DeepnoteDataConverter();
+
+    /** Unresolved conflicts, keyed by notebook document URI. */
+    private readonly conflicts = new Map<string, BlockConflict[]>();
+
+    /** Serializes handling of change events per file, as git can write a file several times in a row. */
+    private readonly pendingChanges = new Map<string, Promise<void>>();
+
+    constructor(
+        @inject(IDisposableRegistry) private readonly disposables: IDisposableRegistry,
+        @inject(IDeepnoteNotebookManager) private readonly notebookManager: IDeepnoteNotebookManager
+    ) {}
+
+    public activate(): void {
+        const watcher = workspace.createFileSystemWatcher('**/*.deepnote', true, false, true);
+
+        this.disposables.push(watcher);
+        this.disposables.push(watcher.onDidChange((uri) => this.queueFileChange(uri)));
+        this.disposables.push(workspace.registerTextDocumentContentProvider(DEEPNOTE_CONFLICT_SCHEME, this));
+        this.disposables.push(
+            commands.registerCommand(Commands.ShowDeepnoteMergeConflicts, () => this.showConflicts())
+        );
+
+        this.disposables.push(
+            workspace.onDidSaveNotebookDocument((notebook) => this.conflicts.delete(notebook.uri.toString()))
+        );
+        this.disposables.push(
+            workspace.onDidCloseNotebookDocument((notebook) => this.conflicts.delete(notebook.uri.toString()))
+        );
+    }
+
+    public provideTextDocumentContent(uri: Uri): string {
+        const notebookUri = decodeURIComponent(uri.query);
+        const blockId = uri.path.replace(/^\//, '');
+        const conflict = this.conflicts.get(notebookUri)?.find((c) => c.blockId === blockId);
+
+        return conflict?.remote?.content ?? '';
+    }
+
+    /**
+     * Returns the unresolved conflicts of a notebook document.
+     * @param notebook The notebook document
+     */
+    public getConflicts(notebook: NotebookDocument): BlockConflict[] {
+        return this.conflicts.get(notebook.uri.toString()) ?? [];
+    }
+
+    /**
+     * Resolves a conflict with the disk or the editor version of its block.
+     * @param notebook The notebook document of the conflict
+     * @param blockId ID of the conflicting block
+     * @param version The version of the block to keep
+     */
+    public async resolveConflict(
+        notebook: NotebookDocument,
+        blockId: string,
+        version: 'disk' | 'editor'
+    ): Promise<void> {
+        const conflicts = this.getConflicts(notebook);
+        const conflict = conflicts.find((c) => c.blockId === blockId);
+
+        if (!conflict) {
+            return;
+        }
+
+        if (version === 'disk') {
+            const localBlocks = this.converter.convertCellsToBlocks(notebook.getCells().map(toCellData));
+            const blocks = localBlocks.filter((block) => block.id !== blockId);
+            const remote = conflict.remote;
+
+            if (remote) {
+                const localIndex = localBlocks.findIndex((block) => block.id === blockId);
+                const index =
+                    localIndex !== -1
+                        ? localIndex
+                        : blocks.findIndex((block) => compareSortingKeys(block.sortingKey, remote.sortingKey) > 0);
+
+                blocks.splice(index === -1 ? blocks.length : index, 0, remote);
+            }
+
+            const edit = this.createMergeEdit(notebook, localBlocks, blocks);
+
+            if (edit) {
+                await workspace.applyEdit(edit);
+            }
+        }
+
+        const remaining = conflicts.filter((c) => c !== conflict);
+
+        if (remaining.length > 0) {
+            this.conflicts.set(notebook.uri.toString(), remaining);
+        } else {
+            this.conflicts.delete(notebook.uri.toString());
+        }
+    }
+
+    /**
+     * Handles a change of a .deepnote file on disk.
+     * Changes written by the serializer itself are ignored, as they match the stored project once it is
+     * stripped like the written file.
+     * @param fileUri URI of the changed file
+     */
+    public async handleFileChange(fileUri: Uri): Promise<void> {
+        const fileKey = toFileKey(fileUri);
+        const notebooks = workspace.notebookDocuments.filter(
+            (doc) => doc.notebookType === 'deepnote' && toFileKey(doc.uri) === fileKey
+        );
+
+        if (notebooks.length === 0) {
+            return;
+        }
+
+        const projectId = notebooks[0].metadata?.deepnoteProjectId as string | undefined;
+        const originalProject = projectId ? this.notebookManager.getOriginalProject(projectId) : undefined;
+
+        if (!projectId || !originalProject) {
+            return;
+        }
+
+        let diskProject: DeepnoteFile;
+
+        try {
+            const content = await workspace.fs.readFile(fileUri);
+            diskProject = yaml.load(new TextDecoder('utf-8').decode(content)) as DeepnoteFile;
+        } catch (error) {
+            logger.warn(`DeepnoteFileChangeWatcher: Failed to read changed file ${fileKey}`, error);
+            return;
+        }
+
+        if (!diskProject?.project?.notebooks || diskProject.project.id !== projectId) {
+            return;
+        }
+
+        // The serializer strips the written copy only, the stored project keeps the outputs of the open notebooks
+        const savedProject = structuredClone(originalProject);
+
+        stripBlockExecutionData(savedProject, getSerializationOptions(projectId, fileUri));
+
+        // Key order is ignored, as the clean save mode writes keys in sorted order.
+        if (stableStringify(diskProject.project) === stableStringify(savedProject.project)) {
+            return;
+        }
+
+        logger.info(`DeepnoteFileChangeWatcher: Merging external changes to ${fileKey}`);
+
+        for (const notebook of notebooks) {
+            await this.mergeIntoNotebook(notebook, originalProject, diskProject);
+        }
+
+        // The disk version becomes the new base, the editor keeps the merged blocks until it is saved.
+        this.notebookManager.storeOriginalProject(
+            projectId,
+            diskProject,
+            this.notebookManager.getCurrentNotebookId(projectId) ?? notebooks[0].metadata.deepnoteNotebookId
+        );
+    }
+
+    private queueFileChange(fileUri: Uri): void {
+        const key = fileUri.toString();
+        const previous = this.pendingChanges.get(key) ?? Promise.resolve();
+        const next = previous
+            .then(() => this.handleFileChange(fileUri))
+            .catch((error) => logger.error('DeepnoteFileChangeWatcher: Failed to merge external changes', error))
+            .finally(() => {
+                if (this.pendingChanges.get(key) === next) {
+                    this.pendingChanges.delete(key);
+                }
+            });
+
+        this.pendingChanges.set(key, next);
+    }
+
+    private async mergeIntoNotebook(
+        notebook: NotebookDocument,
+        originalProject: DeepnoteFile,
+        diskProject: DeepnoteFile
+    ): Promise<void> {
+        const notebookId = notebook.metadata?.deepnoteNotebookId as string | undefined;
+        const baseNotebook = originalProject.project.notebooks.find((nb) => nb.id === notebookId);
+        const diskNotebook = diskProject.project.notebooks.find((nb) => nb.id === notebookId);
+
+        if (!diskNotebook) {
+            void window.showWarningMessage(
+                l10n.t(
+                    'Notebook "{0}" was removed from the project file on disk. Its changes can no longer be saved.',
+                    notebook.metadata?.deepnoteNotebookName ?? notebookId
+                )
+            );
+            return;
+        }
+
+        // VS Code reloads notebooks without unsaved changes from disk itself
+        if (!notebook.isDirty) {
+            this.conflicts.delete(notebook.uri.toString());
+            return;
+        }
+
+        // Round-trip base and disk blocks through the converter so that they compare equal
+        // to unchanged cells in the editor.
+        const baseBlocks = this.normalizeBlocks(baseNotebook?.blocks ?? []);
+        const remoteBlocks = this.normalizeBlocks(diskNotebook.blocks ?? []);
+        const localBlocks = this.converter.convertCellsToBlocks(notebook.getCells().map(toCellData));
+
+        const { blocks, conflicts } = mergeBlocks(baseBlocks, localBlocks, remoteBlocks);
+        const edit = this.createMergeEdit(notebook, localBlocks, blocks);
+
+        if (edit) {
+            await workspace.applyEdit(edit);
+        }
+
+        if (conflicts.length === 0) {
+            this.conflicts.delete(notebook.uri.toString());
+            return;
+        }
+
+        this.conflicts.set(notebook.uri.toString(), conflicts);
+
+        const showConflicts = l10n.t('Show Conflicts');
+
+        // Don't wait for the notification, so that the merged disk version becomes the base right away.
+        void window
+            .showWarningMessage(
+                l10n.t(
+                    '{0} block(s) in "{1}" were changed both in the editor and on disk. The editor version was kept.',
+                    conflicts.length,
+                    notebook.metadata?.deepnoteNotebookName ?? notebookId
+                ),
+                showConflicts
+            )
+            .then((selection) => (selection === showConflicts ? this.showConflicts(notebook) : undefined));
+    }
+
+    /**
+     * Creates the edit that turns the blocks of a notebook into the merged blocks. Blocks kept in the same
+     * order are edited in place, so that unchanged cells keep their outputs and undo history, and only
+     * the blocks in between are replaced.
+     * @returns The edit, or undefined if the blocks are unchanged
+     */
+    private createMergeEdit(
+        notebook: NotebookDocument,
+        localBlocks: DeepnoteBlock[],
+        blocks: DeepnoteBlock[]
+    ): WorkspaceEdit | undefined {
+        const cells = notebook.getCells();
+        const edit = new WorkspaceEdit();
+        const notebookEdits: NotebookEdit[] = [];
+        const matches = matchBlocks(localBlocks, blocks);
+        let localEnd = localBlocks.length;
+        let mergedEnd = blocks.length;
+        let hasTextEdits = false;
+
+        // Edit from the last block to the first, so that the cell indexes of the remaining edits stay valid
+        for (let i = matches.length - 1; i >= -1; i--) {
+            const [localIndex, mergedIndex] = i >= 0 ? matches[i] : [-1, -1];
+
+            if (localIndex + 1 < localEnd || mergedIndex + 1 < mergedEnd) {
+                notebookEdits.push(
+                    NotebookEdit.replaceCells(
+                        new NotebookRange(localIndex + 1, localEnd),
+                        this.converter.convertBlocksToCells(blocks.slice(mergedIndex + 1, mergedEnd))
+                    )
+                );
+            }
+
+            if (i >= 0 && !areBlocksEqual(localBlocks[localIndex], blocks[mergedIndex])) {
+                const cell = cells[localIndex];
+                const block = blocks[mergedIndex];
+                const [cellData] = this.converter.convertBlocksToCells([block]);
+
+                if (cellData.kind !== cell.kind || cellData.languageId !== cell.document.languageId) {
+                    notebookEdits.push(
+                        NotebookEdit.replaceCells(new NotebookRange(localIndex, localIndex + 1), [cellData])
+                    );
+                } else {
+                    if (cellData.value !== cell.document.getText()) {
+                        edit.replace(cell.document.uri, getFullRange(cell.document), cellData.value);
+                        hasTextEdits = true;
+                    }
+
+                    if (!areBlocksEqual({ ...localBlocks[localIndex], content: block.content }, block)) {
+                        notebookEdits.push(NotebookEdit.updateCellMetadata(localIndex, cellData.metadata ?? {}));
+                    }
+                }
+            }
+
+            localEnd = localIndex;
+            mergedEnd = mergedIndex;
+        }
+
+        if (notebookEdits.length === 0 && !hasTextEdits) {
+            return undefined;
+        }
+
+        if (notebookEdits.length > 0) {
+            edit.set(notebook.uri, notebookEdits);
+        }
+
+        return edit;
+    }
+
+    private normalizeBlocks(blocks: DeepnoteBlock[]): DeepnoteBlock[] {
+        return this.converter.convertCellsToBlocks(this.converter.convertBlocksToCells(blocks));
+    }
+
+    /**
+     * Lets the user pick a conflicting block and opens a diff between the disk version and the editor cell.
+     */
+    private async showConflicts(notebook = window.activeNotebookEditor?.notebook): Promise<void> {
+        const conflicts = notebook ? this.getConflicts(notebook) : [];
+
+        if (!notebook || conflicts.length === 0) {
+            await window.showInformationMessage(l10n.t('There are no merge conflicts in this notebook.'));
+            return;
+        }
+
+        const items: ConflictQuickPickItem[] = conflicts.map((conflict) => {
+            const block = conflict.local ?? conflict.remote;
+            const firstLine = (block?.content ?? '').split('\n')[0];
+
+            return {
+                label: firstLine || block?.type || conflict.blockId,
+                description: block?.type,
+                detail: !conflict.local
+                    ? l10n.t('Deleted in the editor, changed on disk')
+                    : !conflict.remote
+                    ? l10n.t('Changed in the editor, deleted on disk')
+                    : l10n.t('Changed in the editor and on disk'),
+                conflict
+            };
+        });
+
+        const picked = await window.showQuickPick(items, {
+            placeHolder: l10n.t('Select a conflicting block to compare with the version on disk')
+        });
+
+        if (!picked) {
+            return;
+        }
+
+        const cell = notebook.getCells().find((c) => c.metadata?.id === picked.conflict.blockId);
+        const diskUri = Uri.from({
+            scheme: DEEPNOTE_CONFLICT_SCHEME,
+            path: `/${picked.conflict.blockId}`,
+            query: encodeURIComponent(notebook.uri.toString())
+        });
+
+        if (cell) {
+            await commands.executeCommand(
+                'vscode.diff',
+                diskUri,
+                cell.document.uri,
+                l10n.t('{0} (disk) ↔ {0} (editor)', picked.label)
+            );
+        } else {
+            await window.showTextDocument(diskUri, { preview: true });
+        }
+
+        const useDisk = l10n.t('Use Disk Version');
+        const keepEditor = l10n.t('Keep Editor Version');
+        const selection = await window.showInformationMessage(
+            l10n.t('Which version of "{0}" should the notebook keep?', picked.label),
+            useDisk,
+            keepEditor
+        );
+
+        if (selection) {
+            await this.resolveConflict(notebook, picked.conflict.blockId, selection === useDisk ? 'disk' : 'editor');
+        }
+    }
+}
+
+/**
+ * Notebooks of a project are opened with a `?notebook=` query, so compare files without query and fragment.
+ */
+function toFileKey(uri: Uri): string {
+    return uri.with({ query: '', fragment: '' }).toString();
+}
+
+/**
+ * Matches the blocks of two lists that keep their order, by their longest common subsequence of block IDs.
+ * @returns Pairs of the indexes of matching blocks in both lists, in order
+ */
+function matchBlocks(a: DeepnoteBlock[], b: DeepnoteBlock[]): [number, number][] {
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] =
+                a[i].id === b[j].id ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const matches: [number, number][] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+        if (a[i].id === b[j].id) {
+            matches.push([i, j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+
+    return matches;
+}
+
+function getFullRange(document: TextDocument): Range {
+    return document.validateRange(new Range(0, 0, document.lineCount, 0));
+}
+
+function toCellData(cell: NotebookCell): NotebookCellData {
+    return {
+        kind: cell.kind,
+        value: cell.document.getText(),
+        languageId: cell.document.languageId,
+        metadata: cell.metadata,
+        outputs: [...(cell.outputs || [])]
+    };
+}
@@ -0,0 +1,278 @@
+import { assert } from 'chai';
+import * as yaml from 'js-yaml';
+import { anything, instance, mock, verify, when } from 'ts-mockito';
+import {
+    NotebookCell,
+    NotebookCellKind,
+    NotebookDocument,
+    Range,
+    Uri,
+    workspace,
+    WorkspaceConfiguration,
+    WorkspaceEdit
+} from 'vscode';
+
+import { DeepnoteFileChangeWatcher } from './deepnoteFileChangeWatcher';
+import { DeepnoteNotebookManager } from './deepnoteNotebookManager';
+import type { DeepnoteFile } from '../../platform/deepnote/deepnoteTypes';
+import { IDisposableRegistry } from '../../platform/common/types';
+import { mockedVSCodeNamespaces, resetVSCodeMocks } from '../../test/vscode-mock';
+
+suite('DeepnoteFileChangeWatcher', () => {
+    const fileUri = Uri.file('/workspace/project.deepnote');
+
+    let watcher: DeepnoteFileChangeWatcher;
+    let manager: DeepnoteNotebookManager;
+    let mockFS: typeof workspace.fs;
+    let serializationSettings: Record<string, unknown>;
+
+    function createProject(blockContents: string[]): DeepnoteFile {
+        return {
+            version: '1.0',
+            metadata: { createdAt: '2024-01-01T00:00:00.000Z' },
+            project: {
+                id: 'project-1',
+                name: 'Project',
+                notebooks: [
+                    {
+                        id: 'notebook-1',
+                        name: 'Notebook',
+                        executionMode: 'block',
+                        isModule: false,
+                        blocks: blockContents.map((content, i) => ({
+                            id: `block-${i}`,
+                            blockGroup: `group-${i}`,
+                            content,
+                            sortingKey: `a${i}`,
+                            type: 'code',
+                            metadata: {}
+                        }))
+                    }
+                ]
+            }
+        };
+    }
+
+    function getCellUri(index: number): Uri {
+        return Uri.from({ scheme: 'vscode-notebook-cell', path: fileUri.path, fragment: `cell-${index}` });
+    }
+
+    function createNotebook(cellContents: string[], isDirty = true): NotebookDocument {
+        const cells = cellContents.map(
+            (content, i) =>
+                ({
+                    kind: NotebookCellKind.Code,
+                    document: {
+                        uri: getCellUri(i),
+                        getText: () => content,
+                        languageId: 'python',
+                        lineCount: content.split('\n').length,
+                        validateRange: (range: Range) => range
+                    },
+                    metadata: {
+                        id: `block-${i}`,
+                        __deepnotePocket: { blockGroup: `group-${i}`, sortingKey: `a${i}`, type: 'code' }
+                    },
+                    outputs: []
+                }) as unknown as NotebookCell
+        );
+
+        return {
+            notebookType: 'deepnote',
+            uri: fileUri.with({ query: 'notebook=notebook-1' }),
+            metadata: {
+                deepnoteProjectId: 'project-1',
+                deepnoteNotebookId: 'notebook-1',
+                deepnoteNotebookName: 'Notebook'
+            },
+            cellCount: cells.length,
+            isDirty,
+            getCells: () => cells
+        } as unknown as NotebookDocument;
+    }
+
+    function setDiskContent(project: DeepnoteFile) {
+        when(mockFS.readFile(anything())).thenReturn(Promise.resolve(Buffer.from(yaml.dump(project))));
+    }
+
+    setup(() => {
+        resetVSCodeMocks();
+
+        mockFS = mock<typeof workspace.fs>();
+        when(mockedVSCodeNamespaces.workspace.fs).thenReturn(instance(mockFS));
+        when(mockedVSCodeNamespaces.workspace.applyEdit(anything())).thenReturn(Promise.resolve(true));
+
+        serializationSettings = {};
+        const serializationConfig = mock<WorkspaceConfiguration>();
+        when(serializationConfig.get(anything(), anything())).thenCall(
+            (key: string, defaultValue: unknown) => serializationSettings[key] ?? defaultValue
+        );
+        when(mockedVSCodeNamespaces.workspace.getConfiguration('deepnote.serialization', anything())).thenReturn(
+            instance(serializationConfig)
+        );
+        when(mockedVSCodeNamespaces.window.showWarningMessage(anything(), anything())).thenReturn(
+            Promise.resolve(undefined)
+        );
+
+        manager = new DeepnoteNotebookManager();
+        watcher = new DeepnoteFileChangeWatcher([] as IDisposableRegistry, manager);
+    });
+
+    teardown(() => {
+        resetVSCodeMocks();
+    });
+
+    test('should ignore changes when no notebook of the file is open', async () => {
+        await watcher.handleFileChange(fileUri);
+
+        verify(mockFS.readFile(anything())).never();
+    });
+
+    test('should ignore changes written by the serializer', async () => {
+        const project = createProject(['a = 1']);
+        const notebook = createNotebook(['a = 1']);
+
+        manager.storeOriginalProject('project-1', project, 'notebook-1');
+        when(mockedVSCodeNamespaces.workspace.notebookDocuments).thenReturn([notebook]);
+        setDiskContent(project);
+
+        await watcher.handleFileChange(fileUri);
+
+        verify(mockedVSCodeNamespaces.workspace.applyEdit(anything())).never();
+    });
+
+    test('should ignore changes written by the serializer with outputs stripped', async () => {
+        serializationSettings.stripOutputs = true;
+        serializationSettings.stripExecutionCounts = true;
+
+        const project = createProject(['a = 1']);
+        const notebook = createNotebook(['b = 1']);
+
+        project.project.notebooks[0].blocks[0].executionCount = 1;
+        project.project.notebooks[0].blocks[0].outputs = [{ output_type: 'stream', name: 'stdout', text: '1' }];
+        manager.storeOriginalProject('project-1', project, 'notebook-1');
+        when(mockedVSCodeNamespaces.workspace.notebookDocuments).thenReturn([notebook]);
+        setDiskContent(createProject(['a = 1']));
+
+        await watcher.handleFileChange(fileUri);
+
+        verify(mockedVSCodeNamespaces.workspace.applyEdit(anything())).never();
+        assert.deepStrictEqual(
+            manager.getOriginalProject('project-1')?.project.notebooks[0].blocks[0].outputs,
+            [{ output_type: 'stream', name: 'stdout', text: '1' }],
+            'stored project should keep its outputs'
+        );
+    });
+
+    test('should leave notebooks without unsaved changes to VS Code', async () => {
+        const notebook = createNotebook(['a = 1', 'b = 1'], false);
+        const diskProject = createProject(['a = 1', 'b = 2']);
+
+        manager.storeOriginalProject('project-1', createProject(['a = 1', 'b = 1']), 'notebook-1');
+        when(mockedVSCodeNamespaces.workspace.notebookDocuments).thenReturn([notebook]);
+        setDiskContent(diskProject);
+
+        await watcher.handleFileChange(fileUri);
+
+        verify(mockedVSCodeNamespaces.workspace.applyEdit(anything())).never();
+        assert.isEmpty(watcher.getConflicts(notebook));
+        assert.strictEqual(
+            manager.getOriginalProject('project-1')?.project.notebooks[0].blocks[1].content,
+            'b = 2',
+            'disk version should become the new base'
+        );
+    });
+
+    test('should only edit the blocks changed on disk', async () => {
+        const notebook = createNotebook(['a = 1', 'b = 1', 'c = local']);
+        let appliedEdit: WorkspaceEdit | undefined;
+
+        manager.storeOriginalProject('project-1', createProject(['a = 1', 'b = 1', 'c = 1']), 'notebook-1');
+        when(mockedVSCodeNamespaces.workspace.notebookDocuments).thenReturn([notebook]);
+        when(mockedVSCodeNamespaces.workspace.applyEdit(anything())).thenCall((edit: WorkspaceEdit) => {
+            appliedEdit = edit;
+            return Promise.resolve(true);
+        });
+        setDiskContent(createProject(['a = 1', 'b = 2', 'c = 1']));
+
+        await watcher.handleFileChange(fileUri);
+
+        assert.isTrue(appliedEdit?.has(getCellUri(1)), 'the block changed on disk should be edited');
+        assert.isFalse(appliedEdit?.has(getCellUri(0)));
+        assert.isFalse(appliedEdit?.has(getCellUri(2)), 'the block changed in the editor should be kept');
+        assert.isFalse(appliedEdit?.has(notebook.uri), 'cells should not be replaced');
+        assert.isEmpty(watcher.getConflicts(notebook));
+    });
+
+    test('should resolve a conflict with the disk version', async () => {
+        const notebook = createNotebook(['a = 1', 'b = local']);
+        let appliedEdit: WorkspaceEdit | undefined;
+
+        manager.storeOriginalProject('project-1', createProject(['a = 1', 'b = 1']), 'notebook-1');
+        when(mockedVSCodeNamespaces.workspace.notebookDocuments).thenReturn([notebook]);
+        setDiskContent(createProject(['a = 1', 'b = remote']));
+
+        await watcher.handleFileChange(fileUri);
+
+        when(mockedVSCodeNamespaces.workspace.applyEdit(anything())).thenCall((edit: WorkspaceEdit) => {
+            appliedEdit = edit;
+            return Promise.resolve(true);
+        });
+
+        await watcher.resolveConflict(notebook, 'block-1', 'disk');
+
+        assert.isTrue(appliedEdit?.has(getCellUri(1)));
+        assert.isFalse(appliedEdit?.has(getCellUri(0)));
+        assert.isEmpty(watcher.getConflicts(notebook));
+    });
+
+    test('should resolve a conflict with the editor version', async () => {
+        const notebook = createNotebook(['b = local']);
+
+        manager.storeOriginalProject('project-1', createProject(['b = 1']), 'notebook-1');
+        when(mockedVSCodeNamespaces.workspace.notebookDocuments).thenReturn([notebook]);
+        setDiskContent(createProject(['b = remote']));
+
+        await watcher.handleFileChange(fileUri);
+        await watcher.resolveConflict(notebook, 'block-0', 'editor');
+
+        verify(mockedVSCodeNamespaces.workspace.applyEdit(anything())).never();
+        assert.isEmpty(watcher.getConflicts(notebook));
+    });
+
+    test('should record conflicts when a block changed in the editor and on disk', async () => {
+        const notebook = createNotebook(['a = 1', 'b = local']);
+
+        manager.storeOriginalProject('project-1', createProject(['a = 1', 'b = 1']), 'notebook-1');
+        when(mockedVSCodeNamespaces.workspace.notebookDocuments).thenReturn([notebook]);
+        setDiskContent(createProject(['a = 1', 'b = remote']));
+
+        await watcher.handleFileChange(fileUri);
+
+        const conflicts = watcher.getConflicts(notebook);
+
+        assert.strictEqual(conflicts.length, 1);
+        assert.strictEqual(conflicts[0].blockId, 'block-1');
+        assert.strictEqual(conflicts[0].remote?.content, 'b = remote');
+        verify(mockedVSCodeNamespaces.workspace.applyEdit(anything())).never();
+        verify(mockedVSCodeNamespaces.window.showWarningMessage(anything(), anything())).once();
+    });
+
+    test('should serve the disk version of a conflicting block', async () => {
+        const notebook = createNotebook(['b = local']);
+
+        manager.storeOriginalProject('project-1', createProject(['b = 1']), 'notebook-1');
+        when(mockedVSCodeNamespaces.workspace.notebookDocuments).thenReturn([notebook]);
+        setDiskContent(createProject(['b = remote']));
+
+        await watcher.handleFileChange(fileUri);
+
+        const conflictUri = Uri.from({
+            scheme: 'deepnote-conflict',
+            path: '/block-0',
+            query: encodeURIComponent(notebook.uri.toString())
+        });
+
+        assert.strictEqual(watcher.provideTextDocumentContent(conflictUri), 'b = remote');
+    });
+});
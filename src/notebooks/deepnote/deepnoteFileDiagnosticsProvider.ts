@@ -0,0 +1,325 @@
+import { inject, injectable } from 'inversify';
+import * as yaml from 'js-yaml';
+import {
+    CancellationToken,
+    CodeAction,
+    CodeActionContext,
+    CodeActionKind,
+    CodeActionProvider,
+    commands,
+    Diagnostic,
+    DiagnosticCollection,
+    DiagnosticSeverity,
+    l10n,
+    languages,
+    Range,
+    TextDocument,
+    Uri,
+    window,
+    workspace,
+    WorkspaceEdit
+} from 'vscode';
+
+import { IExtensionSyncActivationService } from '../../platform/activation/types';
+import { IDisposableRegistry } from '../../platform/common/types';
+import { logger } from '../../platform/logging';
+import * as path from '../../platform/vscode-path/path';
+import { DeepnoteDataConverter } from './deepnoteDataConverter';
+import {
+    createRepairEdits,
+    DeepnoteValidationIssue,
+    DeepnoteValidationIssueCode,
+    findIssueLine,
+    isRepairableIssue,
+    parseAndValidateDeepnoteFile,
+    repairDeepnoteFile
+} from './deepnoteFileValidation';
+
+const diagnosticSource = 'Deepnote';
+
+/**
+ * Validates .deepnote files when they are opened or changed and reports problems such as
+ * duplicate block IDs or sorting keys as diagnostics on the file. Opening a notebook of a file
+ * with problems shows a notification, as the notebook editor does not show the diagnostics of
+ * the file. Each repairable problem comes with a quick fix that edits the affected values.
+ */
+@injectable()
+export class DeepnoteFileDiagnosticsProvider implements IExtensionSyncActivationService, CodeActionProvider {
+    private readonly converter = new DeepnoteDataConverter();
+
+    private readonly diagnostics: DiagnosticCollection;
+
+    /** Files whose problems were shown in a notification since they were opened. */
+    private readonly notifiedFiles = new Set<string>();
+
+    constructor(@inject(IDisposableRegistry) private readonly disposables: IDisposableRegistry) {
+        this.diagnostics = languages.createDiagnosticCollection('deepnote');
+        this.disposables.push(this.diagnostics);
+    }
+
+    public activate(): void {
+        const watcher = workspace.createFileSystemWatcher('**/*.deepnote');
+
+        this.disposables.push(watcher);
+        this.disposables.push(watcher.onDidCreate((uri) => this.validateFileIfOpen(uri)));
+        this.disposables.push(watcher.onDidChange((uri) => this.validateFileIfOpen(uri)));
+        this.disposables.push(watcher.onDidDelete((uri) => this.diagnostics.delete(uri)));
+
+        this.disposables.push(
+            languages.registerCodeActionsProvider({ pattern: '**/*.deepnote' }, this, {
+                providedCodeActionKinds: [CodeActionKind.QuickFix]
+            })
+        );
+
+        this.disposables.push(
+            workspace.onDidOpenNotebookDocument((notebook) => {
+                if (notebook.notebookType === 'deepnote') {
+                    const fileUri = toFileUri(notebook.uri);
+
+                    void this.validateFile(fileUri).then((diagnostics) => this.notifyProblems(fileUri, diagnostics));
+                }
+            })
+        );
+        this.disposables.push(
+            workspace.onDidOpenTextDocument((document) => {
+                if (isDeepnoteTextDocument(document)) {
+                    this.validateDocument(document);
+                }
+            })
+        );
+        this.disposables.push(
+            workspace.onDidChangeTextDocument((e) => {
+                if (isDeepnoteTextDocument(e.document)) {
+                    this.validateDocument(e.document);
+                }
+            })
+        );
+        this.disposables.push(
+            workspace.onDidCloseNotebookDocument((notebook) => {
+                if (notebook.notebookType === 'deepnote') {
+                    this.clearIfClosed(toFileUri(notebook.uri));
+                }
+            })
+        );
+        this.disposables.push(
+            workspace.onDidCloseTextDocument((document) => {
+                if (isDeepnoteTextDocument(document)) {
+                    this.clearIfClosed(document.uri);
+                }
+            })
+        );
+
+        const openFiles = new Map<string, Uri>();
+
+        workspace.notebookDocuments
+            .filter((notebook) => notebook.notebookType === 'deepnote')
+            .forEach((notebook) => openFiles.set(toFileUri(notebook.uri).toString(), toFileUri(notebook.uri)));
+
+        for (const uri of openFiles.values()) {
+            void this.validateFile(uri);
+        }
+
+        workspace.textDocuments.filter(isDeepnoteTextDocument).forEach((document) => this.validateDocument(document));
+    }
+
+    public provideCodeActions(
+        document: TextDocument,
+        _range: Range,
+        context: CodeActionContext,
+        _token: CancellationToken
+    ): CodeAction[] {
+        const diagnostics = context.diagnostics.filter((d) => d.source === diagnosticSource);
+
+        if (diagnostics.length === 0) {
+            return [];
+        }
+
+        const content = document.getText();
+        const { file, issues } = parseAndValidateDeepnoteFile(content, this.converter.getSupportedBlockTypes());
+
+        if (!file) {
+            return [];
+        }
+
+        const codeActions: CodeAction[] = [];
+
+        for (const diagnostic of diagnostics) {
+            const issue = issues.find(
+                (i) =>
+                    i.code === diagnostic.code &&
+                    isRepairableIssue(i) &&
+                    findIssueLine(content, file, i) === diagnostic.range.start.line
+            );
+
+            if (!issue) {
+                continue;
+            }
+
+            const repairEdits = createRepairEdits(content, file, issue);
+            const edit = new WorkspaceEdit();
+
+            if (repairEdits) {
+                for (const { startLine, endLine, text } of repairEdits) {
+                    edit.replace(document.uri, new Range(startLine, 0, endLine, 0), text);
+                }
+            } else {
+                // The values could not be located in the YAML, e.g. when it uses the flow style
+                edit.replace(
+                    document.uri,
+                    new Range(0, 0, document.lineCount, 0),
+                    yaml.dump(repairDeepnoteFile(file, issue), {
+                        indent: 2,
+                        lineWidth: -1,
+                        noRefs: true,
+                        sortKeys: false
+                    })
+                );
+            }
+
+            const codeAction = new CodeAction(getRepairTitle(issue), CodeActionKind.QuickFix);
+            codeAction.diagnostics = [diagnostic];
+            codeAction.edit = edit;
+            codeAction.isPreferred = true;
+
+            codeActions.push(codeAction);
+        }
+
+        return codeActions;
+    }
+
+    /**
+     * Validates the content of a .deepnote file and publishes the problems as diagnostics.
+     * @param fileUri URI of the file, without the notebook query
+     * @param content Raw YAML content of the file
+     * @returns The published diagnostics
+     */
+    public updateDiagnostics(fileUri: Uri, content: string): Diagnostic[] {
+        const { file, issues } = parseAndValidateDeepnoteFile(content, this.converter.getSupportedBlockTypes());
+        const lines = content.split(/\r?\n/);
+
+        const diagnostics = issues.map((issue) => {
+            const line = Math.min(findIssueLine(content, file, issue), Math.max(lines.length - 1, 0));
+            const diagnostic = new Diagnostic(
+                new Range(line, 0, line, lines[line]?.length ?? 0),
+                issue.message,
+                issue.severity === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning
+            );
+
+            diagnostic.source = diagnosticSource;
+            diagnostic.code = issue.code;
+
+            return diagnostic;
+        });
+
+        this.diagnostics.set(fileUri, diagnostics);
+
+        return diagnostics;
+    }
+
+    private validateDocument(document: TextDocument): Diagnostic[] {
+        return this.updateDiagnostics(document.uri, document.getText());
+    }
+
+    private async validateFile(fileUri: Uri): Promise<Diagnostic[]> {
+        // An open text editor may have unsaved changes, validate what the user sees.
+        const document = workspace.textDocuments.find((doc) => doc.uri.toString() === fileUri.toString());
+
+        if (document) {
+            return this.validateDocument(document);
+        }
+
+        try {
+            const content = await workspace.fs.readFile(fileUri);
+
+            return this.updateDiagnostics(fileUri, new TextDecoder('utf-8').decode(content));
+        } catch (error) {
+            logger.warn(`DeepnoteFileDiagnosticsProvider: Failed to read ${fileUri.toString()}`, error);
+
+            return [];
+        }
+    }
+
+    /**
+     * Shows a notification about the problems of a file, once until all of its notebooks and
+     * editors are closed.
+     */
+    private async notifyProblems(fileUri: Uri, diagnostics: Diagnostic[]): Promise<void> {
+        const key = fileUri.toString();
+
+        if (diagnostics.length === 0 || this.notifiedFiles.has(key)) {
+            return;
+        }
+
+        this.notifiedFiles.add(key);
+
+        const showProblems = l10n.t('Show Problems');
+        const selection = await window.showWarningMessage(
+            l10n.t(
+                '{0} has {1} problem(s). Some blocks may not be shown or saved as expected.',
+                path.basename(fileUri.path),
+                diagnostics.length
+            ),
+            showProblems
+        );
+
+        if (selection === showProblems) {
+            // Quick fixes are offered in the text editor of the file
+            await window.showTextDocument(await workspace.openTextDocument(fileUri));
+            await commands.executeCommand('workbench.actions.view.problems');
+        }
+    }
+
+    private validateFileIfOpen(fileUri: Uri): void {
+        if (this.isFileOpen(fileUri)) {
+            void this.validateFile(fileUri);
+        }
+    }
+
+    private clearIfClosed(fileUri: Uri): void {
+        if (!this.isFileOpen(fileUri)) {
+            this.diagnostics.delete(fileUri);
+            this.notifiedFiles.delete(fileUri.toString());
+        }
+    }
+
+    private isFileOpen(fileUri: Uri): boolean {
+        const key = fileUri.toString();
+
+        return (
+            workspace.notebookDocuments.some(
+                (notebook) => notebook.notebookType === 'deepnote' && toFileUri(notebook.uri).toString() === key
+            ) || workspace.textDocuments.some((document) => !document.isClosed && document.uri.toString() === key)
+        );
+    }
+}
+
+function getRepairTitle(issue: DeepnoteValidationIssue): string {
+    switch (issue.code) {
+        case DeepnoteValidationIssueCode.MissingNotebookId:
+        case DeepnoteValidationIssueCode.DuplicateNotebookId:
+            return l10n.t('Regenerate notebook IDs');
+        case DeepnoteValidationIssueCode.MissingBlockId:
+        case DeepnoteValidationIssueCode.DuplicateBlockId:
+            return l10n.t('Regenerate block IDs');
+        case DeepnoteValidationIssueCode.MissingSortingKey:
+        case DeepnoteValidationIssueCode.DuplicateSortingKey:
+            return l10n.t('Renumber sorting keys of this notebook');
+        case DeepnoteValidationIssueCode.UnknownBlockType:
+            return l10n.t('Convert block to Markdown');
+        case DeepnoteValidationIssueCode.InvalidInputMetadata:
+            return l10n.t('Reset the value to its default');
+        default:
+            return l10n.t('Repair project file');
+    }
+}
+
+function isDeepnoteTextDocument(document: TextDocument): boolean {
+    return document.uri.scheme === 'file' && document.uri.path.endsWith('.deepnote');
+}
+
+/**
+ * Notebooks of a project are opened with a `?notebook=` query, diagnostics belong to the file itself.
+ */
+function toFileUri(uri: Uri): Uri {
+    return uri.with({ query: '', fragment: '' });
+}
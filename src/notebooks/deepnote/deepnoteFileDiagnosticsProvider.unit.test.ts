@@ -0,0 +1,147 @@
+import { assert } from 'chai';
+import * as yaml from 'js-yaml';
+import * as sinon from 'sinon';
+import { anything, instance, mock, when } from 'ts-mockito';
+import {
+    CancellationTokenSource,
+    CodeActionContext,
+    DiagnosticCollection,
+    DiagnosticSeverity,
+    Range,
+    TextDocument,
+    Uri,
+    WorkspaceEdit
+} from 'vscode';
+
+import { DeepnoteFileDiagnosticsProvider } from './deepnoteFileDiagnosticsProvider';
+import type { DeepnoteFile } from '../../platform/deepnote/deepnoteTypes';
+import { IDisposableRegistry } from '../../platform/common/types';
+import { mockedVSCodeNamespaces, resetVSCodeMocks } from '../../test/vscode-mock';
+
+suite('DeepnoteFileDiagnosticsProvider', () => {
+    const fileUri = Uri.file('/workspace/project.deepnote');
+
+    let provider: DeepnoteFileDiagnosticsProvider;
+    let collection: DiagnosticCollection;
+
+    function createContent(sortingKeys: string[]): string {
+        const file: DeepnoteFile = {
+            version: '1.0',
+            metadata: { createdAt: '2024-01-01T00:00:00.000Z' },
+            project: {
+                id: 'project-1',
+                name: 'Project',
+                notebooks: [
+                    {
+                        id: 'notebook-1',
+                        name: 'Notebook',
+                        blocks: sortingKeys.map((sortingKey, i) => ({
+                            id: `block-${i}`,
+                            type: 'code',
+                            sortingKey,
+                            content: `print(${i})`,
+                            metadata: {}
+                        }))
+                    }
+                ]
+            }
+        };
+
+        return yaml.dump(file);
+    }
+
+    function createDocument(content: string): TextDocument {
+        return {
+            uri: fileUri,
+            lineCount: content.split('\n').length,
+            getText: () => content
+        } as unknown as TextDocument;
+    }
+
+    teardown(() => {
+        sinon.restore();
+    });
+
+    setup(() => {
+        resetVSCodeMocks();
+
+        collection = mock<DiagnosticCollection>();
+        when(mockedVSCodeNamespaces.languages.createDiagnosticCollection(anything())).thenReturn(instance(collection));
+
+        provider = new DeepnoteFileDiagnosticsProvider([] as unknown as IDisposableRegistry);
+    });
+
+    test('should publish no diagnostics for a valid file', () => {
+        const diagnostics = provider.updateDiagnostics(fileUri, createContent(['a0', 'a1']));
+
+        assert.deepStrictEqual(diagnostics, []);
+    });
+
+    test('should publish a diagnostic on the line of a duplicate sorting key', () => {
+        const content = createContent(['a0', 'a0']);
+
+        const diagnostics = provider.updateDiagnostics(fileUri, content);
+
+        assert.strictEqual(diagnostics.length, 1);
+        assert.strictEqual(diagnostics[0].code, 'duplicate-sorting-key');
+        assert.strictEqual(diagnostics[0].severity, DiagnosticSeverity.Error);
+        assert.strictEqual(diagnostics[0].source, 'Deepnote');
+        assert.strictEqual(content.split('\n')[diagnostics[0].range.start.line].trim(), '- id: block-1');
+    });
+
+    test('should publish a diagnostic for invalid YAML', () => {
+        const diagnostics = provider.updateDiagnostics(fileUri, 'project:\n  name: [unclosed\n');
+
+        assert.strictEqual(diagnostics.length, 1);
+        assert.strictEqual(diagnostics[0].code, 'invalid-yaml');
+    });
+
+    test('should offer a quick fix that renumbers the sorting keys', () => {
+        const content = createContent(['a0', 'a0']);
+        const diagnostics = provider.updateDiagnostics(fileUri, content);
+        const context = { diagnostics } as unknown as CodeActionContext;
+
+        const replace = sinon.spy(WorkspaceEdit.prototype, 'replace');
+
+        const actions = provider.provideCodeActions(
+            createDocument(content),
+            new Range(0, 0, 0, 0),
+            context,
+            new CancellationTokenSource().token
+        );
+
+        assert.strictEqual(actions.length, 1);
+        assert.deepStrictEqual(actions[0].diagnostics, diagnostics);
+
+        const lines = content.split('\n');
+
+        // Only the line of the duplicate sorting key is rewritten
+        assert.isTrue(replace.calledOnce);
+        assert.strictEqual(replace.firstCall.args[0].toString(), fileUri.toString());
+
+        const range = replace.firstCall.args[1];
+
+        lines.splice(range.start.line, range.end.line - range.start.line, replace.firstCall.args[2].trimEnd());
+
+        const repaired = yaml.load(lines.join('\n')) as DeepnoteFile;
+
+        assert.deepStrictEqual(
+            repaired.project.notebooks[0].blocks.map((block) => block.sortingKey),
+            ['a0', 'a1']
+        );
+    });
+
+    test('should not offer quick fixes for problems that cannot be repaired', () => {
+        const content = 'project:\n  name: [unclosed\n';
+        const diagnostics = provider.updateDiagnostics(fileUri, content);
+
+        const actions = provider.provideCodeActions(
+            createDocument(content),
+            new Range(0, 0, 0, 0),
+            { diagnostics } as unknown as CodeActionContext,
+            new CancellationTokenSource().token
+        );
+
+        assert.deepStrictEqual(actions, []);
+    });
+});
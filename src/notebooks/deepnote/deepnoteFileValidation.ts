@@ -0,0 +1,676 @@
+import * as yaml from 'js-yaml';
+
+import { generateUuid } from '../../platform/common/uuid';
+import type { DeepnoteFile } from '../../platform/deepnote/deepnoteTypes';
+import { generateBlockId, generateSortingKey } from './dataConversionUtils';
+import { DeepnoteFileSchema, DeepnoteInputMetadataSchemas } from './deepnoteSchemas';
+
+/**
+ * Kinds of problems found in a .deepnote file.
+ */
+export enum DeepnoteValidationIssueCode {
+    InvalidYaml = 'invalid-yaml',
+    InvalidStructure = 'invalid-structure',
+    MissingNotebookId = 'missing-notebook-id',
+    DuplicateNotebookId = 'duplicate-notebook-id',
+    MissingBlockId = 'missing-block-id',
+    DuplicateBlockId = 'duplicate-block-id',
+    MissingSortingKey = 'missing-sorting-key',
+    DuplicateSortingKey = 'duplicate-sorting-key',
+    UnknownBlockType = 'unknown-block-type',
+    InvalidInputMetadata = 'invalid-input-metadata'
+}
+
+export interface DeepnoteValidationIssue {
+    code: DeepnoteValidationIssueCode;
+    message: string;
+    severity: 'error' | 'warning';
+    /** Path of the offending value in the parsed file, e.g. `['project', 'notebooks', 0, 'blocks', 2, 'id']`. */
+    path: (string | number)[];
+    notebookIndex?: number;
+    blockIndex?: number;
+    /** Zero-based line of the problem, only known for YAML syntax errors. */
+    line?: number;
+}
+
+/**
+ * Replaces the lines `startLine` (inclusive) to `endLine` (exclusive) of a .deepnote file with `text`.
+ */
+export interface DeepnoteRepairEdit {
+    startLine: number;
+    endLine: number;
+    text: string;
+}
+
+export interface DeepnoteValidationResult {
+    file: DeepnoteFile | undefined;
+    issues: DeepnoteValidationIssue[];
+}
+
+const repairableCodes: ReadonlySet<DeepnoteValidationIssueCode> = new Set([
+    DeepnoteValidationIssueCode.MissingNotebookId,
+    DeepnoteValidationIssueCode.DuplicateNotebookId,
+    DeepnoteValidationIssueCode.MissingBlockId,
+    DeepnoteValidationIssueCode.DuplicateBlockId,
+    DeepnoteValidationIssueCode.MissingSortingKey,
+    DeepnoteValidationIssueCode.DuplicateSortingKey,
+    DeepnoteValidationIssueCode.UnknownBlockType,
+    DeepnoteValidationIssueCode.InvalidInputMetadata
+]);
+
+/**
+ * Checks whether an issue can be fixed by {@link repairDeepnoteFile}.
+ */
+export function isRepairableIssue(issue: DeepnoteValidationIssue): boolean {
+    return repairableCodes.has(issue.code);
+}
+
+/**
+ * Parses the YAML content of a .deepnote file and validates it.
+ * @param content Raw YAML content
+ * @param supportedBlockTypes Block types that can be opened in the editor
+ */
+export function parseAndValidateDeepnoteFile(
+    content: string,
+    supportedBlockTypes: readonly string[]
+): DeepnoteValidationResult {
+    let parsed: unknown;
+
+    try {
+        parsed = yaml.load(content);
+    } catch (error) {
+        const mark = error instanceof yaml.YAMLException ? error.mark : undefined;
+
+        return {
+            file: undefined,
+            issues: [
+                {
+                    code: DeepnoteValidationIssueCode.InvalidYaml,
+                    message: error instanceof yaml.YAMLException ? error.reason : String(error),
+                    severity: 'error',
+                    path: [],
+                    line: mark?.line
+                }
+            ]
+        };
+    }
+
+    return { file: parsed as DeepnoteFile, issues: validateDeepnoteFile(parsed, supportedBlockTypes) };
+}
+
+/**
+ * Validates a parsed .deepnote file against the project schema and the invariants the editor
+ * relies on: unique notebook and block IDs, unique sorting keys per notebook, known block types
+ * and well-formed input block metadata.
+ * @param data The parsed file
+ * @param supportedBlockTypes Block types that can be opened in the editor
+ */
+export function validateDeepnoteFile(data: unknown, supportedBlockTypes: readonly string[]): DeepnoteValidationIssue[] {
+    const issues: DeepnoteValidationIssue[] = [];
+    const result = DeepnoteFileSchema.safeParse(data);
+
+    if (!result.success) {
+        for (const zodIssue of result.error.issues) {
+            const path = zodIssue.path.filter((segment): segment is string | number => typeof segment !== 'symbol');
+
+            // Missing IDs and sorting keys are reported below, where they can be repaired.
+            if (classifyMissingField(path)) {
+                continue;
+            }
+
+            issues.push({
+                code: DeepnoteValidationIssueCode.InvalidStructure,
+                message: `${formatPath(path)}: ${zodIssue.message}`,
+                severity: 'error',
+                path,
+                ...getIndices(path)
+            });
+        }
+    }
+
+    const notebooks = getNotebooks(data);
+    const notebookIds = new Set<string>();
+    const blockIds = new Set<string>();
+    const supportedTypes = new Set(supportedBlockTypes);
+
+    notebooks.forEach((notebook, notebookIndex) => {
+        const notebookPath = ['project', 'notebooks', notebookIndex];
+
+        if (!isNonEmptyString(notebook.id)) {
+            issues.push({
+                code: DeepnoteValidationIssueCode.MissingNotebookId,
+                message: `Notebook "${notebook.name ?? notebookIndex}" has no ID.`,
+                severity: 'error',
+                path: [...notebookPath, 'id'],
+                notebookIndex
+            });
+        } else if (notebookIds.has(notebook.id)) {
+            issues.push({
+                code: DeepnoteValidationIssueCode.DuplicateNotebookId,
+                message: `Notebook ID "${notebook.id}" is used by more than one notebook.`,
+                severity: 'error',
+                path: [...notebookPath, 'id'],
+                notebookIndex
+            });
+        } else {
+            notebookIds.add(notebook.id);
+        }
+
+        const sortingKeys = new Set<string>();
+        const blocks = Array.isArray(notebook.blocks) ? notebook.blocks : [];
+
+        blocks.forEach((block, blockIndex) => {
+            if (!isRecord(block)) {
+                return;
+            }
+
+            const blockPath = [...notebookPath, 'blocks', blockIndex];
+            const location = { notebookIndex, blockIndex };
+
+            if (!isNonEmptyString(block.id)) {
+                issues.push({
+                    code: DeepnoteValidationIssueCode.MissingBlockId,
+                    message: `Block ${blockIndex} of notebook "${notebook.name ?? notebookIndex}" has no ID.`,
+                    severity: 'error',
+                    path: [...blockPath, 'id'],
+                    ...location
+                });
+            } else if (blockIds.has(block.id)) {
+                // Block IDs are unique across the whole project, as blocks can be moved between notebooks.
+                issues.push({
+                    code: DeepnoteValidationIssueCode.DuplicateBlockId,
+                    message: `Block ID "${block.id}" is used by more than one block.`,
+                    severity: 'error',
+                    path: [...blockPath, 'id'],
+                    ...location
+                });
+            } else {
+                blockIds.add(block.id);
+            }
+
+            if (!isNonEmptyString(block.sortingKey)) {
+                issues.push({
+                    code: DeepnoteValidationIssueCode.MissingSortingKey,
+                    message: `Block ${blockIndex} of notebook "${notebook.name ?? notebookIndex}" has no sorting key.`,
+                    severity: 'error',
+                    path: [...blockPath, 'sortingKey'],
+                    ...location
+                });
+            } else if (sortingKeys.has(block.sortingKey)) {
+                issues.push({
+                    code: DeepnoteValidationIssueCode.DuplicateSortingKey,
+                    message: `Sorting key "${block.sortingKey}" is used by more than one block in notebook "${
+                        notebook.name ?? notebookIndex
+                    }".`,
+                    severity: 'error',
+                    path: [...blockPath, 'sortingKey'],
+                    ...location
+                });
+            } else {
+                sortingKeys.add(block.sortingKey);
+            }
+
+            if (isNonEmptyString(block.type) && !supportedTypes.has(block.type)) {
+                issues.push({
+                    code: DeepnoteValidationIssueCode.UnknownBlockType,
+                    message: `Block type "${block.type}" is not supported and will be shown as Markdown.`,
+                    severity: 'warning',
+                    path: [...blockPath, 'type'],
+                    ...location
+                });
+            }
+
+            const metadataSchema = isNonEmptyString(block.type) ? getInputMetadataSchema(block.type) : undefined;
+
+            if (metadataSchema && (block.metadata === undefined || isRecord(block.metadata))) {
+                const metadataResult = metadataSchema.safeParse(block.metadata ?? {});
+
+                if (!metadataResult.success) {
+                    for (const zodIssue of metadataResult.error.issues) {
+                        const key = zodIssue.path[0];
+
+                        issues.push({
+                            code: DeepnoteValidationIssueCode.InvalidInputMetadata,
+                            message: `Invalid "${String(key)}" in ${block.type} block metadata: ${zodIssue.message}`,
+                            severity: 'warning',
+                            path:
+                                typeof key === 'string' ? [...blockPath, 'metadata', key] : [...blockPath, 'metadata'],
+                            ...location
+                        });
+                    }
+                }
+            }
+        });
+    });
+
+    return issues;
+}
+
+/**
+ * Returns a repaired copy of a .deepnote file. All problems of the same kind as the given issue
+ * are fixed at once, as fixing e.g. one duplicate sorting key can't be done without the others.
+ * @param file The parsed file
+ * @param issue The issue to repair
+ */
+export function repairDeepnoteFile(file: DeepnoteFile, issue: DeepnoteValidationIssue): DeepnoteFile {
+    const repaired = structuredClone(file);
+    const notebooks = getNotebooks(repaired);
+
+    switch (issue.code) {
+        case DeepnoteValidationIssueCode.MissingNotebookId:
+        case DeepnoteValidationIssueCode.DuplicateNotebookId: {
+            const seen = new Set<string>();
+
+            for (const notebook of notebooks) {
+                if (!isNonEmptyString(notebook.id) || seen.has(notebook.id)) {
+                    notebook.id = generateUuid();
+                }
+
+                seen.add(notebook.id as string);
+            }
+            break;
+        }
+
+        case DeepnoteValidationIssueCode.MissingBlockId:
+        case DeepnoteValidationIssueCode.DuplicateBlockId: {
+            const seen = new Set<string>();
+
+            for (const block of notebooks.flatMap(getBlocks)) {
+                if (!isNonEmptyString(block.id) || seen.has(block.id)) {
+                    block.id = generateBlockId();
+                }
+
+                seen.add(block.id as string);
+            }
+            break;
+        }
+
+        case DeepnoteValidationIssueCode.MissingSortingKey:
+        case DeepnoteValidationIssueCode.DuplicateSortingKey: {
+            // Renumber in file order, which is the order the blocks are shown in.
+            const notebook = issue.notebookIndex !== undefined ? notebooks[issue.notebookIndex] : undefined;
+
+            getBlocks(notebook).forEach((block, index) => {
+                block.sortingKey = generateSortingKey(index);
+            });
+            break;
+        }
+
+        case DeepnoteValidationIssueCode.UnknownBlockType: {
+            const block = getBlock(notebooks, issue);
+
+            if (block) {
+                block.type = 'markdown';
+            }
+            break;
+        }
+
+        case DeepnoteValidationIssueCode.InvalidInputMetadata: {
+            // Dropping the invalid value lets the schema fall back to its default.
+            const block = getBlock(notebooks, issue);
+            const key = issue.path[issue.path.length - 1];
+
+            if (block && isRecord(block.metadata) && typeof key === 'string' && key !== 'metadata') {
+                delete block.metadata[key];
+            }
+            break;
+        }
+
+        default:
+            break;
+    }
+
+    return repaired;
+}
+
+/**
+ * Computes the line edits that repair an issue in the YAML content of a file, so that the rest of the
+ * file keeps its formatting. Changed values are rewritten on their own line, missing values are added
+ * next to the other values of their block or notebook, and blocks whose metadata changed are rewritten
+ * as a whole.
+ * @param content Raw YAML content the issue was found in
+ * @param file The parsed file
+ * @param issue The issue to repair
+ * @returns The edits, or undefined if the values could not be located in the content
+ */
+export function createRepairEdits(
+    content: string,
+    file: DeepnoteFile,
+    issue: DeepnoteValidationIssue
+): DeepnoteRepairEdit[] | undefined {
+    const lines = content.split(/\r?\n/);
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const notebooks = getNotebooks(file);
+    const repairedNotebooks = getNotebooks(repairDeepnoteFile(file, issue));
+    const edits: DeepnoteRepairEdit[] = [];
+
+    if (notebooks.length !== repairedNotebooks.length) {
+        return undefined;
+    }
+
+    for (let notebookIndex = 0; notebookIndex < notebooks.length; notebookIndex++) {
+        const notebookEdits = createRecordEdits(
+            lines,
+            notebooks,
+            { notebookIndex },
+            notebooks[notebookIndex],
+            repairedNotebooks[notebookIndex],
+            ['name']
+        );
+        const blocks = getBlocks(notebooks[notebookIndex]);
+        const repairedBlocks = getBlocks(repairedNotebooks[notebookIndex]);
+
+        if (!notebookEdits || blocks.length !== repairedBlocks.length) {
+            return undefined;
+        }
+
+        edits.push(...notebookEdits);
+
+        for (let blockIndex = 0; blockIndex < blocks.length; blockIndex++) {
+            const blockEdits = createRecordEdits(
+                lines,
+                notebooks,
+                { notebookIndex, blockIndex },
+                blocks[blockIndex],
+                repairedBlocks[blockIndex],
+                ['id', 'sortingKey', 'type']
+            );
+
+            if (!blockEdits) {
+                return undefined;
+            }
+
+            edits.push(...blockEdits);
+        }
+    }
+
+    return edits.map((edit) => ({ ...edit, text: edit.text.replace(/\n/g, eol) }));
+}
+
+/**
+ * Computes the edits of one notebook or block. Notebooks are only compared without their blocks.
+ */
+function createRecordEdits(
+    lines: string[],
+    notebooks: NotebookRecord[],
+    location: Pick<DeepnoteValidationIssue, 'notebookIndex' | 'blockIndex'>,
+    record: Record<string, unknown>,
+    repaired: Record<string, unknown>,
+    anchorKeys: string[]
+): DeepnoteRepairEdit[] | undefined {
+    const changedKeys = [...new Set([...Object.keys(record), ...Object.keys(repaired)])].filter(
+        (key) => key !== 'blocks' && JSON.stringify(record[key]) !== JSON.stringify(repaired[key])
+    );
+
+    if (changedKeys.length === 0) {
+        return [];
+    }
+
+    const findLine = (key: string) =>
+        isNonEmptyString(record[key])
+            ? findKeyValueLine(
+                  lines,
+                  key,
+                  record[key] as string,
+                  countPrecedingOccurrences(notebooks, location, key, record[key] as string)
+              )
+            : undefined;
+    const anchorLine = [...anchorKeys, 'id'].map(findLine).find((line): line is number => line !== undefined);
+
+    if (anchorLine === undefined) {
+        return undefined;
+    }
+
+    const keyIndent = getKeyIndent(lines[anchorLine]);
+    const edits: DeepnoteRepairEdit[] = [];
+
+    for (const key of changedKeys) {
+        const value = repaired[key];
+        const line = findLine(key);
+
+        if (typeof value === 'string' && line !== undefined) {
+            const prefix = /^(\s*(?:-\s+)?[^:]+:\s*)/.exec(lines[line])?.[1] ?? '';
+
+            edits.push({ startLine: line, endLine: line + 1, text: `${prefix}${dumpScalar(value)}\n` });
+        } else if (typeof value === 'string' && record[key] === undefined) {
+            edits.push({
+                startLine: anchorLine + 1,
+                endLine: anchorLine + 1,
+                text: `${' '.repeat(keyIndent)}${key}: ${dumpScalar(value)}\n`
+            });
+        } else if (location.blockIndex !== undefined) {
+            // Other values, such as metadata, can span several lines, so the whole block is rewritten
+            const range = findItemRange(lines, anchorLine, keyIndent);
+
+            return range && [{ ...range, text: dumpItem(repaired, keyIndent) }];
+        } else {
+            return undefined;
+        }
+    }
+
+    return edits;
+}
+
+/**
+ * Finds the lines of the sequence item, e.g. a block, that a line of one of its keys belongs to.
+ */
+function findItemRange(
+    lines: string[],
+    keyLine: number,
+    keyIndent: number
+): Pick<DeepnoteRepairEdit, 'startLine' | 'endLine'> | undefined {
+    let startLine = keyLine;
+
+    while (startLine >= 0 && !(/^\s*-\s/.test(lines[startLine]) && getKeyIndent(lines[startLine]) === keyIndent)) {
+        if (getIndent(lines[startLine]) < keyIndent && lines[startLine].trim() !== '') {
+            return undefined;
+        }
+
+        startLine--;
+    }
+
+    if (startLine < 0) {
+        return undefined;
+    }
+
+    let endLine = startLine + 1;
+
+    while (endLine < lines.length && (lines[endLine].trim() === '' || getIndent(lines[endLine]) >= keyIndent)) {
+        endLine++;
+    }
+
+    // Blank lines between items stay where they are
+    while (endLine > startLine + 1 && lines[endLine - 1].trim() === '') {
+        endLine--;
+    }
+
+    return { startLine, endLine };
+}
+
+function dumpScalar(value: string): string {
+    return yaml.dump(value, { lineWidth: -1 }).trimEnd();
+}
+
+function dumpItem(item: Record<string, unknown>, keyIndent: number): string {
+    const itemLines = yaml
+        .dump(item, { indent: 2, lineWidth: -1, noRefs: true, sortKeys: false })
+        .trimEnd()
+        .split('\n');
+
+    return itemLines
+        .map((line, index) =>
+            index === 0 ? `${' '.repeat(keyIndent - 2)}- ${line}` : line && `${' '.repeat(keyIndent)}${line}`
+        )
+        .map((line) => `${line}\n`)
+        .join('');
+}
+
+function getIndent(line: string): number {
+    return /^\s*/.exec(line)?.[0].length ?? 0;
+}
+
+/**
+ * Returns the indentation of the key of a line, after the dash of a sequence item.
+ */
+function getKeyIndent(line: string): number {
+    return /^\s*(?:-\s+)?/.exec(line)?.[0].length ?? 0;
+}
+
+/**
+ * Finds the line of an issue in the YAML content of the file, falling back to the line of the
+ * enclosing block or notebook, and to the first line when nothing better is found.
+ * @param content Raw YAML content the issue was found in
+ * @param file The parsed file
+ * @param issue The issue to locate
+ */
+export function findIssueLine(content: string, file: DeepnoteFile | undefined, issue: DeepnoteValidationIssue): number {
+    if (issue.line !== undefined) {
+        return issue.line;
+    }
+
+    const lines = content.split(/\r?\n/);
+    const notebooks = getNotebooks(file);
+    const notebook = issue.notebookIndex !== undefined ? notebooks[issue.notebookIndex] : undefined;
+    const block = getBlock(notebooks, issue);
+
+    // Values are searched in order of how precisely they point at the block, and the occurrence
+    // is counted so the second of two duplicate IDs is found rather than the first.
+    const candidates: [string, unknown][] = [];
+
+    if (block) {
+        candidates.push(['id', block.id], ['sortingKey', block.sortingKey]);
+    }
+
+    if (notebook) {
+        candidates.push(['id', notebook.id], ['name', notebook.name]);
+    }
+
+    for (const [key, value] of candidates) {
+        if (!isNonEmptyString(value)) {
+            continue;
+        }
+
+        const occurrence = countPrecedingOccurrences(notebooks, issue, key, value);
+        const line = findKeyValueLine(lines, key, value, occurrence);
+
+        if (line !== undefined) {
+            return line;
+        }
+    }
+
+    return 0;
+}
+
+function findKeyValueLine(lines: string[], key: string, value: string, occurrence: number): number | undefined {
+    const pattern = new RegExp(`^\\s*(?:-\\s+)?${key}:\\s*(['"]?)${escapeRegExp(value)}\\1\\s*$`);
+    let seen = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+        if (pattern.test(lines[i])) {
+            if (seen === occurrence) {
+                return i;
+            }
+
+            seen++;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Counts how many times a key/value pair appears in blocks and notebooks before the issue's location.
+ */
+function countPrecedingOccurrences(
+    notebooks: NotebookRecord[],
+    issue: Pick<DeepnoteValidationIssue, 'notebookIndex' | 'blockIndex'>,
+    key: string,
+    value: string
+): number {
+    let count = 0;
+
+    for (let n = 0; n < notebooks.length; n++) {
+        if (n === issue.notebookIndex && issue.blockIndex === undefined) {
+            return count;
+        }
+
+        if (notebooks[n][key] === value) {
+            count++;
+        }
+
+        const blocks = getBlocks(notebooks[n]);
+
+        for (let b = 0; b < blocks.length; b++) {
+            if (n === issue.notebookIndex && b === issue.blockIndex) {
+                return count;
+            }
+
+            if (blocks[b][key] === value) {
+                count++;
+            }
+        }
+    }
+
+    return count;
+}
+
+type NotebookRecord = Record<string, unknown> & { name?: string; blocks?: unknown };
+
+function getNotebooks(data: unknown): NotebookRecord[] {
+    if (!isRecord(data) || !isRecord(data.project) || !Array.isArray(data.project.notebooks)) {
+        return [];
+    }
+
+    return data.project.notebooks.filter(isRecord) as NotebookRecord[];
+}
+
+function getBlocks(notebook: NotebookRecord | undefined): Record<string, unknown>[] {
+    return notebook && Array.isArray(notebook.blocks) ? notebook.blocks.filter(isRecord) : [];
+}
+
+function getBlock(notebooks: NotebookRecord[], issue: DeepnoteValidationIssue): Record<string, unknown> | undefined {
+    if (issue.notebookIndex === undefined || issue.blockIndex === undefined) {
+        return undefined;
+    }
+
+    const blocks = notebooks[issue.notebookIndex]?.blocks;
+
+    return Array.isArray(blocks) && isRecord(blocks[issue.blockIndex]) ? blocks[issue.blockIndex] : undefined;
+}
+
+function getInputMetadataSchema(type: string) {
+    return type in DeepnoteInputMetadataSchemas
+        ? DeepnoteInputMetadataSchemas[type as keyof typeof DeepnoteInputMetadataSchemas]
+        : undefined;
+}
+
+function classifyMissingField(path: (string | number)[]): boolean {
+    const field = path[path.length - 1];
+    const isBlockField = path.length === 6 && path[3] === 'blocks';
+    const isNotebookField = path.length === 4 && path[1] === 'notebooks';
+
+    return (isBlockField && (field === 'id' || field === 'sortingKey')) || (isNotebookField && field === 'id');
+}
+
+function getIndices(path: (string | number)[]): Pick<DeepnoteValidationIssue, 'notebookIndex' | 'blockIndex'> {
+    return {
+        notebookIndex: path[1] === 'notebooks' && typeof path[2] === 'number' ? path[2] : undefined,
+        blockIndex: path[3] === 'blocks' && typeof path[4] === 'number' ? path[4] : undefined
+    };
+}
+
+function formatPath(path: (string | number)[]): string {
+    return path.length === 0 ? 'File' : path.map((segment) => String(segment)).join('.');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.length > 0;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
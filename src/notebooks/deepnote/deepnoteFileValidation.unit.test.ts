@@ -0,0 +1,326 @@
+import { assert } from 'chai';
+import * as yaml from 'js-yaml';
+
+import type { DeepnoteBlock, DeepnoteFile } from '../../platform/deepnote/deepnoteTypes';
+import {
+    createRepairEdits,
+    DeepnoteRepairEdit,
+    DeepnoteValidationIssueCode,
+    findIssueLine,
+    isRepairableIssue,
+    parseAndValidateDeepnoteFile,
+    repairDeepnoteFile,
+    validateDeepnoteFile
+} from './deepnoteFileValidation';
+
+suite('deepnoteFileValidation', () => {
+    const supportedTypes = ['code', 'markdown', 'sql', 'input-text', 'input-slider'];
+
+    function createBlock(overrides: Partial<DeepnoteBlock> = {}): DeepnoteBlock {
+        return {
+            id: 'block-1',
+            type: 'code',
+            sortingKey: 'a0',
+            blockGroup: 'group-1',
+            content: 'print(1)',
+            metadata: {},
+            ...overrides
+        };
+    }
+
+    function createFile(
+        blocks: DeepnoteBlock[],
+        extraNotebooks: DeepnoteFile['project']['notebooks'] = []
+    ): DeepnoteFile {
+        return {
+            version: '1.0',
+            metadata: { createdAt: '2024-01-01T00:00:00.000Z' },
+            project: {
+                id: 'project-1',
+                name: 'Project',
+                notebooks: [{ id: 'notebook-1', name: 'Notebook', blocks }, ...extraNotebooks]
+            }
+        };
+    }
+
+    function applyEdits(content: string, edits: DeepnoteRepairEdit[]): string {
+        const lines = content.split('\n').map((line) => `${line}\n`);
+
+        for (const edit of [...edits].sort((a, b) => b.startLine - a.startLine)) {
+            lines.splice(edit.startLine, edit.endLine - edit.startLine, edit.text);
+        }
+
+        return lines.join('').slice(0, -1);
+    }
+
+    function codesOf(file: unknown) {
+        return validateDeepnoteFile(file, supportedTypes).map((issue) => issue.code);
+    }
+
+    suite('validateDeepnoteFile', () => {
+        test('should accept a valid file', () => {
+            const file = createFile([createBlock(), createBlock({ id: 'block-2', sortingKey: 'a1' })]);
+
+            assert.deepStrictEqual(codesOf(file), []);
+        });
+
+        test('should report missing block IDs', () => {
+            const file = createFile([createBlock({ id: undefined as unknown as string })]);
+
+            const issues = validateDeepnoteFile(file, supportedTypes);
+
+            assert.deepStrictEqual(
+                issues.map((issue) => issue.code),
+                [DeepnoteValidationIssueCode.MissingBlockId]
+            );
+            assert.deepStrictEqual(issues[0].path, ['project', 'notebooks', 0, 'blocks', 0, 'id']);
+            assert.strictEqual(issues[0].notebookIndex, 0);
+            assert.strictEqual(issues[0].blockIndex, 0);
+        });
+
+        test('should report block IDs duplicated across notebooks', () => {
+            const file = createFile(
+                [createBlock()],
+                [{ id: 'notebook-2', name: 'Other', blocks: [createBlock({ sortingKey: 'a0' })] }]
+            );
+
+            const issues = validateDeepnoteFile(file, supportedTypes);
+
+            assert.deepStrictEqual(
+                issues.map((issue) => issue.code),
+                [DeepnoteValidationIssueCode.DuplicateBlockId]
+            );
+            assert.strictEqual(issues[0].notebookIndex, 1);
+        });
+
+        test('should report duplicate and missing sorting keys', () => {
+            const file = createFile([
+                createBlock(),
+                createBlock({ id: 'block-2', sortingKey: 'a0' }),
+                createBlock({ id: 'block-3', sortingKey: '' })
+            ]);
+
+            assert.deepStrictEqual(codesOf(file), [
+                DeepnoteValidationIssueCode.DuplicateSortingKey,
+                DeepnoteValidationIssueCode.MissingSortingKey
+            ]);
+        });
+
+        test('should report unknown block types as warnings', () => {
+            const issues = validateDeepnoteFile(createFile([createBlock({ type: 'holograph' })]), supportedTypes);
+
+            assert.strictEqual(issues.length, 1);
+            assert.strictEqual(issues[0].code, DeepnoteValidationIssueCode.UnknownBlockType);
+            assert.strictEqual(issues[0].severity, 'warning');
+        });
+
+        test('should report invalid input block metadata', () => {
+            const file = createFile([
+                createBlock({
+                    type: 'input-text',
+                    metadata: { deepnote_variable_name: 'x', deepnote_variable_value: 42 }
+                })
+            ]);
+
+            const issues = validateDeepnoteFile(file, supportedTypes);
+
+            assert.strictEqual(issues.length, 1);
+            assert.strictEqual(issues[0].code, DeepnoteValidationIssueCode.InvalidInputMetadata);
+            assert.deepStrictEqual(issues[0].path, [
+                'project',
+                'notebooks',
+                0,
+                'blocks',
+                0,
+                'metadata',
+                'deepnote_variable_value'
+            ]);
+        });
+
+        test('should report duplicate notebook IDs', () => {
+            const file = createFile([createBlock()], [{ id: 'notebook-1', name: 'Copy', blocks: [] }]);
+
+            assert.deepStrictEqual(codesOf(file), [DeepnoteValidationIssueCode.DuplicateNotebookId]);
+        });
+
+        test('should report structural problems', () => {
+            const file = createFile([createBlock({ content: 42 as unknown as string })]);
+
+            const issues = validateDeepnoteFile(file, supportedTypes);
+
+            assert.strictEqual(issues.length, 1);
+            assert.strictEqual(issues[0].code, DeepnoteValidationIssueCode.InvalidStructure);
+            assert.include(issues[0].message, 'project.notebooks.0.blocks.0.content');
+            assert.isFalse(isRepairableIssue(issues[0]));
+        });
+    });
+
+    suite('parseAndValidateDeepnoteFile', () => {
+        test('should report YAML syntax errors with their line', () => {
+            const { file, issues } = parseAndValidateDeepnoteFile('version: 1.0\nproject:\n  name: [unclosed\n', []);
+
+            assert.isUndefined(file);
+            assert.strictEqual(issues.length, 1);
+            assert.strictEqual(issues[0].code, DeepnoteValidationIssueCode.InvalidYaml);
+            assert.isNumber(issues[0].line);
+        });
+    });
+
+    suite('repairDeepnoteFile', () => {
+        test('should regenerate duplicate block IDs and keep the first occurrence', () => {
+            const file = createFile([createBlock(), createBlock({ sortingKey: 'a1' })]);
+            const [issue] = validateDeepnoteFile(file, supportedTypes);
+
+            const repaired = repairDeepnoteFile(file, issue);
+            const blocks = repaired.project.notebooks[0].blocks;
+
+            assert.strictEqual(blocks[0].id, 'block-1');
+            assert.notStrictEqual(blocks[1].id, 'block-1');
+            assert.match(blocks[1].id, /^[0-9a-f]{32}$/);
+            assert.deepStrictEqual(validateDeepnoteFile(repaired, supportedTypes), []);
+            assert.strictEqual(file.project.notebooks[0].blocks[1].id, 'block-1', 'input must not be modified');
+        });
+
+        test('should renumber sorting keys in file order', () => {
+            const file = createFile([
+                createBlock({ sortingKey: 'x' }),
+                createBlock({ id: 'block-2', sortingKey: 'x' }),
+                createBlock({ id: 'block-3', sortingKey: 'b' })
+            ]);
+            const [issue] = validateDeepnoteFile(file, supportedTypes);
+
+            const repaired = repairDeepnoteFile(file, issue);
+
+            assert.deepStrictEqual(
+                repaired.project.notebooks[0].blocks.map((block) => block.sortingKey),
+                ['a0', 'a1', 'a2']
+            );
+        });
+
+        test('should convert unknown block types to markdown', () => {
+            const file = createFile([createBlock({ type: 'holograph' })]);
+            const [issue] = validateDeepnoteFile(file, supportedTypes);
+
+            assert.strictEqual(repairDeepnoteFile(file, issue).project.notebooks[0].blocks[0].type, 'markdown');
+        });
+
+        test('should drop invalid input metadata values', () => {
+            const file = createFile([
+                createBlock({
+                    type: 'input-text',
+                    metadata: { deepnote_variable_name: 'x', deepnote_variable_value: 42 }
+                })
+            ]);
+            const [issue] = validateDeepnoteFile(file, supportedTypes);
+
+            const repaired = repairDeepnoteFile(file, issue);
+
+            assert.deepStrictEqual(repaired.project.notebooks[0].blocks[0].metadata, { deepnote_variable_name: 'x' });
+        });
+
+        test('should regenerate duplicate notebook IDs', () => {
+            const file = createFile([createBlock()], [{ id: 'notebook-1', name: 'Copy', blocks: [] }]);
+            const [issue] = validateDeepnoteFile(file, supportedTypes);
+
+            const repaired = repairDeepnoteFile(file, issue);
+
+            assert.strictEqual(repaired.project.notebooks[0].id, 'notebook-1');
+            assert.notStrictEqual(repaired.project.notebooks[1].id, 'notebook-1');
+        });
+    });
+
+    suite('createRepairEdits', () => {
+        test('should only rewrite the lines of the repaired values', () => {
+            const file = createFile([
+                createBlock({ sortingKey: 'x' }),
+                createBlock({ id: 'block-2', sortingKey: 'x' })
+            ]);
+            const content = `# Edited by hand\n${yaml.dump(file)}`;
+            const [issue] = validateDeepnoteFile(file, supportedTypes);
+
+            const edits = createRepairEdits(content, file, issue);
+            const repaired = applyEdits(content, edits ?? []);
+
+            assert.strictEqual(edits?.length, 2);
+            assert.isTrue(repaired.startsWith('# Edited by hand\n'));
+            assert.deepStrictEqual(
+                (yaml.load(repaired) as DeepnoteFile).project.notebooks[0].blocks.map((block) => block.sortingKey),
+                ['a0', 'a1']
+            );
+        });
+
+        test('should add a missing block ID next to the other values of the block', () => {
+            const file = createFile([createBlock({ id: undefined as unknown as string })]);
+            const content = yaml.dump(file);
+            const [issue] = validateDeepnoteFile(file, supportedTypes);
+
+            const edits = createRepairEdits(content, file, issue);
+            const repaired = yaml.load(applyEdits(content, edits ?? [])) as DeepnoteFile;
+
+            assert.strictEqual(edits?.length, 1);
+            assert.strictEqual(edits?.[0].startLine, edits?.[0].endLine, 'the ID should be inserted');
+            assert.match(repaired.project.notebooks[0].blocks[0].id, /^[0-9a-f]{32}$/);
+            assert.deepStrictEqual(validateDeepnoteFile(repaired, supportedTypes), []);
+        });
+
+        test('should rewrite only the block whose metadata is repaired', () => {
+            const file = createFile([
+                createBlock(),
+                createBlock({
+                    id: 'block-2',
+                    sortingKey: 'a1',
+                    type: 'input-text',
+                    metadata: { deepnote_variable_name: 'x', deepnote_variable_value: 42 }
+                })
+            ]);
+            const content = yaml.dump(file);
+            const [issue] = validateDeepnoteFile(file, supportedTypes);
+
+            const edits = createRepairEdits(content, file, issue) ?? [];
+            const repaired = yaml.load(applyEdits(content, edits)) as DeepnoteFile;
+
+            assert.strictEqual(edits.length, 1);
+            assert.isAbove(
+                edits[0].startLine,
+                content.split('\n').findIndex((line) => line.includes('id: block-1'))
+            );
+            assert.deepStrictEqual(repaired.project.notebooks[0].blocks[1].metadata, { deepnote_variable_name: 'x' });
+            assert.deepStrictEqual(repaired.project.notebooks[0].blocks[0], file.project.notebooks[0].blocks[0]);
+        });
+
+        test('should return undefined when the values cannot be located', () => {
+            const file = createFile([createBlock(), createBlock({ sortingKey: 'a1' })]);
+            const content = JSON.stringify(file);
+            const [issue] = validateDeepnoteFile(file, supportedTypes);
+
+            assert.isUndefined(createRepairEdits(content, file, issue));
+        });
+    });
+
+    suite('findIssueLine', () => {
+        test('should find the line of the second duplicate block ID', () => {
+            const file = createFile([createBlock(), createBlock({ sortingKey: 'a1' })]);
+            const content = yaml.dump(file);
+            const [issue] = validateDeepnoteFile(file, supportedTypes);
+
+            const line = findIssueLine(content, file, issue);
+            const idLines = content
+                .split('\n')
+                .map((text, index) => ({ text, index }))
+                .filter(({ text }) => /^\s*(- )?id: block-1$/.test(text));
+
+            assert.strictEqual(idLines.length, 2);
+            assert.strictEqual(line, idLines[1].index);
+        });
+
+        test('should fall back to the sorting key line when the block has no ID', () => {
+            const file = createFile([createBlock({ id: undefined as unknown as string, sortingKey: 'a7' })]);
+            const content = yaml.dump(file);
+            const [issue] = validateDeepnoteFile(file, supportedTypes);
+
+            const line = findIssueLine(content, file, issue);
+
+            assert.match(content.split('\n')[line], /sortingKey: a7$/);
+        });
+    });
+});
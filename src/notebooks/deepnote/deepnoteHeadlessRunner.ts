@@ -0,0 +1,365 @@
+import { createPythonCode } from '@deepnote/blocks';
+
+import * as path from '../../platform/vscode-path/path';
+import type {
+    DeepnoteBlock,
+    DeepnoteFile,
+    DeepnoteNotebook,
+    DeepnoteOutput
+} from '../../platform/deepnote/deepnoteTypes';
+import {
+    DATAFRAME_SQL_INTEGRATION_CONNECTION_JSON,
+    DATAFRAME_SQL_INTEGRATION_ID,
+    getSqlIntegrationEnvVarName
+} from '../../platform/notebooks/deepnote/integrationTypes';
+import { compareSortingKeys } from './deepnoteBlockMerge';
+
+// This module is used by the headless runner, which runs outside of VS Code: it must not import 'vscode'.
+
+/**
+ * A block to execute, in execution order.
+ */
+export interface HeadlessCell {
+    id: string;
+    notebookName: string;
+    blockType: string;
+    code: string;
+    /** The integration queried by a SQL block */
+    integrationId?: string;
+}
+
+/**
+ * The result of executing a block, as reported by `pythonFiles/deepnote_runner.py`.
+ */
+export interface HeadlessCellResult {
+    id: string;
+    execution_count: number | null;
+    outputs: DeepnoteOutput[];
+    status: 'ok' | 'error';
+}
+
+export interface HeadlessRunnerArguments {
+    filePath: string;
+    notebook: string | undefined;
+    inputs: Record<string, string>;
+    /** File to write the project with outputs to, the project file itself with `--in-place` */
+    outputPath: string;
+    python: string | undefined;
+    timeout: number | undefined;
+}
+
+export const headlessRunnerUsage = `Usage: deepnote-run <project.deepnote> (--output <path> | --in-place) [options]
+
+Runs a notebook of a Deepnote project top to bottom, after its init notebook.
+SQL blocks read the connection of their integration from the SQL_<INTEGRATION_ID> environment variable.
+
+Options:
+  --output <path>           File to write the project with outputs to, other than the project file
+  --in-place                Writes the outputs back into the project file instead
+  --notebook <name or id>   Notebook to run (required when the project has several)
+  --input <name>=<value>    Overrides the value of an input block (lists as JSON or comma separated)
+  --python <path>           Python interpreter with jupyter_client, ipykernel and deepnote_toolkit (default: python3)
+  --timeout <seconds>       Fails a block that runs longer than this`;
+
+const nonExecutableBlockTypes = new Set(['markdown', 'separator', 'image']);
+
+/**
+ * Parses the command line arguments of the headless runner.
+ * @throws {Error} If the arguments are invalid
+ */
+export function parseHeadlessRunnerArguments(argv: string[]): HeadlessRunnerArguments {
+    const args: HeadlessRunnerArguments = {
+        filePath: '',
+        notebook: undefined,
+        inputs: {},
+        outputPath: '',
+        python: undefined,
+        timeout: undefined
+    };
+    let inPlace = false;
+
+    for (let index = 0; index < argv.length; index++) {
+        const arg = argv[index];
+
+        if (!arg.startsWith('--')) {
+            if (args.filePath) {
+                throw new Error(`Unexpected argument: ${arg}`);
+            }
+
+            args.filePath = arg;
+            continue;
+        }
+
+        if (arg === '--in-place') {
+            inPlace = true;
+            continue;
+        }
+
+        const value = argv[++index];
+
+        if (value === undefined) {
+            throw new Error(`Missing value for ${arg}`);
+        }
+
+        switch (arg) {
+            case '--notebook':
+                args.notebook = value;
+                break;
+            case '--input': {
+                const separatorIndex = value.indexOf('=');
+
+                if (separatorIndex <= 0) {
+                    throw new Error(`Invalid input override "${value}", expected <name>=<value>`);
+                }
+
+                args.inputs[value.slice(0, separatorIndex)] = value.slice(separatorIndex + 1);
+                break;
+            }
+            case '--output':
+                args.outputPath = value;
+                break;
+            case '--python':
+                args.python = value;
+                break;
+            case '--timeout':
+                args.timeout = Number(value);
+
+                if (!Number.isFinite(args.timeout) || args.timeout <= 0) {
+                    throw new Error(`Invalid timeout "${value}"`);
+                }
+                break;
+            default:
+                throw new Error(`Unknown option: ${arg}`);
+        }
+    }
+
+    if (!args.filePath) {
+        throw new Error('Missing path to a .deepnote file');
+    }
+
+    if (inPlace) {
+        if (args.outputPath) {
+            throw new Error('--output and --in-place cannot be used together');
+        }
+
+        args.outputPath = args.filePath;
+    } else if (!args.outputPath) {
+        throw new Error('Missing --output, the file to write the project with outputs to, or --in-place');
+    } else if (path.resolve(args.outputPath) === path.resolve(args.filePath)) {
+        throw new Error('--output must not be the project file, use --in-place to write the outputs into it');
+    }
+
+    return args;
+}
+
+/**
+ * Finds the notebook to run by ID or name.
+ * Without a selector, the only notebook of the project (other than the init notebook) is used.
+ * @throws {Error} If no notebook, or more than one, matches
+ */
+export function findNotebookToRun(project: DeepnoteFile, selector: string | undefined): DeepnoteNotebook {
+    const notebooks = project.project.notebooks ?? [];
+
+    if (selector) {
+        const notebook =
+            notebooks.find((candidate) => candidate.id === selector) ??
+            notebooks.find((candidate) => candidate.name === selector);
+
+        if (!notebook) {
+            throw new Error(`Notebook "${selector}" not found, available: ${listNotebookNames(notebooks)}`);
+        }
+
+        return notebook;
+    }
+
+    const candidates = notebooks.filter((candidate) => candidate.id !== project.project.initNotebookId);
+
+    if (candidates.length !== 1) {
+        throw new Error(`Choose a notebook with --notebook, available: ${listNotebookNames(candidates)}`);
+    }
+
+    return candidates[0];
+}
+
+/**
+ * Sets the value of input blocks to the given overrides, in both the init notebook and the notebook.
+ * Values are converted to the type of the value stored in the block, e.g. a list for multi-selects.
+ * @throws {Error} If an override does not match any input block
+ */
+export function applyInputOverrides(blocks: DeepnoteBlock[], inputs: Record<string, string>): void {
+    const unusedNames = new Set(Object.keys(inputs));
+
+    for (const block of blocks) {
+        const name = block.metadata?.deepnote_variable_name;
+
+        if (!block.type.startsWith('input-') || typeof name !== 'string' || !(name in inputs)) {
+            continue;
+        }
+
+        block.metadata = {
+            ...block.metadata,
+            deepnote_variable_value: convertInputValue(inputs[name], block.metadata?.deepnote_variable_value)
+        };
+        unusedNames.delete(name);
+    }
+
+    if (unusedNames.size > 0) {
+        throw new Error(`No input block for: ${[...unusedNames].join(', ')}`);
+    }
+}
+
+/**
+ * Lists the blocks to execute: the init notebook (unless it is the notebook being run), then the notebook.
+ * Blocks are converted to Python with `createPythonCode`; markdown, text and empty blocks are skipped.
+ */
+export function createHeadlessExecutionPlan(
+    project: DeepnoteFile,
+    notebook: DeepnoteNotebook,
+    inputs: Record<string, string> = {}
+): HeadlessCell[] {
+    const initNotebookId = project.project.initNotebookId;
+    const initNotebook =
+        initNotebookId && initNotebookId !== notebook.id
+            ? project.project.notebooks.find((candidate) => candidate.id === initNotebookId)
+            : undefined;
+    const notebooks = initNotebook ? [initNotebook, notebook] : [notebook];
+
+    applyInputOverrides(
+        notebooks.flatMap((candidate) => candidate.blocks ?? []),
+        inputs
+    );
+
+    return notebooks.flatMap((candidate) =>
+        [...(candidate.blocks ?? [])]
+            .sort((a, b) => compareSortingKeys(a.sortingKey, b.sortingKey))
+            .filter((block) => !nonExecutableBlockTypes.has(block.type) && !block.type.startsWith('text-cell-'))
+            .map((block) => ({
+                id: block.id,
+                notebookName: candidate.name,
+                blockType: block.type,
+                code: createPythonCode(block),
+                integrationId:
+                    block.type === 'sql' && typeof block.metadata?.sql_integration_id === 'string'
+                        ? block.metadata.sql_integration_id
+                        : undefined
+            }))
+            .filter((cell) => cell.code.trim().length > 0)
+    );
+}
+
+/**
+ * Creates the environment variables with the connections of the integrations queried by the cells.
+ * Outside of VS Code there are no stored credentials, so they are taken from the given environment (e.g. CI secrets),
+ * except for the internal DuckDB integration.
+ * @throws {Error} If the environment does not have the connection of an integration
+ */
+export function createHeadlessIntegrationEnvironment(
+    cells: HeadlessCell[],
+    env: Record<string, string | undefined>
+): Record<string, string> {
+    const integrationEnv: Record<string, string> = {
+        [getSqlIntegrationEnvVarName(DATAFRAME_SQL_INTEGRATION_ID)]: DATAFRAME_SQL_INTEGRATION_CONNECTION_JSON
+    };
+    const missing = new Set<string>();
+
+    for (const cell of cells) {
+        if (!cell.integrationId || cell.integrationId === DATAFRAME_SQL_INTEGRATION_ID) {
+            continue;
+        }
+
+        const name = getSqlIntegrationEnvVarName(cell.integrationId);
+        const value = env[name];
+
+        if (value) {
+            integrationEnv[name] = value;
+        } else {
+            missing.add(`${name} (integration ${cell.integrationId})`);
+        }
+    }
+
+    if (missing.size > 0) {
+        throw new Error(
+            `Missing connections of SQL integrations, set these environment variables: ${[...missing].join(', ')}`
+        );
+    }
+
+    return integrationEnv;
+}
+
+/**
+ * Stores the outputs and execution counts of executed blocks in the project.
+ */
+export function applyHeadlessResults(project: DeepnoteFile, results: HeadlessCellResult[]): void {
+    const resultsById = new Map(results.map((result) => [result.id, result]));
+
+    for (const notebook of project.project.notebooks ?? []) {
+        for (const block of notebook.blocks ?? []) {
+            const result = resultsById.get(block.id);
+
+            if (!result) {
+                continue;
+            }
+
+            block.outputs = result.outputs;
+
+            if (result.execution_count !== null) {
+                block.executionCount = result.execution_count;
+            }
+        }
+    }
+
+    if (!project.metadata) {
+        project.metadata = { createdAt: new Date().toISOString() };
+    }
+    project.metadata.modifiedAt = new Date().toISOString();
+}
+
+/**
+ * Describes a failed block for the console: where it is, what it runs and the error it raised.
+ */
+export function describeFailedCell(cell: HeadlessCell, result: HeadlessCellResult): string {
+    const error = result.outputs.find((output) => 'output_type' in output && output.output_type === 'error') as
+        | { ename?: string; evalue?: string; traceback?: string[] }
+        | undefined;
+    const firstLine = cell.code.split('\n').find((line) => line.trim().length > 0) ?? '';
+    const lines = [`Block ${cell.id} (${cell.blockType}) in notebook "${cell.notebookName}" failed:`, `  ${firstLine}`];
+
+    if (error) {
+        lines.push('', `${error.ename ?? 'Error'}: ${error.evalue ?? ''}`);
+
+        if (error.traceback && error.traceback.length > 0) {
+            // Tracebacks from IPython are colored with ANSI escape codes
+            // eslint-disable-next-line no-control-regex
+            lines.push(error.traceback.join('\n').replace(/\u001b\[[0-9;]*m/g, ''));
+        }
+    }
+
+    return lines.join('\n');
+}
+
+function convertInputValue(value: string, currentValue: unknown): unknown {
+    if (typeof currentValue === 'boolean') {
+        return ['1', 'true', 'yes', 'on'].includes(value.trim().toLowerCase());
+    }
+
+    if (typeof currentValue === 'number') {
+        return Number(value);
+    }
+
+    if (Array.isArray(currentValue)) {
+        if (value.trim().startsWith('[')) {
+            return JSON.parse(value);
+        }
+
+        return value
+            .split(',')
+            .map((item) => item.trim())
+            .filter((item) => item.length > 0);
+    }
+
+    return value;
+}
+
+function listNotebookNames(notebooks: DeepnoteNotebook[]): string {
+    return notebooks.map((notebook) => `"${notebook.name}"`).join(', ') || 'none';
+}
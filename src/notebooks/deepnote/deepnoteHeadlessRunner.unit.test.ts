@@ -0,0 +1,229 @@
+import { assert } from 'chai';
+import { createPythonCode } from '@deepnote/blocks';
+
+import type { DeepnoteBlock, DeepnoteFile, DeepnoteNotebook } from '../../platform/deepnote/deepnoteTypes';
+import {
+    applyHeadlessResults,
+    createHeadlessExecutionPlan,
+    createHeadlessIntegrationEnvironment,
+    describeFailedCell,
+    findNotebookToRun,
+    parseHeadlessRunnerArguments
+} from './deepnoteHeadlessRunner';
+
+suite('deepnoteHeadlessRunner', () => {
+    function createBlock(id: string, sortingKey: string, overrides: Partial<DeepnoteBlock> = {}): DeepnoteBlock {
+        return {
+            id,
+            sortingKey,
+            blockGroup: `group-${id}`,
+            type: 'code',
+            content: `print("${id}")`,
+            metadata: {},
+            ...overrides
+        };
+    }
+
+    function createNotebook(id: string, blocks: DeepnoteBlock[]): DeepnoteNotebook {
+        return { id, name: `Notebook ${id}`, blocks, executionMode: 'block', isModule: false };
+    }
+
+    function createFile(notebooks: DeepnoteNotebook[], initNotebookId?: string): DeepnoteFile {
+        return {
+            version: '1.0',
+            metadata: { createdAt: '2024-01-01T00:00:00.000Z' },
+            project: { id: 'project-1', name: 'Project', notebooks, ...(initNotebookId && { initNotebookId }) }
+        };
+    }
+
+    suite('parseHeadlessRunnerArguments', () => {
+        test('should parse the file, notebook and input overrides', () => {
+            const args = parseHeadlessRunnerArguments([
+                'project.deepnote',
+                '--notebook',
+                'Report',
+                '--input',
+                'country=CZ',
+                '--input',
+                'query=a=b',
+                '--timeout',
+                '60',
+                '--output',
+                'report.deepnote'
+            ]);
+
+            assert.strictEqual(args.filePath, 'project.deepnote');
+            assert.strictEqual(args.notebook, 'Report');
+            assert.deepStrictEqual(args.inputs, { country: 'CZ', query: 'a=b' });
+            assert.strictEqual(args.timeout, 60);
+            assert.strictEqual(args.outputPath, 'report.deepnote');
+        });
+
+        test('should require an output file other than the project file', () => {
+            assert.throws(() => parseHeadlessRunnerArguments(['a.deepnote']), /Missing --output/);
+            assert.throws(
+                () => parseHeadlessRunnerArguments(['dir/a.deepnote', '--output', 'dir/../dir/a.deepnote']),
+                /must not be the project file, use --in-place/
+            );
+        });
+
+        test('should write the outputs back into the project file with --in-place', () => {
+            const args = parseHeadlessRunnerArguments(['a.deepnote', '--in-place', '--notebook', 'Report']);
+
+            assert.strictEqual(args.outputPath, 'a.deepnote');
+            assert.strictEqual(args.notebook, 'Report');
+            assert.throws(
+                () => parseHeadlessRunnerArguments(['a.deepnote', '--in-place', '--output', 'b.deepnote']),
+                /cannot be used together/
+            );
+        });
+
+        test('should reject invalid arguments', () => {
+            assert.throws(() => parseHeadlessRunnerArguments([]), /Missing path/);
+            assert.throws(() => parseHeadlessRunnerArguments(['a.deepnote', '--input', 'novalue']), /Invalid input/);
+            assert.throws(() => parseHeadlessRunnerArguments(['a.deepnote', '--unknown', 'x']), /Unknown option/);
+            assert.throws(() => parseHeadlessRunnerArguments(['a.deepnote', '--notebook']), /Missing value/);
+        });
+    });
+
+    suite('findNotebookToRun', () => {
+        const file = createFile([createNotebook('init', []), createNotebook('a', []), createNotebook('b', [])], 'init');
+
+        test('should find a notebook by ID or name', () => {
+            assert.strictEqual(findNotebookToRun(file, 'a').id, 'a');
+            assert.strictEqual(findNotebookToRun(file, 'Notebook b').id, 'b');
+        });
+
+        test('should require a selector when the project has several notebooks', () => {
+            assert.throws(() => findNotebookToRun(file, undefined), /--notebook/);
+            assert.strictEqual(
+                findNotebookToRun(createFile([createNotebook('init', []), createNotebook('a', [])], 'init'), undefined)
+                    .id,
+                'a'
+            );
+        });
+    });
+
+    suite('createHeadlessExecutionPlan', () => {
+        test('should run the init notebook first and skip markdown blocks', () => {
+            const notebook = createNotebook('main', [
+                createBlock('second', 'a1'),
+                createBlock('md', 'a0', { type: 'markdown', content: '# Title' }),
+                createBlock('first', 'a00')
+            ]);
+            const file = createFile([createNotebook('init', [createBlock('setup', 'a0')]), notebook], 'init');
+
+            const plan = createHeadlessExecutionPlan(file, notebook);
+
+            assert.deepStrictEqual(
+                plan.map((cell) => cell.id),
+                ['setup', 'first', 'second']
+            );
+            assert.strictEqual(plan[0].notebookName, 'Notebook init');
+        });
+
+        test('should apply input overrides with the type of the stored value', () => {
+            const textInput = createBlock('text', 'a0', {
+                type: 'input-text',
+                content: '',
+                metadata: { deepnote_variable_name: 'country', deepnote_variable_value: 'US' }
+            });
+            const selectInput = createBlock('select', 'a1', {
+                type: 'input-select',
+                content: '',
+                metadata: { deepnote_variable_name: 'cities', deepnote_variable_value: ['Prague'] }
+            });
+            const notebook = createNotebook('main', [textInput, selectInput]);
+
+            const plan = createHeadlessExecutionPlan(createFile([notebook]), notebook, {
+                country: 'CZ',
+                cities: 'Brno, Ostrava'
+            });
+
+            assert.deepStrictEqual(textInput.metadata?.deepnote_variable_value, 'CZ');
+            assert.deepStrictEqual(selectInput.metadata?.deepnote_variable_value, ['Brno', 'Ostrava']);
+            assert.strictEqual(plan[0].code, createPythonCode(textInput));
+        });
+
+        test('should reject overrides without an input block', () => {
+            const notebook = createNotebook('main', [createBlock('a', 'a0')]);
+
+            assert.throws(
+                () => createHeadlessExecutionPlan(createFile([notebook]), notebook, { missing: '1' }),
+                /missing/
+            );
+        });
+    });
+
+    suite('createHeadlessIntegrationEnvironment', () => {
+        const sqlCell = {
+            id: 'sql',
+            notebookName: 'Report',
+            blockType: 'sql',
+            code: '',
+            integrationId: 'my-postgres'
+        };
+
+        test('should pass the connections of the queried integrations and DuckDB', () => {
+            const env = createHeadlessIntegrationEnvironment([sqlCell], {
+                SQL_MY_POSTGRES: '{"url":"postgresql://db"}',
+                SQL_OTHER: '{}'
+            });
+
+            assert.deepStrictEqual(Object.keys(env).sort(), ['SQL_DEEPNOTE_DATAFRAME_SQL', 'SQL_MY_POSTGRES']);
+            assert.strictEqual(env.SQL_MY_POSTGRES, '{"url":"postgresql://db"}');
+        });
+
+        test('should name the missing environment variables', () => {
+            assert.throws(() => createHeadlessIntegrationEnvironment([sqlCell], {}), /SQL_MY_POSTGRES/);
+        });
+    });
+
+    suite('applyHeadlessResults', () => {
+        test('should store outputs and execution counts of executed blocks', () => {
+            const executed = createBlock('a', 'a0');
+            const skipped = createBlock('b', 'a1');
+            const file = createFile([createNotebook('main', [executed, skipped])]);
+
+            applyHeadlessResults(file, [
+                {
+                    id: 'a',
+                    execution_count: 1,
+                    outputs: [{ output_type: 'stream', name: 'stdout', text: 'a\n' }],
+                    status: 'ok'
+                }
+            ]);
+
+            assert.strictEqual(executed.executionCount, 1);
+            assert.deepStrictEqual(executed.outputs, [{ output_type: 'stream', name: 'stdout', text: 'a\n' }]);
+            assert.isUndefined(skipped.outputs);
+            assert.isDefined(file.metadata.modifiedAt);
+        });
+    });
+
+    suite('describeFailedCell', () => {
+        test('should name the block and include the error without colors', () => {
+            const description = describeFailedCell(
+                { id: 'block-1', notebookName: 'Report', blockType: 'code', code: '\n1 / 0' },
+                {
+                    id: 'block-1',
+                    execution_count: 1,
+                    outputs: [
+                        {
+                            output_type: 'error',
+                            ename: 'ZeroDivisionError',
+                            evalue: 'division by zero',
+                            traceback: ['\u001b[0;31mZeroDivisionError\u001b[0m: division by zero']
+                        }
+                    ],
+                    status: 'error'
+                }
+            );
+
+            assert.include(description, 'Block block-1 (code) in notebook "Report" failed');
+            assert.include(description, '1 / 0');
+            assert.include(description, 'ZeroDivisionError: division by zero');
+            assert.notInclude(description, '\u001b');
+        });
+    });
+});
@@ -0,0 +1,265 @@
+import type * as nbformat from '@jupyterlab/nbformat';
+import { createPythonCode } from '@deepnote/blocks';
+import { NotebookCellKind } from 'vscode';
+
+import type { DeepnoteBlock, DeepnoteFile, DeepnoteNotebook } from '../../platform/deepnote/deepnoteTypes';
+import { defaultNotebookFormat } from '../../platform/common/constants';
+import { generateUuid } from '../../platform/common/uuid';
+import { generateBlockId, generateSortingKey } from './dataConversionUtils';
+import { compareSortingKeys } from './deepnoteBlockMerge';
+import { DeepnoteDataConverter } from './deepnoteDataConverter';
+
+/**
+ * Key under which Deepnote information is stored in notebook and cell metadata of exported .ipynb files.
+ */
+export const DEEPNOTE_IPYNB_METADATA_KEY = 'deepnote';
+
+/**
+ * Deepnote information stored in the metadata of an exported cell.
+ * `content` is only kept for blocks whose cell source is generated (SQL, input, chart and text blocks),
+ * the source of code and markdown cells is the block content itself.
+ */
+export interface DeepnoteIpynbCellMetadata {
+    id: string;
+    type: string;
+    blockGroup?: string;
+    sortingKey: string;
+    metadata?: Record<string, unknown>;
+    content?: string;
+    executionCount?: number;
+    version?: number;
+    hadOutputs: boolean;
+}
+
+/**
+ * Deepnote information stored in the metadata of an exported notebook.
+ */
+export interface DeepnoteIpynbNotebookMetadata {
+    notebook: Omit<DeepnoteNotebook, 'blocks'>;
+    projectId: string;
+    projectName: string;
+    isInitNotebook: boolean;
+}
+
+const converter = new DeepnoteDataConverter();
+
+/** Block types whose cell source is the block content as is. */
+const verbatimBlockTypes = new Set(['code', 'markdown']);
+
+/**
+ * Converts a notebook of a Deepnote project to the Jupyter notebook format.
+ *
+ * Code and markdown blocks keep their content, text blocks become markdown and SQL, input and
+ * chart blocks become the Python code Deepnote runs for them (see `createPythonCode`), so the
+ * exported notebook runs in any Jupyter kernel. The block itself is kept in the cell metadata,
+ * which lets `convertIpynbExportsToDeepnoteFile` restore the original blocks.
+ *
+ * @param project The project the notebook belongs to
+ * @param notebook The notebook to export
+ * @returns The notebook in nbformat 4
+ */
+export function convertDeepnoteNotebookToIpynb(
+    project: DeepnoteFile,
+    notebook: DeepnoteNotebook
+): nbformat.INotebookContent {
+    const { blocks, ...notebookWithoutBlocks } = notebook;
+    const sortedBlocks = [...(blocks ?? [])].sort((a, b) => compareSortingKeys(a.sortingKey, b.sortingKey));
+
+    const notebookMetadata: DeepnoteIpynbNotebookMetadata = {
+        notebook: notebookWithoutBlocks,
+        projectId: project.project.id,
+        projectName: project.project.name,
+        isInitNotebook: project.project.initNotebookId === notebook.id
+    };
+
+    return {
+        cells: sortedBlocks.map((block) => convertBlockToIpynbCell(block)),
+        metadata: {
+            kernelspec: {
+                display_name: 'Python 3',
+                language: 'python',
+                name: 'python3'
+            },
+            language_info: {
+                file_extension: '.py',
+                mimetype: 'text/x-python',
+                name: 'python'
+            },
+            [DEEPNOTE_IPYNB_METADATA_KEY]: notebookMetadata as unknown as nbformat.INotebookMetadata[string]
+        },
+        nbformat: defaultNotebookFormat.major,
+        nbformat_minor: defaultNotebookFormat.minor
+    };
+}
+
+/**
+ * Checks whether a Jupyter notebook was exported from a Deepnote project.
+ */
+export function isDeepnoteIpynbExport(content: nbformat.INotebookContent): boolean {
+    return getNotebookMetadata(content) !== undefined;
+}
+
+/**
+ * Builds a Deepnote project from Jupyter notebooks exported by `convertDeepnoteNotebookToIpynb`.
+ *
+ * Blocks get back their ID, type, metadata, block group and sorting key. The source of code and
+ * markdown cells is taken from the cell, so edits made in Jupyter are kept. Cells without Deepnote
+ * metadata (added in Jupyter) become code or markdown blocks at their position in the file.
+ * The project gets a new ID so it does not clash with the project it was exported from.
+ *
+ * @param contents The exported notebooks
+ * @param projectName Name used when the notebooks carry no project name
+ * @returns The restored project
+ */
+export function convertIpynbExportsToDeepnoteFile(
+    contents: nbformat.INotebookContent[],
+    projectName: string
+): DeepnoteFile {
+    const notebooks: DeepnoteNotebook[] = [];
+    let initNotebookId: string | undefined;
+
+    for (const content of contents) {
+        const notebookMetadata = getNotebookMetadata(content);
+        const notebook: DeepnoteNotebook = {
+            executionMode: 'block',
+            ...(notebookMetadata?.notebook ?? { id: generateUuid(), name: `Notebook ${notebooks.length + 1}` }),
+            blocks: convertIpynbCellsToBlocks(content.cells ?? [])
+        };
+
+        if (notebookMetadata?.isInitNotebook) {
+            initNotebookId = notebook.id;
+        }
+
+        notebooks.push(notebook);
+    }
+
+    const firstProjectName = contents.map((content) => getNotebookMetadata(content)?.projectName).find(Boolean);
+    const now = new Date().toISOString();
+
+    return {
+        version: '1.0.0',
+        metadata: {
+            createdAt: now,
+            modifiedAt: now
+        },
+        project: {
+            id: generateUuid(),
+            name: firstProjectName ?? projectName,
+            notebooks,
+            ...(initNotebookId && { initNotebookId })
+        }
+    };
+}
+
+function convertBlockToIpynbCell(block: DeepnoteBlock): nbformat.ICell {
+    const cellMetadata: DeepnoteIpynbCellMetadata = {
+        id: block.id,
+        type: block.type,
+        sortingKey: block.sortingKey,
+        hadOutputs: block.outputs !== undefined,
+        ...(block.blockGroup !== undefined && { blockGroup: block.blockGroup }),
+        ...(block.metadata !== undefined && { metadata: block.metadata }),
+        ...(block.executionCount !== undefined && { executionCount: block.executionCount }),
+        ...(block.version !== undefined && { version: block.version }),
+        ...(!verbatimBlockTypes.has(block.type) && { content: block.content ?? '' })
+    };
+    const metadata = { [DEEPNOTE_IPYNB_METADATA_KEY]: cellMetadata } as unknown as nbformat.ICellMetadata;
+
+    const blockConverter = converter.findConverter(block.type);
+
+    if (!blockConverter) {
+        // Unknown blocks have no runnable form, keep them inert
+        return { cell_type: 'raw', metadata, source: toMultilineSource(block.content ?? '') };
+    }
+
+    const cell = blockConverter.convertToCell(block);
+
+    if (cell.kind === NotebookCellKind.Markup) {
+        return { cell_type: 'markdown', metadata, source: toMultilineSource(cell.value) };
+    }
+
+    const source = block.type === 'code' ? block.content ?? '' : createPythonCode(block);
+
+    return {
+        cell_type: 'code',
+        execution_count: block.executionCount ?? null,
+        metadata,
+        outputs: (block.outputs ?? []) as nbformat.IOutput[],
+        source: toMultilineSource(source)
+    };
+}
+
+function convertIpynbCellsToBlocks(cells: nbformat.ICell[]): DeepnoteBlock[] {
+    const blocks: DeepnoteBlock[] = [];
+
+    for (const cell of cells) {
+        const cellMetadata = cell.metadata?.[DEEPNOTE_IPYNB_METADATA_KEY] as DeepnoteIpynbCellMetadata | undefined;
+        const source = fromMultilineSource(cell.source);
+        const outputs = cell.cell_type === 'code' ? (cell as nbformat.ICodeCell).outputs ?? [] : [];
+
+        if (!cellMetadata?.id || !cellMetadata.type) {
+            // Sorting keys of cells added in Jupyter are assigned below
+            blocks.push({
+                blockGroup: generateUuid(),
+                content: source,
+                id: generateBlockId(),
+                metadata: {},
+                sortingKey: '',
+                type: cell.cell_type === 'code' ? 'code' : 'markdown',
+                ...(outputs.length > 0 && { outputs: outputs as DeepnoteBlock['outputs'] })
+            });
+
+            continue;
+        }
+
+        const block: DeepnoteBlock = {
+            id: cellMetadata.id,
+            type: cellMetadata.type,
+            sortingKey: cellMetadata.sortingKey,
+            content: verbatimBlockTypes.has(cellMetadata.type) ? source : cellMetadata.content ?? '',
+            metadata: cellMetadata.metadata ?? {}
+        };
+
+        if (cellMetadata.blockGroup !== undefined) {
+            block.blockGroup = cellMetadata.blockGroup;
+        }
+        if (cellMetadata.executionCount !== undefined) {
+            block.executionCount = cellMetadata.executionCount;
+        }
+        if (cellMetadata.version !== undefined) {
+            block.version = cellMetadata.version;
+        }
+        if (cellMetadata.hadOutputs || outputs.length > 0) {
+            block.outputs = outputs as DeepnoteBlock['outputs'];
+        }
+
+        blocks.push(block);
+    }
+
+    // Keep the original sorting keys unless cells were added or reordered in Jupyter,
+    // in which case the cell order of the .ipynb file wins.
+    const keysInOrder = blocks.every(
+        (block, index) =>
+            block.sortingKey && (index === 0 || compareSortingKeys(blocks[index - 1].sortingKey, block.sortingKey) < 0)
+    );
+
+    if (!keysInOrder) {
+        blocks.forEach((block, index) => (block.sortingKey = generateSortingKey(index)));
+    }
+
+    return blocks;
+}
+
+function getNotebookMetadata(content: nbformat.INotebookContent): DeepnoteIpynbNotebookMetadata | undefined {
+    const metadata = content.metadata?.[DEEPNOTE_IPYNB_METADATA_KEY] as DeepnoteIpynbNotebookMetadata | undefined;
+
+    return metadata?.notebook?.id ? metadata : undefined;
+}
+
+function toMultilineSource(text: string): string[] {
+    return text.split(/(?<=\n)/).filter((line) => line.length > 0);
+}
+
+function fromMultilineSource(source: nbformat.MultilineString): string {
+    return Array.isArray(source) ? source.join('') : source;
+}
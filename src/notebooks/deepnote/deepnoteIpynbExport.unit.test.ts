@@ -0,0 +1,157 @@
+import type * as nbformat from '@jupyterlab/nbformat';
+import { assert } from 'chai';
+import { createPythonCode } from '@deepnote/blocks';
+
+import type { DeepnoteBlock, DeepnoteFile, DeepnoteNotebook } from '../../platform/deepnote/deepnoteTypes';
+import {
+    DEEPNOTE_IPYNB_METADATA_KEY,
+    convertDeepnoteNotebookToIpynb,
+    convertIpynbExportsToDeepnoteFile,
+    isDeepnoteIpynbExport
+} from './deepnoteIpynbExport';
+
+suite('deepnoteIpynbExport', () => {
+    function createBlock(id: string, sortingKey: string, overrides: Partial<DeepnoteBlock> = {}): DeepnoteBlock {
+        return {
+            id,
+            sortingKey,
+            blockGroup: `group-${id}`,
+            type: 'code',
+            content: `print("${id}")`,
+            metadata: {},
+            ...overrides
+        };
+    }
+
+    function createNotebook(blocks: DeepnoteBlock[], overrides: Partial<DeepnoteNotebook> = {}): DeepnoteNotebook {
+        return { id: 'notebook-1', name: 'Notebook', blocks, executionMode: 'block', isModule: false, ...overrides };
+    }
+
+    function createFile(...notebooks: DeepnoteNotebook[]): DeepnoteFile {
+        return {
+            version: '1.0',
+            metadata: { createdAt: '2024-01-01T00:00:00.000Z' },
+            project: { id: 'project-1', name: 'Project', notebooks }
+        };
+    }
+
+    const sqlBlock = createBlock('sql', 'a1', {
+        type: 'sql',
+        content: 'SELECT * FROM users',
+        metadata: { deepnote_variable_name: 'df_users', sql_integration_id: 'integration-1' }
+    });
+    const inputBlock = createBlock('input', 'a2', {
+        type: 'input-text',
+        content: '',
+        metadata: { deepnote_variable_name: 'name', deepnote_variable_value: 'Ada' }
+    });
+
+    test('should turn code and markdown blocks into cells with the block content', () => {
+        const notebook = createNotebook([
+            createBlock('md', 'a0', { type: 'markdown', content: '# Title\nText' }),
+            createBlock('code', 'a1', { content: 'x = 1\nprint(x)', executionCount: 3 })
+        ]);
+
+        const content = convertDeepnoteNotebookToIpynb(createFile(notebook), notebook);
+
+        assert.strictEqual(content.nbformat, 4);
+        assert.strictEqual(content.cells.length, 2);
+        assert.strictEqual(content.cells[0].cell_type, 'markdown');
+        assert.deepStrictEqual(content.cells[0].source, ['# Title\n', 'Text']);
+        assert.strictEqual(content.cells[1].cell_type, 'code');
+        assert.deepStrictEqual(content.cells[1].source, ['x = 1\n', 'print(x)']);
+        assert.strictEqual((content.cells[1] as nbformat.ICodeCell).execution_count, 3);
+    });
+
+    test('should turn SQL and input blocks into the Python code Deepnote runs', () => {
+        const notebook = createNotebook([sqlBlock, inputBlock]);
+
+        const content = convertDeepnoteNotebookToIpynb(createFile(notebook), notebook);
+
+        assert.strictEqual(content.cells[0].cell_type, 'code');
+        assert.strictEqual((content.cells[0].source as string[]).join(''), createPythonCode(sqlBlock));
+        assert.strictEqual(content.cells[1].cell_type, 'code');
+        assert.strictEqual((content.cells[1].source as string[]).join(''), createPythonCode(inputBlock));
+    });
+
+    test('should keep the block in the cell metadata', () => {
+        const notebook = createNotebook([sqlBlock]);
+
+        const content = convertDeepnoteNotebookToIpynb(createFile(notebook), notebook);
+        const cellMetadata = content.cells[0].metadata[DEEPNOTE_IPYNB_METADATA_KEY] as Record<string, unknown>;
+
+        assert.strictEqual(cellMetadata.id, 'sql');
+        assert.strictEqual(cellMetadata.type, 'sql');
+        assert.strictEqual(cellMetadata.blockGroup, 'group-sql');
+        assert.strictEqual(cellMetadata.sortingKey, 'a1');
+        assert.strictEqual(cellMetadata.content, 'SELECT * FROM users');
+        assert.deepStrictEqual(cellMetadata.metadata, sqlBlock.metadata);
+    });
+
+    test('should order cells by sorting key', () => {
+        const notebook = createNotebook([createBlock('b', 'a10'), createBlock('a', 'a2')]);
+
+        const content = convertDeepnoteNotebookToIpynb(createFile(notebook), notebook);
+
+        assert.deepStrictEqual(
+            content.cells.map((cell) => (cell.metadata[DEEPNOTE_IPYNB_METADATA_KEY] as { id: string }).id),
+            ['a', 'b']
+        );
+    });
+
+    test('should recognize exported notebooks', () => {
+        const notebook = createNotebook([createBlock('a', 'a0')]);
+
+        assert.isTrue(isDeepnoteIpynbExport(convertDeepnoteNotebookToIpynb(createFile(notebook), notebook)));
+        assert.isFalse(isDeepnoteIpynbExport({ cells: [], metadata: {}, nbformat: 4, nbformat_minor: 2 }));
+    });
+
+    test('should give back the original blocks when re-imported', () => {
+        const blocks = [
+            createBlock('md', 'a0', { type: 'markdown', content: '# Title' }),
+            sqlBlock,
+            inputBlock,
+            createBlock('heading', 'a3', { type: 'text-cell-h1', content: 'Heading' }),
+            createBlock('code', 'a4', {
+                executionCount: 2,
+                outputs: [{ output_type: 'stream', name: 'stdout', text: 'code\n' }]
+            })
+        ];
+        const initNotebook = createNotebook([createBlock('init', 'a0')], { id: 'init', name: 'Init' });
+        const notebook = createNotebook(blocks);
+        const file = createFile(initNotebook, notebook);
+        file.project.initNotebookId = 'init';
+
+        const restored = convertIpynbExportsToDeepnoteFile(
+            [convertDeepnoteNotebookToIpynb(file, initNotebook), convertDeepnoteNotebookToIpynb(file, notebook)],
+            'fallback'
+        );
+
+        assert.strictEqual(restored.project.name, 'Project');
+        assert.notStrictEqual(restored.project.id, 'project-1');
+        assert.strictEqual(restored.project.initNotebookId, 'init');
+        assert.deepStrictEqual(restored.project.notebooks, [initNotebook, notebook]);
+    });
+
+    test('should keep edits to code cells and add cells created in Jupyter', () => {
+        const notebook = createNotebook([createBlock('a', 'a0'), createBlock('b', 'a1')]);
+        const content = convertDeepnoteNotebookToIpynb(createFile(notebook), notebook);
+
+        content.cells[0].source = 'print("edited")';
+        content.cells.splice(1, 0, { cell_type: 'markdown', metadata: {}, source: 'New cell' });
+
+        const restored = convertIpynbExportsToDeepnoteFile([content], 'fallback');
+        const restoredBlocks = restored.project.notebooks[0].blocks;
+
+        assert.deepStrictEqual(
+            restoredBlocks.map((block) => [block.type, block.content, block.sortingKey]),
+            [
+                ['code', 'print("edited")', 'a0'],
+                ['markdown', 'New cell', 'a1'],
+                ['code', 'print("b")', 'a2']
+            ]
+        );
+        assert.strictEqual(restoredBlocks[0].id, 'a');
+        assert.strictEqual(restoredBlocks[2].id, 'b');
+    });
+});
@@ -7,6 +7,7 @@ import {
     NotebookEdit,
     NotebookRange,
     NotebookCell,
+    NotebookEditor,
     NotebookEditorRevealType,
     l10n
 } from 'vscode';
@@ -134,6 +135,50 @@ export function getNextDeepnoteVariableName(cells: NotebookCell[], prefix: 'df'
     return `${prefix}_${maxDeepnoteVariableNamesSuffixNumber + 1}`;
 }
 
+/**
+ * Inserts a SQL block querying the given integration below the current selection, or at the end of the notebook,
+ * and starts editing it.
+ */
+export async function insertSqlBlock(editor: NotebookEditor, integrationId: string, query: string): Promise<void> {
+    const document = editor.notebook;
+    const selection = editor.selection;
+    const cells = editor.notebook.getCells();
+    const deepnoteVariableName = getNextDeepnoteVariableName(cells, 'df');
+
+    const defaultMetadata: DeepnoteSqlMetadata = {
+        deepnote_variable_name: deepnoteVariableName,
+        deepnote_return_variable_type: 'dataframe',
+        sql_integration_id: integrationId
+    };
+
+    // Determine the index where to insert the new cell (below current selection or at the end)
+    const insertIndex = selection ? selection.end : document.cellCount;
+
+    const result = await chainWithPendingUpdates(document, (edit) => {
+        // Create a SQL cell with SQL language for syntax highlighting
+        // This matches the SqlBlockConverter representation
+        const newCell = new NotebookCellData(NotebookCellKind.Code, query, 'sql');
+        newCell.metadata = {
+            __deepnotePocket: {
+                type: 'sql',
+                ...defaultMetadata
+            },
+            ...defaultMetadata
+        };
+        const nbEdit = NotebookEdit.insertCells(insertIndex, [newCell]);
+        edit.set(document.uri, [nbEdit]);
+    });
+    if (result !== true) {
+        throw new Error(l10n.t('Failed to insert SQL block'));
+    }
+
+    const notebookRange = new NotebookRange(insertIndex, insertIndex + 1);
+    editor.revealRange(notebookRange, NotebookEditorRevealType.Default);
+    editor.selection = notebookRange;
+    // Enter edit mode on the new cell
+    await commands.executeCommand('notebook.cell.edit');
+}
+
 /**
  * Service responsible for registering and handling Deepnote-specific notebook commands.
  */
@@ -188,43 +233,8 @@ export class DeepnoteNotebookCommandListener implements IExtensionSyncActivation
         if (!editor) {
             throw new Error(l10n.t('No active notebook editor found'));
         }
-        const document = editor.notebook;
-        const selection = editor.selection;
-        const cells = editor.notebook.getCells();
-        const deepnoteVariableName = getNextDeepnoteVariableName(cells, 'df');
 
-        const defaultMetadata: DeepnoteSqlMetadata = {
-            deepnote_variable_name: deepnoteVariableName,
-            deepnote_return_variable_type: 'dataframe',
-            sql_integration_id: DATAFRAME_SQL_INTEGRATION_ID
-        };
-
-        // Determine the index where to insert the new cell (below current selection or at the end)
-        const insertIndex = selection ? selection.end : document.cellCount;
-
-        const result = await chainWithPendingUpdates(document, (edit) => {
-            // Create a SQL cell with SQL language for syntax highlighting
-            // This matches the SqlBlockConverter representation
-            const newCell = new NotebookCellData(NotebookCellKind.Code, '', 'sql');
-            newCell.metadata = {
-                __deepnotePocket: {
-                    type: 'sql',
-                    ...defaultMetadata
-                },
-                ...defaultMetadata
-            };
-            const nbEdit = NotebookEdit.insertCells(insertIndex, [newCell]);
-            edit.set(document.uri, [nbEdit]);
-        });
-        if (result !== true) {
-            throw new Error(l10n.t('Failed to insert SQL block'));
-        }
-
-        const notebookRange = new NotebookRange(insertIndex, insertIndex + 1);
-        editor.revealRange(notebookRange, NotebookEditorRevealType.Default);
-        editor.selection = notebookRange;
-        // Enter edit mode on the new cell
-        await commands.executeCommand('notebook.cell.edit');
+        await insertSqlBlock(editor, DATAFRAME_SQL_INTEGRATION_ID, '');
     }
 
     public async addBigNumberChartBlock(): Promise<void> {
@@ -1,7 +1,8 @@
 import { injectable } from 'inversify';
 
+import { IDisposable } from '../../platform/common/types';
 import { IDeepnoteNotebookManager, ProjectIntegration } from '../types';
-import type { DeepnoteProject } from '../../platform/deepnote/deepnoteTypes';
+import type { DeepnoteBlock, DeepnoteProject } from '../../platform/deepnote/deepnoteTypes';
 
 /**
  * Centralized manager for tracking Deepnote notebook selections and project state.
@@ -12,6 +13,7 @@ export class DeepnoteNotebookManager implements IDeepnoteNotebookManager {
     private readonly currentNotebookId = new Map<string, string>();
     private readonly originalProjects = new Map<string, DeepnoteProject>();
     private readonly selectedNotebookByProject = new Map<string, string>();
+    private readonly openingNotebookUris: string[] = [];
     private readonly projectsWithInitNotebookRun = new Set<string>();
 
     /**
@@ -53,6 +55,39 @@ export class DeepnoteNotebookManager implements IDeepnoteNotebookManager {
         this.selectedNotebookByProject.set(projectId, notebookId);
     }
 
+    /**
+     * Records that the notebook document of a URI is being opened, until the returned disposable
+     * is disposed. The serializer is not told which document it deserializes, so it reads the
+     * notebook ID from the `?notebook=` query of these URIs.
+     * @param uri URI of the notebook document, as a string
+     * @returns Disposable that ends the record, to dispose once the document has been opened
+     */
+    beginOpeningNotebook(uri: string): IDisposable {
+        this.openingNotebookUris.push(uri);
+
+        return {
+            dispose: () => {
+                const index = this.openingNotebookUris.indexOf(uri);
+
+                if (index !== -1) {
+                    this.openingNotebookUris.splice(index, 1);
+                }
+            }
+        };
+    }
+
+    /**
+     * Takes the oldest URI being opened that the given predicate accepts, so each open
+     * deserializes its own notebook.
+     * @param predicate Decides whether a URI belongs to the file being deserialized
+     * @returns The URI, or undefined if no such document is being opened
+     */
+    takeOpeningNotebookUri(predicate: (uri: string) => boolean): string | undefined {
+        const index = this.openingNotebookUris.findIndex(predicate);
+
+        return index === -1 ? undefined : this.openingNotebookUris.splice(index, 1)[0];
+    }
+
     /**
      * Stores the original project data and sets the initial current notebook.
      * This is used during deserialization to cache project data and track the active notebook.
@@ -75,6 +110,38 @@ export class DeepnoteNotebookManager implements IDeepnoteNotebookManager {
         this.currentNotebookId.set(projectId, notebookId);
     }
 
+    /**
+     * Merges the blocks of a single notebook into the stored project data.
+     * Only the given notebook is replaced, so blocks of other notebooks from the same
+     * project (which may be open and saved independently) are kept as they are.
+     * The current notebook ID of the project is not changed.
+     *
+     * @param projectId - Project identifier
+     * @param notebookId - ID of the notebook whose blocks are being saved
+     * @param blocks - The notebook's blocks
+     * @returns The updated project, or `undefined` if the project or notebook does not exist
+     */
+    updateNotebookBlocks(projectId: string, notebookId: string, blocks: DeepnoteBlock[]): DeepnoteProject | undefined {
+        const project = this.originalProjects.get(projectId);
+
+        if (!project) {
+            return undefined;
+        }
+
+        const notebookIndex = project.project.notebooks.findIndex((nb) => nb.id === notebookId);
+
+        if (notebookIndex === -1) {
+            return undefined;
+        }
+
+        const updatedProject = JSON.parse(JSON.stringify(project)) as DeepnoteProject;
+        updatedProject.project.notebooks[notebookIndex].blocks = blocks;
+
+        this.originalProjects.set(projectId, updatedProject);
+
+        return updatedProject;
+    }
+
     /**
      * Updates the integrations list in the project data.
      * This modifies the stored project to reflect changes in configured integrations.
@@ -122,6 +122,109 @@ suite('DeepnoteNotebookManager', () => {
         });
     });
 
+    suite('takeOpeningNotebookUri', () => {
+        test('should return undefined when nothing is being opened', () => {
+            const result = manager.takeOpeningNotebookUri(() => true);
+
+            assert.strictEqual(result, undefined);
+        });
+
+        test('should take the first URI the predicate accepts only once', () => {
+            manager.beginOpeningNotebook('file:///a.deepnote?notebook=1');
+            manager.beginOpeningNotebook('file:///b.deepnote?notebook=2');
+
+            const isFileB = (uri: string) => uri.startsWith('file:///b.deepnote');
+
+            assert.strictEqual(manager.takeOpeningNotebookUri(isFileB), 'file:///b.deepnote?notebook=2');
+            assert.strictEqual(manager.takeOpeningNotebookUri(isFileB), undefined);
+            assert.strictEqual(
+                manager.takeOpeningNotebookUri(() => true),
+                'file:///a.deepnote?notebook=1'
+            );
+        });
+
+        test('should forget URIs whose opening has ended', () => {
+            const opening = manager.beginOpeningNotebook('file:///a.deepnote?notebook=1');
+
+            opening.dispose();
+
+            assert.strictEqual(
+                manager.takeOpeningNotebookUri(() => true),
+                undefined
+            );
+        });
+    });
+
+    suite('updateNotebookBlocks', () => {
+        const projectWithNotebooks: DeepnoteProject = {
+            ...mockProject,
+            project: {
+                ...mockProject.project,
+                notebooks: [
+                    {
+                        id: 'notebook-1',
+                        name: 'First',
+                        blocks: [{ id: 'block-1', content: 'a = 1', sortingKey: 'a0', type: 'code' }],
+                        executionMode: 'block',
+                        isModule: false
+                    },
+                    {
+                        id: 'notebook-2',
+                        name: 'Second',
+                        blocks: [{ id: 'block-2', content: 'b = 1', sortingKey: 'a0', type: 'code' }],
+                        executionMode: 'block',
+                        isModule: false
+                    }
+                ]
+            }
+        };
+
+        test('should return undefined for unknown project', () => {
+            const result = manager.updateNotebookBlocks('unknown-project', 'notebook-1', []);
+
+            assert.strictEqual(result, undefined);
+        });
+
+        test('should return undefined for unknown notebook', () => {
+            manager.storeOriginalProject('project-123', projectWithNotebooks, 'notebook-1');
+
+            const result = manager.updateNotebookBlocks('project-123', 'unknown-notebook', []);
+
+            assert.strictEqual(result, undefined);
+        });
+
+        test('should only replace blocks of the given notebook', () => {
+            manager.storeOriginalProject('project-123', projectWithNotebooks, 'notebook-1');
+
+            manager.updateNotebookBlocks('project-123', 'notebook-1', [
+                { id: 'block-1', content: 'a = 2', sortingKey: 'a0', type: 'code' }
+            ]);
+            const result = manager.updateNotebookBlocks('project-123', 'notebook-2', [
+                { id: 'block-2', content: 'b = 2', sortingKey: 'a0', type: 'code' }
+            ]);
+
+            assert.strictEqual(result?.project.notebooks[0].blocks[0].content, 'a = 2');
+            assert.strictEqual(result?.project.notebooks[1].blocks[0].content, 'b = 2');
+            assert.deepStrictEqual(manager.getOriginalProject('project-123'), result);
+        });
+
+        test('should not modify the previously stored project object', () => {
+            manager.storeOriginalProject('project-123', projectWithNotebooks, 'notebook-1');
+
+            manager.updateNotebookBlocks('project-123', 'notebook-2', []);
+
+            assert.strictEqual(projectWithNotebooks.project.notebooks[1].blocks.length, 1);
+        });
+
+        test('should not change the current notebook ID', () => {
+            manager.storeOriginalProject('project-123', projectWithNotebooks, 'notebook-1');
+
+            manager.updateNotebookBlocks('project-123', 'notebook-2', []);
+
+            assert.strictEqual(manager.getCurrentNotebookId('project-123'), 'notebook-1');
+        });
+    });
+
     suite('storeOriginalProject', () => {
         test('should store both project and current notebook ID', () => {
             manager.storeOriginalProject('project-123', mockProject, 'notebook-456');
@@ -0,0 +1,345 @@
+import { l10n } from 'vscode';
+
+import type { Pocket } from '../../platform/deepnote/pocket';
+import { formatInputBlockCellContent } from './inputBlockContentFormatter';
+
+/**
+ * Input block types whose value can be set by a parameter set.
+ * Buttons define a variable too, but they have no value to collect.
+ */
+export const PARAMETER_INPUT_BLOCK_TYPES = [
+    'input-text',
+    'input-textarea',
+    'input-select',
+    'input-slider',
+    'input-checkbox',
+    'input-date',
+    'input-date-range',
+    'input-file'
+] as const;
+
+export type ParameterInputBlockType = (typeof PARAMETER_INPUT_BLOCK_TYPES)[number];
+
+/**
+ * Longest text kept per block when storing the outputs of a run.
+ */
+const MAX_STORED_OUTPUT_LENGTH = 2000;
+
+/**
+ * An input block of a notebook, acting as a parameter of the notebook.
+ */
+export interface DeepnoteParameterInput {
+    blockId: string;
+    blockType: string;
+    cellIndex: number;
+    name: string;
+    label: string;
+    value: unknown;
+    metadata: Record<string, unknown>;
+}
+
+/**
+ * The outputs of the last run of a parameter set, as text per block ID.
+ */
+export interface DeepnoteParameterSetRun {
+    ranAt: string;
+    succeeded: boolean;
+    outputs: Record<string, string>;
+}
+
+/**
+ * Named values for the input blocks of a notebook, keyed by variable name.
+ */
+export interface DeepnoteParameterSet {
+    name: string;
+    createdAt: string;
+    values: Record<string, unknown>;
+    lastRun?: DeepnoteParameterSetRun;
+}
+
+/**
+ * The parts of a notebook cell output used to store the results of a run.
+ */
+interface CellOutputLike {
+    items: ReadonlyArray<{ mime: string; data: Uint8Array }>;
+}
+
+/**
+ * Lists the input blocks of a notebook that have a variable name, in cell order.
+ */
+export function getParameterInputs(
+    cells: ReadonlyArray<{ metadata?: Record<string, unknown> }>
+): DeepnoteParameterInput[] {
+    const inputs: DeepnoteParameterInput[] = [];
+
+    cells.forEach((cell, cellIndex) => {
+        const metadata = cell.metadata ?? {};
+        const blockType = (metadata.__deepnotePocket as Pocket | undefined)?.type;
+        const name = metadata.deepnote_variable_name;
+
+        if (!isParameterInputBlockType(blockType) || typeof name !== 'string' || name.length === 0) {
+            return;
+        }
+
+        inputs.push({
+            blockId: typeof metadata.id === 'string' ? metadata.id : '',
+            blockType,
+            cellIndex,
+            name,
+            label: typeof metadata.deepnote_input_label === 'string' ? metadata.deepnote_input_label : '',
+            value: metadata.deepnote_variable_value,
+            metadata
+        });
+    });
+
+    return inputs;
+}
+
+export function isParameterInputBlockType(blockType: string | undefined): blockType is ParameterInputBlockType {
+    return (PARAMETER_INPUT_BLOCK_TYPES as readonly string[]).includes(blockType ?? '');
+}
+
+/**
+ * Formats the value of an input for editing in an input box.
+ * Lists are comma separated, date ranges are written as `start, end`.
+ */
+export function formatParameterValue(blockType: string, value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((item) => (blockType === 'input-date-range' ? toDateString(item) : String(item))).join(', ');
+    }
+
+    if (blockType === 'input-date') {
+        return toDateString(value);
+    }
+
+    return String(value);
+}
+
+/**
+ * Validates a value typed for an input.
+ * @returns An error message, or `undefined` if the value is valid
+ */
+export function validateParameterValue(input: DeepnoteParameterInput, text: string): string | undefined {
+    const trimmed = text.trim();
+
+    switch (input.blockType) {
+        case 'input-slider':
+            return trimmed.length > 0 && Number.isFinite(Number(trimmed)) ? undefined : l10n.t('Enter a number');
+
+        case 'input-checkbox':
+            return ['true', 'false'].includes(trimmed.toLowerCase()) ? undefined : l10n.t('Enter True or False');
+
+        case 'input-date':
+            return isValidDate(trimmed) ? undefined : l10n.t('Enter a date (YYYY-MM-DD)');
+
+        case 'input-date-range': {
+            const dates = trimmed.split(',').map((date) => date.trim());
+
+            return dates.length === 2 && dates.every(isValidDate)
+                ? undefined
+                : l10n.t('Enter two dates separated by a comma (YYYY-MM-DD, YYYY-MM-DD)');
+        }
+
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Converts a value typed for an input to the value stored in the block metadata,
+ * matching the input metadata schemas (e.g. sliders store their value as a string).
+ */
+export function parseParameterValue(input: DeepnoteParameterInput, text: string): unknown {
+    const trimmed = text.trim();
+
+    switch (input.blockType) {
+        case 'input-slider':
+            return String(Number(trimmed));
+
+        case 'input-checkbox':
+            return trimmed.toLowerCase() === 'true';
+
+        case 'input-date':
+            return trimmed;
+
+        case 'input-date-range':
+            return trimmed.split(',').map((date) => date.trim());
+
+        case 'input-select':
+            if (input.metadata.deepnote_allow_multiple_values === true || Array.isArray(input.value)) {
+                return trimmed
+                    .split(',')
+                    .map((option) => option.trim())
+                    .filter((option) => option.length > 0);
+            }
+
+            return trimmed;
+
+        default:
+            return text;
+    }
+}
+
+/**
+ * Returns the cell metadata and content of an input after setting its value.
+ */
+export function applyParameterValue(
+    input: DeepnoteParameterInput,
+    value: unknown
+): { metadata: Record<string, unknown>; content: string } {
+    const metadata = { ...input.metadata, deepnote_variable_value: value };
+
+    return { metadata, content: formatInputBlockCellContent(input.blockType, metadata) };
+}
+
+/**
+ * Converts the outputs of a cell to the text stored for a run: plain text, streams and errors,
+ * with a placeholder for rich outputs such as images.
+ */
+export function summarizeCellOutputs(outputs: ReadonlyArray<CellOutputLike>): string {
+    const decoder = new TextDecoder('utf-8');
+    const parts: string[] = [];
+
+    for (const output of outputs) {
+        const item =
+            output.items.find((candidate) => candidate.mime === 'application/vnd.code.notebook.error') ??
+            output.items.find((candidate) => candidate.mime.startsWith('application/vnd.code.notebook.std')) ??
+            output.items.find((candidate) => candidate.mime === 'text/plain') ??
+            output.items[0];
+
+        if (!item) {
+            continue;
+        }
+
+        if (item.mime === 'application/vnd.code.notebook.error') {
+            try {
+                const error = JSON.parse(decoder.decode(item.data)) as { name?: string; message?: string };
+                parts.push(`${error.name ?? 'Error'}: ${error.message ?? ''}`);
+            } catch {
+                parts.push('Error');
+            }
+        } else if (item.mime === 'text/plain' || item.mime.startsWith('application/vnd.code.notebook.std')) {
+            parts.push(decoder.decode(item.data).replace(/\n$/, ''));
+        } else {
+            parts.push(`[${item.mime}]`);
+        }
+    }
+
+    const text = parts.join('\n');
+
+    return text.length > MAX_STORED_OUTPUT_LENGTH ? `${text.slice(0, MAX_STORED_OUTPUT_LENGTH)}…` : text;
+}
+
+/**
+ * Renders the values and outputs of two parameter sets side by side as Markdown.
+ * @param blockLabels Labels of the blocks of the notebook, keyed by block ID, in notebook order
+ */
+export function formatParameterSetComparison(
+    base: DeepnoteParameterSet,
+    target: DeepnoteParameterSet,
+    blockLabels: Map<string, string>
+): string {
+    const lines = [`# ${base.name} ↔ ${target.name}`, '', `## ${l10n.t('Parameters')}`, ''];
+    const names = [...new Set([...Object.keys(base.values), ...Object.keys(target.values)])];
+
+    lines.push(
+        `| ${l10n.t('Variable')} | ${escapeCell(base.name)} | ${escapeCell(target.name)} |`,
+        '| --- | --- | --- |'
+    );
+
+    for (const name of names) {
+        const marker = JSON.stringify(base.values[name]) === JSON.stringify(target.values[name]) ? '' : ' ⚠️';
+
+        lines.push(
+            `| \`${name}\`${marker} | ${formatComparedValue(base.values[name])} | ${formatComparedValue(
+                target.values[name]
+            )} |`
+        );
+    }
+
+    lines.push('', `## ${l10n.t('Outputs')}`, '');
+
+    if (!base.lastRun || !target.lastRun) {
+        lines.push(l10n.t('Run both parameter sets to compare their outputs.'));
+        return lines.join('\n');
+    }
+
+    const blockIds = [
+        ...new Set([
+            ...blockLabels.keys(),
+            ...Object.keys(base.lastRun.outputs),
+            ...Object.keys(target.lastRun.outputs)
+        ])
+    ];
+    let differences = 0;
+
+    for (const blockId of blockIds) {
+        const baseOutput = base.lastRun.outputs[blockId] ?? '';
+        const targetOutput = target.lastRun.outputs[blockId] ?? '';
+
+        if (baseOutput === targetOutput) {
+            continue;
+        }
+
+        differences++;
+        lines.push(
+            `### ${blockLabels.get(blockId) ?? blockId}`,
+            '',
+            `**${base.name}**`,
+            '',
+            fence(baseOutput),
+            '',
+            `**${target.name}**`,
+            '',
+            fence(targetOutput),
+            ''
+        );
+    }
+
+    if (differences === 0) {
+        lines.push(l10n.t('All outputs are identical.'));
+    }
+
+    return lines.join('\n');
+}
+
+function formatComparedValue(value: unknown): string {
+    return value === undefined ? '—' : escapeCell(`\`${JSON.stringify(value)}\``);
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function fence(text: string): string {
+    const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+    const marker = '`'.repeat(longestRun + 1);
+
+    return `${marker}\n${text || l10n.t('(no output)')}\n${marker}`;
+}
+
+function isValidDate(text: string): boolean {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+
+    if (!match) {
+        return false;
+    }
+
+    const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+
+    return date.toISOString().startsWith(text);
+}
+
+function toDateString(value: unknown): string {
+    if (value instanceof Date) {
+        return value.toISOString().split('T')[0];
+    }
+
+    const text = String(value);
+
+    return /^\d{4}-\d{2}-\d{2}T/.test(text) ? text.split('T')[0] : text;
+}
@@ -0,0 +1,180 @@
+import { assert } from 'chai';
+
+import {
+    applyParameterValue,
+    DeepnoteParameterInput,
+    DeepnoteParameterSet,
+    formatParameterSetComparison,
+    formatParameterValue,
+    getParameterInputs,
+    parseParameterValue,
+    summarizeCellOutputs,
+    validateParameterValue
+} from './deepnoteParameterSets';
+
+suite('deepnoteParameterSets', () => {
+    const encoder = new TextEncoder();
+
+    function createInputCell(type: string, metadata: Record<string, unknown>) {
+        return { metadata: { id: `block-${type}`, __deepnotePocket: { type }, ...metadata } };
+    }
+
+    function createInput(blockType: string, value: unknown, metadata: Record<string, unknown> = {}) {
+        return getParameterInputs([
+            createInputCell(blockType, { deepnote_variable_name: 'param', deepnote_variable_value: value, ...metadata })
+        ])[0];
+    }
+
+    suite('getParameterInputs', () => {
+        test('should list named input blocks with their cell index', () => {
+            const inputs = getParameterInputs([
+                { metadata: { id: 'code', __deepnotePocket: { type: 'code' } } },
+                createInputCell('input-text', {
+                    deepnote_variable_name: 'country',
+                    deepnote_variable_value: 'US',
+                    deepnote_input_label: 'Country'
+                }),
+                createInputCell('input-slider', { deepnote_variable_name: '', deepnote_variable_value: '5' }),
+                createInputCell('button', { deepnote_variable_name: 'clicked' }),
+                createInputCell('input-checkbox', { deepnote_variable_name: 'verbose', deepnote_variable_value: true })
+            ]);
+
+            assert.deepStrictEqual(
+                inputs.map(({ blockId, blockType, cellIndex, name, label, value }) => ({
+                    blockId,
+                    blockType,
+                    cellIndex,
+                    name,
+                    label,
+                    value
+                })),
+                [
+                    {
+                        blockId: 'block-input-text',
+                        blockType: 'input-text',
+                        cellIndex: 1,
+                        name: 'country',
+                        label: 'Country',
+                        value: 'US'
+                    },
+                    {
+                        blockId: 'block-input-checkbox',
+                        blockType: 'input-checkbox',
+                        cellIndex: 4,
+                        name: 'verbose',
+                        label: '',
+                        value: true
+                    }
+                ]
+            );
+        });
+    });
+
+    suite('parsing values', () => {
+        test('should format stored values for editing', () => {
+            assert.strictEqual(formatParameterValue('input-select', ['a', 'b']), 'a, b');
+            assert.strictEqual(formatParameterValue('input-date', '2024-03-01T00:00:00.000Z'), '2024-03-01');
+            assert.strictEqual(
+                formatParameterValue('input-date-range', ['2024-03-01', '2024-03-31']),
+                '2024-03-01, 2024-03-31'
+            );
+            assert.strictEqual(formatParameterValue('input-text', undefined), '');
+        });
+
+        test('should validate values by input type', () => {
+            assert.isUndefined(validateParameterValue(createInput('input-slider', '5'), '7.5'));
+            assert.isDefined(validateParameterValue(createInput('input-slider', '5'), 'many'));
+            assert.isUndefined(validateParameterValue(createInput('input-checkbox', false), 'True'));
+            assert.isDefined(validateParameterValue(createInput('input-checkbox', false), 'yes'));
+            assert.isDefined(validateParameterValue(createInput('input-date', ''), '2024-02-30'));
+            assert.isUndefined(validateParameterValue(createInput('input-date-range', ''), '2024-01-01, 2024-01-31'));
+            assert.isDefined(validateParameterValue(createInput('input-date-range', ''), '2024-01-01'));
+        });
+
+        test('should convert values to the types of the input metadata schemas', () => {
+            assert.strictEqual(parseParameterValue(createInput('input-slider', '5'), ' 8 '), '8');
+            assert.strictEqual(parseParameterValue(createInput('input-checkbox', false), 'True'), true);
+            assert.deepStrictEqual(parseParameterValue(createInput('input-date-range', ''), '2024-01-01, 2024-01-31'), [
+                '2024-01-01',
+                '2024-01-31'
+            ]);
+            assert.deepStrictEqual(
+                parseParameterValue(createInput('input-select', [], { deepnote_allow_multiple_values: true }), 'a, b,'),
+                ['a', 'b']
+            );
+            assert.strictEqual(parseParameterValue(createInput('input-select', 'a'), 'b'), 'b');
+            assert.strictEqual(parseParameterValue(createInput('input-text', ''), ' padded '), ' padded ');
+        });
+    });
+
+    test('applyParameterValue should update the metadata and the cell content', () => {
+        const input: DeepnoteParameterInput = createInput('input-select', 'a', { deepnote_label: 'kept' });
+
+        const { metadata, content } = applyParameterValue(input, 'b');
+
+        assert.strictEqual(metadata.deepnote_variable_value, 'b');
+        assert.strictEqual(metadata.deepnote_label, 'kept');
+        assert.strictEqual(content, '"b"');
+    });
+
+    test('summarizeCellOutputs should keep text, streams and errors', () => {
+        const summary = summarizeCellOutputs([
+            { items: [{ mime: 'application/vnd.code.notebook.stdout', data: encoder.encode('hello\n') }] },
+            {
+                items: [
+                    { mime: 'text/html', data: encoder.encode('<b>42</b>') },
+                    { mime: 'text/plain', data: encoder.encode('42') }
+                ]
+            },
+            { items: [{ mime: 'image/png', data: new Uint8Array([1, 2, 3]) }] },
+            {
+                items: [
+                    {
+                        mime: 'application/vnd.code.notebook.error',
+                        data: encoder.encode(JSON.stringify({ name: 'ValueError', message: 'bad value' }))
+                    }
+                ]
+            }
+        ]);
+
+        assert.strictEqual(summary, 'hello\n42\n[image/png]\nValueError: bad value');
+    });
+
+    suite('formatParameterSetComparison', () => {
+        const base: DeepnoteParameterSet = {
+            name: 'US',
+            createdAt: '2024-01-01T00:00:00.000Z',
+            values: { country: 'US', limit: '5' },
+            lastRun: { ranAt: '2024-01-01T00:00:00.000Z', succeeded: true, outputs: { a: '1', b: 'same' } }
+        };
+        const target: DeepnoteParameterSet = {
+            name: 'CZ',
+            createdAt: '2024-01-02T00:00:00.000Z',
+            values: { country: 'CZ', limit: '5' },
+            lastRun: { ranAt: '2024-01-02T00:00:00.000Z', succeeded: true, outputs: { a: '2', b: 'same' } }
+        };
+
+        test('should list parameters and only the outputs that differ', () => {
+            const markdown = formatParameterSetComparison(
+                base,
+                target,
+                new Map([
+                    ['a', 'Block 1: print(a)'],
+                    ['b', 'Block 2: print(b)']
+                ])
+            );
+
+            assert.include(markdown, '# US ↔ CZ');
+            assert.include(markdown, '| `country` ⚠️ | `"US"` | `"CZ"` |');
+            assert.include(markdown, '| `limit` | `"5"` | `"5"` |');
+            assert.include(markdown, '### Block 1: print(a)');
+            assert.notInclude(markdown, 'Block 2: print(b)');
+        });
+
+        test('should ask for runs when a set has not been run', () => {
+            const markdown = formatParameterSetComparison(base, { ...target, lastRun: undefined }, new Map());
+
+            assert.include(markdown, 'Run both parameter sets to compare their outputs.');
+        });
+    });
+});
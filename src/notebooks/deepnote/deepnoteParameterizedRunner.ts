@@ -0,0 +1,413 @@
+import { inject, injectable, named } from 'inversify';
+import {
+    commands,
+    l10n,
+    Memento,
+    NotebookCellKind,
+    NotebookDocument,
+    NotebookEdit,
+    ProgressLocation,
+    QuickPickItem,
+    Range,
+    TextDocumentContentProvider,
+    Uri,
+    window,
+    workspace,
+    WorkspaceEdit
+} from 'vscode';
+
+import { IExtensionSyncActivationService } from '../../platform/activation/types';
+import { Commands } from '../../platform/common/constants';
+import { IDisposableRegistry, IMemento, WORKSPACE_MEMENTO } from '../../platform/common/types';
+import { logger } from '../../platform/logging';
+import {
+    applyParameterValue,
+    DeepnoteParameterInput,
+    DeepnoteParameterSet,
+    formatParameterSetComparison,
+    formatParameterValue,
+    getParameterInputs,
+    parseParameterValue,
+    summarizeCellOutputs,
+    validateParameterValue
+} from './deepnoteParameterSets';
+import { DeepnoteReactiveExecution } from './deepnoteReactiveExecution';
+
+/**
+ * URI scheme of the read-only Markdown documents comparing two parameter sets.
+ */
+export const DEEPNOTE_PARAMETERS_SCHEME = 'deepnote-parameters';
+
+const PARAMETER_SETS_KEY_PREFIX = 'deepnote.parameterSets';
+
+interface ParameterSetQuickPickItem extends QuickPickItem {
+    parameterSet: DeepnoteParameterSet;
+}
+
+/**
+ * Runs a Deepnote notebook with values for its input blocks, similar to papermill parameters.
+ * Each run is saved as a named parameter set (per notebook, in the workspace state), so it can be
+ * replayed later and its outputs compared with the outputs of another set.
+ */
+@injectable()
+export class DeepnoteParameterizedRunner implements IExtensionSyncActivationService, TextDocumentContentProvider {
+    /** Rendered comparisons, keyed by the URI of their document. */
+    private readonly documents = new Map<string, string>();
+
+    constructor(
+        @inject(IDisposableRegistry) private readonly disposables: IDisposableRegistry,
+        @inject(IMemento) @named(WORKSPACE_MEMENTO) private readonly workspaceState: Memento,
+        @inject(DeepnoteReactiveExecution) private readonly reactiveExecution: DeepnoteReactiveExecution
+    ) {}
+
+    public activate(): void {
+        this.disposables.push(workspace.registerTextDocumentContentProvider(DEEPNOTE_PARAMETERS_SCHEME, this));
+        this.disposables.push(commands.registerCommand(Commands.RunWithParameters, () => this.runWithParameters()));
+        this.disposables.push(commands.registerCommand(Commands.ReplayParameterSet, () => this.replayParameterSet()));
+        this.disposables.push(
+            commands.registerCommand(Commands.CompareParameterSets, () => this.compareParameterSets())
+        );
+    }
+
+    public provideTextDocumentContent(uri: Uri): string {
+        return this.documents.get(uri.toString()) ?? '';
+    }
+
+    /**
+     * Collects a value for every input block of the active notebook, runs the notebook with them
+     * and saves the values as a named parameter set.
+     */
+    public async runWithParameters(): Promise<void> {
+        const notebook = this.getActiveDeepnoteNotebook();
+
+        if (!notebook) {
+            return;
+        }
+
+        const inputs = getParameterInputs(notebook.getCells());
+
+        if (inputs.length === 0) {
+            void window.showInformationMessage(
+                l10n.t('This notebook has no input blocks. Add input blocks to define its parameters.')
+            );
+            return;
+        }
+
+        const values: Record<string, unknown> = {};
+
+        for (const [index, input] of inputs.entries()) {
+            const value = await this.collectValue(
+                input,
+                l10n.t('Run with Parameters ({0}/{1})', index + 1, inputs.length)
+            );
+
+            if (value === undefined) {
+                return;
+            }
+
+            values[input.name] = value;
+        }
+
+        const existingSets = this.getParameterSets(notebook);
+        const name = await window.showInputBox({
+            prompt: l10n.t('Name of the parameter set'),
+            value: l10n.t('Run {0}', new Date().toLocaleString()),
+            validateInput: (value) => {
+                if (!value.trim()) {
+                    return l10n.t('Name cannot be empty');
+                }
+
+                if (existingSets.some((parameterSet) => parameterSet.name === value.trim())) {
+                    return l10n.t('A parameter set with this name already exists');
+                }
+
+                return undefined;
+            }
+        });
+
+        if (!name) {
+            return;
+        }
+
+        const parameterSet: DeepnoteParameterSet = { name: name.trim(), createdAt: new Date().toISOString(), values };
+
+        await this.saveParameterSet(notebook, parameterSet);
+        await this.runParameterSet(notebook, parameterSet);
+    }
+
+    /**
+     * Runs the active notebook again with the values of a saved parameter set.
+     */
+    public async replayParameterSet(): Promise<void> {
+        const notebook = this.getActiveDeepnoteNotebook();
+        const parameterSet = notebook && (await this.pickParameterSet(notebook, l10n.t('Parameter set to replay')));
+
+        if (notebook && parameterSet) {
+            await this.runParameterSet(notebook, parameterSet);
+        }
+    }
+
+    /**
+     * Shows the values and outputs of two parameter sets of the active notebook side by side.
+     */
+    public async compareParameterSets(): Promise<void> {
+        const notebook = this.getActiveDeepnoteNotebook();
+
+        if (!notebook) {
+            return;
+        }
+
+        if (this.getParameterSets(notebook).length < 2) {
+            void window.showInformationMessage(
+                l10n.t('Run this notebook with at least two parameter sets to compare them.')
+            );
+            return;
+        }
+
+        const base = await this.pickParameterSet(notebook, l10n.t('Parameter set to compare from'));
+        const target =
+            base && (await this.pickParameterSet(notebook, l10n.t('Parameter set to compare to'), base.name));
+
+        if (!base || !target) {
+            return;
+        }
+
+        const blockLabels = new Map<string, string>();
+
+        for (const cell of notebook.getCells()) {
+            const blockId = cell.metadata?.id;
+
+            if (cell.kind === NotebookCellKind.Code && typeof blockId === 'string') {
+                const firstLine = cell.document.getText().split('\n')[0].trim();
+                blockLabels.set(blockId, l10n.t('Block {0}: {1}', cell.index + 1, firstLine || blockId));
+            }
+        }
+
+        const comparisonUri = Uri.from({
+            scheme: DEEPNOTE_PARAMETERS_SCHEME,
+            path: `${notebook.uri.path}.parameters.md`,
+            query: `base=${encodeURIComponent(base.name)}&target=${encodeURIComponent(target.name)}`
+        });
+
+        this.documents.set(comparisonUri.toString(), formatParameterSetComparison(base, target, blockLabels));
+
+        await commands.executeCommand('markdown.showPreview', comparisonUri);
+    }
+
+    /**
+     * Sets the input blocks to the values of a parameter set, runs all cells and stores their outputs.
+     */
+    public async runParameterSet(notebook: NotebookDocument, parameterSet: DeepnoteParameterSet): Promise<void> {
+        const edit = new WorkspaceEdit();
+        const cellEdits: NotebookEdit[] = [];
+
+        for (const input of getParameterInputs(notebook.getCells())) {
+            if (!(input.name in parameterSet.values)) {
+                continue;
+            }
+
+            const cell = notebook.cellAt(input.cellIndex);
+            const { metadata, content } = applyParameterValue(input, parameterSet.values[input.name]);
+            const lastLine = cell.document.lineAt(cell.document.lineCount - 1);
+
+            cellEdits.push(NotebookEdit.updateCellMetadata(input.cellIndex, metadata));
+            edit.replace(cell.document.uri, new Range(0, 0, lastLine.lineNumber, lastLine.text.length), content);
+        }
+
+        edit.set(notebook.uri, cellEdits);
+
+        // All blocks run below, so reactive execution must not re-run the blocks depending on the changed inputs
+        const reactiveRunSuppression = this.reactiveExecution.suppressReactiveRuns(notebook);
+
+        try {
+            if (!(await workspace.applyEdit(edit))) {
+                void window.showErrorMessage(l10n.t('Failed to set the values of the input blocks'));
+                return;
+            }
+
+            try {
+                await window.withProgress(
+                    {
+                        location: ProgressLocation.Notification,
+                        title: l10n.t('Running with parameter set "{0}"', parameterSet.name)
+                    },
+                    () =>
+                        commands.executeCommand('notebook.cell.execute', {
+                            ranges: [{ start: 0, end: notebook.cellCount }],
+                            document: notebook.uri
+                        })
+                );
+            } catch (error) {
+                logger.error('DeepnoteParameterizedRunner: Failed to run the notebook', error);
+                void window.showErrorMessage(
+                    l10n.t('Failed to run the notebook: {0}', error instanceof Error ? error.message : String(error))
+                );
+                return;
+            }
+        } finally {
+            reactiveRunSuppression.dispose();
+        }
+
+        const outputs: Record<string, string> = {};
+        let succeeded = true;
+
+        for (const cell of notebook.getCells()) {
+            const blockId = cell.metadata?.id;
+
+            if (cell.kind !== NotebookCellKind.Code || typeof blockId !== 'string') {
+                continue;
+            }
+
+            outputs[blockId] = summarizeCellOutputs(cell.outputs);
+
+            if (cell.executionSummary?.success === false) {
+                succeeded = false;
+            }
+        }
+
+        await this.saveParameterSet(notebook, {
+            ...parameterSet,
+            lastRun: { ranAt: new Date().toISOString(), succeeded, outputs }
+        });
+
+        const compare = l10n.t('Compare...');
+        const message = succeeded
+            ? l10n.t('Finished running with parameter set "{0}".', parameterSet.name)
+            : l10n.t('Some blocks failed while running with parameter set "{0}".', parameterSet.name);
+        const action = await (succeeded
+            ? window.showInformationMessage(message, compare)
+            : window.showWarningMessage(message, compare));
+
+        if (action === compare) {
+            await this.compareParameterSets();
+        }
+    }
+
+    /**
+     * Returns the parameter sets saved for a notebook, oldest first.
+     */
+    public getParameterSets(notebook: NotebookDocument): DeepnoteParameterSet[] {
+        return this.workspaceState.get<DeepnoteParameterSet[]>(this.getStorageKey(notebook), []);
+    }
+
+    private async saveParameterSet(notebook: NotebookDocument, parameterSet: DeepnoteParameterSet): Promise<void> {
+        const parameterSets = this.getParameterSets(notebook).filter(
+            (candidate) => candidate.name !== parameterSet.name
+        );
+
+        await this.workspaceState.update(this.getStorageKey(notebook), [...parameterSets, parameterSet]);
+    }
+
+    private getStorageKey(notebook: NotebookDocument): string {
+        const projectId = notebook.metadata?.deepnoteProjectId ?? notebook.uri.with({ query: '' }).toString();
+        const notebookId = notebook.metadata?.deepnoteNotebookId ?? '';
+
+        return `${PARAMETER_SETS_KEY_PREFIX}.${projectId}.${notebookId}`;
+    }
+
+    private async collectValue(input: DeepnoteParameterInput, title: string): Promise<unknown> {
+        const prompt = input.label ? `${input.label} (${input.name})` : input.name;
+
+        if (input.blockType === 'input-checkbox') {
+            const items = [l10n.t('True'), l10n.t('False')];
+            const picked = await window.showQuickPick(items, {
+                title,
+                placeHolder: prompt
+            });
+
+            return picked === undefined ? undefined : picked === items[0];
+        }
+
+        const options = input.metadata.deepnote_variable_options;
+
+        if (
+            input.blockType === 'input-select' &&
+            input.metadata.deepnote_variable_select_type !== 'from-variable' &&
+            Array.isArray(options) &&
+            options.length > 0
+        ) {
+            return this.pickSelectOptions(input, options.map(String), title, prompt);
+        }
+
+        const text = await window.showInputBox({
+            title,
+            prompt,
+            value: formatParameterValue(input.blockType, input.value),
+            validateInput: (value) => validateParameterValue(input, value)
+        });
+
+        return text === undefined ? undefined : parseParameterValue(input, text);
+    }
+
+    private async pickSelectOptions(
+        input: DeepnoteParameterInput,
+        options: string[],
+        title: string,
+        placeHolder: string
+    ): Promise<string | string[] | undefined> {
+        const current = Array.isArray(input.value) ? input.value.map(String) : [String(input.value ?? '')];
+
+        if (input.metadata.deepnote_allow_multiple_values === true) {
+            const picked = await window.showQuickPick(
+                options.map((option) => ({ label: option, picked: current.includes(option) })),
+                { title, placeHolder, canPickMany: true }
+            );
+
+            return picked?.map((item) => item.label);
+        }
+
+        const picked = await window.showQuickPick(
+            options.map((option) => ({
+                label: option,
+                description: current.includes(option) ? l10n.t('current') : undefined
+            })),
+            { title, placeHolder }
+        );
+
+        return picked?.label;
+    }
+
+    private async pickParameterSet(
+        notebook: NotebookDocument,
+        placeHolder: string,
+        excludedName?: string
+    ): Promise<DeepnoteParameterSet | undefined> {
+        const parameterSets = this.getParameterSets(notebook).filter(
+            (parameterSet) => parameterSet.name !== excludedName
+        );
+
+        if (parameterSets.length === 0) {
+            void window.showInformationMessage(
+                l10n.t('No parameter sets saved for this notebook. Use "Run with Parameters..." first.')
+            );
+            return undefined;
+        }
+
+        const items: ParameterSetQuickPickItem[] = parameterSets
+            .slice()
+            .reverse()
+            .map((parameterSet) => ({
+                label: parameterSet.name,
+                description: Object.entries(parameterSet.values)
+                    .map(([name, value]) => `${name}=${JSON.stringify(value)}`)
+                    .join(', '),
+                detail: parameterSet.lastRun
+                    ? l10n.t('Last run {0}', new Date(parameterSet.lastRun.ranAt).toLocaleString())
+                    : l10n.t('Not run yet'),
+                parameterSet
+            }));
+
+        return (await window.showQuickPick(items, { placeHolder, matchOnDescription: true }))?.parameterSet;
+    }
+
+    private getActiveDeepnoteNotebook(): NotebookDocument | undefined {
+        const notebook = window.activeNotebookEditor?.notebook;
+
+        if (notebook?.notebookType !== 'deepnote') {
+            void window.showWarningMessage(l10n.t('Open a Deepnote notebook to run it with parameters.'));
+            return undefined;
+        }
+
+        return notebook;
+    }
+}
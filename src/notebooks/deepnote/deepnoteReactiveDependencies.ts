@@ -0,0 +1,257 @@
+import type { NotebookCell, NotebookDocument } from 'vscode';
+
+import type { Pocket } from '../../platform/deepnote/pocket';
+import { CellAnalysis, ICellReference } from '../../platform/notebooks/cellAnalysis';
+
+/**
+ * Names a cell assigns (`defines`) and uses (`reads`).
+ */
+export interface DeepnoteCellSymbols {
+    defines: Set<string>;
+    reads: Set<string>;
+}
+
+const PYTHON_KEYWORDS = new Set([
+    'False',
+    'None',
+    'True',
+    'and',
+    'as',
+    'assert',
+    'async',
+    'await',
+    'break',
+    'case',
+    'class',
+    'continue',
+    'def',
+    'del',
+    'elif',
+    'else',
+    'except',
+    'finally',
+    'for',
+    'from',
+    'global',
+    'if',
+    'import',
+    'in',
+    'is',
+    'lambda',
+    'match',
+    'nonlocal',
+    'not',
+    'or',
+    'pass',
+    'raise',
+    'return',
+    'try',
+    'while',
+    'with',
+    'yield'
+]);
+
+/**
+ * Finds the cells to re-run after the value of input cells changed: the input cells themselves,
+ * then every cell that reads their variables, directly or through variables of other cells, in notebook order.
+ *
+ * Pylance can't resolve input variables, as no cell defines them in code, so the references passed to
+ * the execution analysis are built from the names each cell defines and reads (see {@link getCellSymbols}).
+ */
+export function findReactiveDependents(notebook: NotebookDocument, changedCells: NotebookCell[]): NotebookCell[] {
+    const cells = notebook.getCells();
+    const analysis = new CellAnalysis(notebook, [], buildCellReferences(cells, cells.map(getCellSymbols)));
+    const dependents = new Set<NotebookCell>();
+
+    for (const cell of changedCells) {
+        analysis.getSuccessorCells(cell).forEach((dependent) => dependents.add(dependent));
+    }
+
+    return [...dependents].sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Builds references in the shape produced by the execution analysis symbol tracker: for every cell,
+ * the locations of the names it defines, marked `write` in cells assigning them and `read` in cells using them.
+ */
+export function buildCellReferences(
+    cells: NotebookCell[],
+    symbols: DeepnoteCellSymbols[]
+): Map<string, ICellReference[]> {
+    const references = new Map<string, ICellReference[]>();
+
+    cells.forEach((cell, index) => {
+        const locations: ICellReference[] = [];
+
+        for (const name of symbols[index].defines) {
+            cells.forEach((other, otherIndex) => {
+                if (symbols[otherIndex].defines.has(name)) {
+                    locations.push({ uri: other.document.uri, kind: 'write' });
+                } else if (symbols[otherIndex].reads.has(name)) {
+                    locations.push({ uri: other.document.uri, kind: 'read' });
+                }
+            });
+        }
+
+        if (locations.length > 0) {
+            references.set(cell.document.uri.fragment, locations);
+        }
+    });
+
+    return references;
+}
+
+/**
+ * Returns the names a cell defines and reads, based on its block type:
+ * - input blocks define their variable,
+ * - SQL blocks define their result variable and read the variables of their `{{ }}` templates,
+ * - code blocks are scanned as Python.
+ */
+export function getCellSymbols(cell: Pick<NotebookCell, 'metadata' | 'document'>): DeepnoteCellSymbols {
+    const metadata = (cell.metadata ?? {}) as Record<string, unknown>;
+    const blockType = (metadata.__deepnotePocket as Pocket | undefined)?.type ?? 'code';
+    const variableName = typeof metadata.deepnote_variable_name === 'string' ? metadata.deepnote_variable_name : '';
+
+    if (blockType.startsWith('input-')) {
+        return { defines: new Set(variableName ? [variableName] : []), reads: new Set() };
+    }
+
+    if (blockType === 'sql') {
+        const reads = new Set<string>();
+
+        for (const match of cell.document.getText().matchAll(/\{\{([\s\S]*?)\}\}/g)) {
+            getPythonCellSymbols(match[1]).reads.forEach((name) => reads.add(name));
+        }
+
+        return { defines: new Set(variableName ? [variableName] : []), reads };
+    }
+
+    if (blockType === 'code') {
+        return getPythonCellSymbols(cell.document.getText());
+    }
+
+    return { defines: new Set(), reads: new Set() };
+}
+
+/**
+ * Finds the names Python code assigns and uses. This is a lexical approximation: names are not
+ * scoped, so a local variable of a function counts as a name of the cell.
+ */
+export function getPythonCellSymbols(code: string): DeepnoteCellSymbols {
+    const source = stripStringsAndComments(code);
+    const defines = new Set<string>();
+    const reads = new Set<string>();
+
+    const addNames = (targets: string) => {
+        for (const name of targets.match(/[A-Za-z_]\w*/g) ?? []) {
+            if (!PYTHON_KEYWORDS.has(name)) {
+                defines.add(name);
+            }
+        }
+    };
+
+    for (const match of source.matchAll(
+        /^[ \t]*([A-Za-z_][\w \t,*]*?)[ \t]*(?:[-+*/%&|^@]|\/\/|\*\*|<<|>>)?=(?!=)/gm
+    )) {
+        addNames(match[1]);
+    }
+
+    for (const match of source.matchAll(/^[ \t]*(?:async[ \t]+)?(?:def|class)[ \t]+([A-Za-z_]\w*)/gm)) {
+        defines.add(match[1]);
+    }
+
+    for (const match of source.matchAll(/^[ \t]*(?:async[ \t]+)?for[ \t]+([\w \t,()]+?)[ \t]+in\b/gm)) {
+        addNames(match[1]);
+    }
+
+    for (const match of source.matchAll(/^[ \t]*import[ \t]+([^\n]+)/gm)) {
+        for (const item of match[1].split(',')) {
+            const [module, alias] = item.split(/[ \t]+as[ \t]+/);
+            defines.add((alias ?? module.split('.')[0]).trim());
+        }
+    }
+
+    for (const match of source.matchAll(/^[ \t]*from[ \t]+[\w.]+[ \t]+import[ \t]+\(?([^)\n]+)/gm)) {
+        for (const item of match[1].split(',')) {
+            const [name, alias] = item.split(/[ \t]+as[ \t]+/);
+
+            if (name.trim() !== '*') {
+                defines.add((alias ?? name).trim());
+            }
+        }
+    }
+
+    for (const match of source.matchAll(/\b(?:as|global)[ \t]+([A-Za-z_]\w*)|([A-Za-z_]\w*)[ \t]*:=/g)) {
+        defines.add(match[1] ?? match[2]);
+    }
+
+    for (const match of source.matchAll(/(?<![\w.])([A-Za-z_]\w*)\b(?![ \t]*=(?!=))/g)) {
+        if (!PYTHON_KEYWORDS.has(match[1])) {
+            reads.add(match[1]);
+        }
+    }
+
+    defines.delete('');
+
+    return { defines, reads };
+}
+
+/**
+ * Blanks out comments and string literals, keeping line breaks and the expressions of f-strings.
+ */
+function stripStringsAndComments(code: string): string {
+    let result = '';
+    let index = 0;
+
+    while (index < code.length) {
+        const char = code[index];
+
+        if (char === '#') {
+            while (index < code.length && code[index] !== '\n') {
+                index++;
+            }
+            continue;
+        }
+
+        const prefix = /^([rRbBuUfF]{0,2})('''|"""|'|")/.exec(code.slice(index, index + 5));
+        const isStringStart = prefix && (index === 0 || !/\w/.test(code[index - 1]) || prefix[1].length === 0);
+
+        if (!prefix || !isStringStart) {
+            result += char;
+            index++;
+            continue;
+        }
+
+        const isFormatted = /[fF]/.test(prefix[1]);
+        const quote = prefix[2];
+        index += prefix[0].length;
+        result += ' '.repeat(prefix[0].length);
+
+        while (index < code.length && !code.startsWith(quote, index)) {
+            if (code[index] === '\\' || (isFormatted && code.startsWith('{{', index))) {
+                result += '  ';
+                index += 2;
+            } else if (isFormatted && code[index] === '{') {
+                let depth = 0;
+
+                while (index < code.length) {
+                    if (code[index] === '{') {
+                        depth++;
+                    } else if (code[index] === '}' && --depth === 0) {
+                        break;
+                    }
+                    result += code[index] === '{' ? ' ' : code[index];
+                    index++;
+                }
+            } else {
+                result += code[index] === '\n' ? '\n' : ' ';
+                index++;
+            }
+        }
+
+        result += ' '.repeat(quote.length);
+        index += quote.length;
+    }
+
+    return result;
+}
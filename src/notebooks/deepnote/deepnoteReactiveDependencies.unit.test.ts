@@ -0,0 +1,101 @@
+import { assert } from 'chai';
+import type { NotebookCell, NotebookDocument } from 'vscode';
+
+import { findReactiveDependents, getCellSymbols, getPythonCellSymbols } from './deepnoteReactiveDependencies';
+
+suite('deepnoteReactiveDependencies', () => {
+    function createNotebook(cells: { type: string; text?: string; variable?: string }[]): NotebookDocument {
+        const notebookCells: NotebookCell[] = [];
+        const notebook = { getCells: () => notebookCells } as unknown as NotebookDocument;
+
+        cells.forEach(({ type, text = '', variable }, index) => {
+            const uri = {
+                fragment: `cell-${index}`,
+                toString: () => `vscode-notebook-cell:/nb.deepnote#cell-${index}`
+            };
+
+            notebookCells.push({
+                index,
+                notebook,
+                metadata: { __deepnotePocket: { type }, ...(variable && { deepnote_variable_name: variable }) },
+                document: { uri, getText: () => text }
+            } as unknown as NotebookCell);
+        });
+
+        return notebook;
+    }
+
+    suite('getPythonCellSymbols', () => {
+        test('should find assignments, imports, functions and loop variables', () => {
+            const { defines } = getPythonCellSymbols(
+                [
+                    'import pandas as pd, numpy',
+                    'from os import path as p, sep',
+                    'def load(name):',
+                    '    return name',
+                    'for i, row in rows:',
+                    '    total += i',
+                    'a, b = 1, 2'
+                ].join('\n')
+            );
+
+            assert.sameMembers([...defines], ['pd', 'numpy', 'p', 'sep', 'load', 'i', 'row', 'total', 'a', 'b']);
+        });
+
+        test('should ignore strings, comments, attributes and keyword arguments when finding reads', () => {
+            const { reads } = getPythonCellSymbols(
+                ['x = df.country  # uses limit', 'label = "region"', 'plot(data=x, title=f"{year} {{month}}")'].join(
+                    '\n'
+                )
+            );
+
+            assert.sameMembers([...reads], ['df', 'plot', 'x', 'year']);
+        });
+    });
+
+    test('getCellSymbols should handle input and SQL blocks', () => {
+        const [input, sql] = createNotebook([
+            { type: 'input-text', text: 'CZ', variable: 'country' },
+            { type: 'sql', text: "SELECT * FROM t WHERE c = {{ country }} AND a = 'x'", variable: 'df' }
+        ]).getCells();
+
+        assert.deepStrictEqual(getCellSymbols(input), { defines: new Set(['country']), reads: new Set() });
+        assert.deepStrictEqual(getCellSymbols(sql), { defines: new Set(['df']), reads: new Set(['country']) });
+    });
+
+    suite('findReactiveDependents', () => {
+        test('should return the input and its direct and indirect readers in order', () => {
+            const notebook = createNotebook([
+                { type: 'input-slider', text: '5', variable: 'limit' },
+                { type: 'code', text: 'unrelated = 1' },
+                { type: 'sql', text: 'SELECT * FROM t LIMIT {{ limit }}', variable: 'df' },
+                { type: 'markdown', text: 'limit' },
+                { type: 'code', text: 'summary = df.describe()' },
+                { type: 'code', text: 'print(summary)' },
+                { type: 'code', text: 'print(unrelated)' }
+            ]);
+            const cells = notebook.getCells();
+
+            const dependents = findReactiveDependents(notebook, [cells[0]]);
+
+            assert.deepStrictEqual(
+                dependents.map((cell) => cell.index),
+                [0, 2, 4, 5]
+            );
+        });
+
+        test('should not re-run readers placed before the input', () => {
+            const notebook = createNotebook([
+                { type: 'code', text: 'print(country)' },
+                { type: 'input-text', text: 'CZ', variable: 'country' },
+                { type: 'code', text: 'print(country)' }
+            ]);
+            const cells = notebook.getCells();
+
+            assert.deepStrictEqual(
+                findReactiveDependents(notebook, [cells[1]]).map((cell) => cell.index),
+                [1, 2]
+            );
+        });
+    });
+});
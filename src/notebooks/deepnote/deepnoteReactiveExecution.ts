@@ -0,0 +1,227 @@
+import { inject, injectable } from 'inversify';
+import {
+    CancellationToken,
+    commands,
+    EventEmitter,
+    l10n,
+    NotebookCell,
+    NotebookCellStatusBarAlignment,
+    NotebookCellStatusBarItem,
+    NotebookCellStatusBarItemProvider,
+    NotebookDocument,
+    NotebookDocumentChangeEvent,
+    notebooks,
+    workspace
+} from 'vscode';
+
+import { IExtensionSyncActivationService } from '../../platform/activation/types';
+import { IDisposable, IDisposableRegistry } from '../../platform/common/types';
+import { logger } from '../../platform/logging';
+import { NotebookCellExecutionState, notebookCellExecutions } from '../../platform/notebooks/cellExecutionStateService';
+import type { Pocket } from '../../platform/deepnote/pocket';
+import { cellIndexesToRanges } from '../../standalone/executionAnalysis/common';
+import { findReactiveDependents } from './deepnoteReactiveDependencies';
+
+/**
+ * Delay before re-running blocks, so that several input changes in a row result in a single run.
+ */
+const REACTIVE_RUN_DELAY_MS = 300;
+
+/**
+ * Reactive execution: when the value of an input block changes (e.g. from its status bar items), the input
+ * block and every block that depends on its variable are re-run in notebook order. Blocks waiting to be
+ * re-run are marked as stale. Enabled with `deepnote.reactiveExecution.enabled`.
+ */
+@injectable()
+export class DeepnoteReactiveExecution implements IExtensionSyncActivationService, NotebookCellStatusBarItemProvider {
+    /** Last known value of input cells, as JSON, to tell value changes from other metadata changes. */
+    private readonly inputValues = new WeakMap<NotebookCell, string>();
+    private readonly staleCells = new Set<NotebookCell>();
+    private readonly pendingInputCells = new Map<NotebookDocument, Set<NotebookCell>>();
+    private readonly pendingRuns = new Map<NotebookDocument, ReturnType<typeof setTimeout>>();
+    /** Number of active suppressions per notebook, see {@link suppressReactiveRuns}. */
+    private readonly suppressedNotebooks = new Map<NotebookDocument, number>();
+    private readonly _onDidChangeCellStatusBarItems = new EventEmitter<void>();
+
+    public readonly onDidChangeCellStatusBarItems = this._onDidChangeCellStatusBarItems.event;
+
+    constructor(@inject(IDisposableRegistry) private readonly disposables: IDisposableRegistry) {}
+
+    public activate(): void {
+        workspace.notebookDocuments.forEach((notebook) => this.rememberInputValues(notebook.getCells()));
+
+        this.disposables.push(notebooks.registerNotebookCellStatusBarItemProvider('deepnote', this));
+        this.disposables.push(
+            workspace.onDidOpenNotebookDocument((notebook) => this.rememberInputValues(notebook.getCells()))
+        );
+        this.disposables.push(workspace.onDidChangeNotebookDocument((e) => this.onDidChangeNotebookDocument(e)));
+        this.disposables.push(
+            notebookCellExecutions.onDidChangeNotebookCellExecutionState((e) => {
+                if (e.state === NotebookCellExecutionState.Idle && this.staleCells.delete(e.cell)) {
+                    this._onDidChangeCellStatusBarItems.fire();
+                }
+            })
+        );
+        this.disposables.push(this._onDidChangeCellStatusBarItems);
+        this.disposables.push({
+            dispose: () => {
+                this.pendingRuns.forEach((timeout) => clearTimeout(timeout));
+                this.pendingRuns.clear();
+            }
+        });
+    }
+
+    public provideCellStatusBarItems(
+        cell: NotebookCell,
+        token: CancellationToken
+    ): NotebookCellStatusBarItem[] | undefined {
+        if (token.isCancellationRequested || !this.staleCells.has(cell)) {
+            return undefined;
+        }
+
+        return [
+            {
+                text: l10n.t('$(history) Stale'),
+                alignment: NotebookCellStatusBarAlignment.Left,
+                priority: 200,
+                tooltip: l10n.t('An input this block depends on has changed.\nThe block will re-run shortly.')
+            }
+        ];
+    }
+
+    /**
+     * Re-runs the given input cells and the cells depending on them, marking the cells as stale until they ran.
+     */
+    public async runDependentCells(notebook: NotebookDocument, inputCells: NotebookCell[]): Promise<void> {
+        const cells = findReactiveDependents(notebook, inputCells);
+
+        if (cells.length === 0) {
+            return;
+        }
+
+        logger.info(
+            `DeepnoteReactiveExecution: Re-running ${cells.length} block(s) after inputs changed in ${notebook.uri.path}`
+        );
+
+        cells.filter((cell) => !inputCells.includes(cell)).forEach((cell) => this.staleCells.add(cell));
+        this._onDidChangeCellStatusBarItems.fire();
+
+        try {
+            await commands.executeCommand('notebook.cell.execute', {
+                ranges: cellIndexesToRanges(cells.map((cell) => cell.index)).map((range) => ({
+                    start: range.start,
+                    end: range.end
+                })),
+                document: notebook.uri
+            });
+        } catch (error) {
+            logger.error('DeepnoteReactiveExecution: Failed to re-run dependent blocks', error);
+        }
+    }
+
+    /**
+     * Stops re-running blocks when input values of a notebook change until the returned disposable is disposed,
+     * for callers that set input values and run the blocks themselves, like parameter set runs.
+     */
+    public suppressReactiveRuns(notebook: NotebookDocument): IDisposable {
+        this.suppressedNotebooks.set(notebook, (this.suppressedNotebooks.get(notebook) ?? 0) + 1);
+
+        let disposed = false;
+
+        return {
+            dispose: () => {
+                if (disposed) {
+                    return;
+                }
+
+                disposed = true;
+
+                const count = (this.suppressedNotebooks.get(notebook) ?? 1) - 1;
+
+                if (count > 0) {
+                    this.suppressedNotebooks.set(notebook, count);
+                } else {
+                    this.suppressedNotebooks.delete(notebook);
+                }
+            }
+        };
+    }
+
+    private onDidChangeNotebookDocument(e: NotebookDocumentChangeEvent): void {
+        if (e.notebook.notebookType !== 'deepnote') {
+            return;
+        }
+
+        e.contentChanges.forEach((change) => this.rememberInputValues(change.addedCells));
+
+        for (const change of e.cellChanges) {
+            if (!change.metadata) {
+                continue;
+            }
+
+            const value = getInputValue(change.cell);
+
+            if (value === undefined) {
+                continue;
+            }
+
+            const previousValue = this.inputValues.get(change.cell);
+            this.inputValues.set(change.cell, value);
+
+            if (
+                previousValue !== undefined &&
+                previousValue !== value &&
+                !this.suppressedNotebooks.has(e.notebook) &&
+                isReactiveExecutionEnabled(e.notebook)
+            ) {
+                this.scheduleRun(e.notebook, change.cell);
+            }
+        }
+    }
+
+    private scheduleRun(notebook: NotebookDocument, inputCell: NotebookCell): void {
+        const inputCells = this.pendingInputCells.get(notebook) ?? new Set<NotebookCell>();
+        inputCells.add(inputCell);
+        this.pendingInputCells.set(notebook, inputCells);
+
+        clearTimeout(this.pendingRuns.get(notebook));
+        this.pendingRuns.set(
+            notebook,
+            setTimeout(() => {
+                this.pendingRuns.delete(notebook);
+                this.pendingInputCells.delete(notebook);
+
+                if (!notebook.isClosed) {
+                    void this.runDependentCells(
+                        notebook,
+                        [...inputCells].filter((cell) => cell.index >= 0)
+                    );
+                }
+            }, REACTIVE_RUN_DELAY_MS)
+        );
+    }
+
+    private rememberInputValues(cells: readonly NotebookCell[]): void {
+        for (const cell of cells) {
+            const value = getInputValue(cell);
+
+            if (value !== undefined) {
+                this.inputValues.set(cell, value);
+            }
+        }
+    }
+}
+
+function getInputValue(cell: NotebookCell): string | undefined {
+    const blockType = (cell.metadata?.__deepnotePocket as Pocket | undefined)?.type;
+
+    if (!blockType?.startsWith('input-')) {
+        return undefined;
+    }
+
+    return JSON.stringify(cell.metadata?.deepnote_variable_value ?? null);
+}
+
+function isReactiveExecutionEnabled(notebook: NotebookDocument): boolean {
+    return workspace.getConfiguration('deepnote', notebook.uri).get<boolean>('reactiveExecution.enabled', false);
+}
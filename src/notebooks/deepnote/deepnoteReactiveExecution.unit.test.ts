@@ -0,0 +1,86 @@
+import { assert } from 'chai';
+import * as sinon from 'sinon';
+import { anything, instance, mock, when } from 'ts-mockito';
+import { NotebookCell, NotebookDocument, NotebookDocumentChangeEvent, Uri, WorkspaceConfiguration } from 'vscode';
+
+import { IDisposableRegistry } from '../../platform/common/types';
+import { mockedVSCodeNamespaces, resetVSCodeMocks } from '../../test/vscode-mock';
+import { DeepnoteReactiveExecution } from './deepnoteReactiveExecution';
+
+suite('DeepnoteReactiveExecution', () => {
+    let reactiveExecution: DeepnoteReactiveExecution;
+    let runDependentCells: sinon.SinonStub;
+    let changeNotebook: (e: NotebookDocumentChangeEvent) => void;
+    let clock: sinon.SinonFakeTimers;
+    let notebook: NotebookDocument;
+    let inputCell: NotebookCell;
+    let inputMetadata: Record<string, unknown>;
+
+    setup(() => {
+        resetVSCodeMocks();
+        clock = sinon.useFakeTimers();
+
+        inputMetadata = { __deepnotePocket: { type: 'input-text' }, deepnote_variable_value: 'a' };
+        inputCell = { index: 0, metadata: inputMetadata } as unknown as NotebookCell;
+        notebook = {
+            notebookType: 'deepnote',
+            uri: Uri.file('/workspace/project.deepnote'),
+            isClosed: false,
+            getCells: () => [inputCell]
+        } as unknown as NotebookDocument;
+
+        const config = mock<WorkspaceConfiguration>();
+        when(config.get('reactiveExecution.enabled', anything())).thenReturn(true);
+        when(mockedVSCodeNamespaces.workspace.getConfiguration('deepnote', anything())).thenReturn(instance(config));
+        when(mockedVSCodeNamespaces.workspace.notebookDocuments).thenReturn([notebook]);
+        when(mockedVSCodeNamespaces.workspace.onDidChangeNotebookDocument(anything())).thenCall((handler) => {
+            changeNotebook = handler;
+            return { dispose: () => undefined };
+        });
+
+        reactiveExecution = new DeepnoteReactiveExecution([] as IDisposableRegistry);
+        runDependentCells = sinon.stub(reactiveExecution, 'runDependentCells').resolves();
+        reactiveExecution.activate();
+    });
+
+    teardown(() => {
+        clock.restore();
+        sinon.restore();
+        resetVSCodeMocks();
+    });
+
+    function changeInputValue(value: string) {
+        inputMetadata.deepnote_variable_value = value;
+        changeNotebook({
+            notebook,
+            contentChanges: [],
+            cellChanges: [{ cell: inputCell, metadata: inputMetadata }]
+        } as unknown as NotebookDocumentChangeEvent);
+    }
+
+    test('re-runs the dependents of an input whose value changed', () => {
+        changeInputValue('b');
+        clock.tick(300);
+
+        assert.isTrue(runDependentCells.calledOnceWith(notebook, [inputCell]));
+    });
+
+    test('does not re-run the dependents of inputs changed while runs are suppressed', () => {
+        const suppression = reactiveExecution.suppressReactiveRuns(notebook);
+
+        changeInputValue('b');
+        suppression.dispose();
+        clock.tick(300);
+
+        assert.isTrue(runDependentCells.notCalled);
+    });
+
+    test('re-runs the dependents of inputs again once the suppression is disposed', () => {
+        reactiveExecution.suppressReactiveRuns(notebook).dispose();
+
+        changeInputValue('b');
+        clock.tick(300);
+
+        assert.isTrue(runDependentCells.calledOnce);
+    });
+});
@@ -0,0 +1,152 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as readline from 'readline';
+import * as yaml from 'js-yaml';
+
+import type { DeepnoteFile } from '../../platform/deepnote/deepnoteTypes';
+import * as path from '../../platform/vscode-path/path';
+import {
+    HeadlessCell,
+    HeadlessCellResult,
+    HeadlessRunnerArguments,
+    applyHeadlessResults,
+    createHeadlessExecutionPlan,
+    createHeadlessIntegrationEnvironment,
+    describeFailedCell,
+    findNotebookToRun,
+    headlessRunnerUsage,
+    parseHeadlessRunnerArguments
+} from './deepnoteHeadlessRunner';
+
+// Entry point of the headless runner (dist/deepnoteRunner.node.js), used to run .deepnote notebooks in CI.
+// It runs outside of VS Code, so it executes blocks in a kernel started by pythonFiles/deepnote_runner.py
+// instead of going through the toolkit installer and server starter of the extension.
+
+export enum RunnerExitCode {
+    Success = 0,
+    BlockFailed = 1,
+    InvalidUsage = 2,
+    RunnerFailed = 3
+}
+
+/**
+ * Runs a notebook of a .deepnote project and writes the project with the outputs to the output file.
+ * @param argv Command line arguments, without the node executable and script
+ * @returns The exit code of the process
+ */
+export async function runDeepnoteNotebook(argv: string[]): Promise<RunnerExitCode> {
+    if (argv.includes('--help') || argv.includes('-h')) {
+        console.log(headlessRunnerUsage);
+        return RunnerExitCode.Success;
+    }
+
+    let project: DeepnoteFile;
+    let cells: HeadlessCell[];
+    let args: HeadlessRunnerArguments;
+    let integrationEnv: Record<string, string>;
+
+    try {
+        args = parseHeadlessRunnerArguments(argv);
+        project = yaml.load(await fs.promises.readFile(args.filePath, 'utf8')) as DeepnoteFile;
+
+        const notebook = findNotebookToRun(project, args.notebook);
+        cells = createHeadlessExecutionPlan(project, notebook, args.inputs);
+        integrationEnv = createHeadlessIntegrationEnvironment(cells, process.env);
+
+        console.log(`Running notebook "${notebook.name}" (${cells.length} blocks)`);
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        console.error('');
+        console.error(headlessRunnerUsage);
+        return RunnerExitCode.InvalidUsage;
+    }
+
+    const results: HeadlessCellResult[] = [];
+    let failure: string | undefined;
+
+    try {
+        const exitCode = await executeCells(args, cells, integrationEnv, (result) => {
+            const cell = cells.find((candidate) => candidate.id === result.id);
+
+            results.push(result);
+
+            if (result.status === 'ok') {
+                console.log(`  ✓ ${cell?.notebookName ?? ''} / ${result.id} (${cell?.blockType ?? 'unknown'})`);
+            } else if (cell) {
+                failure = describeFailedCell(cell, result);
+            }
+        });
+
+        if (exitCode !== 0 && !failure) {
+            console.error(
+                `The Python runner exited with code ${exitCode}, are jupyter_client, ipykernel and deepnote_toolkit installed?`
+            );
+            return RunnerExitCode.RunnerFailed;
+        }
+    } catch (error) {
+        console.error(`Failed to start ${args.python ?? getDefaultPython()}: ${error}`);
+        return RunnerExitCode.RunnerFailed;
+    }
+
+    applyHeadlessResults(project, results);
+
+    await fs.promises.writeFile(args.outputPath, yaml.dump(project), 'utf8');
+    console.log(`Outputs written to ${args.outputPath}`);
+
+    if (failure) {
+        console.error(failure);
+        return RunnerExitCode.BlockFailed;
+    }
+
+    return RunnerExitCode.Success;
+}
+
+function executeCells(
+    args: HeadlessRunnerArguments,
+    cells: HeadlessCell[],
+    integrationEnv: Record<string, string>,
+    onResult: (result: HeadlessCellResult) => void
+): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const driver = path.join(__dirname, '..', 'pythonFiles', 'deepnote_runner.py');
+        const child = spawn(args.python ?? getDefaultPython(), [driver], {
+            cwd: path.dirname(path.resolve(args.filePath)),
+            env: { ...process.env, ...integrationEnv },
+            stdio: ['pipe', 'pipe', 'inherit']
+        });
+
+        readline.createInterface({ input: child.stdout }).on('line', (line) => {
+            try {
+                onResult(JSON.parse(line) as HeadlessCellResult);
+            } catch {
+                // Anything else printed to stdout is not ours to interpret
+                console.log(line);
+            }
+        });
+
+        child.on('error', reject);
+        child.on('close', (code) => resolve(code ?? 1));
+
+        child.stdin.end(
+            JSON.stringify({
+                cells: cells.map((cell) => ({ id: cell.id, code: cell.code })),
+                cwd: path.dirname(path.resolve(args.filePath)),
+                timeout: args.timeout ?? null
+            })
+        );
+    });
+}
+
+function getDefaultPython(): string {
+    return process.platform === 'win32' ? 'python' : 'python3';
+}
+
+if (require.main === module) {
+    runDeepnoteNotebook(process.argv.slice(2)).then(
+        (exitCode) => process.exit(exitCode),
+        (error) => {
+            console.error(error);
+            process.exit(RunnerExitCode.RunnerFailed);
+        }
+    );
+}
@@ -226,6 +226,82 @@ export const DeepnoteButtonMetadataSchema = DeepnoteBaseInputMetadataSchema.exte
         .transform((val) => val ?? 'blue')
 });
 
+/**
+ * Metadata schemas of the input blocks, keyed by block type.
+ */
+export const DeepnoteInputMetadataSchemas = {
+    'input-text': DeepnoteTextInputMetadataSchema,
+    'input-textarea': DeepnoteTextareaInputMetadataSchema,
+    'input-select': DeepnoteSelectInputMetadataSchema,
+    'input-slider': DeepnoteSliderInputMetadataSchema,
+    'input-checkbox': DeepnoteCheckboxInputMetadataSchema,
+    'input-date': DeepnoteDateInputMetadataSchema,
+    'input-date-range': DeepnoteDateRangeInputMetadataSchema,
+    'input-file': DeepnoteFileInputMetadataSchema,
+    button: DeepnoteButtonMetadataSchema
+} as const;
+
+// Timestamps may be loaded as Date objects when they are not quoted in the YAML.
+const DeepnoteTimestampSchema = z.union([z.string(), z.date()]);
+
+export const DeepnoteBlockSchema = z.object({
+    id: z.string().min(1),
+    type: z.string().min(1),
+    sortingKey: z.string().min(1),
+    blockGroup: z.string().nullish(),
+    content: z.string().nullish(),
+    executionCount: z.number().nullish(),
+    metadata: z.record(z.string(), z.unknown()).nullish(),
+    outputs: z.array(z.unknown()).nullish(),
+    version: z.number().nullish()
+});
+
+export const DeepnoteNotebookSchema = z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    blocks: z.array(DeepnoteBlockSchema),
+    executionMode: z.string().nullish(),
+    isModule: z.boolean().nullish(),
+    workingDirectory: z.string().nullish()
+});
+
+export const DeepnoteFileSchema = z.object({
+    version: z.union([z.string(), z.number()]),
+    metadata: z.object({
+        createdAt: DeepnoteTimestampSchema,
+        modifiedAt: DeepnoteTimestampSchema.nullish(),
+        exportedAt: DeepnoteTimestampSchema.nullish(),
+        checksum: z.string().nullish()
+    }),
+    project: z.object({
+        id: z.string().min(1),
+        name: z.string(),
+        initNotebookId: z.string().nullish(),
+        notebooks: z.array(DeepnoteNotebookSchema),
+        integrations: z
+            .array(
+                z.object({
+                    id: z.string(),
+                    name: z.string(),
+                    type: z.string()
+                })
+            )
+            .nullish(),
+        settings: z
+            .object({
+                environment: z
+                    .object({
+                        customImage: z.string().nullish(),
+                        pythonVersion: z.string().nullish()
+                    })
+                    .nullish(),
+                requirements: z.array(z.string()).nullish(),
+                sqlCacheMaxAge: z.number().nullish()
+            })
+            .nullish()
+    })
+});
+
 export type DeepnoteChartBigNumberOutput = z.infer<typeof DeepnoteChartBigNumberOutputSchema>;
 export type DeepnoteBigNumberMetadata = z.infer<typeof DeepnoteBigNumberMetadataSchema>;
 export type DeepnoteSqlMetadata = z.infer<typeof DeepnoteSqlMetadataSchema>;
@@ -0,0 +1,60 @@
+import { Uri, workspace } from 'vscode';
+
+import type { DeepnoteProject } from '../../platform/deepnote/deepnoteTypes';
+
+/**
+ * How .deepnote files are written when a notebook is saved.
+ * - `default`: `modifiedAt` is updated on every save and keys keep their original order.
+ * - `clean`: `modifiedAt` is only updated when blocks changed and keys are written in sorted order,
+ *   so saving an unchanged notebook doesn't change the file.
+ */
+export type DeepnoteSerializationMode = 'default' | 'clean';
+
+export interface DeepnoteSerializationOptions {
+    mode: DeepnoteSerializationMode;
+    stripOutputs: boolean;
+    stripExecutionCounts: boolean;
+}
+
+type DeepnoteSerializationOverrides = Partial<DeepnoteSerializationOptions>;
+
+/**
+ * Reads the serialization settings for a project.
+ * Per-project overrides from `deepnote.serialization.projectOverrides` take precedence over
+ * the workspace (or folder) settings.
+ * @param projectId ID of the project being saved
+ * @param resource URI of the project file, used to resolve folder-level settings
+ */
+export function getSerializationOptions(projectId: string, resource?: Uri): DeepnoteSerializationOptions {
+    const config = workspace.getConfiguration('deepnote.serialization', resource);
+    const overrides = config.get<Record<string, DeepnoteSerializationOverrides>>('projectOverrides', {})?.[projectId];
+
+    return {
+        mode: overrides?.mode ?? config.get<DeepnoteSerializationMode>('mode', 'default'),
+        stripOutputs: overrides?.stripOutputs ?? config.get<boolean>('stripOutputs', false),
+        stripExecutionCounts: overrides?.stripExecutionCounts ?? config.get<boolean>('stripExecutionCounts', false)
+    };
+}
+
+/**
+ * Removes outputs and/or execution counts from the blocks of all notebooks of a project.
+ * @param project The project to modify in place
+ * @param options Serialization options of the project
+ */
+export function stripBlockExecutionData(project: DeepnoteProject, options: DeepnoteSerializationOptions): void {
+    if (!options.stripOutputs && !options.stripExecutionCounts) {
+        return;
+    }
+
+    for (const notebook of project.project.notebooks) {
+        for (const block of notebook.blocks ?? []) {
+            if (options.stripOutputs) {
+                delete block.outputs;
+            }
+
+            if (options.stripExecutionCounts) {
+                delete block.executionCount;
+            }
+        }
+    }
+}
@@ -1,11 +1,23 @@
 import { inject, injectable } from 'inversify';
 import * as yaml from 'js-yaml';
-import { l10n, workspace, type CancellationToken, type NotebookData, type NotebookSerializer } from 'vscode';
+import {
+    l10n,
+    TabInputNotebook,
+    Uri,
+    window,
+    workspace,
+    type CancellationToken,
+    type NotebookData,
+    type NotebookSerializer
+} from 'vscode';
 
 import { logger } from '../../platform/logging';
 import { IDeepnoteNotebookManager } from '../types';
+import { areBlocksEqual } from './deepnoteBlockMerge';
 import { DeepnoteDataConverter } from './deepnoteDataConverter';
-import type { DeepnoteFile, DeepnoteNotebook } from '../../platform/deepnote/deepnoteTypes';
+import { validateDeepnoteFile } from './deepnoteFileValidation';
+import { getSerializationOptions, stripBlockExecutionData } from './deepnoteSerializationOptions';
+import type { DeepnoteBlock, DeepnoteFile, DeepnoteNotebook } from '../../platform/deepnote/deepnoteTypes';
 
 export { DeepnoteBlock, DeepnoteNotebook, DeepnoteOutput, DeepnoteFile } from '../../platform/deepnote/deepnoteTypes';
 
@@ -50,8 +62,16 @@ export class DeepnoteNotebookSerializer implements NotebookSerializer {
                 throw new Error('Invalid Deepnote file: no notebooks found');
             }
 
+            // Problems are shown to the user by DeepnoteFileDiagnosticsProvider, as diagnostics on the file
+            // where they can be repaired.
+            const issues = validateDeepnoteFile(deepnoteFile, this.converter.getSupportedBlockTypes());
+
+            for (const issue of issues) {
+                logger.warn(`DeepnoteSerializer: ${issue.message}`);
+            }
+
             const projectId = deepnoteFile.project.id;
-            const notebookId = this.findCurrentNotebookId(projectId);
+            const notebookId = this.findCurrentNotebookId(deepnoteFile);
 
             logger.debug(`DeepnoteSerializer: Project ID: ${projectId}, Selected notebook ID: ${notebookId}`);
 
@@ -120,6 +140,8 @@ export class DeepnoteNotebookSerializer implements NotebookSerializer {
                 throw new Error('Original Deepnote project not found. Cannot save changes.');
             }
 
+            // Each open notebook document carries its own notebook ID, so several notebooks
+            // of the same project can be saved independently of the current selection.
             const notebookId =
                 data.metadata?.deepnoteNotebookId || this.notebookManager.getTheSelectedNotebookForAProject(projectId);
 
@@ -127,31 +149,34 @@ export class DeepnoteNotebookSerializer implements NotebookSerializer {
                 throw new Error('Cannot determine which notebook to save');
             }
 
-            const notebookIndex = originalProject.project.notebooks.findIndex(
-                (nb: { id: string }) => nb.id === notebookId
-            );
+            const updatedBlocks = this.converter.convertCellsToBlocks(data.cells);
 
-            if (notebookIndex === -1) {
+            // Merge only this notebook's blocks into the latest project state, so changes
+            // saved from other open notebooks of the same project are never overwritten.
+            const updatedProject = this.notebookManager.updateNotebookBlocks(projectId, notebookId, updatedBlocks);
+
+            if (!updatedProject) {
                 throw new Error(`Notebook with ID ${notebookId} not found in project`);
             }
 
-            const updatedProject = JSON.parse(JSON.stringify(originalProject)) as DeepnoteFile;
+            const options = getSerializationOptions(projectId, this.findProjectFileUri(projectId));
 
-            const updatedBlocks = this.converter.convertCellsToBlocks(data.cells);
+            // The stored project keeps its outputs for the open notebooks, only the written copy is stripped.
+            const savedProject = structuredClone(updatedProject);
 
-            updatedProject.project.notebooks[notebookIndex].blocks = updatedBlocks;
+            stripBlockExecutionData(savedProject, options);
 
-            updatedProject.metadata.modifiedAt = new Date().toISOString();
+            if (options.mode !== 'clean' || this.haveBlocksChanged(originalProject, notebookId, updatedBlocks)) {
+                savedProject.metadata.modifiedAt = new Date().toISOString();
+            }
 
-            const yamlString = yaml.dump(updatedProject, {
+            const yamlString = yaml.dump(savedProject, {
                 indent: 2,
                 lineWidth: -1,
                 noRefs: true,
-                sortKeys: false
+                sortKeys: options.mode === 'clean'
             });
 
-            this.notebookManager.storeOriginalProject(projectId, updatedProject, notebookId);
-
             return new TextEncoder().encode(yamlString);
         } catch (error) {
             logger.error('DeepnoteSerializer: Error serializing Deepnote notebook', error);
@@ -162,25 +187,91 @@ export class DeepnoteNotebookSerializer implements NotebookSerializer {
     }
 
     /**
-     * Finds the notebook ID to deserialize by checking the manager's stored selection.
-     * The notebook ID should be set via selectNotebookForProject before opening the document.
-     * @param projectId The project ID to find a notebook for
+     * Checks whether the blocks of a notebook differ from the stored project in anything
+     * other than outputs and execution counts.
+     */
+    private haveBlocksChanged(project: DeepnoteFile, notebookId: string, blocks: DeepnoteBlock[]): boolean {
+        const notebook = project.project.notebooks.find((nb) => nb.id === notebookId);
+
+        // Stored blocks come straight from the file, round-trip them so they compare equal to unchanged cells.
+        const previousBlocks = this.converter.convertCellsToBlocks(
+            this.converter.convertBlocksToCells(notebook?.blocks ?? [])
+        );
+
+        return (
+            previousBlocks.length !== blocks.length ||
+            blocks.some(
+                (block, index) => block.id !== previousBlocks[index].id || !areBlocksEqual(block, previousBlocks[index])
+            )
+        );
+    }
+
+    /**
+     * Finds the URI of an open project file, used to resolve folder-level settings.
+     */
+    private findProjectFileUri(projectId: string): Uri | undefined {
+        return workspace.notebookDocuments.find(
+            (doc) => doc.notebookType === 'deepnote' && doc.metadata?.deepnoteProjectId === projectId
+        )?.uri;
+    }
+
+    /**
+     * Finds the notebook ID to deserialize. VS Code does not tell the serializer which document it
+     * deserializes, so the ID is read from the `?notebook=` query of the document that is most likely
+     * being deserialized: a document the explorer is opening, the active notebook (reverted), a tab
+     * restored from the previous session, or the only open notebook of the file (reloaded from disk).
+     * The last selection of the project is the fallback.
+     * @param file The Deepnote file being deserialized
      * @returns The notebook ID to deserialize, or undefined if none found
      */
-    findCurrentNotebookId(projectId: string): string | undefined {
-        // Check the manager's stored selection - this should be set when opening from explorer
-        const storedNotebookId = this.notebookManager.getTheSelectedNotebookForAProject(projectId);
+    findCurrentNotebookId(file: DeepnoteFile): string | undefined {
+        const notebookIds = new Set(file.project.notebooks.map((notebook) => notebook.id));
+        const isNotebookOfFile = (uri: Uri) => {
+            const notebookId = getNotebookIdFromUri(uri);
+
+            return notebookId !== undefined && notebookIds.has(notebookId);
+        };
+
+        const openingUri = this.notebookManager.takeOpeningNotebookUri((uri) => isNotebookOfFile(Uri.parse(uri)));
 
-        if (storedNotebookId) {
-            return storedNotebookId;
+        if (openingUri) {
+            return getNotebookIdFromUri(Uri.parse(openingUri));
         }
 
-        // Fallback: Check if there's an active notebook document for this project
-        const activeNotebook = workspace.notebookDocuments.find(
-            (doc) => doc.notebookType === 'deepnote' && doc.metadata?.deepnoteProjectId === projectId
+        const activeNotebook = window.activeNotebookEditor?.notebook;
+
+        if (activeNotebook?.notebookType === 'deepnote' && isNotebookOfFile(activeNotebook.uri)) {
+            return getNotebookIdFromUri(activeNotebook.uri);
+        }
+
+        // Tabs restored after a reload are deserialized before their documents are open
+        const openNotebooks = workspace.notebookDocuments.filter(
+            (doc) => doc.notebookType === 'deepnote' && isNotebookOfFile(doc.uri)
         );
+        const openUris = new Set(openNotebooks.map((doc) => doc.uri.toString()));
+        const restoredTab = window.tabGroups.all
+            .flatMap((group) => group.tabs)
+            .map((tab) => tab.input)
+            .find(
+                (input): input is TabInputNotebook =>
+                    input instanceof TabInputNotebook &&
+                    input.notebookType === 'deepnote' &&
+                    !openUris.has(input.uri.toString()) &&
+                    isNotebookOfFile(input.uri)
+            );
 
-        return activeNotebook?.metadata?.deepnoteNotebookId;
+        if (restoredTab) {
+            return getNotebookIdFromUri(restoredTab.uri);
+        }
+
+        // A notebook reloaded from disk, when it is the only open notebook of the file
+        if (openNotebooks.length === 1) {
+            return getNotebookIdFromUri(openNotebooks[0].uri);
+        }
+
+        const storedNotebookId = this.notebookManager.getTheSelectedNotebookForAProject(file.project.id);
+
+        return storedNotebookId && notebookIds.has(storedNotebookId) ? storedNotebookId : undefined;
     }
 
     /**
@@ -205,3 +296,10 @@ export class DeepnoteNotebookSerializer implements NotebookSerializer {
         return sortedNotebooks[0];
     }
 }
+
+/**
+ * Notebooks of a project are opened with a `?notebook=` query naming the notebook of the file.
+ */
+function getNotebookIdFromUri(uri: Uri): string | undefined {
+    return new URLSearchParams(uri.query).get('notebook') ?? undefined;
+}
@@ -1,14 +1,25 @@
 import { assert } from 'chai';
 import * as yaml from 'js-yaml';
+import { anything, instance, mock, when } from 'ts-mockito';
+import {
+    TabInputNotebook,
+    Uri,
+    type NotebookDocument,
+    type NotebookEditor,
+    type TabGroups,
+    type WorkspaceConfiguration
+} from 'vscode';
 
 import { DeepnoteNotebookSerializer } from './deepnoteSerializer';
 import { DeepnoteNotebookManager } from './deepnoteNotebookManager';
 import { DeepnoteDataConverter } from './deepnoteDataConverter';
 import type { DeepnoteFile, DeepnoteProject } from '../../platform/deepnote/deepnoteTypes';
+import { mockedVSCodeNamespaces, resetVSCodeMocks } from '../../test/vscode-mock';
 
 suite('DeepnoteNotebookSerializer', () => {
     let serializer: DeepnoteNotebookSerializer;
     let manager: DeepnoteNotebookManager;
+    let serializationSettings: Record<string, unknown>;
 
     const mockProject: DeepnoteProject = {
         metadata: {
@@ -56,8 +67,25 @@ suite('DeepnoteNotebookSerializer', () => {
     };
 
     setup(() => {
+        resetVSCodeMocks();
+
         manager = new DeepnoteNotebookManager();
         serializer = new DeepnoteNotebookSerializer(manager);
+
+        serializationSettings = {};
+        const serializationConfig = mock<WorkspaceConfiguration>();
+        when(serializationConfig.get(anything(), anything())).thenCall(
+            (key: string, defaultValue: unknown) => serializationSettings[key] ?? defaultValue
+        );
+        when(mockedVSCodeNamespaces.workspace.getConfiguration('deepnote.serialization', anything())).thenReturn(
+            instance(serializationConfig)
+        );
+        when(mockedVSCodeNamespaces.window.tabGroups).thenReturn({ all: [] } as unknown as TabGroups);
+        when(mockedVSCodeNamespaces.window.activeNotebookEditor).thenReturn(undefined);
+    });
+
+    teardown(() => {
+        resetVSCodeMocks();
     });
 
     /**
@@ -196,40 +224,228 @@ project:
             assert.include(yamlString, 'project-123');
             assert.include(yamlString, 'notebook-1');
         });
+        test('should keep changes saved from another notebook of the same project', async () => {
+            manager.storeOriginalProject('project-123', mockProject, 'notebook-1');
+
+            await serializer.serializeNotebook(
+                {
+                    cells: [{ kind: 2, value: 'print("first")', languageId: 'python', metadata: {} }],
+                    metadata: { deepnoteProjectId: 'project-123', deepnoteNotebookId: 'notebook-1' }
+                } as any,
+                {} as any
+            );
+
+            const result = await serializer.serializeNotebook(
+                {
+                    cells: [{ kind: 2, value: 'print("second")', languageId: 'python', metadata: {} }],
+                    metadata: { deepnoteProjectId: 'project-123', deepnoteNotebookId: 'notebook-2' }
+                } as any,
+                {} as any
+            );
+
+            const savedProject = yaml.load(new TextDecoder().decode(result)) as DeepnoteFile;
+
+            assert.strictEqual(savedProject.project.notebooks[0].blocks[0].content, 'print("first")');
+            assert.strictEqual(savedProject.project.notebooks[1].blocks[0].content, 'print("second")');
+        });
+
+        test('should throw error when notebook is not in project', async () => {
+            manager.storeOriginalProject('project-123', mockProject, 'notebook-1');
+
+            await assert.isRejected(
+                serializer.serializeNotebook(
+                    {
+                        cells: [],
+                        metadata: { deepnoteProjectId: 'project-123', deepnoteNotebookId: 'unknown-notebook' }
+                    },
+                    {} as any
+                ),
+                /Notebook with ID unknown-notebook not found in project/
+            );
+        });
+    });
+
+    suite('clean serialization mode', () => {
+        function createUnchangedNotebookData(notebookIndex = 0) {
+            const notebook = mockProject.project.notebooks[notebookIndex];
+
+            return {
+                cells: serializer.getConverter().convertBlocksToCells(notebook.blocks),
+                metadata: { deepnoteProjectId: 'project-123', deepnoteNotebookId: notebook.id }
+            };
+        }
+
+        async function save(data: ReturnType<typeof createUnchangedNotebookData>) {
+            const result = await serializer.serializeNotebook(data as any, {} as any);
+
+            return new TextDecoder().decode(result);
+        }
+
+        test('should update modifiedAt on every save by default', async () => {
+            manager.storeOriginalProject('project-123', mockProject, 'notebook-1');
+
+            const saved = yaml.load(await save(createUnchangedNotebookData())) as DeepnoteFile;
+
+            assert.notStrictEqual(saved.metadata.modifiedAt, '2023-01-02T00:00:00Z');
+        });
+
+        test('should keep modifiedAt when no block changed', async () => {
+            serializationSettings.mode = 'clean';
+            manager.storeOriginalProject('project-123', mockProject, 'notebook-1');
+
+            const saved = yaml.load(await save(createUnchangedNotebookData())) as DeepnoteFile;
+
+            assert.strictEqual(saved.metadata.modifiedAt, '2023-01-02T00:00:00Z');
+        });
+
+        test('should update modifiedAt when a block changed', async () => {
+            serializationSettings.mode = 'clean';
+            manager.storeOriginalProject('project-123', mockProject, 'notebook-1');
+
+            const data = createUnchangedNotebookData();
+            data.cells[0].value = 'print("changed")';
+
+            const saved = yaml.load(await save(data)) as DeepnoteFile;
+
+            assert.notStrictEqual(saved.metadata.modifiedAt, '2023-01-02T00:00:00Z');
+        });
+
+        test('should write identical files when saving twice without changes', async () => {
+            serializationSettings.mode = 'clean';
+            manager.storeOriginalProject('project-123', mockProject, 'notebook-1');
+
+            const first = await save(createUnchangedNotebookData());
+            const second = await save(createUnchangedNotebookData());
+
+            assert.strictEqual(second, first);
+        });
+
+        test('should write keys in sorted order', async () => {
+            serializationSettings.mode = 'clean';
+            manager.storeOriginalProject('project-123', mockProject, 'notebook-1');
+
+            const topLevelKeys = (await save(createUnchangedNotebookData()))
+                .split('\n')
+                .filter((line) => /^\w/.test(line))
+                .map((line) => line.split(':')[0]);
+
+            assert.deepStrictEqual(topLevelKeys, ['metadata', 'project', 'version']);
+        });
+
+        test('should strip outputs and execution counts of all notebooks', async () => {
+            serializationSettings.stripOutputs = true;
+            serializationSettings.stripExecutionCounts = true;
+
+            const projectWithOutputs = structuredClone(mockProject);
+            projectWithOutputs.project.notebooks[1].blocks[0].executionCount = 3;
+            projectWithOutputs.project.notebooks[1].blocks[0].outputs = [
+                { output_type: 'stream', name: 'stdout', text: 'hello' }
+            ];
+            manager.storeOriginalProject('project-123', projectWithOutputs, 'notebook-1');
+
+            const data = createUnchangedNotebookData();
+            data.cells[0].executionSummary = { executionOrder: 5 };
+
+            const saved = yaml.load(await save(data)) as DeepnoteFile;
+
+            for (const notebook of saved.project.notebooks) {
+                for (const block of notebook.blocks) {
+                    assert.isUndefined(block.outputs);
+                    assert.isUndefined(block.executionCount);
+                }
+            }
+        });
+
+        test('should not strip the outputs of the stored project', async () => {
+            serializationSettings.stripOutputs = true;
+
+            const projectWithOutputs = structuredClone(mockProject);
+            projectWithOutputs.project.notebooks[1].blocks[0].outputs = [
+                { output_type: 'stream', name: 'stdout', text: 'hello' }
+            ];
+            manager.storeOriginalProject('project-123', projectWithOutputs, 'notebook-1');
+
+            await save(createUnchangedNotebookData());
+
+            assert.deepStrictEqual(manager.getOriginalProject('project-123')?.project.notebooks[1].blocks[0].outputs, [
+                { output_type: 'stream', name: 'stdout', text: 'hello' }
+            ]);
+        });
+
+        test('should apply per-project overrides', async () => {
+            serializationSettings.projectOverrides = { 'project-123': { mode: 'clean' } };
+            manager.storeOriginalProject('project-123', mockProject, 'notebook-1');
+
+            const saved = yaml.load(await save(createUnchangedNotebookData())) as DeepnoteFile;
+
+            assert.strictEqual(saved.metadata.modifiedAt, '2023-01-02T00:00:00Z');
+        });
     });
 
     suite('findCurrentNotebookId', () => {
-        test('should return stored notebook ID when available', () => {
-            manager.selectNotebookForProject('project-123', 'notebook-456');
+        const fileUri = Uri.file('/work/project.deepnote');
+
+        test('should read the notebook ID from the URI being opened', () => {
+            const opening = manager.beginOpeningNotebook(fileUri.with({ query: 'notebook=notebook-2' }).toString());
 
-            const result = serializer.findCurrentNotebookId('project-123');
+            assert.strictEqual(serializer.findCurrentNotebookId(mockProject), 'notebook-2');
 
-            assert.strictEqual(result, 'notebook-456');
+            opening.dispose();
         });
 
-        test('should return undefined for unknown project', () => {
-            const result = serializer.findCurrentNotebookId('unknown-project');
+        test('should deserialize each notebook being opened once', () => {
+            manager.beginOpeningNotebook(fileUri.with({ query: 'notebook=notebook-1' }).toString());
+            manager.beginOpeningNotebook(fileUri.with({ query: 'notebook=notebook-2' }).toString());
 
-            assert.strictEqual(result, undefined);
+            assert.strictEqual(serializer.findCurrentNotebookId(mockProject), 'notebook-1');
+            assert.strictEqual(serializer.findCurrentNotebookId(mockProject), 'notebook-2');
         });
 
-        test('should prioritize stored selection over fallback', () => {
-            manager.selectNotebookForProject('project-123', 'stored-notebook');
+        test('should ignore URIs of notebooks of other files', () => {
+            const opening = manager.beginOpeningNotebook(fileUri.with({ query: 'notebook=other-notebook' }).toString());
 
-            const result = serializer.findCurrentNotebookId('project-123');
+            assert.strictEqual(serializer.findCurrentNotebookId(mockProject), undefined);
 
-            assert.strictEqual(result, 'stored-notebook');
+            opening.dispose();
         });
 
-        test('should handle multiple projects independently', () => {
-            manager.selectNotebookForProject('project-1', 'notebook-1');
-            manager.selectNotebookForProject('project-2', 'notebook-2');
+        test('should use the notebook of the active editor when it is reverted', () => {
+            manager.selectNotebookForProject('project-123', 'notebook-1');
+            when(mockedVSCodeNamespaces.window.activeNotebookEditor).thenReturn({
+                notebook: { notebookType: 'deepnote', uri: fileUri.with({ query: 'notebook=notebook-2' }) }
+            } as unknown as NotebookEditor);
+
+            assert.strictEqual(serializer.findCurrentNotebookId(mockProject), 'notebook-2');
+        });
+
+        test('should use the notebook of a tab restored after a reload', () => {
+            const input = new TabInputNotebook(fileUri.with({ query: 'notebook=notebook-2' }), 'deepnote');
+            when(mockedVSCodeNamespaces.window.tabGroups).thenReturn({
+                all: [{ tabs: [{ input }] }]
+            } as unknown as TabGroups);
+
+            assert.strictEqual(serializer.findCurrentNotebookId(mockProject), 'notebook-2');
+        });
+
+        test('should use the only open notebook of the file when it is reloaded', () => {
+            manager.selectNotebookForProject('project-123', 'notebook-1');
+            when(mockedVSCodeNamespaces.workspace.notebookDocuments).thenReturn([
+                { notebookType: 'deepnote', uri: fileUri.with({ query: 'notebook=notebook-2' }) } as NotebookDocument
+            ]);
+
+            assert.strictEqual(serializer.findCurrentNotebookId(mockProject), 'notebook-2');
+        });
+
+        test('should fall back to the stored selection', () => {
+            manager.selectNotebookForProject('project-123', 'notebook-2');
+
+            assert.strictEqual(serializer.findCurrentNotebookId(mockProject), 'notebook-2');
+        });
 
-            const result1 = serializer.findCurrentNotebookId('project-1');
-            const result2 = serializer.findCurrentNotebookId('project-2');
+        test('should ignore a stored selection the file does not contain', () => {
+            manager.selectNotebookForProject('project-123', 'deleted-notebook');
 
-            assert.strictEqual(result1, 'notebook-1');
-            assert.strictEqual(result2, 'notebook-2');
+            assert.strictEqual(serializer.findCurrentNotebookId(mockProject), undefined);
         });
     });
 
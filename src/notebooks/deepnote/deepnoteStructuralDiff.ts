@@ -0,0 +1,282 @@
+import type { DeepnoteBlock, DeepnoteFile, DeepnoteNotebook } from '../../platform/deepnote/deepnoteTypes';
+import { compareSortingKeys } from './deepnoteBlockMerge';
+import { DeepnoteDataConverter } from './deepnoteDataConverter';
+import {
+    DeepnoteBigNumberMetadataSchema,
+    DeepnoteInputMetadataSchemas,
+    DeepnoteSqlMetadataSchema
+} from './deepnoteSchemas';
+
+export interface DeepnoteFieldChange {
+    field: string;
+    before: string | undefined;
+    after: string | undefined;
+}
+
+export interface DeepnoteBlockChange {
+    blockId: string;
+    blockType: string;
+    kind: 'added' | 'removed' | 'changed';
+    /** The block changed its position relative to the blocks present in both revisions. */
+    moved: boolean;
+    /** Source of the block as shown in the cell, `undefined` for blocks that are edited through their metadata. */
+    baseSource: string | undefined;
+    targetSource: string | undefined;
+    fieldChanges: DeepnoteFieldChange[];
+}
+
+export interface DeepnoteNotebookDiff {
+    notebookId: string;
+    name: string;
+    kind: 'added' | 'removed' | 'changed' | 'unchanged';
+    previousName: string | undefined;
+    blockChanges: DeepnoteBlockChange[];
+}
+
+export interface DeepnoteLineChange {
+    kind: 'added' | 'removed' | 'unchanged';
+    line: string;
+}
+
+/**
+ * What a block means to the user: the source shown in its cell and the settings that
+ * are edited outside of the cell source, keyed by metadata field.
+ */
+interface SemanticBlock {
+    id: string;
+    type: string;
+    source: string | undefined;
+    fields: Record<string, string>;
+}
+
+const converter = new DeepnoteDataConverter();
+
+/**
+ * Compares two revisions of a .deepnote file block by block.
+ *
+ * Notebooks and blocks are matched by ID. Blocks are compared by what the user sees: the cell
+ * source produced by the converter and, for SQL, input, big number and visualization blocks,
+ * the fields of their metadata schema, so that pocket and other bookkeeping metadata is ignored.
+ *
+ * @param base The older revision
+ * @param target The newer revision
+ * @returns One entry per notebook in either revision, in the order of the target revision
+ */
+export function diffDeepnoteFiles(base: DeepnoteFile, target: DeepnoteFile): DeepnoteNotebookDiff[] {
+    const baseNotebooks = base.project?.notebooks ?? [];
+    const targetNotebooks = target.project?.notebooks ?? [];
+    const baseById = new Map(baseNotebooks.map((notebook) => [notebook.id, notebook]));
+    const targetIds = new Set(targetNotebooks.map((notebook) => notebook.id));
+
+    const diffs = targetNotebooks.map((notebook) => diffNotebooks(baseById.get(notebook.id), notebook));
+
+    for (const notebook of baseNotebooks) {
+        if (!targetIds.has(notebook.id)) {
+            diffs.push(diffNotebooks(notebook, undefined));
+        }
+    }
+
+    return diffs;
+}
+
+/**
+ * Computes a line diff of two texts, based on their longest common subsequence of lines.
+ */
+export function diffLines(before: string, after: string): DeepnoteLineChange[] {
+    const beforeLines = before.split(/\r?\n/);
+    const afterLines = after.split(/\r?\n/);
+    const common = longestCommonSubsequence(beforeLines, afterLines);
+    const changes: DeepnoteLineChange[] = [];
+
+    let i = 0;
+    let j = 0;
+
+    for (const [commonI, commonJ] of common) {
+        for (; i < commonI; i++) {
+            changes.push({ kind: 'removed', line: beforeLines[i] });
+        }
+
+        for (; j < commonJ; j++) {
+            changes.push({ kind: 'added', line: afterLines[j] });
+        }
+
+        changes.push({ kind: 'unchanged', line: beforeLines[i] });
+        i++;
+        j++;
+    }
+
+    for (; i < beforeLines.length; i++) {
+        changes.push({ kind: 'removed', line: beforeLines[i] });
+    }
+
+    for (; j < afterLines.length; j++) {
+        changes.push({ kind: 'added', line: afterLines[j] });
+    }
+
+    return changes;
+}
+
+function diffNotebooks(base: DeepnoteNotebook | undefined, target: DeepnoteNotebook | undefined): DeepnoteNotebookDiff {
+    const notebook = (target ?? base) as DeepnoteNotebook;
+    const baseBlocks = toSemanticBlocks(base?.blocks ?? []);
+    const targetBlocks = toSemanticBlocks(target?.blocks ?? []);
+    const baseById = new Map(baseBlocks.map((block) => [block.id, block]));
+    const targetIds = new Set(targetBlocks.map((block) => block.id));
+
+    const commonBaseOrder = baseBlocks.filter((block) => targetIds.has(block.id)).map((block) => block.id);
+    const commonTargetOrder = targetBlocks.filter((block) => baseById.has(block.id)).map((block) => block.id);
+    const unmovedIds = new Set(
+        longestCommonSubsequence(commonBaseOrder, commonTargetOrder).map(([i]) => commonBaseOrder[i])
+    );
+
+    const blockChanges: DeepnoteBlockChange[] = [];
+
+    for (const targetBlock of targetBlocks) {
+        const baseBlock = baseById.get(targetBlock.id);
+
+        if (!baseBlock) {
+            blockChanges.push(createBlockChange('added', undefined, targetBlock, false));
+            continue;
+        }
+
+        const moved = !unmovedIds.has(targetBlock.id);
+        const change = createBlockChange('changed', baseBlock, targetBlock, moved);
+
+        if (moved || change.fieldChanges.length > 0 || baseBlock.source !== targetBlock.source) {
+            blockChanges.push(change);
+        }
+    }
+
+    // Removed blocks are listed after the blocks that are still there, in their original order.
+    for (const baseBlock of baseBlocks) {
+        if (!targetIds.has(baseBlock.id)) {
+            blockChanges.push(createBlockChange('removed', baseBlock, undefined, false));
+        }
+    }
+
+    const renamed = base !== undefined && target !== undefined && base.name !== target.name;
+
+    return {
+        notebookId: notebook.id,
+        name: notebook.name,
+        kind: !base ? 'added' : !target ? 'removed' : blockChanges.length > 0 || renamed ? 'changed' : 'unchanged',
+        previousName: renamed ? base.name : undefined,
+        blockChanges
+    };
+}
+
+function createBlockChange(
+    kind: DeepnoteBlockChange['kind'],
+    base: SemanticBlock | undefined,
+    target: SemanticBlock | undefined,
+    moved: boolean
+): DeepnoteBlockChange {
+    const block = (target ?? base) as SemanticBlock;
+    const fields = [...new Set([...Object.keys(base?.fields ?? {}), ...Object.keys(target?.fields ?? {})])];
+
+    return {
+        blockId: block.id,
+        blockType: block.type,
+        kind,
+        moved,
+        baseSource: base?.source,
+        targetSource: target?.source,
+        fieldChanges: fields
+            .map((field) => ({ field, before: base?.fields[field], after: target?.fields[field] }))
+            .filter((change) => change.before !== change.after)
+    };
+}
+
+function toSemanticBlocks(blocks: DeepnoteBlock[]): SemanticBlock[] {
+    const sorted = blocks.slice().sort((a, b) => compareSortingKeys(a.sortingKey ?? '', b.sortingKey ?? ''));
+    const cells = converter.convertBlocksToCells(sorted);
+
+    return sorted.map((block, index) => {
+        const fields = getSemanticFields(block);
+        const isMetadataOnly = block.type in DeepnoteInputMetadataSchemas || block.type === 'visualization';
+
+        return {
+            id: block.id,
+            type: block.type,
+            source: isMetadataOnly ? undefined : cells[index].value,
+            fields: { type: block.type, ...fields }
+        };
+    });
+}
+
+function getSemanticFields(block: DeepnoteBlock): Record<string, string> {
+    const metadata = block.metadata ?? {};
+
+    if (block.type === 'visualization') {
+        return toFieldStrings({
+            deepnote_variable_name: metadata.deepnote_variable_name,
+            deepnote_visualization_spec: metadata.deepnote_visualization_spec,
+            deepnote_chart_filter: metadata.deepnote_chart_filter?.advancedFilters
+        });
+    }
+
+    const schema =
+        block.type === 'sql'
+            ? DeepnoteSqlMetadataSchema
+            : block.type === 'big-number'
+            ? DeepnoteBigNumberMetadataSchema
+            : DeepnoteInputMetadataSchemas[block.type as keyof typeof DeepnoteInputMetadataSchemas];
+
+    if (!schema) {
+        return {};
+    }
+
+    const result = schema.safeParse(metadata);
+
+    // Invalid metadata is still compared, field by field as it is stored.
+    return toFieldStrings(result.success ? result.data : pickSchemaFields(metadata, Object.keys(schema.shape)));
+}
+
+function pickSchemaFields(metadata: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+    return Object.fromEntries(keys.map((key) => [key, metadata[key]]));
+}
+
+function toFieldStrings(fields: Record<string, unknown>): Record<string, string> {
+    const result: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(fields)) {
+        if (value === undefined || value === null) {
+            continue;
+        }
+
+        result[key] = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+    }
+
+    return result;
+}
+
+/**
+ * Returns the index pairs of a longest common subsequence of two sequences.
+ */
+function longestCommonSubsequence<T>(a: readonly T[], b: readonly T[]): [number, number][] {
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const pairs: [number, number][] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            pairs.push([i, j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+
+    return pairs;
+}
@@ -0,0 +1,191 @@
+import { assert } from 'chai';
+
+import type { DeepnoteBlock, DeepnoteFile, DeepnoteNotebook } from '../../platform/deepnote/deepnoteTypes';
+import { diffDeepnoteFiles, diffLines } from './deepnoteStructuralDiff';
+
+suite('deepnoteStructuralDiff', () => {
+    function createBlock(id: string, sortingKey: string, overrides: Partial<DeepnoteBlock> = {}): DeepnoteBlock {
+        return {
+            id,
+            sortingKey,
+            blockGroup: `group-${id}`,
+            type: 'code',
+            content: `print("${id}")`,
+            metadata: {},
+            ...overrides
+        };
+    }
+
+    function createNotebook(blocks: DeepnoteBlock[], overrides: Partial<DeepnoteNotebook> = {}): DeepnoteNotebook {
+        return { id: 'notebook-1', name: 'Notebook', blocks, executionMode: 'block', isModule: false, ...overrides };
+    }
+
+    function createFile(...notebooks: DeepnoteNotebook[]): DeepnoteFile {
+        return {
+            version: '1.0',
+            metadata: { createdAt: '2024-01-01T00:00:00.000Z' },
+            project: { id: 'project-1', name: 'Project', notebooks }
+        };
+    }
+
+    test('should report an unchanged notebook', () => {
+        const notebook = createNotebook([createBlock('a', 'a0'), createBlock('b', 'a1')]);
+
+        const [diff] = diffDeepnoteFiles(createFile(notebook), createFile(structuredClone(notebook)));
+
+        assert.strictEqual(diff.kind, 'unchanged');
+        assert.deepStrictEqual(diff.blockChanges, []);
+    });
+
+    test('should ignore outputs, execution counts and block groups', () => {
+        const base = createNotebook([createBlock('a', 'a0')]);
+        const target = createNotebook([
+            createBlock('a', 'a0', {
+                blockGroup: 'other',
+                executionCount: 4,
+                outputs: [{ output_type: 'stream', name: 'stdout', text: 'a' }]
+            })
+        ]);
+
+        const [diff] = diffDeepnoteFiles(createFile(base), createFile(target));
+
+        assert.strictEqual(diff.kind, 'unchanged');
+    });
+
+    test('should report added, removed and edited blocks', () => {
+        const base = createNotebook([createBlock('a', 'a0'), createBlock('b', 'a1')]);
+        const target = createNotebook([
+            createBlock('a', 'a0', { content: 'print("changed")' }),
+            createBlock('c', 'a2')
+        ]);
+
+        const [diff] = diffDeepnoteFiles(createFile(base), createFile(target));
+
+        assert.strictEqual(diff.kind, 'changed');
+        assert.deepStrictEqual(
+            diff.blockChanges.map((change) => [change.blockId, change.kind, change.moved]),
+            [
+                ['a', 'changed', false],
+                ['c', 'added', false],
+                ['b', 'removed', false]
+            ]
+        );
+        assert.strictEqual(diff.blockChanges[0].baseSource, 'print("a")');
+        assert.strictEqual(diff.blockChanges[0].targetSource, 'print("changed")');
+        assert.deepStrictEqual(diff.blockChanges[0].fieldChanges, []);
+    });
+
+    test('should report only the block that moved', () => {
+        const base = createNotebook([createBlock('a', 'a0'), createBlock('b', 'a1'), createBlock('c', 'a2')]);
+        const target = createNotebook([createBlock('a', 'a1'), createBlock('b', 'a2'), createBlock('c', 'a0')]);
+
+        const [diff] = diffDeepnoteFiles(createFile(base), createFile(target));
+
+        assert.deepStrictEqual(
+            diff.blockChanges.map((change) => [change.blockId, change.moved]),
+            [['c', true]]
+        );
+        assert.strictEqual(diff.blockChanges[0].baseSource, diff.blockChanges[0].targetSource);
+    });
+
+    test('should diff SQL blocks by query and metadata fields', () => {
+        const sqlBlock = (integrationId: string) =>
+            createBlock('q', 'a0', {
+                type: 'sql',
+                content: 'SELECT 1',
+                metadata: {
+                    sql_integration_id: integrationId,
+                    deepnote_variable_name: 'df',
+                    __deepnotePocket: { sortingKey: integrationId }
+                }
+            });
+
+        const [diff] = diffDeepnoteFiles(
+            createFile(createNotebook([sqlBlock('postgres-1')])),
+            createFile(createNotebook([sqlBlock('snowflake-1')]))
+        );
+
+        assert.strictEqual(diff.blockChanges.length, 1);
+        assert.strictEqual(diff.blockChanges[0].baseSource, 'SELECT 1');
+        assert.deepStrictEqual(diff.blockChanges[0].fieldChanges, [
+            { field: 'sql_integration_id', before: 'postgres-1', after: 'snowflake-1' }
+        ]);
+    });
+
+    test('should diff input blocks by their metadata fields only', () => {
+        const inputBlock = (value: string) =>
+            createBlock('i', 'a0', {
+                type: 'input-text',
+                content: '',
+                metadata: { deepnote_variable_name: 'name', deepnote_variable_value: value }
+            });
+
+        const [diff] = diffDeepnoteFiles(
+            createFile(createNotebook([inputBlock('Alice')])),
+            createFile(createNotebook([inputBlock('Bob')]))
+        );
+
+        const [change] = diff.blockChanges;
+
+        assert.isUndefined(change.baseSource);
+        assert.isUndefined(change.targetSource);
+        assert.deepStrictEqual(change.fieldChanges, [
+            { field: 'deepnote_variable_value', before: 'Alice', after: 'Bob' }
+        ]);
+    });
+
+    test('should diff visualization blocks by spec', () => {
+        const chartBlock = (mark: string) =>
+            createBlock('v', 'a0', {
+                type: 'visualization',
+                content: '',
+                metadata: { deepnote_variable_name: 'df', deepnote_visualization_spec: { mark } }
+            });
+
+        const [diff] = diffDeepnoteFiles(
+            createFile(createNotebook([chartBlock('bar')])),
+            createFile(createNotebook([chartBlock('line')]))
+        );
+
+        assert.deepStrictEqual(
+            diff.blockChanges[0].fieldChanges.map((change) => change.field),
+            ['deepnote_visualization_spec']
+        );
+    });
+
+    test('should report added, removed and renamed notebooks', () => {
+        const kept = createNotebook([createBlock('a', 'a0')]);
+        const removed = createNotebook([createBlock('b', 'a0')], { id: 'notebook-2', name: 'Old' });
+        const added = createNotebook([createBlock('c', 'a0')], { id: 'notebook-3', name: 'New' });
+
+        const diffs = diffDeepnoteFiles(
+            createFile(kept, removed),
+            createFile({ ...structuredClone(kept), name: 'Renamed' }, added)
+        );
+
+        assert.deepStrictEqual(
+            diffs.map((diff) => [diff.notebookId, diff.kind]),
+            [
+                ['notebook-1', 'changed'],
+                ['notebook-3', 'added'],
+                ['notebook-2', 'removed']
+            ]
+        );
+        assert.strictEqual(diffs[0].previousName, 'Notebook');
+        assert.deepStrictEqual(
+            diffs[2].blockChanges.map((change) => change.kind),
+            ['removed']
+        );
+    });
+
+    suite('diffLines', () => {
+        test('should mark added and removed lines', () => {
+            assert.deepStrictEqual(diffLines('a\nb\nc', 'a\nc\nd'), [
+                { kind: 'unchanged', line: 'a' },
+                { kind: 'removed', line: 'b' },
+                { kind: 'unchanged', line: 'c' },
+                { kind: 'added', line: 'd' }
+            ]);
+        });
+    });
+});
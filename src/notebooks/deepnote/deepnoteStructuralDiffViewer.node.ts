@@ -0,0 +1,282 @@
+import { inject, injectable } from 'inversify';
+import * as yaml from 'js-yaml';
+import * as path from '../../platform/vscode-path/path';
+import { commands, l10n, TextDocumentContentProvider, Uri, window, workspace } from 'vscode';
+
+import { IExtensionSyncActivationService } from '../../platform/activation/types';
+import { Commands } from '../../platform/common/constants';
+import { IProcessServiceFactory } from '../../platform/common/process/types.node';
+import { IDisposableRegistry } from '../../platform/common/types';
+import { logger } from '../../platform/logging';
+import type { DeepnoteFile } from '../../platform/deepnote/deepnoteTypes';
+import { DeepnoteBlockChange, DeepnoteNotebookDiff, diffDeepnoteFiles, diffLines } from './deepnoteStructuralDiff';
+import { DeepnoteTreeItem } from './deepnoteTreeItem';
+
+/**
+ * URI scheme of the read-only Markdown documents showing a structural diff.
+ */
+export const DEEPNOTE_DIFF_SCHEME = 'deepnote-diff';
+
+/**
+ * A revision of a .deepnote file: a git ref, or `undefined` for the working tree.
+ */
+type Revision = string | undefined;
+
+/**
+ * Shows the differences between two revisions of a .deepnote file per notebook and block,
+ * instead of the raw YAML diff. Revisions are read with the git CLI.
+ */
+@injectable()
+export class DeepnoteStructuralDiffViewer implements IExtensionSyncActivationService, TextDocumentContentProvider {
+    /** Rendered diffs, keyed by the URI of their document. */
+    private readonly documents = new Map<string, string>();
+
+    constructor(
+        @inject(IDisposableRegistry) private readonly disposables: IDisposableRegistry,
+        @inject(IProcessServiceFactory) private readonly processServiceFactory: IProcessServiceFactory
+    ) {}
+
+    public activate(): void {
+        this.disposables.push(workspace.registerTextDocumentContentProvider(DEEPNOTE_DIFF_SCHEME, this));
+        this.disposables.push(
+            commands.registerCommand(Commands.CompareDeepnoteWithHead, (target?: Uri | DeepnoteTreeItem) =>
+                this.compareWithHead(target)
+            )
+        );
+        this.disposables.push(
+            commands.registerCommand(Commands.CompareDeepnoteRevisions, (target?: Uri | DeepnoteTreeItem) =>
+                this.compareRevisions(target)
+            )
+        );
+    }
+
+    public provideTextDocumentContent(uri: Uri): string {
+        return this.documents.get(uri.toString()) ?? '';
+    }
+
+    public async compareWithHead(target?: Uri | DeepnoteTreeItem): Promise<void> {
+        const fileUri = this.resolveFileUri(target);
+
+        if (fileUri) {
+            await this.showDiff(fileUri, 'HEAD', undefined);
+        }
+    }
+
+    public async compareRevisions(target?: Uri | DeepnoteTreeItem): Promise<void> {
+        const fileUri = this.resolveFileUri(target);
+
+        if (!fileUri) {
+            return;
+        }
+
+        const baseRef = await window.showInputBox({
+            prompt: l10n.t('Git revision to compare from'),
+            value: 'HEAD~1',
+            validateInput: validateRef
+        });
+
+        if (!baseRef) {
+            return;
+        }
+
+        const targetRef = await window.showInputBox({
+            prompt: l10n.t('Git revision to compare to (leave empty for the working tree)'),
+            value: 'HEAD',
+            validateInput: (value) => (value ? validateRef(value) : undefined)
+        });
+
+        if (targetRef === undefined) {
+            return;
+        }
+
+        await this.showDiff(fileUri, baseRef, targetRef || undefined);
+    }
+
+    /**
+     * Renders the structural diff of two revisions of a file as Markdown.
+     * @param fileUri The .deepnote file
+     * @param baseRef Git ref of the older revision
+     * @param targetRef Git ref of the newer revision, or `undefined` for the working tree
+     */
+    public async renderDiff(fileUri: Uri, baseRef: Revision, targetRef: Revision): Promise<string> {
+        const [base, target] = await Promise.all([
+            this.readRevision(fileUri, baseRef),
+            this.readRevision(fileUri, targetRef)
+        ]);
+
+        return formatDiff(
+            diffDeepnoteFiles(base, target),
+            path.basename(fileUri.path),
+            formatRevision(baseRef),
+            formatRevision(targetRef)
+        );
+    }
+
+    private async showDiff(fileUri: Uri, baseRef: Revision, targetRef: Revision): Promise<void> {
+        let markdown: string;
+
+        try {
+            markdown = await this.renderDiff(fileUri, baseRef, targetRef);
+        } catch (error) {
+            logger.error('DeepnoteStructuralDiffViewer: Failed to compare revisions', error);
+            void window.showErrorMessage(
+                l10n.t('Failed to compare revisions: {0}', error instanceof Error ? error.message : String(error))
+            );
+            return;
+        }
+
+        const diffUri = Uri.from({
+            scheme: DEEPNOTE_DIFF_SCHEME,
+            path: `${fileUri.path}.diff.md`,
+            query: `base=${baseRef ?? ''}&target=${targetRef ?? ''}`
+        });
+
+        this.documents.set(diffUri.toString(), markdown);
+
+        await commands.executeCommand('markdown.showPreview', diffUri);
+    }
+
+    private async readRevision(fileUri: Uri, ref: Revision): Promise<DeepnoteFile> {
+        let content: string;
+
+        if (ref === undefined) {
+            content = new TextDecoder('utf-8').decode(await workspace.fs.readFile(fileUri));
+        } else {
+            const processService = await this.processServiceFactory.create(undefined);
+            const result = await processService.exec('git', ['show', `${ref}:./${path.basename(fileUri.fsPath)}`], {
+                cwd: path.dirname(fileUri.fsPath),
+                throwOnStdErr: true
+            });
+
+            content = result.stdout;
+        }
+
+        const file = yaml.load(content) as DeepnoteFile | undefined;
+
+        if (!file?.project?.notebooks) {
+            throw new Error(l10n.t('{0} is not a valid Deepnote project', formatRevision(ref)));
+        }
+
+        return file;
+    }
+
+    private resolveFileUri(target?: Uri | DeepnoteTreeItem): Uri | undefined {
+        if (target instanceof Uri) {
+            return target.with({ query: '', fragment: '' });
+        }
+
+        if (target instanceof DeepnoteTreeItem) {
+            return Uri.file(target.context.filePath);
+        }
+
+        const notebook = window.activeNotebookEditor?.notebook;
+
+        if (notebook?.notebookType === 'deepnote') {
+            return notebook.uri.with({ query: '', fragment: '' });
+        }
+
+        void window.showWarningMessage(l10n.t('Open a Deepnote notebook or select a .deepnote file to compare.'));
+
+        return undefined;
+    }
+}
+
+function validateRef(value: string): string | undefined {
+    // Refs are passed to git as `<ref>:<path>`, so they must not contain a colon or start with a dash.
+    return /^[^\s:-][^\s:]*$/.test(value) ? undefined : l10n.t('Enter a branch, tag or commit');
+}
+
+function formatRevision(ref: Revision): string {
+    return ref ?? l10n.t('Working Tree');
+}
+
+function formatDiff(diffs: DeepnoteNotebookDiff[], fileName: string, baseLabel: string, targetLabel: string): string {
+    const lines = [`# ${fileName}: ${baseLabel} ↔ ${targetLabel}`, ''];
+    const changed = diffs.filter((diff) => diff.kind !== 'unchanged');
+
+    if (changed.length === 0) {
+        lines.push(l10n.t('No changes.'));
+    }
+
+    for (const diff of changed) {
+        const status =
+            diff.kind === 'added'
+                ? l10n.t('added')
+                : diff.kind === 'removed'
+                ? l10n.t('removed')
+                : l10n.t('{0} block(s) changed', diff.blockChanges.length);
+
+        lines.push(`## ${diff.name} (${status})`, '');
+
+        if (diff.previousName !== undefined) {
+            lines.push(l10n.t('Renamed from "{0}".', diff.previousName), '');
+        }
+
+        for (const change of diff.blockChanges) {
+            lines.push(...formatBlockChange(change), '');
+        }
+    }
+
+    const unchanged = diffs.filter((diff) => diff.kind === 'unchanged');
+
+    if (unchanged.length > 0) {
+        lines.push('---', '', l10n.t('Unchanged notebooks: {0}', unchanged.map((diff) => diff.name).join(', ')));
+    }
+
+    return lines.join('\n');
+}
+
+function formatBlockChange(change: DeepnoteBlockChange): string[] {
+    const labels = [
+        change.kind === 'added' ? l10n.t('Added') : change.kind === 'removed' ? l10n.t('Removed') : undefined,
+        change.moved ? l10n.t('Moved') : undefined,
+        change.kind === 'changed' && (change.fieldChanges.length > 0 || change.baseSource !== change.targetSource)
+            ? l10n.t('Edited')
+            : undefined
+    ].filter((label): label is string => label !== undefined);
+
+    const lines = [`### ${labels.join(', ')}: \`${change.blockType}\` block \`${change.blockId}\``, ''];
+
+    for (const field of change.fieldChanges) {
+        if (field.field === 'type' && change.kind !== 'changed') {
+            continue;
+        }
+
+        lines.push(`- \`${field.field}\`: ${formatValue(field.before)} → ${formatValue(field.after)}`);
+    }
+
+    if (change.fieldChanges.length > 0) {
+        lines.push('');
+    }
+
+    if (change.baseSource === change.targetSource) {
+        return lines;
+    }
+
+    if (change.baseSource === undefined || change.targetSource === undefined) {
+        // Added or removed block, show its source as it is.
+        lines.push('```', change.baseSource ?? change.targetSource ?? '', '```');
+        return lines;
+    }
+
+    lines.push('```diff');
+
+    for (const line of diffLines(change.baseSource, change.targetSource)) {
+        const prefix = line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' ';
+        lines.push(`${prefix} ${line.line}`);
+    }
+
+    lines.push('```');
+
+    return lines;
+}
+
+function formatValue(value: string | undefined): string {
+    if (value === undefined) {
+        return '_(none)_';
+    }
+
+    const singleLine = value.replace(/\s*\n\s*/g, ' ');
+
+    return `\`${singleLine.replace(/`/g, "'")}\``;
+}
@@ -0,0 +1,107 @@
+import { assert } from 'chai';
+import * as yaml from 'js-yaml';
+import { anything, deepEqual, instance, mock, verify, when } from 'ts-mockito';
+import { Uri, workspace } from 'vscode';
+
+import { DeepnoteStructuralDiffViewer } from './deepnoteStructuralDiffViewer.node';
+import type { DeepnoteFile } from '../../platform/deepnote/deepnoteTypes';
+import { IProcessService, IProcessServiceFactory } from '../../platform/common/process/types.node';
+import { IDisposableRegistry } from '../../platform/common/types';
+import { mockedVSCodeNamespaces, resetVSCodeMocks } from '../../test/vscode-mock';
+
+suite('DeepnoteStructuralDiffViewer', () => {
+    const fileUri = Uri.file('/workspace/analysis/project.deepnote');
+
+    let viewer: DeepnoteStructuralDiffViewer;
+    let processService: IProcessService;
+
+    function createFile(contents: string[]): string {
+        const file: DeepnoteFile = {
+            version: '1.0',
+            metadata: { createdAt: '2024-01-01T00:00:00.000Z' },
+            project: {
+                id: 'project-1',
+                name: 'Project',
+                notebooks: [
+                    {
+                        id: 'notebook-1',
+                        name: 'Analysis',
+                        blocks: contents.map((content, i) => ({
+                            id: `block-${i}`,
+                            sortingKey: `a${i}`,
+                            type: 'code',
+                            content,
+                            metadata: {}
+                        }))
+                    }
+                ]
+            }
+        };
+
+        return yaml.dump(file);
+    }
+
+    function setRevision(ref: string, content: string) {
+        when(processService.exec('git', deepEqual(['show', `${ref}:./project.deepnote`]), anything())).thenResolve({
+            stdout: content
+        });
+    }
+
+    setup(() => {
+        resetVSCodeMocks();
+
+        processService = mock<IProcessService>();
+        when((processService as any).then).thenReturn(undefined);
+        const processServiceFactory = mock<IProcessServiceFactory>();
+        when(processServiceFactory.create(anything())).thenResolve(instance(processService));
+
+        viewer = new DeepnoteStructuralDiffViewer(
+            [] as unknown as IDisposableRegistry,
+            instance(processServiceFactory)
+        );
+    });
+
+    test('should compare the working tree with HEAD', async () => {
+        const mockFS = mock<typeof workspace.fs>();
+        when(mockFS.readFile(anything())).thenReturn(Promise.resolve(Buffer.from(createFile(['x = 2', 'y = 1']))));
+        when(mockedVSCodeNamespaces.workspace.fs).thenReturn(instance(mockFS));
+        setRevision('HEAD', createFile(['x = 1']));
+
+        const markdown = await viewer.renderDiff(fileUri, 'HEAD', undefined);
+
+        assert.include(markdown, '# project.deepnote: HEAD ↔ Working Tree');
+        assert.include(markdown, '## Analysis (2 block(s) changed)');
+        assert.include(markdown, 'Edited: `code` block `block-0`');
+        assert.include(markdown, '- x = 1\n+ x = 2');
+        assert.include(markdown, 'Added: `code` block `block-1`');
+        verify(
+            processService.exec('git', anything(), deepEqual({ cwd: '/workspace/analysis', throwOnStdErr: true }))
+        ).once();
+    });
+
+    test('should compare two git revisions', async () => {
+        setRevision('main', createFile(['x = 1']));
+        setRevision('feature', createFile(['x = 1']));
+
+        const markdown = await viewer.renderDiff(fileUri, 'main', 'feature');
+
+        assert.include(markdown, '# project.deepnote: main ↔ feature');
+        assert.include(markdown, 'No changes.');
+        assert.include(markdown, 'Unchanged notebooks: Analysis');
+    });
+
+    test('should reject revisions that are not Deepnote projects', async () => {
+        setRevision('main', 'just: text');
+        setRevision('feature', createFile([]));
+
+        let error: Error | undefined;
+
+        try {
+            await viewer.renderDiff(fileUri, 'main', 'feature');
+        } catch (e) {
+            error = e as Error;
+        }
+
+        assert.match(error?.message ?? '', /main is not a valid Deepnote project/);
+    });
+});
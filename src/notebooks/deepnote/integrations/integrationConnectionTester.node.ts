@@ -0,0 +1,95 @@
+import { inject, injectable } from 'inversify';
+import { CancellationToken, l10n, workspace } from 'vscode';
+
+import { DEEPNOTE_NOTEBOOK_TYPE, IDeepnoteToolkitInstaller } from '../../../kernels/deepnote/types';
+import { IProcessServiceFactory } from '../../../platform/common/process/types.node';
+import { logger } from '../../../platform/logging';
+import { formatCredentialReference } from '../../../platform/notebooks/deepnote/integrationCredentialReferences';
+import {
+    IntegrationConfig,
+    IntegrationConnectionFailure,
+    IntegrationConnectionTestResult
+} from '../../../platform/notebooks/deepnote/integrationTypes';
+import { runIntegrationScript } from './integrationScripts.node';
+import { parseConnectionTestOutput } from './integrationUtils';
+import { IIntegrationConnectionTester, IIntegrationCredentialResolver } from './types';
+
+const CONNECTION_TEST_TIMEOUT_SECONDS = 30;
+
+/**
+ * Tests integration connections by running `pythonFiles/deepnote_test_connection.py` with the Python
+ * interpreter of the project's toolkit virtual environment, where the SQL drivers are installed.
+ */
+@injectable()
+export class IntegrationConnectionTester implements IIntegrationConnectionTester {
+    constructor(
+        @inject(IDeepnoteToolkitInstaller) private readonly toolkitInstaller: IDeepnoteToolkitInstaller,
+        @inject(IProcessServiceFactory) private readonly processServiceFactory: IProcessServiceFactory,
+        @inject(IIntegrationCredentialResolver) private readonly credentialResolver: IIntegrationCredentialResolver
+    ) {}
+
+    public async testConnection(
+        projectId: string,
+        config: IntegrationConfig,
+        token?: CancellationToken
+    ): Promise<IntegrationConnectionTestResult> {
+        const notebook = workspace.notebookDocuments.find(
+            (doc) => doc.notebookType === DEEPNOTE_NOTEBOOK_TYPE && doc.metadata?.deepnoteProjectId === projectId
+        );
+        const interpreter = notebook ? await this.toolkitInstaller.getVenvInterpreter(notebook.uri) : undefined;
+
+        if (!interpreter) {
+            return {
+                success: false,
+                failure: IntegrationConnectionFailure.Environment,
+                message: l10n.t(
+                    'The Deepnote environment of this project is not set up yet. Run a block of the project, then test the connection again.'
+                )
+            };
+        }
+
+        try {
+            logger.info(`IntegrationConnectionTester: Testing connection of integration ${config.id}`);
+
+            const resolved = await this.credentialResolver.resolve(config, notebook?.uri);
+            const unresolved = resolved.references.filter((reference) => !reference.resolved);
+
+            if (unresolved.length > 0) {
+                return {
+                    success: false,
+                    failure: IntegrationConnectionFailure.Environment,
+                    message: l10n.t(
+                        'These variables are not defined: {0}',
+                        unresolved.map(formatCredentialReference).join(', ')
+                    )
+                };
+            }
+
+            const output = await runIntegrationScript(
+                this.processServiceFactory,
+                interpreter,
+                'deepnote_test_connection.py',
+                resolved.config,
+                { timeoutSeconds: CONNECTION_TEST_TIMEOUT_SECONDS, token }
+            );
+
+            if (output.timedOut) {
+                return {
+                    success: false,
+                    failure: IntegrationConnectionFailure.Network,
+                    message: l10n.t('The connection test timed out after {0} seconds.', CONNECTION_TEST_TIMEOUT_SECONDS)
+                };
+            }
+
+            return parseConnectionTestOutput(output.stdout, output.stderr);
+        } catch (error) {
+            logger.error(`IntegrationConnectionTester: Failed to test connection of integration ${config.id}`, error);
+
+            return {
+                success: false,
+                failure: IntegrationConnectionFailure.Unknown,
+                message: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }
+}
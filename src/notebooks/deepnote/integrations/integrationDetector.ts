@@ -5,17 +5,21 @@ import { IDeepnoteNotebookManager } from '../../types';
 import {
     DATAFRAME_SQL_INTEGRATION_ID,
     DEEPNOTE_TO_INTEGRATION_TYPE,
+    IntegrationConnectionTestResult,
     IntegrationStatus,
     IntegrationWithStatus,
     RawIntegrationType
 } from '../../../platform/notebooks/deepnote/integrationTypes';
 import { IIntegrationDetector, IIntegrationStorage } from './types';
+import { getIntegrationStatus } from './integrationUtils';
 
 /**
  * Service for detecting integrations used in Deepnote notebooks
  */
 @injectable()
 export class IntegrationDetector implements IIntegrationDetector {
+    private readonly connectionTestResults = new Map<string, IntegrationConnectionTestResult>();
+
     constructor(
         @inject(IIntegrationStorage) private readonly integrationStorage: IIntegrationStorage,
         @inject(IDeepnoteNotebookManager) private readonly notebookManager: IDeepnoteNotebookManager
@@ -65,11 +69,11 @@ export class IntegrationDetector implements IIntegrationDetector {
             }
 
             // Check if the integration is configured
-            const config = await this.integrationStorage.getIntegrationConfig(integrationId);
+            const config = await this.integrationStorage.getProjectIntegrationConfig(projectId, integrationId);
 
             const status: IntegrationWithStatus = {
                 config: config || null,
-                status: config ? IntegrationStatus.Connected : IntegrationStatus.Disconnected,
+                ...getIntegrationStatus(config, this.connectionTestResults.get(integrationId)),
                 // Include integration metadata from project for prefilling when config is null
                 integrationName: projectIntegration.name,
                 integrationType: integrationType
@@ -97,4 +101,16 @@ export class IntegrationDetector implements IIntegrationDetector {
 
         return false;
     }
+
+    public setConnectionTestResult(integrationId: string, result: IntegrationConnectionTestResult | undefined): void {
+        if (result) {
+            this.connectionTestResults.set(integrationId, result);
+        } else {
+            this.connectionTestResults.delete(integrationId);
+        }
+    }
+
+    public getConnectionTestResult(integrationId: string): IntegrationConnectionTestResult | undefined {
+        return this.connectionTestResults.get(integrationId);
+    }
 }
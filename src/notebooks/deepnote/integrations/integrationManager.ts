@@ -12,7 +12,7 @@ import {
     IntegrationWithStatus,
     RawIntegrationType
 } from '../../../platform/notebooks/deepnote/integrationTypes';
-import { BlockWithIntegration, scanBlocksForIntegrations } from './integrationUtils';
+import { BlockWithIntegration, getIntegrationStatus, scanBlocksForIntegrations } from './integrationUtils';
 import { IDeepnoteNotebookManager } from '../../types';
 
 /**
@@ -57,6 +57,10 @@ export class IntegrationManager implements IIntegrationManager {
             })
         );
 
+        this.extensionContext.subscriptions.push(
+            commands.registerCommand(Commands.SetIntegrationSecret, () => this.setIntegrationSecret())
+        );
+
         // Listen for active notebook changes to update context
         this.extensionContext.subscriptions.push(
             window.onDidChangeActiveNotebookEditor(() =>
@@ -148,7 +152,7 @@ export class IntegrationManager implements IIntegrationManager {
         // This handles the case where the notebook was already open when the extension loaded
         if (integrations.size === 0) {
             logger.debug(`IntegrationManager: No integrations found in stored project, scanning cells directly`);
-            integrations = await this.detectIntegrationsFromCells(activeNotebook);
+            integrations = await this.detectIntegrationsFromCells(activeNotebook, projectId);
         }
 
         logger.debug(`IntegrationManager: Found ${integrations.size} integrations`);
@@ -157,7 +161,7 @@ export class IntegrationManager implements IIntegrationManager {
         // ensure it's in the map even if not detected from the project
         if (selectedIntegrationId && !integrations.has(selectedIntegrationId)) {
             logger.debug(`IntegrationManager: Adding requested integration ${selectedIntegrationId} to the map`);
-            const config = await this.integrationStorage.getIntegrationConfig(selectedIntegrationId);
+            const config = await this.integrationStorage.getProjectIntegrationConfig(projectId, selectedIntegrationId);
 
             // Try to get integration metadata from the project
             const project = this.notebookManager.getOriginalProject(projectId);
@@ -182,7 +186,10 @@ export class IntegrationManager implements IIntegrationManager {
 
             integrations.set(selectedIntegrationId, {
                 config: config || null,
-                status: config ? IntegrationStatus.Connected : IntegrationStatus.Disconnected,
+                ...getIntegrationStatus(
+                    config,
+                    this.integrationDetector.getConnectionTestResult(selectedIntegrationId)
+                ),
                 integrationName,
                 integrationType
             });
@@ -197,11 +204,51 @@ export class IntegrationManager implements IIntegrationManager {
         await this.webviewProvider.show(projectId, integrations, selectedIntegrationId);
     }
 
+    /**
+     * Prompt for a secret referenced by the deepnote-integrations.yaml file of the workspace, and store its value
+     */
+    private async setIntegrationSecret(): Promise<void> {
+        const secrets = await this.integrationStorage.getReferencedSecrets();
+
+        if (secrets.length === 0) {
+            void window.showInformationMessage(
+                l10n.t('The deepnote-integrations.yaml file of the workspace references no secrets.')
+            );
+            return;
+        }
+
+        const selected = await window.showQuickPick(
+            secrets.map((secret) => ({
+                label: secret.name,
+                description: secret.isSet ? l10n.t('Set') : l10n.t('Not set')
+            })),
+            { placeHolder: l10n.t('Select the secret to set') }
+        );
+
+        if (!selected) {
+            return;
+        }
+
+        const value = await window.showInputBox({
+            password: true,
+            prompt: l10n.t('Enter the value of {0}. Leave it empty to delete the secret.', selected.label)
+        });
+
+        if (value === undefined) {
+            return;
+        }
+
+        await this.integrationStorage.storeSecret(selected.label, value || undefined);
+    }
+
     /**
      * Detect integrations by scanning cells directly (fallback method)
      * This is used when the project isn't stored in the notebook manager
      */
-    private async detectIntegrationsFromCells(notebook: NotebookDocument): Promise<Map<string, IntegrationWithStatus>> {
+    private async detectIntegrationsFromCells(
+        notebook: NotebookDocument,
+        projectId: string
+    ): Promise<Map<string, IntegrationWithStatus>> {
         // Collect all cells with SQL integration metadata
         const blocksWithIntegrations: BlockWithIntegration[] = [];
 
@@ -225,6 +272,11 @@ export class IntegrationManager implements IIntegrationManager {
         logger.debug(`IntegrationManager: Found ${blocksWithIntegrations.length} cells with integrations`);
 
         // Use the shared utility to scan blocks and build the status map
-        return scanBlocksForIntegrations(blocksWithIntegrations, this.integrationStorage, 'IntegrationManager');
+        return scanBlocksForIntegrations(
+            blocksWithIntegrations,
+            this.integrationStorage,
+            projectId,
+            'IntegrationManager'
+        );
     }
 }
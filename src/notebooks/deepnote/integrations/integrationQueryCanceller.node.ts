@@ -0,0 +1,141 @@
+import { inject, injectable } from 'inversify';
+import { l10n, Uri } from 'vscode';
+
+import { IDeepnoteToolkitInstaller } from '../../../kernels/deepnote/types';
+import { IProcessServiceFactory } from '../../../platform/common/process/types.node';
+import { findScriptResult } from '../../../platform/deepnote/kernelScripts';
+import { logger } from '../../../platform/logging';
+import { formatCredentialReference } from '../../../platform/notebooks/deepnote/integrationCredentialReferences';
+import { IntegrationConfig } from '../../../platform/notebooks/deepnote/integrationTypes';
+import { runIntegrationScript } from './integrationScripts.node';
+import { IIntegrationCredentialResolver, IIntegrationQueryCanceller } from './types';
+
+const QUERY_CANCEL_TIMEOUT_SECONDS = 30;
+
+const QUERY_PROGRESS_TIMEOUT_SECONDS = 15;
+
+/**
+ * Cancels the running query of a SQL block by running `pythonFiles/deepnote_cancel_query.py` with the Python
+ * interpreter of the notebook's toolkit virtual environment, and reads how many rows it produced so far with
+ * `pythonFiles/deepnote_query_progress.py`. The scripts connect to the database on their own, so the kernel
+ * keeps running and only sees its query fail when cancelled.
+ */
+@injectable()
+export class IntegrationQueryCanceller implements IIntegrationQueryCanceller {
+    constructor(
+        @inject(IDeepnoteToolkitInstaller) private readonly toolkitInstaller: IDeepnoteToolkitInstaller,
+        @inject(IProcessServiceFactory) private readonly processServiceFactory: IProcessServiceFactory,
+        @inject(IIntegrationCredentialResolver) private readonly credentialResolver: IIntegrationCredentialResolver
+    ) {}
+
+    public async cancelQueries(
+        notebookUri: Uri,
+        config: IntegrationConfig,
+        queryTag: string,
+        startedAt: Date
+    ): Promise<number> {
+        logger.info(`IntegrationQueryCanceller: Cancelling queries of integration ${config.id}`);
+
+        const result = await this.runQueryScript(
+            notebookUri,
+            config,
+            'deepnote_cancel_query.py',
+            { queryTag, startedAt },
+            QUERY_CANCEL_TIMEOUT_SECONDS
+        );
+
+        if (!result) {
+            throw new Error(l10n.t('The database did not report the cancelled queries.'));
+        }
+
+        if (!result.success) {
+            throw new Error(
+                typeof result.message === 'string' ? result.message : l10n.t('Failed to cancel the query.')
+            );
+        }
+
+        return typeof result.cancelled === 'number' ? result.cancelled : 0;
+    }
+
+    public async getRowsProduced(
+        notebookUri: Uri,
+        config: IntegrationConfig,
+        queryTag: string,
+        startedAt: Date
+    ): Promise<number | undefined> {
+        const result = await this.runQueryScript(
+            notebookUri,
+            config,
+            'deepnote_query_progress.py',
+            { queryTag, startedAt },
+            QUERY_PROGRESS_TIMEOUT_SECONDS
+        );
+
+        if (!result) {
+            throw new Error(l10n.t('The database did not report the progress of the query.'));
+        }
+
+        if (!result.success) {
+            throw new Error(
+                typeof result.message === 'string'
+                    ? result.message
+                    : l10n.t('Failed to read the progress of the query.')
+            );
+        }
+
+        return typeof result.rows === 'number' ? result.rows : undefined;
+    }
+
+    /**
+     * Runs a script on the running query of a SQL block, and returns the result line it wrote
+     * @throws When the script can't run, times out or writes errors only
+     */
+    private async runQueryScript(
+        notebookUri: Uri,
+        config: IntegrationConfig,
+        scriptName: string,
+        query: { queryTag: string; startedAt: Date },
+        timeoutSeconds: number
+    ): Promise<({ success: boolean } & Record<string, unknown>) | undefined> {
+        const interpreter = await this.toolkitInstaller.getVenvInterpreter(notebookUri);
+
+        if (!interpreter) {
+            throw new Error(l10n.t('The Deepnote environment of this notebook is not set up.'));
+        }
+
+        const resolved = await this.credentialResolver.resolve(config, notebookUri);
+        const unresolved = resolved.references.filter((reference) => !reference.resolved);
+
+        if (unresolved.length > 0) {
+            throw new Error(
+                l10n.t('These variables are not defined: {0}', unresolved.map(formatCredentialReference).join(', '))
+            );
+        }
+
+        const output = await runIntegrationScript(
+            this.processServiceFactory,
+            interpreter,
+            scriptName,
+            resolved.config,
+            {
+                env: {
+                    DEEPNOTE_QUERY_STARTED_AT: query.startedAt.toISOString(),
+                    DEEPNOTE_QUERY_TAG: query.queryTag
+                },
+                timeoutSeconds
+            }
+        );
+
+        if (output.timedOut) {
+            throw new Error(l10n.t('The database did not respond within {0} seconds.', timeoutSeconds));
+        }
+
+        const result = findScriptResult<{ success: boolean } & Record<string, unknown>>(output.stdout);
+
+        if (!result && output.stderr?.trim()) {
+            throw new Error(output.stderr.trim());
+        }
+
+        return result;
+    }
+}
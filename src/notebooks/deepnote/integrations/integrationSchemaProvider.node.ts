@@ -0,0 +1,164 @@
+import { inject, injectable } from 'inversify';
+import { CancellationToken, l10n, window, workspace } from 'vscode';
+
+import { DEEPNOTE_NOTEBOOK_TYPE, IDeepnoteToolkitInstaller } from '../../../kernels/deepnote/types';
+import { IProcessServiceFactory } from '../../../platform/common/process/types.node';
+import { findScriptResult } from '../../../platform/deepnote/kernelScripts';
+import { logger } from '../../../platform/logging';
+import { PythonEnvironment } from '../../../platform/pythonEnvironments/info';
+import { formatCredentialReference } from '../../../platform/notebooks/deepnote/integrationCredentialReferences';
+import { IntegrationConfig } from '../../../platform/notebooks/deepnote/integrationTypes';
+import { runIntegrationScript } from './integrationScripts.node';
+import {
+    CatalogTable,
+    DatabaseCatalog,
+    DatabaseObject,
+    IIntegrationCredentialResolver,
+    IIntegrationSchemaProvider,
+    TablePreview
+} from './types';
+
+const SCHEMA_REQUEST_TIMEOUT_SECONDS = 60;
+
+type SchemaRequest =
+    | { action: 'schemas' }
+    | { action: 'tables'; schema: string }
+    | { action: 'columns'; schema: string; table: string }
+    | { action: 'preview'; schema: string; table: string; limit: number }
+    | { action: 'catalog' };
+
+/**
+ * Reads database schemas by running `pythonFiles/deepnote_schema_browser.py` with the Python interpreter
+ * of a toolkit virtual environment. Integrations aren't scoped to projects, so the environment of the
+ * active Deepnote notebook is used, or of any other open Deepnote notebook.
+ */
+@injectable()
+export class IntegrationSchemaProvider implements IIntegrationSchemaProvider {
+    constructor(
+        @inject(IDeepnoteToolkitInstaller) private readonly toolkitInstaller: IDeepnoteToolkitInstaller,
+        @inject(IProcessServiceFactory) private readonly processServiceFactory: IProcessServiceFactory,
+        @inject(IIntegrationCredentialResolver) private readonly credentialResolver: IIntegrationCredentialResolver
+    ) {}
+
+    public async getSchemas(config: IntegrationConfig, token?: CancellationToken): Promise<DatabaseObject[]> {
+        const output = await this.request<{ items: DatabaseObject[] }>(config, { action: 'schemas' }, token);
+
+        return output.items;
+    }
+
+    public async getTables(
+        config: IntegrationConfig,
+        schema: string,
+        token?: CancellationToken
+    ): Promise<DatabaseObject[]> {
+        const output = await this.request<{ items: DatabaseObject[] }>(config, { action: 'tables', schema }, token);
+
+        return output.items;
+    }
+
+    public async getColumns(
+        config: IntegrationConfig,
+        schema: string,
+        table: string,
+        token?: CancellationToken
+    ): Promise<DatabaseObject[]> {
+        const output = await this.request<{ items: DatabaseObject[] }>(
+            config,
+            { action: 'columns', schema, table },
+            token
+        );
+
+        return output.items;
+    }
+
+    public async previewTable(
+        config: IntegrationConfig,
+        schema: string,
+        table: string,
+        limit: number,
+        token?: CancellationToken
+    ): Promise<TablePreview> {
+        return this.request<TablePreview>(config, { action: 'preview', schema, table, limit }, token);
+    }
+
+    public async getCatalog(config: IntegrationConfig, token?: CancellationToken): Promise<DatabaseCatalog> {
+        const output = await this.request<{ tables: CatalogTable[]; default_schema?: string; truncated: boolean }>(
+            config,
+            { action: 'catalog' },
+            token
+        );
+
+        return {
+            tables: output.tables,
+            defaultSchema: output.default_schema ?? undefined,
+            truncated: output.truncated
+        };
+    }
+
+    private async request<T>(config: IntegrationConfig, request: SchemaRequest, token?: CancellationToken): Promise<T> {
+        const interpreter = await this.findToolkitInterpreter();
+
+        if (!interpreter) {
+            throw new Error(l10n.t('Open a Deepnote notebook and run a block to browse data sources.'));
+        }
+
+        logger.debug(`IntegrationSchemaProvider: Requesting ${request.action} of integration ${config.id}`);
+
+        const resolved = await this.credentialResolver.resolve(config, undefined);
+        const unresolved = resolved.references.filter((reference) => !reference.resolved);
+
+        if (unresolved.length > 0) {
+            throw new Error(
+                l10n.t('These variables are not defined: {0}', unresolved.map(formatCredentialReference).join(', '))
+            );
+        }
+
+        const output = await runIntegrationScript(
+            this.processServiceFactory,
+            interpreter,
+            'deepnote_schema_browser.py',
+            resolved.config,
+            {
+                env: { DEEPNOTE_SCHEMA_REQUEST: JSON.stringify(request) },
+                timeoutSeconds: SCHEMA_REQUEST_TIMEOUT_SECONDS,
+                token
+            }
+        );
+
+        if (output.timedOut) {
+            throw new Error(l10n.t('The database did not respond within {0} seconds.', SCHEMA_REQUEST_TIMEOUT_SECONDS));
+        }
+
+        const result = findScriptResult<{ success: boolean } & Record<string, unknown>>(output.stdout);
+
+        if (!result) {
+            throw new Error(output.stderr?.trim() || l10n.t('The data source did not return a result.'));
+        }
+
+        if (!result.success) {
+            throw new Error(typeof result.message === 'string' ? result.message : l10n.t('Failed to read the schema.'));
+        }
+
+        return result as T;
+    }
+
+    private async findToolkitInterpreter(): Promise<PythonEnvironment | undefined> {
+        const activeNotebook = window.activeNotebookEditor?.notebook;
+        const notebooks = [
+            ...(activeNotebook?.notebookType === DEEPNOTE_NOTEBOOK_TYPE ? [activeNotebook] : []),
+            ...workspace.notebookDocuments.filter(
+                (doc) => doc.notebookType === DEEPNOTE_NOTEBOOK_TYPE && doc !== activeNotebook
+            )
+        ];
+
+        for (const notebook of notebooks) {
+            const interpreter = await this.toolkitInstaller.getVenvInterpreter(notebook.uri);
+
+            if (interpreter) {
+                return interpreter;
+            }
+        }
+
+        return undefined;
+    }
+}
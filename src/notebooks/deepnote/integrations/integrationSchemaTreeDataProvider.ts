@@ -0,0 +1,209 @@
+import {
+    Disposable,
+    Event,
+    EventEmitter,
+    l10n,
+    ThemeIcon,
+    TreeDataProvider,
+    TreeItem,
+    TreeItemCollapsibleState
+} from 'vscode';
+
+import { logger } from '../../../platform/logging';
+import { IntegrationConfig } from '../../../platform/notebooks/deepnote/integrationTypes';
+import { getIntegrationDatabase } from './integrationSchemaUtils';
+import { IntegrationSchemaTreeItem, IntegrationSchemaTreeItemType } from './integrationSchemaTreeItem';
+import { getIntegrationTypeLabel } from './integrationUtils';
+import { DatabaseObject, IIntegrationSchemaProvider, IIntegrationStorage } from './types';
+
+/**
+ * Tree data provider for the Deepnote data sources view.
+ * Lists the configured integrations, and lazily loads the schemas, tables and columns of their databases.
+ */
+export class IntegrationSchemaTreeDataProvider implements TreeDataProvider<IntegrationSchemaTreeItem> {
+    private readonly _onDidChangeTreeData = new EventEmitter<IntegrationSchemaTreeItem | undefined | void>();
+
+    readonly onDidChangeTreeData: Event<IntegrationSchemaTreeItem | undefined | void> = this._onDidChangeTreeData.event;
+
+    private readonly storageListener: Disposable;
+
+    constructor(
+        private readonly integrationStorage: IIntegrationStorage,
+        private readonly schemaProvider: IIntegrationSchemaProvider
+    ) {
+        this.storageListener = this.integrationStorage.onDidChangeIntegrations(() => this.refresh());
+    }
+
+    public dispose(): void {
+        this.storageListener.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+
+    public refresh(item?: IntegrationSchemaTreeItem): void {
+        this._onDidChangeTreeData.fire(item);
+    }
+
+    public getTreeItem(element: IntegrationSchemaTreeItem): TreeItem {
+        return element;
+    }
+
+    public async getChildren(element?: IntegrationSchemaTreeItem): Promise<IntegrationSchemaTreeItem[]> {
+        if (!element) {
+            return this.getIntegrations();
+        }
+
+        try {
+            switch (element.type) {
+                case IntegrationSchemaTreeItemType.Integration:
+                    return [this.createDatabaseItem(element.config)];
+
+                case IntegrationSchemaTreeItemType.Database:
+                    return await this.getSchemas(element.config);
+
+                case IntegrationSchemaTreeItemType.Schema:
+                    return await this.getTables(element.config, element.context.schema!);
+
+                case IntegrationSchemaTreeItemType.Table:
+                case IntegrationSchemaTreeItemType.View:
+                    return await this.getColumns(element.config, element.context.schema!, element.context.table!);
+
+                default:
+                    return [];
+            }
+        } catch (error) {
+            logger.error(`IntegrationSchemaTreeDataProvider: Failed to load children of ${element.label}`, error);
+
+            return [this.createErrorItem(element.config, error)];
+        }
+    }
+
+    private async getIntegrations(): Promise<IntegrationSchemaTreeItem[]> {
+        const configs = await this.integrationStorage.getAll();
+
+        return configs
+            .sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()))
+            .map((config) => {
+                const item = new IntegrationSchemaTreeItem(
+                    IntegrationSchemaTreeItemType.Integration,
+                    config,
+                    {},
+                    config.name,
+                    TreeItemCollapsibleState.Collapsed
+                );
+                item.id = `integration:${config.id}`;
+                item.description = getIntegrationTypeLabel(config.type);
+                item.tooltip = `${config.name} (${getIntegrationTypeLabel(config.type)})`;
+
+                return item;
+            });
+    }
+
+    private createDatabaseItem(config: IntegrationConfig): IntegrationSchemaTreeItem {
+        const database = getIntegrationDatabase(config);
+        const item = new IntegrationSchemaTreeItem(
+            IntegrationSchemaTreeItemType.Database,
+            config,
+            {},
+            database ?? l10n.t('Default database'),
+            TreeItemCollapsibleState.Expanded
+        );
+        item.id = `integration:${config.id}/database`;
+
+        return item;
+    }
+
+    private async getSchemas(config: IntegrationConfig): Promise<IntegrationSchemaTreeItem[]> {
+        const schemas = await this.schemaProvider.getSchemas(config);
+
+        if (schemas.length === 0) {
+            return [this.createMessageItem(config, l10n.t('No schemas'))];
+        }
+
+        return sortByName(schemas).map((schema) => {
+            const item = new IntegrationSchemaTreeItem(
+                IntegrationSchemaTreeItemType.Schema,
+                config,
+                { schema: schema.name },
+                schema.name,
+                TreeItemCollapsibleState.Collapsed
+            );
+            item.id = `integration:${config.id}/schema:${schema.name}`;
+
+            return item;
+        });
+    }
+
+    private async getTables(config: IntegrationConfig, schema: string): Promise<IntegrationSchemaTreeItem[]> {
+        const tables = await this.schemaProvider.getTables(config, schema);
+
+        if (tables.length === 0) {
+            return [this.createMessageItem(config, l10n.t('No tables'))];
+        }
+
+        return sortByName(tables).map((table) => {
+            const isView = table.kind === 'view';
+            const item = new IntegrationSchemaTreeItem(
+                isView ? IntegrationSchemaTreeItemType.View : IntegrationSchemaTreeItemType.Table,
+                config,
+                { schema, table: table.name },
+                table.name,
+                TreeItemCollapsibleState.Collapsed
+            );
+            item.id = `integration:${config.id}/schema:${schema}/table:${table.name}`;
+            item.description = isView ? l10n.t('view') : undefined;
+            item.tooltip = `${schema}.${table.name}`;
+
+            return item;
+        });
+    }
+
+    private async getColumns(
+        config: IntegrationConfig,
+        schema: string,
+        table: string
+    ): Promise<IntegrationSchemaTreeItem[]> {
+        const columns = await this.schemaProvider.getColumns(config, schema, table);
+
+        if (columns.length === 0) {
+            return [this.createMessageItem(config, l10n.t('No columns'))];
+        }
+
+        // Columns keep the order of the table definition
+        return columns.map((column) => {
+            const item = new IntegrationSchemaTreeItem(
+                IntegrationSchemaTreeItemType.Column,
+                config,
+                { schema, table },
+                column.name,
+                TreeItemCollapsibleState.None
+            );
+            item.description = column.type;
+            item.tooltip = column.type ? `${column.name}: ${column.type}` : column.name;
+
+            return item;
+        });
+    }
+
+    private createMessageItem(config: IntegrationConfig, message: string): IntegrationSchemaTreeItem {
+        return new IntegrationSchemaTreeItem(
+            IntegrationSchemaTreeItemType.Message,
+            config,
+            {},
+            message,
+            TreeItemCollapsibleState.None
+        );
+    }
+
+    private createErrorItem(config: IntegrationConfig, error: unknown): IntegrationSchemaTreeItem {
+        const message = error instanceof Error ? error.message : String(error);
+        const item = this.createMessageItem(config, message.split(/\r?\n/)[0]);
+        item.iconPath = new ThemeIcon('error');
+        item.tooltip = message;
+
+        return item;
+    }
+}
+
+function sortByName(objects: DatabaseObject[]): DatabaseObject[] {
+    return [...objects].sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
+}
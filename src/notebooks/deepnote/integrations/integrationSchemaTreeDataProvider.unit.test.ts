@@ -0,0 +1,131 @@
+import { assert } from 'chai';
+import { anything, instance, mock, when } from 'ts-mockito';
+import { EventEmitter, ThemeIcon, TreeItemCollapsibleState } from 'vscode';
+
+import { IntegrationType, PostgresIntegrationConfig } from '../../../platform/notebooks/deepnote/integrationTypes';
+import { IntegrationSchemaTreeDataProvider } from './integrationSchemaTreeDataProvider';
+import { IntegrationSchemaTreeItem, IntegrationSchemaTreeItemType } from './integrationSchemaTreeItem';
+import { IIntegrationSchemaProvider, IIntegrationStorage } from './types';
+
+suite('IntegrationSchemaTreeDataProvider', () => {
+    let provider: IntegrationSchemaTreeDataProvider;
+    let integrationStorage: IIntegrationStorage;
+    let schemaProvider: IIntegrationSchemaProvider;
+    let onDidChangeIntegrations: EventEmitter<void>;
+
+    const config: PostgresIntegrationConfig = {
+        id: 'postgres-1',
+        name: 'Warehouse',
+        type: IntegrationType.Postgres,
+        host: 'localhost',
+        port: 5432,
+        database: 'analytics',
+        username: 'user',
+        password: 'secret'
+    };
+
+    function createItem(
+        type: IntegrationSchemaTreeItemType,
+        context: { schema?: string; table?: string } = {}
+    ): IntegrationSchemaTreeItem {
+        return new IntegrationSchemaTreeItem(type, config, context, 'item', TreeItemCollapsibleState.Collapsed);
+    }
+
+    setup(() => {
+        integrationStorage = mock<IIntegrationStorage>();
+        schemaProvider = mock<IIntegrationSchemaProvider>();
+        onDidChangeIntegrations = new EventEmitter<void>();
+        when(integrationStorage.onDidChangeIntegrations).thenReturn(onDidChangeIntegrations.event);
+
+        provider = new IntegrationSchemaTreeDataProvider(instance(integrationStorage), instance(schemaProvider));
+    });
+
+    teardown(() => {
+        provider.dispose();
+        onDidChangeIntegrations.dispose();
+    });
+
+    test('lists the configured integrations sorted by name', async () => {
+        when(integrationStorage.getAll()).thenResolve([
+            config,
+            { ...config, id: 'postgres-2', name: 'analytics replica' }
+        ]);
+
+        const items = await provider.getChildren();
+
+        assert.deepStrictEqual(
+            items.map((item) => item.label),
+            ['analytics replica', 'Warehouse']
+        );
+        assert.strictEqual(items[0].type, IntegrationSchemaTreeItemType.Integration);
+        assert.strictEqual(items[0].contextValue, 'dataSource');
+    });
+
+    test('shows the database of an integration', async () => {
+        const [database] = await provider.getChildren(createItem(IntegrationSchemaTreeItemType.Integration));
+
+        assert.strictEqual(database.type, IntegrationSchemaTreeItemType.Database);
+        assert.strictEqual(database.label, 'analytics');
+    });
+
+    test('lists the tables and views of a schema', async () => {
+        when(schemaProvider.getTables(config, 'public')).thenResolve([
+            { name: 'orders', kind: 'table' },
+            { name: 'active_customers', kind: 'view' }
+        ]);
+
+        const items = await provider.getChildren(
+            createItem(IntegrationSchemaTreeItemType.Schema, { schema: 'public' })
+        );
+
+        assert.deepStrictEqual(
+            items.map((item) => [item.label, item.type, item.context.table]),
+            [
+                ['active_customers', IntegrationSchemaTreeItemType.View, 'active_customers'],
+                ['orders', IntegrationSchemaTreeItemType.Table, 'orders']
+            ]
+        );
+    });
+
+    test('lists the columns of a table with their types, in table order', async () => {
+        when(schemaProvider.getColumns(config, 'public', 'orders')).thenResolve([
+            { name: 'id', type: 'INTEGER' },
+            { name: 'created_at', type: 'TIMESTAMP' }
+        ]);
+
+        const items = await provider.getChildren(
+            createItem(IntegrationSchemaTreeItemType.Table, { schema: 'public', table: 'orders' })
+        );
+
+        assert.deepStrictEqual(
+            items.map((item) => [item.label, item.description, item.collapsibleState]),
+            [
+                ['id', 'INTEGER', TreeItemCollapsibleState.None],
+                ['created_at', 'TIMESTAMP', TreeItemCollapsibleState.None]
+            ]
+        );
+    });
+
+    test('shows an error item when the schema cannot be read', async () => {
+        when(schemaProvider.getSchemas(anything())).thenReject(
+            new Error('password authentication failed\nDETAIL: more')
+        );
+
+        const items = await provider.getChildren(createItem(IntegrationSchemaTreeItemType.Database));
+
+        assert.strictEqual(items.length, 1);
+        assert.strictEqual(items[0].type, IntegrationSchemaTreeItemType.Message);
+        assert.strictEqual(items[0].label, 'password authentication failed');
+        assert.strictEqual(items[0].tooltip, 'password authentication failed\nDETAIL: more');
+        assert.strictEqual((items[0].iconPath as ThemeIcon).id, 'error');
+    });
+
+    test('refreshes when integrations change', () => {
+        let fired = false;
+        provider.onDidChangeTreeData(() => (fired = true));
+
+        onDidChangeIntegrations.fire();
+
+        assert.isTrue(fired);
+    });
+});
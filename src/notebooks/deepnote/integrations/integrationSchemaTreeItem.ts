@@ -0,0 +1,52 @@
+import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+
+import { IntegrationConfig } from '../../../platform/notebooks/deepnote/integrationTypes';
+
+/**
+ * Represents different types of items in the Deepnote data sources view
+ */
+export enum IntegrationSchemaTreeItemType {
+    Integration = 'dataSource',
+    Database = 'database',
+    Schema = 'schema',
+    Table = 'table',
+    View = 'view',
+    Column = 'column',
+    Message = 'message'
+}
+
+/**
+ * Location of a tree item in the database of its integration
+ */
+export interface IntegrationSchemaTreeItemContext {
+    readonly schema?: string;
+    readonly table?: string;
+}
+
+const ICONS: { [type in IntegrationSchemaTreeItemType]: string } = {
+    [IntegrationSchemaTreeItemType.Integration]: 'plug',
+    [IntegrationSchemaTreeItemType.Database]: 'database',
+    [IntegrationSchemaTreeItemType.Schema]: 'symbol-namespace',
+    [IntegrationSchemaTreeItemType.Table]: 'table',
+    [IntegrationSchemaTreeItemType.View]: 'eye',
+    [IntegrationSchemaTreeItemType.Column]: 'symbol-field',
+    [IntegrationSchemaTreeItemType.Message]: 'info'
+};
+
+/**
+ * Tree item representing an integration, or a database, schema, table or column of it, in the data sources view
+ */
+export class IntegrationSchemaTreeItem extends TreeItem {
+    constructor(
+        public readonly type: IntegrationSchemaTreeItemType,
+        public readonly config: IntegrationConfig,
+        public readonly context: IntegrationSchemaTreeItemContext,
+        label: string,
+        collapsibleState: TreeItemCollapsibleState
+    ) {
+        super(label, collapsibleState);
+
+        this.contextValue = this.type;
+        this.iconPath = new ThemeIcon(ICONS[type]);
+    }
+}
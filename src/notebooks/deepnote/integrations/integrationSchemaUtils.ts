@@ -0,0 +1,78 @@
+import { IntegrationConfig, IntegrationType } from '../../../platform/notebooks/deepnote/integrationTypes';
+import { TablePreview } from './types';
+
+/**
+ * Names that every supported database accepts unquoted. Other names are quoted, since unquoted
+ * identifiers are case-folded, and may be keywords or contain special characters.
+ */
+const PLAIN_IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_]*$/;
+
+/**
+ * Returns the database an integration connects to, shown as the database level of the schema browser:
+ * the catalog for Trino and the project for BigQuery.
+ */
+export function getIntegrationDatabase(config: IntegrationConfig): string | undefined {
+    switch (config.type) {
+        case IntegrationType.BigQuery:
+            return config.projectId;
+        case IntegrationType.Trino:
+            return config.catalog;
+        default:
+            return config.database || undefined;
+    }
+}
+
+/**
+ * Quotes an identifier in the SQL dialect of an integration, when it is not a plain lowercase name.
+ */
+export function quoteIdentifier(type: IntegrationType, name: string): string {
+    if (PLAIN_IDENTIFIER_PATTERN.test(name)) {
+        return name;
+    }
+
+    switch (type) {
+        case IntegrationType.BigQuery:
+        case IntegrationType.MySql:
+        case IntegrationType.MariaDb:
+        case IntegrationType.ClickHouse:
+            return `\`${name.replace(/`/g, '``')}\``;
+        case IntegrationType.SqlServer:
+            return `[${name.replace(/]/g, ']]')}]`;
+        default:
+            return `"${name.replace(/"/g, '""')}"`;
+    }
+}
+
+/**
+ * Builds a query selecting the first rows of a table, in the SQL dialect of an integration.
+ */
+export function buildSelectQuery(type: IntegrationType, schema: string, table: string, limit: number): string {
+    const tableName =
+        type === IntegrationType.BigQuery
+            ? `\`${schema}.${table}\``
+            : `${quoteIdentifier(type, schema)}.${quoteIdentifier(type, table)}`;
+
+    if (type === IntegrationType.SqlServer) {
+        return `SELECT TOP ${limit} *\nFROM ${tableName}`;
+    }
+
+    return `SELECT *\nFROM ${tableName}\nLIMIT ${limit}`;
+}
+
+/**
+ * Formats the first rows of a table as a Markdown table.
+ */
+export function formatTablePreview(title: string, preview: TablePreview): string {
+    const formatCell = (value: unknown) =>
+        (value === null || value === undefined ? 'NULL' : String(value)).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+    const lines = [
+        `# ${title}`,
+        '',
+        `| ${preview.columns.map(formatCell).join(' | ')} |`,
+        `| ${preview.columns.map(() => '---').join(' | ')} |`,
+        ...preview.rows.map((row) => `| ${row.map(formatCell).join(' | ')} |`)
+    ];
+
+    return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,119 @@
+import { assert } from 'chai';
+
+import {
+    BigQueryIntegrationConfig,
+    IntegrationType,
+    PostgresIntegrationConfig,
+    TrinoIntegrationConfig
+} from '../../../platform/notebooks/deepnote/integrationTypes';
+import {
+    buildSelectQuery,
+    formatTablePreview,
+    getIntegrationDatabase,
+    quoteIdentifier
+} from './integrationSchemaUtils';
+
+suite('integrationSchemaUtils', () => {
+    suite('getIntegrationDatabase', () => {
+        test('returns the database of server integrations', () => {
+            const config: PostgresIntegrationConfig = {
+                id: 'postgres-1',
+                name: 'Postgres',
+                type: IntegrationType.Postgres,
+                host: 'localhost',
+                port: 5432,
+                database: 'analytics',
+                username: 'user',
+                password: 'secret'
+            };
+
+            assert.strictEqual(getIntegrationDatabase(config), 'analytics');
+        });
+
+        test('returns the catalog for Trino and the project for BigQuery', () => {
+            const trino: TrinoIntegrationConfig = {
+                id: 'trino-1',
+                name: 'Trino',
+                type: IntegrationType.Trino,
+                host: 'localhost',
+                port: 8080,
+                username: 'trino',
+                password: '',
+                catalog: 'hive'
+            };
+            const bigQuery: BigQueryIntegrationConfig = {
+                id: 'bigquery-1',
+                name: 'BigQuery',
+                type: IntegrationType.BigQuery,
+                projectId: 'my-project',
+                credentials: '{}'
+            };
+
+            assert.strictEqual(getIntegrationDatabase(trino), 'hive');
+            assert.strictEqual(getIntegrationDatabase(bigQuery), 'my-project');
+        });
+    });
+
+    suite('quoteIdentifier', () => {
+        test('keeps plain lowercase names unquoted', () => {
+            assert.strictEqual(quoteIdentifier(IntegrationType.Postgres, 'orders_2024'), 'orders_2024');
+            assert.strictEqual(quoteIdentifier(IntegrationType.SqlServer, 'orders'), 'orders');
+        });
+
+        test('quotes other names in the dialect of the integration', () => {
+            assert.strictEqual(quoteIdentifier(IntegrationType.Postgres, 'Order Items'), '"Order Items"');
+            assert.strictEqual(quoteIdentifier(IntegrationType.Snowflake, 'say "hi"'), '"say ""hi"""');
+            assert.strictEqual(quoteIdentifier(IntegrationType.MySql, 'Orders'), '`Orders`');
+            assert.strictEqual(quoteIdentifier(IntegrationType.ClickHouse, 'a`b'), '`a``b`');
+            assert.strictEqual(quoteIdentifier(IntegrationType.SqlServer, 'a]b'), '[a]]b]');
+        });
+    });
+
+    suite('buildSelectQuery', () => {
+        test('limits the rows of the selected table', () => {
+            assert.strictEqual(
+                buildSelectQuery(IntegrationType.Postgres, 'public', 'Orders', 100),
+                'SELECT *\nFROM public."Orders"\nLIMIT 100'
+            );
+        });
+
+        test('uses TOP for SQL Server', () => {
+            assert.strictEqual(
+                buildSelectQuery(IntegrationType.SqlServer, 'dbo', 'orders', 100),
+                'SELECT TOP 100 *\nFROM dbo.orders'
+            );
+        });
+
+        test('quotes the dataset and table together for BigQuery', () => {
+            assert.strictEqual(
+                buildSelectQuery(IntegrationType.BigQuery, 'sales', 'orders', 10),
+                'SELECT *\nFROM `sales.orders`\nLIMIT 10'
+            );
+        });
+    });
+
+    suite('formatTablePreview', () => {
+        test('formats the rows as a Markdown table', () => {
+            const markdown = formatTablePreview('Postgres: public.orders', {
+                columns: ['id', 'note'],
+                rows: [
+                    [1, 'a | b'],
+                    [2, null]
+                ]
+            });
+
+            assert.strictEqual(
+                markdown,
+                [
+                    '# Postgres: public.orders',
+                    '',
+                    '| id | note |',
+                    '| --- | --- |',
+                    '| 1 | a \\| b |',
+                    '| 2 | NULL |',
+                    ''
+                ].join('\n')
+            );
+        });
+    });
+});
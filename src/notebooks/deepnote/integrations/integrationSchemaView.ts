@@ -0,0 +1,109 @@
+import { inject, injectable } from 'inversify';
+import { commands, l10n, ProgressLocation, window, workspace } from 'vscode';
+
+import { IExtensionSyncActivationService } from '../../../platform/activation/types';
+import { isCancellationError } from '../../../platform/common/cancellation';
+import { Commands } from '../../../platform/common/constants';
+import { IDisposableRegistry } from '../../../platform/common/types';
+import { logger } from '../../../platform/logging';
+import { DEEPNOTE_NOTEBOOK_TYPE } from '../../../kernels/deepnote/types';
+import { insertSqlBlock } from '../deepnoteNotebookCommandListener';
+import { buildSelectQuery, formatTablePreview } from './integrationSchemaUtils';
+import { IntegrationSchemaTreeDataProvider } from './integrationSchemaTreeDataProvider';
+import { IntegrationSchemaTreeItem } from './integrationSchemaTreeItem';
+import { IIntegrationSchemaProvider, IIntegrationStorage } from './types';
+
+/**
+ * Number of rows selected by the queries and previews of the data sources view
+ */
+const ROW_LIMIT = 100;
+
+/**
+ * Manages the Deepnote data sources tree view, which browses the databases of the configured integrations,
+ * and its commands
+ */
+@injectable()
+export class IntegrationSchemaView implements IExtensionSyncActivationService {
+    constructor(
+        @inject(IIntegrationStorage) private readonly integrationStorage: IIntegrationStorage,
+        @inject(IIntegrationSchemaProvider) private readonly schemaProvider: IIntegrationSchemaProvider,
+        @inject(IDisposableRegistry) private readonly disposableRegistry: IDisposableRegistry
+    ) {}
+
+    public activate(): void {
+        const treeDataProvider = new IntegrationSchemaTreeDataProvider(this.integrationStorage, this.schemaProvider);
+
+        this.disposableRegistry.push(treeDataProvider);
+        this.disposableRegistry.push(
+            window.createTreeView('deepnoteDataSources', { treeDataProvider, showCollapseAll: true })
+        );
+
+        this.disposableRegistry.push(
+            commands.registerCommand(Commands.RefreshDataSources, (item?: IntegrationSchemaTreeItem) =>
+                treeDataProvider.refresh(item)
+            )
+        );
+        this.disposableRegistry.push(
+            commands.registerCommand(Commands.InsertSelectQuery, (item: IntegrationSchemaTreeItem) =>
+                this.insertSelectQuery(item)
+            )
+        );
+        this.disposableRegistry.push(
+            commands.registerCommand(Commands.PreviewTableRows, (item: IntegrationSchemaTreeItem) =>
+                this.previewTableRows(item)
+            )
+        );
+    }
+
+    private async insertSelectQuery(item: IntegrationSchemaTreeItem): Promise<void> {
+        const { schema, table } = item.context;
+        const editor = window.activeNotebookEditor;
+
+        if (!schema || !table) {
+            return;
+        }
+
+        if (editor?.notebook.notebookType !== DEEPNOTE_NOTEBOOK_TYPE) {
+            void window.showErrorMessage(l10n.t('Open a Deepnote notebook to insert the query into.'));
+            return;
+        }
+
+        await insertSqlBlock(editor, item.config.id, buildSelectQuery(item.config.type, schema, table, ROW_LIMIT));
+    }
+
+    private async previewTableRows(item: IntegrationSchemaTreeItem): Promise<void> {
+        const { schema, table } = item.context;
+
+        if (!schema || !table) {
+            return;
+        }
+
+        const title = `${item.config.name}: ${schema}.${table}`;
+
+        try {
+            const preview = await window.withProgress(
+                {
+                    location: ProgressLocation.Notification,
+                    title: l10n.t('Loading the first {0} rows of {1}...', ROW_LIMIT, `${schema}.${table}`),
+                    cancellable: true
+                },
+                (_progress, token) => this.schemaProvider.previewTable(item.config, schema, table, ROW_LIMIT, token)
+            );
+
+            const document = await workspace.openTextDocument({
+                content: formatTablePreview(title, preview),
+                language: 'markdown'
+            });
+            await window.showTextDocument(document, { preview: true });
+        } catch (error) {
+            if (isCancellationError(error)) {
+                return;
+            }
+
+            logger.error(`IntegrationSchemaView: Failed to preview ${schema}.${table}`, error);
+            void window.showErrorMessage(
+                l10n.t('Failed to preview {0}: {1}', title, error instanceof Error ? error.message : String(error))
+            );
+        }
+    }
+}
@@ -0,0 +1,76 @@
+import { CancellationToken, CancellationTokenSource, l10n } from 'vscode';
+
+import * as path from '../../../platform/vscode-path/path';
+import { isCancellationError } from '../../../platform/common/cancellation';
+import { EXTENSION_ROOT_DIR } from '../../../platform/constants.node';
+import { IProcessServiceFactory } from '../../../platform/common/process/types.node';
+import { PythonEnvironment } from '../../../platform/pythonEnvironments/info';
+import { UnsupportedIntegrationError } from '../../../platform/errors/unsupportedIntegrationError';
+import { IntegrationConfig, requiresBrowserSignIn } from '../../../platform/notebooks/deepnote/integrationTypes';
+import { convertIntegrationConfigToJson } from '../../../platform/notebooks/deepnote/sqlIntegrationEnvironmentVariablesProvider';
+
+export interface IntegrationScriptOutput {
+    stdout: string;
+    stderr?: string;
+    /** Whether the script was stopped because it ran longer than the timeout */
+    timedOut: boolean;
+}
+
+/**
+ * Runs one of the integration scripts of `pythonFiles` with the Python interpreter of a toolkit virtual
+ * environment, where the SQL drivers are installed. The script receives the credentials of the integration
+ * in the DEEPNOTE_INTEGRATION_CREDENTIALS environment variable, in the format used by SQL blocks.
+ *
+ * Integrations that sign in through the browser are not connected to, the scripts must not open the browser.
+ *
+ * @throws {UnsupportedIntegrationError} When the integration signs in through the browser
+ * @throws When the configuration can't be converted to credentials, the interpreter fails to start,
+ * or with a `CancellationError` when the given token is cancelled
+ */
+export async function runIntegrationScript(
+    processServiceFactory: IProcessServiceFactory,
+    interpreter: PythonEnvironment,
+    scriptName: string,
+    config: IntegrationConfig,
+    options: { env?: Record<string, string>; timeoutSeconds: number; token?: CancellationToken }
+): Promise<IntegrationScriptOutput> {
+    if (requiresBrowserSignIn(config)) {
+        throw new UnsupportedIntegrationError(
+            l10n.t(
+                'The integration "{0}" signs in through the browser, so it is only connected to when running SQL blocks.',
+                config.name
+            )
+        );
+    }
+
+    const credentialsJson = convertIntegrationConfigToJson(config);
+    const timeout = new CancellationTokenSource();
+    const timer = setTimeout(() => timeout.cancel(), options.timeoutSeconds * 1000);
+    const cancellation = options.token?.onCancellationRequested(() => timeout.cancel());
+
+    try {
+        const processService = await processServiceFactory.create(undefined);
+        const result = await processService.exec(
+            interpreter.uri.fsPath,
+            [path.join(EXTENSION_ROOT_DIR, 'pythonFiles', scriptName)],
+            {
+                env: { ...process.env, ...options.env, DEEPNOTE_INTEGRATION_CREDENTIALS: credentialsJson },
+                throwOnStdErr: false,
+                token: timeout.token
+            }
+        );
+
+        return { stdout: result.stdout, stderr: result.stderr, timedOut: false };
+    } catch (error) {
+        // The process is killed when the token is cancelled, report it as a timeout unless the caller cancelled
+        if (isCancellationError(error) && !options.token?.isCancellationRequested) {
+            return { stdout: '', timedOut: true };
+        }
+
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        cancellation?.dispose();
+        timeout.dispose();
+    }
+}
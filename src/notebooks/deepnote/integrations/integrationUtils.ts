@@ -1,11 +1,31 @@
+import { l10n } from 'vscode';
+
+import { findScriptResult } from '../../../platform/deepnote/kernelScripts';
 import { logger } from '../../../platform/logging';
 import { IIntegrationStorage } from './types';
 import {
     DATAFRAME_SQL_INTEGRATION_ID,
+    IntegrationConfig,
+    IntegrationConnectionFailure,
+    IntegrationConnectionTestResult,
     IntegrationStatus,
+    IntegrationType,
     IntegrationWithStatus
 } from '../../../platform/notebooks/deepnote/integrationTypes';
 
+/**
+ * Python exceptions raised when the driver of an integration is not installed
+ */
+const DRIVER_ERROR_TYPES = new Set(['ModuleNotFoundError', 'ImportError', 'NoSuchModuleError']);
+
+const AUTH_ERROR_PATTERN =
+    /password|authenticat|access denied|login failed|permission denied|unauthori[sz]ed|invalid credentials|invalid_grant|\b40[13]\b/i;
+
+const SSL_ERROR_PATTERN = /\bssl\b|\btls\b|certificate/i;
+
+const NETWORK_ERROR_PATTERN =
+    /timed? ?out|connection refused|could not connect|can't connect|unable to connect|could not translate host|name or service not known|nodename nor servname|getaddrinfo|no route to host|network is unreachable|unknown host|max retries exceeded/i;
+
 /**
  * Represents a block with SQL integration metadata
  */
@@ -14,18 +34,114 @@ export interface BlockWithIntegration {
     sql_integration_id: string;
 }
 
+/**
+ * Returns the display name of an integration type
+ */
+export function getIntegrationTypeLabel(type: IntegrationType): string {
+    switch (type) {
+        case IntegrationType.Postgres:
+            return l10n.t('PostgreSQL');
+        case IntegrationType.BigQuery:
+            return l10n.t('BigQuery');
+        case IntegrationType.Snowflake:
+            return l10n.t('Snowflake');
+        case IntegrationType.MySql:
+            return l10n.t('MySQL');
+        case IntegrationType.MariaDb:
+            return l10n.t('MariaDB');
+        case IntegrationType.SqlServer:
+            return l10n.t('SQL Server');
+        case IntegrationType.Redshift:
+            return l10n.t('Redshift');
+        case IntegrationType.ClickHouse:
+            return l10n.t('ClickHouse');
+        case IntegrationType.Trino:
+            return l10n.t('Trino');
+        default:
+            return String(type);
+    }
+}
+
+/**
+ * Computes the status of an integration from its configuration and the result of its last connection test.
+ */
+export function getIntegrationStatus(
+    config: IntegrationConfig | null | undefined,
+    testResult: IntegrationConnectionTestResult | undefined
+): Pick<IntegrationWithStatus, 'status' | 'error'> {
+    if (!config) {
+        return { status: IntegrationStatus.Disconnected };
+    }
+
+    if (testResult && !testResult.success) {
+        return { status: IntegrationStatus.Error, error: testResult.message };
+    }
+
+    return { status: IntegrationStatus.Connected };
+}
+
+/**
+ * Tells auth, SSL and network failures apart from the Python exception raised by a connection test.
+ */
+export function classifyConnectionError(errorType: string, message: string): IntegrationConnectionFailure {
+    if (DRIVER_ERROR_TYPES.has(errorType)) {
+        return IntegrationConnectionFailure.Driver;
+    }
+
+    if (AUTH_ERROR_PATTERN.test(message)) {
+        return IntegrationConnectionFailure.Auth;
+    }
+
+    if (SSL_ERROR_PATTERN.test(message)) {
+        return IntegrationConnectionFailure.Ssl;
+    }
+
+    if (NETWORK_ERROR_PATTERN.test(message) || errorType === 'TimeoutError') {
+        return IntegrationConnectionFailure.Network;
+    }
+
+    return IntegrationConnectionFailure.Unknown;
+}
+
+/**
+ * Parses the output of `pythonFiles/deepnote_test_connection.py`, which ends with a JSON line:
+ * `{"success": true}` or `{"success": false, "error_type": "...", "message": "..."}`.
+ */
+export function parseConnectionTestOutput(stdout: string, stderr?: string): IntegrationConnectionTestResult {
+    const output = findScriptResult<{ success: boolean; error_type?: unknown; message?: unknown }>(stdout);
+
+    if (!output) {
+        return {
+            success: false,
+            failure: IntegrationConnectionFailure.Unknown,
+            message: stderr?.trim() || l10n.t('The connection test did not report a result.')
+        };
+    }
+
+    if (output.success) {
+        return { success: true };
+    }
+
+    const errorType = typeof output.error_type === 'string' ? output.error_type : '';
+    const message = typeof output.message === 'string' && output.message ? output.message : errorType;
+
+    return { success: false, failure: classifyConnectionError(errorType, message), message };
+}
+
 /**
  * Scans blocks for SQL integrations and builds a status map.
  * This is the core logic shared between IntegrationDetector and IntegrationManager.
  *
  * @param blocks - Iterator of blocks to scan (can be from Deepnote project or VSCode notebook cells)
  * @param integrationStorage - Storage service to check configuration status
+ * @param projectId - ID of the project the blocks belong to
  * @param logContext - Context string for logging (e.g., "IntegrationDetector", "IntegrationManager")
  * @returns Map of integration IDs to their status
  */
 export async function scanBlocksForIntegrations(
     blocks: Iterable<BlockWithIntegration>,
     integrationStorage: IIntegrationStorage,
+    projectId: string,
     logContext: string
 ): Promise<Map<string, IntegrationWithStatus>> {
     const integrations = new Map<string, IntegrationWithStatus>();
@@ -52,7 +168,7 @@ export async function scanBlocksForIntegrations(
         logger.debug(`${logContext}: Found integration: ${integrationId} in block ${block.id}`);
 
         // Check if the integration is configured
-        const config = await integrationStorage.getIntegrationConfig(integrationId);
+        const config = await integrationStorage.getProjectIntegrationConfig(projectId, integrationId);
 
         const status: IntegrationWithStatus = {
             config: config || null,
@@ -0,0 +1,143 @@
+import { assert } from 'chai';
+
+import {
+    IntegrationConnectionFailure,
+    IntegrationStatus,
+    IntegrationType,
+    PostgresIntegrationConfig
+} from '../../../platform/notebooks/deepnote/integrationTypes';
+import { classifyConnectionError, getIntegrationStatus, parseConnectionTestOutput } from './integrationUtils';
+
+suite('integrationUtils', () => {
+    const config: PostgresIntegrationConfig = {
+        id: 'postgres-1',
+        name: 'Postgres',
+        type: IntegrationType.Postgres,
+        host: 'localhost',
+        port: 5432,
+        database: 'db',
+        username: 'user',
+        password: 'secret'
+    };
+
+    suite('getIntegrationStatus', () => {
+        test('is disconnected without a configuration', () => {
+            assert.deepStrictEqual(getIntegrationStatus(null, { success: false, message: 'failed' }), {
+                status: IntegrationStatus.Disconnected
+            });
+        });
+
+        test('is connected when the connection was not tested or the test succeeded', () => {
+            assert.deepStrictEqual(getIntegrationStatus(config, undefined), { status: IntegrationStatus.Connected });
+            assert.deepStrictEqual(getIntegrationStatus(config, { success: true }), {
+                status: IntegrationStatus.Connected
+            });
+        });
+
+        test('reports the error of a failed connection test', () => {
+            assert.deepStrictEqual(
+                getIntegrationStatus(config, {
+                    success: false,
+                    failure: IntegrationConnectionFailure.Auth,
+                    message: 'password authentication failed'
+                }),
+                { status: IntegrationStatus.Error, error: 'password authentication failed' }
+            );
+        });
+    });
+
+    suite('classifyConnectionError', () => {
+        test('detects missing drivers from the exception type', () => {
+            assert.strictEqual(
+                classifyConnectionError('NoSuchModuleError', "Can't load plugin: sqlalchemy.dialects:trino"),
+                IntegrationConnectionFailure.Driver
+            );
+            assert.strictEqual(
+                classifyConnectionError('ModuleNotFoundError', "No module named 'pymysql'"),
+                IntegrationConnectionFailure.Driver
+            );
+        });
+
+        test('detects authentication failures', () => {
+            assert.strictEqual(
+                classifyConnectionError(
+                    'OperationalError',
+                    'FATAL:  password authentication failed for user "postgres"'
+                ),
+                IntegrationConnectionFailure.Auth
+            );
+            assert.strictEqual(
+                classifyConnectionError('OperationalError', "(1045, \"Access denied for user 'root'@'localhost'\")"),
+                IntegrationConnectionFailure.Auth
+            );
+        });
+
+        test('detects SSL failures', () => {
+            assert.strictEqual(
+                classifyConnectionError('OperationalError', 'SSL error: certificate verify failed'),
+                IntegrationConnectionFailure.Ssl
+            );
+        });
+
+        test('detects network failures', () => {
+            assert.strictEqual(
+                classifyConnectionError(
+                    'OperationalError',
+                    'could not translate host name "db.example" to address: Name or service not known'
+                ),
+                IntegrationConnectionFailure.Network
+            );
+            assert.strictEqual(
+                classifyConnectionError('OperationalError', 'connection to server failed: Connection refused'),
+                IntegrationConnectionFailure.Network
+            );
+            assert.strictEqual(classifyConnectionError('TimeoutError', ''), IntegrationConnectionFailure.Network);
+        });
+
+        test('falls back to an unknown failure', () => {
+            assert.strictEqual(
+                classifyConnectionError('ProgrammingError', 'database "missing" does not exist'),
+                IntegrationConnectionFailure.Unknown
+            );
+        });
+    });
+
+    suite('parseConnectionTestOutput', () => {
+        test('parses a successful test', () => {
+            assert.deepStrictEqual(parseConnectionTestOutput('{"success": true}\n'), { success: true });
+        });
+
+        test('parses a failed test and classifies its error', () => {
+            const stdout = JSON.stringify({
+                success: false,
+                error_type: 'OperationalError',
+                message: 'Connection refused'
+            });
+
+            assert.deepStrictEqual(parseConnectionTestOutput(stdout), {
+                success: false,
+                failure: IntegrationConnectionFailure.Network,
+                message: 'Connection refused'
+            });
+        });
+
+        test('uses the last result line and ignores other output', () => {
+            const stdout = [
+                'Some driver warning',
+                '{"success": false}',
+                '{"not": "a result"}',
+                '{"success": true}'
+            ].join('\n');
+
+            assert.deepStrictEqual(parseConnectionTestOutput(stdout), { success: true });
+        });
+
+        test('reports stderr when the script did not print a result', () => {
+            assert.deepStrictEqual(parseConnectionTestOutput('', 'Traceback (most recent call last):\n  ...\n'), {
+                success: false,
+                failure: IntegrationConnectionFailure.Unknown,
+                message: 'Traceback (most recent call last):\n  ...'
+            });
+        });
+    });
+});
@@ -1,19 +1,30 @@
-import { inject, injectable } from 'inversify';
-import { Disposable, l10n, Uri, ViewColumn, WebviewPanel, window } from 'vscode';
+import { inject, injectable, optional } from 'inversify';
+import { Disposable, l10n, Uri, ViewColumn, WebviewPanel, window, workspace } from 'vscode';
 
+import { DEEPNOTE_NOTEBOOK_TYPE } from '../../../kernels/deepnote/types';
 import { IExtensionContext } from '../../../platform/common/types';
 import * as localize from '../../../platform/common/utils/localize';
 import { logger } from '../../../platform/logging';
 import { LocalizedMessages, SharedMessages } from '../../../messageTypes';
 import { IDeepnoteNotebookManager, ProjectIntegration } from '../../types';
-import { IIntegrationStorage, IIntegrationWebviewProvider } from './types';
+import {
+    IIntegrationConnectionTester,
+    IIntegrationCredentialResolver,
+    IIntegrationDetector,
+    IIntegrationStorage,
+    IIntegrationWebviewProvider
+} from './types';
+import { getIntegrationStatus } from './integrationUtils';
 import {
     INTEGRATION_TYPE_TO_DEEPNOTE,
     IntegrationConfig,
+    IntegrationConnectionFailure,
+    IntegrationConnectionTestResult,
     IntegrationStatus,
     IntegrationWithStatus,
     RawIntegrationType
 } from '../../../platform/notebooks/deepnote/integrationTypes';
+import { ResolvedCredentialReference } from '../../../platform/notebooks/deepnote/integrationCredentialReferences';
 
 /**
  * Manages the webview panel for integration configuration
@@ -28,10 +39,25 @@ export class IntegrationWebviewProvider implements IIntegrationWebviewProvider {
 
     private projectId: string | undefined;
 
+    /**
+     * Last connection test of unsaved configurations from the form, applied when the same configuration is saved
+     */
+    private readonly formConnectionTests = new Map<
+        string,
+        { config: string; result: IntegrationConnectionTestResult }
+    >();
+
     constructor(
         @inject(IExtensionContext) private readonly extensionContext: IExtensionContext,
         @inject(IIntegrationStorage) private readonly integrationStorage: IIntegrationStorage,
-        @inject(IDeepnoteNotebookManager) private readonly notebookManager: IDeepnoteNotebookManager
+        @inject(IDeepnoteNotebookManager) private readonly notebookManager: IDeepnoteNotebookManager,
+        @inject(IIntegrationDetector) private readonly integrationDetector: IIntegrationDetector,
+        @inject(IIntegrationConnectionTester)
+        @optional()
+        private readonly connectionTester: IIntegrationConnectionTester | undefined,
+        @inject(IIntegrationCredentialResolver)
+        @optional()
+        private readonly credentialResolver: IIntegrationCredentialResolver | undefined
     ) {}
 
     /**
@@ -93,6 +119,7 @@ export class IntegrationWebviewProvider implements IIntegrationWebviewProvider {
             () => {
                 this.currentPanel = undefined;
                 this.integrations = new Map();
+                this.formConnectionTests.clear();
                 this.disposables.forEach((d) => d.dispose());
                 this.disposables.length = 0;
             },
@@ -132,6 +159,12 @@ export class IntegrationWebviewProvider implements IIntegrationWebviewProvider {
             integrationsPostgresTypeLabel: localize.Integrations.postgresTypeLabel,
             integrationsBigQueryTypeLabel: localize.Integrations.bigQueryTypeLabel,
             integrationsSnowflakeTypeLabel: localize.Integrations.snowflakeTypeLabel,
+            integrationsMySqlTypeLabel: localize.Integrations.mySqlTypeLabel,
+            integrationsMariaDbTypeLabel: localize.Integrations.mariaDbTypeLabel,
+            integrationsSqlServerTypeLabel: localize.Integrations.sqlServerTypeLabel,
+            integrationsRedshiftTypeLabel: localize.Integrations.redshiftTypeLabel,
+            integrationsClickHouseTypeLabel: localize.Integrations.clickHouseTypeLabel,
+            integrationsTrinoTypeLabel: localize.Integrations.trinoTypeLabel,
             integrationsCancel: localize.Integrations.cancel,
             integrationsSave: localize.Integrations.save,
             integrationsRequiredField: localize.Integrations.requiredField,
@@ -164,6 +197,20 @@ export class IntegrationWebviewProvider implements IIntegrationWebviewProvider {
             integrationsSnowflakeAuthMethodSubLabel: localize.Integrations.snowflakeAuthMethodSubLabel,
             integrationsSnowflakeAuthMethodUsernamePassword: localize.Integrations.snowflakeAuthMethodUsernamePassword,
             integrationsSnowflakeAuthMethodKeyPair: localize.Integrations.snowflakeAuthMethodKeyPair,
+            integrationsSnowflakeAuthMethodUserKeyPair: localize.Integrations.snowflakeAuthMethodUserKeyPair,
+            integrationsSnowflakeAuthMethodExternalBrowser: localize.Integrations.snowflakeAuthMethodExternalBrowser,
+            integrationsSnowflakeAuthMethodNativeOAuth: localize.Integrations.snowflakeAuthMethodNativeOAuth,
+            integrationsSnowflakeAuthMethodOkta: localize.Integrations.snowflakeAuthMethodOkta,
+            integrationsSnowflakeAuthMethodAzureAd: localize.Integrations.snowflakeAuthMethodAzureAd,
+            integrationsSnowflakeExternalBrowserHelp: localize.Integrations.snowflakeExternalBrowserHelp,
+            integrationsSnowflakeOAuthHelp: localize.Integrations.snowflakeOAuthHelp,
+            integrationsSnowflakeOktaSubdomainLabel: localize.Integrations.snowflakeOktaSubdomainLabel,
+            integrationsSnowflakeOktaAuthorizationServerLabel:
+                localize.Integrations.snowflakeOktaAuthorizationServerLabel,
+            integrationsSnowflakeAzureTenantLabel: localize.Integrations.snowflakeAzureTenantLabel,
+            integrationsSnowflakeAzureResourceLabel: localize.Integrations.snowflakeAzureResourceLabel,
+            integrationsSnowflakeClientIdLabel: localize.Integrations.snowflakeClientIdLabel,
+            integrationsSnowflakeClientSecretLabel: localize.Integrations.snowflakeClientSecretLabel,
             integrationsSnowflakeUnsupportedAuthMethod: localize.Integrations.snowflakeUnsupportedAuthMethod,
             integrationsSnowflakeUsernameLabel: localize.Integrations.snowflakeUsernameLabel,
             integrationsSnowflakePasswordLabel: localize.Integrations.snowflakePasswordLabel,
@@ -182,6 +229,36 @@ export class IntegrationWebviewProvider implements IIntegrationWebviewProvider {
             integrationsSnowflakeRolePlaceholder: localize.Integrations.snowflakeRolePlaceholder,
             integrationsSnowflakeWarehouseLabel: localize.Integrations.snowflakeWarehouseLabel,
             integrationsSnowflakeWarehousePlaceholder: localize.Integrations.snowflakeWarehousePlaceholder,
+            integrationsServerNameLabel: localize.Integrations.serverNameLabel,
+            integrationsServerNamePlaceholder: localize.Integrations.serverNamePlaceholder('{0}'),
+            integrationsServerHostLabel: localize.Integrations.serverHostLabel,
+            integrationsServerPortLabel: localize.Integrations.serverPortLabel,
+            integrationsServerDatabaseLabel: localize.Integrations.serverDatabaseLabel,
+            integrationsServerDatabasePlaceholder: localize.Integrations.serverDatabasePlaceholder,
+            integrationsServerCatalogLabel: localize.Integrations.serverCatalogLabel,
+            integrationsServerCatalogPlaceholder: localize.Integrations.serverCatalogPlaceholder,
+            integrationsServerSchemaLabel: localize.Integrations.serverSchemaLabel,
+            integrationsServerUsernameLabel: localize.Integrations.serverUsernameLabel,
+            integrationsServerPasswordLabel: localize.Integrations.serverPasswordLabel,
+            integrationsServerPasswordOptionalLabel: localize.Integrations.serverPasswordOptionalLabel,
+            integrationsServerPasswordPlaceholder: localize.Integrations.serverPasswordPlaceholder,
+            integrationsServerSslLabel: localize.Integrations.serverSslLabel,
+            integrationsServerHttpsLabel: localize.Integrations.serverHttpsLabel,
+            integrationsTestConnection: localize.Integrations.testConnection,
+            integrationsTestingConnection: localize.Integrations.testingConnection,
+            integrationsConnectionSuccessful: localize.Integrations.connectionSuccessful,
+            integrationsConnectionError: localize.Integrations.connectionError,
+            integrationsConnectionFailed: localize.Integrations.connectionFailed,
+            integrationsConnectionFailedAuth: localize.Integrations.connectionFailedAuth,
+            integrationsConnectionFailedNetwork: localize.Integrations.connectionFailedNetwork,
+            integrationsConnectionFailedSsl: localize.Integrations.connectionFailedSsl,
+            integrationsConnectionFailedDriver: localize.Integrations.connectionFailedDriver,
+            integrationsConnectionFailedEnvironment: localize.Integrations.connectionFailedEnvironment,
+            integrationsCredentialSourcesTitle: localize.Integrations.credentialSourcesTitle,
+            integrationsCredentialSourceEnv: localize.Integrations.credentialSourceEnv('{0}'),
+            integrationsCredentialSourceDotenv: localize.Integrations.credentialSourceDotenv('{0}'),
+            integrationsCredentialSourceUndefined: localize.Integrations.credentialSourceUndefined,
+            integrationsCredentialReferencesHint: localize.Integrations.credentialReferencesHint,
             integrationsUnnamedIntegration: localize.Integrations.unnamedIntegration('{0}')
         };
 
@@ -202,6 +279,7 @@ export class IntegrationWebviewProvider implements IIntegrationWebviewProvider {
 
         const integrationsData = Array.from(this.integrations.entries()).map(([id, integration]) => ({
             config: integration.config,
+            error: integration.error,
             id,
             integrationName: integration.integrationName,
             integrationType: integration.integrationType,
@@ -239,6 +317,11 @@ export class IntegrationWebviewProvider implements IIntegrationWebviewProvider {
                     await this.deleteConfiguration(message.integrationId);
                 }
                 break;
+            case 'testConnection':
+                if (message.integrationId) {
+                    await this.testConnection(message.integrationId, message.config);
+                }
+                break;
         }
     }
 
@@ -253,6 +336,7 @@ export class IntegrationWebviewProvider implements IIntegrationWebviewProvider {
 
         await this.currentPanel?.webview.postMessage({
             config: integration.config,
+            credentialSources: await this.getCredentialSources(integration.config),
             integrationId,
             integrationName: integration.integrationName,
             integrationType: integration.integrationType,
@@ -260,18 +344,54 @@ export class IntegrationWebviewProvider implements IIntegrationWebviewProvider {
         });
     }
 
+    /**
+     * Fields of a configuration that reference environment variables or keys of the `.env` file
+     */
+    private async getCredentialSources(config: IntegrationConfig | null): Promise<ResolvedCredentialReference[]> {
+        if (!config || !this.credentialResolver) {
+            return [];
+        }
+
+        const notebook = workspace.notebookDocuments.find(
+            (doc) => doc.notebookType === DEEPNOTE_NOTEBOOK_TYPE && doc.metadata?.deepnoteProjectId === this.projectId
+        );
+
+        try {
+            const { references } = await this.credentialResolver.resolve(config, notebook?.uri);
+            return references;
+        } catch (error) {
+            logger.error('IntegrationWebviewProvider: Failed to resolve credential references', error);
+            return [];
+        }
+    }
+
     /**
      * Save the configuration for an integration
      */
     private async saveConfiguration(integrationId: string, config: IntegrationConfig): Promise<void> {
         try {
-            await this.integrationStorage.save(config);
+            if (this.projectId) {
+                await this.integrationStorage.saveProjectIntegrationConfig(this.projectId, config);
+            } else {
+                await this.integrationStorage.save(config);
+            }
+
+            // Keep the result of a connection test only if it tested the saved configuration
+            const formConnectionTest = this.formConnectionTests.get(integrationId);
+            this.formConnectionTests.delete(integrationId);
+            this.integrationDetector.setConnectionTestResult(
+                integrationId,
+                formConnectionTest?.config === JSON.stringify(config) ? formConnectionTest.result : undefined
+            );
 
             // Update local state
             const integration = this.integrations.get(integrationId);
             if (integration) {
                 integration.config = config;
-                integration.status = IntegrationStatus.Connected;
+                Object.assign(
+                    integration,
+                    getIntegrationStatus(config, this.integrationDetector.getConnectionTestResult(integrationId))
+                );
                 this.integrations.set(integrationId, integration);
             }
 
@@ -300,13 +420,22 @@ export class IntegrationWebviewProvider implements IIntegrationWebviewProvider {
      */
     private async deleteConfiguration(integrationId: string): Promise<void> {
         try {
-            await this.integrationStorage.delete(integrationId);
+            // Configurations saved before they were stored per project are global
+            const deleted =
+                this.projectId !== undefined &&
+                (await this.integrationStorage.deleteProjectIntegrationConfig(this.projectId, integrationId));
+
+            if (!deleted) {
+                await this.integrationStorage.delete(integrationId);
+            }
+            this.integrationDetector.setConnectionTestResult(integrationId, undefined);
 
             // Update local state
             const integration = this.integrations.get(integrationId);
             if (integration) {
                 integration.config = null;
                 integration.status = IntegrationStatus.Disconnected;
+                integration.error = undefined;
                 this.integrations.set(integrationId, integration);
             }
 
@@ -330,6 +459,46 @@ export class IntegrationWebviewProvider implements IIntegrationWebviewProvider {
         }
     }
 
+    /**
+     * Test the connection of an integration and report the result to the webview.
+     * Without a config, the saved configuration is tested and the result is shown in the integrations list.
+     * @param integrationId The integration ID
+     * @param config Configuration from the form, which may not be saved yet
+     */
+    private async testConnection(integrationId: string, config?: IntegrationConfig): Promise<void> {
+        const integration = this.integrations.get(integrationId);
+        const testedConfig = config ?? integration?.config;
+        if (!testedConfig || !this.projectId) {
+            return;
+        }
+
+        const result: IntegrationConnectionTestResult = this.connectionTester
+            ? await this.connectionTester.testConnection(this.projectId, testedConfig)
+            : {
+                  success: false,
+                  failure: IntegrationConnectionFailure.Environment,
+                  message: l10n.t('Testing connections is not supported in this environment.')
+              };
+
+        logger.debug(
+            `IntegrationWebviewProvider: Connection test of ${integrationId} ${result.success ? 'succeeded' : 'failed'}`
+        );
+
+        if (config) {
+            this.formConnectionTests.set(integrationId, { config: JSON.stringify(config), result });
+        } else if (integration) {
+            this.integrationDetector.setConnectionTestResult(integrationId, result);
+            Object.assign(integration, getIntegrationStatus(testedConfig, result));
+            await this.updateWebview();
+        }
+
+        await this.currentPanel?.webview.postMessage({
+            integrationId,
+            result,
+            type: 'connectionTestResult'
+        });
+    }
+
     /**
      * Update the project's integrations list based on current integrations
      */
@@ -2,34 +2,107 @@
 // Licensed under the MIT License.
 
 import { inject, injectable } from 'inversify';
-import { IStartupCodeProvider, IStartupCodeProviders, StartupCodePriority, IKernel } from '../../../kernels/types';
+import {
+    IKernelProvider,
+    IStartupCodeProvider,
+    IStartupCodeProviders,
+    StartupCodePriority,
+    IKernel
+} from '../../../kernels/types';
 import { JupyterNotebookView } from '../../../platform/common/constants';
 import { IExtensionSyncActivationService } from '../../../platform/activation/types';
+import { IDisposableRegistry } from '../../../platform/common/types';
+import { EnvironmentVariables } from '../../../platform/common/variables/types';
 import { ISqlIntegrationEnvVarsProvider } from '../../../platform/notebooks/deepnote/types';
+import { SQL_EXECUTE_FUNCTION_NAME, tagSqlBlockCode } from '../../../platform/notebooks/deepnote/sqlQueryTags';
+import { cellCodeTransforms } from '../../../platform/notebooks/cellCodeTransforms';
 import { logger } from '../../../platform/logging';
 import { isPythonKernelConnection } from '../../../kernels/helpers';
 import { DEEPNOTE_NOTEBOOK_TYPE } from '../../../kernels/deepnote/types';
-import { workspace } from 'vscode';
+import { l10n, window, workspace } from 'vscode';
+import * as path from '../../../platform/vscode-path/path';
+
+/**
+ * Error messages of the drivers when a query is cancelled: Postgres, Redshift, Snowflake and BigQuery
+ */
+const QUERY_CANCELLED_MESSAGES = [
+    'canceling statement due to user request',
+    "cancelled on user's request",
+    'sql execution canceled',
+    'user requested cancellation'
+];
+
+/**
+ * Defines the function SQL blocks run their query with. It adds the tag of the block to the query, and when the
+ * query is cancelled in the database, shows the SQL metadata output of a `cancelled` status and stops the block
+ * with a short error, in place of the traceback of the driver.
+ */
+const SQL_EXECUTE_FUNCTION_CODE = [
+    'class _DeepnoteQueryCancelled(Exception):',
+    '    def _render_traceback_(self):',
+    '        return ["Query cancelled"]',
+    `def ${SQL_EXECUTE_FUNCTION_NAME}(query_tag, *args, **kwargs):`,
+    '    kwargs["audit_sql_comment"] = f"/* {query_tag} */"',
+    '    try:',
+    '        return _dntk.execute_sql(*args, **kwargs)',
+    '    except Exception as error:',
+    '        message = str(getattr(error, "orig", None) or error).lower()',
+    `        if not any(cancelled in message for cancelled in ${JSON.stringify(QUERY_CANCELLED_MESSAGES)}):`,
+    '            raise',
+    '    from IPython.display import display',
+    '    display({"application/vnd.deepnote.sql-output-metadata+json": {"status": "cancelled"}}, raw=True)',
+    '    raise _DeepnoteQueryCancelled() from None'
+];
 
 /**
  * Provides startup code to inject SQL integration credentials into the kernel environment.
  * This is necessary because Jupyter doesn't automatically pass all environment variables
  * from the server process to the kernel process.
+ *
+ * When the credentials change, for example after an integration is edited, the updated variables are
+ * also pushed into the running kernels, so they don't have to be restarted.
+ *
+ * The startup code also defines the function SQL blocks run their query with, see `SQL_EXECUTE_FUNCTION_CODE`,
+ * and the code of SQL blocks is changed to call it with the tag of the block.
  */
 @injectable()
 export class SqlIntegrationStartupCodeProvider implements IStartupCodeProvider, IExtensionSyncActivationService {
     public priority = StartupCodePriority.Base;
 
+    /**
+     * SQL integration env vars set in each kernel, by the startup code or by the last reload
+     */
+    private readonly kernelVariables = new WeakMap<IKernel, EnvironmentVariables>();
+
+    private pendingReload: Promise<void> = Promise.resolve();
+
     constructor(
         @inject(IStartupCodeProviders) private readonly registry: IStartupCodeProviders,
         @inject(ISqlIntegrationEnvVarsProvider)
-        private readonly envVarsProvider: ISqlIntegrationEnvVarsProvider
+        private readonly envVarsProvider: ISqlIntegrationEnvVarsProvider,
+        @inject(IKernelProvider) private readonly kernelProvider: IKernelProvider,
+        @inject(IDisposableRegistry) private readonly disposables: IDisposableRegistry
     ) {}
 
     activate(): void {
         logger.debug('SqlIntegrationStartupCodeProvider: Activating and registering with JupyterNotebookView');
         this.registry.register(this, JupyterNotebookView);
         logger.debug('SqlIntegrationStartupCodeProvider: Successfully registered');
+
+        this.disposables.push(
+            cellCodeTransforms.register(DEEPNOTE_NOTEBOOK_TYPE, (code, cell) =>
+                cell.metadata?.type === 'sql' && typeof cell.metadata.id === 'string'
+                    ? tagSqlBlockCode(code, cell.metadata.id)
+                    : code
+            )
+        );
+
+        // Reloads run one after the other, so that a kernel never gets older credentials after newer ones
+        this.disposables.push(
+            this.envVarsProvider.onDidChangeEnvironmentVariables(() => {
+                this.pendingReload = this.pendingReload.then(() => this.reloadRunningKernels());
+            })
+        );
     }
 
     async getCode(kernel: IKernel): Promise<string[]> {
@@ -67,6 +140,7 @@ export class SqlIntegrationStartupCodeProvider implements IStartupCodeProvider,
         try {
             // Get SQL integration environment variables for this notebook
             const envVars = await this.envVarsProvider.getEnvironmentVariables(kernel.resourceUri);
+            this.kernelVariables.set(kernel, envVars ?? {});
 
             if (!envVars || Object.keys(envVars).length === 0) {
                 logger.trace(
@@ -85,17 +159,13 @@ export class SqlIntegrationStartupCodeProvider implements IStartupCodeProvider,
             const code: string[] = [];
 
             code.push('try:');
-            code.push('    import os');
             code.push(`    # [SQL Integration] Setting ${Object.keys(envVars).length} SQL integration env vars...`);
 
             // Set each environment variable directly in os.environ
-            for (const [key, value] of Object.entries(envVars)) {
-                if (value) {
-                    // Use JSON.stringify to properly escape the value
-                    const jsonEscaped = JSON.stringify(value);
-                    code.push(`    os.environ['${key}'] = ${jsonEscaped}`);
-                }
-            }
+            code.push(...getEnvironmentVariablesCode(envVars, []).map((line) => `    ${line}`));
+
+            // Run the queries of SQL blocks with their tag, and show cancelled queries as such
+            code.push(...SQL_EXECUTE_FUNCTION_CODE.map((line) => `    ${line}`));
 
             code.push(
                 `    # [SQL Integration] Successfully set ${Object.keys(envVars).length} SQL integration env vars`
@@ -113,4 +183,95 @@ export class SqlIntegrationStartupCodeProvider implements IStartupCodeProvider,
             return [];
         }
     }
+
+    /**
+     * Pushes the current SQL integration env vars into the running kernels whose variables changed,
+     * and tells the user which kernels got the new credentials.
+     */
+    private async reloadRunningKernels(): Promise<void> {
+        const reloadedNotebooks: string[] = [];
+
+        for (const kernel of this.kernelProvider.kernels) {
+            const previous = this.kernelVariables.get(kernel);
+
+            // Only kernels that received the variables at startup, and are still running
+            if (!previous || !kernel.session || kernel.disposed || kernel.disposing || kernel.status === 'dead') {
+                continue;
+            }
+
+            try {
+                const envVars = (await this.envVarsProvider.getEnvironmentVariables(kernel.resourceUri)) ?? {};
+                const changed = Object.fromEntries(
+                    Object.entries(envVars).filter(([key, value]) => value && previous[key] !== value)
+                );
+                const removed = Object.keys(previous).filter((key) => envVars[key] === undefined);
+
+                if (Object.keys(changed).length === 0 && removed.length === 0) {
+                    continue;
+                }
+
+                logger.debug(
+                    `SqlIntegrationStartupCodeProvider: Reloading ${Object.keys(changed).length} and removing ${
+                        removed.length
+                    } SQL integration env vars in kernel ${kernel.id}`
+                );
+
+                const outputs = await this.kernelProvider
+                    .getKernelExecution(kernel)
+                    .executeHidden(getEnvironmentVariablesCode(changed, removed).join('\n'));
+
+                if (outputs.some((output) => output.output_type === 'error')) {
+                    logger.error(
+                        `SqlIntegrationStartupCodeProvider: Failed to reload SQL integration env vars in kernel ${kernel.id}`
+                    );
+                    continue;
+                }
+
+                this.kernelVariables.set(kernel, envVars);
+                reloadedNotebooks.push(getNotebookName(kernel));
+            } catch (error) {
+                logger.error(
+                    `SqlIntegrationStartupCodeProvider: Failed to reload SQL integration env vars in kernel ${kernel.id}`,
+                    error
+                );
+            }
+        }
+
+        if (reloadedNotebooks.length === 1) {
+            void window.showInformationMessage(
+                l10n.t('The running kernel of {0} now uses the updated integration credentials.', reloadedNotebooks[0])
+            );
+        } else if (reloadedNotebooks.length > 1) {
+            void window.showInformationMessage(
+                l10n.t('{0} running kernels now use the updated integration credentials.', reloadedNotebooks.length)
+            );
+        }
+    }
+}
+
+/**
+ * Python statements setting env vars in os.environ, and removing the ones that are no longer set
+ */
+function getEnvironmentVariablesCode(envVars: EnvironmentVariables, removed: string[]): string[] {
+    const code = ['import os'];
+
+    for (const [key, value] of Object.entries(envVars)) {
+        if (value) {
+            // Use JSON.stringify to properly escape the value
+            const jsonEscaped = JSON.stringify(value);
+            code.push(`os.environ['${key}'] = ${jsonEscaped}`);
+        }
+    }
+
+    for (const key of removed) {
+        code.push(`os.environ.pop('${key}', None)`);
+    }
+
+    return code;
+}
+
+function getNotebookName(kernel: IKernel): string {
+    const name = kernel.notebook.metadata?.deepnoteNotebookName;
+
+    return typeof name === 'string' && name ? name : path.basename(kernel.notebook.uri.path);
 }
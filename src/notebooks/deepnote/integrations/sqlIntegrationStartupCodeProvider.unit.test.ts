@@ -0,0 +1,146 @@
+import { assert } from 'chai';
+import { anything, capture, instance, mock, verify, when } from 'ts-mockito';
+import { EventEmitter, NotebookCell, NotebookDocument, Uri } from 'vscode';
+
+import {
+    IKernel,
+    IKernelProvider,
+    IKernelSession,
+    INotebookKernelExecution,
+    IStartupCodeProviders
+} from '../../../kernels/types';
+import { DEEPNOTE_NOTEBOOK_TYPE } from '../../../kernels/deepnote/types';
+import { IDisposableRegistry, Resource } from '../../../platform/common/types';
+import { ISqlIntegrationEnvVarsProvider } from '../../../platform/notebooks/deepnote/types';
+import { cellCodeTransforms } from '../../../platform/notebooks/cellCodeTransforms';
+import { mockedVSCodeNamespaces, resetVSCodeMocks } from '../../../test/vscode-mock';
+import { SqlIntegrationStartupCodeProvider } from './sqlIntegrationStartupCodeProvider';
+
+suite('SqlIntegrationStartupCodeProvider', () => {
+    const uri = Uri.file('/test/project.deepnote');
+    let provider: SqlIntegrationStartupCodeProvider;
+    let envVarsProvider: ISqlIntegrationEnvVarsProvider;
+    let execution: INotebookKernelExecution;
+    let kernel: IKernel;
+    let onDidChangeEnvironmentVariables: EventEmitter<Resource>;
+    let disposables: IDisposableRegistry;
+
+    setup(() => {
+        resetVSCodeMocks();
+        disposables = [];
+        onDidChangeEnvironmentVariables = new EventEmitter<Resource>();
+
+        const notebook = {
+            uri,
+            notebookType: DEEPNOTE_NOTEBOOK_TYPE,
+            metadata: { deepnoteNotebookName: 'Analysis' }
+        } as unknown as NotebookDocument;
+        when(mockedVSCodeNamespaces.workspace.notebookDocuments).thenReturn([notebook]);
+        when(mockedVSCodeNamespaces.window.showInformationMessage(anything())).thenResolve();
+
+        const kernelMock = mock<IKernel>();
+        when(kernelMock.id).thenReturn('kernel-1');
+        when(kernelMock.notebook).thenReturn(notebook);
+        when(kernelMock.resourceUri).thenReturn(uri);
+        when(kernelMock.kernelConnectionMetadata).thenReturn({ kind: 'startUsingPythonInterpreter' } as never);
+        when(kernelMock.session).thenReturn({} as IKernelSession);
+        when(kernelMock.status).thenReturn('idle');
+        when(kernelMock.disposed).thenReturn(false);
+        when(kernelMock.disposing).thenReturn(false);
+        kernel = instance(kernelMock);
+
+        execution = mock<INotebookKernelExecution>();
+        when(execution.executeHidden(anything())).thenResolve([]);
+
+        const kernelProvider = mock<IKernelProvider>();
+        when(kernelProvider.kernels).thenReturn([kernel]);
+        when(kernelProvider.getKernelExecution(anything())).thenReturn(instance(execution));
+
+        envVarsProvider = mock<ISqlIntegrationEnvVarsProvider>();
+        when(envVarsProvider.onDidChangeEnvironmentVariables).thenReturn(onDidChangeEnvironmentVariables.event);
+        when(envVarsProvider.getEnvironmentVariables(uri)).thenResolve({ SQL_WAREHOUSE: 'old', SQL_LAKE: 'lake' });
+
+        provider = new SqlIntegrationStartupCodeProvider(
+            instance(mock<IStartupCodeProviders>()),
+            instance(envVarsProvider),
+            instance(kernelProvider),
+            disposables
+        );
+        provider.activate();
+    });
+
+    teardown(() => {
+        disposables.forEach((d) => d.dispose());
+        onDidChangeEnvironmentVariables.dispose();
+    });
+
+    async function changeCredentials() {
+        onDidChangeEnvironmentVariables.fire(undefined);
+        // Let the queued reload run
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    test('sets the SQL integration env vars when the kernel starts', async () => {
+        const code = (await provider.getCode(kernel)).join('\n');
+
+        assert.include(code, `os.environ['SQL_WAREHOUSE'] = "old"`);
+        assert.include(code, `os.environ['SQL_LAKE'] = "lake"`);
+    });
+
+    test('runs the queries of SQL blocks with their tag and reports them when cancelled', async () => {
+        const code = (await provider.getCode(kernel)).join('\n');
+
+        assert.include(code, 'def _deepnote_execute_sql(query_tag, *args, **kwargs):');
+        assert.include(code, 'kwargs["audit_sql_comment"] = f"/* {query_tag} */"');
+        assert.include(code, `{"application/vnd.deepnote.sql-output-metadata+json": {"status": "cancelled"}}`);
+        assert.notInclude(code, 'set_custom_exc');
+    });
+
+    test('runs the query of SQL blocks with their tag, falling back to the toolkit without the startup code', () => {
+        const notebook = { notebookType: DEEPNOTE_NOTEBOOK_TYPE } as NotebookDocument;
+        const sqlBlock = { notebook, metadata: { id: 'block-1', type: 'sql' } } as unknown as NotebookCell;
+        const codeBlock = { notebook, metadata: { id: 'block-2', type: 'code' } } as unknown as NotebookCell;
+
+        const code = cellCodeTransforms.apply(sqlBlock, "df = _dntk.execute_sql('SELECT 1', 'SQL_WAREHOUSE')");
+
+        assert.include(
+            code,
+            'globals().get("_deepnote_execute_sql") or (lambda _tag, *args, **kwargs: _dntk.execute_sql('
+        );
+        assert.include(code, `)("deepnote-block:block-1", 'SELECT 1', 'SQL_WAREHOUSE')`);
+        assert.strictEqual(cellCodeTransforms.apply(codeBlock, '_dntk.execute_sql(x)'), '_dntk.execute_sql(x)');
+    });
+
+    test('pushes changed credentials into the running kernel and notifies the user', async () => {
+        await provider.getCode(kernel);
+        when(envVarsProvider.getEnvironmentVariables(uri)).thenResolve({ SQL_WAREHOUSE: 'new' });
+
+        await changeCredentials();
+
+        const [code] = capture(execution.executeHidden).last();
+        assert.strictEqual(
+            code,
+            ['import os', `os.environ['SQL_WAREHOUSE'] = "new"`, `os.environ.pop('SQL_LAKE', None)`].join('\n')
+        );
+        verify(
+            mockedVSCodeNamespaces.window.showInformationMessage(
+                'The running kernel of Analysis now uses the updated integration credentials.'
+            )
+        ).once();
+    });
+
+    test('leaves kernels alone when their credentials did not change', async () => {
+        await provider.getCode(kernel);
+
+        await changeCredentials();
+
+        verify(execution.executeHidden(anything())).never();
+        verify(mockedVSCodeNamespaces.window.showInformationMessage(anything())).never();
+    });
+
+    test('ignores kernels that did not start with the SQL integration env vars', async () => {
+        await changeCredentials();
+
+        verify(execution.executeHidden(anything())).never();
+    });
+});
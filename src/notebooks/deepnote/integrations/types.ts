@@ -1,7 +1,13 @@
-import { IntegrationWithStatus } from '../../../platform/notebooks/deepnote/integrationTypes';
+import type { CancellationToken, Uri } from 'vscode';
 
-// Re-export IIntegrationStorage from platform layer
-export { IIntegrationStorage } from '../../../platform/notebooks/deepnote/types';
+import {
+    IntegrationConfig,
+    IntegrationConnectionTestResult,
+    IntegrationWithStatus
+} from '../../../platform/notebooks/deepnote/integrationTypes';
+
+// Re-export IIntegrationStorage and IIntegrationCredentialResolver from platform layer
+export { IIntegrationCredentialResolver, IIntegrationStorage } from '../../../platform/notebooks/deepnote/types';
 
 export const IIntegrationDetector = Symbol('IIntegrationDetector');
 export interface IIntegrationDetector {
@@ -14,6 +20,139 @@ export interface IIntegrationDetector {
      * Check if a project has any unconfigured integrations
      */
     hasUnconfiguredIntegrations(projectId: string): Promise<boolean>;
+
+    /**
+     * Remember the result of the last connection test of an integration, so that detected
+     * integrations report its health. Pass undefined to forget it, e.g. when the configuration changed.
+     */
+    setConnectionTestResult(integrationId: string, result: IntegrationConnectionTestResult | undefined): void;
+
+    /**
+     * Get the result of the last connection test of an integration, if any
+     */
+    getConnectionTestResult(integrationId: string): IntegrationConnectionTestResult | undefined;
+}
+
+export const IIntegrationConnectionTester = Symbol('IIntegrationConnectionTester');
+export interface IIntegrationConnectionTester {
+    /**
+     * Try to connect with the given configuration from the toolkit virtual environment of the project
+     * @param projectId The Deepnote project ID, used to find the project's virtual environment
+     * @param config The configuration to test, saved or not
+     * @param token Cancellation token to stop the test
+     */
+    testConnection(
+        projectId: string,
+        config: IntegrationConfig,
+        token?: CancellationToken
+    ): Promise<IntegrationConnectionTestResult>;
+}
+
+export const IIntegrationQueryCanceller = Symbol('IIntegrationQueryCanceller');
+export interface IIntegrationQueryCanceller {
+    /**
+     * Cancel in the database the running query of a SQL block, found by the tag the block adds to its query,
+     * from the toolkit virtual environment of the notebook
+     * @param notebookUri The notebook whose SQL block runs the query
+     * @param config The configuration of the integration the query runs with
+     * @param queryTag The tag of the SQL block, see `getSqlQueryTag`
+     * @param startedAt When the SQL block started running, queries started before are left alone
+     * @returns The number of cancelled queries
+     * @throws When the database can't be reached or no toolkit environment is available
+     */
+    cancelQueries(notebookUri: Uri, config: IntegrationConfig, queryTag: string, startedAt: Date): Promise<number>;
+
+    /**
+     * Read how many rows the running query of a SQL block has produced so far, as reported by Snowflake and BigQuery
+     * @returns The number of rows, or undefined when the query is done or the database doesn't report them
+     * @throws When the database can't be reached or no toolkit environment is available
+     */
+    getRowsProduced(
+        notebookUri: Uri,
+        config: IntegrationConfig,
+        queryTag: string,
+        startedAt: Date
+    ): Promise<number | undefined>;
+}
+
+/**
+ * Schema, table or column of a database, as listed by the schema browser
+ */
+export interface DatabaseObject {
+    name: string;
+    /** Whether a table is a view */
+    kind?: 'table' | 'view';
+    /** Data type of a column, as reported by the driver */
+    type?: string;
+}
+
+/**
+ * First rows of a table
+ */
+export interface TablePreview {
+    columns: string[];
+    rows: unknown[][];
+}
+
+/**
+ * Table or view of a database catalog, with its columns
+ */
+export interface CatalogTable {
+    schema: string;
+    name: string;
+    kind: 'table' | 'view';
+    columns: DatabaseObject[];
+}
+
+/**
+ * Tables and columns of all the schemas of a database, used to autocomplete SQL blocks
+ */
+export interface DatabaseCatalog {
+    tables: CatalogTable[];
+    /** Schema that unqualified table names resolve to, when the database reports one */
+    defaultSchema?: string;
+    /** Whether tables were left out because the database has too many */
+    truncated: boolean;
+}
+
+export const IIntegrationSchemaProvider = Symbol('IIntegrationSchemaProvider');
+export interface IIntegrationSchemaProvider {
+    /**
+     * List the schemas of the database of an integration (datasets for BigQuery)
+     * @throws When the database can't be reached or no toolkit environment is available
+     */
+    getSchemas(config: IntegrationConfig, token?: CancellationToken): Promise<DatabaseObject[]>;
+
+    /**
+     * List the tables and views of a schema
+     */
+    getTables(config: IntegrationConfig, schema: string, token?: CancellationToken): Promise<DatabaseObject[]>;
+
+    /**
+     * List the columns of a table, with their types
+     */
+    getColumns(
+        config: IntegrationConfig,
+        schema: string,
+        table: string,
+        token?: CancellationToken
+    ): Promise<DatabaseObject[]>;
+
+    /**
+     * Fetch the first rows of a table
+     */
+    previewTable(
+        config: IntegrationConfig,
+        schema: string,
+        table: string,
+        limit: number,
+        token?: CancellationToken
+    ): Promise<TablePreview>;
+
+    /**
+     * Read the tables and columns of all the schemas of the database at once, leaving out system schemas
+     */
+    getCatalog(config: IntegrationConfig, token?: CancellationToken): Promise<DatabaseCatalog>;
 }
 
 export const IIntegrationWebviewProvider = Symbol('IIntegrationWebviewProvider');
@@ -0,0 +1,140 @@
+import { inject, injectable } from 'inversify';
+import { NotebookDocument } from 'vscode';
+
+import { IKernel, IKernelProvider } from '../../kernels/types';
+import { IFileSystem } from '../../platform/common/platform/types';
+import { IExtensionContext } from '../../platform/common/types';
+import type { DataframeInfo } from '../../platform/deepnote/chartSpec';
+import type { DataframeFilter } from '../../platform/deepnote/dataframeFilters';
+import { buildKernelFunctionCall, parseKernelFunctionOutputs } from '../../platform/deepnote/kernelScripts';
+import { logger } from '../../platform/logging';
+import { joinPath } from '../../platform/vscode-path/resources';
+
+/**
+ * Number of rows of a DataFrame the filters of a chart are previewed on
+ */
+const PREVIEW_SAMPLE_SIZE = 10_000;
+
+type ListDataframesResult = { success: true; dataframes: DataframeInfo[] } | { success: false; message: string };
+
+/**
+ * Result of previewing the filters of a chart, see `pythonFiles/deepnote_preview_chart_filters.py`
+ */
+export type ChartFilterPreview =
+    | { success: true; row_count: number; sample_size: number; remaining: number }
+    | { success: false; missing?: boolean; message: string };
+
+interface DataframeListEntry {
+    executionCount: number;
+    promise: Promise<DataframeInfo[] | undefined>;
+}
+
+/**
+ * Reads the DataFrames of the kernels of Deepnote notebooks for chart blocks. The list of DataFrames is
+ * read once per execution of the notebook.
+ */
+@injectable()
+export class KernelDataframes {
+    private readonly scripts = new Map<string, Promise<string>>();
+    private readonly lists = new WeakMap<IKernel, DataframeListEntry>();
+
+    constructor(
+        @inject(IKernelProvider) private readonly kernelProvider: IKernelProvider,
+        @inject(IFileSystem) private readonly fs: IFileSystem,
+        @inject(IExtensionContext) private readonly context: IExtensionContext
+    ) {}
+
+    public isKernelRunning(notebook: NotebookDocument): boolean {
+        return !!this.kernelProvider.get(notebook)?.session;
+    }
+
+    /**
+     * Lists the DataFrames of the kernel of a notebook with their columns, or returns undefined when the
+     * kernel is not running or they could not be read
+     */
+    public async list(notebook: NotebookDocument, refresh = false): Promise<DataframeInfo[] | undefined> {
+        const kernel = this.kernelProvider.get(notebook);
+
+        if (!kernel?.session) {
+            return undefined;
+        }
+
+        const executionCount = this.kernelProvider.getKernelExecution(kernel).executionCount;
+        let entry = this.lists.get(kernel);
+
+        if (refresh || !entry || entry.executionCount !== executionCount) {
+            entry = { executionCount, promise: this.readDataframes(kernel) };
+            this.lists.set(kernel, entry);
+        }
+
+        return entry.promise;
+    }
+
+    /**
+     * Applies filters to a sample of a DataFrame of the kernel of a notebook, or returns undefined when the
+     * kernel is not running
+     */
+    public async previewFilters(
+        notebook: NotebookDocument,
+        variableName: string,
+        filters: DataframeFilter[]
+    ): Promise<ChartFilterPreview | undefined> {
+        const kernel = this.kernelProvider.get(notebook);
+
+        if (!kernel?.session) {
+            return undefined;
+        }
+
+        try {
+            const scripts = await Promise.all([
+                this.getScript('deepnote_dataframe_filters.py'),
+                this.getScript('deepnote_preview_chart_filters.py')
+            ]);
+            const outputs = await this.kernelProvider
+                .getKernelExecution(kernel)
+                .executeHidden(
+                    buildKernelFunctionCall(scripts.join('\n\n'), '_deepnote_preview_chart_filters', [
+                        variableName,
+                        JSON.stringify(filters),
+                        PREVIEW_SAMPLE_SIZE
+                    ])
+                );
+
+            return parseKernelFunctionOutputs<ChartFilterPreview>(outputs, 'chart filter preview');
+        } catch (error) {
+            logger.warn(`KernelDataframes: Failed to preview the filters of DataFrame ${variableName}`, error);
+            return { success: false, message: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    private async readDataframes(kernel: IKernel): Promise<DataframeInfo[] | undefined> {
+        try {
+            const script = await this.getScript('deepnote_list_dataframes.py');
+            const outputs = await this.kernelProvider
+                .getKernelExecution(kernel)
+                .executeHidden(buildKernelFunctionCall(script, '_deepnote_list_dataframes', []));
+            const result = parseKernelFunctionOutputs<ListDataframesResult>(outputs, 'DataFrame listing');
+
+            if (!result.success) {
+                logger.warn(`KernelDataframes: Failed to list the DataFrames of the kernel: ${result.message}`);
+                return undefined;
+            }
+
+            return result.dataframes;
+        } catch (error) {
+            logger.error('KernelDataframes: Failed to list the DataFrames of the kernel', error);
+            return undefined;
+        }
+    }
+
+    private getScript(name: string): Promise<string> {
+        let script = this.scripts.get(name);
+
+        if (!script) {
+            script = this.fs.readFile(joinPath(this.context.extensionUri, 'pythonFiles', name));
+            this.scripts.set(name, script);
+        }
+
+        return script;
+    }
+}
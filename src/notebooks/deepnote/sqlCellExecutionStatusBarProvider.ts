@@ -0,0 +1,390 @@
+import {
+    CancellationToken,
+    EventEmitter,
+    NotebookCell,
+    NotebookCellStatusBarItem,
+    NotebookCellStatusBarItemProvider,
+    ProviderResult,
+    commands,
+    l10n,
+    notebooks,
+    window
+} from 'vscode';
+import { inject, injectable, optional } from 'inversify';
+
+import { IExtensionSyncActivationService } from '../../platform/activation/types';
+import { IDisposableRegistry } from '../../platform/common/types';
+import { Commands } from '../../platform/common/constants';
+import { logger } from '../../platform/logging';
+import { IntegrationConfig, IntegrationType } from '../../platform/notebooks/deepnote/integrationTypes';
+import { getSqlQueryTag } from '../../platform/notebooks/deepnote/sqlQueryTags';
+import {
+    NotebookCellExecutionState,
+    NotebookCellExecutionStateChangeEvent,
+    notebookCellExecutions
+} from '../../platform/notebooks/cellExecutionStateService';
+import { IIntegrationQueryCanceller, IIntegrationStorage } from './integrations/types';
+
+/**
+ * Integrations whose queries can be cancelled in the database
+ */
+const QUERY_CANCELLATION_TYPES: readonly IntegrationType[] = [
+    IntegrationType.Postgres,
+    IntegrationType.Redshift,
+    IntegrationType.Snowflake,
+    IntegrationType.BigQuery
+];
+
+/**
+ * Integrations whose databases report how many rows a running query has produced
+ */
+const QUERY_PROGRESS_TYPES: readonly IntegrationType[] = [IntegrationType.Snowflake, IntegrationType.BigQuery];
+
+/**
+ * How often the rows produced by a running query are read from the database
+ */
+const QUERY_PROGRESS_INTERVAL_MS = 5000;
+
+/**
+ * Queries that started up to this long before the SQL block are cancelled too, as the clocks of the
+ * database and of this machine may differ
+ */
+const QUERY_START_TOLERANCE_MS = 30_000;
+
+const DATAFRAME_MIME_TYPE = 'application/vnd.deepnote.dataframe.v3+json';
+
+interface RunningSqlBlock {
+    startedAt: number;
+    cancelling: boolean;
+    /** Rows produced by the query so far, as last read from the database */
+    rows?: number;
+    readingRows?: boolean;
+    rowsReadAt?: number;
+}
+
+/**
+ * Shows how long SQL blocks have been running and how many rows their query produced so far, with a button
+ * to cancel their query in the database, and the number of rows they returned once done.
+ */
+@injectable()
+export class SqlCellExecutionStatusBarProvider
+    implements NotebookCellStatusBarItemProvider, IExtensionSyncActivationService
+{
+    private readonly _onDidChangeCellStatusBarItems = new EventEmitter<void>();
+
+    public readonly onDidChangeCellStatusBarItems = this._onDidChangeCellStatusBarItems.event;
+
+    private readonly runningBlocks = new Map<NotebookCell, RunningSqlBlock>();
+
+    private elapsedTimer: ReturnType<typeof setInterval> | undefined;
+
+    constructor(
+        @inject(IDisposableRegistry) private readonly disposables: IDisposableRegistry,
+        @inject(IIntegrationStorage) private readonly integrationStorage: IIntegrationStorage,
+        @inject(IIntegrationQueryCanceller)
+        @optional()
+        private readonly queryCanceller: IIntegrationQueryCanceller | undefined
+    ) {}
+
+    public activate(): void {
+        this.disposables.push(notebooks.registerNotebookCellStatusBarItemProvider('deepnote', this));
+
+        this.disposables.push(
+            notebookCellExecutions.onDidChangeNotebookCellExecutionState((e) => this.onDidChangeExecutionState(e))
+        );
+
+        this.disposables.push(
+            commands.registerCommand(Commands.CancelSqlQuery, async (cell?: NotebookCell) => {
+                if (!cell) {
+                    // Fall back to the active notebook cell
+                    const activeEditor = window.activeNotebookEditor;
+                    if (activeEditor && activeEditor.selection) {
+                        cell = activeEditor.notebook.cellAt(activeEditor.selection.start);
+                    }
+                }
+
+                if (!cell || !this.runningBlocks.has(cell)) {
+                    void window.showErrorMessage(l10n.t('No running SQL block'));
+                    return;
+                }
+
+                await this.cancelQuery(cell);
+            })
+        );
+
+        this.disposables.push(this._onDidChangeCellStatusBarItems);
+        this.disposables.push({ dispose: () => this.stopElapsedTimer() });
+    }
+
+    public provideCellStatusBarItems(
+        cell: NotebookCell,
+        token: CancellationToken
+    ): ProviderResult<NotebookCellStatusBarItem | NotebookCellStatusBarItem[]> {
+        if (token?.isCancellationRequested) {
+            return undefined;
+        }
+
+        if (cell.document.languageId !== 'sql') {
+            return undefined;
+        }
+
+        return this.createStatusBarItems(cell);
+    }
+
+    private async createStatusBarItems(cell: NotebookCell): Promise<NotebookCellStatusBarItem[]> {
+        const running = this.runningBlocks.get(cell);
+
+        if (!running) {
+            const resultItem = this.createResultStatusBarItem(cell);
+
+            return resultItem ? [resultItem] : [];
+        }
+
+        const elapsed = formatElapsedTime(Date.now() - running.startedAt);
+
+        if (running.cancelling) {
+            return [
+                {
+                    text: `$(loading~spin) ${l10n.t('Cancelling query ({0})', elapsed)}`,
+                    alignment: 2, // NotebookCellStatusBarAlignment.Right
+                    priority: 100,
+                    tooltip: l10n.t('Waiting for the database to cancel the query')
+                }
+            ];
+        }
+
+        const items: NotebookCellStatusBarItem[] = [
+            {
+                text:
+                    running.rows === undefined
+                        ? `$(loading~spin) ${l10n.t('Running for {0}', elapsed)}`
+                        : `$(loading~spin) ${l10n.t(
+                              'Running for {0}, {1} rows so far',
+                              elapsed,
+                              running.rows.toLocaleString()
+                          )}`,
+                alignment: 2, // NotebookCellStatusBarAlignment.Right
+                priority: 100,
+                tooltip: l10n.t('The query has been running for {0}', elapsed)
+            }
+        ];
+
+        if (this.queryCanceller && (await this.getCancellableIntegration(cell))) {
+            items.push({
+                text: `$(debug-stop) ${l10n.t('Cancel query')}`,
+                alignment: 2, // NotebookCellStatusBarAlignment.Right
+                priority: 90,
+                tooltip: l10n.t('Cancel the query in the database, the kernel keeps running'),
+                command: {
+                    title: l10n.t('Cancel query'),
+                    command: Commands.CancelSqlQuery,
+                    arguments: [cell]
+                }
+            });
+        }
+
+        return items;
+    }
+
+    private createResultStatusBarItem(cell: NotebookCell): NotebookCellStatusBarItem | undefined {
+        const rowCount = getResultRowCount(cell);
+        const timing = cell.executionSummary?.timing;
+
+        if (rowCount === undefined || !timing || !cell.executionSummary?.success) {
+            return undefined;
+        }
+
+        const duration = formatElapsedTime(timing.endTime - timing.startTime);
+
+        return {
+            text:
+                rowCount === 1
+                    ? l10n.t('1 row in {0}', duration)
+                    : l10n.t('{0} rows in {1}', rowCount.toLocaleString(), duration),
+            alignment: 2, // NotebookCellStatusBarAlignment.Right
+            priority: 100,
+            tooltip: l10n.t('Number of rows returned by the query, and how long it ran')
+        };
+    }
+
+    private async cancelQuery(cell: NotebookCell): Promise<void> {
+        const running = this.runningBlocks.get(cell);
+
+        if (!running || running.cancelling) {
+            return;
+        }
+
+        const config = await this.getCancellableIntegration(cell);
+
+        if (!this.queryCanceller || !config) {
+            void window.showErrorMessage(l10n.t('Queries of this integration cannot be cancelled in the database'));
+            return;
+        }
+
+        running.cancelling = true;
+        this._onDidChangeCellStatusBarItems.fire();
+
+        try {
+            const cancelled = await this.queryCanceller.cancelQueries(
+                cell.notebook.uri,
+                config,
+                getSqlQueryTag(cell.metadata.id),
+                new Date(running.startedAt - QUERY_START_TOLERANCE_MS)
+            );
+
+            if (cancelled > 0) {
+                logger.info(`SqlCellExecutionStatusBarProvider: Cancelled ${cancelled} queries of ${config.id}`);
+                return;
+            }
+
+            running.cancelling = false;
+            void window.showWarningMessage(
+                l10n.t('{0} has no running query to cancel, the block may still be fetching results.', config.name)
+            );
+        } catch (error) {
+            logger.error(`SqlCellExecutionStatusBarProvider: Failed to cancel queries of ${config.id}`, error);
+            running.cancelling = false;
+            void window.showErrorMessage(
+                l10n.t(
+                    'Failed to cancel the query: {0}',
+                    error instanceof Error ? error.message : String(error ?? 'Unknown error')
+                )
+            );
+        } finally {
+            this._onDidChangeCellStatusBarItems.fire();
+        }
+    }
+
+    /**
+     * Reads the rows produced so far by the query of a running SQL block, at most every `QUERY_PROGRESS_INTERVAL_MS`
+     */
+    private async updateRowsProduced(cell: NotebookCell, running: RunningSqlBlock): Promise<void> {
+        if (
+            !this.queryCanceller ||
+            running.cancelling ||
+            running.readingRows ||
+            Date.now() - (running.rowsReadAt ?? running.startedAt) < QUERY_PROGRESS_INTERVAL_MS
+        ) {
+            return;
+        }
+
+        running.readingRows = true;
+
+        try {
+            const config = await this.getCancellableIntegration(cell);
+
+            if (config && QUERY_PROGRESS_TYPES.includes(config.type)) {
+                running.rows = await this.queryCanceller.getRowsProduced(
+                    cell.notebook.uri,
+                    config,
+                    getSqlQueryTag(cell.metadata.id),
+                    new Date(running.startedAt - QUERY_START_TOLERANCE_MS)
+                );
+            }
+        } catch (error) {
+            logger.debug('SqlCellExecutionStatusBarProvider: Failed to read the rows produced by the query', error);
+        } finally {
+            running.readingRows = false;
+            running.rowsReadAt = Date.now();
+        }
+    }
+
+    /**
+     * Returns the configuration of the integration the SQL block runs with, when its queries can be cancelled
+     */
+    private async getCancellableIntegration(cell: NotebookCell): Promise<IntegrationConfig | undefined> {
+        const integrationId = cell.metadata?.sql_integration_id;
+        const projectId = cell.notebook.metadata?.deepnoteProjectId;
+
+        // The block ID tags the query of the block in the database
+        if (typeof integrationId !== 'string' || typeof cell.metadata.id !== 'string' || !projectId) {
+            return undefined;
+        }
+
+        const config = await this.integrationStorage.getProjectIntegrationConfig(projectId, integrationId);
+
+        return config && QUERY_CANCELLATION_TYPES.includes(config.type) ? config : undefined;
+    }
+
+    private onDidChangeExecutionState(e: NotebookCellExecutionStateChangeEvent): void {
+        if (e.cell.notebook.notebookType !== 'deepnote' || e.cell.document.languageId !== 'sql') {
+            return;
+        }
+
+        if (e.state === NotebookCellExecutionState.Executing) {
+            this.runningBlocks.set(e.cell, { startedAt: Date.now(), cancelling: false });
+        } else if (e.state === NotebookCellExecutionState.Idle) {
+            this.runningBlocks.delete(e.cell);
+        } else {
+            return;
+        }
+
+        if (this.runningBlocks.size > 0) {
+            this.startElapsedTimer();
+        } else {
+            this.stopElapsedTimer();
+        }
+
+        this._onDidChangeCellStatusBarItems.fire();
+    }
+
+    private startElapsedTimer(): void {
+        if (!this.elapsedTimer) {
+            this.elapsedTimer = setInterval(() => {
+                for (const [cell, running] of this.runningBlocks) {
+                    void this.updateRowsProduced(cell, running);
+                }
+                this._onDidChangeCellStatusBarItems.fire();
+            }, 1000);
+        }
+    }
+
+    private stopElapsedTimer(): void {
+        if (this.elapsedTimer) {
+            clearInterval(this.elapsedTimer);
+            this.elapsedTimer = undefined;
+        }
+    }
+}
+
+/**
+ * Formats a duration as seconds, minutes and seconds, or hours and minutes, e.g. `42s`, `3m 05s`, `1h 20m`
+ */
+export function formatElapsedTime(milliseconds: number): string {
+    const seconds = Math.max(0, Math.floor(milliseconds / 1000));
+
+    if (seconds < 60) {
+        return `${seconds}s`;
+    }
+
+    if (seconds < 3600) {
+        return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+    }
+
+    return `${Math.floor(seconds / 3600)}h ${String(Math.floor((seconds % 3600) / 60)).padStart(2, '0')}m`;
+}
+
+/**
+ * Returns the number of rows of the dataframe output of a SQL block, if it has one
+ */
+function getResultRowCount(cell: NotebookCell): number | undefined {
+    for (const output of cell.outputs) {
+        const item = output.items.find((i) => i.mime === DATAFRAME_MIME_TYPE);
+
+        if (!item) {
+            continue;
+        }
+
+        try {
+            const dataframe = JSON.parse(new TextDecoder().decode(item.data));
+
+            if (typeof dataframe?.row_count === 'number') {
+                return dataframe.row_count;
+            }
+        } catch {
+            continue;
+        }
+    }
+
+    return undefined;
+}
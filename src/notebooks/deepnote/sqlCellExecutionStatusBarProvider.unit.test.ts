@@ -0,0 +1,226 @@
+import { assert } from 'chai';
+import * as sinon from 'sinon';
+import { anything, capture, instance, mock, verify, when } from 'ts-mockito';
+import {
+    CancellationTokenSource,
+    Command,
+    NotebookCell,
+    NotebookCellExecutionSummary,
+    NotebookCellKind,
+    NotebookCellOutput,
+    NotebookCellOutputItem,
+    NotebookCellStatusBarItem,
+    NotebookDocument,
+    TextDocument,
+    Uri
+} from 'vscode';
+
+import { IDisposableRegistry } from '../../platform/common/types';
+import { Commands } from '../../platform/common/constants';
+import { IntegrationConfig, IntegrationType } from '../../platform/notebooks/deepnote/integrationTypes';
+import { NotebookCellExecutionState, notebookCellExecutions } from '../../platform/notebooks/cellExecutionStateService';
+import { mockedVSCodeNamespaces, resetVSCodeMocks } from '../../test/vscode-mock';
+import { IIntegrationQueryCanceller, IIntegrationStorage } from './integrations/types';
+import { SqlCellExecutionStatusBarProvider, formatElapsedTime } from './sqlCellExecutionStatusBarProvider';
+
+suite('SqlCellExecutionStatusBarProvider', () => {
+    const postgresConfig = {
+        id: 'warehouse',
+        name: 'Warehouse',
+        type: IntegrationType.Postgres,
+        host: 'localhost',
+        port: 5432,
+        database: 'test',
+        username: 'user',
+        password: 'pass'
+    } as IntegrationConfig;
+
+    let provider: SqlCellExecutionStatusBarProvider;
+    let disposables: IDisposableRegistry;
+    let integrationStorage: IIntegrationStorage;
+    let queryCanceller: IIntegrationQueryCanceller;
+    let cancelCommand: ((cell?: NotebookCell) => Promise<void>) | undefined;
+
+    setup(() => {
+        resetVSCodeMocks();
+        disposables = [];
+        integrationStorage = mock<IIntegrationStorage>();
+        queryCanceller = mock<IIntegrationQueryCanceller>();
+        when(integrationStorage.getProjectIntegrationConfig('project-1', 'warehouse')).thenResolve(postgresConfig);
+        when(
+            mockedVSCodeNamespaces.notebooks.registerNotebookCellStatusBarItemProvider(anything(), anything())
+        ).thenReturn({ dispose: () => undefined });
+        when(mockedVSCodeNamespaces.commands.registerCommand(Commands.CancelSqlQuery, anything())).thenCall(
+            (_name, handler) => {
+                cancelCommand = handler;
+                return { dispose: () => undefined };
+            }
+        );
+
+        provider = new SqlCellExecutionStatusBarProvider(
+            disposables,
+            instance(integrationStorage),
+            instance(queryCanceller)
+        );
+        provider.activate();
+    });
+
+    teardown(() => {
+        disposables.forEach((d) => d.dispose());
+        resetVSCodeMocks();
+    });
+
+    async function getItems(cell: NotebookCell): Promise<NotebookCellStatusBarItem[]> {
+        const result = await provider.provideCellStatusBarItems(cell, new CancellationTokenSource().token);
+
+        return (result as NotebookCellStatusBarItem[] | undefined) ?? [];
+    }
+
+    test('formats elapsed times', () => {
+        assert.strictEqual(formatElapsedTime(42_500), '42s');
+        assert.strictEqual(formatElapsedTime(185_000), '3m 05s');
+        assert.strictEqual(formatElapsedTime(4_800_000), '1h 20m');
+    });
+
+    test('shows the elapsed time and a cancel button while a SQL block runs', async () => {
+        const cell = createMockCell({ sql_integration_id: 'warehouse' });
+
+        notebookCellExecutions.changeCellState(cell, NotebookCellExecutionState.Executing);
+        const items = await getItems(cell);
+
+        assert.strictEqual(items.length, 2);
+        assert.strictEqual(items[0].text, '$(loading~spin) Running for 0s');
+        assert.strictEqual((items[1].command as Command).command, Commands.CancelSqlQuery);
+    });
+
+    test('does not offer to cancel queries of integrations that do not support it', async () => {
+        when(integrationStorage.getProjectIntegrationConfig('project-1', 'warehouse')).thenResolve({
+            ...postgresConfig,
+            type: IntegrationType.MySql
+        } as IntegrationConfig);
+        const cell = createMockCell({ sql_integration_id: 'warehouse' });
+
+        notebookCellExecutions.changeCellState(cell, NotebookCellExecutionState.Executing);
+        const items = await getItems(cell);
+
+        assert.strictEqual(items.length, 1);
+        assert.strictEqual(items[0].text, '$(loading~spin) Running for 0s');
+    });
+
+    test('cancels the query of the block that started since the block started running', async () => {
+        when(queryCanceller.cancelQueries(anything(), anything(), anything(), anything())).thenResolve(1);
+        const cell = createMockCell({ sql_integration_id: 'warehouse' });
+        const startedAt = Date.now();
+
+        notebookCellExecutions.changeCellState(cell, NotebookCellExecutionState.Executing);
+        await cancelCommand!(cell);
+
+        const [notebookUri, config, queryTag, since] = capture(queryCanceller.cancelQueries).last();
+        assert.strictEqual(notebookUri.toString(), cell.notebook.uri.toString());
+        assert.strictEqual(config, postgresConfig);
+        assert.strictEqual(queryTag, 'deepnote-block:block-1');
+        assert.isAtMost(since.getTime(), startedAt - 30_000 + 1000);
+        assert.isAtLeast(since.getTime(), startedAt - 30_000);
+
+        const items = await getItems(cell);
+        assert.strictEqual(items.length, 1);
+        assert.strictEqual(items[0].text, '$(loading~spin) Cancelling query (0s)');
+    });
+
+    test('tells the user when there is no running query to cancel', async () => {
+        when(queryCanceller.cancelQueries(anything(), anything(), anything(), anything())).thenResolve(0);
+        const cell = createMockCell({ sql_integration_id: 'warehouse' });
+
+        notebookCellExecutions.changeCellState(cell, NotebookCellExecutionState.Executing);
+        await cancelCommand!(cell);
+
+        verify(
+            mockedVSCodeNamespaces.window.showWarningMessage(
+                'Warehouse has no running query to cancel, the block may still be fetching results.'
+            )
+        ).once();
+        assert.strictEqual((await getItems(cell)).length, 2);
+    });
+
+    test('shows the error when the query cannot be cancelled', async () => {
+        when(queryCanceller.cancelQueries(anything(), anything(), anything(), anything())).thenReject(
+            new Error('permission denied')
+        );
+        const cell = createMockCell({ sql_integration_id: 'warehouse' });
+
+        notebookCellExecutions.changeCellState(cell, NotebookCellExecutionState.Executing);
+        await cancelCommand!(cell);
+
+        verify(mockedVSCodeNamespaces.window.showErrorMessage('Failed to cancel the query: permission denied')).once();
+    });
+
+    test('shows the rows produced so far by the query of a running block', async () => {
+        const clock = sinon.useFakeTimers();
+        disposables.push({ dispose: () => clock.restore() });
+        when(integrationStorage.getProjectIntegrationConfig('project-1', 'warehouse')).thenResolve({
+            ...postgresConfig,
+            type: IntegrationType.Snowflake
+        } as IntegrationConfig);
+        when(queryCanceller.getRowsProduced(anything(), anything(), anything(), anything())).thenResolve(1200);
+        const cell = createMockCell({ sql_integration_id: 'warehouse' });
+
+        notebookCellExecutions.changeCellState(cell, NotebookCellExecutionState.Executing);
+        await clock.tickAsync(5_000);
+        const items = await getItems(cell);
+
+        assert.strictEqual(items[0].text, `$(loading~spin) Running for 5s, ${(1200).toLocaleString()} rows so far`);
+        assert.strictEqual(capture(queryCanceller.getRowsProduced).last()[2], 'deepnote-block:block-1');
+    });
+
+    test('does not read the rows produced by queries of databases that do not report them', async () => {
+        const clock = sinon.useFakeTimers();
+        disposables.push({ dispose: () => clock.restore() });
+        const cell = createMockCell({ sql_integration_id: 'warehouse' });
+
+        notebookCellExecutions.changeCellState(cell, NotebookCellExecutionState.Executing);
+        await clock.tickAsync(10_000);
+
+        verify(queryCanceller.getRowsProduced(anything(), anything(), anything(), anything())).never();
+        assert.strictEqual((await getItems(cell))[0].text, '$(loading~spin) Running for 10s');
+    });
+
+    test('shows the number of rows and the duration once the block is done', async () => {
+        const dataframe = NotebookCellOutputItem.json(
+            { row_count: 1234, columns: [], rows: [] },
+            'application/vnd.deepnote.dataframe.v3+json'
+        );
+        const cell = createMockCell({ sql_integration_id: 'warehouse' }, [new NotebookCellOutput([dataframe])], {
+            success: true,
+            timing: { startTime: 1000, endTime: 4500 }
+        });
+
+        notebookCellExecutions.changeCellState(cell, NotebookCellExecutionState.Executing);
+        notebookCellExecutions.changeCellState(cell, NotebookCellExecutionState.Idle);
+        const items = await getItems(cell);
+
+        assert.strictEqual(items.length, 1);
+        assert.strictEqual(items[0].text, `${(1234).toLocaleString()} rows in 3s`);
+    });
+
+    function createMockCell(
+        cellMetadata: Record<string, unknown>,
+        outputs: NotebookCellOutput[] = [],
+        executionSummary?: NotebookCellExecutionSummary
+    ): NotebookCell {
+        const notebook = {
+            notebookType: 'deepnote',
+            metadata: { deepnoteProjectId: 'project-1' },
+            uri: Uri.file('/test/notebook.deepnote')
+        } as unknown as NotebookDocument;
+
+        return {
+            document: { languageId: 'sql' } as TextDocument,
+            notebook,
+            kind: NotebookCellKind.Code,
+            metadata: { id: 'block-1', ...cellMetadata },
+            outputs,
+            executionSummary,
+            index: 0
+        } as unknown as NotebookCell;
+    }
+});
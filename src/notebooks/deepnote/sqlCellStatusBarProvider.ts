@@ -21,11 +21,11 @@ import { inject, injectable } from 'inversify';
 import { IExtensionSyncActivationService } from '../../platform/activation/types';
 import { IDisposableRegistry } from '../../platform/common/types';
 import { IIntegrationStorage } from './integrations/types';
+import { getIntegrationTypeLabel } from './integrations/integrationUtils';
 import { Commands } from '../../platform/common/constants';
 import {
     DATAFRAME_SQL_INTEGRATION_ID,
     DEEPNOTE_TO_INTEGRATION_TYPE,
-    IntegrationType,
     RawIntegrationType
 } from '../../platform/notebooks/deepnote/integrationTypes';
 import { IDeepnoteNotebookManager } from '../types';
@@ -348,7 +348,7 @@ export class SqlCellStatusBarProvider implements NotebookCellStatusBarItemProvid
             }
 
             const integrationType = DEEPNOTE_TO_INTEGRATION_TYPE[projectIntegration.type as RawIntegrationType];
-            const typeLabel = integrationType ? this.getIntegrationTypeLabel(integrationType) : projectIntegration.type;
+            const typeLabel = integrationType ? getIntegrationTypeLabel(integrationType) : projectIntegration.type;
 
             const item: LocalQuickPickItem = {
                 label: projectIntegration.name || projectIntegration.id,
@@ -430,17 +430,4 @@ export class SqlCellStatusBarProvider implements NotebookCellStatusBarItemProvid
         // Trigger status bar update
         this._onDidChangeCellStatusBarItems.fire();
     }
-
-    private getIntegrationTypeLabel(type: IntegrationType): string {
-        switch (type) {
-            case IntegrationType.Postgres:
-                return l10n.t('PostgreSQL');
-            case IntegrationType.BigQuery:
-                return l10n.t('BigQuery');
-            case IntegrationType.Snowflake:
-                return l10n.t('Snowflake');
-            default:
-                return String(type);
-        }
-    }
 }
@@ -0,0 +1,510 @@
+import { inject, injectable, named } from 'inversify';
+import {
+    CancellationToken,
+    CancellationTokenSource,
+    CompletionItem,
+    CompletionItemKind,
+    CompletionItemProvider,
+    CompletionList,
+    Hover,
+    HoverProvider,
+    l10n,
+    languages,
+    MarkdownString,
+    NotebookCell,
+    NotebookDocument,
+    Position,
+    SnippetString,
+    TextDocument,
+    workspace
+} from 'vscode';
+
+import { IExtensionSyncActivationService } from '../../platform/activation/types';
+import { Identifiers } from '../../platform/common/constants';
+import { IDisposableRegistry } from '../../platform/common/types';
+import { raceTimeout } from '../../platform/common/utils/async';
+import { logger } from '../../platform/logging';
+import {
+    DATAFRAME_SQL_INTEGRATION_ID,
+    IntegrationConfig,
+    IntegrationType,
+    requiresBrowserSignIn
+} from '../../platform/notebooks/deepnote/integrationTypes';
+import { IKernel, IKernelProvider } from '../../kernels/types';
+import { IJupyterVariables, IKernelVariableRequester } from '../../kernels/variables/types';
+import { DEEPNOTE_NOTEBOOK_TYPE } from '../../kernels/deepnote/types';
+import { quoteIdentifier } from './integrations/integrationSchemaUtils';
+import {
+    CatalogTable,
+    DatabaseCatalog,
+    DatabaseObject,
+    IIntegrationSchemaProvider,
+    IIntegrationStorage
+} from './integrations/types';
+import {
+    findCatalogTable,
+    findTableReferences,
+    formatTableHover,
+    getQualifierBeforeCursor,
+    getReferencedTables,
+    resolveQualifier,
+    SqlTableReference
+} from './sqlCompletionUtils';
+import { getSqlDialect, getSqlFunctions, getSqlKeywords, SqlDialect, SqlFunction } from './sqlDialects';
+
+/**
+ * How long completions wait for a catalog that is still loading, before returning an incomplete list
+ * that VS Code requests again while typing
+ */
+const CATALOG_WAIT_MS = 1500;
+
+/**
+ * How long a catalog that failed to load is kept, before loading it again
+ */
+const CATALOG_RETRY_DELAY_MS = 60_000;
+
+const IDENTIFIER_PATTERN = /[A-Za-z_][\w$]*/;
+
+interface CatalogCacheEntry {
+    promise: Promise<DatabaseCatalog | undefined>;
+    settled: boolean;
+    failedAt?: number;
+}
+
+interface DataFrameCacheEntry {
+    executionCount: number;
+    names: Promise<string[]>;
+    columns: Map<string, Promise<DatabaseObject[]>>;
+}
+
+/**
+ * Dialect and catalog of the SQL block being edited
+ */
+interface SqlBlockContext {
+    dialect: SqlDialect | undefined;
+    /** Type of the integration, used to quote identifiers. Not set for DataFrame SQL blocks. */
+    integrationType?: IntegrationType;
+    catalog?: DatabaseCatalog;
+    /** Whether the catalog is still loading */
+    isIncomplete: boolean;
+}
+
+/**
+ * Provides completions and hovers in the SQL blocks of Deepnote notebooks. Tables and columns come from
+ * the catalog of the block's integration, which is read once per integration and project, and DataFrame
+ * SQL blocks suggest the DataFrames of the notebook's kernel. Keywords and functions follow the SQL
+ * dialect of the integration.
+ */
+@injectable()
+export class SqlCompletionProvider implements IExtensionSyncActivationService, CompletionItemProvider, HoverProvider {
+    private readonly catalogs = new Map<string, CatalogCacheEntry>();
+    private readonly dataFrames = new WeakMap<IKernel, DataFrameCacheEntry>();
+
+    constructor(
+        @inject(IIntegrationStorage) private readonly integrationStorage: IIntegrationStorage,
+        @inject(IIntegrationSchemaProvider) private readonly schemaProvider: IIntegrationSchemaProvider,
+        @inject(IKernelProvider) private readonly kernelProvider: IKernelProvider,
+        @inject(IJupyterVariables) @named(Identifiers.KERNEL_VARIABLES) private readonly variables: IJupyterVariables,
+        @inject(IKernelVariableRequester) private readonly variableRequester: IKernelVariableRequester,
+        @inject(IDisposableRegistry) private readonly disposableRegistry: IDisposableRegistry
+    ) {}
+
+    public activate(): void {
+        const selector = { notebookType: DEEPNOTE_NOTEBOOK_TYPE, language: 'sql' };
+
+        this.disposableRegistry.push(languages.registerCompletionItemProvider(selector, this, '.'));
+        this.disposableRegistry.push(languages.registerHoverProvider(selector, this));
+        this.disposableRegistry.push(this.integrationStorage.onDidChangeIntegrations(() => this.catalogs.clear()));
+    }
+
+    public async provideCompletionItems(
+        document: TextDocument,
+        position: Position,
+        token: CancellationToken
+    ): Promise<CompletionList | undefined> {
+        const textBeforeCursor = document.lineAt(position.line).text.slice(0, position.character);
+        const qualifier = getQualifierBeforeCursor(textBeforeCursor);
+        const references = findTableReferences(document.getText());
+        const block = await this.getBlockContext(document, references, qualifier, token);
+
+        if (!block || token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const { catalog } = block;
+
+        if (qualifier) {
+            const target = catalog ? resolveQualifier(catalog, references, qualifier) : undefined;
+
+            if (!catalog || !target) {
+                return new CompletionList([], block.isIncomplete);
+            }
+
+            const items =
+                target.kind === 'schema'
+                    ? catalog.tables
+                          .filter((table) => table.schema === target.schema)
+                          .map((table) => this.createTableItem(block, table, false))
+                    : target.table.columns.map((column) => this.createColumnItem(block, target.table, column));
+
+            return new CompletionList(items, block.isIncomplete);
+        }
+
+        const items: CompletionItem[] = [];
+
+        if (catalog) {
+            for (const table of getReferencedTables(catalog, references)) {
+                items.push(...table.columns.map((column) => this.createColumnItem(block, table, column)));
+            }
+
+            items.push(...catalog.tables.map((table) => this.createTableItem(block, table, true)));
+
+            for (const schema of new Set(catalog.tables.map((table) => table.schema).filter(Boolean))) {
+                const item = new CompletionItem(schema, CompletionItemKind.Module);
+                item.detail = l10n.t('Schema');
+                item.sortText = `2_${schema}`;
+                items.push(item);
+            }
+        }
+
+        items.push(...getSqlFunctions(block.dialect).map((fn) => this.createFunctionItem(fn)));
+
+        for (const keyword of getSqlKeywords(block.dialect)) {
+            const item = new CompletionItem(keyword, CompletionItemKind.Keyword);
+            item.sortText = `4_${keyword}`;
+            items.push(item);
+        }
+
+        return new CompletionList(items, block.isIncomplete);
+    }
+
+    public async provideHover(
+        document: TextDocument,
+        position: Position,
+        token: CancellationToken
+    ): Promise<Hover | undefined> {
+        const range = document.getWordRangeAtPosition(position, IDENTIFIER_PATTERN);
+
+        if (!range) {
+            return undefined;
+        }
+
+        const word = document.getText(range);
+        const textBeforeWord = document.lineAt(position.line).text.slice(0, range.start.character);
+        const qualifier = getQualifierBeforeCursor(textBeforeWord + word);
+        const references = findTableReferences(document.getText());
+        const block = await this.getBlockContext(document, references, qualifier, token, [word]);
+
+        if (!block || token.isCancellationRequested) {
+            return undefined;
+        }
+
+        const { catalog } = block;
+        const markdown = catalog
+            ? qualifier
+                ? this.getQualifiedHover(catalog, references, qualifier, word)
+                : this.getUnqualifiedHover(catalog, references, word)
+            : undefined;
+        const fn = qualifier
+            ? undefined
+            : getSqlFunctions(block.dialect).find((candidate) => candidate.name.toUpperCase() === word.toUpperCase());
+
+        if (markdown) {
+            return new Hover(new MarkdownString(markdown), range);
+        }
+
+        if (fn) {
+            return new Hover(this.createFunctionDocumentation(fn), range);
+        }
+
+        return undefined;
+    }
+
+    private getQualifiedHover(
+        catalog: DatabaseCatalog,
+        references: SqlTableReference[],
+        qualifier: string[],
+        word: string
+    ): string | undefined {
+        const target = resolveQualifier(catalog, references, qualifier);
+
+        if (target?.kind === 'schema') {
+            const table = findCatalogTable(catalog, [target.schema, word]);
+            return table ? formatTableHover(table) : undefined;
+        }
+
+        return target ? this.formatColumnHover(target.table, word) : undefined;
+    }
+
+    private getUnqualifiedHover(
+        catalog: DatabaseCatalog,
+        references: SqlTableReference[],
+        word: string
+    ): string | undefined {
+        const referenced = getReferencedTables(catalog, references);
+        const table =
+            referenced.find((candidate) => candidate.name.toLowerCase() === word.toLowerCase()) ??
+            findCatalogTable(catalog, [word]);
+
+        if (table) {
+            return formatTableHover(table);
+        }
+
+        for (const candidate of referenced) {
+            const hover = this.formatColumnHover(candidate, word);
+
+            if (hover) {
+                return hover;
+            }
+        }
+
+        return undefined;
+    }
+
+    private formatColumnHover(table: CatalogTable, name: string): string | undefined {
+        const column = table.columns.find((candidate) => candidate.name.toLowerCase() === name.toLowerCase());
+
+        if (!column) {
+            return undefined;
+        }
+
+        const title = table.schema ? `${table.schema}.${table.name}` : table.name;
+        const definition = column.type ? `\`${column.name}\` ${column.type}` : `\`${column.name}\``;
+
+        return `${definition}\n\n${l10n.t('Column of {0}', `**${title}**`)}`;
+    }
+
+    private createTableItem(block: SqlBlockContext, table: CatalogTable, qualify: boolean): CompletionItem {
+        const item = new CompletionItem(
+            table.name,
+            table.kind === 'view' ? CompletionItemKind.Interface : CompletionItemKind.Struct
+        );
+        const isDataFrame = block.integrationType === undefined;
+        const inDefaultSchema = !table.schema || table.schema === block.catalog?.defaultSchema;
+
+        item.detail = isDataFrame
+            ? l10n.t('DataFrame')
+            : table.kind === 'view'
+            ? l10n.t('View in {0}', table.schema)
+            : l10n.t('Table in {0}', table.schema);
+        item.insertText =
+            qualify && !inDefaultSchema
+                ? `${this.quote(block, table.schema)}.${this.quote(block, table.name)}`
+                : this.quote(block, table.name);
+        item.sortText = `1_${table.name}`;
+
+        return item;
+    }
+
+    private createColumnItem(block: SqlBlockContext, table: CatalogTable, column: DatabaseObject): CompletionItem {
+        const item = new CompletionItem(column.name, CompletionItemKind.Field);
+
+        item.detail = column.type ? `${column.type} · ${table.name}` : table.name;
+        item.insertText = this.quote(block, column.name);
+        item.sortText = `0_${column.name}`;
+
+        return item;
+    }
+
+    private createFunctionItem(fn: SqlFunction): CompletionItem {
+        const item = new CompletionItem(fn.name, CompletionItemKind.Function);
+
+        item.detail = fn.signature;
+        item.documentation = this.createFunctionDocumentation(fn);
+        item.insertText = new SnippetString(`${fn.name}($0)`);
+        item.sortText = `3_${fn.name}`;
+
+        return item;
+    }
+
+    private createFunctionDocumentation(fn: SqlFunction): MarkdownString {
+        return new MarkdownString().appendCodeblock(fn.signature, 'sql').appendMarkdown(fn.description);
+    }
+
+    private quote(block: SqlBlockContext, name: string): string {
+        return block.integrationType ? quoteIdentifier(block.integrationType, name) : name;
+    }
+
+    /**
+     * Finds the integration of the SQL block of a document and its catalog. DataFrame columns are only
+     * read for the DataFrames named in the query, qualifier or extra names, as the kernel has to
+     * inspect each of them.
+     */
+    private async getBlockContext(
+        document: TextDocument,
+        references: SqlTableReference[],
+        qualifier: string[] | undefined,
+        token: CancellationToken,
+        extraNames: string[] = []
+    ): Promise<SqlBlockContext | undefined> {
+        const cell = findNotebookCell(document);
+
+        if (!cell) {
+            return undefined;
+        }
+
+        const integrationId = (cell.metadata as Record<string, unknown> | undefined)?.sql_integration_id;
+
+        if (integrationId === DATAFRAME_SQL_INTEGRATION_ID) {
+            const names = [...references.map((reference) => reference.parts), ...(qualifier ? [qualifier] : [])]
+                .map((parts) => parts[parts.length - 1])
+                .concat(extraNames);
+            const catalog = await this.getDataFrameCatalog(cell.notebook, names, token);
+
+            return { dialect: getSqlDialect(undefined), catalog, isIncomplete: false };
+        }
+
+        if (typeof integrationId !== 'string' || !integrationId) {
+            return { dialect: undefined, isIncomplete: false };
+        }
+
+        // Projects can configure the same integration ID differently
+        const projectId: string | undefined = cell.notebook.metadata?.deepnoteProjectId;
+        const config = projectId
+            ? await this.integrationStorage.getProjectIntegrationConfig(projectId, integrationId)
+            : await this.integrationStorage.getIntegrationConfig(integrationId);
+
+        if (!config) {
+            return { dialect: undefined, isIncomplete: false };
+        }
+
+        // Reading the catalog would open the browser to sign in, only keywords are completed
+        if (requiresBrowserSignIn(config)) {
+            return { dialect: getSqlDialect(config.type), integrationType: config.type, isIncomplete: false };
+        }
+
+        const entry = this.loadCatalog(`${projectId ?? ''}:${config.id}`, config);
+        const catalog = await raceTimeout(CATALOG_WAIT_MS, entry.promise);
+
+        return {
+            dialect: getSqlDialect(config.type),
+            integrationType: config.type,
+            catalog,
+            isIncomplete: !entry.settled
+        };
+    }
+
+    private loadCatalog(key: string, config: IntegrationConfig): CatalogCacheEntry {
+        const cached = this.catalogs.get(key);
+
+        if (cached && (cached.failedAt === undefined || Date.now() - cached.failedAt < CATALOG_RETRY_DELAY_MS)) {
+            return cached;
+        }
+
+        const entry: CatalogCacheEntry = {
+            promise: this.schemaProvider.getCatalog(config).then(
+                (catalog) => {
+                    entry.settled = true;
+                    return catalog;
+                },
+                (error) => {
+                    logger.warn(`SqlCompletionProvider: Failed to read the catalog of integration ${config.id}`, error);
+                    entry.settled = true;
+                    entry.failedAt = Date.now();
+                    return undefined;
+                }
+            ),
+            settled: false
+        };
+        this.catalogs.set(key, entry);
+
+        return entry;
+    }
+
+    /**
+     * Lists the DataFrames of the notebook's kernel as tables, with the columns of the given DataFrames.
+     * The variables are read again after each execution.
+     */
+    private async getDataFrameCatalog(
+        notebook: NotebookDocument,
+        columnNames: string[],
+        token: CancellationToken
+    ): Promise<DatabaseCatalog | undefined> {
+        const kernel = this.kernelProvider.get(notebook);
+
+        if (!kernel) {
+            return undefined;
+        }
+
+        const executionCount = this.kernelProvider.getKernelExecution(kernel).executionCount;
+        let entry = this.dataFrames.get(kernel);
+
+        if (!entry || entry.executionCount !== executionCount) {
+            entry = { executionCount, names: this.readDataFrameNames(kernel), columns: new Map() };
+            this.dataFrames.set(kernel, entry);
+        }
+
+        const names = await entry.names;
+        const tables: CatalogTable[] = [];
+
+        for (const name of names) {
+            let columns: Promise<DatabaseObject[]> | undefined = entry.columns.get(name);
+
+            if (!columns && columnNames.includes(name)) {
+                columns = this.readDataFrameColumns(kernel, name);
+                entry.columns.set(name, columns);
+            }
+
+            tables.push({ schema: '', name, kind: 'table', columns: columns ? await columns : [] });
+
+            if (token.isCancellationRequested) {
+                break;
+            }
+        }
+
+        return { tables, truncated: false };
+    }
+
+    private async readDataFrameNames(kernel: IKernel): Promise<string[]> {
+        const tokenSource = new CancellationTokenSource();
+
+        try {
+            const variables = await this.variableRequester.getVariableNamesAndTypesFromKernel(
+                kernel,
+                tokenSource.token
+            );
+
+            return variables.filter((variable) => variable.type === 'DataFrame').map((variable) => variable.name);
+        } catch (error) {
+            logger.warn('SqlCompletionProvider: Failed to read the DataFrames of the kernel', error);
+            return [];
+        } finally {
+            tokenSource.dispose();
+        }
+    }
+
+    private async readDataFrameColumns(kernel: IKernel, name: string): Promise<DatabaseObject[]> {
+        try {
+            const variable = await this.variables.getMatchingVariable(name, kernel);
+
+            if (!variable) {
+                return [];
+            }
+
+            const info = await this.variables.getDataFrameInfo(variable, kernel);
+
+            return (info.columns ?? [])
+                .filter((column) => column.key !== info.indexColumn)
+                .map((column) => ({ name: column.key, type: column.type }));
+        } catch (error) {
+            logger.warn(`SqlCompletionProvider: Failed to read the columns of DataFrame ${name}`, error);
+            return [];
+        }
+    }
+}
+
+function findNotebookCell(document: TextDocument): NotebookCell | undefined {
+    for (const notebook of workspace.notebookDocuments) {
+        if (notebook.notebookType !== DEEPNOTE_NOTEBOOK_TYPE) {
+            continue;
+        }
+
+        const cell = notebook.getCells().find((candidate) => candidate.document === document);
+
+        if (cell) {
+            return cell;
+        }
+    }
+
+    return undefined;
+}
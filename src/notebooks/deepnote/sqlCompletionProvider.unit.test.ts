@@ -0,0 +1,235 @@
+import { assert } from 'chai';
+import { anything, instance, mock, verify, when } from 'ts-mockito';
+import {
+    CancellationTokenSource,
+    CompletionItem,
+    CompletionList,
+    EventEmitter,
+    MarkdownString,
+    NotebookCell,
+    NotebookDocument,
+    Position,
+    Range,
+    TextDocument
+} from 'vscode';
+
+import { IDisposableRegistry } from '../../platform/common/types';
+import {
+    DATAFRAME_SQL_INTEGRATION_ID,
+    IntegrationType,
+    PostgresIntegrationConfig,
+    SnowflakeAuthMethods
+} from '../../platform/notebooks/deepnote/integrationTypes';
+import { IKernel, IKernelProvider, INotebookKernelExecution } from '../../kernels/types';
+import { IJupyterVariable, IJupyterVariables, IKernelVariableRequester } from '../../kernels/variables/types';
+import { mockedVSCodeNamespaces, resetVSCodeMocks } from '../../test/vscode-mock';
+import { DatabaseCatalog, IIntegrationSchemaProvider, IIntegrationStorage } from './integrations/types';
+import { SqlCompletionProvider } from './sqlCompletionProvider';
+
+suite('SqlCompletionProvider', () => {
+    let provider: SqlCompletionProvider;
+    let integrationStorage: IIntegrationStorage;
+    let schemaProvider: IIntegrationSchemaProvider;
+    let kernelProvider: IKernelProvider;
+    let variables: IJupyterVariables;
+    let variableRequester: IKernelVariableRequester;
+    let disposables: IDisposableRegistry;
+
+    const config: PostgresIntegrationConfig = {
+        id: 'postgres-1',
+        name: 'Warehouse',
+        type: IntegrationType.Postgres,
+        host: 'localhost',
+        port: 5432,
+        database: 'analytics',
+        username: 'user',
+        password: 'secret'
+    };
+
+    const catalog: DatabaseCatalog = {
+        defaultSchema: 'public',
+        truncated: false,
+        tables: [
+            {
+                schema: 'public',
+                name: 'orders',
+                kind: 'table',
+                columns: [
+                    { name: 'id', type: 'INTEGER' },
+                    { name: 'amount', type: 'NUMERIC(10, 2)' }
+                ]
+            },
+            { schema: 'analytics', name: 'Events', kind: 'view', columns: [{ name: 'name', type: 'TEXT' }] }
+        ]
+    };
+
+    /**
+     * Creates the document of a single line SQL block in an open Deepnote notebook
+     */
+    function createSqlBlock(text: string, integrationId: string): TextDocument {
+        const document = {
+            getText: (range?: Range) => (range ? text.slice(range.start.character, range.end.character) : text),
+            lineAt: () => ({ text }),
+            getWordRangeAtPosition: (position: Position, pattern: RegExp) => {
+                for (const match of text.matchAll(new RegExp(pattern.source, 'g'))) {
+                    const start = match.index ?? 0;
+
+                    if (start <= position.character && position.character <= start + match[0].length) {
+                        return new Range(0, start, 0, start + match[0].length);
+                    }
+                }
+
+                return undefined;
+            }
+        } as unknown as TextDocument;
+        const cells: NotebookCell[] = [];
+        const notebook = {
+            notebookType: 'deepnote',
+            getCells: () => cells
+        } as unknown as NotebookDocument;
+        cells.push({ document, notebook, metadata: { sql_integration_id: integrationId } } as unknown as NotebookCell);
+
+        when(mockedVSCodeNamespaces.workspace.notebookDocuments).thenReturn([notebook]);
+
+        return document;
+    }
+
+    function createVariable(name: string, type: string): IJupyterVariable {
+        return {
+            name,
+            type,
+            value: undefined,
+            supportsDataExplorer: false,
+            size: 0,
+            shape: '',
+            count: 0,
+            truncated: true
+        };
+    }
+
+    async function getCompletions(
+        text: string,
+        character: number,
+        integrationId = config.id
+    ): Promise<CompletionItem[]> {
+        const document = createSqlBlock(text, integrationId);
+        const list = await provider.provideCompletionItems(
+            document,
+            new Position(0, character),
+            new CancellationTokenSource().token
+        );
+
+        return (list as CompletionList).items;
+    }
+
+    setup(() => {
+        resetVSCodeMocks();
+        integrationStorage = mock<IIntegrationStorage>();
+        schemaProvider = mock<IIntegrationSchemaProvider>();
+        kernelProvider = mock<IKernelProvider>();
+        variables = mock<IJupyterVariables>();
+        variableRequester = mock<IKernelVariableRequester>();
+        disposables = [];
+
+        when(integrationStorage.onDidChangeIntegrations).thenReturn(new EventEmitter<void>().event);
+        when(integrationStorage.getIntegrationConfig(config.id)).thenResolve(config);
+        when(schemaProvider.getCatalog(anything())).thenResolve(catalog);
+
+        provider = new SqlCompletionProvider(
+            instance(integrationStorage),
+            instance(schemaProvider),
+            instance(kernelProvider),
+            instance(variables),
+            instance(variableRequester),
+            disposables
+        );
+    });
+
+    test('suggests the columns of an aliased table after its alias', async () => {
+        const items = await getCompletions('SELECT o. FROM public.orders o', 9);
+
+        assert.deepStrictEqual(
+            items.map((item) => [item.label, item.detail]),
+            [
+                ['id', 'INTEGER · orders'],
+                ['amount', 'NUMERIC(10, 2) · orders']
+            ]
+        );
+    });
+
+    test('suggests the tables of a schema after its name', async () => {
+        const items = await getCompletions('SELECT * FROM analytics.', 24);
+
+        assert.deepStrictEqual(
+            items.map((item) => [item.label, item.insertText]),
+            [['Events', '"Events"']]
+        );
+    });
+
+    test('suggests tables, functions and keywords of the dialect of the integration', async () => {
+        const items = await getCompletions('SELECT * FROM ', 14);
+        const byLabel = new Map(items.map((item) => [item.label, item]));
+
+        assert.strictEqual(byLabel.get('orders')?.insertText, 'orders');
+        assert.strictEqual(byLabel.get('Events')?.insertText, 'analytics."Events"');
+        assert.strictEqual(byLabel.get('DATE_TRUNC')?.detail, 'DATE_TRUNC(field, source)');
+        assert.isTrue(byLabel.has('LIMIT'));
+        assert.isFalse(byLabel.has('DATEADD'));
+    });
+
+    test('reads the catalog of an integration once', async () => {
+        await getCompletions('SELECT ', 7);
+        await getCompletions('SELECT * FROM public.', 21);
+
+        verify(schemaProvider.getCatalog(anything())).once();
+    });
+
+    test('completes only keywords of integrations signing in through the browser', async () => {
+        when(integrationStorage.getIntegrationConfig('snowflake-1')).thenResolve({
+            id: 'snowflake-1',
+            name: 'Snowflake',
+            type: IntegrationType.Snowflake,
+            account: 'acme',
+            authMethod: SnowflakeAuthMethods.EXTERNAL_BROWSER,
+            username: 'analyst'
+        });
+
+        const labels = (await getCompletions('SELECT * FROM ', 14, 'snowflake-1')).map((item) => item.label);
+
+        assert.include(labels, 'LIMIT');
+        assert.notInclude(labels, 'orders');
+        verify(schemaProvider.getCatalog(anything())).never();
+    });
+
+    test('shows the type of a column on hover', async () => {
+        const document = createSqlBlock('SELECT amount FROM orders', config.id);
+
+        const hover = await provider.provideHover(document, new Position(0, 9), new CancellationTokenSource().token);
+
+        assert.isDefined(hover);
+        assert.strictEqual(
+            (hover!.contents[0] as MarkdownString).value,
+            '`amount` NUMERIC(10, 2)\n\nColumn of **public.orders**'
+        );
+    });
+
+    test('suggests the DataFrames of the kernel in DataFrame SQL blocks', async () => {
+        const kernel = instance(mock<IKernel>());
+        const execution = mock<INotebookKernelExecution>();
+        when(execution.executionCount).thenReturn(3);
+        when(kernelProvider.get(anything())).thenReturn(kernel);
+        when(kernelProvider.getKernelExecution(anything())).thenReturn(instance(execution));
+        when(variableRequester.getVariableNamesAndTypesFromKernel(anything(), anything())).thenResolve([
+            createVariable('sales', 'DataFrame'),
+            createVariable('threshold', 'int')
+        ]);
+
+        const items = await getCompletions('SELECT * FROM ', 14, DATAFRAME_SQL_INTEGRATION_ID);
+        const labels = items.map((item) => item.label);
+
+        assert.include(labels, 'sales');
+        assert.notInclude(labels, 'threshold');
+        assert.include(labels, 'read_parquet');
+        verify(schemaProvider.getCatalog(anything())).never();
+    });
+});
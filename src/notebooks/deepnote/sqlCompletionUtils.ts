@@ -0,0 +1,201 @@
+import { CatalogTable, DatabaseCatalog } from './integrations/types';
+
+/**
+ * Table referenced in the FROM or JOIN clause of a query
+ */
+export interface SqlTableReference {
+    /** Parts of the table name, e.g. `['public', 'orders']` */
+    parts: string[];
+    alias?: string;
+}
+
+/**
+ * Where a qualified name being typed or hovered points to: the tables of a schema, or the columns of a table
+ */
+export type SqlQualifierTarget = { kind: 'schema'; schema: string } | { kind: 'table'; table: CatalogTable };
+
+const NAME_PART = String.raw`(?:"[^"]*"|\x60[^\x60]*\x60|\[[^\]]*\]|[A-Za-z_][\w$]*)`;
+const QUALIFIED_NAME = String.raw`${NAME_PART}(?:\s*\.\s*${NAME_PART})*`;
+const TABLE_REFERENCE_PATTERN = new RegExp(
+    String.raw`(${QUALIFIED_NAME})(?:\s+(?:AS\s+)?([A-Za-z_][\w$]*))?(\s*,\s*)?`,
+    'iy'
+);
+const FROM_OR_JOIN_PATTERN = /\b(?:FROM|JOIN)\s+/gi;
+const QUALIFIER_BEFORE_CURSOR_PATTERN = new RegExp(String.raw`(${QUALIFIED_NAME})\s*\.\s*[\w$]*$`);
+
+/**
+ * Keywords that can follow a table reference, which must not be taken for its alias
+ */
+const RESERVED_AFTER_TABLE = new Set([
+    'where',
+    'join',
+    'inner',
+    'left',
+    'right',
+    'full',
+    'cross',
+    'outer',
+    'on',
+    'using',
+    'group',
+    'order',
+    'having',
+    'limit',
+    'offset',
+    'union',
+    'window',
+    'qualify',
+    'natural',
+    'lateral',
+    'final',
+    'sample',
+    'tablesample'
+]);
+
+/**
+ * Splits a qualified name into its unquoted parts. BigQuery quotes whole paths, so quoted parts
+ * containing dots are split too.
+ */
+export function splitQualifiedName(name: string): string[] {
+    const parts: string[] = [];
+
+    for (const match of name.matchAll(new RegExp(NAME_PART, 'g'))) {
+        const part = match[0];
+
+        if (part.startsWith('`')) {
+            parts.push(...part.slice(1, -1).split('.'));
+        } else if (part.startsWith('"') || part.startsWith('[')) {
+            parts.push(part.slice(1, -1));
+        } else {
+            parts.push(part);
+        }
+    }
+
+    return parts.filter((part) => part.length > 0);
+}
+
+/**
+ * Removes the comments and string literals of a query, which could otherwise be taken for table references
+ */
+function stripCommentsAndStrings(query: string): string {
+    return query.replace(/--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|'(?:[^']|'')*(?:'|$)/g, (match) =>
+        match.replace(/[^\n]/g, ' ')
+    );
+}
+
+/**
+ * Finds the tables referenced by the FROM and JOIN clauses of a query, with their aliases.
+ * Comma separated tables of a FROM clause are all returned.
+ */
+export function findTableReferences(query: string): SqlTableReference[] {
+    const text = stripCommentsAndStrings(query);
+    const references: SqlTableReference[] = [];
+
+    for (const clause of text.matchAll(FROM_OR_JOIN_PATTERN)) {
+        TABLE_REFERENCE_PATTERN.lastIndex = (clause.index ?? 0) + clause[0].length;
+
+        let match: RegExpExecArray | null;
+        while ((match = TABLE_REFERENCE_PATTERN.exec(text))) {
+            const [, name, alias, comma] = match;
+            const hasAlias = alias !== undefined && !RESERVED_AFTER_TABLE.has(alias.toLowerCase());
+
+            references.push({ parts: splitQualifiedName(name), alias: hasAlias ? alias : undefined });
+
+            if (!comma || (alias !== undefined && !hasAlias)) {
+                break;
+            }
+        }
+    }
+
+    return references;
+}
+
+/**
+ * Returns the parts of the qualifier of the name being typed at the end of the text, e.g. `['o']` for
+ * `SELECT o.amo`, or `undefined` when the name isn't qualified.
+ */
+export function getQualifierBeforeCursor(textBeforeCursor: string): string[] | undefined {
+    const match = QUALIFIER_BEFORE_CURSOR_PATTERN.exec(textBeforeCursor);
+
+    return match ? splitQualifiedName(match[1]) : undefined;
+}
+
+function equalsIgnoreCase(a: string, b: string): boolean {
+    return a.localeCompare(b, undefined, { sensitivity: 'accent' }) === 0;
+}
+
+/**
+ * Finds a table of the catalog from the parts of its name. Unqualified names resolve to the default
+ * schema first, then to any schema. Leading parts naming the database or project are ignored.
+ */
+export function findCatalogTable(catalog: DatabaseCatalog, parts: string[]): CatalogTable | undefined {
+    const name = parts[parts.length - 1];
+    const schema = parts.length > 1 ? parts[parts.length - 2] : undefined;
+    const tables = catalog.tables.filter((table) => equalsIgnoreCase(table.name, name));
+
+    if (schema !== undefined) {
+        return tables.find((table) => equalsIgnoreCase(table.schema, schema));
+    }
+
+    return (
+        tables.find((table) => catalog.defaultSchema !== undefined && table.schema === catalog.defaultSchema) ??
+        tables[0]
+    );
+}
+
+/**
+ * Resolves the qualifier of a name: an alias or table of the query gives the columns of that table,
+ * a schema gives its tables.
+ */
+export function resolveQualifier(
+    catalog: DatabaseCatalog,
+    references: SqlTableReference[],
+    qualifier: string[]
+): SqlQualifierTarget | undefined {
+    if (qualifier.length === 1) {
+        const aliased = references.find(
+            (reference) => reference.alias && equalsIgnoreCase(reference.alias, qualifier[0])
+        );
+
+        if (aliased) {
+            const table = findCatalogTable(catalog, aliased.parts);
+            return table ? { kind: 'table', table } : undefined;
+        }
+    }
+
+    const table = findCatalogTable(catalog, qualifier);
+
+    if (table) {
+        return { kind: 'table', table };
+    }
+
+    const schemaName = qualifier[qualifier.length - 1];
+    const schema = catalog.tables.find((candidate) => equalsIgnoreCase(candidate.schema, schemaName))?.schema;
+
+    return schema !== undefined ? { kind: 'schema', schema } : undefined;
+}
+
+/**
+ * Returns the catalog tables referenced by a query, in the order of the query
+ */
+export function getReferencedTables(catalog: DatabaseCatalog, references: SqlTableReference[]): CatalogTable[] {
+    const tables = references
+        .map((reference) => findCatalogTable(catalog, reference.parts))
+        .filter((table): table is CatalogTable => table !== undefined);
+
+    return [...new Set(tables)];
+}
+
+/**
+ * Formats the columns of a table as a Markdown list for hovers, marking views
+ */
+export function formatTableHover(table: CatalogTable): string {
+    const title = table.schema ? `${table.schema}.${table.name}` : table.name;
+    const lines = [table.kind === 'view' ? `**${title}** _(view)_` : `**${title}**`, ''];
+
+    for (const column of table.columns) {
+        lines.push(column.type ? `- \`${column.name}\` ${column.type}` : `- \`${column.name}\``);
+    }
+
+    return lines.join('\n');
+}
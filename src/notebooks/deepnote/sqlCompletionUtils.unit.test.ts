@@ -0,0 +1,129 @@
+import { assert } from 'chai';
+
+import { DatabaseCatalog } from './integrations/types';
+import {
+    findCatalogTable,
+    findTableReferences,
+    formatTableHover,
+    getQualifierBeforeCursor,
+    resolveQualifier,
+    splitQualifiedName
+} from './sqlCompletionUtils';
+
+suite('sqlCompletionUtils', () => {
+    const catalog: DatabaseCatalog = {
+        defaultSchema: 'public',
+        truncated: false,
+        tables: [
+            { schema: 'staging', name: 'orders', kind: 'table', columns: [{ name: 'raw', type: 'TEXT' }] },
+            {
+                schema: 'public',
+                name: 'orders',
+                kind: 'table',
+                columns: [
+                    { name: 'id', type: 'INTEGER' },
+                    { name: 'customer_id', type: 'INTEGER' }
+                ]
+            },
+            { schema: 'public', name: 'customers', kind: 'view', columns: [{ name: 'id' }] }
+        ]
+    };
+
+    suite('splitQualifiedName', () => {
+        test('unquotes the parts of a name', () => {
+            assert.deepStrictEqual(splitQualifiedName('public."Order Items"'), ['public', 'Order Items']);
+            assert.deepStrictEqual(splitQualifiedName('[dbo].[orders]'), ['dbo', 'orders']);
+        });
+
+        test('splits BigQuery paths quoted as a whole', () => {
+            assert.deepStrictEqual(splitQualifiedName('`my-project.sales.orders`'), ['my-project', 'sales', 'orders']);
+        });
+    });
+
+    suite('findTableReferences', () => {
+        test('finds the tables of FROM and JOIN clauses with their aliases', () => {
+            const references = findTableReferences(
+                'SELECT * FROM public.orders AS o\nLEFT JOIN customers c ON c.id = o.customer_id WHERE o.id > 1'
+            );
+
+            assert.deepStrictEqual(references, [
+                { parts: ['public', 'orders'], alias: 'o' },
+                { parts: ['customers'], alias: 'c' }
+            ]);
+        });
+
+        test('finds comma separated tables and ignores keywords following a table', () => {
+            assert.deepStrictEqual(findTableReferences('SELECT * FROM orders, customers c WHERE true'), [
+                { parts: ['orders'], alias: undefined },
+                { parts: ['customers'], alias: 'c' }
+            ]);
+            assert.deepStrictEqual(findTableReferences('SELECT * FROM orders ORDER BY id'), [
+                { parts: ['orders'], alias: undefined }
+            ]);
+        });
+
+        test('ignores comments and string literals', () => {
+            assert.deepStrictEqual(
+                findTableReferences("-- FROM old_orders\nSELECT 'from users' FROM orders /* JOIN x */"),
+                [{ parts: ['orders'], alias: undefined }]
+            );
+        });
+    });
+
+    suite('getQualifierBeforeCursor', () => {
+        test('returns the qualifier of the name being typed', () => {
+            assert.deepStrictEqual(getQualifierBeforeCursor('SELECT o.cust'), ['o']);
+            assert.deepStrictEqual(getQualifierBeforeCursor('SELECT * FROM analytics.public.'), [
+                'analytics',
+                'public'
+            ]);
+        });
+
+        test('returns undefined for unqualified names', () => {
+            assert.isUndefined(getQualifierBeforeCursor('SELECT cust'));
+            assert.isUndefined(getQualifierBeforeCursor('SELECT 1.5'));
+        });
+    });
+
+    suite('findCatalogTable', () => {
+        test('resolves unqualified names in the default schema first', () => {
+            assert.strictEqual(findCatalogTable(catalog, ['orders'])?.schema, 'public');
+            assert.strictEqual(findCatalogTable(catalog, ['STAGING', 'Orders'])?.schema, 'staging');
+        });
+
+        test('ignores leading database parts', () => {
+            assert.strictEqual(findCatalogTable(catalog, ['analytics', 'staging', 'orders'])?.schema, 'staging');
+            assert.isUndefined(findCatalogTable(catalog, ['missing']));
+        });
+    });
+
+    suite('resolveQualifier', () => {
+        const references = findTableReferences('SELECT * FROM staging.orders o');
+
+        test('resolves aliases and tables to their columns', () => {
+            const aliased = resolveQualifier(catalog, references, ['o']);
+            const table = resolveQualifier(catalog, references, ['customers']);
+
+            assert.strictEqual(aliased?.kind === 'table' && aliased.table.schema, 'staging');
+            assert.strictEqual(table?.kind === 'table' && table.table.name, 'customers');
+        });
+
+        test('resolves schemas to their tables', () => {
+            assert.deepStrictEqual(resolveQualifier(catalog, references, ['Public']), {
+                kind: 'schema',
+                schema: 'public'
+            });
+            assert.isUndefined(resolveQualifier(catalog, references, ['x']));
+        });
+    });
+
+    suite('formatTableHover', () => {
+        test('lists the columns of a table with their types', () => {
+            assert.strictEqual(
+                formatTableHover(catalog.tables[1]),
+                '**public.orders**\n\n- `id` INTEGER\n- `customer_id` INTEGER'
+            );
+            assert.strictEqual(formatTableHover(catalog.tables[2]), '**public.customers** _(view)_\n\n- `id`');
+        });
+    });
+});
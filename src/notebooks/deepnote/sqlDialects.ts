@@ -0,0 +1,299 @@
+import { IntegrationType } from '../../platform/notebooks/deepnote/integrationTypes';
+
+/**
+ * SQL dialect of a SQL block, which decides the keywords and functions suggested in it.
+ * DataFrame SQL blocks are run by DuckDB.
+ */
+export type SqlDialect =
+    | 'postgres'
+    | 'redshift'
+    | 'bigquery'
+    | 'snowflake'
+    | 'mysql'
+    | 'tsql'
+    | 'clickhouse'
+    | 'trino'
+    | 'duckdb';
+
+export interface SqlFunction {
+    name: string;
+    signature: string;
+    description: string;
+}
+
+const KEYWORDS = [
+    'SELECT',
+    'DISTINCT',
+    'FROM',
+    'WHERE',
+    'AND',
+    'OR',
+    'NOT',
+    'IN',
+    'IS NULL',
+    'IS NOT NULL',
+    'BETWEEN',
+    'LIKE',
+    'AS',
+    'JOIN',
+    'INNER JOIN',
+    'LEFT JOIN',
+    'RIGHT JOIN',
+    'FULL OUTER JOIN',
+    'CROSS JOIN',
+    'ON',
+    'GROUP BY',
+    'HAVING',
+    'ORDER BY',
+    'ASC',
+    'DESC',
+    'UNION',
+    'UNION ALL',
+    'WITH',
+    'CASE',
+    'WHEN',
+    'THEN',
+    'ELSE',
+    'END',
+    'OVER',
+    'PARTITION BY',
+    'EXISTS'
+];
+
+const COMMON_FUNCTIONS: SqlFunction[] = [
+    { name: 'COUNT', signature: 'COUNT(expression)', description: 'Number of rows, or of non-null values' },
+    { name: 'SUM', signature: 'SUM(expression)', description: 'Sum of the values' },
+    { name: 'AVG', signature: 'AVG(expression)', description: 'Average of the values' },
+    { name: 'MIN', signature: 'MIN(expression)', description: 'Smallest value' },
+    { name: 'MAX', signature: 'MAX(expression)', description: 'Largest value' },
+    { name: 'COALESCE', signature: 'COALESCE(value, ...)', description: 'First non-null argument' },
+    { name: 'NULLIF', signature: 'NULLIF(value1, value2)', description: 'Null if both values are equal' },
+    { name: 'CAST', signature: 'CAST(expression AS type)', description: 'Converts a value to another type' },
+    { name: 'LOWER', signature: 'LOWER(string)', description: 'Converts a string to lowercase' },
+    { name: 'UPPER', signature: 'UPPER(string)', description: 'Converts a string to uppercase' },
+    { name: 'TRIM', signature: 'TRIM(string)', description: 'Removes leading and trailing spaces' },
+    { name: 'REPLACE', signature: 'REPLACE(string, from, to)', description: 'Replaces all occurrences of a substring' },
+    { name: 'CONCAT', signature: 'CONCAT(string, ...)', description: 'Concatenates strings' },
+    { name: 'ROUND', signature: 'ROUND(number, decimals)', description: 'Rounds a number' },
+    { name: 'ABS', signature: 'ABS(number)', description: 'Absolute value' },
+    { name: 'ROW_NUMBER', signature: 'ROW_NUMBER() OVER (...)', description: 'Number of the row in its window' },
+    { name: 'RANK', signature: 'RANK() OVER (...)', description: 'Rank of the row in its window, with gaps' },
+    { name: 'DENSE_RANK', signature: 'DENSE_RANK() OVER (...)', description: 'Rank of the row in its window' },
+    { name: 'LAG', signature: 'LAG(expression, offset) OVER (...)', description: 'Value of a preceding row' },
+    { name: 'LEAD', signature: 'LEAD(expression, offset) OVER (...)', description: 'Value of a following row' }
+];
+
+const POSTGRES_FUNCTIONS: SqlFunction[] = [
+    { name: 'DATE_TRUNC', signature: 'DATE_TRUNC(field, source)', description: 'Truncates a timestamp' },
+    { name: 'EXTRACT', signature: 'EXTRACT(field FROM source)', description: 'Part of a date or timestamp' },
+    { name: 'TO_CHAR', signature: 'TO_CHAR(value, format)', description: 'Formats a value as a string' },
+    { name: 'NOW', signature: 'NOW()', description: 'Current date and time' },
+    { name: 'LENGTH', signature: 'LENGTH(string)', description: 'Number of characters' },
+    { name: 'STRING_AGG', signature: 'STRING_AGG(expression, delimiter)', description: 'Concatenates the values' },
+    { name: 'ARRAY_AGG', signature: 'ARRAY_AGG(expression)', description: 'Collects the values into an array' },
+    { name: 'GENERATE_SERIES', signature: 'GENERATE_SERIES(start, stop, step)', description: 'Series of values' }
+];
+
+const DIALECT_FUNCTIONS: Record<SqlDialect, SqlFunction[]> = {
+    postgres: POSTGRES_FUNCTIONS,
+    redshift: [
+        { name: 'DATE_TRUNC', signature: 'DATE_TRUNC(datepart, timestamp)', description: 'Truncates a timestamp' },
+        { name: 'DATEADD', signature: 'DATEADD(datepart, interval, date)', description: 'Adds an interval' },
+        { name: 'DATEDIFF', signature: 'DATEDIFF(datepart, start, end)', description: 'Difference of two dates' },
+        { name: 'GETDATE', signature: 'GETDATE()', description: 'Current date and time' },
+        { name: 'NVL', signature: 'NVL(expression, replacement)', description: 'Replaces null values' },
+        { name: 'LEN', signature: 'LEN(string)', description: 'Number of characters' },
+        {
+            name: 'LISTAGG',
+            signature: 'LISTAGG(expression, delimiter) WITHIN GROUP (ORDER BY ...)',
+            description: 'Concatenates the values'
+        }
+    ],
+    bigquery: [
+        { name: 'DATE_TRUNC', signature: 'DATE_TRUNC(date, part)', description: 'Truncates a date' },
+        {
+            name: 'TIMESTAMP_TRUNC',
+            signature: 'TIMESTAMP_TRUNC(timestamp, part)',
+            description: 'Truncates a timestamp'
+        },
+        { name: 'DATE_ADD', signature: 'DATE_ADD(date, INTERVAL n part)', description: 'Adds an interval' },
+        { name: 'DATE_DIFF', signature: 'DATE_DIFF(date1, date2, part)', description: 'Difference of two dates' },
+        { name: 'FORMAT_DATE', signature: 'FORMAT_DATE(format, date)', description: 'Formats a date' },
+        { name: 'PARSE_DATE', signature: 'PARSE_DATE(format, string)', description: 'Parses a date' },
+        { name: 'SAFE_CAST', signature: 'SAFE_CAST(expression AS type)', description: 'Cast returning null on errors' },
+        { name: 'IFNULL', signature: 'IFNULL(expression, replacement)', description: 'Replaces null values' },
+        { name: 'LENGTH', signature: 'LENGTH(value)', description: 'Number of characters or bytes' },
+        { name: 'ARRAY_AGG', signature: 'ARRAY_AGG(expression)', description: 'Collects the values into an array' },
+        { name: 'STRING_AGG', signature: 'STRING_AGG(expression, delimiter)', description: 'Concatenates the values' },
+        { name: 'UNNEST', signature: 'UNNEST(array)', description: 'Rows of the elements of an array' },
+        {
+            name: 'APPROX_COUNT_DISTINCT',
+            signature: 'APPROX_COUNT_DISTINCT(expression)',
+            description: 'Approximate number of distinct values'
+        }
+    ],
+    snowflake: [
+        { name: 'DATE_TRUNC', signature: 'DATE_TRUNC(part, expression)', description: 'Truncates a date' },
+        { name: 'DATEADD', signature: 'DATEADD(part, value, expression)', description: 'Adds an interval' },
+        { name: 'DATEDIFF', signature: 'DATEDIFF(part, start, end)', description: 'Difference of two dates' },
+        { name: 'TO_DATE', signature: 'TO_DATE(expression, format)', description: 'Converts a value to a date' },
+        { name: 'TO_TIMESTAMP', signature: 'TO_TIMESTAMP(expression)', description: 'Converts a value to a timestamp' },
+        { name: 'IFF', signature: 'IFF(condition, then, else)', description: 'Value depending on a condition' },
+        { name: 'NVL', signature: 'NVL(expression, replacement)', description: 'Replaces null values' },
+        { name: 'TRY_CAST', signature: 'TRY_CAST(expression AS type)', description: 'Cast returning null on errors' },
+        { name: 'LENGTH', signature: 'LENGTH(string)', description: 'Number of characters' },
+        { name: 'PARSE_JSON', signature: 'PARSE_JSON(string)', description: 'Parses a JSON document' },
+        { name: 'FLATTEN', signature: 'FLATTEN(INPUT => expression)', description: 'Rows of the elements of an array' },
+        {
+            name: 'LISTAGG',
+            signature: 'LISTAGG(expression, delimiter) WITHIN GROUP (ORDER BY ...)',
+            description: 'Concatenates the values'
+        }
+    ],
+    mysql: [
+        { name: 'DATE_FORMAT', signature: 'DATE_FORMAT(date, format)', description: 'Formats a date' },
+        { name: 'DATE_ADD', signature: 'DATE_ADD(date, INTERVAL n unit)', description: 'Adds an interval' },
+        { name: 'DATEDIFF', signature: 'DATEDIFF(end, start)', description: 'Number of days between two dates' },
+        { name: 'STR_TO_DATE', signature: 'STR_TO_DATE(string, format)', description: 'Parses a date' },
+        { name: 'NOW', signature: 'NOW()', description: 'Current date and time' },
+        { name: 'IF', signature: 'IF(condition, then, else)', description: 'Value depending on a condition' },
+        { name: 'IFNULL', signature: 'IFNULL(expression, replacement)', description: 'Replaces null values' },
+        { name: 'CHAR_LENGTH', signature: 'CHAR_LENGTH(string)', description: 'Number of characters' },
+        {
+            name: 'GROUP_CONCAT',
+            signature: 'GROUP_CONCAT(expression SEPARATOR delimiter)',
+            description: 'Concatenates the values'
+        },
+        {
+            name: 'JSON_EXTRACT',
+            signature: 'JSON_EXTRACT(json, path)',
+            description: 'Value at a path of a JSON document'
+        }
+    ],
+    tsql: [
+        { name: 'DATEADD', signature: 'DATEADD(datepart, number, date)', description: 'Adds an interval' },
+        { name: 'DATEDIFF', signature: 'DATEDIFF(datepart, start, end)', description: 'Difference of two dates' },
+        { name: 'GETDATE', signature: 'GETDATE()', description: 'Current date and time' },
+        { name: 'FORMAT', signature: 'FORMAT(value, format)', description: 'Formats a value as a string' },
+        {
+            name: 'CONVERT',
+            signature: 'CONVERT(type, expression, style)',
+            description: 'Converts a value to another type'
+        },
+        { name: 'TRY_CAST', signature: 'TRY_CAST(expression AS type)', description: 'Cast returning null on errors' },
+        { name: 'ISNULL', signature: 'ISNULL(expression, replacement)', description: 'Replaces null values' },
+        { name: 'IIF', signature: 'IIF(condition, then, else)', description: 'Value depending on a condition' },
+        { name: 'LEN', signature: 'LEN(string)', description: 'Number of characters' },
+        { name: 'STRING_AGG', signature: 'STRING_AGG(expression, separator)', description: 'Concatenates the values' }
+    ],
+    clickhouse: [
+        { name: 'toDate', signature: 'toDate(expression)', description: 'Converts a value to a date' },
+        { name: 'toStartOfDay', signature: 'toStartOfDay(datetime)', description: 'Start of the day' },
+        { name: 'toStartOfMonth', signature: 'toStartOfMonth(date)', description: 'First day of the month' },
+        { name: 'dateDiff', signature: "dateDiff('unit', start, end)", description: 'Difference of two dates' },
+        { name: 'now', signature: 'now()', description: 'Current date and time' },
+        { name: 'today', signature: 'today()', description: 'Current date' },
+        { name: 'ifNull', signature: 'ifNull(expression, replacement)', description: 'Replaces null values' },
+        { name: 'length', signature: 'length(value)', description: 'Length of a string or array' },
+        { name: 'uniq', signature: 'uniq(expression)', description: 'Approximate number of distinct values' },
+        { name: 'uniqExact', signature: 'uniqExact(expression)', description: 'Number of distinct values' },
+        { name: 'countIf', signature: 'countIf(condition)', description: 'Number of rows matching a condition' },
+        {
+            name: 'sumIf',
+            signature: 'sumIf(expression, condition)',
+            description: 'Sum of the values matching a condition'
+        },
+        { name: 'groupArray', signature: 'groupArray(expression)', description: 'Collects the values into an array' },
+        { name: 'arrayJoin', signature: 'arrayJoin(array)', description: 'Rows of the elements of an array' }
+    ],
+    trino: [
+        { name: 'date_trunc', signature: "date_trunc('unit', timestamp)", description: 'Truncates a timestamp' },
+        { name: 'date_add', signature: "date_add('unit', value, timestamp)", description: 'Adds an interval' },
+        { name: 'date_diff', signature: "date_diff('unit', start, end)", description: 'Difference of two timestamps' },
+        { name: 'date_format', signature: 'date_format(timestamp, format)', description: 'Formats a timestamp' },
+        { name: 'now', signature: 'now()', description: 'Current date and time' },
+        { name: 'length', signature: 'length(string)', description: 'Number of characters' },
+        { name: 'try_cast', signature: 'try_cast(value AS type)', description: 'Cast returning null on errors' },
+        {
+            name: 'approx_distinct',
+            signature: 'approx_distinct(x)',
+            description: 'Approximate number of distinct values'
+        },
+        { name: 'array_agg', signature: 'array_agg(x)', description: 'Collects the values into an array' },
+        {
+            name: 'regexp_like',
+            signature: 'regexp_like(string, pattern)',
+            description: 'Whether a string matches a pattern'
+        },
+        {
+            name: 'json_extract',
+            signature: 'json_extract(json, path)',
+            description: 'Value at a path of a JSON document'
+        }
+    ],
+    duckdb: [
+        { name: 'date_trunc', signature: 'date_trunc(part, date)', description: 'Truncates a date or timestamp' },
+        { name: 'date_diff', signature: 'date_diff(part, start, end)', description: 'Difference of two dates' },
+        { name: 'strftime', signature: 'strftime(timestamp, format)', description: 'Formats a timestamp' },
+        { name: 'strptime', signature: 'strptime(string, format)', description: 'Parses a timestamp' },
+        { name: 'now', signature: 'now()', description: 'Current date and time' },
+        { name: 'length', signature: 'length(string)', description: 'Number of characters' },
+        { name: 'try_cast', signature: 'TRY_CAST(expression AS type)', description: 'Cast returning null on errors' },
+        { name: 'string_agg', signature: 'string_agg(expression, separator)', description: 'Concatenates the values' },
+        { name: 'list', signature: 'list(expression)', description: 'Collects the values into a list' },
+        {
+            name: 'regexp_matches',
+            signature: 'regexp_matches(string, pattern)',
+            description: 'Whether a string matches a pattern'
+        },
+        { name: 'read_csv_auto', signature: "read_csv_auto('path')", description: 'Reads a CSV file' },
+        { name: 'read_parquet', signature: "read_parquet('path')", description: 'Reads a Parquet file' }
+    ]
+};
+
+/**
+ * Returns the dialect of the SQL blocks of an integration, or the DuckDB dialect of DataFrame SQL
+ * blocks when no integration type is given.
+ */
+export function getSqlDialect(type: IntegrationType | undefined): SqlDialect {
+    switch (type) {
+        case IntegrationType.BigQuery:
+            return 'bigquery';
+        case IntegrationType.Snowflake:
+            return 'snowflake';
+        case IntegrationType.MySql:
+        case IntegrationType.MariaDb:
+            return 'mysql';
+        case IntegrationType.SqlServer:
+            return 'tsql';
+        case IntegrationType.Redshift:
+            return 'redshift';
+        case IntegrationType.ClickHouse:
+            return 'clickhouse';
+        case IntegrationType.Trino:
+            return 'trino';
+        case IntegrationType.Postgres:
+            return 'postgres';
+        case undefined:
+            return 'duckdb';
+    }
+}
+
+/**
+ * Returns the keywords of a dialect, or the standard ones when the dialect isn't known.
+ * SQL Server limits rows with `TOP` instead of `LIMIT`.
+ */
+export function getSqlKeywords(dialect: SqlDialect | undefined): string[] {
+    return dialect === 'tsql' ? [...KEYWORDS, 'TOP', 'OFFSET', 'FETCH NEXT'] : [...KEYWORDS, 'LIMIT', 'OFFSET'];
+}
+
+/**
+ * Returns the functions of a dialect, the dialect's own functions first, or the standard ones when
+ * the dialect isn't known
+ */
+export function getSqlFunctions(dialect: SqlDialect | undefined): SqlFunction[] {
+    const dialectFunctions = dialect ? DIALECT_FUNCTIONS[dialect] : [];
+    const dialectNames = new Set(dialectFunctions.map((fn) => fn.name.toUpperCase()));
+
+    return [...dialectFunctions, ...COMMON_FUNCTIONS.filter((fn) => !dialectNames.has(fn.name))];
+}
@@ -0,0 +1,211 @@
+import { inject, injectable } from 'inversify';
+import {
+    CodeLens,
+    CodeLensProvider,
+    commands,
+    Diagnostic,
+    DiagnosticCollection,
+    DiagnosticSeverity,
+    l10n,
+    languages,
+    NotebookCell,
+    Range,
+    TextDocument,
+    Uri,
+    ViewColumn,
+    window,
+    workspace
+} from 'vscode';
+
+import { IExtensionSyncActivationService } from '../../platform/activation/types';
+import { Commands } from '../../platform/common/constants';
+import { IFileSystem } from '../../platform/common/platform/types';
+import { IDisposableRegistry, IExtensionContext } from '../../platform/common/types';
+import { logger } from '../../platform/logging';
+import { joinPath } from '../../platform/vscode-path/resources';
+import { IKernelProvider } from '../../kernels/types';
+import { DEEPNOTE_NOTEBOOK_TYPE } from '../../kernels/deepnote/types';
+import {
+    buildSqlPreviewCode,
+    findTemplateVariableOffsets,
+    formatSqlPreview,
+    hasJinjaTemplate,
+    parseSqlPreviewOutputs,
+    SqlPreviewResult
+} from './sqlPreviewUtils';
+
+const diagnosticSource = 'Deepnote';
+
+/**
+ * Adds a "Preview compiled SQL" code lens to the SQL blocks that use Jinja templating. The preview
+ * compiles the template against the variables of the running kernel, without running the query, and
+ * shows the compiled query with its bind parameters. Undefined variables and template errors are
+ * reported as diagnostics on the block until it is edited.
+ */
+@injectable()
+export class SqlPreviewProvider implements IExtensionSyncActivationService, CodeLensProvider {
+    private readonly diagnostics: DiagnosticCollection;
+
+    private script: string | undefined;
+
+    constructor(
+        @inject(IKernelProvider) private readonly kernelProvider: IKernelProvider,
+        @inject(IFileSystem) private readonly fs: IFileSystem,
+        @inject(IExtensionContext) private readonly context: IExtensionContext,
+        @inject(IDisposableRegistry) private readonly disposables: IDisposableRegistry
+    ) {
+        this.diagnostics = languages.createDiagnosticCollection('deepnote-sql');
+        this.disposables.push(this.diagnostics);
+    }
+
+    public activate(): void {
+        this.disposables.push(
+            languages.registerCodeLensProvider({ notebookType: DEEPNOTE_NOTEBOOK_TYPE, language: 'sql' }, this)
+        );
+        this.disposables.push(
+            commands.registerCommand(Commands.PreviewCompiledSql, (uri?: Uri) => this.previewCompiledSql(uri))
+        );
+        this.disposables.push(
+            workspace.onDidChangeTextDocument((e) => {
+                if (e.contentChanges.length > 0 && this.diagnostics.has(e.document.uri)) {
+                    this.diagnostics.delete(e.document.uri);
+                }
+            })
+        );
+        this.disposables.push(
+            workspace.onDidCloseNotebookDocument((notebook) =>
+                notebook.getCells().forEach((cell) => this.diagnostics.delete(cell.document.uri))
+            )
+        );
+    }
+
+    public provideCodeLenses(document: TextDocument): CodeLens[] {
+        if (!hasJinjaTemplate(document.getText())) {
+            return [];
+        }
+
+        return [
+            new CodeLens(new Range(0, 0, 0, 0), {
+                title: l10n.t('Preview compiled SQL'),
+                command: Commands.PreviewCompiledSql,
+                arguments: [document.uri]
+            })
+        ];
+    }
+
+    private async previewCompiledSql(uri: Uri | undefined): Promise<void> {
+        const cell = uri ? findSqlCell(uri) : getActiveSqlCell();
+
+        if (!cell) {
+            void window.showErrorMessage(l10n.t('Select a SQL block to preview its compiled SQL.'));
+            return;
+        }
+
+        const kernel = this.kernelProvider.get(cell.notebook);
+
+        if (!kernel?.session) {
+            void window.showWarningMessage(
+                l10n.t('Start the kernel of the notebook to compile the SQL against its variables.')
+            );
+            return;
+        }
+
+        try {
+            const code = buildSqlPreviewCode(await this.getScript(), cell.document.getText());
+            const outputs = await this.kernelProvider.getKernelExecution(kernel).executeHidden(code);
+            const result = parseSqlPreviewOutputs(outputs);
+
+            this.updateDiagnostics(cell.document, result);
+
+            if (!result.success) {
+                void window.showErrorMessage(l10n.t('The SQL template is invalid: {0}', result.message));
+                return;
+            }
+
+            const variableName = (cell.metadata as Record<string, unknown> | undefined)?.deepnote_variable_name;
+            const title =
+                typeof variableName === 'string' && variableName
+                    ? l10n.t('Compiled SQL of {0}', variableName)
+                    : l10n.t('Compiled SQL');
+            const document = await workspace.openTextDocument({
+                content: formatSqlPreview(title, result),
+                language: 'markdown'
+            });
+
+            await window.showTextDocument(document, { preview: true, viewColumn: ViewColumn.Beside });
+        } catch (error) {
+            logger.error('SqlPreviewProvider: Failed to compile the SQL template', error);
+            void window.showErrorMessage(
+                l10n.t(
+                    'Failed to preview the compiled SQL: {0}',
+                    error instanceof Error ? error.message : String(error)
+                )
+            );
+        }
+    }
+
+    private updateDiagnostics(document: TextDocument, result: SqlPreviewResult): void {
+        const diagnostics: Diagnostic[] = [];
+
+        if (result.success) {
+            const template = document.getText();
+
+            for (const name of result.undefined) {
+                for (const { start, end } of findTemplateVariableOffsets(template, name)) {
+                    const diagnostic = new Diagnostic(
+                        new Range(document.positionAt(start), document.positionAt(end)),
+                        l10n.t("'{0}' is not defined in the kernel", name),
+                        DiagnosticSeverity.Warning
+                    );
+                    diagnostic.source = diagnosticSource;
+                    diagnostics.push(diagnostic);
+                }
+            }
+        } else {
+            const line = Math.min(Math.max((result.line ?? 1) - 1, 0), document.lineCount - 1);
+            const diagnostic = new Diagnostic(document.lineAt(line).range, result.message, DiagnosticSeverity.Error);
+            diagnostic.source = diagnosticSource;
+            diagnostics.push(diagnostic);
+        }
+
+        this.diagnostics.set(document.uri, diagnostics);
+    }
+
+    private async getScript(): Promise<string> {
+        if (!this.script) {
+            this.script = await this.fs.readFile(
+                joinPath(this.context.extensionUri, 'pythonFiles', 'deepnote_sql_preview.py')
+            );
+        }
+
+        return this.script;
+    }
+}
+
+function findSqlCell(uri: Uri): NotebookCell | undefined {
+    for (const notebook of workspace.notebookDocuments) {
+        if (notebook.notebookType !== DEEPNOTE_NOTEBOOK_TYPE) {
+            continue;
+        }
+
+        const cell = notebook.getCells().find((candidate) => candidate.document.uri.toString() === uri.toString());
+
+        if (cell) {
+            return cell;
+        }
+    }
+
+    return undefined;
+}
+
+function getActiveSqlCell(): NotebookCell | undefined {
+    const editor = window.activeNotebookEditor;
+
+    if (editor?.notebook.notebookType !== DEEPNOTE_NOTEBOOK_TYPE || editor.selection.isEmpty) {
+        return undefined;
+    }
+
+    const cell = editor.notebook.cellAt(editor.selection.start);
+
+    return cell.document.languageId === 'sql' ? cell : undefined;
+}
@@ -0,0 +1,93 @@
+import type * as nbformat from '@jupyterlab/nbformat';
+
+import { buildKernelFunctionCall, parseKernelFunctionOutputs } from '../../platform/deepnote/kernelScripts';
+
+/**
+ * Bind parameter of a compiled SQL query, with the value of its Jinja expression in the kernel
+ */
+export interface SqlPreviewParameter {
+    name: string;
+    /** Python type of the value, or `undefined` when the expression uses an undefined variable */
+    type: string;
+    /** Python representation of the value, truncated */
+    value: string | null;
+}
+
+/**
+ * Result of compiling the Jinja template of a SQL block with `pythonFiles/deepnote_sql_preview.py`
+ */
+export type SqlPreviewResult =
+    | { success: true; query: string; parameters: SqlPreviewParameter[]; undefined: string[] }
+    | { success: false; message: string; line?: number | null };
+
+/**
+ * Name of the function defined by `pythonFiles/deepnote_sql_preview.py`
+ */
+const PREVIEW_FUNCTION = '_deepnote_preview_sql';
+
+const JINJA_SEGMENT_PATTERN = /\{\{[\s\S]*?(?:\}\}|$)|\{%[\s\S]*?(?:%\}|$)/g;
+
+/**
+ * Whether a SQL query uses Jinja expressions or statements
+ */
+export function hasJinjaTemplate(query: string): boolean {
+    return /\{\{|\{%/.test(query);
+}
+
+/**
+ * Builds the code that compiles a template in the kernel, given the contents of the preview script. The
+ * function is removed again, so it does not show up among the variables of the notebook.
+ */
+export function buildSqlPreviewCode(script: string, template: string): string {
+    return buildKernelFunctionCall(script, PREVIEW_FUNCTION, [template]);
+}
+
+/**
+ * Reads the result of the preview code from the outputs of its execution
+ *
+ * @throws When the code failed or printed no result
+ */
+export function parseSqlPreviewOutputs(outputs: nbformat.IOutput[]): SqlPreviewResult {
+    return parseKernelFunctionOutputs<SqlPreviewResult>(outputs, 'SQL preview');
+}
+
+/**
+ * Finds the occurrences of a variable in the Jinja expressions and statements of a template,
+ * as offsets into the template
+ */
+export function findTemplateVariableOffsets(template: string, name: string): { start: number; end: number }[] {
+    const offsets: { start: number; end: number }[] = [];
+    // Names come from Python identifiers, attributes of other variables are skipped
+    const namePattern = new RegExp(`(?<![\\w.])${name}(?!\\w)`, 'g');
+
+    for (const segment of template.matchAll(JINJA_SEGMENT_PATTERN)) {
+        const segmentStart = segment.index ?? 0;
+
+        for (const match of segment[0].matchAll(namePattern)) {
+            const start = segmentStart + (match.index ?? 0);
+            offsets.push({ start, end: start + name.length });
+        }
+    }
+
+    return offsets;
+}
+
+/**
+ * Formats a compiled query and its bind parameters as Markdown
+ */
+export function formatSqlPreview(title: string, result: SqlPreviewResult & { success: true }): string {
+    const lines = [`# ${title}`, '', '```sql', result.query.trim(), '```', ''];
+
+    if (result.parameters.length > 0) {
+        lines.push('| Parameter | Type | Value |', '| --- | --- | --- |');
+
+        for (const parameter of result.parameters) {
+            const value = parameter.value === null ? '_undefined_' : `\`${parameter.value.replace(/`/g, "'")}\``;
+            lines.push(`| ${parameter.name} | ${parameter.type} | ${value.replace(/\|/g, '\\|')} |`);
+        }
+
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
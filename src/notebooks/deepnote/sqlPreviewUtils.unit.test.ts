@@ -0,0 +1,97 @@
+import type * as nbformat from '@jupyterlab/nbformat';
+import { assert } from 'chai';
+
+import {
+    buildSqlPreviewCode,
+    findTemplateVariableOffsets,
+    formatSqlPreview,
+    hasJinjaTemplate,
+    parseSqlPreviewOutputs
+} from './sqlPreviewUtils';
+
+suite('sqlPreviewUtils', () => {
+    test('detects Jinja expressions and statements', () => {
+        assert.isTrue(hasJinjaTemplate('SELECT * FROM orders WHERE country = {{ country }}'));
+        assert.isTrue(hasJinjaTemplate('{% if full %}SELECT *{% endif %}'));
+        assert.isFalse(hasJinjaTemplate("SELECT '{' FROM orders"));
+    });
+
+    test('passes the template to the preview function as a string literal and removes the function', () => {
+        const code = buildSqlPreviewCode('def _deepnote_preview_sql(template): ...', 'SELECT "a"\nFROM t');
+
+        assert.include(code, 'print(_deepnote_preview_sql("SELECT \\"a\\"\\nFROM t"))');
+        assert.include(code, 'del _deepnote_preview_sql');
+    });
+
+    suite('parseSqlPreviewOutputs', () => {
+        test('reads the result printed last', () => {
+            const outputs: nbformat.IOutput[] = [
+                { output_type: 'stream', name: 'stdout', text: 'warning\n' },
+                {
+                    output_type: 'stream',
+                    name: 'stdout',
+                    text: ['{"success": true, "query": "SELECT 1", ', '"parameters": [], "undefined": ["x"]}\n']
+                }
+            ];
+
+            assert.deepStrictEqual(parseSqlPreviewOutputs(outputs), {
+                success: true,
+                query: 'SELECT 1',
+                parameters: [],
+                undefined: ['x']
+            });
+        });
+
+        test('throws the error raised in the kernel', () => {
+            const outputs: nbformat.IOutput[] = [
+                {
+                    output_type: 'error',
+                    ename: 'ModuleNotFoundError',
+                    evalue: "No module named 'jinja2'",
+                    traceback: []
+                }
+            ];
+
+            assert.throws(() => parseSqlPreviewOutputs(outputs), "ModuleNotFoundError: No module named 'jinja2'");
+        });
+    });
+
+    test('finds the variables of Jinja expressions and statements only', () => {
+        const template = 'SELECT country FROM t WHERE country = {{ country }}{% if country %} AND x{% endif %}';
+
+        assert.deepStrictEqual(findTemplateVariableOffsets(template, 'country'), [
+            { start: 41, end: 48 },
+            { start: 57, end: 64 }
+        ]);
+        assert.deepStrictEqual(findTemplateVariableOffsets('{{ filters.country }}', 'country'), []);
+    });
+
+    test('formats the compiled query and its parameters', () => {
+        const markdown = formatSqlPreview('Compiled SQL of df', {
+            success: true,
+            query: 'SELECT * FROM orders WHERE country = %(param_1)s AND x = %(param_2)s\n',
+            parameters: [
+                { name: 'param_1', type: 'str', value: "'a|b'" },
+                { name: 'param_2', type: 'undefined', value: null }
+            ],
+            undefined: ['missing']
+        });
+
+        assert.strictEqual(
+            markdown,
+            [
+                '# Compiled SQL of df',
+                '',
+                '```sql',
+                'SELECT * FROM orders WHERE country = %(param_1)s AND x = %(param_2)s',
+                '```',
+                '',
+                '| Parameter | Type | Value |',
+                '| --- | --- | --- |',
+                "| param_1 | str | `'a\\|b'` |",
+                '| param_2 | undefined | _undefined_ |',
+                ''
+            ].join('\n')
+        );
+    });
+});
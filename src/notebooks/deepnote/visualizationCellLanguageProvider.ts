@@ -0,0 +1,257 @@
+import { inject, injectable } from 'inversify';
+import {
+    CancellationToken,
+    CompletionItem,
+    CompletionItemKind,
+    CompletionItemProvider,
+    Diagnostic,
+    DiagnosticCollection,
+    DiagnosticSeverity,
+    l10n,
+    languages,
+    NotebookCell,
+    NotebookDocument,
+    Position,
+    Range,
+    TextDocument,
+    workspace
+} from 'vscode';
+
+import { IExtensionSyncActivationService } from '../../platform/activation/types';
+import { IDisposableRegistry } from '../../platform/common/types';
+import * as localize from '../../platform/common/utils/localize';
+import {
+    DATAFRAME_FILTER_OPERATORS,
+    DataframeFilterOperator,
+    RELATIVE_DATE_FILTER_VALUES
+} from '../../platform/deepnote/dataframeFilters';
+import { NotebookCellExecutionState, notebookCellExecutions } from '../../platform/notebooks/cellExecutionStateService';
+import { DEEPNOTE_NOTEBOOK_TYPE } from '../../kernels/deepnote/types';
+import { KernelDataframes } from './kernelDataframes';
+import {
+    findVisualizationCellProblems,
+    getVisualizationCompletionTarget,
+    isVisualizationCell,
+    VisualizationCellProblem
+} from './visualizationCellValidation';
+
+const diagnosticSource = 'Deepnote';
+
+const OPERATOR_LABELS: Record<DataframeFilterOperator, string> = {
+    'is-equal': localize.WebViews.dataframeFilterIsEqual,
+    'is-not-equal': localize.WebViews.dataframeFilterIsNotEqual,
+    'is-one-of': localize.WebViews.dataframeFilterIsOneOf,
+    'is-not-one-of': localize.WebViews.dataframeFilterIsNotOneOf,
+    'is-not-null': localize.WebViews.dataframeFilterIsNotNull,
+    'is-null': localize.WebViews.dataframeFilterIsNull,
+    'text-contains': localize.WebViews.dataframeFilterTextContains,
+    'text-does-not-contain': localize.WebViews.dataframeFilterTextDoesNotContain,
+    'greater-than': localize.WebViews.dataframeFilterGreaterThan,
+    'greater-than-or-equal': localize.WebViews.dataframeFilterGreaterThanOrEqual,
+    'less-than': localize.WebViews.dataframeFilterLessThan,
+    'less-than-or-equal': localize.WebViews.dataframeFilterLessThanOrEqual,
+    between: localize.WebViews.dataframeFilterBetween,
+    'outside-of': localize.WebViews.dataframeFilterOutsideOf,
+    'is-relative-today': localize.WebViews.dataframeFilterIsRelativeToday,
+    'is-after': localize.WebViews.dataframeFilterIsAfter,
+    'is-before': localize.WebViews.dataframeFilterIsBefore,
+    'is-on': localize.WebViews.dataframeFilterIsOn
+};
+
+/**
+ * Validates the JSON of the visualization blocks of Deepnote notebooks as it is edited, and completes
+ * their DataFrame variable, the columns and operators of their filters, and relative dates. Problems
+ * with the JSON are reported right away, the variable and the columns once the DataFrames of the kernel
+ * have been read, which happens again after each execution.
+ */
+@injectable()
+export class VisualizationCellLanguageProvider implements IExtensionSyncActivationService, CompletionItemProvider {
+    private readonly diagnostics: DiagnosticCollection;
+
+    constructor(
+        @inject(KernelDataframes) private readonly kernelDataframes: KernelDataframes,
+        @inject(IDisposableRegistry) private readonly disposables: IDisposableRegistry
+    ) {
+        this.diagnostics = languages.createDiagnosticCollection('deepnote-visualization');
+        this.disposables.push(this.diagnostics);
+    }
+
+    public activate(): void {
+        // The converter of visualization blocks and the chart block command use different language IDs
+        const selector = [
+            { notebookType: DEEPNOTE_NOTEBOOK_TYPE, language: 'json' },
+            { notebookType: DEEPNOTE_NOTEBOOK_TYPE, language: 'JSON' }
+        ];
+
+        this.disposables.push(languages.registerCompletionItemProvider(selector, this, '"'));
+
+        this.disposables.push(workspace.onDidOpenNotebookDocument((notebook) => this.validateNotebook(notebook)));
+        this.disposables.push(
+            workspace.onDidChangeNotebookDocument((e) =>
+                e.contentChanges.forEach((change) => change.addedCells.forEach((cell) => this.validateCell(cell)))
+            )
+        );
+        this.disposables.push(
+            workspace.onDidChangeTextDocument((e) => {
+                const cell = e.contentChanges.length > 0 ? findNotebookCell(e.document) : undefined;
+
+                if (cell) {
+                    this.validateCell(cell);
+                }
+            })
+        );
+        this.disposables.push(
+            workspace.onDidCloseNotebookDocument((notebook) =>
+                notebook.getCells().forEach((cell) => this.diagnostics.delete(cell.document.uri))
+            )
+        );
+
+        // Executions may define or change the DataFrames of the kernel
+        this.disposables.push(
+            notebookCellExecutions.onDidChangeNotebookCellExecutionState((e) => {
+                if (e.state === NotebookCellExecutionState.Idle) {
+                    this.validateNotebook(e.cell.notebook);
+                }
+            })
+        );
+
+        workspace.notebookDocuments.forEach((notebook) => this.validateNotebook(notebook));
+    }
+
+    public async provideCompletionItems(
+        document: TextDocument,
+        position: Position,
+        token: CancellationToken
+    ): Promise<CompletionItem[] | undefined> {
+        const cell = findNotebookCell(document);
+
+        if (!cell || !isVisualizationCell(cell)) {
+            return undefined;
+        }
+
+        const target = getVisualizationCompletionTarget(document.getText(), document.offsetAt(position));
+
+        if (!target) {
+            return undefined;
+        }
+
+        const range = target.replace
+            ? new Range(
+                  document.positionAt(target.replace.offset),
+                  document.positionAt(target.replace.offset + target.replace.length)
+              )
+            : undefined;
+        const createItem = (value: string, kind: CompletionItemKind, detail: string | undefined) => {
+            const item = new CompletionItem(value, kind);
+
+            // Values are inserted with their quotes, which VS Code also filters by
+            item.insertText = JSON.stringify(value);
+            item.filterText = item.insertText;
+            item.range = range;
+            item.detail = detail;
+
+            return item;
+        };
+
+        switch (target.kind) {
+            case 'operator':
+                return DATAFRAME_FILTER_OPERATORS.map((operator) =>
+                    createItem(operator, CompletionItemKind.EnumMember, OPERATOR_LABELS[operator])
+                );
+
+            case 'relativeDate':
+                return RELATIVE_DATE_FILTER_VALUES.map((value) =>
+                    createItem(value, CompletionItemKind.EnumMember, undefined)
+                );
+
+            case 'variable':
+            case 'column': {
+                const dataframes = await this.kernelDataframes.list(cell.notebook);
+
+                if (!dataframes || token.isCancellationRequested) {
+                    return undefined;
+                }
+
+                if (target.kind === 'variable') {
+                    return dataframes.map((dataframe) =>
+                        createItem(
+                            dataframe.name,
+                            CompletionItemKind.Variable,
+                            l10n.t('DataFrame with {0} columns', dataframe.columns.length)
+                        )
+                    );
+                }
+
+                const dataframe = dataframes.find((candidate) => candidate.name === target.variable);
+
+                return dataframe?.columns.map((column) =>
+                    createItem(column.name, CompletionItemKind.Field, `${column.dtype} · ${dataframe.name}`)
+                );
+            }
+        }
+    }
+
+    private validateNotebook(notebook: NotebookDocument): void {
+        if (notebook.notebookType === DEEPNOTE_NOTEBOOK_TYPE) {
+            notebook.getCells().forEach((cell) => this.validateCell(cell));
+        }
+    }
+
+    /**
+     * Reports the problems of the JSON of a visualization block, then those of its variable and columns
+     * once the DataFrames of the kernel have been read
+     */
+    private validateCell(cell: NotebookCell): void {
+        if (!isVisualizationCell(cell)) {
+            return;
+        }
+
+        const document = cell.document;
+        const version = document.version;
+        const text = document.getText();
+
+        this.setProblems(document, findVisualizationCellProblems(text, undefined));
+
+        void this.kernelDataframes.list(cell.notebook).then((dataframes) => {
+            // The block may have been edited or closed while the kernel was busy
+            if (dataframes && !document.isClosed && document.version === version) {
+                this.setProblems(document, findVisualizationCellProblems(text, dataframes));
+            }
+        });
+    }
+
+    private setProblems(document: TextDocument, problems: VisualizationCellProblem[]): void {
+        this.diagnostics.set(
+            document.uri,
+            problems.map((problem) => {
+                const diagnostic = new Diagnostic(
+                    new Range(
+                        document.positionAt(problem.offset),
+                        document.positionAt(problem.offset + problem.length)
+                    ),
+                    problem.message,
+                    problem.severity === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning
+                );
+                diagnostic.source = diagnosticSource;
+
+                return diagnostic;
+            })
+        );
+    }
+}
+
+function findNotebookCell(document: TextDocument): NotebookCell | undefined {
+    for (const notebook of workspace.notebookDocuments) {
+        if (notebook.notebookType !== DEEPNOTE_NOTEBOOK_TYPE) {
+            continue;
+        }
+
+        const cell = notebook.getCells().find((candidate) => candidate.document === document);
+
+        if (cell) {
+            return cell;
+        }
+    }
+
+    return undefined;
+}
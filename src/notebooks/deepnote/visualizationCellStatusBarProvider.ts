@@ -0,0 +1,234 @@
+import {
+    CancellationToken,
+    EventEmitter,
+    NotebookCell,
+    NotebookCellStatusBarItem,
+    NotebookCellStatusBarItemProvider,
+    ProviderResult,
+    commands,
+    l10n,
+    notebooks,
+    window
+} from 'vscode';
+import { inject, injectable } from 'inversify';
+
+import { IExtensionSyncActivationService } from '../../platform/activation/types';
+import { IDisposableRegistry, IExtensionContext } from '../../platform/common/types';
+import { Commands } from '../../platform/common/constants';
+import type { DataframeFilter } from '../../platform/deepnote/dataframeFilters';
+import { NotebookCellExecutionState, notebookCellExecutions } from '../../platform/notebooks/cellExecutionStateService';
+import { ChartEditorWebviewProvider } from './chartEditorWebview';
+import { ChartFilterPreview, KernelDataframes } from './kernelDataframes';
+import { isVisualizationCell, parseVisualizationCell } from './visualizationCellValidation';
+
+/**
+ * How long the filters of a chart have to stay unchanged before they are previewed in the kernel
+ */
+const PREVIEW_DELAY_MS = 500;
+
+interface FilterPreviewEntry {
+    /** Variable and filters the preview is for, empty when the DataFrames may have changed since */
+    key: string;
+    preview: ChartFilterPreview | undefined;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Shows a button on visualization blocks that opens their chart in the chart editor, and how many rows
+ * of the DataFrame are left after the filters of the chart, previewed on a sample while they are edited
+ */
+@injectable()
+export class VisualizationCellStatusBarProvider
+    implements NotebookCellStatusBarItemProvider, IExtensionSyncActivationService
+{
+    private readonly _onDidChangeCellStatusBarItems = new EventEmitter<void>();
+
+    public readonly onDidChangeCellStatusBarItems = this._onDidChangeCellStatusBarItems.event;
+
+    private readonly chartEditorWebview: ChartEditorWebviewProvider;
+
+    private readonly previews = new WeakMap<NotebookCell, FilterPreviewEntry>();
+
+    constructor(
+        @inject(IDisposableRegistry) private readonly disposables: IDisposableRegistry,
+        @inject(IExtensionContext) extensionContext: IExtensionContext,
+        @inject(KernelDataframes) private readonly kernelDataframes: KernelDataframes
+    ) {
+        this.chartEditorWebview = new ChartEditorWebviewProvider(extensionContext, kernelDataframes);
+    }
+
+    public activate(): void {
+        this.disposables.push(notebooks.registerNotebookCellStatusBarItemProvider('deepnote', this));
+
+        this.disposables.push(
+            commands.registerCommand(Commands.EditChart, async (cell?: NotebookCell) => {
+                if (!cell) {
+                    // Fall back to the active notebook cell
+                    const activeEditor = window.activeNotebookEditor;
+                    if (activeEditor && activeEditor.selection) {
+                        cell = activeEditor.notebook.cellAt(activeEditor.selection.start);
+                    }
+                }
+
+                if (!cell || !isVisualizationCell(cell)) {
+                    void window.showErrorMessage(l10n.t('No chart block selected'));
+                    return;
+                }
+
+                await this.chartEditorWebview.show(cell);
+            })
+        );
+
+        // Executions may change the DataFrames the filters are previewed on
+        this.disposables.push(
+            notebookCellExecutions.onDidChangeNotebookCellExecutionState((e) => {
+                if (e.state === NotebookCellExecutionState.Idle && e.cell.notebook.notebookType === 'deepnote') {
+                    e.cell.notebook.getCells().forEach((cell) => this.invalidatePreview(cell));
+                    this._onDidChangeCellStatusBarItems.fire();
+                }
+            })
+        );
+
+        this.disposables.push(this.chartEditorWebview);
+        this.disposables.push(this._onDidChangeCellStatusBarItems);
+    }
+
+    public provideCellStatusBarItems(
+        cell: NotebookCell,
+        token: CancellationToken
+    ): ProviderResult<NotebookCellStatusBarItem | NotebookCellStatusBarItem[]> {
+        if (token?.isCancellationRequested || !isVisualizationCell(cell)) {
+            return undefined;
+        }
+
+        const items: NotebookCellStatusBarItem[] = [
+            {
+                text: `$(graph) ${l10n.t('Edit chart')}`,
+                alignment: 1, // NotebookCellStatusBarAlignment.Left
+                priority: 100,
+                tooltip: l10n.t('Pick the DataFrame, columns and filters of the chart'),
+                command: {
+                    title: l10n.t('Edit chart'),
+                    command: Commands.EditChart,
+                    arguments: [cell]
+                }
+            }
+        ];
+        const previewItem = this.createFilterPreviewItem(cell);
+
+        if (previewItem) {
+            items.push(previewItem);
+        }
+
+        return items;
+    }
+
+    /**
+     * Creates the item showing the last preview of the filters of a chart, and previews them again when
+     * they changed since
+     */
+    private createFilterPreviewItem(cell: NotebookCell): NotebookCellStatusBarItem | undefined {
+        const config = parseVisualizationCell(cell.document.getText());
+
+        if (!config?.variable || config.filters.length === 0 || !this.kernelDataframes.isKernelRunning(cell.notebook)) {
+            return undefined;
+        }
+
+        const key = JSON.stringify([config.variable, config.filters]);
+        let entry = this.previews.get(cell);
+
+        if (!entry || entry.key !== key) {
+            entry = this.schedulePreview(cell, key, config.variable, config.filters);
+        }
+
+        const preview = entry.preview;
+
+        // Unknown DataFrames are reported as problems of the block
+        if (!preview || (!preview.success && preview.missing)) {
+            return undefined;
+        }
+
+        if (!preview.success) {
+            return {
+                text: `$(warning) ${l10n.t('Filters could not be previewed')}`,
+                alignment: 1, // NotebookCellStatusBarAlignment.Left
+                priority: 90,
+                tooltip: preview.message
+            };
+        }
+
+        if (preview.sample_size === preview.row_count) {
+            return {
+                text: `$(filter) ${l10n.t(
+                    '{0} of {1} rows match the filters',
+                    preview.remaining.toLocaleString(),
+                    preview.row_count.toLocaleString()
+                )}`,
+                alignment: 1, // NotebookCellStatusBarAlignment.Left
+                priority: 90,
+                tooltip: l10n.t('Rows of {0} the chart shows', config.variable)
+            };
+        }
+
+        const estimate = Math.round((preview.remaining / preview.sample_size) * preview.row_count);
+
+        return {
+            text: `$(filter) ${l10n.t(
+                '~{0} of {1} rows match the filters',
+                estimate.toLocaleString(),
+                preview.row_count.toLocaleString()
+            )}`,
+            alignment: 1, // NotebookCellStatusBarAlignment.Left
+            priority: 90,
+            tooltip: l10n.t(
+                'Estimated from a sample of {0} rows of {1}, of which {2} match the filters',
+                preview.sample_size.toLocaleString(),
+                config.variable,
+                preview.remaining.toLocaleString()
+            )
+        };
+    }
+
+    private schedulePreview(
+        cell: NotebookCell,
+        key: string,
+        variable: string,
+        filters: DataframeFilter[]
+    ): FilterPreviewEntry {
+        const previous = this.previews.get(cell);
+
+        if (previous?.timer) {
+            clearTimeout(previous.timer);
+        }
+
+        // Keep showing the previous preview until the new one is done
+        const entry: FilterPreviewEntry = { key, preview: previous?.preview };
+
+        entry.timer = setTimeout(async () => {
+            entry.timer = undefined;
+
+            const preview = await this.kernelDataframes.previewFilters(cell.notebook, variable, filters);
+
+            // The filters may have changed while the kernel was busy
+            if (this.previews.get(cell) === entry) {
+                entry.preview = preview;
+                this._onDidChangeCellStatusBarItems.fire();
+            }
+        }, PREVIEW_DELAY_MS);
+        this.previews.set(cell, entry);
+
+        return entry;
+    }
+
+    private invalidatePreview(cell: NotebookCell): void {
+        const entry = this.previews.get(cell);
+
+        if (entry) {
+            if (entry.timer) {
+                clearTimeout(entry.timer);
+            }
+
+            this.previews.set(cell, { key: '', preview: entry.preview });
+        }
+    }
+}
@@ -0,0 +1,303 @@
+import {
+    findNodeAtLocation,
+    getLocation,
+    type Node,
+    type ParseError,
+    parseTree,
+    printParseErrorCode
+} from 'jsonc-parser';
+import type { NotebookCell } from 'vscode';
+import { z } from 'zod';
+
+import type { DataframeInfo } from '../../platform/deepnote/chartSpec';
+import {
+    DATAFRAME_FILTER_OPERATORS,
+    type DataframeFilter,
+    getFilterOperandCount,
+    RELATIVE_DATE_FILTER_VALUES
+} from '../../platform/deepnote/dataframeFilters';
+import type { Pocket } from '../../platform/deepnote/pocket';
+
+const VisualizationFilterSchema = z.object({
+    column: z.string(),
+    operator: z.enum(DATAFRAME_FILTER_OPERATORS),
+    comparativeValues: z.array(z.string())
+});
+
+/**
+ * Schema of the JSON a visualization block is edited as, see `VisualizationBlockConverter`
+ */
+export const VisualizationCellSchema = z.object({
+    variable: z.string(),
+    spec: z.record(z.string(), z.unknown()).optional(),
+    filters: z.array(VisualizationFilterSchema).optional()
+});
+
+export interface VisualizationCellProblem {
+    message: string;
+    severity: 'error' | 'warning';
+    /** Offset and length of the offending value in the JSON */
+    offset: number;
+    length: number;
+}
+
+/**
+ * Value of the JSON a completion is requested for, with the range of the string it replaces
+ */
+export interface VisualizationCompletionTarget {
+    kind: 'variable' | 'column' | 'operator' | 'relativeDate';
+    /** Offset and length of the string under the cursor, including its quotes */
+    replace: { offset: number; length: number } | undefined;
+    /** DataFrame variable of the chart, whose columns are completed */
+    variable: string | undefined;
+}
+
+const DATE_OPERATORS: readonly DataframeFilter['operator'][] = ['is-after', 'is-before', 'is-on'];
+
+const NUMBER_OPERATORS: readonly DataframeFilter['operator'][] = [
+    'greater-than',
+    'greater-than-or-equal',
+    'less-than',
+    'less-than-or-equal',
+    'between',
+    'outside-of'
+];
+
+export function isVisualizationCell(cell: NotebookCell): boolean {
+    return (cell.metadata?.__deepnotePocket as Pocket | undefined)?.type === 'visualization';
+}
+
+/**
+ * Reads the DataFrame variable and the filters of a visualization block, or returns undefined when its JSON
+ * is not valid
+ */
+export function parseVisualizationCell(text: string): { variable: string; filters: DataframeFilter[] } | undefined {
+    try {
+        const result = VisualizationCellSchema.safeParse(JSON.parse(text));
+
+        return result.success ? { variable: result.data.variable, filters: result.data.filters ?? [] } : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Finds the problems of the JSON of a visualization block: JSON syntax errors, values that don't match
+ * {@link VisualizationCellSchema}, and filters that can't be applied. The variable and the columns are
+ * checked against the DataFrames of the kernel when they are known.
+ */
+export function findVisualizationCellProblems(
+    text: string,
+    dataframes: DataframeInfo[] | undefined
+): VisualizationCellProblem[] {
+    const errors: ParseError[] = [];
+    // The converter reads the block with JSON.parse, which allows neither comments nor trailing commas
+    const root = parseTree(text, errors, { disallowComments: true });
+
+    if (errors.length > 0 || !root) {
+        // The parser can report several errors for one mistake, e.g. a trailing comma
+        const firstErrors = errors.filter(
+            (error, index) => errors.findIndex((other) => other.offset === error.offset) === index
+        );
+
+        return firstErrors.map((error) => ({
+            message: `Invalid JSON: ${printParseErrorCode(error.error)}`,
+            severity: 'error',
+            offset: error.offset,
+            length: error.length
+        }));
+    }
+
+    const problems: VisualizationCellProblem[] = [];
+    const report = (path: (string | number)[], message: string, severity: 'error' | 'warning' = 'error') => {
+        problems.push({ message, severity, ...findProblemRange(root, path) });
+    };
+    const config = JSON.parse(text);
+    const result = VisualizationCellSchema.safeParse(config);
+
+    if (!result.success) {
+        for (const zodIssue of result.error.issues) {
+            const path = zodIssue.path.filter((segment): segment is string | number => typeof segment !== 'symbol');
+
+            report(
+                path,
+                findNodeAtLocation(root, path) || path.length === 0
+                    ? zodIssue.message
+                    : `Missing "${path[path.length - 1]}"`
+            );
+        }
+    }
+
+    const variable = typeof config?.variable === 'string' ? config.variable : undefined;
+    const dataframe = dataframes?.find((candidate) => candidate.name === variable);
+
+    if (variable === '') {
+        report(['variable'], 'Pick the DataFrame to chart.', 'warning');
+    } else if (variable && dataframes && !dataframe) {
+        report(['variable'], `The kernel has no DataFrame named ${variable}.`, 'warning');
+    }
+
+    const filters: unknown[] = Array.isArray(config?.filters) ? config.filters : [];
+
+    filters.forEach((filter, index) => {
+        const parsed = VisualizationFilterSchema.safeParse(filter);
+
+        if (parsed.success) {
+            checkFilter(parsed.data, dataframe, (path, message, severity) =>
+                report(['filters', index, ...path], message, severity)
+            );
+        }
+    });
+
+    return problems;
+}
+
+/**
+ * Finds what a completion at an offset of the JSON of a visualization block completes, if anything
+ */
+export function getVisualizationCompletionTarget(
+    text: string,
+    offset: number
+): VisualizationCompletionTarget | undefined {
+    const location = getLocation(text, offset);
+
+    if (location.isAtPropertyKey) {
+        return undefined;
+    }
+
+    const node = location.previousNode;
+    // Only strings are completed, or a value that hasn't been typed yet
+    const replace =
+        node && node.type === 'string' && offset > node.offset && offset <= node.offset + node.length
+            ? { offset: node.offset, length: node.length }
+            : undefined;
+
+    if (node && !replace) {
+        return undefined;
+    }
+
+    // The JSON is usually incomplete while it is edited, the parser reads as much of it as it can
+    const root = parseTree(text);
+    const variableNode = root ? findNodeAtLocation(root, ['variable']) : undefined;
+    const variable = variableNode?.type === 'string' ? (variableNode.value as string) : undefined;
+
+    if (location.matches(['variable'])) {
+        return { kind: 'variable', replace, variable };
+    }
+
+    if (location.matches(['filters', '*', 'column'])) {
+        return { kind: 'column', replace, variable };
+    }
+
+    if (location.matches(['filters', '*', 'operator'])) {
+        return { kind: 'operator', replace, variable };
+    }
+
+    if (location.matches(['filters', '*', 'comparativeValues', '*'])) {
+        const filterIndex = location.path[1] as number;
+        const operator = root ? findNodeAtLocation(root, ['filters', filterIndex, 'operator'])?.value : undefined;
+
+        if (operator === 'is-relative-today') {
+            return { kind: 'relativeDate', replace, variable };
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Reports the values of a filter that keep it from being applied as intended
+ */
+function checkFilter(
+    filter: DataframeFilter,
+    dataframe: DataframeInfo | undefined,
+    report: (path: (string | number)[], message: string, severity?: 'error' | 'warning') => void
+): void {
+    const column = dataframe?.columns.find((candidate) => candidate.name === filter.column);
+
+    if (dataframe && !column) {
+        report(['column'], `The DataFrame ${dataframe.name} has no column named ${filter.column}.`, 'warning');
+    }
+
+    const operandCount = getFilterOperandCount(filter.operator);
+    const values = filter.comparativeValues;
+
+    if (operandCount === 'list' ? values.length === 0 : values.length < operandCount) {
+        report(
+            ['comparativeValues'],
+            operandCount === 2
+                ? `The "${filter.operator}" filter compares with two values, it is skipped until both are set.`
+                : `The "${filter.operator}" filter compares with a value, it is skipped until one is set.`,
+            'warning'
+        );
+        return;
+    }
+
+    if (operandCount !== 'list' && values.length > operandCount) {
+        report(
+            ['comparativeValues'],
+            `The "${filter.operator}" filter only uses the first ${operandCount} values.`,
+            'warning'
+        );
+    }
+
+    if (filter.operator === 'is-relative-today') {
+        if (!(RELATIVE_DATE_FILTER_VALUES as readonly string[]).includes(values[0])) {
+            report(['comparativeValues', 0], `Expected one of ${RELATIVE_DATE_FILTER_VALUES.join(', ')}.`);
+        }
+        return;
+    }
+
+    const isDateFilter =
+        DATE_OPERATORS.includes(filter.operator) ||
+        (column?.kind === 'datetime' && NUMBER_OPERATORS.includes(filter.operator));
+    const isNumberFilter = column?.kind === 'number' && NUMBER_OPERATORS.includes(filter.operator);
+    const bounds: number[] = [];
+
+    values.slice(0, operandCount === 'list' ? values.length : operandCount).forEach((value, index) => {
+        const parsed = isDateFilter ? Date.parse(value) : isNumberFilter ? Number(value.trim() || NaN) : undefined;
+
+        if (parsed === undefined) {
+            return;
+        }
+
+        if (Number.isNaN(parsed)) {
+            report(
+                ['comparativeValues', index],
+                isDateFilter ? `"${value}" is not a date.` : `"${value}" is not a number.`
+            );
+        }
+
+        bounds.push(parsed);
+    });
+
+    if (filter.operator === 'between' && bounds.length === 2 && bounds[0] > bounds[1]) {
+        report(
+            ['comparativeValues'],
+            'The first value is greater than the second, so the filter keeps no rows.',
+            'warning'
+        );
+    }
+}
+
+/**
+ * Finds the range of the value of a path in the JSON. Missing values are reported at the start of the
+ * closest parent that exists.
+ */
+function findProblemRange(root: Node, path: (string | number)[]): { offset: number; length: number } {
+    const node = findNodeAtLocation(root, path);
+
+    if (node) {
+        return { offset: node.offset, length: node.length };
+    }
+
+    for (let length = path.length - 1; length > 0; length--) {
+        const parent = findNodeAtLocation(root, path.slice(0, length));
+
+        if (parent) {
+            return { offset: parent.offset, length: 1 };
+        }
+    }
+
+    return { offset: root.offset, length: 1 };
+}
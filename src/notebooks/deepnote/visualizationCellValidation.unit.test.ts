@@ -0,0 +1,164 @@
+import { assert } from 'chai';
+
+import type { DataframeInfo } from '../../platform/deepnote/chartSpec';
+import {
+    findVisualizationCellProblems,
+    getVisualizationCompletionTarget,
+    parseVisualizationCell
+} from './visualizationCellValidation';
+
+const sales: DataframeInfo = {
+    name: 'sales',
+    columns: [
+        { name: 'region', dtype: 'object', kind: 'text' },
+        { name: 'date', dtype: 'datetime64[ns]', kind: 'datetime' },
+        { name: 'revenue', dtype: 'float64', kind: 'number' }
+    ]
+};
+
+function createCell(filters: unknown[], variable = 'sales'): string {
+    return JSON.stringify({ variable, spec: {}, filters }, null, 2);
+}
+
+/**
+ * Returns the problems with the text they are reported on
+ */
+function findProblems(text: string, dataframes: DataframeInfo[] | undefined) {
+    return findVisualizationCellProblems(text, dataframes).map((problem) => ({
+        message: problem.message,
+        severity: problem.severity,
+        text: text.slice(problem.offset, problem.offset + problem.length)
+    }));
+}
+
+suite('Visualization cell validation', () => {
+    suite('parseVisualizationCell', () => {
+        test('reads the variable and the filters', () => {
+            const filter = { column: 'region', operator: 'is-equal', comparativeValues: ['EU'] };
+
+            assert.deepStrictEqual(parseVisualizationCell(createCell([filter])), {
+                variable: 'sales',
+                filters: [filter]
+            });
+            assert.deepStrictEqual(parseVisualizationCell('{"variable": "sales"}'), { variable: 'sales', filters: [] });
+        });
+
+        test('returns undefined for invalid blocks', () => {
+            assert.strictEqual(parseVisualizationCell('{"variable": '), undefined);
+            assert.strictEqual(parseVisualizationCell('{"variable": 1}'), undefined);
+        });
+    });
+
+    suite('findVisualizationCellProblems', () => {
+        test('accepts a valid block', () => {
+            const text = createCell([
+                { column: 'revenue', operator: 'between', comparativeValues: ['1', '10'] },
+                { column: 'date', operator: 'is-relative-today', comparativeValues: ['week-ago'] },
+                { column: 'region', operator: 'is-null', comparativeValues: [] }
+            ]);
+
+            assert.deepStrictEqual(findProblems(text, [sales]), []);
+        });
+
+        test('reports JSON syntax errors', () => {
+            const problems = findProblems('{\n  "variable": "sales",\n}', undefined);
+
+            assert.deepStrictEqual(problems, [
+                { message: 'Invalid JSON: PropertyNameExpected', severity: 'error', text: '}' }
+            ]);
+        });
+
+        test('reports values that do not match the schema', () => {
+            const text = createCell([{ column: 'region', operator: 'equals', comparativeValues: [1] }]);
+            const problems = findProblems(text, undefined);
+
+            assert.deepStrictEqual(
+                problems.map((problem) => problem.text),
+                ['"equals"', '1']
+            );
+            assert.isTrue(problems.every((problem) => problem.severity === 'error'));
+        });
+
+        test('reports missing properties on the object they are missing from', () => {
+            const problems = findProblems('{"filters": [{"column": "region", "comparativeValues": []}]}', undefined);
+
+            assert.deepStrictEqual(problems, [
+                { message: 'Missing "variable"', severity: 'error', text: '{' },
+                { message: 'Missing "operator"', severity: 'error', text: '{' }
+            ]);
+        });
+
+        test('checks the variable and the columns against the DataFrames of the kernel', () => {
+            const unknownColumn = createCell([{ column: 'country', operator: 'is-equal', comparativeValues: ['EU'] }]);
+
+            assert.deepStrictEqual(findProblems(createCell([], 'orders'), [sales]), [
+                { message: 'The kernel has no DataFrame named orders.', severity: 'warning', text: '"orders"' }
+            ]);
+            assert.deepStrictEqual(findProblems(unknownColumn, [sales]), [
+                { message: 'The DataFrame sales has no column named country.', severity: 'warning', text: '"country"' }
+            ]);
+            assert.deepStrictEqual(findProblems(unknownColumn, undefined), []);
+        });
+
+        test('checks the values of the filters', () => {
+            const text = createCell([
+                { column: 'revenue', operator: 'greater-than', comparativeValues: [] },
+                { column: 'revenue', operator: 'less-than', comparativeValues: ['ten'] },
+                { column: 'date', operator: 'is-after', comparativeValues: ['someday'] },
+                { column: 'date', operator: 'is-relative-today', comparativeValues: ['decade-ago'] },
+                { column: 'revenue', operator: 'between', comparativeValues: ['10', '1'] }
+            ]);
+
+            assert.deepStrictEqual(
+                findProblems(text, [sales]).map((problem) => [problem.severity, problem.text]),
+                [
+                    ['warning', '[]'],
+                    ['error', '"ten"'],
+                    ['error', '"someday"'],
+                    ['error', '"decade-ago"'],
+                    ['warning', '[\n        "10",\n        "1"\n      ]']
+                ]
+            );
+        });
+    });
+
+    suite('getVisualizationCompletionTarget', () => {
+        const text = createCell(
+            [
+                { column: 'region', operator: 'is-equal', comparativeValues: ['EU'] },
+                { column: 'date', operator: 'is-relative-today', comparativeValues: ['today'] }
+            ],
+            'sa'
+        );
+
+        function getTarget(search: string, offsetInSearch: number) {
+            return getVisualizationCompletionTarget(text, text.indexOf(search) + offsetInSearch);
+        }
+
+        test('completes the variable, columns and operators', () => {
+            assert.deepStrictEqual(getTarget('"sa"', 3), {
+                kind: 'variable',
+                replace: { offset: text.indexOf('"sa"'), length: 4 },
+                variable: 'sa'
+            });
+            assert.strictEqual(getTarget('"region"', 1)?.kind, 'column');
+            assert.strictEqual(getTarget('"is-equal"', 1)?.kind, 'operator');
+        });
+
+        test('completes relative dates only for the relative date operator', () => {
+            assert.strictEqual(getTarget('"today"', 1)?.kind, 'relativeDate');
+            assert.strictEqual(getTarget('"EU"', 1), undefined);
+        });
+
+        test('does not complete property names', () => {
+            assert.strictEqual(getTarget('"column"', 1), undefined);
+        });
+
+        test('completes values that have not been typed yet', () => {
+            const incomplete = '{"variable": "sales", "filters": [{"column": ';
+            const target = getVisualizationCompletionTarget(incomplete, incomplete.length);
+
+            assert.deepStrictEqual(target, { kind: 'column', replace: undefined, variable: 'sales' });
+        });
+    });
+});
@@ -0,0 +1,282 @@
+import { createPythonCode } from '@deepnote/blocks';
+import { CancellationToken, NotebookCellData, NotebookDocument, Uri } from 'vscode';
+
+import { IFileSystem, IPlatformService } from '../../platform/common/platform/types';
+import { ServiceContainer } from '../../platform/ioc/container';
+import type { DeepnoteBlock, DeepnoteFile, DeepnoteNotebook } from '../../platform/deepnote/deepnoteTypes';
+import { compareSortingKeys } from '../deepnote/deepnoteBlockMerge';
+import { DeepnoteDataConverter } from '../deepnote/deepnoteDataConverter';
+import { readDeepnoteProjectFile } from '../deepnote/deepnoteProjectUtils';
+import {
+    DATAFRAME_SQL_INTEGRATION_CONNECTION_JSON,
+    DATAFRAME_SQL_INTEGRATION_ID,
+    getSqlIntegrationEnvVarName
+} from '../../platform/notebooks/deepnote/integrationTypes';
+import { IExport } from './types';
+
+/** Prefix of the environment variables that override input blocks, e.g. `DEEPNOTE_INPUT_COUNTRY`. */
+export const DEEPNOTE_INPUT_ENV_PREFIX = 'DEEPNOTE_INPUT_';
+
+const markdownBlockTypes = new Set(['markdown', 'separator']);
+const pythonIdentifierPattern = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Reads an input value from the command line or the environment and converts it to the type of the default
+const inputHelperSource = `def _deepnote_input(name, default):
+    value = getattr(_deepnote_args, name, None)
+    if value is None:
+        value = os.environ.get("${DEEPNOTE_INPUT_ENV_PREFIX}" + name.upper())
+    if value is None:
+        return default
+    if isinstance(default, bool):
+        return value.strip().lower() in ("1", "true", "yes", "on")
+    if isinstance(default, (int, float)):
+        return type(default)(value)
+    if isinstance(default, (list, tuple)):
+        if value.strip().startswith("["):
+            return json.loads(value)
+        return [item.strip() for item in value.split(",") if item.strip()]
+    if hasattr(default, "fromisoformat"):
+        return type(default).fromisoformat(value)
+    return value`;
+
+/**
+ * Exports a Deepnote notebook to a standalone Python script.
+ *
+ * Unlike the plain Python export this runs every block through `createPythonCode`, so SQL, input
+ * and chart blocks produce the same code Deepnote executes. The cells of the open document are
+ * exported, including unsaved edits; the init notebook and requirements are read from the project file.
+ */
+export class ExportToDeepnotePython implements IExport {
+    private readonly fs: IFileSystem;
+    private readonly platform: IPlatformService;
+    private readonly converter = new DeepnoteDataConverter();
+
+    constructor() {
+        this.fs = ServiceContainer.instance.get<IFileSystem>(IFileSystem);
+        this.platform = ServiceContainer.instance.get<IPlatformService>(IPlatformService);
+    }
+
+    public async export(sourceDocument: NotebookDocument, target: Uri, token: CancellationToken): Promise<void> {
+        if (token.isCancellationRequested) {
+            return;
+        }
+
+        const project = await readDeepnoteProjectFile(sourceDocument.uri.with({ query: '' }));
+        const notebookId = sourceDocument.metadata?.deepnoteNotebookId;
+        const savedNotebook = project.project.notebooks.find((notebook) => notebook.id === notebookId);
+
+        const cells = sourceDocument.getCells().map((cell) => {
+            const cellData = new NotebookCellData(cell.kind, cell.document.getText(), cell.document.languageId);
+            cellData.metadata = cell.metadata;
+
+            return cellData;
+        });
+
+        const notebook: DeepnoteNotebook = {
+            executionMode: 'block',
+            id: notebookId ?? '',
+            name: sourceDocument.metadata?.deepnoteNotebookName ?? '',
+            ...savedNotebook,
+            blocks: this.converter.convertCellsToBlocks(cells)
+        };
+
+        if (token.isCancellationRequested) {
+            return;
+        }
+
+        const eol = this.platform.isWindows ? '\r\n' : '\n';
+        await this.fs.writeFile(target, createDeepnotePythonScript(project, notebook).replace(/\n/g, eol));
+    }
+}
+
+/**
+ * Creates a Python script that runs a Deepnote notebook outside of Deepnote, e.g. as a scheduled CI job.
+ *
+ * The script starts with the project requirements (installed with `--install-requirements`), then
+ * runs the blocks of the init notebook followed by the blocks of the notebook. Every input block can
+ * be overridden with a command line argument named after its variable (`--country`) or an environment
+ * variable (`DEEPNOTE_INPUT_COUNTRY`); the value set in the notebook is the default.
+ *
+ * SQL and chart blocks run with `deepnote_toolkit`, which the script imports when it has such blocks. SQL blocks
+ * connect with the `SQL_<INTEGRATION_ID>` environment variables of their integration, which the header lists.
+ *
+ * @param project The project the notebook belongs to
+ * @param notebook The notebook to export
+ * @returns The script, with LF line endings
+ */
+export function createDeepnotePythonScript(project: DeepnoteFile, notebook: DeepnoteNotebook): string {
+    const initNotebookId = project.project.initNotebookId;
+    const initNotebook =
+        initNotebookId && initNotebookId !== notebook.id
+            ? project.project.notebooks.find((candidate) => candidate.id === initNotebookId)
+            : undefined;
+
+    const requirements = normalizeRequirements(project.project.settings?.requirements);
+    const notebookBlocks = sortBlocks(notebook.blocks);
+    const initBlocks = initNotebook ? sortBlocks(initNotebook.blocks) : [];
+    const inputVariables = [...initBlocks, ...notebookBlocks]
+        .map((block) => getInputVariableName(block))
+        .filter((name): name is string => name !== undefined);
+
+    const blockSections: string[] = [];
+
+    if (initNotebook) {
+        blockSections.push(`# %% [markdown]\n# Init notebook: ${initNotebook.name}`);
+        blockSections.push(...initBlocks.map((block) => exportBlock(block)).filter((section) => section.length > 0));
+    }
+
+    blockSections.push(...notebookBlocks.map((block) => exportBlock(block)).filter((section) => section.length > 0));
+
+    const sqlIntegrationIds = [
+        ...new Set(
+            [...initBlocks, ...notebookBlocks]
+                .filter((block) => block.type === 'sql')
+                .map((block) => block.metadata?.sql_integration_id)
+                .filter((id): id is string => typeof id === 'string' && id.length > 0)
+        )
+    ];
+    const header = [
+        '#!/usr/bin/env python',
+        `# Exported from the Deepnote notebook "${notebook.name}" of the project "${project.project.name}".`
+    ];
+    const usesToolkit = blockSections.some((section) => section.includes('_dntk.'));
+    const integrationEnvVarNames = sqlIntegrationIds
+        .filter((id) => id !== DATAFRAME_SQL_INTEGRATION_ID)
+        .map((id) => getSqlIntegrationEnvVarName(id));
+
+    if (usesToolkit) {
+        header.push('# Requires deepnote-toolkit (pip install deepnote-toolkit) to run its SQL and chart blocks.');
+    }
+
+    if (integrationEnvVarNames.length > 0) {
+        const names = integrationEnvVarNames.join(', ');
+
+        header.push(`# SQL blocks connect with the credentials of these environment variables: ${names}.`);
+    }
+
+    const sections = [
+        header.join('\n'),
+        createPreamble(notebook.name, requirements, [...new Set(inputVariables)], {
+            usesToolkit,
+            usesDataframeSql: sqlIntegrationIds.includes(DATAFRAME_SQL_INTEGRATION_ID)
+        }),
+        ...blockSections
+    ];
+
+    return `${sections.join('\n\n')}\n`;
+}
+
+function createPreamble(
+    notebookName: string,
+    requirements: string[],
+    inputVariables: string[],
+    { usesToolkit, usesDataframeSql }: { usesToolkit: boolean; usesDataframeSql: boolean }
+): string {
+    const lines = [
+        'import argparse',
+        'import json',
+        'import os',
+        'import subprocess',
+        'import sys',
+        '',
+        `_DEEPNOTE_REQUIREMENTS = ${JSON.stringify(requirements)}`,
+        '',
+        `_deepnote_parser = argparse.ArgumentParser(description=${JSON.stringify(
+            `Runs the Deepnote notebook "${notebookName}".`
+        )})`,
+        '_deepnote_parser.add_argument(',
+        '    "--install-requirements", action="store_true", help="install the project requirements with pip first"',
+        ')'
+    ];
+
+    for (const name of inputVariables) {
+        const option = name.replace(/_/g, '-');
+        const envVarName = `${DEEPNOTE_INPUT_ENV_PREFIX}${name.toUpperCase()}`;
+
+        lines.push(
+            `_deepnote_parser.add_argument("--${option}", dest="${name}", help="overrides the input \\"${name}\\" (env: ${envVarName})")`
+        );
+    }
+
+    lines.push(
+        '_deepnote_args, _ = _deepnote_parser.parse_known_args()',
+        '',
+        'if _deepnote_args.install_requirements and _DEEPNOTE_REQUIREMENTS:',
+        '    subprocess.check_call([sys.executable, "-m", "pip", "install", *_DEEPNOTE_REQUIREMENTS])',
+        ''
+    );
+
+    if (usesToolkit) {
+        // SQL and chart blocks call the toolkit, as in the kernels of Deepnote
+        lines.push('import deepnote_toolkit as _dntk', '');
+    }
+
+    if (usesDataframeSql) {
+        // Dataframe SQL blocks query DataFrames in memory, with the DuckDB integration Deepnote always provides
+        const envVarName = getSqlIntegrationEnvVarName(DATAFRAME_SQL_INTEGRATION_ID);
+
+        lines.push(
+            `os.environ.setdefault("${envVarName}", ${JSON.stringify(DATAFRAME_SQL_INTEGRATION_CONNECTION_JSON)})`,
+            ''
+        );
+    }
+
+    lines.push('', inputHelperSource);
+
+    return lines.join('\n');
+}
+
+function exportBlock(block: DeepnoteBlock): string {
+    const marker = `# %% ${block.type} block ${block.id}`;
+
+    if (markdownBlockTypes.has(block.type) || block.type.startsWith('text-cell-')) {
+        const text = (block.content ?? '').trim();
+
+        return text.length > 0 ? `# %% [markdown]\n${commentLines(text)}` : '';
+    }
+
+    const code = (block.type === 'code' ? block.content ?? '' : createPythonCode(block)).trimEnd();
+    const inputVariable = getInputVariableName(block);
+
+    if (inputVariable) {
+        return `${marker}\n${code}\n${inputVariable} = _deepnote_input("${inputVariable}", ${inputVariable})`;
+    }
+
+    return code.length > 0 ? `${marker}\n${code}` : '';
+}
+
+function getInputVariableName(block: DeepnoteBlock): string | undefined {
+    if (!block.type.startsWith('input-')) {
+        return undefined;
+    }
+
+    const name = block.metadata?.deepnote_variable_name;
+
+    return typeof name === 'string' && pythonIdentifierPattern.test(name) ? name : undefined;
+}
+
+function normalizeRequirements(requirements: unknown): string[] {
+    if (!Array.isArray(requirements)) {
+        return [];
+    }
+
+    return Array.from(
+        new Set(
+            requirements
+                .filter((requirement): requirement is string => typeof requirement === 'string')
+                .map((requirement) => requirement.trim())
+                .filter((requirement) => requirement.length > 0)
+        )
+    );
+}
+
+function sortBlocks(blocks: DeepnoteBlock[] | undefined): DeepnoteBlock[] {
+    return [...(blocks ?? [])].sort((a, b) => compareSortingKeys(a.sortingKey, b.sortingKey));
+}
+
+function commentLines(text: string): string {
+    return text
+        .split(/\r?\n/)
+        .map((line) => (line.length > 0 ? `# ${line}` : '#'))
+        .join('\n');
+}
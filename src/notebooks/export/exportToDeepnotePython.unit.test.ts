@@ -0,0 +1,130 @@
+import { assert } from 'chai';
+import { createPythonCode } from '@deepnote/blocks';
+
+import type { DeepnoteBlock, DeepnoteFile, DeepnoteNotebook } from '../../platform/deepnote/deepnoteTypes';
+import { createDeepnotePythonScript } from './exportToDeepnotePython';
+
+suite('Export to Deepnote Python script', () => {
+    function createBlock(id: string, sortingKey: string, overrides: Partial<DeepnoteBlock> = {}): DeepnoteBlock {
+        return {
+            id,
+            sortingKey,
+            blockGroup: `group-${id}`,
+            type: 'code',
+            content: `print("${id}")`,
+            metadata: {},
+            ...overrides
+        };
+    }
+
+    function createNotebook(blocks: DeepnoteBlock[], overrides: Partial<DeepnoteNotebook> = {}): DeepnoteNotebook {
+        return { id: 'notebook-1', name: 'Report', blocks, executionMode: 'block', isModule: false, ...overrides };
+    }
+
+    function createFile(notebooks: DeepnoteNotebook[], project: Partial<DeepnoteFile['project']> = {}): DeepnoteFile {
+        return {
+            version: '1.0',
+            metadata: { createdAt: '2024-01-01T00:00:00.000Z' },
+            project: { id: 'project-1', name: 'Project', notebooks, ...project }
+        };
+    }
+
+    test('should run SQL blocks through createPythonCode', () => {
+        const sqlBlock = createBlock('sql', 'a0', {
+            type: 'sql',
+            content: 'SELECT * FROM users',
+            metadata: { deepnote_variable_name: 'df_users', sql_integration_id: 'integration-1' }
+        });
+        const notebook = createNotebook([sqlBlock]);
+
+        const script = createDeepnotePythonScript(createFile([notebook]), notebook);
+
+        assert.include(script, createPythonCode(sqlBlock).trimEnd());
+    });
+
+    test('should import the toolkit and name the integration variables of SQL blocks', () => {
+        const sqlBlock = createBlock('sql', 'a0', {
+            type: 'sql',
+            content: 'SELECT * FROM users',
+            metadata: { deepnote_variable_name: 'df_users', sql_integration_id: 'integration-1' }
+        });
+        const notebook = createNotebook([sqlBlock]);
+
+        const script = createDeepnotePythonScript(createFile([notebook]), notebook);
+
+        assert.include(script, '\nimport deepnote_toolkit as _dntk\n');
+        assert.isBelow(script.indexOf('import deepnote_toolkit as _dntk'), script.indexOf('_dntk.execute_sql('));
+        assert.include(
+            script,
+            '# SQL blocks connect with the credentials of these environment variables: SQL_INTEGRATION_1.'
+        );
+    });
+
+    test('should only import the toolkit when blocks use it', () => {
+        const notebook = createNotebook([createBlock('code', 'a0')]);
+
+        const script = createDeepnotePythonScript(createFile([notebook]), notebook);
+
+        assert.notInclude(script, 'deepnote_toolkit');
+    });
+
+    test('should make input blocks overridable from the command line and the environment', () => {
+        const inputBlock = createBlock('input', 'a0', {
+            type: 'input-text',
+            content: '',
+            metadata: { deepnote_variable_name: 'country', deepnote_variable_value: 'CZ' }
+        });
+        const notebook = createNotebook([inputBlock, createBlock('code', 'a1', { content: 'print(country)' })]);
+
+        const script = createDeepnotePythonScript(createFile([notebook]), notebook);
+
+        assert.include(script, '_deepnote_parser.add_argument("--country", dest="country"');
+        assert.include(script, 'DEEPNOTE_INPUT_COUNTRY');
+        assert.include(
+            script,
+            `${createPythonCode(inputBlock).trimEnd()}\ncountry = _deepnote_input("country", country)`
+        );
+        assert.isBelow(script.indexOf('_deepnote_input("country", country)'), script.indexOf('print(country)'));
+    });
+
+    test('should run the init notebook first and list the requirements', () => {
+        const initNotebook = createNotebook([createBlock('init', 'a0', { content: 'import pandas' })], {
+            id: 'init',
+            name: 'Init'
+        });
+        const notebook = createNotebook([createBlock('main', 'a0', { content: 'print("main")' })]);
+        const file = createFile([initNotebook, notebook], {
+            initNotebookId: 'init',
+            settings: { requirements: ['pandas==2.2.0', ' ', 'pandas==2.2.0', 'numpy'] }
+        });
+
+        const script = createDeepnotePythonScript(file, notebook);
+
+        assert.include(script, '_DEEPNOTE_REQUIREMENTS = ["pandas==2.2.0","numpy"]');
+        assert.isBelow(script.indexOf('import pandas'), script.indexOf('print("main")'));
+    });
+
+    test('should not run the init notebook twice when exporting it', () => {
+        const initNotebook = createNotebook([createBlock('init', 'a0', { content: 'import pandas' })], {
+            id: 'init'
+        });
+
+        const script = createDeepnotePythonScript(createFile([initNotebook], { initNotebookId: 'init' }), initNotebook);
+
+        assert.strictEqual(script.split('import pandas').length, 2);
+    });
+
+    test('should comment out markdown and text blocks and keep block order', () => {
+        const notebook = createNotebook([
+            createBlock('second', 'a10'),
+            createBlock('heading', 'a1', { type: 'text-cell-h1', content: 'Summary' }),
+            createBlock('notes', 'a0', { type: 'markdown', content: 'Line 1\n\nLine 2' })
+        ]);
+
+        const script = createDeepnotePythonScript(createFile([notebook]), notebook);
+
+        assert.include(script, '# %% [markdown]\n# Line 1\n#\n# Line 2');
+        assert.include(script, '# %% [markdown]\n# Summary');
+        assert.isBelow(script.indexOf('# Summary'), script.indexOf('print("second")'));
+    });
+});
@@ -17,6 +17,7 @@ import { ExportToPython } from './exportToPython';
 import { ExportToPDF } from './exportToPDF';
 import { ExportToHTML } from './exportToHTML';
 import { ExportToPythonPlain } from './exportToPythonPlain';
+import { ExportToDeepnotePython } from './exportToDeepnotePython';
 
 /**
  * Converts different file formats to others. Used in export.
@@ -95,8 +96,12 @@ export abstract class FileConverterBase implements IFileConverter {
         token: CancellationToken,
         candidateInterpreter?: PythonEnvironment
     ) {
-        // For web, we perform plain export for Python
-        if (
+        if (format === ExportFormat.python && sourceDocument.notebookType === 'deepnote') {
+            // Deepnote blocks only run as Python once converted by createPythonCode, which neither
+            // nbconvert nor the plain export know about
+            await new ExportToDeepnotePython().export(sourceDocument, target, token);
+        } else if (
+            // For web, we perform plain export for Python
             format === ExportFormat.python &&
             this.configuration.getSettings(sourceDocument.uri).pythonExportMethod !== 'nbconvert'
         ) {
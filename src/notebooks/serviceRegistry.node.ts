@@ -42,18 +42,34 @@ import { InterpreterPackageTracker } from './telemetry/interpreterPackageTracker
 import { INotebookEditorProvider, INotebookPythonEnvironmentService } from './types';
 import { DeepnoteActivationService } from './deepnote/deepnoteActivationService';
 import { DeepnoteNotebookManager } from './deepnote/deepnoteNotebookManager';
+import { DeepnoteFileChangeWatcher } from './deepnote/deepnoteFileChangeWatcher';
+import { DeepnoteFileDiagnosticsProvider } from './deepnote/deepnoteFileDiagnosticsProvider';
+import { DeepnoteStructuralDiffViewer } from './deepnote/deepnoteStructuralDiffViewer.node';
 import { IDeepnoteNotebookManager } from './types';
 import { IntegrationStorage } from '../platform/notebooks/deepnote/integrationStorage';
 import { IntegrationDetector } from './deepnote/integrations/integrationDetector';
 import { IntegrationManager } from './deepnote/integrations/integrationManager';
 import { IntegrationWebviewProvider } from './deepnote/integrations/integrationWebview';
+import { IntegrationConnectionTester } from './deepnote/integrations/integrationConnectionTester.node';
+import { IntegrationQueryCanceller } from './deepnote/integrations/integrationQueryCanceller.node';
+import { IntegrationSchemaProvider } from './deepnote/integrations/integrationSchemaProvider.node';
+import { IntegrationSchemaView } from './deepnote/integrations/integrationSchemaView';
 import {
+    IIntegrationConnectionTester,
+    IIntegrationQueryCanceller,
+    IIntegrationSchemaProvider,
     IIntegrationDetector,
     IIntegrationManager,
     IIntegrationStorage,
     IIntegrationWebviewProvider
 } from './deepnote/integrations/types';
+import { SqlCellExecutionStatusBarProvider } from './deepnote/sqlCellExecutionStatusBarProvider';
+import { KernelDataframes } from './deepnote/kernelDataframes';
+import { VisualizationCellStatusBarProvider } from './deepnote/visualizationCellStatusBarProvider';
+import { VisualizationCellLanguageProvider } from './deepnote/visualizationCellLanguageProvider';
 import { SqlCellStatusBarProvider } from './deepnote/sqlCellStatusBarProvider';
+import { SqlCompletionProvider } from './deepnote/sqlCompletionProvider';
+import { SqlPreviewProvider } from './deepnote/sqlPreviewProvider';
 import {
     IDeepnoteToolkitInstaller,
     IDeepnoteServerStarter,
@@ -68,6 +84,8 @@ import { DeepnoteInitNotebookRunner, IDeepnoteInitNotebookRunner } from './deepn
 import { DeepnoteRequirementsHelper, IDeepnoteRequirementsHelper } from './deepnote/deepnoteRequirementsHelper.node';
 import { DeepnoteNotebookCommandListener } from './deepnote/deepnoteNotebookCommandListener';
 import { DeepnoteInputBlockCellStatusBarItemProvider } from './deepnote/deepnoteInputBlockCellStatusBarProvider';
+import { DeepnoteParameterizedRunner } from './deepnote/deepnoteParameterizedRunner';
+import { DeepnoteReactiveExecution } from './deepnote/deepnoteReactiveExecution';
 import { SqlIntegrationStartupCodeProvider } from './deepnote/integrations/sqlIntegrationStartupCodeProvider';
 import { DeepnoteCellCopyHandler } from './deepnote/deepnoteCellCopyHandler';
 import { OpenInDeepnoteHandler } from './deepnote/openInDeepnoteHandler.node';
@@ -148,14 +166,54 @@ export function registerTypes(serviceManager: IServiceManager, isDevMode: boolea
         DeepnoteNotebookCommandListener
     );
     serviceManager.addSingleton<IDeepnoteNotebookManager>(IDeepnoteNotebookManager, DeepnoteNotebookManager);
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        DeepnoteFileChangeWatcher
+    );
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        DeepnoteFileDiagnosticsProvider
+    );
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        DeepnoteStructuralDiffViewer
+    );
     serviceManager.addSingleton<IIntegrationStorage>(IIntegrationStorage, IntegrationStorage);
     serviceManager.addSingleton<IIntegrationDetector>(IIntegrationDetector, IntegrationDetector);
     serviceManager.addSingleton<IIntegrationWebviewProvider>(IIntegrationWebviewProvider, IntegrationWebviewProvider);
+    serviceManager.addSingleton<IIntegrationConnectionTester>(
+        IIntegrationConnectionTester,
+        IntegrationConnectionTester
+    );
     serviceManager.addSingleton<IIntegrationManager>(IIntegrationManager, IntegrationManager);
+    serviceManager.addSingleton<IIntegrationSchemaProvider>(IIntegrationSchemaProvider, IntegrationSchemaProvider);
+    serviceManager.addSingleton<IIntegrationQueryCanceller>(IIntegrationQueryCanceller, IntegrationQueryCanceller);
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        IntegrationSchemaView
+    );
     serviceManager.addSingleton<IExtensionSyncActivationService>(
         IExtensionSyncActivationService,
         SqlCellStatusBarProvider
     );
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        SqlCellExecutionStatusBarProvider
+    );
+    serviceManager.addSingleton<KernelDataframes>(KernelDataframes, KernelDataframes);
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        VisualizationCellStatusBarProvider
+    );
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        VisualizationCellLanguageProvider
+    );
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        SqlCompletionProvider
+    );
+    serviceManager.addSingleton<IExtensionSyncActivationService>(IExtensionSyncActivationService, SqlPreviewProvider);
     serviceManager.addSingleton<IExtensionSyncActivationService>(
         IExtensionSyncActivationService,
         SqlIntegrationStartupCodeProvider
@@ -183,6 +241,12 @@ export function registerTypes(serviceManager: IServiceManager, isDevMode: boolea
         IExtensionSyncActivationService,
         DeepnoteInputBlockCellStatusBarItemProvider
     );
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        DeepnoteParameterizedRunner
+    );
+    serviceManager.addSingleton<DeepnoteReactiveExecution>(DeepnoteReactiveExecution, DeepnoteReactiveExecution);
+    serviceManager.addBinding(DeepnoteReactiveExecution, IExtensionSyncActivationService);
 
     // File export/import
     serviceManager.addSingleton<IFileConverter>(IFileConverter, FileConverter);
@@ -37,6 +37,8 @@ import { NotebookTracebackFormatter } from './outputs/tracebackFormatter';
 import { INotebookEditorProvider, INotebookPythonEnvironmentService } from './types';
 import { DeepnoteActivationService } from './deepnote/deepnoteActivationService';
 import { DeepnoteNotebookManager } from './deepnote/deepnoteNotebookManager';
+import { DeepnoteFileChangeWatcher } from './deepnote/deepnoteFileChangeWatcher';
+import { DeepnoteFileDiagnosticsProvider } from './deepnote/deepnoteFileDiagnosticsProvider';
 import { IDeepnoteNotebookManager } from './types';
 import { DeepnoteNotebookCommandListener } from './deepnote/deepnoteNotebookCommandListener';
 import { IntegrationStorage } from '../platform/notebooks/deepnote/integrationStorage';
@@ -50,7 +52,14 @@ import {
     IIntegrationWebviewProvider
 } from './deepnote/integrations/types';
 import { DeepnoteInputBlockCellStatusBarItemProvider } from './deepnote/deepnoteInputBlockCellStatusBarProvider';
+import { DeepnoteParameterizedRunner } from './deepnote/deepnoteParameterizedRunner';
+import { DeepnoteReactiveExecution } from './deepnote/deepnoteReactiveExecution';
+import { SqlCellExecutionStatusBarProvider } from './deepnote/sqlCellExecutionStatusBarProvider';
+import { KernelDataframes } from './deepnote/kernelDataframes';
+import { VisualizationCellStatusBarProvider } from './deepnote/visualizationCellStatusBarProvider';
+import { VisualizationCellLanguageProvider } from './deepnote/visualizationCellLanguageProvider';
 import { SqlCellStatusBarProvider } from './deepnote/sqlCellStatusBarProvider';
+import { SqlPreviewProvider } from './deepnote/sqlPreviewProvider';
 
 export function registerTypes(serviceManager: IServiceManager, isDevMode: boolean) {
     registerControllerTypes(serviceManager, isDevMode);
@@ -109,6 +118,14 @@ export function registerTypes(serviceManager: IServiceManager, isDevMode: boolea
         DeepnoteNotebookCommandListener
     );
     serviceManager.addSingleton<IDeepnoteNotebookManager>(IDeepnoteNotebookManager, DeepnoteNotebookManager);
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        DeepnoteFileChangeWatcher
+    );
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        DeepnoteFileDiagnosticsProvider
+    );
     serviceManager.addSingleton<IIntegrationStorage>(IIntegrationStorage, IntegrationStorage);
     serviceManager.addSingleton<IIntegrationDetector>(IIntegrationDetector, IntegrationDetector);
     serviceManager.addSingleton<IIntegrationWebviewProvider>(IIntegrationWebviewProvider, IntegrationWebviewProvider);
@@ -117,10 +134,30 @@ export function registerTypes(serviceManager: IServiceManager, isDevMode: boolea
         IExtensionSyncActivationService,
         DeepnoteInputBlockCellStatusBarItemProvider
     );
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        DeepnoteParameterizedRunner
+    );
+    serviceManager.addSingleton<DeepnoteReactiveExecution>(DeepnoteReactiveExecution, DeepnoteReactiveExecution);
+    serviceManager.addBinding(DeepnoteReactiveExecution, IExtensionSyncActivationService);
     serviceManager.addSingleton<IExtensionSyncActivationService>(
         IExtensionSyncActivationService,
         SqlCellStatusBarProvider
     );
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        SqlCellExecutionStatusBarProvider
+    );
+    serviceManager.addSingleton<KernelDataframes>(KernelDataframes, KernelDataframes);
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        VisualizationCellStatusBarProvider
+    );
+    serviceManager.addSingleton<IExtensionSyncActivationService>(
+        IExtensionSyncActivationService,
+        VisualizationCellLanguageProvider
+    );
+    serviceManager.addSingleton<IExtensionSyncActivationService>(IExtensionSyncActivationService, SqlPreviewProvider);
 
     serviceManager.addSingleton<IExportBase>(IExportBase, ExportBase);
     serviceManager.addSingleton<IFileConverter>(IFileConverter, FileConverter);
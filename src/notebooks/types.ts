@@ -2,9 +2,9 @@
 // Licensed under the MIT License.
 
 import { NotebookDocument, NotebookEditor, Uri, type Event } from 'vscode';
-import { Resource } from '../platform/common/types';
+import { IDisposable, Resource } from '../platform/common/types';
 import type { EnvironmentPath } from '@vscode/python-extension';
-import { DeepnoteProject } from '../platform/deepnote/deepnoteTypes';
+import { DeepnoteBlock, DeepnoteProject } from '../platform/deepnote/deepnoteTypes';
 
 export interface IEmbedNotebookEditorProvider {
     findNotebookEditor(resource: Resource): NotebookEditor | undefined;
@@ -40,9 +40,22 @@ export interface IDeepnoteNotebookManager {
     getOriginalProject(projectId: string): DeepnoteProject | undefined;
     getTheSelectedNotebookForAProject(projectId: string): string | undefined;
     selectNotebookForProject(projectId: string, notebookId: string): void;
+    beginOpeningNotebook(uri: string): IDisposable;
+    takeOpeningNotebookUri(predicate: (uri: string) => boolean): string | undefined;
     storeOriginalProject(projectId: string, project: DeepnoteProject, notebookId: string): void;
     updateCurrentNotebookId(projectId: string, notebookId: string): void;
 
+    /**
+     * Merges the blocks of a single notebook into the stored project data,
+     * leaving all other notebooks of the project untouched.
+     *
+     * @param projectId - Project identifier
+     * @param notebookId - ID of the notebook whose blocks are being saved
+     * @param blocks - The notebook's blocks
+     * @returns The updated project, or `undefined` if the project or notebook does not exist
+     */
+    updateNotebookBlocks(projectId: string, notebookId: string, blocks: DeepnoteBlock[]): DeepnoteProject | undefined;
+
     /**
      * Updates the integrations list in the project data.
      * This modifies the stored project to reflect changes in configured integrations.
@@ -224,8 +224,22 @@ export namespace Commands {
     export const RefreshDeepnoteExplorer = 'deepnote.refreshExplorer';
     export const OpenDeepnoteNotebook = 'deepnote.openNotebook';
     export const OpenDeepnoteFile = 'deepnote.openFile';
+    export const OpenAllDeepnoteNotebooks = 'deepnote.openAllNotebooks';
+    export const ShowDeepnoteMergeConflicts = 'deepnote.showMergeConflicts';
+    export const CompareDeepnoteWithHead = 'deepnote.compareWithHead';
+    export const CompareDeepnoteRevisions = 'deepnote.compareRevisions';
+    export const RunWithParameters = 'deepnote.runWithParameters';
+    export const ReplayParameterSet = 'deepnote.replayParameterSet';
+    export const CompareParameterSets = 'deepnote.compareParameterSets';
     export const RevealInDeepnoteExplorer = 'deepnote.revealInExplorer';
     export const ManageIntegrations = 'deepnote.manageIntegrations';
+    export const SetIntegrationSecret = 'deepnote.setIntegrationSecret';
+    export const RefreshDataSources = 'deepnote.refreshDataSources';
+    export const InsertSelectQuery = 'deepnote.insertSelectQuery';
+    export const PreviewTableRows = 'deepnote.previewTableRows';
+    export const PreviewCompiledSql = 'deepnote.previewCompiledSql';
+    export const CancelSqlQuery = 'deepnote.cancelSqlQuery';
+    export const EditChart = 'deepnote.editChart';
     export const AddSqlBlock = 'deepnote.addSqlBlock';
     export const AddBigNumberChartBlock = 'deepnote.addBigNumberChartBlock';
     export const AddChartBlock = 'deepnote.addChartBlock';
@@ -242,6 +256,7 @@ export namespace Commands {
     export const NewProject = 'deepnote.newProject';
     export const ImportNotebook = 'deepnote.importNotebook';
     export const ImportJupyterNotebook = 'deepnote.importJupyterNotebook';
+    export const ExportToJupyterNotebook = 'deepnote.exportToJupyterNotebook';
     export const RenameProject = 'deepnote.renameProject';
     export const DeleteProject = 'deepnote.deleteProject';
     export const RenameNotebook = 'deepnote.renameNotebook';
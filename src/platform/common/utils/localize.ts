@@ -806,12 +806,42 @@ export namespace WebViews {
         'The built-in data viewer will be deprecated and no longer usable starting with Visual Studio Code 1.92. Please <a href="command:workbench.extensions.search?%22@tag:jupyterVariableViewers%22">install other data viewing extensions</a> to continue inspecting data'
     );
     export const dataframeRowsColumns = l10n.t('{0} rows, {1} columns');
-    export const dataframePerPage = l10n.t('/ page');
-    export const dataframePreviousPage = l10n.t('Previous page');
-    export const dataframeNextPage = l10n.t('Next page');
-    export const dataframePageOf = l10n.t('Page {0} of {1}');
+    export const dataframeLoadingRows = l10n.t('Loading rows…');
+    export const dataframeRowsFromOutput = l10n.t(
+        'Showing the {0} rows stored in the output. Run the block again to browse all {1} rows.'
+    );
+    export const dataframeRowsError = l10n.t('Failed to load rows: {0}');
     export const dataframeCopyTable = l10n.t('Copy table');
     export const dataframeExportTable = l10n.t('Export table');
+    export const dataframeSortAscending = l10n.t('Sort ascending');
+    export const dataframeSortDescending = l10n.t('Sort descending');
+    export const dataframeClearSort = l10n.t('Clear sorting');
+    export const dataframeFilterColumn = l10n.t('Filter {0}');
+    export const dataframeFilterValue = l10n.t('Value');
+    export const dataframeFilterValuesHint = l10n.t('Values, separated by commas');
+    export const dataframeFilterApply = l10n.t('Apply');
+    export const dataframeFilterClear = l10n.t('Clear');
+    export const dataframeDistinctValues = l10n.t('{0} distinct values');
+    export const dataframeValueRange = l10n.t('{0} to {1}');
+    export const dataframeMissingValues = l10n.t('{0} missing');
+    export const dataframeFilterIsEqual = l10n.t('is');
+    export const dataframeFilterIsNotEqual = l10n.t('is not');
+    export const dataframeFilterIsOneOf = l10n.t('is one of');
+    export const dataframeFilterIsNotOneOf = l10n.t('is not one of');
+    export const dataframeFilterIsNotNull = l10n.t('is not empty');
+    export const dataframeFilterIsNull = l10n.t('is empty');
+    export const dataframeFilterTextContains = l10n.t('contains');
+    export const dataframeFilterTextDoesNotContain = l10n.t('does not contain');
+    export const dataframeFilterGreaterThan = l10n.t('greater than');
+    export const dataframeFilterGreaterThanOrEqual = l10n.t('greater than or equal to');
+    export const dataframeFilterLessThan = l10n.t('less than');
+    export const dataframeFilterLessThanOrEqual = l10n.t('less than or equal to');
+    export const dataframeFilterBetween = l10n.t('between');
+    export const dataframeFilterOutsideOf = l10n.t('outside of');
+    export const dataframeFilterIsRelativeToday = l10n.t('is relative to today');
+    export const dataframeFilterIsAfter = l10n.t('is after');
+    export const dataframeFilterIsBefore = l10n.t('is before');
+    export const dataframeFilterIsOn = l10n.t('is on');
 }
 
 export namespace Integrations {
@@ -836,6 +866,12 @@ export namespace Integrations {
     export const postgresTypeLabel = l10n.t('PostgreSQL');
     export const bigQueryTypeLabel = l10n.t('BigQuery');
     export const snowflakeTypeLabel = l10n.t('Snowflake');
+    export const mySqlTypeLabel = l10n.t('MySQL');
+    export const mariaDbTypeLabel = l10n.t('MariaDB');
+    export const sqlServerTypeLabel = l10n.t('SQL Server');
+    export const redshiftTypeLabel = l10n.t('Redshift');
+    export const clickHouseTypeLabel = l10n.t('ClickHouse');
+    export const trinoTypeLabel = l10n.t('Trino');
 
     // PostgreSQL form strings
     export const postgresNameLabel = l10n.t('Name (optional)');
@@ -871,6 +907,23 @@ export namespace Integrations {
     export const snowflakeAuthMethodSubLabel = l10n.t('Method');
     export const snowflakeAuthMethodUsernamePassword = l10n.t('Username & password');
     export const snowflakeAuthMethodKeyPair = l10n.t('Key-pair (service account)');
+    export const snowflakeAuthMethodUserKeyPair = l10n.t('Key-pair (user)');
+    export const snowflakeAuthMethodExternalBrowser = l10n.t('Single sign-on (browser)');
+    export const snowflakeAuthMethodNativeOAuth = l10n.t('Snowflake OAuth');
+    export const snowflakeAuthMethodOkta = l10n.t('Okta (OAuth)');
+    export const snowflakeAuthMethodAzureAd = l10n.t('Azure AD (OAuth)');
+    export const snowflakeExternalBrowserHelp = l10n.t(
+        'A browser window opens to sign in with the identity provider of the Snowflake account when a query runs.'
+    );
+    export const snowflakeOAuthHelp = l10n.t(
+        'A browser window opens to sign in when a query runs. The OAuth client must allow the redirect URI {0}.'
+    );
+    export const snowflakeOktaSubdomainLabel = l10n.t('Okta subdomain');
+    export const snowflakeOktaAuthorizationServerLabel = l10n.t('Authorization server (optional)');
+    export const snowflakeAzureTenantLabel = l10n.t('Tenant ID');
+    export const snowflakeAzureResourceLabel = l10n.t('Resource (Application ID URI)');
+    export const snowflakeClientIdLabel = l10n.t('Client ID');
+    export const snowflakeClientSecretLabel = l10n.t('Client secret');
     export const snowflakeUnsupportedAuthMethod = l10n.t(
         'This Snowflake integration uses an authentication method that is not supported in VS Code. You can view the integration details but cannot edit or use it.'
     );
@@ -898,6 +951,44 @@ export namespace Integrations {
     export const snowflakeRolePlaceholder = l10n.t('');
     export const snowflakeWarehouseLabel = l10n.t('Warehouse (optional)');
     export const snowflakeWarehousePlaceholder = l10n.t('');
+
+    // Database server form strings (MySQL, MariaDB, SQL Server, Redshift, ClickHouse and Trino)
+    export const serverNameLabel = l10n.t('Name (optional)');
+    export const serverNamePlaceholder = (type: string) => l10n.t('My {0} Database', type);
+    export const serverHostLabel = l10n.t('Host');
+    export const serverPortLabel = l10n.t('Port');
+    export const serverDatabaseLabel = l10n.t('Database');
+    export const serverDatabasePlaceholder = l10n.t('mydb');
+    export const serverCatalogLabel = l10n.t('Catalog');
+    export const serverCatalogPlaceholder = l10n.t('hive');
+    export const serverSchemaLabel = l10n.t('Schema (optional)');
+    export const serverUsernameLabel = l10n.t('Username');
+    export const serverPasswordLabel = l10n.t('Password');
+    export const serverPasswordOptionalLabel = l10n.t('Password (optional)');
+    export const serverPasswordPlaceholder = l10n.t('••••••••');
+    export const serverSslLabel = l10n.t('Use SSL');
+    export const serverHttpsLabel = l10n.t('Use HTTPS');
+
+    // Connection test strings
+    export const testConnection = l10n.t('Test connection');
+    export const testingConnection = l10n.t('Testing connection...');
+    export const connectionSuccessful = l10n.t('Connection successful');
+    export const connectionError = l10n.t('Connection Error');
+    export const connectionFailed = l10n.t('Connection failed');
+    export const connectionFailedAuth = l10n.t('Authentication failed');
+    export const connectionFailedNetwork = l10n.t('Could not reach the server');
+    export const connectionFailedSsl = l10n.t('SSL error');
+    export const connectionFailedDriver = l10n.t('The database driver is not installed');
+    export const connectionFailedEnvironment = l10n.t('Cannot test the connection');
+    export const credentialSourcesTitle = l10n.t('Values read from the environment');
+    export const credentialSourceEnv = (name: string) => l10n.t('Environment variable {0}', name);
+    export const credentialSourceDotenv = (name: string) => l10n.t('Key {0} of the .env file', name);
+    export const credentialSourceUndefined = l10n.t('(not defined)');
+    export const credentialReferencesHint = l10n.t(
+        'Fields can use {0} for an environment variable or {1} for a key of the workspace .env file.',
+        '${env:NAME}',
+        '${dotenv:NAME}'
+    );
 }
 
 export namespace SelectInputSettings {
@@ -920,6 +1011,49 @@ export namespace SelectInputSettings {
     export const failedToSave = l10n.t('Failed to save select input settings');
 }
 
+export namespace ChartEditor {
+    export const title = l10n.t('Chart Editor');
+    export const dataframeLabel = l10n.t('DataFrame');
+    export const dataframePlaceholder = l10n.t('Variable name...');
+    export const reloadDataframes = l10n.t('Reload DataFrames from the kernel');
+    export const loadingDataframes = l10n.t('Loading DataFrames from the kernel...');
+    export const kernelNotRunning = l10n.t('Run the notebook to pick the DataFrame and its columns from the kernel.');
+    export const unsupportedSpec = l10n.t(
+        'This chart uses Vega-Lite features the chart editor does not support, saving it replaces them.'
+    );
+    export const chartTypeLabel = l10n.t('Chart type');
+    export const chartTypeBar = l10n.t('Bar');
+    export const chartTypeLine = l10n.t('Line');
+    export const chartTypeArea = l10n.t('Area');
+    export const chartTypePoint = l10n.t('Scatter');
+    export const chartTypeArc = l10n.t('Pie');
+    export const channelX = l10n.t('X axis');
+    export const channelY = l10n.t('Y axis');
+    export const channelValue = l10n.t('Value');
+    export const channelColor = l10n.t('Color');
+    export const channelSize = l10n.t('Size');
+    export const noColumn = l10n.t('None');
+    export const noAggregate = l10n.t('No aggregation');
+    export const aggregateCount = l10n.t('Count');
+    export const aggregateSum = l10n.t('Sum');
+    export const aggregateMean = l10n.t('Average');
+    export const aggregateMedian = l10n.t('Median');
+    export const aggregateMin = l10n.t('Minimum');
+    export const aggregateMax = l10n.t('Maximum');
+    export const filtersTitle = l10n.t('Filters');
+    export const addFilter = l10n.t('Add filter');
+    export const removeFilter = l10n.t('Remove filter');
+    export const noVariable = l10n.t('Pick the DataFrame to chart.');
+    export const unknownVariable = l10n.t('The kernel has no DataFrame named {0}.');
+    export const missingChannel = l10n.t('Pick a column for {0}.');
+    export const unknownColumn = l10n.t('The DataFrame has no column named {0}.');
+    export const aggregateNotNumeric = l10n.t('{0} needs a number column, but {1} is not one.');
+    export const filterValues = l10n.t('Enter the values of the filter on {0}.');
+    export const saveButton = l10n.t('Save');
+    export const cancelButton = l10n.t('Cancel');
+    export const failedToSave = l10n.t('Failed to save the chart');
+}
+
 export namespace Deprecated {
     export const SHOW_DEPRECATED_FEATURE_PROMPT_FORMAT_ON_SAVE = l10n.t({
         message: "The setting 'python.formatting.formatOnSave' is deprecated, please use 'editor.formatOnSave'.",
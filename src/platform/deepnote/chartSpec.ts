@@ -0,0 +1,233 @@
+import { type DataframeFilter, getFilterOperandCount } from './dataframeFilters';
+
+export const CHART_TYPES = ['bar', 'line', 'area', 'point', 'arc'] as const;
+
+export type ChartType = (typeof CHART_TYPES)[number];
+
+export const CHART_CHANNELS = ['x', 'y', 'color', 'size'] as const;
+
+export type ChartChannel = (typeof CHART_CHANNELS)[number];
+
+export const CHART_AGGREGATES = ['count', 'sum', 'mean', 'median', 'min', 'max'] as const;
+
+export type ChartAggregate = (typeof CHART_AGGREGATES)[number];
+
+type VegaLiteType = 'quantitative' | 'temporal' | 'nominal' | 'ordinal';
+
+/**
+ * Column of a chart channel, e.g. the x axis
+ */
+export interface ChartEncoding {
+    /** Empty when the channel counts rows */
+    field: string;
+    aggregate?: ChartAggregate;
+    /** Vega-Lite type of the column, when it isn't known from the DataFrame */
+    type?: VegaLiteType;
+}
+
+/**
+ * Chart of a visualization block, as the chart editor edits it
+ */
+export interface ChartModel {
+    variable: string;
+    chartType: ChartType;
+    encodings: Partial<Record<ChartChannel, ChartEncoding>>;
+    filters: DataframeFilter[];
+}
+
+export type DataframeColumnKind = 'number' | 'datetime' | 'boolean' | 'text';
+
+/**
+ * DataFrame in the kernel, with its columns
+ */
+export interface DataframeInfo {
+    name: string;
+    columns: { name: string; dtype: string; kind: DataframeColumnKind }[];
+}
+
+/**
+ * Problem of a chart that keeps it from being drawn. `key` is the localized message, `args` its arguments.
+ */
+export interface ChartValidationIssue {
+    key:
+        | 'chartNoVariable'
+        | 'chartUnknownVariable'
+        | 'chartMissingChannel'
+        | 'chartUnknownColumn'
+        | 'chartAggregateNotNumeric'
+        | 'chartFilterValues';
+    args: string[];
+}
+
+const VEGA_LITE_SCHEMA = 'https://vega.github.io/schema/vega-lite/v5.json';
+
+/** Vega-Lite features the chart editor can't show, which saving it replaces */
+const UNSUPPORTED_SPEC_KEYS = ['layer', 'concat', 'hconcat', 'vconcat', 'facet', 'repeat'];
+
+/**
+ * Channels a chart type draws, the first ones of which it needs
+ */
+export function getChartChannels(chartType: ChartType): { channels: ChartChannel[]; required: ChartChannel[] } {
+    switch (chartType) {
+        case 'arc':
+            // The y channel is the size of the slices, as Vega-Lite's theta channel
+            return { channels: ['y', 'color'], required: ['y', 'color'] };
+        case 'point':
+            return { channels: ['x', 'y', 'color', 'size'], required: ['x', 'y'] };
+        default:
+            return { channels: ['x', 'y', 'color'], required: ['x', 'y'] };
+    }
+}
+
+/**
+ * Reads the chart of a Vega-Lite spec. `isSupported` is false when the spec uses features the chart editor
+ * can't show, e.g. layers.
+ */
+export function parseChartSpec(spec: Record<string, unknown>): {
+    chartType: ChartType;
+    encodings: ChartModel['encodings'];
+    isSupported: boolean;
+} {
+    const mark = typeof spec.mark === 'string' ? spec.mark : (spec.mark as { type?: unknown } | undefined)?.type;
+    const chartType = CHART_TYPES.find((type) => type === mark);
+    const encoding = (spec.encoding ?? {}) as Record<string, Record<string, unknown> | undefined>;
+    const encodings: ChartModel['encodings'] = {};
+    let isSupported = !UNSUPPORTED_SPEC_KEYS.some((key) => key in spec) && (mark === undefined || !!chartType);
+
+    for (const channel of CHART_CHANNELS) {
+        const definition = channel === 'y' && chartType === 'arc' ? encoding.theta : encoding[channel];
+
+        if (!definition) {
+            continue;
+        }
+
+        const aggregate = CHART_AGGREGATES.find((candidate) => candidate === definition.aggregate);
+
+        if (definition.aggregate !== undefined && !aggregate) {
+            isSupported = false;
+        }
+
+        encodings[channel] = {
+            field: typeof definition.field === 'string' ? definition.field : '',
+            ...(aggregate ? { aggregate } : {}),
+            ...(typeof definition.type === 'string' ? { type: definition.type as VegaLiteType } : {})
+        };
+    }
+
+    return { chartType: chartType ?? 'bar', encodings, isSupported };
+}
+
+/**
+ * Builds the Vega-Lite spec of a chart. Other settings of the previous spec, e.g. its title, are kept.
+ */
+export function buildChartSpec(
+    model: ChartModel,
+    previousSpec: Record<string, unknown>,
+    dataframe: DataframeInfo | undefined
+): Record<string, unknown> {
+    const kept = Object.fromEntries(
+        Object.entries(previousSpec).filter(
+            ([key]) => !UNSUPPORTED_SPEC_KEYS.includes(key) && key !== 'mark' && key !== 'encoding'
+        )
+    );
+    const { channels } = getChartChannels(model.chartType);
+    const encoding: Record<string, Record<string, unknown>> = {};
+
+    for (const channel of channels) {
+        const definition = model.encodings[channel];
+
+        if (!definition || (!definition.field && definition.aggregate !== 'count')) {
+            continue;
+        }
+
+        const kind = dataframe?.columns.find((column) => column.name === definition.field)?.kind;
+        const type: VegaLiteType = definition.aggregate
+            ? 'quantitative'
+            : kind
+            ? getVegaLiteType(kind)
+            : definition.type ?? (channel === 'y' || channel === 'size' ? 'quantitative' : 'nominal');
+
+        encoding[model.chartType === 'arc' && channel === 'y' ? 'theta' : channel] = {
+            ...(definition.field ? { field: definition.field } : {}),
+            type,
+            ...(definition.aggregate ? { aggregate: definition.aggregate } : {})
+        };
+    }
+
+    return {
+        $schema: VEGA_LITE_SCHEMA,
+        ...kept,
+        mark: { type: model.chartType, tooltip: true },
+        encoding
+    };
+}
+
+/**
+ * Finds the problems that keep a chart from being drawn. The DataFrames of the kernel are only checked
+ * when they are known.
+ */
+export function validateChart(model: ChartModel, dataframes: DataframeInfo[] | undefined): ChartValidationIssue[] {
+    const issues: ChartValidationIssue[] = [];
+
+    if (!model.variable) {
+        issues.push({ key: 'chartNoVariable', args: [] });
+    }
+
+    const dataframe = dataframes?.find((candidate) => candidate.name === model.variable);
+
+    if (model.variable && dataframes && !dataframe) {
+        issues.push({ key: 'chartUnknownVariable', args: [model.variable] });
+    }
+
+    const isUnknownColumn = (name: string) => !!dataframe && !dataframe.columns.some((column) => column.name === name);
+    const { channels, required } = getChartChannels(model.chartType);
+
+    for (const channel of channels) {
+        const definition = model.encodings[channel];
+
+        if (!definition || (!definition.field && definition.aggregate !== 'count')) {
+            if (required.includes(channel)) {
+                issues.push({ key: 'chartMissingChannel', args: [channel] });
+            }
+            continue;
+        }
+
+        if (definition.field && isUnknownColumn(definition.field)) {
+            issues.push({ key: 'chartUnknownColumn', args: [definition.field] });
+            continue;
+        }
+
+        const kind = dataframe?.columns.find((column) => column.name === definition.field)?.kind;
+
+        if (definition.aggregate && definition.aggregate !== 'count' && kind && kind !== 'number') {
+            issues.push({ key: 'chartAggregateNotNumeric', args: [definition.aggregate, definition.field] });
+        }
+    }
+
+    for (const filter of model.filters) {
+        if (isUnknownColumn(filter.column)) {
+            issues.push({ key: 'chartUnknownColumn', args: [filter.column] });
+            continue;
+        }
+
+        const operandCount = getFilterOperandCount(filter.operator);
+        const values = filter.comparativeValues.filter((value) => value.trim() !== '');
+
+        if (operandCount === 'list' ? values.length === 0 : values.length < operandCount) {
+            issues.push({ key: 'chartFilterValues', args: [filter.column] });
+        }
+    }
+
+    return issues;
+}
+
+function getVegaLiteType(kind: DataframeColumnKind): VegaLiteType {
+    switch (kind) {
+        case 'number':
+            return 'quantitative';
+        case 'datetime':
+            return 'temporal';
+        default:
+            return 'nominal';
+    }
+}
@@ -0,0 +1,176 @@
+import { assert } from 'chai';
+
+import { buildChartSpec, type ChartModel, type DataframeInfo, parseChartSpec, validateChart } from './chartSpec';
+
+const sales: DataframeInfo = {
+    name: 'sales',
+    columns: [
+        { name: 'region', dtype: 'object', kind: 'text' },
+        { name: 'date', dtype: 'datetime64[ns]', kind: 'datetime' },
+        { name: 'revenue', dtype: 'float64', kind: 'number' }
+    ]
+};
+
+function createChart(overrides: Partial<ChartModel> = {}): ChartModel {
+    return {
+        variable: 'sales',
+        chartType: 'bar',
+        encodings: { x: { field: 'region' }, y: { field: 'revenue', aggregate: 'sum' } },
+        filters: [],
+        ...overrides
+    };
+}
+
+suite('Chart spec', () => {
+    suite('parseChartSpec', () => {
+        test('reads the mark and the encodings', () => {
+            const chart = parseChartSpec({
+                mark: { type: 'line', tooltip: true },
+                encoding: {
+                    x: { field: 'date', type: 'temporal' },
+                    y: { field: 'revenue', type: 'quantitative', aggregate: 'mean' }
+                }
+            });
+
+            assert.deepStrictEqual(chart, {
+                chartType: 'line',
+                encodings: {
+                    x: { field: 'date', type: 'temporal' },
+                    y: { field: 'revenue', aggregate: 'mean', type: 'quantitative' }
+                },
+                isSupported: true
+            });
+        });
+
+        test('reads the theta channel of pie charts as y', () => {
+            const chart = parseChartSpec({
+                mark: 'arc',
+                encoding: { theta: { field: 'revenue' }, color: { field: 'region' } }
+            });
+
+            assert.strictEqual(chart.chartType, 'arc');
+            assert.deepStrictEqual(chart.encodings, { y: { field: 'revenue' }, color: { field: 'region' } });
+        });
+
+        test('flags specs the chart editor cannot show', () => {
+            assert.isFalse(parseChartSpec({ layer: [] }).isSupported);
+            assert.isFalse(parseChartSpec({ mark: 'rect' }).isSupported);
+            assert.isFalse(parseChartSpec({ mark: 'bar', encoding: { y: { aggregate: 'stdev' } } }).isSupported);
+            assert.isTrue(parseChartSpec({}).isSupported);
+        });
+    });
+
+    suite('buildChartSpec', () => {
+        test('infers the types of the columns and keeps other settings', () => {
+            const spec = buildChartSpec(
+                createChart({
+                    encodings: { x: { field: 'date' }, y: { field: 'revenue' }, color: { field: 'region' } }
+                }),
+                { title: 'Revenue', mark: 'point', layer: [], data: { values: [] } },
+                sales
+            );
+
+            assert.deepStrictEqual(spec, {
+                $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+                title: 'Revenue',
+                data: { values: [] },
+                mark: { type: 'bar', tooltip: true },
+                encoding: {
+                    x: { field: 'date', type: 'temporal' },
+                    y: { field: 'revenue', type: 'quantitative' },
+                    color: { field: 'region', type: 'nominal' }
+                }
+            });
+        });
+
+        test('writes the y channel of pie charts as theta and counts rows without a column', () => {
+            const spec = buildChartSpec(
+                createChart({
+                    chartType: 'arc',
+                    encodings: {
+                        x: { field: 'date' },
+                        y: { field: '', aggregate: 'count' },
+                        color: { field: 'region' }
+                    }
+                }),
+                {},
+                sales
+            );
+
+            assert.deepStrictEqual(spec.encoding, {
+                theta: { type: 'quantitative', aggregate: 'count' },
+                color: { field: 'region', type: 'nominal' }
+            });
+        });
+
+        test('falls back to the types of the previous spec without the DataFrame', () => {
+            const spec = buildChartSpec(
+                createChart({ encodings: { x: { field: 'day', type: 'ordinal' }, y: { field: 'total' } } }),
+                {},
+                undefined
+            );
+
+            assert.deepStrictEqual(spec.encoding, {
+                x: { field: 'day', type: 'ordinal' },
+                y: { field: 'total', type: 'quantitative' }
+            });
+        });
+    });
+
+    suite('validateChart', () => {
+        test('accepts a complete chart', () => {
+            assert.deepStrictEqual(validateChart(createChart(), [sales]), []);
+        });
+
+        test('requires a DataFrame the kernel has', () => {
+            assert.deepStrictEqual(validateChart(createChart({ variable: '' }), [sales]), [
+                { key: 'chartNoVariable', args: [] }
+            ]);
+            assert.deepStrictEqual(validateChart(createChart({ variable: 'orders' }), [sales]), [
+                { key: 'chartUnknownVariable', args: ['orders'] }
+            ]);
+        });
+
+        test('requires the channels of the chart type', () => {
+            const issues = validateChart(createChart({ chartType: 'arc' }), [sales]);
+
+            assert.deepStrictEqual(issues, [{ key: 'chartMissingChannel', args: ['color'] }]);
+        });
+
+        test('checks columns and aggregations against the DataFrame', () => {
+            const issues = validateChart(
+                createChart({ encodings: { x: { field: 'country' }, y: { field: 'region', aggregate: 'mean' } } }),
+                [sales]
+            );
+
+            assert.deepStrictEqual(issues, [
+                { key: 'chartUnknownColumn', args: ['country'] },
+                { key: 'chartAggregateNotNumeric', args: ['mean', 'region'] }
+            ]);
+        });
+
+        test('only checks the channels when the DataFrames are not known', () => {
+            const issues = validateChart(
+                createChart({ variable: 'orders', encodings: { x: { field: 'country' } } }),
+                undefined
+            );
+
+            assert.deepStrictEqual(issues, [{ key: 'chartMissingChannel', args: ['y'] }]);
+        });
+
+        test('requires the values of filters', () => {
+            const issues = validateChart(
+                createChart({
+                    filters: [
+                        { column: 'revenue', operator: 'between', comparativeValues: ['1', ' '] },
+                        { column: 'region', operator: 'is-one-of', comparativeValues: ['EU'] },
+                        { column: 'date', operator: 'is-null', comparativeValues: [] }
+                    ]
+                }),
+                [sales]
+            );
+
+            assert.deepStrictEqual(issues, [{ key: 'chartFilterValues', args: ['revenue'] }]);
+        });
+    });
+});
@@ -0,0 +1,63 @@
+/**
+ * Operators of the filters Deepnote applies to dataframes, in charts and in tables
+ */
+export const DATAFRAME_FILTER_OPERATORS = [
+    'is-equal',
+    'is-not-equal',
+    'is-one-of',
+    'is-not-one-of',
+    'is-not-null',
+    'is-null',
+    'text-contains',
+    'text-does-not-contain',
+    'greater-than',
+    'greater-than-or-equal',
+    'less-than',
+    'less-than-or-equal',
+    'between',
+    'outside-of',
+    'is-relative-today',
+    'is-after',
+    'is-before',
+    'is-on'
+] as const;
+
+export type DataframeFilterOperator = (typeof DATAFRAME_FILTER_OPERATORS)[number];
+
+/**
+ * Values of the `is-relative-today` operator, the days before today its dates start at
+ */
+export const RELATIVE_DATE_FILTER_VALUES = [
+    'today',
+    'yesterday',
+    'week-ago',
+    'month-ago',
+    'quarter-ago',
+    'half-year-ago',
+    'year-ago'
+] as const;
+
+export type DataframeFilter = {
+    column: string;
+    operator: DataframeFilterOperator;
+    comparativeValues: string[];
+};
+
+/**
+ * Number of values an operator compares the column with, `'list'` for any number of values
+ */
+export function getFilterOperandCount(operator: DataframeFilterOperator): 0 | 1 | 2 | 'list' {
+    switch (operator) {
+        case 'is-null':
+        case 'is-not-null':
+            return 0;
+        case 'between':
+        case 'outside-of':
+            return 2;
+        case 'is-one-of':
+        case 'is-not-one-of':
+            return 'list';
+        default:
+            return 1;
+    }
+}
@@ -0,0 +1,75 @@
+import type * as nbformat from '@jupyterlab/nbformat';
+
+/**
+ * Builds the code that calls the function defined by a script of `pythonFiles` in the kernel, given the
+ * contents of the script, which may start with the scripts of helper functions it calls. The functions
+ * are removed again, so they don't show up among the variables of the notebook.
+ */
+export function buildKernelFunctionCall(
+    script: string,
+    functionName: string,
+    args: (string | number | undefined)[]
+): string {
+    // JSON strings and numbers are valid Python literals
+    const argList = args.map((value) => (value === undefined ? 'None' : JSON.stringify(value))).join(', ');
+    // Deleting a name twice fails, so each function is listed once
+    const removedFunctions = new Set([
+        ...Array.from(script.matchAll(/^def (\w+)\(/gm), (match) => match[1]),
+        functionName
+    ]);
+
+    return `${script}\n\ntry:\n    print(${functionName}(${argList}))\nfinally:\n    del ${[...removedFunctions].join(
+        ', '
+    )}\n`;
+}
+
+/**
+ * Reads the JSON result printed last by a function called with {@link buildKernelFunctionCall}
+ *
+ * @throws When the code failed, e.g. because it was interrupted, or printed no result
+ */
+export function parseKernelFunctionOutputs<T extends { success: boolean }>(
+    outputs: nbformat.IOutput[],
+    description: string
+): T {
+    const error = outputs.find((output) => output.output_type === 'error') as nbformat.IError | undefined;
+
+    if (error) {
+        throw new Error(`${error.ename}: ${error.evalue}`);
+    }
+
+    const stdout = outputs
+        .filter((output) => output.output_type === 'stream' && (output as nbformat.IStream).name === 'stdout')
+        .map((output) => {
+            const text = (output as nbformat.IStream).text;
+            return Array.isArray(text) ? text.join('') : text;
+        })
+        .join('');
+    const result = findScriptResult<T>(stdout);
+
+    if (!result) {
+        throw new Error(`The ${description} did not return a result: ${stdout.trim()}`);
+    }
+
+    return result;
+}
+
+/**
+ * Returns the JSON result line with a `success` field printed last by a script of `pythonFiles`, whether it
+ * ran in the kernel or as a process of its own, if any
+ */
+export function findScriptResult<T extends { success: boolean }>(stdout: string): T | undefined {
+    for (const line of stdout.trim().split(/\r?\n/).reverse()) {
+        try {
+            const result = JSON.parse(line);
+
+            if (typeof result?.success === 'boolean') {
+                return result;
+            }
+        } catch {
+            continue;
+        }
+    }
+
+    return undefined;
+}
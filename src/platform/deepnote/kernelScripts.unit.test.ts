@@ -0,0 +1,65 @@
+import { assert } from 'chai';
+
+import { buildKernelFunctionCall, findScriptResult, parseKernelFunctionOutputs } from './kernelScripts';
+
+suite('Kernel scripts', () => {
+    suite('buildKernelFunctionCall', () => {
+        test('calls the function and removes the functions of the scripts', () => {
+            const script = 'def _helper(value):\n    return value\n\n\ndef _main(name, limit, other):\n    pass';
+
+            assert.strictEqual(
+                buildKernelFunctionCall(script, '_main', ['df "1"', 10, undefined]),
+                `${script}\n\ntry:\n    print(_main("df \\"1\\"", 10, None))\nfinally:\n    del _helper, _main\n`
+            );
+        });
+
+        test('removes the function even when the script does not define it at the top level', () => {
+            const code = buildKernelFunctionCall('_main = lambda: None', '_main', []);
+
+            assert.isTrue(code.endsWith('finally:\n    del _main\n'));
+        });
+    });
+
+    suite('parseKernelFunctionOutputs', () => {
+        test('reads the last result printed', () => {
+            const result = parseKernelFunctionOutputs<{ success: boolean; count?: number }>(
+                [
+                    { output_type: 'stream', name: 'stdout', text: 'warming up\n{"success": false}\n' },
+                    { output_type: 'stream', name: 'stdout', text: ['{"success": true, ', '"count": 2}\n'] }
+                ],
+                'test'
+            );
+
+            assert.deepStrictEqual(result, { success: true, count: 2 });
+        });
+
+        test('throws the error of the kernel', () => {
+            assert.throws(
+                () =>
+                    parseKernelFunctionOutputs(
+                        [{ output_type: 'error', ename: 'KeyboardInterrupt', evalue: '', traceback: [] }],
+                        'test'
+                    ),
+                'KeyboardInterrupt: '
+            );
+        });
+    });
+
+    suite('findScriptResult', () => {
+        test('returns the last line with a result', () => {
+            assert.deepStrictEqual(
+                findScriptResult<{ success: boolean; rows: number }>(
+                    'Loading driver\n{"success": false}\n{"success": true, "rows": 1}\n'
+                ),
+                {
+                    success: true,
+                    rows: 1
+                }
+            );
+        });
+
+        test('ignores JSON lines without a result', () => {
+            assert.isUndefined(findScriptResult('{"progress": 1}\nnot JSON\n'));
+        });
+    });
+});
@@ -0,0 +1,196 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import type { NotebookCell, NotebookDocument, Uri } from 'vscode';
+
+/**
+ * A reference of a symbol in a cell: `write` where the cell assigns it, `read` where it uses it.
+ */
+export interface ICellReference {
+    uri: Uri;
+    kind?: string;
+}
+
+/**
+ * A defines symbol X
+ * B modifies symbol X
+ * C uses symbol X
+ *
+ * Fist step is the B and C uses symbol X so they depend on A, so to get the state of C, we need to run A -> output A and C
+ * Second step is since B modifies symbol X, we need to run both A and B to get the state of C. -> output A, B and C
+ */
+export class CellAnalysis {
+    constructor(
+        private readonly _notebookDocument: NotebookDocument,
+        private readonly _cellExecution: ICellExecution[],
+        private readonly _cellRefs: Map<string, ICellReference[]>
+    ) {}
+
+    private _getVirtualCellList(cell: NotebookCell): NotebookCell[] {
+        const cellExecutionIndex = this._cellExecution.findIndex(
+            (item) => item.cell.document.uri.toString() === cell.document.uri.toString()
+        );
+
+        if (cellExecutionIndex === -1) {
+            return this._notebookDocument.getCells();
+        }
+
+        return this._cellExecution.map((item) => item.cell);
+    }
+
+    /**
+     * Get predecessor cells
+     */
+    getPredecessorCells(cell: NotebookCell, forceReadNotebook: boolean = false): NotebookCell[] {
+        // find last execution item index from cell list whose cell property matches cell
+        const virtualCellList = forceReadNotebook ? this._notebookDocument.getCells() : this._getVirtualCellList(cell);
+        var i;
+        for (
+            i = virtualCellList.length - 1;
+            i >= 0 && virtualCellList[i].document.uri.toString() !== cell.document.uri.toString();
+            i--
+        ) {
+            // no-op
+        }
+
+        if (i === -1) {
+            return [];
+        }
+
+        const lastExecutionIndex = i;
+        const slicedCellExecution = virtualCellList.slice(0, lastExecutionIndex + 1);
+        const cellBitmap: boolean[] = new Array(slicedCellExecution.length).fill(false);
+        cellBitmap[lastExecutionIndex] = true;
+
+        const reversedCellRefs = new Map<string, string[]>(); // key: cell uri fragment, value: cell uri fragment[]
+        for (const [key, dependents] of this._cellRefs.entries()) {
+            const modifications = dependents.filter((item) => item.kind === 'write').map((item) => item.uri.fragment);
+            dependents.forEach((dependent) => {
+                const fragment = dependent.uri.fragment;
+
+                if (reversedCellRefs.has(fragment)) {
+                    reversedCellRefs.get(fragment)?.push(key);
+                } else {
+                    reversedCellRefs.set(fragment, [key]);
+                }
+            });
+
+            // if a cell modifies a symbol, then all other cells that use the symbol (no matter read or write) will depend on this cell
+            dependents.forEach((dependent) => {
+                const fragment = dependent.uri.fragment;
+                if (reversedCellRefs.has(fragment)) {
+                    reversedCellRefs.get(fragment)?.push(...modifications);
+                } else {
+                    reversedCellRefs.set(fragment, modifications);
+                }
+            });
+        }
+
+        const cellFragment = cell.document.uri.fragment;
+        this._resolveDependencies(reversedCellRefs, cellBitmap, cellFragment, slicedCellExecution, forceReadNotebook);
+
+        const cellData: NotebookCell[] = [];
+        for (let i = 0; i < cellBitmap.length; i++) {
+            if (cellBitmap[i]) {
+                cellData.push(slicedCellExecution[i]);
+            }
+        }
+
+        return cellData;
+    }
+
+    /**
+     * @todo
+     * cell might not have symbols, but it can have references of other cells' symbols
+     * if the reference to the symbol is a write operation, then the following cells that use the symbol will depend on this cell
+     */
+    getSuccessorCells(cell: NotebookCell): NotebookCell[] {
+        const virtualCellList = this._getVirtualCellList(cell);
+
+        const cellIndex = virtualCellList.findIndex(
+            (item) => item.document.uri.fragment === cell.document.uri.fragment
+        );
+        if (cellIndex === -1) {
+            return [];
+        }
+
+        const cellBitmap: boolean[] = new Array(virtualCellList.length).fill(false);
+        cellBitmap[cellIndex] = true;
+
+        const modificationCellRefs: Map<string, ICellReference[]> = new Map();
+        this._cellRefs.forEach((refs) => {
+            refs.forEach((ref) => {
+                if (ref.kind === 'write') {
+                    // this is a write ref, so all other read/write references to this symbol will depend on this cell
+                    const modifiedCellFragment = ref.uri.fragment;
+                    const modifiedCellRefs = modificationCellRefs.get(modifiedCellFragment) ?? [];
+                    modifiedCellRefs.push(...refs.filter((item) => item !== ref));
+                    modificationCellRefs.set(modifiedCellFragment, modifiedCellRefs);
+                }
+            });
+        });
+
+        // a symbol is a definition so modifying it is always a `write` operation
+        for (let i = cellIndex; i < virtualCellList.length; i++) {
+            if (cellBitmap[i]) {
+                const deps = this._cellRefs.get(virtualCellList[i].document.uri.fragment) || [];
+                const modificationDeps = modificationCellRefs.get(virtualCellList[i].document.uri.fragment) || [];
+                const mergedDeps = [...deps, ...modificationDeps];
+
+                mergedDeps.forEach((dep) => {
+                    const index = virtualCellList.findIndex((item) => item.document.uri.fragment === dep.uri.fragment);
+                    // @todo what if index < cellIndex?
+                    if (index !== -1 && index >= i) {
+                        cellBitmap[index] = true;
+                    }
+                });
+            }
+        }
+
+        const cellData: NotebookCell[] = [];
+        for (let i = 0; i < cellBitmap.length; i++) {
+            if (cellBitmap[i]) {
+                cellData.push(virtualCellList[i]);
+            }
+        }
+
+        return cellData;
+    }
+
+    private _resolveDependencies(
+        reversedCellRefs: Map<string, string[]>,
+        cellBitmap: boolean[],
+        cellFragment: string,
+        cellExecution: NotebookCell[],
+        ignoreUnboundDependencies: boolean = false
+    ) {
+        if (reversedCellRefs.has(cellFragment)) {
+            for (const dependency of reversedCellRefs.get(cellFragment)!) {
+                const index = cellExecution.findIndex((cell) => cell.document.uri.fragment === dependency);
+
+                if (index === -1) {
+                    if (!ignoreUnboundDependencies) {
+                        throw new Error(`Dependency ${dependency} is not in the execution list.`);
+                    } else {
+                        continue;
+                    }
+                }
+                if (!cellBitmap[index]) {
+                    cellBitmap[index] = true;
+                    this._resolveDependencies(
+                        reversedCellRefs,
+                        cellBitmap,
+                        dependency,
+                        cellExecution,
+                        ignoreUnboundDependencies
+                    );
+                }
+            }
+        }
+    }
+}
+
+export interface ICellExecution {
+    cell: NotebookCell;
+    executionCount: number;
+}
@@ -0,0 +1,40 @@
+import type { NotebookCell } from 'vscode';
+
+import type { IDisposable } from '../common/types';
+
+/**
+ * Changes the code generated for a cell before it is sent to the kernel
+ */
+export type CellCodeTransform = (code: string, cell: NotebookCell) => string;
+
+/**
+ * Code transforms of the notebook types, which let a notebook type adapt the code of its cells without
+ * the kernel execution knowing about it.
+ */
+export namespace cellCodeTransforms {
+    const transforms = new Map<string, Set<CellCodeTransform>>();
+
+    /**
+     * Registers a transform of the code of the cells of a notebook type
+     */
+    export function register(notebookType: string, transform: CellCodeTransform): IDisposable {
+        const registered = transforms.get(notebookType) ?? new Set<CellCodeTransform>();
+        registered.add(transform);
+        transforms.set(notebookType, registered);
+
+        return {
+            dispose: () => {
+                registered.delete(transform);
+            }
+        };
+    }
+
+    /**
+     * Returns the code of a cell, changed by the transforms registered for its notebook type
+     */
+    export function apply(cell: NotebookCell, code: string): string {
+        const registered = transforms.get(cell.notebook.notebookType);
+
+        return registered ? [...registered].reduce((result, transform) => transform(result, cell), code) : code;
+    }
+}
@@ -0,0 +1,184 @@
+import * as yaml from 'js-yaml';
+
+import {
+    DEEPNOTE_TO_INTEGRATION_TYPE,
+    IntegrationConfig,
+    IntegrationType,
+    RawIntegrationType
+} from './integrationTypes';
+
+/**
+ * Name of the optional file in the root of a workspace folder that configures integrations.
+ * The file holds no secrets, fields that are secret reference a secret by name instead:
+ *
+ * ```yaml
+ * integrations:
+ *   - id: 0e4e0cbb-5aa4-4b54-8d1c-3a6a3e6e6a8b
+ *     name: Warehouse
+ *     type: pgsql
+ *     deepnoteProjectId: 9c3f2d1e-... # optional, limits the configuration to one project
+ *     host: db.example.com
+ *     port: 5432
+ *     database: analytics
+ *     username: analyst
+ *     password:
+ *       secret: warehouse-password
+ * ```
+ */
+export const INTEGRATION_CONFIG_FILE_NAME = 'deepnote-integrations.yaml';
+
+/**
+ * Integration configured in the integrations file of a workspace, before its secrets are resolved
+ */
+export interface IntegrationConfigFileEntry {
+    /**
+     * Project the configuration applies to, or `undefined` when it applies to all projects of the workspace
+     */
+    deepnoteProjectId?: string;
+    /**
+     * Fields of the configuration, with secret references as the values of secret fields
+     */
+    fields: Record<string, unknown> & { id: string; name: string; type: IntegrationType };
+}
+
+export interface IntegrationConfigFile {
+    entries: IntegrationConfigFileEntry[];
+    /**
+     * Problems of entries that were skipped
+     */
+    errors: string[];
+}
+
+/**
+ * Parses the contents of an integrations file
+ *
+ * @throws When the file is not valid YAML, or has no list of integrations
+ */
+export function parseIntegrationConfigFile(content: string): IntegrationConfigFile {
+    const document = yaml.load(content);
+
+    if (document === undefined || document === null) {
+        return { entries: [], errors: [] };
+    }
+
+    const integrations = (document as { integrations?: unknown }).integrations;
+
+    if (typeof document !== 'object' || !Array.isArray(integrations)) {
+        throw new Error(`${INTEGRATION_CONFIG_FILE_NAME} must contain a list of integrations`);
+    }
+
+    const entries: IntegrationConfigFileEntry[] = [];
+    const errors: string[] = [];
+
+    integrations.forEach((item: unknown, index) => {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+            errors.push(`Integration ${index + 1} is not an object`);
+            return;
+        }
+
+        const { deepnoteProjectId, ...fields } = item as Record<string, unknown>;
+
+        if (typeof fields.id !== 'string' || !fields.id) {
+            errors.push(`Integration ${index + 1} has no id`);
+            return;
+        }
+
+        const type = parseIntegrationType(fields.type);
+
+        if (!type) {
+            errors.push(`Integration ${fields.id} has an unknown type '${String(fields.type)}'`);
+            return;
+        }
+
+        if (deepnoteProjectId !== undefined && typeof deepnoteProjectId !== 'string') {
+            errors.push(`Integration ${fields.id} has an invalid deepnoteProjectId`);
+            return;
+        }
+
+        entries.push({
+            deepnoteProjectId: typeof deepnoteProjectId === 'string' ? deepnoteProjectId : undefined,
+            fields: {
+                ...fields,
+                id: fields.id,
+                name: typeof fields.name === 'string' && fields.name ? fields.name : fields.id,
+                type
+            }
+        });
+    });
+
+    return { entries, errors };
+}
+
+/**
+ * Names of the secrets referenced by an entry of an integrations file
+ */
+export function getSecretReferences(entry: IntegrationConfigFileEntry): string[] {
+    return Object.values(entry.fields)
+        .map(getSecretName)
+        .filter((name): name is string => name !== undefined);
+}
+
+/**
+ * Replaces the secret references of an entry of an integrations file by the values of the secrets
+ *
+ * @returns The configuration, or the names of the referenced secrets that are not set
+ */
+export async function resolveIntegrationConfigFileEntry(
+    entry: IntegrationConfigFileEntry,
+    getSecret: (name: string) => Promise<string | undefined>
+): Promise<
+    { config: IntegrationConfig; missingSecrets?: undefined } | { config?: undefined; missingSecrets: string[] }
+> {
+    const fields: Record<string, unknown> = {};
+    const missingSecrets: string[] = [];
+
+    for (const [key, value] of Object.entries(entry.fields)) {
+        const secretName = getSecretName(value);
+
+        if (secretName === undefined) {
+            fields[key] = value;
+            continue;
+        }
+
+        const secret = await getSecret(secretName);
+
+        if (secret === undefined) {
+            missingSecrets.push(secretName);
+        } else {
+            fields[key] = secret;
+        }
+    }
+
+    if (missingSecrets.length > 0) {
+        return { missingSecrets };
+    }
+
+    return { config: fields as unknown as IntegrationConfig };
+}
+
+function getSecretName(value: unknown): string | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return undefined;
+    }
+
+    const { secret } = value as { secret?: unknown };
+
+    return typeof secret === 'string' && Object.keys(value).length === 1 ? secret : undefined;
+}
+
+/**
+ * Accepts both the integration types of the extension and the names of the types used by Deepnote projects
+ */
+function parseIntegrationType(type: unknown): IntegrationType | undefined {
+    if (typeof type !== 'string') {
+        return undefined;
+    }
+
+    if ((Object.values(IntegrationType) as string[]).includes(type)) {
+        return type as IntegrationType;
+    }
+
+    return Object.prototype.hasOwnProperty.call(DEEPNOTE_TO_INTEGRATION_TYPE, type)
+        ? DEEPNOTE_TO_INTEGRATION_TYPE[type as RawIntegrationType]
+        : undefined;
+}
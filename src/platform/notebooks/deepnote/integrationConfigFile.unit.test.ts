@@ -0,0 +1,92 @@
+import { assert } from 'chai';
+
+import {
+    getSecretReferences,
+    parseIntegrationConfigFile,
+    resolveIntegrationConfigFileEntry
+} from './integrationConfigFile';
+import { IntegrationType } from './integrationTypes';
+
+suite('integrationConfigFile', () => {
+    const content = [
+        'integrations:',
+        '  - id: warehouse',
+        '    name: Warehouse',
+        '    type: pgsql',
+        '    deepnoteProjectId: project-1',
+        '    host: db.example.com',
+        '    port: 5432',
+        '    password:',
+        '      secret: warehouse-password',
+        '  - id: lake',
+        '    type: bigquery',
+        '    projectId: gcp-project',
+        '    credentials: { secret: lake-credentials }',
+        '  - name: No id',
+        '    type: pgsql',
+        '  - id: unknown',
+        '    type: oracle'
+    ].join('\n');
+
+    suite('parseIntegrationConfigFile', () => {
+        test('reads the integrations and skips invalid ones', () => {
+            const file = parseIntegrationConfigFile(content);
+
+            assert.deepStrictEqual(file.entries, [
+                {
+                    deepnoteProjectId: 'project-1',
+                    fields: {
+                        id: 'warehouse',
+                        name: 'Warehouse',
+                        type: IntegrationType.Postgres,
+                        host: 'db.example.com',
+                        port: 5432,
+                        password: { secret: 'warehouse-password' }
+                    }
+                },
+                {
+                    deepnoteProjectId: undefined,
+                    fields: {
+                        id: 'lake',
+                        name: 'lake',
+                        type: IntegrationType.BigQuery,
+                        projectId: 'gcp-project',
+                        credentials: { secret: 'lake-credentials' }
+                    }
+                }
+            ]);
+            assert.deepStrictEqual(file.errors, [
+                'Integration 3 has no id',
+                "Integration unknown has an unknown type 'oracle'"
+            ]);
+        });
+
+        test('accepts empty files and rejects files without a list of integrations', () => {
+            assert.deepStrictEqual(parseIntegrationConfigFile(''), { entries: [], errors: [] });
+            assert.throws(
+                () => parseIntegrationConfigFile('integrations: warehouse'),
+                'must contain a list of integrations'
+            );
+        });
+    });
+
+    suite('resolveIntegrationConfigFileEntry', () => {
+        const [warehouse] = parseIntegrationConfigFile(content).entries;
+
+        test('replaces secret references with the values of the secrets', async () => {
+            const result = await resolveIntegrationConfigFileEntry(warehouse, async (name) => `value of ${name}`);
+
+            assert.deepStrictEqual(getSecretReferences(warehouse), ['warehouse-password']);
+            assert.deepInclude(result.config as object, {
+                host: 'db.example.com',
+                password: 'value of warehouse-password'
+            });
+        });
+
+        test('returns the secrets that are not set', async () => {
+            const result = await resolveIntegrationConfigFileEntry(warehouse, async () => undefined);
+
+            assert.deepStrictEqual(result, { missingSecrets: ['warehouse-password'] });
+        });
+    });
+});
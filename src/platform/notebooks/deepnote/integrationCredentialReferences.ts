@@ -0,0 +1,86 @@
+import { EnvironmentVariables } from '../../common/variables/types';
+import { IntegrationConfig } from './integrationTypes';
+
+/**
+ * Where the value of a credential reference comes from:
+ * - `env`: an environment variable of the extension host, referenced as `${env:NAME}`
+ * - `dotenv`: a key of the workspace `.env` file, referenced as `${dotenv:NAME}`
+ */
+export type CredentialReferenceSource = 'env' | 'dotenv';
+
+/**
+ * Reference from a field of an integration configuration to a value defined outside of the configuration
+ */
+export interface CredentialReference {
+    field: string;
+    source: CredentialReferenceSource;
+    name: string;
+}
+
+export interface ResolvedCredentialReference extends CredentialReference {
+    /** Whether the referenced variable is defined */
+    resolved: boolean;
+}
+
+export interface CredentialVariables {
+    env: EnvironmentVariables;
+    dotenv: EnvironmentVariables;
+}
+
+const CREDENTIAL_REFERENCE_PATTERN = /\$\{(env|dotenv):([A-Za-z_]\w*)\}/g;
+
+/**
+ * Finds the references to environment variables and `.env` keys in the string fields of a configuration
+ */
+export function findCredentialReferences(config: IntegrationConfig): CredentialReference[] {
+    const references: CredentialReference[] = [];
+
+    for (const [field, value] of Object.entries(config)) {
+        if (field === 'id' || field === 'type' || typeof value !== 'string') {
+            continue;
+        }
+
+        for (const match of value.matchAll(CREDENTIAL_REFERENCE_PATTERN)) {
+            references.push({ field, source: match[1] as CredentialReferenceSource, name: match[2] });
+        }
+    }
+
+    return references;
+}
+
+/**
+ * Formats a reference the way it is written in a configuration field, e.g. `${env:PG_PASSWORD}`
+ */
+export function formatCredentialReference(reference: CredentialReference): string {
+    return `\${${reference.source}:${reference.name}}`;
+}
+
+/**
+ * Replaces the credential references of a configuration by the values of the referenced variables.
+ * References to variables that are not defined are kept as they are.
+ */
+export function resolveCredentialReferences(
+    config: IntegrationConfig,
+    variables: CredentialVariables
+): { config: IntegrationConfig; references: ResolvedCredentialReference[] } {
+    const references = findCredentialReferences(config).map((reference) => ({
+        ...reference,
+        resolved: variables[reference.source][reference.name] !== undefined
+    }));
+
+    if (references.length === 0) {
+        return { config, references };
+    }
+
+    const fields = config as unknown as Record<string, string>;
+    const overrides: Record<string, string> = {};
+
+    for (const field of new Set(references.map((reference) => reference.field))) {
+        overrides[field] = fields[field].replace(
+            CREDENTIAL_REFERENCE_PATTERN,
+            (reference, source: CredentialReferenceSource, name: string) => variables[source][name] ?? reference
+        );
+    }
+
+    return { config: { ...config, ...overrides }, references };
+}
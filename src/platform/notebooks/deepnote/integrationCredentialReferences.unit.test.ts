@@ -0,0 +1,62 @@
+import { assert } from 'chai';
+
+import {
+    findCredentialReferences,
+    formatCredentialReference,
+    resolveCredentialReferences
+} from './integrationCredentialReferences';
+import { IntegrationType, PostgresIntegrationConfig } from './integrationTypes';
+
+suite('integrationCredentialReferences', () => {
+    const config: PostgresIntegrationConfig = {
+        id: 'warehouse',
+        name: 'Warehouse',
+        type: IntegrationType.Postgres,
+        host: '${env:PG_HOST}.example.com',
+        port: 5432,
+        database: 'analytics',
+        username: '${dotenv:PG_USER}',
+        password: '${dotenv:PG_PASSWORD}'
+    };
+
+    test('finds the references of the string fields', () => {
+        assert.deepStrictEqual(findCredentialReferences(config), [
+            { field: 'host', source: 'env', name: 'PG_HOST' },
+            { field: 'username', source: 'dotenv', name: 'PG_USER' },
+            { field: 'password', source: 'dotenv', name: 'PG_PASSWORD' }
+        ]);
+        assert.strictEqual(
+            formatCredentialReference({ field: 'password', source: 'dotenv', name: 'PG_PASSWORD' }),
+            '${dotenv:PG_PASSWORD}'
+        );
+    });
+
+    test('ignores values that are not references', () => {
+        const plain = { ...config, host: '$PG_HOST', username: '${PG_USER}', password: '${file:password.txt}' };
+
+        assert.deepStrictEqual(findCredentialReferences(plain), []);
+        assert.strictEqual(resolveCredentialReferences(plain, { env: {}, dotenv: {} }).config, plain);
+    });
+
+    test('replaces the references by the values of the variables', () => {
+        const result = resolveCredentialReferences(config, {
+            env: { PG_HOST: 'db', PG_USER: 'not used' },
+            dotenv: { PG_USER: 'analyst' }
+        });
+
+        assert.deepInclude(result.config as object, {
+            host: 'db.example.com',
+            username: 'analyst',
+            password: '${dotenv:PG_PASSWORD}'
+        });
+        assert.deepStrictEqual(
+            result.references.map(({ field, resolved }) => ({ field, resolved })),
+            [
+                { field: 'host', resolved: true },
+                { field: 'username', resolved: true },
+                { field: 'password', resolved: false }
+            ]
+        );
+        assert.strictEqual(config.host, '${env:PG_HOST}.example.com');
+    });
+});
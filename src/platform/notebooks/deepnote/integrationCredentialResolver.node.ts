@@ -0,0 +1,55 @@
+import { inject, injectable } from 'inversify';
+import { Event, EventEmitter } from 'vscode';
+
+import { IDisposableRegistry, Resource } from '../../common/types';
+import { EnvironmentVariables, ICustomEnvironmentVariablesProvider } from '../../common/variables/types';
+import {
+    findCredentialReferences,
+    resolveCredentialReferences,
+    ResolvedCredentialReference
+} from './integrationCredentialReferences';
+import { IntegrationConfig } from './integrationTypes';
+import { IIntegrationCredentialResolver } from './types';
+
+/**
+ * Resolves the credential references of integration configurations, from the environment of the extension host
+ * and the `.env` file of the workspace (or the file set by `python.envFile`)
+ */
+@injectable()
+export class IntegrationCredentialResolver implements IIntegrationCredentialResolver {
+    private readonly _onDidChangeCredentials = new EventEmitter<void>();
+
+    public readonly onDidChangeCredentials: Event<void> = this._onDidChangeCredentials.event;
+
+    constructor(
+        @inject(ICustomEnvironmentVariablesProvider)
+        private readonly customEnvironmentVariablesProvider: ICustomEnvironmentVariablesProvider,
+        @inject(IDisposableRegistry) disposables: IDisposableRegistry,
+        // Not injected: the container leaves it to its default, tests pass their own variables
+        private readonly processEnv: EnvironmentVariables = process.env
+    ) {
+        disposables.push(this._onDidChangeCredentials);
+        disposables.push(
+            this.customEnvironmentVariablesProvider.onDidEnvironmentVariablesChange(() =>
+                this._onDidChangeCredentials.fire()
+            )
+        );
+    }
+
+    public async resolve(
+        config: IntegrationConfig,
+        resource: Resource
+    ): Promise<{ config: IntegrationConfig; references: ResolvedCredentialReference[] }> {
+        if (!findCredentialReferences(config).some((reference) => reference.source === 'dotenv')) {
+            return resolveCredentialReferences(config, { env: this.processEnv, dotenv: {} });
+        }
+
+        // The .env file is read directly, the environment of the Python extension also contains the process variables
+        const dotenv = await this.customEnvironmentVariablesProvider.getCustomEnvironmentVariables(
+            resource,
+            'RunNonPythonCode'
+        );
+
+        return resolveCredentialReferences(config, { env: this.processEnv, dotenv: dotenv ?? {} });
+    }
+}
@@ -1,18 +1,40 @@
-import { inject, injectable } from 'inversify';
-import { EventEmitter } from 'vscode';
+import { inject, injectable, named } from 'inversify';
+import { Disposable, EventEmitter, Memento, Uri, workspace } from 'vscode';
 
 import { IEncryptedStorage } from '../../common/application/types';
-import { IAsyncDisposableRegistry } from '../../common/types';
+import { getDisplayPath } from '../../common/platform/fs-paths';
+import { IAsyncDisposableRegistry, IMemento, WORKSPACE_MEMENTO } from '../../common/types';
+import { generateUuid } from '../../common/uuid';
 import { logger } from '../../logging';
+import {
+    getSecretReferences,
+    INTEGRATION_CONFIG_FILE_NAME,
+    IntegrationConfigFileEntry,
+    parseIntegrationConfigFile,
+    resolveIntegrationConfigFileEntry
+} from './integrationConfigFile';
 import { IntegrationConfig, IntegrationType } from './integrationTypes';
 import { IIntegrationStorage } from './types';
 
 const INTEGRATION_SERVICE_NAME = 'deepnote-integrations';
 
+const INTEGRATION_SECRET_SERVICE_NAME = 'deepnote-integration-secrets';
+
+/**
+ * Key of the workspace state holding the ID that identifies the workspace in storage keys
+ */
+const WORKSPACE_ID_KEY = 'deepnote.integrations.workspaceId';
+
 /**
  * Storage service for integration configurations.
  * Uses VSCode's SecretStorage API to securely store credentials.
- * Storage is scoped to the user's machine and shared across all deepnote projects.
+ *
+ * Configurations are stored either for a project of the current workspace, or globally, shared by all
+ * projects on the user's machine. The `deepnote-integrations.yaml` file of a workspace folder can configure
+ * integrations too, with its secret fields referencing secrets stored by name.
+ *
+ * A project uses its own configuration of an integration, then the one of the integrations file for the
+ * project, then the one of the integrations file for all projects, and finally the global one.
  */
 @injectable()
 export class IntegrationStorage implements IIntegrationStorage {
@@ -20,48 +42,101 @@ export class IntegrationStorage implements IIntegrationStorage {
 
     private cacheLoaded = false;
 
+    private readonly projectCaches = new Map<string, Map<string, IntegrationConfig>>();
+
+    private projectIds: Set<string> | undefined;
+
+    private configFileEntries: Promise<IntegrationConfigFileEntry[]> | undefined;
+
+    private configFileListeners: Disposable[] | undefined;
+
     private readonly _onDidChangeIntegrations = new EventEmitter<void>();
 
     public readonly onDidChangeIntegrations = this._onDidChangeIntegrations.event;
 
     constructor(
         @inject(IEncryptedStorage) private readonly encryptedStorage: IEncryptedStorage,
-        @inject(IAsyncDisposableRegistry) asyncRegistry: IAsyncDisposableRegistry
+        @inject(IAsyncDisposableRegistry) asyncRegistry: IAsyncDisposableRegistry,
+        @inject(IMemento) @named(WORKSPACE_MEMENTO) private readonly workspaceState: Memento
     ) {
         // Register for disposal when the extension deactivates
         asyncRegistry.push(this);
     }
 
     /**
-     * Get all stored integration configurations
+     * Get all integration configurations available in the workspace.
+     * When several configurations have the same integration ID, only the first of the project
+     * configurations, the configurations of the integrations file and the global configurations is returned.
      */
     async getAll(): Promise<IntegrationConfig[]> {
+        const configs = new Map<string, IntegrationConfig>();
+        const add = (config: IntegrationConfig) => {
+            if (!configs.has(config.id)) {
+                configs.set(config.id, config);
+            }
+        };
+
+        for (const projectId of await this.getProjectIds()) {
+            (await this.getProjectCache(projectId)).forEach(add);
+        }
+
+        for (const entry of await this.getConfigFileEntries()) {
+            const config = await this.resolveConfigFileEntry(entry);
+
+            if (config) {
+                add(config);
+            }
+        }
+
         await this.ensureCacheLoaded();
-        return Array.from(this.cache.values());
+        this.cache.forEach(add);
+
+        return Array.from(configs.values());
     }
 
     /**
-     * Get a specific integration configuration by ID
+     * Get the configuration of an integration shared by all projects, from the integrations file
+     * of the workspace or the global configurations
      */
     async getIntegrationConfig(integrationId: string): Promise<IntegrationConfig | undefined> {
+        const entry = (await this.getConfigFileEntries()).find(
+            (candidate) => candidate.fields.id === integrationId && candidate.deepnoteProjectId === undefined
+        );
+
+        if (entry) {
+            return this.resolveConfigFileEntry(entry);
+        }
+
         await this.ensureCacheLoaded();
         return this.cache.get(integrationId);
     }
 
     /**
-     * Get integration configuration for a specific project and integration
-     * Note: Currently integrations are stored globally, not per-project,
-     * so this method ignores the projectId parameter
+     * Get the configuration of an integration used by a project of the workspace
      */
     async getProjectIntegrationConfig(
-        _projectId: string,
+        projectId: string,
         integrationId: string
     ): Promise<IntegrationConfig | undefined> {
+        const projectConfig = (await this.getProjectCache(projectId)).get(integrationId);
+
+        if (projectConfig) {
+            return projectConfig;
+        }
+
+        const entry = (await this.getConfigFileEntries()).find(
+            (candidate) => candidate.fields.id === integrationId && candidate.deepnoteProjectId === projectId
+        );
+
+        if (entry) {
+            return this.resolveConfigFileEntry(entry);
+        }
+
         return this.getIntegrationConfig(integrationId);
     }
 
     /**
-     * Get all integrations of a specific type
+     * Get all global integrations of a specific type
      */
     async getByType(type: IntegrationType): Promise<IntegrationConfig[]> {
         await this.ensureCacheLoaded();
@@ -69,7 +144,7 @@ export class IntegrationStorage implements IIntegrationStorage {
     }
 
     /**
-     * Save or update an integration configuration
+     * Save or update a global integration configuration
      */
     async save(config: IntegrationConfig): Promise<void> {
         await this.ensureCacheLoaded();
@@ -89,7 +164,25 @@ export class IntegrationStorage implements IIntegrationStorage {
     }
 
     /**
-     * Delete an integration configuration
+     * Save or update the configuration of an integration for a project of the workspace
+     */
+    async saveProjectIntegrationConfig(projectId: string, config: IntegrationConfig): Promise<void> {
+        const projectCache = await this.getProjectCache(projectId);
+        const projectKey = await this.getProjectKey(projectId);
+
+        await this.encryptedStorage.store(
+            INTEGRATION_SERVICE_NAME,
+            `${projectKey}:${config.id}`,
+            JSON.stringify(config)
+        );
+        projectCache.set(config.id, config);
+        await this.updateProjectIndex(projectId);
+
+        this._onDidChangeIntegrations.fire();
+    }
+
+    /**
+     * Delete a global integration configuration
      */
     async delete(integrationId: string): Promise<void> {
         await this.ensureCacheLoaded();
@@ -108,7 +201,32 @@ export class IntegrationStorage implements IIntegrationStorage {
     }
 
     /**
-     * Check if an integration exists
+     * Delete the configuration of an integration stored for a project of the workspace
+     *
+     * @returns Whether the project had a configuration of the integration
+     */
+    async deleteProjectIntegrationConfig(projectId: string, integrationId: string): Promise<boolean> {
+        const projectCache = await this.getProjectCache(projectId);
+
+        if (!projectCache.has(integrationId)) {
+            return false;
+        }
+
+        await this.encryptedStorage.store(
+            INTEGRATION_SERVICE_NAME,
+            `${await this.getProjectKey(projectId)}:${integrationId}`,
+            undefined
+        );
+        projectCache.delete(integrationId);
+        await this.updateProjectIndex(projectId);
+
+        this._onDidChangeIntegrations.fire();
+
+        return true;
+    }
+
+    /**
+     * Check if a global integration configuration exists
      */
     async exists(integrationId: string): Promise<boolean> {
         await this.ensureCacheLoaded();
@@ -116,7 +234,7 @@ export class IntegrationStorage implements IIntegrationStorage {
     }
 
     /**
-     * Clear all integration configurations
+     * Clear the global integration configurations and those of the projects of the workspace
      */
     async clear(): Promise<void> {
         await this.ensureCacheLoaded();
@@ -130,13 +248,55 @@ export class IntegrationStorage implements IIntegrationStorage {
         // Clear the index
         await this.encryptedStorage.store(INTEGRATION_SERVICE_NAME, 'index', undefined);
 
+        for (const projectId of await this.getProjectIds()) {
+            const projectKey = await this.getProjectKey(projectId);
+
+            for (const id of (await this.getProjectCache(projectId)).keys()) {
+                await this.encryptedStorage.store(INTEGRATION_SERVICE_NAME, `${projectKey}:${id}`, undefined);
+            }
+
+            await this.encryptedStorage.store(INTEGRATION_SERVICE_NAME, `${projectKey}:index`, undefined);
+        }
+
+        await this.encryptedStorage.store(
+            INTEGRATION_SERVICE_NAME,
+            `${await this.getWorkspaceKey()}:projects`,
+            undefined
+        );
+
         // Clear cache
         this.cache.clear();
+        this.projectCaches.clear();
+        this.projectIds = new Set();
 
         // Notify listeners
         this._onDidChangeIntegrations.fire();
     }
 
+    /**
+     * Get the names of the secrets referenced by the integrations file of the workspace, with whether they are set
+     */
+    async getReferencedSecrets(): Promise<{ name: string; isSet: boolean }[]> {
+        const names = new Set((await this.getConfigFileEntries()).flatMap(getSecretReferences));
+        const secrets: { name: string; isSet: boolean }[] = [];
+
+        for (const name of names) {
+            const value = await this.encryptedStorage.retrieve(INTEGRATION_SECRET_SERVICE_NAME, name);
+            secrets.push({ name, isSet: value !== undefined });
+        }
+
+        return secrets;
+    }
+
+    /**
+     * Store a secret referenced by the integrations file of the workspace, or delete it when the value is undefined
+     */
+    async storeSecret(name: string, value: string | undefined): Promise<void> {
+        await this.encryptedStorage.store(INTEGRATION_SECRET_SERVICE_NAME, name, value);
+
+        this._onDidChangeIntegrations.fire();
+    }
+
     /**
      * Ensure the cache is loaded from storage
      */
@@ -183,10 +343,192 @@ export class IntegrationStorage implements IIntegrationStorage {
         await this.encryptedStorage.store(INTEGRATION_SERVICE_NAME, 'index', indexJson);
     }
 
+    /**
+     * Get the IDs of the projects of the workspace that have integration configurations
+     */
+    private async getProjectIds(): Promise<Set<string>> {
+        if (!this.projectIds) {
+            const projectsJson = await this.encryptedStorage.retrieve(
+                INTEGRATION_SERVICE_NAME,
+                `${await this.getWorkspaceKey()}:projects`
+            );
+
+            this.projectIds = new Set(parseIdList(projectsJson, 'project index'));
+        }
+
+        return this.projectIds;
+    }
+
+    /**
+     * Get the integration configurations of a project of the workspace, loading them from storage once
+     */
+    private async getProjectCache(projectId: string): Promise<Map<string, IntegrationConfig>> {
+        let projectCache = this.projectCaches.get(projectId);
+
+        if (projectCache) {
+            return projectCache;
+        }
+
+        projectCache = new Map();
+
+        const projectKey = await this.getProjectKey(projectId);
+        const indexJson = await this.encryptedStorage.retrieve(INTEGRATION_SERVICE_NAME, `${projectKey}:index`);
+
+        for (const id of parseIdList(indexJson, `integration index of project ${projectId}`)) {
+            const configJson = await this.encryptedStorage.retrieve(INTEGRATION_SERVICE_NAME, `${projectKey}:${id}`);
+
+            if (configJson) {
+                try {
+                    projectCache.set(id, JSON.parse(configJson));
+                } catch (error) {
+                    logger.error(`Failed to parse integration config for ${id} of project ${projectId}:`, error);
+                }
+            }
+        }
+
+        this.projectCaches.set(projectId, projectCache);
+
+        return projectCache;
+    }
+
+    /**
+     * Update the index of the integration IDs of a project, and the index of the projects of the workspace
+     */
+    private async updateProjectIndex(projectId: string): Promise<void> {
+        const integrationIds = Array.from((await this.getProjectCache(projectId)).keys());
+        const projectIds = await this.getProjectIds();
+
+        await this.encryptedStorage.store(
+            INTEGRATION_SERVICE_NAME,
+            `${await this.getProjectKey(projectId)}:index`,
+            integrationIds.length > 0 ? JSON.stringify(integrationIds) : undefined
+        );
+
+        const hadProject = projectIds.has(projectId);
+
+        if (integrationIds.length > 0) {
+            projectIds.add(projectId);
+        } else {
+            projectIds.delete(projectId);
+        }
+
+        if (hadProject !== projectIds.has(projectId)) {
+            await this.encryptedStorage.store(
+                INTEGRATION_SERVICE_NAME,
+                `${await this.getWorkspaceKey()}:projects`,
+                projectIds.size > 0 ? JSON.stringify(Array.from(projectIds)) : undefined
+            );
+        }
+    }
+
+    /**
+     * Get the entries of the integrations files of the workspace folders, reading them once until they change
+     */
+    private getConfigFileEntries(): Promise<IntegrationConfigFileEntry[]> {
+        if (!this.configFileListeners) {
+            const reload = () => {
+                this.configFileEntries = undefined;
+                this._onDidChangeIntegrations.fire();
+            };
+            const watcher = workspace.createFileSystemWatcher(`**/${INTEGRATION_CONFIG_FILE_NAME}`);
+
+            this.configFileListeners = [
+                watcher,
+                watcher.onDidCreate(reload),
+                watcher.onDidChange(reload),
+                watcher.onDidDelete(reload),
+                workspace.onDidChangeWorkspaceFolders(reload)
+            ];
+        }
+
+        if (!this.configFileEntries) {
+            this.configFileEntries = this.readConfigFiles();
+        }
+
+        return this.configFileEntries;
+    }
+
+    private async readConfigFiles(): Promise<IntegrationConfigFileEntry[]> {
+        const entries: IntegrationConfigFileEntry[] = [];
+
+        for (const folder of workspace.workspaceFolders ?? []) {
+            const uri = Uri.joinPath(folder.uri, INTEGRATION_CONFIG_FILE_NAME);
+            let content: string;
+
+            try {
+                content = new TextDecoder().decode(await workspace.fs.readFile(uri));
+            } catch {
+                // The integrations file is optional
+                continue;
+            }
+
+            try {
+                const file = parseIntegrationConfigFile(content);
+
+                file.errors.forEach((error) => logger.warn(`IntegrationStorage: ${getDisplayPath(uri)}: ${error}`));
+                entries.push(...file.entries);
+            } catch (error) {
+                logger.error(`IntegrationStorage: Failed to parse ${getDisplayPath(uri)}`, error);
+            }
+        }
+
+        return entries;
+    }
+
+    private async resolveConfigFileEntry(entry: IntegrationConfigFileEntry): Promise<IntegrationConfig | undefined> {
+        const result = await resolveIntegrationConfigFileEntry(entry, (name) =>
+            this.encryptedStorage.retrieve(INTEGRATION_SECRET_SERVICE_NAME, name)
+        );
+
+        if (result.missingSecrets) {
+            logger.warn(
+                `IntegrationStorage: Integration ${
+                    entry.fields.id
+                } references secrets that are not set: ${result.missingSecrets.join(', ')}`
+            );
+        }
+
+        return result.config;
+    }
+
+    /**
+     * Identifies the current workspace in storage keys, so that projects opened in different workspaces
+     * have separate configurations. The ID is kept in the workspace state, which VS Code keeps per workspace,
+     * including multi-root ones, so it doesn't depend on the folders of the workspace.
+     */
+    private async getWorkspaceKey(): Promise<string> {
+        let workspaceId = this.workspaceState.get<string>(WORKSPACE_ID_KEY);
+
+        if (!workspaceId) {
+            workspaceId = generateUuid();
+            await this.workspaceState.update(WORKSPACE_ID_KEY, workspaceId);
+        }
+
+        return `workspace:${workspaceId}`;
+    }
+
+    private async getProjectKey(projectId: string): Promise<string> {
+        return `${await this.getWorkspaceKey()}:project:${projectId}`;
+    }
+
     /**
      * Dispose of resources to prevent memory leaks
      */
     public dispose(): void {
+        this.configFileListeners?.forEach((listener) => listener.dispose());
         this._onDidChangeIntegrations.dispose();
     }
 }
+
+function parseIdList(json: string | undefined, description: string): string[] {
+    if (!json) {
+        return [];
+    }
+
+    try {
+        return JSON.parse(json);
+    } catch (error) {
+        logger.error(`Failed to parse ${description}:`, error);
+        return [];
+    }
+}
@@ -0,0 +1,153 @@
+import { assert } from 'chai';
+import { anything, instance, mock, when } from 'ts-mockito';
+import { FileSystem, FileSystemWatcher, Memento, Uri, WorkspaceFolder } from 'vscode';
+
+import { IEncryptedStorage } from '../../common/application/types';
+import { IAsyncDisposableRegistry } from '../../common/types';
+import { MockMemento } from '../../../test/mocks/mementos';
+import { mockedVSCodeNamespaces, resetVSCodeMocks } from '../../../test/vscode-mock';
+import { IntegrationStorage } from './integrationStorage';
+import { IntegrationType, PostgresIntegrationConfig } from './integrationTypes';
+
+suite('IntegrationStorage', () => {
+    let storage: IntegrationStorage;
+    let secrets: Map<string, string>;
+    let configFile: string | undefined;
+    let workspaceState: Memento;
+
+    const folder: WorkspaceFolder = { uri: Uri.file('/workspace'), name: 'workspace', index: 0 };
+
+    function createConfig(password: string): PostgresIntegrationConfig {
+        return {
+            id: 'warehouse',
+            name: 'Warehouse',
+            type: IntegrationType.Postgres,
+            host: 'db.example.com',
+            port: 5432,
+            database: 'analytics',
+            username: 'analyst',
+            password
+        };
+    }
+
+    function createStorage(state = workspaceState): IntegrationStorage {
+        const encryptedStorage: IEncryptedStorage = {
+            store: async (service, key, value) => {
+                if (value === undefined) {
+                    secrets.delete(`${service}.${key}`);
+                } else {
+                    secrets.set(`${service}.${key}`, value);
+                }
+            },
+            retrieve: async (service, key) => secrets.get(`${service}.${key}`)
+        };
+
+        return new IntegrationStorage(encryptedStorage, instance(mock<IAsyncDisposableRegistry>()), state);
+    }
+
+    setup(() => {
+        resetVSCodeMocks();
+        secrets = new Map();
+        configFile = undefined;
+        workspaceState = new MockMemento();
+
+        const watcher = mock<FileSystemWatcher>();
+        const fs = mock<FileSystem>();
+
+        when(watcher.onDidCreate).thenReturn(() => ({ dispose: () => undefined }));
+        when(watcher.onDidChange).thenReturn(() => ({ dispose: () => undefined }));
+        when(watcher.onDidDelete).thenReturn(() => ({ dispose: () => undefined }));
+        when(mockedVSCodeNamespaces.workspace.createFileSystemWatcher(anything())).thenReturn(instance(watcher));
+        when(mockedVSCodeNamespaces.workspace.onDidChangeWorkspaceFolders).thenReturn(() => ({
+            dispose: () => undefined
+        }));
+        when(mockedVSCodeNamespaces.workspace.workspaceFolders).thenReturn([folder]);
+        when(mockedVSCodeNamespaces.workspace.fs).thenReturn(instance(fs));
+        when(fs.readFile(anything())).thenCall(async () => {
+            if (configFile === undefined) {
+                throw new Error('File not found');
+            }
+
+            return new TextEncoder().encode(configFile);
+        });
+
+        storage = createStorage();
+    });
+
+    teardown(() => storage.dispose());
+
+    test('uses the configuration of a project before the global one', async () => {
+        await storage.save(createConfig('global'));
+        await storage.saveProjectIntegrationConfig('staging', createConfig('staging'));
+        await storage.saveProjectIntegrationConfig('prod', createConfig('prod'));
+
+        const reloaded = createStorage();
+
+        assert.deepInclude(await reloaded.getProjectIntegrationConfig('staging', 'warehouse'), { password: 'staging' });
+        assert.deepInclude(await reloaded.getProjectIntegrationConfig('prod', 'warehouse'), { password: 'prod' });
+        assert.deepInclude(await reloaded.getProjectIntegrationConfig('other', 'warehouse'), { password: 'global' });
+        assert.deepInclude(await reloaded.getIntegrationConfig('warehouse'), { password: 'global' });
+    });
+
+    test('separates the configurations of the projects of different workspaces', async () => {
+        await storage.saveProjectIntegrationConfig('staging', createConfig('staging'));
+
+        assert.isUndefined(await createStorage(new MockMemento()).getProjectIntegrationConfig('staging', 'warehouse'));
+    });
+
+    test('falls back to the global configuration once the project configuration is deleted', async () => {
+        await storage.save(createConfig('global'));
+        await storage.saveProjectIntegrationConfig('staging', createConfig('staging'));
+
+        assert.isTrue(await storage.deleteProjectIntegrationConfig('staging', 'warehouse'));
+        assert.isFalse(await storage.deleteProjectIntegrationConfig('staging', 'warehouse'));
+        assert.deepInclude(await storage.getProjectIntegrationConfig('staging', 'warehouse'), { password: 'global' });
+    });
+
+    test('resolves the secrets referenced by the integrations file', async () => {
+        configFile = [
+            'integrations:',
+            '  - id: warehouse',
+            '    type: pgsql',
+            '    host: db.example.com',
+            '    password: { secret: warehouse-password }',
+            '  - id: warehouse',
+            '    type: pgsql',
+            '    deepnoteProjectId: prod',
+            '    host: prod.example.com',
+            '    password: { secret: prod-password }'
+        ].join('\n');
+        await storage.save(createConfig('global'));
+
+        assert.isUndefined(await storage.getIntegrationConfig('warehouse'));
+        assert.deepStrictEqual(await storage.getReferencedSecrets(), [
+            { name: 'warehouse-password', isSet: false },
+            { name: 'prod-password', isSet: false }
+        ]);
+
+        await storage.storeSecret('warehouse-password', 'secret');
+        await storage.storeSecret('prod-password', 'prod secret');
+
+        assert.deepInclude(await storage.getIntegrationConfig('warehouse'), { password: 'secret' });
+        assert.deepInclude(await storage.getProjectIntegrationConfig('prod', 'warehouse'), {
+            host: 'prod.example.com',
+            password: 'prod secret'
+        });
+    });
+
+    test('lists each integration once, preferring project configurations', async () => {
+        await storage.save(createConfig('global'));
+        await storage.save({ ...createConfig('global'), id: 'lake', name: 'Lake' });
+        await storage.saveProjectIntegrationConfig('staging', createConfig('staging'));
+
+        const configs = await storage.getAll();
+
+        assert.deepStrictEqual(
+            configs.map((config) => [config.id, (config as PostgresIntegrationConfig).password]),
+            [
+                ['warehouse', 'staging'],
+                ['lake', 'global']
+            ]
+        );
+    });
+});
@@ -4,13 +4,38 @@
  */
 export const DATAFRAME_SQL_INTEGRATION_ID = 'deepnote-dataframe-sql';
 
+/**
+ * Connection details of the internal DuckDB integration, which queries DataFrames in memory.
+ */
+export const DATAFRAME_SQL_INTEGRATION_CONNECTION_JSON = JSON.stringify({
+    url: 'deepnote+duckdb:///:memory:',
+    params: {},
+    param_style: 'qmark'
+});
+
+/**
+ * Name of the environment variable with the connection details of an integration, as read by SQL blocks.
+ * Example: 'my-postgres-db' -> 'SQL_MY_POSTGRES_DB'
+ */
+export function getSqlIntegrationEnvVarName(integrationId: string): string {
+    const name = `SQL_${integrationId}`;
+
+    return (/^\d/.test(name) ? `_${name}` : name).toUpperCase().replace(/[^\w]/g, '_');
+}
+
 /**
  * Supported integration types
  */
 export enum IntegrationType {
     Postgres = 'postgres',
     BigQuery = 'bigquery',
-    Snowflake = 'snowflake'
+    Snowflake = 'snowflake',
+    MySql = 'mysql',
+    MariaDb = 'mariadb',
+    SqlServer = 'sqlserver',
+    Redshift = 'redshift',
+    ClickHouse = 'clickhouse',
+    Trino = 'trino'
 }
 
 /**
@@ -19,7 +44,13 @@ export enum IntegrationType {
 export const INTEGRATION_TYPE_TO_DEEPNOTE = {
     [IntegrationType.Postgres]: 'pgsql',
     [IntegrationType.BigQuery]: 'big-query',
-    [IntegrationType.Snowflake]: 'snowflake'
+    [IntegrationType.Snowflake]: 'snowflake',
+    [IntegrationType.MySql]: 'mysql',
+    [IntegrationType.MariaDb]: 'mariadb',
+    [IntegrationType.SqlServer]: 'sql-server',
+    [IntegrationType.Redshift]: 'redshift',
+    [IntegrationType.ClickHouse]: 'clickhouse',
+    [IntegrationType.Trino]: 'trino'
 } as const satisfies { [type in IntegrationType]: string };
 
 export type RawIntegrationType = (typeof INTEGRATION_TYPE_TO_DEEPNOTE)[keyof typeof INTEGRATION_TYPE_TO_DEEPNOTE];
@@ -30,7 +61,13 @@ export type RawIntegrationType = (typeof INTEGRATION_TYPE_TO_DEEPNOTE)[keyof typ
 export const DEEPNOTE_TO_INTEGRATION_TYPE: Record<RawIntegrationType, IntegrationType> = {
     pgsql: IntegrationType.Postgres,
     'big-query': IntegrationType.BigQuery,
-    snowflake: IntegrationType.Snowflake
+    snowflake: IntegrationType.Snowflake,
+    mysql: IntegrationType.MySql,
+    mariadb: IntegrationType.MariaDb,
+    'sql-server': IntegrationType.SqlServer,
+    redshift: IntegrationType.Redshift,
+    clickhouse: IntegrationType.ClickHouse,
+    trino: IntegrationType.Trino
 };
 
 /**
@@ -69,12 +106,16 @@ import {
     type SnowflakeAuthMethod,
     SnowflakeAuthMethods,
     SUPPORTED_SNOWFLAKE_AUTH_METHODS,
+    SNOWFLAKE_OAUTH_AUTH_METHODS,
+    SNOWFLAKE_OAUTH_REDIRECT_URI,
     isSupportedSnowflakeAuthMethod
 } from './snowflakeAuthConstants';
 export {
     type SnowflakeAuthMethod,
     SnowflakeAuthMethods,
     SUPPORTED_SNOWFLAKE_AUTH_METHODS,
+    SNOWFLAKE_OAUTH_AUTH_METHODS,
+    SNOWFLAKE_OAUTH_REDIRECT_URI,
     isSupportedSnowflakeAuthMethod
 };
 
@@ -100,26 +141,125 @@ export type SnowflakeIntegrationConfig = BaseSnowflakeConfig &
               password: string;
           }
         | {
-              authMethod: typeof SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR;
+              // Key-pair of a service account, or of the user (KEY_PAIR)
+              authMethod: typeof SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR | typeof SnowflakeAuthMethods.KEY_PAIR;
               username: string;
               privateKey: string;
               privateKeyPassphrase?: string;
           }
         | {
-              // Unsupported auth methods - we store them but don't allow editing
-              authMethod:
-                  | typeof SnowflakeAuthMethods.OKTA
-                  | typeof SnowflakeAuthMethods.NATIVE_SNOWFLAKE
-                  | typeof SnowflakeAuthMethods.AZURE_AD
-                  | typeof SnowflakeAuthMethods.KEY_PAIR;
-              [key: string]: unknown; // Allow any additional fields for unsupported methods
+              // Single sign-on in the browser, with the identity provider of the Snowflake account
+              authMethod: typeof SnowflakeAuthMethods.EXTERNAL_BROWSER;
+              username: string;
           }
+        | (SnowflakeOAuthClient & {
+              // OAuth with Snowflake as the authorization server
+              authMethod: typeof SnowflakeAuthMethods.NATIVE_SNOWFLAKE;
+          })
+        | (SnowflakeOAuthClient & {
+              // External OAuth with Okta
+              authMethod: typeof SnowflakeAuthMethods.OKTA;
+              /** Subdomain of the Okta organization, e.g. `acme` for acme.okta.com */
+              oktaSubdomain: string;
+              /** ID of the Okta authorization server, `default` when not set */
+              authorizationServer?: string;
+          })
+        | (SnowflakeOAuthClient & {
+              // External OAuth with Azure AD
+              authMethod: typeof SnowflakeAuthMethods.AZURE_AD;
+              /** ID of the Azure AD tenant */
+              tenant: string;
+              /** Application ID URI of the Snowflake resource application */
+              resource: string;
+          })
     );
 
+/**
+ * OAuth client registered for Snowflake with the authorization server
+ */
+interface SnowflakeOAuthClient {
+    clientId: string;
+    clientSecret: string;
+}
+
+/**
+ * Base configuration of integrations connecting to a database server with a username and password
+ */
+interface BaseServerIntegrationConfig extends BaseIntegrationConfig {
+    host: string;
+    port: number;
+    username: string;
+    password: string;
+    ssl?: boolean;
+}
+
+/**
+ * MySQL and MariaDB integration configuration
+ */
+export interface MySqlIntegrationConfig extends BaseServerIntegrationConfig {
+    type: IntegrationType.MySql | IntegrationType.MariaDb;
+    database: string;
+}
+
+/**
+ * Microsoft SQL Server integration configuration
+ */
+export interface SqlServerIntegrationConfig extends BaseServerIntegrationConfig {
+    type: IntegrationType.SqlServer;
+    database: string;
+}
+
+/**
+ * Amazon Redshift integration configuration
+ */
+export interface RedshiftIntegrationConfig extends BaseServerIntegrationConfig {
+    type: IntegrationType.Redshift;
+    database: string;
+}
+
+/**
+ * ClickHouse integration configuration (HTTP interface)
+ */
+export interface ClickHouseIntegrationConfig extends BaseServerIntegrationConfig {
+    type: IntegrationType.ClickHouse;
+    database: string;
+}
+
+/**
+ * Trino integration configuration. The password is optional, Trino only accepts it over HTTPS.
+ */
+export interface TrinoIntegrationConfig extends Omit<BaseServerIntegrationConfig, 'password'> {
+    type: IntegrationType.Trino;
+    password?: string;
+    catalog: string;
+    schema?: string;
+}
+
 /**
  * Union type of all integration configurations
  */
-export type IntegrationConfig = PostgresIntegrationConfig | BigQueryIntegrationConfig | SnowflakeIntegrationConfig;
+export type IntegrationConfig =
+    | PostgresIntegrationConfig
+    | BigQueryIntegrationConfig
+    | SnowflakeIntegrationConfig
+    | MySqlIntegrationConfig
+    | SqlServerIntegrationConfig
+    | RedshiftIntegrationConfig
+    | ClickHouseIntegrationConfig
+    | TrinoIntegrationConfig;
+
+/**
+ * Whether connecting with the integration signs the user in through the browser (external browser SSO or OAuth).
+ * Only SQL blocks may start such a sign-in: its callback server listens on a fixed port, and a browser window
+ * opened by a background task, such as reading the schema, would come out of nowhere.
+ */
+export function requiresBrowserSignIn(config: IntegrationConfig): boolean {
+    return (
+        config.type === IntegrationType.Snowflake &&
+        (config.authMethod === SnowflakeAuthMethods.EXTERNAL_BROWSER ||
+            (SNOWFLAKE_OAUTH_AUTH_METHODS as readonly unknown[]).includes(config.authMethod))
+    );
+}
 
 /**
  * Integration connection status
@@ -130,6 +270,27 @@ export enum IntegrationStatus {
     Error = 'error'
 }
 
+/**
+ * Kind of failure reported by an integration connection test
+ */
+export enum IntegrationConnectionFailure {
+    Auth = 'auth',
+    Network = 'network',
+    Ssl = 'ssl',
+    Driver = 'driver',
+    Environment = 'environment',
+    Unknown = 'unknown'
+}
+
+/**
+ * Result of testing the connection of an integration
+ */
+export interface IntegrationConnectionTestResult {
+    success: boolean;
+    failure?: IntegrationConnectionFailure;
+    message?: string;
+}
+
 /**
  * Integration with its current status
  */
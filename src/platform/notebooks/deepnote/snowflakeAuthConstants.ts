@@ -7,7 +7,8 @@ export const SnowflakeAuthMethods = {
     NATIVE_SNOWFLAKE: 'NATIVE_SNOWFLAKE',
     AZURE_AD: 'AZURE_AD',
     KEY_PAIR: 'KEY_PAIR',
-    SERVICE_ACCOUNT_KEY_PAIR: 'SERVICE_ACCOUNT_KEY_PAIR'
+    SERVICE_ACCOUNT_KEY_PAIR: 'SERVICE_ACCOUNT_KEY_PAIR',
+    EXTERNAL_BROWSER: 'EXTERNAL_BROWSER'
 } as const;
 
 export type SnowflakeAuthMethod = (typeof SnowflakeAuthMethods)[keyof typeof SnowflakeAuthMethods];
@@ -18,9 +19,29 @@ export type SnowflakeAuthMethod = (typeof SnowflakeAuthMethods)[keyof typeof Sno
 export const SUPPORTED_SNOWFLAKE_AUTH_METHODS = [
     null, // Legacy username+password (no authMethod field)
     SnowflakeAuthMethods.PASSWORD,
-    SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR
+    SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR,
+    SnowflakeAuthMethods.KEY_PAIR,
+    SnowflakeAuthMethods.EXTERNAL_BROWSER,
+    SnowflakeAuthMethods.NATIVE_SNOWFLAKE,
+    SnowflakeAuthMethods.OKTA,
+    SnowflakeAuthMethods.AZURE_AD
 ] as const;
 
+/**
+ * Auth methods signing in with OAuth in the browser, the Snowflake connector of the kernel runs the
+ * authorization code flow and refreshes the tokens
+ */
+export const SNOWFLAKE_OAUTH_AUTH_METHODS = [
+    SnowflakeAuthMethods.NATIVE_SNOWFLAKE,
+    SnowflakeAuthMethods.OKTA,
+    SnowflakeAuthMethods.AZURE_AD
+] as const;
+
+/**
+ * Redirect URI of the OAuth authorization code flow, it must be allowed by the OAuth client of the integration
+ */
+export const SNOWFLAKE_OAUTH_REDIRECT_URI = 'http://127.0.0.1:8765/snowflake/oauth/callback';
+
 export type SupportedSnowflakeAuthMethod = (typeof SUPPORTED_SNOWFLAKE_AUTH_METHODS)[number];
 
 /**
@@ -0,0 +1,29 @@
+/**
+ * Name of the kernel function that runs the queries of SQL blocks, defined by the SQL integration startup code.
+ * It adds the tag of the block to the query as a comment, and reports queries cancelled in the database.
+ */
+export const SQL_EXECUTE_FUNCTION_NAME = '_deepnote_execute_sql';
+
+const TOOLKIT_EXECUTE_SQL_CALL = '_dntk.execute_sql(';
+
+/**
+ * Calls the toolkit directly when the kernel didn't run the startup code defining `_deepnote_execute_sql`
+ */
+const SQL_EXECUTE_FUNCTION = `(globals().get("${SQL_EXECUTE_FUNCTION_NAME}") or (lambda _tag, *args, **kwargs: _dntk.execute_sql(*args, **kwargs)))`;
+
+/**
+ * Returns the tag of the queries of a SQL block, which finds them among the running queries of the database
+ */
+export function getSqlQueryTag(blockId: string): string {
+    return `deepnote-block:${blockId}`;
+}
+
+/**
+ * Makes the code generated for a SQL block run its query through `_deepnote_execute_sql`, with the tag of the block
+ */
+export function tagSqlBlockCode(code: string, blockId: string): string {
+    return code.replace(
+        TOOLKIT_EXECUTE_SQL_CALL,
+        `${SQL_EXECUTE_FUNCTION}(${JSON.stringify(getSqlQueryTag(blockId))}, `
+    );
+}
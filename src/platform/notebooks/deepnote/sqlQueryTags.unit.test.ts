@@ -0,0 +1,35 @@
+import { assert } from 'chai';
+
+import { getSqlQueryTag, tagSqlBlockCode } from './sqlQueryTags';
+
+suite('SQL query tags', () => {
+    test('tags the query of a SQL block with its block ID', () => {
+        assert.strictEqual(getSqlQueryTag('0a1b2c'), 'deepnote-block:0a1b2c');
+    });
+
+    test('runs the query of a SQL block through the kernel function that adds its tag', () => {
+        const code = [
+            'df = _dntk.execute_sql(',
+            "  'SELECT 1',",
+            "  'SQL_WAREHOUSE',",
+            "  audit_sql_comment='',",
+            "  sql_cache_mode='cache_disabled',",
+            "  return_variable_type='dataframe'",
+            ')',
+            'df'
+        ].join('\n');
+
+        assert.strictEqual(
+            tagSqlBlockCode(code, '0a1b2c'),
+            code.replace(
+                '_dntk.execute_sql(',
+                '(globals().get("_deepnote_execute_sql") or (lambda _tag, *args, **kwargs: _dntk.execute_sql(*args, **kwargs)))' +
+                    '("deepnote-block:0a1b2c", '
+            )
+        );
+    });
+
+    test('leaves code without a query alone', () => {
+        assert.strictEqual(tagSqlBlockCode('print(1)', '0a1b2c'), 'print(1)');
+    });
+});
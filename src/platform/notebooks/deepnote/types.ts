@@ -1,6 +1,8 @@
 import { CancellationToken, Event } from 'vscode';
 import { IDisposable, Resource } from '../../common/types';
+import type { ChartModel, ChartValidationIssue, DataframeInfo } from '../../deepnote/chartSpec';
 import { EnvironmentVariables } from '../../common/variables/types';
+import { ResolvedCredentialReference } from './integrationCredentialReferences';
 import { IntegrationConfig } from './integrationTypes';
 
 /**
@@ -23,6 +25,19 @@ export type SelectInputWebviewMessage =
     | { type: 'locInit'; locStrings: Record<string, string> }
     | { type: 'cancel' };
 
+/**
+ * Message types for the chart editor webview of visualization blocks. `dataframes` is undefined when the
+ * DataFrames of the kernel are not known, e.g. because it is not running.
+ */
+export type ChartEditorWebviewMessage =
+    | { type: 'init'; chart: ChartModel; isSupportedSpec: boolean; isLoadingDataframes: boolean }
+    | { type: 'dataframes'; dataframes: DataframeInfo[] | undefined }
+    | { type: 'validation'; issues: ChartValidationIssue[] }
+    | { type: 'locInit'; locStrings: Record<string, string> }
+    | { type: 'refreshDataframes' }
+    | { type: 'save'; chart: ChartModel }
+    | { type: 'cancel' };
+
 export const IIntegrationStorage = Symbol('IIntegrationStorage');
 export interface IIntegrationStorage extends IDisposable {
     /**
@@ -30,35 +45,82 @@ export interface IIntegrationStorage extends IDisposable {
      */
     readonly onDidChangeIntegrations: Event<void>;
 
+    /**
+     * Retrieves all integration configurations available in the workspace: those of its projects,
+     * those of the `deepnote-integrations.yaml` file and the global ones. Only the first configuration
+     * of each integration ID is returned, in that order.
+     */
     getAll(): Promise<IntegrationConfig[]>;
 
     /**
-     * Retrieves the global (non-project-scoped) integration configuration by integration ID.
+     * Retrieves the integration configuration shared by all projects by integration ID.
      *
-     * This method returns integration configurations that are stored globally and shared
-     * across all projects. These configurations are stored in VSCode's SecretStorage and
-     * are scoped to the user's machine.
+     * This is the configuration of the `deepnote-integrations.yaml` file of the workspace that isn't
+     * limited to a project, or else the global configuration stored in VSCode's SecretStorage, which is
+     * scoped to the user's machine.
      *
-     * This differs from `getProjectIntegrationConfig()` which returns project-scoped
-     * configurations that are specific to a particular Deepnote project and stored
-     * within the project's YAML file.
+     * This differs from `getProjectIntegrationConfig()` which prefers configurations specific to
+     * a particular Deepnote project of the workspace.
      *
      * @param integrationId - The unique identifier of the integration to retrieve
      * @returns A Promise that resolves to:
-     *          - The `IntegrationConfig` object if a global configuration exists for the given ID
-     *          - `undefined` if no global configuration exists for the given integration ID
+     *          - The `IntegrationConfig` object if a shared configuration exists for the given ID
+     *          - `undefined` if no shared configuration exists, or it references secrets that are not set
      */
     getIntegrationConfig(integrationId: string): Promise<IntegrationConfig | undefined>;
 
     /**
-     * Get integration configuration for a specific project and integration
+     * Retrieves the integration configuration used by a project of the workspace: the configuration stored
+     * for the project, then the one of the `deepnote-integrations.yaml` file for the project, and finally
+     * the shared configuration returned by `getIntegrationConfig()`.
      */
     getProjectIntegrationConfig(projectId: string, integrationId: string): Promise<IntegrationConfig | undefined>;
 
+    /**
+     * Stores the configuration of an integration for a project of the workspace, so that other projects
+     * can use different credentials for the same integration ID.
+     */
+    saveProjectIntegrationConfig(projectId: string, config: IntegrationConfig): Promise<void>;
+
+    /**
+     * Deletes the configuration of an integration stored for a project of the workspace.
+     *
+     * @returns Whether the project had a configuration of the integration
+     */
+    deleteProjectIntegrationConfig(projectId: string, integrationId: string): Promise<boolean>;
+
     save(config: IntegrationConfig): Promise<void>;
     delete(integrationId: string): Promise<void>;
     exists(integrationId: string): Promise<boolean>;
     clear(): Promise<void>;
+
+    /**
+     * Retrieves the names of the secrets referenced by the `deepnote-integrations.yaml` file of the workspace.
+     */
+    getReferencedSecrets(): Promise<{ name: string; isSet: boolean }[]>;
+
+    /**
+     * Stores a secret referenced by name from the `deepnote-integrations.yaml` file, or deletes it.
+     */
+    storeSecret(name: string, value: string | undefined): Promise<void>;
+}
+
+export const IIntegrationCredentialResolver = Symbol('IIntegrationCredentialResolver');
+export interface IIntegrationCredentialResolver {
+    /**
+     * Event fired when the workspace `.env` file changes
+     */
+    readonly onDidChangeCredentials: Event<void>;
+
+    /**
+     * Replaces the `${env:NAME}` and `${dotenv:NAME}` references in the fields of an integration configuration
+     * by the values of the environment variables of the extension host and of the keys of the `.env` file
+     * of the resource's workspace folder.
+     */
+    resolve(
+        config: IntegrationConfig,
+        resource: Resource
+    ): Promise<{ config: IntegrationConfig; references: ResolvedCredentialReference[] }>;
 }
 
 export const ISqlIntegrationEnvVarsProvider = Symbol('ISqlIntegrationEnvVarsProvider');
@@ -260,12 +260,40 @@ export abstract class WebviewHost<IMapping> implements IDisposable {
             selectedImageLabel: localize.WebViews.selectedImageLabel,
             dvDeprecationWarning: localize.WebViews.dvDeprecationWarning,
             dataframeRowsColumns: localize.WebViews.dataframeRowsColumns,
-            dataframePerPage: localize.WebViews.dataframePerPage,
-            dataframePreviousPage: localize.WebViews.dataframePreviousPage,
-            dataframeNextPage: localize.WebViews.dataframeNextPage,
-            dataframePageOf: localize.WebViews.dataframePageOf,
+            dataframeLoadingRows: localize.WebViews.dataframeLoadingRows,
+            dataframeRowsFromOutput: localize.WebViews.dataframeRowsFromOutput,
+            dataframeRowsError: localize.WebViews.dataframeRowsError,
             dataframeCopyTable: localize.WebViews.dataframeCopyTable,
-            dataframeExportTable: localize.WebViews.dataframeExportTable
+            dataframeExportTable: localize.WebViews.dataframeExportTable,
+            dataframeSortAscending: localize.WebViews.dataframeSortAscending,
+            dataframeSortDescending: localize.WebViews.dataframeSortDescending,
+            dataframeClearSort: localize.WebViews.dataframeClearSort,
+            dataframeFilterColumn: localize.WebViews.dataframeFilterColumn,
+            dataframeFilterValue: localize.WebViews.dataframeFilterValue,
+            dataframeFilterValuesHint: localize.WebViews.dataframeFilterValuesHint,
+            dataframeFilterApply: localize.WebViews.dataframeFilterApply,
+            dataframeFilterClear: localize.WebViews.dataframeFilterClear,
+            dataframeDistinctValues: localize.WebViews.dataframeDistinctValues,
+            dataframeValueRange: localize.WebViews.dataframeValueRange,
+            dataframeMissingValues: localize.WebViews.dataframeMissingValues,
+            dataframeFilterIsEqual: localize.WebViews.dataframeFilterIsEqual,
+            dataframeFilterIsNotEqual: localize.WebViews.dataframeFilterIsNotEqual,
+            dataframeFilterIsOneOf: localize.WebViews.dataframeFilterIsOneOf,
+            dataframeFilterIsNotOneOf: localize.WebViews.dataframeFilterIsNotOneOf,
+            dataframeFilterIsNotNull: localize.WebViews.dataframeFilterIsNotNull,
+            dataframeFilterIsNull: localize.WebViews.dataframeFilterIsNull,
+            dataframeFilterTextContains: localize.WebViews.dataframeFilterTextContains,
+            dataframeFilterTextDoesNotContain: localize.WebViews.dataframeFilterTextDoesNotContain,
+            dataframeFilterGreaterThan: localize.WebViews.dataframeFilterGreaterThan,
+            dataframeFilterGreaterThanOrEqual: localize.WebViews.dataframeFilterGreaterThanOrEqual,
+            dataframeFilterLessThan: localize.WebViews.dataframeFilterLessThan,
+            dataframeFilterLessThanOrEqual: localize.WebViews.dataframeFilterLessThanOrEqual,
+            dataframeFilterBetween: localize.WebViews.dataframeFilterBetween,
+            dataframeFilterOutsideOf: localize.WebViews.dataframeFilterOutsideOf,
+            dataframeFilterIsRelativeToday: localize.WebViews.dataframeFilterIsRelativeToday,
+            dataframeFilterIsAfter: localize.WebViews.dataframeFilterIsAfter,
+            dataframeFilterIsBefore: localize.WebViews.dataframeFilterIsBefore,
+            dataframeFilterIsOn: localize.WebViews.dataframeFilterIsOn
         };
         this.postMessageInternal(SharedMessages.LocInit, JSON.stringify(locStrings)).catch(noop);
     }
@@ -1398,12 +1398,12 @@ export namespace vscMockExtHostedTypes {
         }
     }
 
-    export class CompletionList {
+    export class CompletionList<T extends vscode.CompletionItem = vscode.CompletionItem> {
         isIncomplete?: boolean;
 
-        items: vscode.CompletionItem[];
+        items: T[];
 
-        constructor(items: vscode.CompletionItem[] = [], isIncomplete: boolean = false) {
+        constructor(items: T[] = [], isIncomplete: boolean = false) {
             this.items = items;
             this.isIncomplete = isIncomplete;
         }
@@ -2570,4 +2570,14 @@ export namespace vscMockExtHostedTypes {
             this.executionSummary = executionSummary;
         }
     }
+
+    /**
+     * The tab represents a notebook.
+     */
+    export class TabInputNotebook {
+        constructor(
+            readonly uri: vscode.Uri,
+            readonly notebookType: string
+        ) {}
+    }
 }
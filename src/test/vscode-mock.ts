@@ -151,6 +151,7 @@ mockedVSCode.Selection = vscodeMocks.vscMockExtHostedTypes.Selection;
 mockedVSCode.Location = vscodeMocks.vscMockExtHostedTypes.Location;
 mockedVSCode.SymbolInformation = vscodeMocks.vscMockExtHostedTypes.SymbolInformation;
 mockedVSCode.CompletionItem = vscodeMocks.vscMockExtHostedTypes.CompletionItem;
+mockedVSCode.CompletionList = vscodeMocks.vscMockExtHostedTypes.CompletionList;
 mockedVSCode.CompletionItemKind = vscodeMocks.vscMockExtHostedTypes.CompletionItemKind;
 mockedVSCode.CodeLens = vscodeMocks.vscMockExtHostedTypes.CodeLens;
 mockedVSCode.Diagnostic = vscodeMocks.vscMockExtHostedTypes.Diagnostic;
@@ -187,6 +188,7 @@ mockedVSCode.NotebookRendererScript = vscodeMocks.vscMockExtHostedTypes.Notebook
 mockedVSCode.NotebookEdit = vscodeMocks.vscMockExtHostedTypes.NotebookEdit;
 mockedVSCode.NotebookRange = vscodeMocks.vscMockExtHostedTypes.NotebookRange;
 mockedVSCode.QuickPickItemKind = vscodeMocks.vscMockExtHostedTypes.QuickPickItemKind;
+mockedVSCode.TabInputNotebook = vscodeMocks.vscMockExtHostedTypes.TabInputNotebook;
 (mockedVSCode as any).LogLevel = vscodeMocks.vscMockExtHostedTypes.LogLevel;
 (mockedVSCode.NotebookCellData as any) = vscodeMocks.vscMockExtHostedTypes.NotebookCellData;
 (mockedVSCode as any).NotebookCellKind = vscodeMocks.vscMockExtHostedTypes.NotebookCellKind;
@@ -1,44 +1,70 @@
-import { injectable } from 'inversify';
+import { inject, injectable } from 'inversify';
 import {
     commands,
     env,
     l10n,
     NotebookEdit,
+    type NotebookCell,
     type NotebookCellOutput,
     type NotebookEditor,
     type NotebookRendererMessaging,
     notebooks,
+    ProgressLocation,
     Uri,
     window,
     workspace,
     WorkspaceEdit
 } from 'vscode';
 
+import { type IKernel, IKernelProvider, isLocalConnection } from '../../../kernels/types';
 import type { IExtensionSyncActivationService } from '../../../platform/activation/types';
-import type { IDisposable } from '../../../platform/common/types';
+import { getDisplayPath, getFilePath } from '../../../platform/common/platform/fs-paths';
+import { IFileSystem } from '../../../platform/common/platform/types';
+import { type IDisposable, IExtensionContext } from '../../../platform/common/types';
+import type { DataframeFilter } from '../../../platform/deepnote/dataframeFilters';
 import { dispose } from '../../../platform/common/utils/lifecycle';
 import { logger } from '../../../platform/logging';
+import { basename, joinPath } from '../../../platform/vscode-path/resources';
+import {
+    buildDataframeExportCode,
+    DATAFRAME_EXPORT_FORMATS,
+    formatFileSize,
+    parseDataframeExportOutputs
+} from './dataframeExport';
+import { buildDataframeRowsCode, type DataframeRowsResult, parseDataframeRowsOutputs } from './dataframeRows';
+
+const EXPORT_PROGRESS_INTERVAL_MS = 1000;
 
-type SelectPageSizeCommand = {
+type CopyTableCommand = {
     cellId?: string;
-    command: 'selectPageSize';
-    size: number;
+    command: 'copyTable';
 };
 
-type GoToPageCommand = {
+type ExportTableCommand = {
     cellId?: string;
-    command: 'goToPage';
-    page: number;
+    command: 'exportTable';
 };
 
-type CopyTableCommand = {
+type SortColumnsCommand = {
     cellId?: string;
-    command: 'copyTable';
+    command: 'sortColumns';
+    sortBy: { id: string; type: 'asc' | 'desc' }[];
 };
 
-type ExportTableCommand = {
+type FilterColumnsCommand = {
     cellId?: string;
-    command: 'exportTable';
+    command: 'filterColumns';
+    filters: DataframeFilter[];
+};
+
+type FetchRowsCommand = {
+    cellId?: string;
+    command: 'fetchRows';
+    requestId: string;
+    offset: number;
+    limit: number;
+    sortBy: { id: string; type: 'asc' | 'desc' }[];
+    filters: DataframeFilter[];
 };
 
 interface DataFrameObject {
@@ -53,12 +79,25 @@ interface DataFrameObject {
     type: string;
 }
 
-type DataframeCommand = SelectPageSizeCommand | GoToPageCommand | CopyTableCommand | ExportTableCommand;
+type DataframeCommand =
+    | CopyTableCommand
+    | ExportTableCommand
+    | SortColumnsCommand
+    | FilterColumnsCommand
+    | FetchRowsCommand;
 
 @injectable()
 export class DataframeController implements IExtensionSyncActivationService {
     private readonly disposables: IDisposable[] = [];
 
+    private readonly scripts = new Map<string, Promise<string>>();
+
+    constructor(
+        @inject(IKernelProvider) private readonly kernelProvider: IKernelProvider,
+        @inject(IFileSystem) private readonly fs: IFileSystem,
+        @inject(IExtensionContext) private readonly context: IExtensionContext
+    ) {}
+
     public activate() {
         const comms = notebooks.createRendererMessaging('deepnote-dataframe-renderer');
         const messageDisposable = comms.onDidReceiveMessage(this.onDidReceiveMessage.bind(this, comms), this);
@@ -215,6 +254,149 @@ export class DataframeController implements IExtensionSyncActivationService {
             return;
         }
 
+        const kernel = this.kernelProvider.get(editor.notebook);
+
+        if (kernel?.session && this.canKernelWriteFiles(kernel)) {
+            const exported = await this.exportFromKernel(kernel, cell);
+
+            if (exported) {
+                return;
+            }
+
+            // The kernel was restarted since the cell ran, so only the rows stored in the output are left
+            void window.showWarningMessage(
+                l10n.t(
+                    'The kernel no longer has the DataFrame of this output, so only the {0} rows stored in the output are exported, as CSV.',
+                    dataframe.rows.length
+                )
+            );
+        } else if (dataframe.rows.length < dataframe.row_count) {
+            void window.showWarningMessage(
+                l10n.t(
+                    'The kernel is not running, so only the {0} of {1} rows stored in the output are exported, as CSV.',
+                    dataframe.rows.length,
+                    dataframe.row_count
+                )
+            );
+        }
+
+        await this.exportRowsFromOutput(dataframe);
+    }
+
+    /**
+     * Kernels write the export themselves, so they have to run on this machine
+     */
+    private canKernelWriteFiles(kernel: IKernel): boolean {
+        const connection = kernel.kernelConnectionMetadata;
+
+        return isLocalConnection(connection) || connection.kind === 'startUsingDeepnoteKernel';
+    }
+
+    /**
+     * Has the kernel write the whole DataFrame behind the output of a cell, in a format the user picks.
+     *
+     * @returns Whether the export was handled, `false` when the kernel no longer has the DataFrame
+     */
+    private async exportFromKernel(kernel: IKernel, cell: NotebookCell): Promise<boolean> {
+        const picked = await window.showQuickPick(
+            DATAFRAME_EXPORT_FORMATS.map((format) => ({
+                label: format.label,
+                description: `.${format.extension}`,
+                format
+            })),
+            { placeHolder: l10n.t('Select the format to export the DataFrame in') }
+        );
+
+        if (!picked) {
+            return true;
+        }
+
+        const { extension, format, label } = picked.format;
+        const filename = `dataframe_${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+        const uri = await window.showSaveDialog({
+            defaultUri: Uri.file(filename),
+            filters: {
+                [label]: [extension],
+                'All files': ['*']
+            }
+        });
+
+        if (!uri) {
+            return true;
+        }
+
+        const variableName = (cell.metadata as Record<string, unknown> | undefined)?.deepnote_variable_name;
+        const code = buildDataframeExportCode(await this.getScript('deepnote_export_dataframe.py'), {
+            executionCount: cell.executionSummary?.executionOrder,
+            variableName: typeof variableName === 'string' && variableName ? variableName : undefined,
+            path: getFilePath(uri),
+            format
+        });
+        let cancelled = false;
+
+        try {
+            const result = await window.withProgress(
+                {
+                    location: ProgressLocation.Notification,
+                    title: l10n.t('Exporting the DataFrame to {0}', basename(uri)),
+                    cancellable: true
+                },
+                async (progress, token) => {
+                    // Interrupting the kernel stops the export, which removes the partially written file
+                    const cancellation = token.onCancellationRequested(() => {
+                        cancelled = true;
+                        void kernel.interrupt();
+                    });
+                    const timer = setInterval(() => {
+                        workspace.fs.stat(uri).then(
+                            ({ size }) => progress.report({ message: l10n.t('{0} written', formatFileSize(size)) }),
+                            () => undefined
+                        );
+                    }, EXPORT_PROGRESS_INTERVAL_MS);
+
+                    try {
+                        const outputs = await this.kernelProvider.getKernelExecution(kernel).executeHidden(code);
+
+                        return parseDataframeExportOutputs(outputs);
+                    } finally {
+                        clearInterval(timer);
+                        cancellation.dispose();
+                    }
+                }
+            );
+
+            if (result.success) {
+                logger.info(`[DataframeController] Exported ${result.rows} rows of cell ${cell.index} as ${format}`);
+
+                void window.showInformationMessage(l10n.t('{0} rows saved to {1}', result.rows, getDisplayPath(uri)));
+
+                return true;
+            }
+
+            if (result.missing) {
+                return false;
+            }
+
+            void window.showErrorMessage(l10n.t('Failed to export the DataFrame: {0}', result.message));
+        } catch (error) {
+            if (cancelled) {
+                void window.showInformationMessage(l10n.t('The export of the DataFrame was cancelled.'));
+            } else {
+                logger.error('[DataframeController] Failed to export the DataFrame', error);
+
+                void window.showErrorMessage(
+                    l10n.t(
+                        'Failed to export the DataFrame: {0}',
+                        error instanceof Error ? error.message : String(error)
+                    )
+                );
+            }
+        }
+
+        return true;
+    }
+
+    private async exportRowsFromOutput(dataframe: DataFrameObject) {
         const csv = this.dataframeToCsv(dataframe);
 
         if (!csv) {
@@ -237,7 +419,7 @@ export class DataframeController implements IExtensionSyncActivationService {
 
                 await workspace.fs.writeFile(uri, encoder.encode(csv));
 
-                await window.showInformationMessage(l10n.t('File saved to {0}', uri));
+                await window.showInformationMessage(l10n.t('File saved to {0}', getDisplayPath(uri)));
             }
         } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
@@ -246,11 +428,22 @@ export class DataframeController implements IExtensionSyncActivationService {
         }
     }
 
-    private async handleGoToPage(editor: NotebookEditor, message: GoToPageCommand) {
+    private getScript(name: string): Promise<string> {
+        let script = this.scripts.get(name);
+
+        if (!script) {
+            script = this.fs.readFile(joinPath(this.context.extensionUri, 'pythonFiles', name));
+            this.scripts.set(name, script);
+        }
+
+        return script;
+    }
+
+    private async handleSortColumns(editor: NotebookEditor, message: SortColumnsCommand) {
         if (!message.cellId) {
             return this.showErrorToUser(
                 l10n.t(
-                    'Unable to navigate to page: No cell identifier provided. Please re-run the cell to update the output metadata.'
+                    'Unable to sort the table: No cell identifier provided. Please re-run the cell to update the output metadata.'
                 )
             );
         }
@@ -261,21 +454,22 @@ export class DataframeController implements IExtensionSyncActivationService {
         if (!cell) {
             return this.showErrorToUser(
                 l10n.t(
-                    'Unable to navigate to page: Could not find the cell with ID {0}. The cell may have been deleted.',
+                    'Unable to sort the table: Could not find the cell with ID {0}. The cell may have been deleted.',
                     message.cellId ?? ''
                 )
             );
         }
 
-        // Update page index in table state within cell metadata
+        const cellIndex = cell.index;
+
+        // Update sorting in table state within cell metadata, sorted rows start on the first page
         const existingTableState = cell.metadata.deepnote_table_state || {};
         const updatedTableState = {
             ...existingTableState,
-            pageIndex: message.page
+            sortBy: message.sortBy,
+            pageIndex: 0
         };
 
-        const cellIndex = cell.index;
-
         const edit = new WorkspaceEdit();
         const notebookEdit = NotebookEdit.updateCellMetadata(cellIndex, {
             ...cell.metadata,
@@ -286,8 +480,13 @@ export class DataframeController implements IExtensionSyncActivationService {
 
         await workspace.applyEdit(edit);
 
-        // Re-execute the cell to apply the new page
-        logger.info(`[DataframeController] Re-executing cell ${cellIndex} with new page index ${message.page}`);
+        // The table reads its rows from the running kernel, so the cell only runs again without one
+        if (this.kernelProvider.get(editor.notebook)?.session) {
+            return;
+        }
+
+        // Re-execute the cell to apply the new sorting
+        logger.info(`[DataframeController] Re-executing cell ${cellIndex} with new sorting`);
 
         await commands.executeCommand('notebook.cell.execute', {
             ranges: [{ start: cellIndex, end: cellIndex + 1 }],
@@ -295,11 +494,11 @@ export class DataframeController implements IExtensionSyncActivationService {
         });
     }
 
-    private async handleSelectPageSize(editor: NotebookEditor, message: SelectPageSizeCommand) {
+    private async handleFilterColumns(editor: NotebookEditor, message: FilterColumnsCommand) {
         if (!message.cellId) {
             return this.showErrorToUser(
                 l10n.t(
-                    'Unable to update page size: No cell identifier provided. Please re-run the cell to update the output metadata.'
+                    'Unable to filter the table: No cell identifier provided. Please re-run the cell to update the output metadata.'
                 )
             );
         }
@@ -310,7 +509,7 @@ export class DataframeController implements IExtensionSyncActivationService {
         if (!cell) {
             return this.showErrorToUser(
                 l10n.t(
-                    'Unable to update page size: Could not find the cell with ID {0}. The cell may have been deleted.',
+                    'Unable to filter the table: Could not find the cell with ID {0}. The cell may have been deleted.',
                     message.cellId ?? ''
                 )
             );
@@ -318,11 +517,12 @@ export class DataframeController implements IExtensionSyncActivationService {
 
         const cellIndex = cell.index;
 
-        // Update page size in table state within cell metadata
+        // Update filters in table state within cell metadata, filtered rows start on the first page
         const existingTableState = cell.metadata.deepnote_table_state || {};
         const updatedTableState = {
             ...existingTableState,
-            pageSize: message.size
+            conditionalFilters: message.filters,
+            pageIndex: 0
         };
 
         const edit = new WorkspaceEdit();
@@ -335,8 +535,13 @@ export class DataframeController implements IExtensionSyncActivationService {
 
         await workspace.applyEdit(edit);
 
-        // Re-execute the cell to apply the new page size
-        logger.info(`[DataframeController] Re-executing cell ${cellIndex} with new page size`);
+        // The table reads its rows from the running kernel, so the cell only runs again without one
+        if (this.kernelProvider.get(editor.notebook)?.session) {
+            return;
+        }
+
+        // Re-execute the cell to apply the new filters
+        logger.info(`[DataframeController] Re-executing cell ${cellIndex} with new filters`);
 
         await commands.executeCommand('notebook.cell.execute', {
             ranges: [{ start: cellIndex, end: cellIndex + 1 }],
@@ -344,8 +549,48 @@ export class DataframeController implements IExtensionSyncActivationService {
         });
     }
 
+    /**
+     * Reads the rows the table scrolled to from the DataFrame in the kernel, without running the cell again
+     */
+    private async handleFetchRows(comms: NotebookRendererMessaging, editor: NotebookEditor, message: FetchRowsCommand) {
+        const reply = (result: DataframeRowsResult) =>
+            comms.postMessage({ command: 'rows', requestId: message.requestId, ...result }, editor);
+
+        const cell = editor.notebook.getCells().find((c) => c.metadata.id === message.cellId);
+        const kernel = this.kernelProvider.get(editor.notebook);
+
+        if (!cell || !kernel?.session) {
+            return reply({ success: false, missing: true, message: 'The kernel is not running.' });
+        }
+
+        const variableName = (cell.metadata as Record<string, unknown> | undefined)?.deepnote_variable_name;
+
+        try {
+            const scripts = await Promise.all([
+                this.getScript('deepnote_dataframe_filters.py'),
+                this.getScript('deepnote_dataframe_rows.py')
+            ]);
+            const code = buildDataframeRowsCode(scripts.join('\n\n'), {
+                executionCount: cell.executionSummary?.executionOrder,
+                variableName: typeof variableName === 'string' && variableName ? variableName : undefined,
+                columns: getOutputColumns(cell.outputs),
+                offset: message.offset,
+                limit: message.limit,
+                sortBy: message.sortBy,
+                filters: message.filters
+            });
+            const outputs = await this.kernelProvider.getKernelExecution(kernel).executeHidden(code);
+
+            await reply(parseDataframeRowsOutputs(outputs));
+        } catch (error) {
+            logger.error(`[DataframeController] Failed to read rows of cell ${cell.index}`, error);
+
+            await reply({ success: false, message: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
     private async onDidReceiveMessage(
-        _comms: NotebookRendererMessaging,
+        comms: NotebookRendererMessaging,
         { editor, message }: { editor: NotebookEditor; message: DataframeCommand }
     ) {
         logger.info('DataframeController received message', message);
@@ -354,14 +599,6 @@ export class DataframeController implements IExtensionSyncActivationService {
             return;
         }
 
-        if (message.command === 'selectPageSize') {
-            return this.handleSelectPageSize(editor, message);
-        }
-
-        if (message.command === 'goToPage') {
-            return this.handleGoToPage(editor, message);
-        }
-
         if (message.command === 'copyTable') {
             return this.handleCopyTable(editor, message);
         }
@@ -370,6 +607,18 @@ export class DataframeController implements IExtensionSyncActivationService {
             return this.handleExportTable(editor, message);
         }
 
+        if (message.command === 'sortColumns') {
+            return this.handleSortColumns(editor, message);
+        }
+
+        if (message.command === 'filterColumns') {
+            return this.handleFilterColumns(editor, message);
+        }
+
+        if (message.command === 'fetchRows') {
+            return this.handleFetchRows(comms, editor, message);
+        }
+
         logger.warn(`DataframeController received unknown command:`, message);
     }
 
@@ -381,3 +630,24 @@ export class DataframeController implements IExtensionSyncActivationService {
         throw new Error(errorMessage);
     }
 }
+
+/**
+ * Returns the names of the columns of the dataframe output of a cell, without the internal columns of the table
+ */
+function getOutputColumns(outputs: readonly NotebookCellOutput[]): string[] | undefined {
+    const item = outputs
+        .flatMap((output) => output.items)
+        .find((i) => i.mime === 'application/vnd.deepnote.dataframe.v3+json');
+
+    if (!item) {
+        return undefined;
+    }
+
+    try {
+        const dataframe = JSON.parse(new TextDecoder('utf-8').decode(item.data)) as DataFrameObject;
+
+        return dataframe.columns.map((column) => column.name).filter((name) => !name.startsWith('_deepnote_'));
+    } catch {
+        return undefined;
+    }
+}
@@ -1,5 +1,5 @@
 import { assert } from 'chai';
-import { anything, instance, mock, when } from 'ts-mockito';
+import { anything, capture, instance, mock, verify, when } from 'ts-mockito';
 import {
     Disposable,
     NotebookCell,
@@ -14,6 +14,10 @@ import {
 } from 'vscode';
 import { dispose } from '../../../platform/common/utils/lifecycle';
 import { IDisposable } from '../../../platform/common/types';
+import { IKernel, IKernelProvider, IKernelSession, INotebookKernelExecution } from '../../../kernels/types';
+import { getDisplayPath, getFilePath } from '../../../platform/common/platform/fs-paths';
+import { IFileSystem } from '../../../platform/common/platform/types';
+import { IExtensionContext } from '../../../platform/common/types';
 import { DataframeController } from './dataframeController';
 import { createMockedNotebookDocument } from '../../../test/datascience/editor-integration/helpers';
 import { mockedVSCodeNamespaces, resetVSCodeMocks } from '../../../test/vscode-mock';
@@ -23,11 +27,22 @@ suite('DataframeController', () => {
     let disposables: IDisposable[] = [];
     let comms: NotebookRendererMessaging;
     let clipboard: any;
+    let kernelProvider: IKernelProvider;
 
     setup(() => {
         resetVSCodeMocks();
         disposables.push(new Disposable(() => resetVSCodeMocks()));
-        controller = new DataframeController();
+
+        kernelProvider = mock<IKernelProvider>();
+        when(kernelProvider.get(anything())).thenReturn(undefined);
+
+        const fs = mock<IFileSystem>();
+        when(fs.readFile(anything())).thenResolve('def _deepnote_export_dataframe(*args): ...');
+
+        const context = mock<IExtensionContext>();
+        when(context.extensionUri).thenReturn(Uri.file('/extension'));
+
+        controller = new DataframeController(instance(kernelProvider), instance(fs), instance(context));
         comms = mock<NotebookRendererMessaging>();
 
         // Get the mock clipboard instance from the env instance
@@ -736,6 +751,317 @@ suite('DataframeController', () => {
         });
     });
 
+    suite('Export Table from the kernel (handleExportTable)', () => {
+        const saveUri = Uri.file('/tmp/test.parquet');
+        let execution: INotebookKernelExecution;
+        let kernel: IKernel;
+
+        setup(() => {
+            kernel = mock<IKernel>();
+            when(kernel.session).thenReturn({} as IKernelSession);
+            when(kernel.kernelConnectionMetadata).thenReturn({ kind: 'startUsingDeepnoteKernel' } as never);
+            when(kernel.interrupt()).thenResolve();
+            when(kernelProvider.get(anything())).thenReturn(instance(kernel));
+
+            execution = mock<INotebookKernelExecution>();
+            when(kernelProvider.getKernelExecution(anything())).thenReturn(instance(execution));
+
+            when(mockedVSCodeNamespaces.window.showQuickPick(anything(), anything())).thenCall((items: any[]) =>
+                Promise.resolve(items.find((item) => item.format.format === 'parquet'))
+            );
+            when(mockedVSCodeNamespaces.window.showSaveDialog(anything())).thenReturn(Promise.resolve(saveUri));
+            when(mockedVSCodeNamespaces.window.withProgress(anything(), anything())).thenCall((_, task) =>
+                task({ report: () => undefined }, { onCancellationRequested: () => ({ dispose: () => undefined }) })
+            );
+            when(mockedVSCodeNamespaces.window.showInformationMessage(anything())).thenResolve();
+            when(mockedVSCodeNamespaces.window.showWarningMessage(anything())).thenResolve();
+        });
+
+        function createTruncatedDataframeCell(): NotebookCell {
+            const dataframeData = {
+                column_count: 1,
+                columns: [{ dtype: 'int64', name: 'id' }],
+                preview_row_count: 1,
+                row_count: 1000,
+                rows: [{ id: 1 }],
+                type: 'dataframe'
+            };
+
+            return createCellWithOutputs(
+                'df',
+                [
+                    new NotebookCellOutput([
+                        new NotebookCellOutputItem(
+                            new TextEncoder().encode(JSON.stringify(dataframeData)),
+                            'application/vnd.deepnote.dataframe.v3+json'
+                        )
+                    ])
+                ],
+                { id: 'cell1', deepnote_variable_name: 'df' }
+            );
+        }
+
+        test('Should have the kernel write the whole DataFrame in the picked format', async () => {
+            when(execution.executeHidden(anything())).thenResolve([
+                { output_type: 'stream', name: 'stdout', text: '{"success": true, "rows": 1000}\n' }
+            ]);
+            const { editor } = createNotebookWithCell(createTruncatedDataframeCell());
+
+            await (controller as any).handleExportTable(editor, { command: 'exportTable', cellId: 'cell1' });
+
+            const [code] = capture(execution.executeHidden).last();
+            assert.include(
+                code,
+                `_deepnote_export_dataframe(None, "df", ${JSON.stringify(getFilePath(saveUri))}, "parquet")`
+            );
+            verify(
+                mockedVSCodeNamespaces.window.showInformationMessage(`1000 rows saved to ${getDisplayPath(saveUri)}`)
+            ).once();
+            verify(mockedVSCodeNamespaces.window.showWarningMessage(anything())).never();
+        });
+
+        test('Should fall back to the rows of the output with a warning when the kernel lost the DataFrame', async () => {
+            when(execution.executeHidden(anything())).thenResolve([
+                {
+                    output_type: 'stream',
+                    name: 'stdout',
+                    text: '{"success": false, "missing": true, "message": "The DataFrame of the output is not in the kernel."}\n'
+                }
+            ]);
+            let writtenContent = '';
+            when(mockedVSCodeNamespaces.workspace.fs).thenReturn({
+                writeFile: async (_uri: Uri, content: Uint8Array) => {
+                    writtenContent = new TextDecoder().decode(content);
+                }
+            } as any);
+            const { editor } = createNotebookWithCell(createTruncatedDataframeCell());
+
+            await (controller as any).handleExportTable(editor, { command: 'exportTable', cellId: 'cell1' });
+
+            verify(
+                mockedVSCodeNamespaces.window.showWarningMessage(
+                    'The kernel no longer has the DataFrame of this output, so only the 1 rows stored in the output are exported, as CSV.'
+                )
+            ).once();
+            assert.strictEqual(writtenContent, 'id\n1');
+        });
+
+        test('Should warn that only the rows of the output are exported when the kernel is not running', async () => {
+            when(kernelProvider.get(anything())).thenReturn(undefined);
+            const { editor } = createNotebookWithCell(createTruncatedDataframeCell());
+
+            await (controller as any).handleExportTable(editor, { command: 'exportTable', cellId: 'cell1' });
+
+            verify(
+                mockedVSCodeNamespaces.window.showWarningMessage(
+                    'The kernel is not running, so only the 1 of 1000 rows stored in the output are exported, as CSV.'
+                )
+            ).once();
+            verify(mockedVSCodeNamespaces.window.showQuickPick(anything(), anything())).never();
+            verify(execution.executeHidden(anything())).never();
+        });
+
+        test('Should report errors of the export', async () => {
+            when(execution.executeHidden(anything())).thenResolve([
+                {
+                    output_type: 'stream',
+                    name: 'stdout',
+                    text: '{"success": false, "message": "ImportError: Missing optional dependency \'pyarrow\'."}\n'
+                }
+            ]);
+            when(mockedVSCodeNamespaces.window.showErrorMessage(anything())).thenResolve();
+            const { editor } = createNotebookWithCell(createTruncatedDataframeCell());
+
+            await (controller as any).handleExportTable(editor, { command: 'exportTable', cellId: 'cell1' });
+
+            verify(
+                mockedVSCodeNamespaces.window.showErrorMessage(
+                    "Failed to export the DataFrame: ImportError: Missing optional dependency 'pyarrow'."
+                )
+            ).once();
+        });
+    });
+
+    suite('Sorting and Filtering (handleSortColumns, handleFilterColumns)', () => {
+        setup(() => {
+            when(mockedVSCodeNamespaces.workspace.applyEdit(anything())).thenReturn(Promise.resolve(true));
+            when(mockedVSCodeNamespaces.commands.executeCommand(anything(), anything())).thenResolve();
+        });
+
+        test('Should update the table state and re-run the cell when sorting', async () => {
+            const cell = createCellWithOutputs('df', [], {
+                id: 'cell1',
+                deepnote_table_state: { pageSize: 25, pageIndex: 3 }
+            });
+            const { editor } = createNotebookWithCell(cell);
+
+            await (controller as any).onDidReceiveMessage(instance(comms), {
+                editor,
+                message: { command: 'sortColumns', cellId: 'cell1', sortBy: [{ id: 'age', type: 'desc' }] }
+            });
+
+            verify(mockedVSCodeNamespaces.workspace.applyEdit(anything())).once();
+            verify(mockedVSCodeNamespaces.commands.executeCommand('notebook.cell.execute', anything())).once();
+        });
+
+        test('Should update the table state and re-run the cell when filtering', async () => {
+            const cell = createCellWithOutputs('df', [], { id: 'cell1' });
+            const { editor } = createNotebookWithCell(cell);
+
+            await (controller as any).onDidReceiveMessage(instance(comms), {
+                editor,
+                message: {
+                    command: 'filterColumns',
+                    cellId: 'cell1',
+                    filters: [{ column: 'country', operator: 'is-one-of', comparativeValues: ['CZ', 'DE'] }]
+                }
+            });
+
+            verify(mockedVSCodeNamespaces.workspace.applyEdit(anything())).once();
+            verify(mockedVSCodeNamespaces.commands.executeCommand('notebook.cell.execute', anything())).once();
+        });
+
+        test('Should not re-run the cell when the kernel is running', async () => {
+            const kernel = mock<IKernel>();
+            when(kernel.session).thenReturn({} as IKernelSession);
+            when(kernelProvider.get(anything())).thenReturn(instance(kernel));
+
+            const cell = createCellWithOutputs('df', [], { id: 'cell1' });
+            const { editor } = createNotebookWithCell(cell);
+
+            await (controller as any).onDidReceiveMessage(instance(comms), {
+                editor,
+                message: { command: 'sortColumns', cellId: 'cell1', sortBy: [{ id: 'age', type: 'asc' }] }
+            });
+
+            verify(mockedVSCodeNamespaces.workspace.applyEdit(anything())).once();
+            verify(mockedVSCodeNamespaces.commands.executeCommand('notebook.cell.execute', anything())).never();
+        });
+
+        test('Should show error when the cell to filter is not found', async () => {
+            let errorShown = false;
+            when(mockedVSCodeNamespaces.window.showErrorMessage(anything())).thenCall(() => {
+                errorShown = true;
+                return Promise.resolve();
+            });
+
+            const cell = createCellWithOutputs('df', [], { id: 'cell1' });
+            const { editor } = createNotebookWithCell(cell);
+
+            try {
+                await (controller as any).handleFilterColumns(editor, {
+                    command: 'filterColumns',
+                    cellId: 'nonexistent',
+                    filters: []
+                });
+            } catch (e) {
+                // Expected
+            }
+
+            assert.isTrue(errorShown);
+            verify(mockedVSCodeNamespaces.workspace.applyEdit(anything())).never();
+        });
+    });
+
+    suite('Fetching Rows (handleFetchRows)', () => {
+        const message = {
+            command: 'fetchRows' as const,
+            cellId: 'cell1',
+            requestId: 'request-1',
+            offset: 100,
+            limit: 100,
+            sortBy: [{ id: 'age', type: 'desc' as const }],
+            filters: []
+        };
+
+        setup(() => {
+            when(comms.postMessage(anything(), anything())).thenReturn(Promise.resolve(true));
+        });
+
+        test('Should reply with the rows read from the kernel', async () => {
+            const execution = mock<INotebookKernelExecution>();
+            when(execution.executeHidden(anything())).thenResolve([
+                {
+                    output_type: 'stream',
+                    name: 'stdout',
+                    text: '{"success": true, "row_count": 5000000, "rows": [{"_deepnote_index_column": 7, "age": 99}]}\n'
+                }
+            ]);
+            const kernel = mock<IKernel>();
+            when(kernel.session).thenReturn({} as IKernelSession);
+            when(kernelProvider.get(anything())).thenReturn(instance(kernel));
+            when(kernelProvider.getKernelExecution(anything())).thenReturn(instance(execution));
+
+            const cell = createCellWithOutputs('df', [], { id: 'cell1', deepnote_variable_name: 'df' });
+            const { editor } = createNotebookWithCell(cell);
+
+            await (controller as any).onDidReceiveMessage(instance(comms), { editor, message });
+
+            const [code] = capture(execution.executeHidden).last();
+            assert.include(code, '_deepnote_dataframe_rows(None, "df", "null", 100, 100, ');
+            const [reply] = capture(comms.postMessage).last();
+            assert.deepStrictEqual(reply, {
+                command: 'rows',
+                requestId: 'request-1',
+                success: true,
+                row_count: 5000000,
+                rows: [{ _deepnote_index_column: 7, age: 99 }]
+            });
+            verify(mockedVSCodeNamespaces.commands.executeCommand(anything(), anything())).never();
+        });
+
+        test('Should pass the columns of the output to check the variable of the block', async () => {
+            const execution = mock<INotebookKernelExecution>();
+            when(execution.executeHidden(anything())).thenResolve([
+                { output_type: 'stream', name: 'stdout', text: '{"success": true, "row_count": 0, "rows": []}\n' }
+            ]);
+            const kernel = mock<IKernel>();
+            when(kernel.session).thenReturn({} as IKernelSession);
+            when(kernelProvider.get(anything())).thenReturn(instance(kernel));
+            when(kernelProvider.getKernelExecution(anything())).thenReturn(instance(execution));
+
+            const dataframe = NotebookCellOutputItem.json(
+                {
+                    column_count: 2,
+                    columns: [
+                        { dtype: 'int64', name: 'age' },
+                        { dtype: 'int64', name: '_deepnote_index_column' }
+                    ],
+                    row_count: 0,
+                    rows: [],
+                    type: 'dataframe'
+                },
+                'application/vnd.deepnote.dataframe.v3+json'
+            );
+            const cell = createCellWithOutputs('df', [new NotebookCellOutput([dataframe])], {
+                id: 'cell1',
+                deepnote_variable_name: 'df'
+            });
+            const { editor } = createNotebookWithCell(cell);
+
+            await (controller as any).onDidReceiveMessage(instance(comms), { editor, message });
+
+            const [code] = capture(execution.executeHidden).last();
+            assert.include(code, '_deepnote_dataframe_rows(None, "df", "[\\"age\\"]", 100, 100, ');
+        });
+
+        test('Should reply that the rows are missing when the kernel is not running', async () => {
+            const cell = createCellWithOutputs('df', [], { id: 'cell1' });
+            const { editor } = createNotebookWithCell(cell);
+
+            await (controller as any).onDidReceiveMessage(instance(comms), { editor, message });
+
+            const [reply] = capture(comms.postMessage).last();
+            assert.deepStrictEqual(reply, {
+                command: 'rows',
+                requestId: 'request-1',
+                success: false,
+                missing: true,
+                message: 'The kernel is not running.'
+            });
+        });
+    });
+
     suite('Message Routing (onDidReceiveMessage)', () => {
         test('Should handle copyTable command', async () => {
             const dataframeData = {
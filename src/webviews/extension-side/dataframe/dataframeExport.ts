@@ -0,0 +1,76 @@
+import type * as nbformat from '@jupyterlab/nbformat';
+
+import { buildKernelFunctionCall, parseKernelFunctionOutputs } from '../../../platform/deepnote/kernelScripts';
+
+export type DataframeExportFormat = 'csv' | 'parquet' | 'excel' | 'jsonl';
+
+/**
+ * File formats the kernel can write a DataFrame in, in the order they are offered
+ */
+export const DATAFRAME_EXPORT_FORMATS: { format: DataframeExportFormat; label: string; extension: string }[] = [
+    { format: 'csv', label: 'CSV', extension: 'csv' },
+    { format: 'parquet', label: 'Parquet', extension: 'parquet' },
+    { format: 'excel', label: 'Excel', extension: 'xlsx' },
+    { format: 'jsonl', label: 'JSON Lines', extension: 'jsonl' }
+];
+
+/**
+ * Where the kernel finds the DataFrame behind an output, and where it writes it to
+ */
+export interface DataframeExportRequest {
+    /** Execution count of the execution that produced the output */
+    executionCount: number | undefined;
+    /** Variable of the block that holds the DataFrame, e.g. the result of a SQL block */
+    variableName: string | undefined;
+    path: string;
+    format: DataframeExportFormat;
+}
+
+/**
+ * Result of writing a DataFrame with `pythonFiles/deepnote_export_dataframe.py`
+ */
+export type DataframeExportResult =
+    | { success: true; rows: number }
+    | { success: false; message: string; missing?: boolean };
+
+/**
+ * Name of the function defined by `pythonFiles/deepnote_export_dataframe.py`
+ */
+const EXPORT_FUNCTION = '_deepnote_export_dataframe';
+
+/**
+ * Builds the code that writes a DataFrame in the kernel, given the contents of the export script
+ */
+export function buildDataframeExportCode(script: string, request: DataframeExportRequest): string {
+    return buildKernelFunctionCall(script, EXPORT_FUNCTION, [
+        request.executionCount,
+        request.variableName,
+        request.path,
+        request.format
+    ]);
+}
+
+/**
+ * Reads the result of the export code from the outputs of its execution
+ *
+ * @throws When the code failed, e.g. because the export was interrupted, or printed no result
+ */
+export function parseDataframeExportOutputs(outputs: nbformat.IOutput[]): DataframeExportResult {
+    return parseKernelFunctionOutputs<DataframeExportResult>(outputs, 'export');
+}
+
+/**
+ * Formats a number of bytes for progress messages, e.g. `12.3 MB`
+ */
+export function formatFileSize(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let size = bytes;
+    let unit = 0;
+
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+
+    return unit === 0 ? `${size} ${units[unit]}` : `${size.toFixed(1)} ${units[unit]}`;
+}
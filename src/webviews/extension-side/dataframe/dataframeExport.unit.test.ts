@@ -0,0 +1,43 @@
+import type * as nbformat from '@jupyterlab/nbformat';
+import { assert } from 'chai';
+
+import { buildDataframeExportCode, formatFileSize, parseDataframeExportOutputs } from './dataframeExport';
+
+suite('dataframeExport', () => {
+    test('passes the export to the export function as Python literals and removes the function', () => {
+        const code = buildDataframeExportCode('def _deepnote_export_dataframe(*args): ...', {
+            executionCount: 7,
+            variableName: undefined,
+            path: '/tmp/orders "2024".csv',
+            format: 'csv'
+        });
+
+        assert.include(code, 'print(_deepnote_export_dataframe(7, None, "/tmp/orders \\"2024\\".csv", "csv"))');
+        assert.include(code, 'del _deepnote_export_dataframe');
+    });
+
+    suite('parseDataframeExportOutputs', () => {
+        test('reads the result printed last', () => {
+            const outputs: nbformat.IOutput[] = [
+                { output_type: 'stream', name: 'stdout', text: 'warning\n' },
+                { output_type: 'stream', name: 'stdout', text: ['{"success": true, ', '"rows": 1000}\n'] }
+            ];
+
+            assert.deepStrictEqual(parseDataframeExportOutputs(outputs), { success: true, rows: 1000 });
+        });
+
+        test('throws the error raised in the kernel, e.g. when the export was interrupted', () => {
+            const outputs: nbformat.IOutput[] = [
+                { output_type: 'error', ename: 'KeyboardInterrupt', evalue: '', traceback: [] }
+            ];
+
+            assert.throws(() => parseDataframeExportOutputs(outputs), 'KeyboardInterrupt');
+        });
+    });
+
+    test('formats file sizes', () => {
+        assert.strictEqual(formatFileSize(512), '512 B');
+        assert.strictEqual(formatFileSize(1536), '1.5 KB');
+        assert.strictEqual(formatFileSize(5 * 1024 * 1024 * 1024), '5.0 GB');
+    });
+});
@@ -0,0 +1,58 @@
+import type * as nbformat from '@jupyterlab/nbformat';
+
+import type { DataframeFilter } from '../../../platform/deepnote/dataframeFilters';
+import { buildKernelFunctionCall, parseKernelFunctionOutputs } from '../../../platform/deepnote/kernelScripts';
+
+/**
+ * Range of rows of the DataFrame behind an output, sorted and filtered as in its table
+ */
+export interface DataframeRowsRequest {
+    /** Execution count of the execution that produced the output */
+    executionCount: number | undefined;
+    /** Variable of the block that holds the DataFrame, e.g. the result of a SQL block */
+    variableName: string | undefined;
+    /** Columns of the output, the variable is only read while its DataFrame still has them */
+    columns: string[] | undefined;
+    offset: number;
+    limit: number;
+    sortBy: { id: string; type: 'asc' | 'desc' }[];
+    filters: DataframeFilter[];
+}
+
+/**
+ * Result of reading rows with `pythonFiles/deepnote_dataframe_rows.py`. `row_count` is the number of
+ * rows that pass the filters.
+ */
+export type DataframeRowsResult =
+    | { success: true; row_count: number; rows: Record<string, unknown>[] }
+    | { success: false; message: string; missing?: boolean };
+
+/**
+ * Name of the function defined by `pythonFiles/deepnote_dataframe_rows.py`
+ */
+const ROWS_FUNCTION = '_deepnote_dataframe_rows';
+
+/**
+ * Builds the code that reads rows of a DataFrame in the kernel, given the contents of the filters script
+ * followed by the rows script
+ */
+export function buildDataframeRowsCode(script: string, request: DataframeRowsRequest): string {
+    return buildKernelFunctionCall(script, ROWS_FUNCTION, [
+        request.executionCount,
+        request.variableName,
+        JSON.stringify(request.columns ?? null),
+        request.offset,
+        request.limit,
+        JSON.stringify(request.sortBy),
+        JSON.stringify(request.filters)
+    ]);
+}
+
+/**
+ * Reads the result of the rows code from the outputs of its execution
+ *
+ * @throws When the code failed or printed no result
+ */
+export function parseDataframeRowsOutputs(outputs: nbformat.IOutput[]): DataframeRowsResult {
+    return parseKernelFunctionOutputs<DataframeRowsResult>(outputs, 'table');
+}
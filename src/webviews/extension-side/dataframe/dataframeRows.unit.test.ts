@@ -0,0 +1,41 @@
+import type * as nbformat from '@jupyterlab/nbformat';
+import { assert } from 'chai';
+
+import { buildDataframeRowsCode, parseDataframeRowsOutputs } from './dataframeRows';
+
+suite('dataframeRows', () => {
+    test('passes the columns of the output, the sorting and the filters to the rows function as JSON strings', () => {
+        const code = buildDataframeRowsCode('def _deepnote_dataframe_rows(*args): ...', {
+            executionCount: 3,
+            variableName: 'df',
+            columns: ['age', 'country'],
+            offset: 200,
+            limit: 100,
+            sortBy: [{ id: 'age', type: 'asc' }],
+            filters: [{ column: 'country', operator: 'is-equal', comparativeValues: ['CZ'] }]
+        });
+
+        assert.include(
+            code,
+            'print(_deepnote_dataframe_rows(3, "df", "[\\"age\\",\\"country\\"]", 200, 100, "[{\\"id\\":\\"age\\",\\"type\\":\\"asc\\"}]", ' +
+                '"[{\\"column\\":\\"country\\",\\"operator\\":\\"is-equal\\",\\"comparativeValues\\":[\\"CZ\\"]}]"))'
+        );
+        assert.include(code, 'del _deepnote_dataframe_rows');
+    });
+
+    test('reads the rows printed by the kernel', () => {
+        const outputs: nbformat.IOutput[] = [
+            {
+                output_type: 'stream',
+                name: 'stdout',
+                text: '{"success": true, "row_count": 2, "rows": [{"_deepnote_index_column": 0, "a": 1}]}\n'
+            }
+        ];
+
+        assert.deepStrictEqual(parseDataframeRowsOutputs(outputs), {
+            success: true,
+            row_count: 2,
+            rows: [{ _deepnote_index_column: 0, a: 1 }]
+        });
+    });
+});
@@ -0,0 +1,472 @@
+import * as React from 'react';
+
+import {
+    CHART_AGGREGATES,
+    CHART_TYPES,
+    type ChartAggregate,
+    type ChartChannel,
+    type ChartModel,
+    type ChartType,
+    type ChartValidationIssue,
+    type DataframeInfo,
+    getChartChannels,
+    validateChart
+} from '../../../platform/deepnote/chartSpec';
+import {
+    DATAFRAME_FILTER_OPERATORS,
+    type DataframeFilter,
+    type DataframeFilterOperator,
+    getFilterOperandCount
+} from '../../../platform/deepnote/dataframeFilters';
+import { getOperatorLabel } from '../react-common/dataframeFilterLabels';
+import { IVsCodeApi } from '../react-common/postOffice';
+import { format, getLocString, storeLocStrings } from '../react-common/locReactSide';
+import { WebviewMessage } from './types';
+
+export interface IChartEditorPanelProps {
+    baseTheme: string;
+    vscodeApi: IVsCodeApi;
+}
+
+export const ChartEditorPanel: React.FC<IChartEditorPanelProps> = ({ baseTheme, vscodeApi }) => {
+    const [chart, setChart] = React.useState<ChartModel>({
+        variable: '',
+        chartType: 'bar',
+        encodings: {},
+        filters: []
+    });
+    const [dataframes, setDataframes] = React.useState<DataframeInfo[] | undefined>(undefined);
+    const [isLoadingDataframes, setIsLoadingDataframes] = React.useState(false);
+    const [isSupportedSpec, setIsSupportedSpec] = React.useState(true);
+    // Problems the extension found on save, shown until the chart is edited again
+    const [savedIssues, setSavedIssues] = React.useState<ChartValidationIssue[] | undefined>(undefined);
+
+    React.useEffect(() => {
+        const handleMessage = (event: MessageEvent<WebviewMessage>) => {
+            const message = event.data;
+
+            switch (message.type) {
+                case 'init':
+                    setChart(message.chart);
+                    setIsSupportedSpec(message.isSupportedSpec);
+                    setIsLoadingDataframes(message.isLoadingDataframes);
+                    setSavedIssues(undefined);
+                    break;
+
+                case 'dataframes':
+                    setDataframes(message.dataframes);
+                    setIsLoadingDataframes(false);
+                    break;
+
+                case 'validation':
+                    setSavedIssues(message.issues);
+                    break;
+
+                case 'locInit':
+                    storeLocStrings(message.locStrings);
+                    break;
+
+                case 'refreshDataframes':
+                case 'save':
+                case 'cancel':
+                    // These messages are sent from webview to extension, not handled here
+                    break;
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    const issues = savedIssues ?? validateChart(chart, dataframes);
+    const columns = dataframes?.find((dataframe) => dataframe.name === chart.variable)?.columns;
+    const columnNames = columns?.map((column) => column.name);
+    const { channels } = getChartChannels(chart.chartType);
+
+    const updateChart = (update: (prev: ChartModel) => ChartModel) => {
+        setChart(update);
+        setSavedIssues(undefined);
+    };
+
+    const handleEncodingChange = (channel: ChartChannel, field: string, aggregate: ChartAggregate | undefined) => {
+        updateChart((prev) => {
+            const encodings = { ...prev.encodings };
+
+            if (field || aggregate) {
+                const previous = prev.encodings[channel];
+                // The type read from the spec only applies to the column it was read with
+                encodings[channel] = {
+                    field,
+                    ...(aggregate ? { aggregate } : {}),
+                    ...(previous?.type && previous.field === field ? { type: previous.type } : {})
+                };
+            } else {
+                delete encodings[channel];
+            }
+
+            return { ...prev, encodings };
+        });
+    };
+
+    const handleFilterChange = (index: number, filter: DataframeFilter | undefined) => {
+        updateChart((prev) => ({
+            ...prev,
+            filters: filter
+                ? prev.filters.map((existing, i) => (i === index ? filter : existing))
+                : prev.filters.filter((_, i) => i !== index)
+        }));
+    };
+
+    const handleAddFilter = () => {
+        updateChart((prev) => ({
+            ...prev,
+            filters: [...prev.filters, { column: columnNames?.[0] ?? '', operator: 'is-equal', comparativeValues: [] }]
+        }));
+    };
+
+    const handleReloadDataframes = () => {
+        setIsLoadingDataframes(true);
+        vscodeApi.postMessage({ type: 'refreshDataframes' });
+    };
+
+    const handleSave = () => {
+        vscodeApi.postMessage({
+            type: 'save',
+            chart: {
+                ...chart,
+                filters: chart.filters.map((filter) => ({
+                    ...filter,
+                    comparativeValues: filter.comparativeValues.map((value) => value.trim()).filter(Boolean)
+                }))
+            }
+        });
+    };
+
+    const handleCancel = () => {
+        vscodeApi.postMessage({
+            type: 'cancel'
+        });
+    };
+
+    return (
+        <div className={`chart-editor-panel theme-${baseTheme}`}>
+            <h1>{getLocString('chartEditorTitle', 'Chart Editor')}</h1>
+
+            {!isSupportedSpec && (
+                <p className="notice">
+                    {getLocString(
+                        'chartEditorUnsupportedSpec',
+                        'This chart uses Vega-Lite features the chart editor does not support, saving it replaces them.'
+                    )}
+                </p>
+            )}
+
+            <div className="field">
+                <label htmlFor="dataframeInput">{getLocString('chartEditorDataframe', 'DataFrame')}</label>
+                <div className="field-row">
+                    <input
+                        type="text"
+                        id="dataframeInput"
+                        list="dataframeOptions"
+                        value={chart.variable}
+                        onChange={(e) => {
+                            const variable = e.target.value;
+                            updateChart((prev) => ({ ...prev, variable }));
+                        }}
+                        placeholder={getLocString('chartEditorDataframePlaceholder', 'Variable name...')}
+                    />
+                    <datalist id="dataframeOptions">
+                        {dataframes?.map((dataframe) => <option key={dataframe.name} value={dataframe.name} />)}
+                    </datalist>
+                    <button
+                        type="button"
+                        className="icon-button"
+                        onClick={handleReloadDataframes}
+                        disabled={isLoadingDataframes}
+                        title={getLocString('chartEditorReloadDataframes', 'Reload DataFrames from the kernel')}
+                        aria-label={getLocString('chartEditorReloadDataframes', 'Reload DataFrames from the kernel')}
+                    >
+                        <span className="codicon codicon-refresh" />
+                    </button>
+                </div>
+                {isLoadingDataframes && (
+                    <div className="field-description">
+                        {getLocString('chartEditorLoadingDataframes', 'Loading DataFrames from the kernel...')}
+                    </div>
+                )}
+                {!isLoadingDataframes && !dataframes && (
+                    <div className="field-description">
+                        {getLocString(
+                            'chartEditorKernelNotRunning',
+                            'Run the notebook to pick the DataFrame and its columns from the kernel.'
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <h2>{getLocString('chartEditorChartType', 'Chart type')}</h2>
+
+            <div className="chart-types" role="radiogroup">
+                {CHART_TYPES.map((chartType) => (
+                    <button
+                        key={chartType}
+                        type="button"
+                        role="radio"
+                        aria-checked={chart.chartType === chartType}
+                        className={`chart-type-option ${chart.chartType === chartType ? 'selected' : ''}`}
+                        onClick={() => updateChart((prev) => ({ ...prev, chartType }))}
+                    >
+                        {getChartTypeLabel(chartType)}
+                    </button>
+                ))}
+            </div>
+
+            <div className="channels">
+                {channels.map((channel) => {
+                    const encoding = chart.encodings[channel];
+
+                    return (
+                        <div key={channel} className="field">
+                            <label htmlFor={`${channel}Column`}>{getChannelLabel(channel, chart.chartType)}</label>
+                            <div className="field-row">
+                                <ColumnInput
+                                    id={`${channel}Column`}
+                                    value={encoding?.field ?? ''}
+                                    columns={columnNames}
+                                    allowEmpty={true}
+                                    onChange={(field) => handleEncodingChange(channel, field, encoding?.aggregate)}
+                                />
+                                <select
+                                    value={encoding?.aggregate ?? ''}
+                                    aria-label={getLocString('chartEditorNoAggregate', 'No aggregation')}
+                                    onChange={(e) =>
+                                        handleEncodingChange(
+                                            channel,
+                                            encoding?.field ?? '',
+                                            (e.target.value || undefined) as ChartAggregate | undefined
+                                        )
+                                    }
+                                >
+                                    <option value="">{getLocString('chartEditorNoAggregate', 'No aggregation')}</option>
+                                    {CHART_AGGREGATES.map((aggregate) => (
+                                        <option key={aggregate} value={aggregate}>
+                                            {getAggregateLabel(aggregate)}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <h2>{getLocString('chartEditorFilters', 'Filters')}</h2>
+
+            <div className="filters">
+                {chart.filters.map((filter, index) => (
+                    <FilterRow
+                        key={index}
+                        filter={filter}
+                        columns={columnNames}
+                        onChange={(updated) => handleFilterChange(index, updated)}
+                    />
+                ))}
+                <button type="button" className="btn-secondary add-filter" onClick={handleAddFilter}>
+                    <span className="codicon codicon-add" /> {getLocString('chartEditorAddFilter', 'Add filter')}
+                </button>
+            </div>
+
+            {issues.length > 0 && (
+                <ul className="validation-messages" role="alert">
+                    {issues.map((issue, index) => (
+                        <li key={index}>
+                            <span className="codicon codicon-warning" /> {getIssueMessage(issue, chart.chartType)}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="actions">
+                <button type="button" className="btn-primary" onClick={handleSave} disabled={issues.length > 0}>
+                    {getLocString('chartEditorSave', 'Save')}
+                </button>
+                <button type="button" className="btn-secondary" onClick={handleCancel}>
+                    {getLocString('chartEditorCancel', 'Cancel')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+interface ColumnInputProps {
+    id?: string;
+    value: string;
+    /** Columns of the DataFrame, undefined when the kernel doesn't know it */
+    columns: string[] | undefined;
+    allowEmpty: boolean;
+    onChange: (value: string) => void;
+}
+
+function ColumnInput({ id, value, columns, allowEmpty, onChange }: ColumnInputProps) {
+    if (!columns) {
+        return <input type="text" id={id} value={value} onChange={(e) => onChange(e.target.value)} />;
+    }
+
+    return (
+        <select id={id} value={value} onChange={(e) => onChange(e.target.value)}>
+            {allowEmpty && <option value="">{getLocString('chartEditorNoColumn', 'None')}</option>}
+            {/* Keep a column the DataFrame no longer has, validation points it out */}
+            {value && !columns.includes(value) && <option value={value}>{value}</option>}
+            {columns.map((column) => (
+                <option key={column} value={column}>
+                    {column}
+                </option>
+            ))}
+        </select>
+    );
+}
+
+interface FilterRowProps {
+    filter: DataframeFilter;
+    columns: string[] | undefined;
+    onChange: (filter: DataframeFilter | undefined) => void;
+}
+
+function FilterRow({ filter, columns, onChange }: FilterRowProps) {
+    const operandCount = getFilterOperandCount(filter.operator);
+
+    return (
+        <div className="filter-row">
+            <ColumnInput
+                value={filter.column}
+                columns={columns}
+                allowEmpty={false}
+                onChange={(column) => onChange({ ...filter, column })}
+            />
+            <select
+                value={filter.operator}
+                onChange={(e) => {
+                    const operator = e.target.value as DataframeFilterOperator;
+                    const count = getFilterOperandCount(operator);
+                    onChange({
+                        ...filter,
+                        operator,
+                        comparativeValues:
+                            count === 'list' ? filter.comparativeValues : filter.comparativeValues.slice(0, count)
+                    });
+                }}
+            >
+                {DATAFRAME_FILTER_OPERATORS.map((operator) => (
+                    <option key={operator} value={operator}>
+                        {getOperatorLabel(operator)}
+                    </option>
+                ))}
+            </select>
+            {operandCount === 'list' && (
+                <input
+                    type="text"
+                    value={filter.comparativeValues.join(',')}
+                    placeholder={getLocString('dataframeFilterValuesHint', 'Values, separated by commas')}
+                    onChange={(e) => onChange({ ...filter, comparativeValues: e.target.value.split(',') })}
+                />
+            )}
+            {operandCount !== 'list' &&
+                Array.from({ length: operandCount }, (_, index) => (
+                    <input
+                        key={index}
+                        type="text"
+                        value={filter.comparativeValues[index] ?? ''}
+                        placeholder={getLocString('dataframeFilterValue', 'Value')}
+                        onChange={(e) => {
+                            const comparativeValues = [...filter.comparativeValues];
+                            comparativeValues[index] = e.target.value;
+                            onChange({ ...filter, comparativeValues });
+                        }}
+                    />
+                ))}
+            <button
+                type="button"
+                className="icon-button"
+                onClick={() => onChange(undefined)}
+                title={getLocString('chartEditorRemoveFilter', 'Remove filter')}
+                aria-label={getLocString('chartEditorRemoveFilter', 'Remove filter')}
+            >
+                <span className="codicon codicon-close" />
+            </button>
+        </div>
+    );
+}
+
+function getChartTypeLabel(chartType: ChartType): string {
+    switch (chartType) {
+        case 'bar':
+            return getLocString('chartEditorChartTypeBar', 'Bar');
+        case 'line':
+            return getLocString('chartEditorChartTypeLine', 'Line');
+        case 'area':
+            return getLocString('chartEditorChartTypeArea', 'Area');
+        case 'point':
+            return getLocString('chartEditorChartTypePoint', 'Scatter');
+        case 'arc':
+            return getLocString('chartEditorChartTypeArc', 'Pie');
+    }
+}
+
+function getChannelLabel(channel: ChartChannel, chartType: ChartType): string {
+    switch (channel) {
+        case 'x':
+            return getLocString('chartEditorChannelX', 'X axis');
+        case 'y':
+            return chartType === 'arc'
+                ? getLocString('chartEditorChannelValue', 'Value')
+                : getLocString('chartEditorChannelY', 'Y axis');
+        case 'color':
+            return getLocString('chartEditorChannelColor', 'Color');
+        case 'size':
+            return getLocString('chartEditorChannelSize', 'Size');
+    }
+}
+
+function getAggregateLabel(aggregate: ChartAggregate): string {
+    switch (aggregate) {
+        case 'count':
+            return getLocString('chartEditorAggregateCount', 'Count');
+        case 'sum':
+            return getLocString('chartEditorAggregateSum', 'Sum');
+        case 'mean':
+            return getLocString('chartEditorAggregateMean', 'Average');
+        case 'median':
+            return getLocString('chartEditorAggregateMedian', 'Median');
+        case 'min':
+            return getLocString('chartEditorAggregateMin', 'Minimum');
+        case 'max':
+            return getLocString('chartEditorAggregateMax', 'Maximum');
+    }
+}
+
+function getIssueMessage(issue: ChartValidationIssue, chartType: ChartType): string {
+    switch (issue.key) {
+        case 'chartNoVariable':
+            return getLocString('chartNoVariable', 'Pick the DataFrame to chart.');
+        case 'chartUnknownVariable':
+            return format(
+                getLocString('chartUnknownVariable', 'The kernel has no DataFrame named {0}.'),
+                ...issue.args
+            );
+        case 'chartMissingChannel':
+            return format(
+                getLocString('chartMissingChannel', 'Pick a column for {0}.'),
+                getChannelLabel(issue.args[0] as ChartChannel, chartType)
+            );
+        case 'chartUnknownColumn':
+            return format(getLocString('chartUnknownColumn', 'The DataFrame has no column named {0}.'), ...issue.args);
+        case 'chartAggregateNotNumeric':
+            return format(
+                getLocString('chartAggregateNotNumeric', '{0} needs a number column, but {1} is not one.'),
+                getAggregateLabel(issue.args[0] as ChartAggregate),
+                issue.args[1]
+            );
+        case 'chartFilterValues':
+            return format(getLocString('chartFilterValues', 'Enter the values of the filter on {0}.'), ...issue.args);
+    }
+}
@@ -0,0 +1,20 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+
+import { IVsCodeApi } from '../react-common/postOffice';
+import { detectBaseTheme } from '../react-common/themeDetector';
+import { ChartEditorPanel } from './ChartEditorPanel';
+
+import '../common/index.css';
+import './chartEditor.css';
+
+// This special function talks to vscode from a web panel
+declare function acquireVsCodeApi(): IVsCodeApi;
+
+const baseTheme = detectBaseTheme();
+const vscodeApi = acquireVsCodeApi();
+
+ReactDOM.render(
+    <ChartEditorPanel baseTheme={baseTheme} vscodeApi={vscodeApi} />,
+    document.getElementById('root') as HTMLElement
+);
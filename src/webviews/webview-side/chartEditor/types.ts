@@ -0,0 +1,2 @@
+// Re-export types from platform for use in webview
+export type { ChartEditorWebviewMessage as WebviewMessage } from '../../../platform/notebooks/deepnote/types';
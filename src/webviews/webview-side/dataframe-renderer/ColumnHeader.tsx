@@ -0,0 +1,251 @@
+import React, { ReactElement, useState } from 'react';
+
+import {
+    DATAFRAME_FILTER_OPERATORS,
+    DataframeFilter,
+    DataframeFilterOperator,
+    getFilterOperandCount
+} from '../../../platform/deepnote/dataframeFilters';
+import { getOperatorLabel } from '../react-common/dataframeFilterLabels';
+import { format, getLocString } from '../react-common/locReactSide';
+
+export interface ColumnStats {
+    unique_count: number;
+    nan_count: number;
+    min: string | null;
+    max: string | null;
+    histogram: Array<{
+        bin_start: number;
+        bin_end: number;
+        count: number;
+    }> | null;
+    categories: Array<{
+        name: string;
+        count: number;
+    }> | null;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+interface ColumnHeaderProps {
+    column: {
+        dtype: string;
+        name: string;
+        stats?: ColumnStats;
+    };
+    filter: DataframeFilter | undefined;
+    sort: SortDirection | undefined;
+    onFilterChange: (filter: DataframeFilter | undefined) => void;
+    onSortChange: (sort: SortDirection | undefined) => void;
+}
+
+const MAX_CATEGORIES = 2;
+
+export function ColumnHeader({ column, filter, sort, onFilterChange, onSortChange }: ColumnHeaderProps): ReactElement {
+    const [isFilterOpen, setIsFilterOpen] = useState(false);
+
+    // Clicking the header cycles through ascending, descending and no sorting
+    const nextSort: SortDirection | undefined = sort === undefined ? 'asc' : sort === 'asc' ? 'desc' : undefined;
+    const sortTitle =
+        nextSort === 'asc'
+            ? getLocString('dataframeSortAscending', 'Sort ascending')
+            : nextSort === 'desc'
+            ? getLocString('dataframeSortDescending', 'Sort descending')
+            : getLocString('dataframeClearSort', 'Clear sorting');
+    const filterTitle = format(getLocString('dataframeFilterColumn', 'Filter {0}'), column.name);
+
+    return (
+        <div className="relative border-b border-r border-t border-[var(--vscode-panel-border)] font-mono">
+            <div className="flex gap-[4px] p-[4px] items-center">
+                <button
+                    className="flex gap-[4px] items-center cursor-pointer bg-transparent border-0 p-0 text-[var(--vscode-foreground)] font-mono"
+                    title={sortTitle}
+                    type="button"
+                    onClick={() => onSortChange(nextSort)}
+                >
+                    <span className="font-[600]">{column.name}</span>
+                    <span>{column.dtype}</span>
+                    {sort && (
+                        <span
+                            className={`codicon codicon-arrow-${sort === 'asc' ? 'up' : 'down'}`}
+                            style={{ fontSize: 12 }}
+                        />
+                    )}
+                </button>
+                <button
+                    aria-label={filterTitle}
+                    className={`ml-auto cursor-pointer bg-transparent border-0 p-0 codicon ${
+                        filter ? 'codicon-filter-filled' : 'codicon-filter'
+                    } text-[var(--vscode-foreground)]`}
+                    style={{ fontSize: 12 }}
+                    title={filterTitle}
+                    type="button"
+                    onClick={() => setIsFilterOpen(!isFilterOpen)}
+                />
+            </div>
+
+            {/* Same height in all columns, so that their rows stay aligned */}
+            <div className="h-[48px] px-[4px] pb-[4px] overflow-hidden opacity-80 text-[11px]">
+                {column.stats && <ColumnStatsChart stats={column.stats} />}
+            </div>
+
+            {isFilterOpen && (
+                <FilterPopover
+                    column={column.name}
+                    filter={filter}
+                    onChange={(newFilter) => {
+                        setIsFilterOpen(false);
+                        onFilterChange(newFilter);
+                    }}
+                />
+            )}
+        </div>
+    );
+}
+
+function ColumnStatsChart({ stats }: { stats: ColumnStats }): ReactElement {
+    const details = [
+        format(getLocString('dataframeDistinctValues', '{0} distinct values'), String(stats.unique_count)),
+        stats.min !== null && stats.max !== null
+            ? format(getLocString('dataframeValueRange', '{0} to {1}'), stats.min, stats.max)
+            : undefined,
+        stats.nan_count > 0
+            ? format(getLocString('dataframeMissingValues', '{0} missing'), String(stats.nan_count))
+            : undefined
+    ].filter(Boolean);
+
+    return (
+        <div className="flex flex-col gap-[2px]" title={details.join('\n')}>
+            {stats.histogram && stats.histogram.length > 0 && <Histogram bins={stats.histogram} />}
+            {!stats.histogram && stats.categories && <CategoryBars categories={stats.categories} />}
+            {stats.nan_count > 0 && (
+                <div>{format(getLocString('dataframeMissingValues', '{0} missing'), String(stats.nan_count))}</div>
+            )}
+        </div>
+    );
+}
+
+function Histogram({ bins }: { bins: NonNullable<ColumnStats['histogram']> }): ReactElement {
+    const maxCount = Math.max(...bins.map((bin) => bin.count), 1);
+
+    return (
+        <div className="flex items-end gap-[1px] h-[24px]">
+            {bins.map((bin, index) => (
+                <div
+                    key={index.toString()}
+                    className="flex-1 bg-[var(--vscode-charts-blue)]"
+                    style={{ height: `${Math.max((bin.count / maxCount) * 100, bin.count > 0 ? 4 : 0)}%` }}
+                    title={`${bin.bin_start} – ${bin.bin_end}: ${bin.count}`}
+                />
+            ))}
+        </div>
+    );
+}
+
+function CategoryBars({ categories }: { categories: NonNullable<ColumnStats['categories']> }): ReactElement {
+    const total = categories.reduce((sum, category) => sum + category.count, 0) || 1;
+
+    return (
+        <div className="flex flex-col gap-[2px]">
+            {categories.slice(0, MAX_CATEGORIES).map((category) => (
+                <div key={category.name} className="relative h-[14px]" title={`${category.name}: ${category.count}`}>
+                    <div
+                        className="absolute inset-y-0 left-0 bg-[var(--vscode-charts-blue)] opacity-40"
+                        style={{ width: `${(category.count / total) * 100}%` }}
+                    />
+                    <div className="relative px-[2px] truncate">{category.name}</div>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+interface FilterPopoverProps {
+    column: string;
+    filter: DataframeFilter | undefined;
+    onChange: (filter: DataframeFilter | undefined) => void;
+}
+
+function FilterPopover({ column, filter, onChange }: FilterPopoverProps): ReactElement {
+    const [operator, setOperator] = useState<DataframeFilterOperator>(filter?.operator ?? 'is-equal');
+    const [values, setValues] = useState<string[]>(filter?.comparativeValues ?? []);
+
+    const operandCount = getFilterOperandCount(operator);
+
+    const handleApply = () => {
+        const comparativeValues =
+            operandCount === 'list'
+                ? values
+                      .join(',')
+                      .split(',')
+                      .map((value) => value.trim())
+                      .filter(Boolean)
+                : values.slice(0, operandCount);
+
+        onChange({ column, operator, comparativeValues });
+    };
+
+    const inputClassName =
+        'w-full p-[2px] font-mono bg-[var(--vscode-input-background)] text-[var(--vscode-input-foreground)] border border-[var(--vscode-input-border,transparent)]';
+
+    return (
+        <div className="absolute z-10 top-full left-0 mt-[2px] p-[8px] flex flex-col gap-[6px] min-w-[200px] bg-[var(--vscode-editorWidget-background)] border border-[var(--vscode-editorWidget-border)] shadow-md">
+            <select
+                className={inputClassName}
+                value={operator}
+                onChange={(event) => setOperator(event.target.value as DataframeFilterOperator)}
+            >
+                {DATAFRAME_FILTER_OPERATORS.map((option) => (
+                    <option key={option} value={option}>
+                        {getOperatorLabel(option)}
+                    </option>
+                ))}
+            </select>
+
+            {operandCount === 'list' && (
+                <input
+                    className={inputClassName}
+                    placeholder={getLocString('dataframeFilterValuesHint', 'Values, separated by commas')}
+                    type="text"
+                    value={values.join(', ')}
+                    onChange={(event) => setValues([event.target.value])}
+                />
+            )}
+
+            {operandCount !== 'list' &&
+                Array.from({ length: operandCount }, (_, index) => (
+                    <input
+                        key={index.toString()}
+                        className={inputClassName}
+                        placeholder={getLocString('dataframeFilterValue', 'Value')}
+                        type="text"
+                        value={values[index] ?? ''}
+                        onChange={(event) => {
+                            const newValues = [...values];
+                            newValues[index] = event.target.value;
+                            setValues(newValues);
+                        }}
+                    />
+                ))}
+
+            <div className="flex gap-[6px] justify-end">
+                {filter && (
+                    <button
+                        className="px-[6px] py-[2px] cursor-pointer bg-[var(--vscode-button-secondaryBackground)] text-[var(--vscode-button-secondaryForeground)] border-0"
+                        type="button"
+                        onClick={() => onChange(undefined)}
+                    >
+                        {getLocString('dataframeFilterClear', 'Clear')}
+                    </button>
+                )}
+                <button
+                    className="px-[6px] py-[2px] cursor-pointer bg-[var(--vscode-button-background)] text-[var(--vscode-button-foreground)] border-0"
+                    type="button"
+                    onClick={handleApply}
+                >
+                    {getLocString('dataframeFilterApply', 'Apply')}
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -1,33 +1,19 @@
 import { clsx, type ClassValue } from 'clsx';
 import React, { ReactElement, ReactNode } from 'react';
-import { memo, useMemo, useState } from 'react';
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { twMerge } from 'tailwind-merge';
 import type { RendererContext } from 'vscode-notebook-renderer';
 
 import '../react-common/codicon/codicon.css';
 import { generateUuid } from '../../../platform/common/uuid';
-import { getLocString } from '../react-common/locReactSide';
+import type { DataframeFilter } from '../../../platform/deepnote/dataframeFilters';
+import { format, getLocString } from '../react-common/locReactSide';
+import { ColumnHeader, ColumnStats, SortDirection } from './ColumnHeader';
 
 export interface DataframeMetadata {
     table_state_spec?: string;
 }
 
-interface ColumnStats {
-    unique_count: number;
-    nan_count: number;
-    min: string | null;
-    max: string | null;
-    histogram: Array<{
-        bin_start: number;
-        bin_end: number;
-        count: number;
-    }> | null;
-    categories: Array<{
-        name: string;
-        count: number;
-    }> | null;
-}
-
 interface DataframeRendererProps {
     cellId?: string;
     context: RendererContext<unknown>;
@@ -53,9 +39,28 @@ interface TableState {
     columnOrder: string[];
     pageIndex: number;
     pageSize: number;
-    sortBy: { id: string; type: string }[];
+    sortBy?: { id: string; type: SortDirection }[];
+    conditionalFilters?: DataframeFilter[];
 }
 
+type Row = DataframeRendererProps['data']['rows'][number];
+
+/**
+ * Reply of the extension to a `fetchRows` message, see `DataframeController`
+ */
+type RowsMessage = { command: 'rows'; requestId: string } & (
+    | { success: true; row_count: number; rows: Row[] }
+    | { success: false; message: string; missing?: boolean }
+);
+
+const ROW_HEIGHT = 28;
+const COLUMN_WIDTH = 180;
+const VISIBLE_ROWS = 12;
+/** Number of rows read from the kernel at once */
+const BLOCK_SIZE = 100;
+/** Browsers can't draw elements of any height, so the scroll position of very long tables is scaled */
+const MAX_SCROLL_HEIGHT = 5_000_000;
+
 export const DataframeRenderer = memo(function DataframeRenderer({
     cellId,
     context,
@@ -69,49 +74,166 @@ export const DataframeRenderer = memo(function DataframeRenderer({
     });
 
     const tableState = useMemo((): TableState => JSON.parse(metadata?.table_state_spec || '{}'), [metadata]);
-    const [pageSize, setPageSize] = useState(tableState.pageSize || 10);
-    const [pageIndex, setPageIndex] = useState(tableState.pageIndex || 0);
-
-    const selectId = useMemo(() => generateUuid(), []);
+    const [sortBy, setSortBy] = useState(tableState.sortBy || []);
+    const [filters, setFilters] = useState(tableState.conditionalFilters || []);
+    const [rowCount, setRowCount] = useState(data.row_count);
+    const [blocks, setBlocks] = useState<Record<number, Row[]>>({});
+    const [scrollTop, setScrollTop] = useState(0);
+    // Until the table is sorted or filtered differently, the rows stored in the output can be shown
+    const [isOutputView, setIsOutputView] = useState(true);
+    // Whether the kernel no longer has the DataFrame, so only the rows stored in the output can be shown
+    const [isKernelUnavailable, setIsKernelUnavailable] = useState(!context.postMessage);
+    const [error, setError] = useState<string | undefined>(undefined);
+
+    const viewKey = JSON.stringify({ sortBy, filters });
+    const viewKeyRef = useRef(viewKey);
+    viewKeyRef.current = viewKey;
+    const pendingRequests = useRef(new Map<string, { block: number; viewKey: string }>());
 
     const filteredColumns = data.columns.filter((column) => !column.name.startsWith('_deepnote_'));
-    const numberOfRows = Number.isFinite(data.preview_row_count) ? data.preview_row_count : data.row_count;
     const numberOfColumns = filteredColumns.length;
 
-    const totalPages = Math.ceil(data.row_count / pageSize);
+    // The output stores one page of rows, of the page the table showed when the cell ran
+    const outputOffset = (tableState.pageIndex || 0) * (tableState.pageSize || data.rows.length);
+    const numberOfRows = isKernelUnavailable ? data.rows.length : rowCount;
 
-    const handlePageSizeChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
-        const newPageSize = Number(event.target.value);
+    const getRow = useCallback(
+        (position: number): Row | undefined => {
+            if (isKernelUnavailable) {
+                return data.rows[position];
+            }
 
-        setPageSize(newPageSize);
+            const block = blocks[Math.floor(position / BLOCK_SIZE)];
 
-        console.log(`[DataframeRenderer] handlePageSizeChange called with cellId: ${cellId}`);
+            if (block) {
+                return block[position % BLOCK_SIZE];
+            }
 
-        const message = {
-            command: 'selectPageSize',
-            cellId,
-            size: newPageSize
-        };
+            return isOutputView ? data.rows[position - outputOffset] : undefined;
+        },
+        [blocks, data.rows, isKernelUnavailable, isOutputView, outputOffset]
+    );
 
-        console.log(`[DataframeRenderer] Posting message: ${JSON.stringify(message)}`);
+    const viewportHeight = Math.max(Math.min(numberOfRows, VISIBLE_ROWS), 1) * ROW_HEIGHT;
+    const scrollHeight = Math.max(Math.min(numberOfRows * ROW_HEIGHT, MAX_SCROLL_HEIGHT), viewportHeight);
+    const lastFirstRow = Math.max(numberOfRows - VISIBLE_ROWS, 0);
+    const firstRow =
+        scrollHeight > viewportHeight
+            ? Math.min(Math.round((scrollTop / (scrollHeight - viewportHeight)) * lastFirstRow), lastFirstRow)
+            : 0;
+    const visiblePositions = Array.from(
+        { length: Math.min(VISIBLE_ROWS, numberOfRows - firstRow) },
+        (_, index) => firstRow + index
+    );
 
-        context.postMessage?.(message);
+    useEffect(() => {
+        const disposable = context.onDidReceiveMessage?.((message: RowsMessage) => {
+            const request = message?.command === 'rows' ? pendingRequests.current.get(message.requestId) : undefined;
+
+            if (!request) {
+                return;
+            }
+
+            pendingRequests.current.delete(message.requestId);
+
+            // Rows of a previous sorting or filters
+            if (request.viewKey !== viewKeyRef.current) {
+                return;
+            }
+
+            if (message.success) {
+                setBlocks((previous) => ({ ...previous, [request.block]: message.rows }));
+                setRowCount(message.row_count);
+                setError(undefined);
+            } else if (message.missing) {
+                setIsKernelUnavailable(true);
+            } else {
+                setError(message.message);
+            }
+        });
+
+        return () => disposable?.dispose();
+    }, [context]);
+
+    useEffect(() => {
+        if (isKernelUnavailable || error) {
+            return;
+        }
+
+        const missingBlocks = new Set(
+            visiblePositions
+                .filter((position) => getRow(position) === undefined)
+                .map((position) => Math.floor(position / BLOCK_SIZE))
+                .filter((block) => blocks[block] === undefined)
+        );
+
+        // A new sorting or filters also changes the number of rows, which the first block tells
+        if (!isOutputView && Object.keys(blocks).length === 0) {
+            missingBlocks.add(0);
+        }
+        const pendingBlocks = Array.from(pendingRequests.current.values())
+            .filter((request) => request.viewKey === viewKey)
+            .map((request) => request.block);
+
+        for (const block of missingBlocks) {
+            if (pendingBlocks.includes(block)) {
+                continue;
+            }
+
+            const requestId = generateUuid();
+            pendingRequests.current.set(requestId, { block, viewKey });
+
+            context.postMessage?.({
+                command: 'fetchRows',
+                cellId,
+                requestId,
+                offset: block * BLOCK_SIZE,
+                limit: BLOCK_SIZE,
+                sortBy,
+                filters
+            });
+        }
+    }, [firstRow, numberOfRows, viewKey, blocks, getRow, isOutputView, isKernelUnavailable, error]);
+
+    const scrollContainer = useRef<HTMLDivElement>(null);
+
+    const resetView = () => {
+        setBlocks({});
+        setIsOutputView(false);
+        setError(undefined);
+        setScrollTop(0);
+        scrollContainer.current?.scrollTo({ top: 0 });
     };
 
-    const handlePageChange = (newPageIndex: number) => {
-        setPageIndex(newPageIndex);
+    const handleSortChange = (columnName: string, sort: SortDirection | undefined) => {
+        const newSortBy = sort ? [{ id: columnName, type: sort }] : [];
 
-        console.log(`[DataframeRenderer] handlePageChange called with cellId: ${cellId}, page: ${newPageIndex}`);
+        setSortBy(newSortBy);
+        resetView();
 
-        const message = {
-            command: 'goToPage',
+        console.log(`[DataframeRenderer] handleSortChange called with cellId: ${cellId}, column: ${columnName}`);
+
+        context.postMessage?.({
+            command: 'sortColumns',
             cellId,
-            page: newPageIndex
-        };
+            sortBy: newSortBy
+        });
+    };
 
-        console.log(`[DataframeRenderer] Posting message: ${JSON.stringify(message)}`);
+    const handleFilterChange = (columnName: string, filter: DataframeFilter | undefined) => {
+        // One filter per column, replacing the previous one
+        const newFilters = [...filters.filter((f) => f.column !== columnName), ...(filter ? [filter] : [])];
 
-        context.postMessage?.(message);
+        setFilters(newFilters);
+        resetView();
+
+        console.log(`[DataframeRenderer] handleFilterChange called with cellId: ${cellId}, column: ${columnName}`);
+
+        context.postMessage?.({
+            command: 'filterColumns',
+            cellId,
+            filters: newFilters
+        });
     };
 
     const handleCopyTable = () => {
@@ -136,95 +258,79 @@ export const DataframeRenderer = memo(function DataframeRenderer({
         context.postMessage?.(message);
     };
 
+    const isLoading = visiblePositions.some((position) => getRow(position) === undefined) && !error;
+
     return (
         <div className="w-full">
             <div className="w-full overflow-x-auto">
-                <div className="flex border-l border-[var(--vscode-panel-border)]">
-                    {filteredColumns.map((column) => {
-                        const rows = data.rows.map((row) => row[column.name]);
-
-                        return (
-                            <div key={column.name} className="flex-none flex-grow-1">
-                                <div className="flex gap-[4px] p-[4px] border-b border-r border-t border-[var(--vscode-panel-border)] font-mono">
-                                    <div className="font-[600]">{column.name}</div>
-                                    <div className="">{column.dtype}</div>
-                                </div>
-                                <div className="">
-                                    {rows.map((value, index) => (
-                                        <div
-                                            key={index.toString()}
-                                            className={`p-[4px] border-b border-r border-[var(--vscode-panel-border)] font-mono ${
-                                                index % 2 === 0
-                                                    ? 'bg-[var(--vscode-editor-background)]'
-                                                    : 'bg-[var(--vscode-list-hoverBackground)]/50'
-                                            }`}
-                                        >
-                                            {value === null || value === undefined ? 'None' : String(value)}
-                                        </div>
-                                    ))}
-                                </div>
+                <div
+                    className="border-l border-[var(--vscode-panel-border)]"
+                    style={{ width: numberOfColumns * COLUMN_WIDTH + 1 }}
+                >
+                    <div className="flex">
+                        {filteredColumns.map((column) => (
+                            <div key={column.name} className="flex-none" style={{ width: COLUMN_WIDTH }}>
+                                <ColumnHeader
+                                    column={column}
+                                    filter={filters.find((filter) => filter.column === column.name)}
+                                    sort={sortBy.find((sort) => sort.id === column.name)?.type}
+                                    onFilterChange={(filter) => handleFilterChange(column.name, filter)}
+                                    onSortChange={(sort) => handleSortChange(column.name, sort)}
+                                />
                             </div>
-                        );
-                    })}
-                </div>
-            </div>
-            <div className="px-[8px] py-[12px] flex justify-between items-center border-l border-r border-b border-[var(--vscode-panel-border)] font-mono">
-                <div className="flex gap-[4px] items-center">
-                    <div>
-                        {getLocString('dataframeRowsColumns', `{0} rows, {1} columns`)
-                            .replace('{0}', String(numberOfRows))
-                            .replace('{1}', String(numberOfColumns))}
+                        ))}
                     </div>
-                    <div>
-                        <select className="font-mono" id={selectId} value={pageSize} onChange={handlePageSizeChange}>
-                            <option value={10}>10</option>
-                            <option value={25}>25</option>
-                            <option value={50}>50</option>
-                            <option value={100}>100</option>
-                        </select>
-
-                        <label htmlFor={selectId}>{getLocString('dataframePerPage', '/ page')}</label>
+                    <div
+                        ref={scrollContainer}
+                        className="overflow-y-auto overflow-x-hidden"
+                        style={{ height: viewportHeight }}
+                        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+                    >
+                        <div style={{ height: scrollHeight }}>
+                            {/* Only the visible rows are drawn, in place, while the spacer around them scrolls */}
+                            <div className="sticky top-0" style={{ height: viewportHeight }}>
+                                {visiblePositions.map((position) => (
+                                    <TableRow
+                                        key={position.toString()}
+                                        columns={filteredColumns}
+                                        position={position}
+                                        row={getRow(position)}
+                                    />
+                                ))}
+                            </div>
+                        </div>
                     </div>
                 </div>
-
+            </div>
+            <div className="px-[8px] py-[12px] flex justify-between items-center gap-[12px] border-l border-r border-b border-[var(--vscode-panel-border)] font-mono">
                 <div className="flex gap-[12px] items-center">
-                    <IconButton
-                        aria-label={getLocString('dataframePreviousPage', 'Previous page')}
-                        className={`
-                            border border-[var(--vscode-panel-border)] bg-[var(--vscode-button-secondaryBackground)] hover:bg-[var(--vscode-button-secondaryHoverBackground)]
-                            text-[var(--vscode-button-secondaryForeground)]
-                            disabled:opacity-50 disabled:cursor-not-allowed
-                            flex items-center justify-center
-                            h-[20px] w-[20px]
-                        `}
-                        disabled={pageIndex === 0}
-                        title={getLocString('dataframePreviousPage', 'Previous page')}
-                        type="button"
-                        onClick={() => handlePageChange(pageIndex - 1)}
-                    >
-                        <div className="codicon codicon-chevron-left" style={{ fontSize: 12 }} />
-                    </IconButton>
-                    <span className="">
-                        {getLocString('dataframePageOf', 'Page {0} of {1}')
-                            .replace('{0}', String(pageIndex + 1))
-                            .replace('{1}', String(totalPages))}
-                    </span>
-                    <IconButton
-                        aria-label={getLocString('dataframeNextPage', 'Next page')}
-                        className={`
-                            border border-[var(--vscode-panel-border)] bg-[var(--vscode-button-secondaryBackground)] hover:bg-[var(--vscode-button-secondaryHoverBackground)]
-                            text-[var(--vscode-button-secondaryForeground)]
-                            disabled:opacity-50 disabled:cursor-not-allowed
-                            flex items-center justify-center
-                            h-[20px] w-[20px]
-                        `}
-                        disabled={pageIndex >= totalPages - 1}
-                        title={getLocString('dataframeNextPage', 'Next page')}
-                        type="button"
-                        onClick={() => handlePageChange(pageIndex + 1)}
-                    >
-                        <div className="codicon codicon-chevron-right" style={{ fontSize: 12 }} />
-                    </IconButton>
+                    <div>
+                        {format(
+                            getLocString('dataframeRowsColumns', `{0} rows, {1} columns`),
+                            String(numberOfRows),
+                            String(numberOfColumns)
+                        )}
+                    </div>
+                    {isLoading && (
+                        <div className="opacity-70">{getLocString('dataframeLoadingRows', 'Loading rows…')}</div>
+                    )}
+                    {isKernelUnavailable && (
+                        <div className="text-[var(--vscode-editorWarning-foreground)]">
+                            {format(
+                                getLocString(
+                                    'dataframeRowsFromOutput',
+                                    'Showing the {0} rows stored in the output. Run the block again to browse all {1} rows.'
+                                ),
+                                String(data.rows.length),
+                                String(data.row_count)
+                            )}
+                        </div>
+                    )}
+                    {error && (
+                        <div className="text-[var(--vscode-errorForeground)]">
+                            {format(getLocString('dataframeRowsError', 'Failed to load rows: {0}'), error)}
+                        </div>
+                    )}
                 </div>
 
                 <div>
@@ -253,6 +359,44 @@ export const DataframeRenderer = memo(function DataframeRenderer({
     );
 });
 
+interface TableRowProps {
+    columns: { name: string }[];
+    position: number;
+    /** Undefined while the row is read from the kernel */
+    row: Row | undefined;
+}
+
+function TableRow({ columns, position, row }: TableRowProps): ReactElement {
+    return (
+        <div
+            className={`flex font-mono ${
+                position % 2 === 0
+                    ? 'bg-[var(--vscode-editor-background)]'
+                    : 'bg-[var(--vscode-list-hoverBackground)]/50'
+            }`}
+            style={{ height: ROW_HEIGHT }}
+        >
+            {columns.map((column) => {
+                const value = row?.[column.name];
+                const text = row === undefined ? '…' : value === null || value === undefined ? 'None' : String(value);
+
+                return (
+                    <div
+                        key={column.name}
+                        className={`flex-none p-[4px] truncate border-b border-r border-[var(--vscode-panel-border)] ${
+                            row === undefined ? 'opacity-50' : ''
+                        }`}
+                        style={{ width: COLUMN_WIDTH }}
+                        title={text}
+                    >
+                        {text}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
 interface IconButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
     children: ReactNode;
 }
@@ -1,5 +1,6 @@
 import * as React from 'react';
 import { format, getLocString } from '../react-common/locReactSide';
+import { TestConnectionButton } from './ConnectionTest';
 import { BigQueryIntegrationConfig } from './types';
 
 export interface IBigQueryFormProps {
@@ -7,6 +8,8 @@ export interface IBigQueryFormProps {
     existingConfig: BigQueryIntegrationConfig | null;
     integrationName?: string;
     onSave: (config: BigQueryIntegrationConfig) => void;
+    onTestConnection: (config: BigQueryIntegrationConfig) => void;
+    isTestingConnection: boolean;
     onCancel: () => void;
 }
 
@@ -15,6 +18,8 @@ export const BigQueryForm: React.FC<IBigQueryFormProps> = ({
     existingConfig,
     integrationName,
     onSave,
+    onTestConnection,
+    isTestingConnection,
     onCancel
 }) => {
     const [name, setName] = React.useState(existingConfig?.name || integrationName || '');
@@ -61,27 +66,32 @@ export const BigQueryForm: React.FC<IBigQueryFormProps> = ({
         validateCredentials(value);
     };
 
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-
+    const buildConfig = (): BigQueryIntegrationConfig | null => {
         const trimmedCredentials = credentials.trim();
 
         // Validate credentials before submitting
         if (!validateCredentials(trimmedCredentials)) {
-            return;
+            return null;
         }
 
         const unnamedIntegration = getLocString('integrationsUnnamedIntegration', 'Unnamed Integration ({0})');
 
-        const config: BigQueryIntegrationConfig = {
+        return {
             id: integrationId,
             name: (name || format(unnamedIntegration, integrationId)).trim(),
             type: 'bigquery',
             projectId: projectId.trim(),
             credentials: trimmedCredentials
         };
+    };
 
-        onSave(config);
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const config = buildConfig();
+        if (config) {
+            onSave(config);
+        }
     };
 
     return (
@@ -147,6 +157,11 @@ export const BigQueryForm: React.FC<IBigQueryFormProps> = ({
                 <button type="submit" className="primary">
                     {getLocString('integrationsSave', 'Save')}
                 </button>
+                <TestConnectionButton
+                    getConfig={buildConfig}
+                    onTestConnection={onTestConnection}
+                    isTesting={isTestingConnection}
+                />
                 <button type="button" className="secondary" onClick={onCancel}>
                     {getLocString('integrationsCancel', 'Cancel')}
                 </button>
@@ -3,14 +3,20 @@ import { getLocString } from '../react-common/locReactSide';
 import { PostgresForm } from './PostgresForm';
 import { BigQueryForm } from './BigQueryForm';
 import { SnowflakeForm } from './SnowflakeForm';
-import { IntegrationConfig, IntegrationType } from './types';
+import { ServerForm } from './ServerForm';
+import { ConnectionTestState, ConnectionTestStatus } from './ConnectionTest';
+import { CredentialSources } from './CredentialSources';
+import { CredentialSource, IntegrationConfig, IntegrationType, ServerIntegrationConfig } from './types';
 
 export interface IConfigurationFormProps {
     integrationId: string;
     existingConfig: IntegrationConfig | null;
     integrationName?: string;
     integrationType?: IntegrationType;
+    credentialSources: CredentialSource[];
+    connectionTest: ConnectionTestState | null;
     onSave: (config: IntegrationConfig) => void;
+    onTestConnection: (config: IntegrationConfig) => void;
     onCancel: () => void;
 }
 
@@ -19,11 +25,14 @@ export const ConfigurationForm: React.FC<IConfigurationFormProps> = ({
     existingConfig,
     integrationName,
     integrationType,
+    credentialSources,
+    connectionTest,
     onSave,
+    onTestConnection,
     onCancel
 }) => {
     // Determine integration type from existing config, integration metadata from project, or ID
-    const getIntegrationType = (): 'postgres' | 'bigquery' | 'snowflake' => {
+    const getIntegrationType = (): IntegrationType => {
         if (existingConfig) {
             return existingConfig.type;
         }
@@ -63,12 +72,16 @@ export const ConfigurationForm: React.FC<IConfigurationFormProps> = ({
                 </div>
 
                 <div className="configuration-form-body">
+                    <CredentialSources sources={credentialSources} />
+
                     {selectedIntegrationType === 'postgres' ? (
                         <PostgresForm
                             integrationId={integrationId}
                             existingConfig={existingConfig?.type === 'postgres' ? existingConfig : null}
                             integrationName={integrationName}
                             onSave={onSave}
+                            onTestConnection={onTestConnection}
+                            isTestingConnection={connectionTest === 'testing'}
                             onCancel={onCancel}
                         />
                     ) : selectedIntegrationType === 'bigquery' ? (
@@ -77,17 +90,38 @@ export const ConfigurationForm: React.FC<IConfigurationFormProps> = ({
                             existingConfig={existingConfig?.type === 'bigquery' ? existingConfig : null}
                             integrationName={integrationName}
                             onSave={onSave}
+                            onTestConnection={onTestConnection}
+                            isTestingConnection={connectionTest === 'testing'}
                             onCancel={onCancel}
                         />
-                    ) : (
+                    ) : selectedIntegrationType === 'snowflake' ? (
                         <SnowflakeForm
                             integrationId={integrationId}
                             existingConfig={existingConfig?.type === 'snowflake' ? existingConfig : null}
                             integrationName={integrationName}
                             onSave={onSave}
+                            onTestConnection={onTestConnection}
+                            isTestingConnection={connectionTest === 'testing'}
+                            onCancel={onCancel}
+                        />
+                    ) : (
+                        <ServerForm
+                            integrationId={integrationId}
+                            integrationType={selectedIntegrationType}
+                            existingConfig={
+                                existingConfig?.type === selectedIntegrationType
+                                    ? (existingConfig as ServerIntegrationConfig)
+                                    : null
+                            }
+                            integrationName={integrationName}
+                            onSave={onSave}
+                            onTestConnection={onTestConnection}
+                            isTestingConnection={connectionTest === 'testing'}
                             onCancel={onCancel}
                         />
                     )}
+
+                    {connectionTest && <ConnectionTestStatus test={connectionTest} />}
                 </div>
             </div>
         </div>
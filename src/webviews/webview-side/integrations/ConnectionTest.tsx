@@ -0,0 +1,84 @@
+import * as React from 'react';
+import { getLocString } from '../react-common/locReactSide';
+import { ConnectionFailure, ConnectionTestResult, IntegrationConfig } from './types';
+
+export type ConnectionTestState = 'testing' | ConnectionTestResult;
+
+export const getConnectionFailureLabel = (failure: ConnectionFailure | undefined): string => {
+    switch (failure) {
+        case 'auth':
+            return getLocString('integrationsConnectionFailedAuth', 'Authentication failed');
+        case 'network':
+            return getLocString('integrationsConnectionFailedNetwork', 'Could not reach the server');
+        case 'ssl':
+            return getLocString('integrationsConnectionFailedSsl', 'SSL error');
+        case 'driver':
+            return getLocString('integrationsConnectionFailedDriver', 'The database driver is not installed');
+        case 'environment':
+            return getLocString('integrationsConnectionFailedEnvironment', 'Cannot test the connection');
+        default:
+            return getLocString('integrationsConnectionFailed', 'Connection failed');
+    }
+};
+
+export interface ITestConnectionButtonProps<T extends IntegrationConfig> {
+    /** Builds the configuration from the form, or returns null when it is not valid */
+    getConfig: () => T | null;
+    onTestConnection: (config: T) => void;
+    isTesting: boolean;
+    disabled?: boolean;
+}
+
+/**
+ * Button testing the connection of the configuration being edited, once the form fields are valid.
+ */
+export const TestConnectionButton = <T extends IntegrationConfig>({
+    getConfig,
+    onTestConnection,
+    isTesting,
+    disabled
+}: ITestConnectionButtonProps<T>) => {
+    const handleClick = (e: React.MouseEvent<HTMLButtonElement>) => {
+        const config = e.currentTarget.form?.reportValidity() ? getConfig() : null;
+
+        if (config) {
+            onTestConnection(config);
+        }
+    };
+
+    return (
+        <button type="button" className="secondary" onClick={handleClick} disabled={isTesting || disabled}>
+            {isTesting
+                ? getLocString('integrationsTestingConnection', 'Testing connection...')
+                : getLocString('integrationsTestConnection', 'Test connection')}
+        </button>
+    );
+};
+
+/**
+ * Inline result of a connection test.
+ */
+export const ConnectionTestStatus: React.FC<{ test: ConnectionTestState }> = ({ test }) => {
+    if (test === 'testing') {
+        return (
+            <div className="connection-test-result">
+                {getLocString('integrationsTestingConnection', 'Testing connection...')}
+            </div>
+        );
+    }
+
+    if (test.success) {
+        return (
+            <div className="connection-test-result connection-test-success" role="status">
+                {getLocString('integrationsConnectionSuccessful', 'Connection successful')}
+            </div>
+        );
+    }
+
+    return (
+        <div className="error-message connection-test-result" role="alert">
+            <strong>{getConnectionFailureLabel(test.failure)}</strong>
+            {test.message && <div className="connection-test-details">{test.message}</div>}
+        </div>
+    );
+};
@@ -0,0 +1,45 @@
+import * as React from 'react';
+import { getLocString } from '../react-common/locReactSide';
+import { CredentialSource } from './types';
+
+const getSourceLabel = (source: CredentialSource): string =>
+    source.source === 'env'
+        ? getLocString('integrationsCredentialSourceEnv', 'Environment variable {0}').replace('{0}', source.name)
+        : getLocString('integrationsCredentialSourceDotenv', 'Key {0} of the .env file').replace('{0}', source.name);
+
+/**
+ * Lists the fields of the configuration whose values are read from environment variables or the `.env` file,
+ * and explains how to reference them.
+ */
+export const CredentialSources: React.FC<{ sources: CredentialSource[] }> = ({ sources }) => {
+    return (
+        <div className="credential-sources">
+            {sources.length > 0 && (
+                <>
+                    <strong>
+                        {getLocString('integrationsCredentialSourcesTitle', 'Values read from the environment')}
+                    </strong>
+                    <ul>
+                        {sources.map((source) => (
+                            <li key={`${source.field}:${source.source}:${source.name}`}>
+                                <code>{source.field}</code> ← {getSourceLabel(source)}
+                                {!source.resolved && (
+                                    <span className="credential-source-undefined">
+                                        {' '}
+                                        {getLocString('integrationsCredentialSourceUndefined', '(not defined)')}
+                                    </span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+            <div className="credential-sources-hint">
+                {getLocString(
+                    'integrationsCredentialReferencesHint',
+                    'Fields can use ${env:NAME} for an environment variable or ${dotenv:NAME} for a key of the workspace .env file.'
+                )}
+            </div>
+        </div>
+    );
+};
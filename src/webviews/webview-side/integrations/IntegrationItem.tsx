@@ -1,14 +1,17 @@
 import * as React from 'react';
 import { getLocString } from '../react-common/locReactSide';
+import { ConnectionTestState, ConnectionTestStatus } from './ConnectionTest';
 import { IntegrationWithStatus, IntegrationType } from './types';
 
 export interface IIntegrationItemProps {
     integration: IntegrationWithStatus;
+    connectionTest?: ConnectionTestState;
     onConfigure: (integrationId: string) => void;
+    onTestConnection: (integrationId: string) => void;
     onDelete: (integrationId: string) => void;
 }
 
-const getIntegrationTypeLabel = (type: IntegrationType): string => {
+export const getIntegrationTypeLabel = (type: IntegrationType): string => {
     switch (type) {
         case 'postgres':
             return getLocString('integrationsPostgresTypeLabel', 'PostgreSQL');
@@ -16,17 +19,44 @@ const getIntegrationTypeLabel = (type: IntegrationType): string => {
             return getLocString('integrationsBigQueryTypeLabel', 'BigQuery');
         case 'snowflake':
             return getLocString('integrationsSnowflakeTypeLabel', 'Snowflake');
+        case 'mysql':
+            return getLocString('integrationsMySqlTypeLabel', 'MySQL');
+        case 'mariadb':
+            return getLocString('integrationsMariaDbTypeLabel', 'MariaDB');
+        case 'sqlserver':
+            return getLocString('integrationsSqlServerTypeLabel', 'SQL Server');
+        case 'redshift':
+            return getLocString('integrationsRedshiftTypeLabel', 'Redshift');
+        case 'clickhouse':
+            return getLocString('integrationsClickHouseTypeLabel', 'ClickHouse');
+        case 'trino':
+            return getLocString('integrationsTrinoTypeLabel', 'Trino');
         default:
             return type;
     }
 };
 
-export const IntegrationItem: React.FC<IIntegrationItemProps> = ({ integration, onConfigure, onDelete }) => {
-    const statusClass = integration.status === 'connected' ? 'status-connected' : 'status-disconnected';
-    const statusText =
-        integration.status === 'connected'
-            ? getLocString('integrationsConnected', 'Connected')
-            : getLocString('integrationsNotConfigured', 'Not Configured');
+const getStatusText = (status: IntegrationWithStatus['status']): string => {
+    switch (status) {
+        case 'connected':
+            return getLocString('integrationsConnected', 'Connected');
+        case 'error':
+            return getLocString('integrationsConnectionError', 'Connection Error');
+        default:
+            return getLocString('integrationsNotConfigured', 'Not Configured');
+    }
+};
+
+export const IntegrationItem: React.FC<IIntegrationItemProps> = ({
+    integration,
+    connectionTest,
+    onConfigure,
+    onTestConnection,
+    onDelete
+}) => {
+    const statusClass = `status-${integration.status}`;
+    const statusText = getStatusText(integration.status);
+    const isTesting = connectionTest === 'testing';
     const configureText = integration.config
         ? getLocString('integrationsReconfigure', 'Reconfigure')
         : getLocString('integrationsConfigure', 'Configure');
@@ -45,11 +75,29 @@ export const IntegrationItem: React.FC<IIntegrationItemProps> = ({ integration,
             <div className="integration-info">
                 <div className="integration-name">{displayName}</div>
                 <div className={`integration-status ${statusClass}`}>{statusText}</div>
+                {connectionTest && !isTesting ? (
+                    <ConnectionTestStatus test={connectionTest} />
+                ) : (
+                    integration.status === 'error' &&
+                    integration.error && <div className="connection-test-details">{integration.error}</div>
+                )}
             </div>
             <div className="integration-actions">
                 <button type="button" onClick={() => onConfigure(integration.id)}>
                     {configureText}
                 </button>
+                {integration.config && (
+                    <button
+                        type="button"
+                        className="secondary"
+                        onClick={() => onTestConnection(integration.id)}
+                        disabled={isTesting}
+                    >
+                        {isTesting
+                            ? getLocString('integrationsTestingConnection', 'Testing connection...')
+                            : getLocString('integrationsTestConnection', 'Test connection')}
+                    </button>
+                )}
                 {integration.config && (
                     <button type="button" className="secondary" onClick={() => onDelete(integration.id)}>
                         {getLocString('integrationsReset', 'Reset')}
@@ -1,15 +1,24 @@
 import * as React from 'react';
 import { getLocString } from '../react-common/locReactSide';
+import { ConnectionTestState } from './ConnectionTest';
 import { IntegrationItem } from './IntegrationItem';
 import { IntegrationWithStatus } from './types';
 
 export interface IIntegrationListProps {
     integrations: IntegrationWithStatus[];
+    connectionTests: Record<string, ConnectionTestState>;
     onConfigure: (integrationId: string) => void;
+    onTestConnection: (integrationId: string) => void;
     onDelete: (integrationId: string) => void;
 }
 
-export const IntegrationList: React.FC<IIntegrationListProps> = ({ integrations, onConfigure, onDelete }) => {
+export const IntegrationList: React.FC<IIntegrationListProps> = ({
+    integrations,
+    connectionTests,
+    onConfigure,
+    onTestConnection,
+    onDelete
+}) => {
     if (integrations.length === 0) {
         return (
             <p className="no-integrations">
@@ -24,7 +33,9 @@ export const IntegrationList: React.FC<IIntegrationListProps> = ({ integrations,
                 <IntegrationItem
                     key={integration.id}
                     integration={integration}
+                    connectionTest={connectionTests[integration.id]}
                     onConfigure={onConfigure}
+                    onTestConnection={onTestConnection}
                     onDelete={onDelete}
                 />
             ))}
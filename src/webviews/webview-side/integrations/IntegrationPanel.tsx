@@ -3,7 +3,8 @@ import { IVsCodeApi } from '../react-common/postOffice';
 import { getLocString, storeLocStrings } from '../react-common/locReactSide';
 import { IntegrationList } from './IntegrationList';
 import { ConfigurationForm } from './ConfigurationForm';
-import { IntegrationWithStatus, WebviewMessage, IntegrationConfig, IntegrationType } from './types';
+import { ConnectionTestState } from './ConnectionTest';
+import { CredentialSource, IntegrationWithStatus, WebviewMessage, IntegrationConfig, IntegrationType } from './types';
 
 export interface IIntegrationPanelProps {
     baseTheme: string;
@@ -18,8 +19,12 @@ export const IntegrationPanel: React.FC<IIntegrationPanelProps> = ({ baseTheme,
     const [selectedIntegrationType, setSelectedIntegrationType] = React.useState<IntegrationType | undefined>(
         undefined
     );
+    const [selectedCredentialSources, setSelectedCredentialSources] = React.useState<CredentialSource[]>([]);
     const [message, setMessage] = React.useState<{ type: 'success' | 'error'; text: string } | null>(null);
     const [confirmDelete, setConfirmDelete] = React.useState<string | null>(null);
+    // Connection tests started from the list, by integration ID, and from the configuration form
+    const [connectionTests, setConnectionTests] = React.useState<Record<string, ConnectionTestState>>({});
+    const [formConnectionTest, setFormConnectionTest] = React.useState<ConnectionTestState | null>(null);
 
     const messageTimerRef = React.useRef<NodeJS.Timeout | null>(null);
     const confirmDeleteTimerRef = React.useRef<NodeJS.Timeout | null>(null);
@@ -57,6 +62,15 @@ export const IntegrationPanel: React.FC<IIntegrationPanelProps> = ({ baseTheme,
                     setSelectedConfig(msg.config);
                     setSelectedIntegrationName(msg.integrationName);
                     setSelectedIntegrationType(msg.integrationType);
+                    setSelectedCredentialSources(msg.credentialSources ?? []);
+                    setFormConnectionTest(null);
+                    break;
+
+                case 'connectionTestResult':
+                    setConnectionTests((tests) =>
+                        tests[msg.integrationId] === 'testing' ? { ...tests, [msg.integrationId]: msg.result } : tests
+                    );
+                    setFormConnectionTest((test) => (test === 'testing' ? msg.result : test));
                     break;
 
                 case 'success':
@@ -88,6 +102,31 @@ export const IntegrationPanel: React.FC<IIntegrationPanelProps> = ({ baseTheme,
         });
     };
 
+    const handleTestConnection = (integrationId: string) => {
+        setConnectionTests((tests) => ({ ...tests, [integrationId]: 'testing' }));
+        vscodeApi.postMessage({
+            type: 'testConnection',
+            integrationId
+        });
+    };
+
+    const handleFormTestConnection = (config: IntegrationConfig) => {
+        setFormConnectionTest('testing');
+        vscodeApi.postMessage({
+            type: 'testConnection',
+            integrationId: config.id,
+            config
+        });
+    };
+
+    const forgetConnectionTest = (integrationId: string) => {
+        setConnectionTests((tests) => {
+            const remaining = { ...tests };
+            delete remaining[integrationId];
+            return remaining;
+        });
+    };
+
     const handleDelete = (integrationId: string) => {
         // Clear any existing confirmDelete timer before creating a new one
         if (confirmDeleteTimerRef.current) {
@@ -109,6 +148,7 @@ export const IntegrationPanel: React.FC<IIntegrationPanelProps> = ({ baseTheme,
                 type: 'delete',
                 integrationId: confirmDelete
             });
+            forgetConnectionTest(confirmDelete);
             setConfirmDelete(null);
         }
     };
@@ -129,13 +169,16 @@ export const IntegrationPanel: React.FC<IIntegrationPanelProps> = ({ baseTheme,
             integrationId: config.id,
             config
         });
+        forgetConnectionTest(config.id);
         setSelectedIntegrationId(null);
         setSelectedConfig(null);
+        setFormConnectionTest(null);
     };
 
     const handleCancel = () => {
         setSelectedIntegrationId(null);
         setSelectedConfig(null);
+        setFormConnectionTest(null);
     };
 
     return (
@@ -144,7 +187,13 @@ export const IntegrationPanel: React.FC<IIntegrationPanelProps> = ({ baseTheme,
 
             {message && <div className={`message message-${message.type}`}>{message.text}</div>}
 
-            <IntegrationList integrations={integrations} onConfigure={handleConfigure} onDelete={handleDelete} />
+            <IntegrationList
+                integrations={integrations}
+                connectionTests={connectionTests}
+                onConfigure={handleConfigure}
+                onTestConnection={handleTestConnection}
+                onDelete={handleDelete}
+            />
 
             {selectedIntegrationId && (
                 <ConfigurationForm
@@ -152,7 +201,10 @@ export const IntegrationPanel: React.FC<IIntegrationPanelProps> = ({ baseTheme,
                     existingConfig={selectedConfig}
                     integrationName={selectedIntegrationName}
                     integrationType={selectedIntegrationType}
+                    credentialSources={selectedCredentialSources}
+                    connectionTest={formConnectionTest}
                     onSave={handleSave}
+                    onTestConnection={handleFormTestConnection}
                     onCancel={handleCancel}
                 />
             )}
@@ -1,5 +1,6 @@
 import * as React from 'react';
 import { format, getLocString } from '../react-common/locReactSide';
+import { TestConnectionButton } from './ConnectionTest';
 import { PostgresIntegrationConfig } from './types';
 
 export interface IPostgresFormProps {
@@ -7,6 +8,8 @@ export interface IPostgresFormProps {
     existingConfig: PostgresIntegrationConfig | null;
     integrationName?: string;
     onSave: (config: PostgresIntegrationConfig) => void;
+    onTestConnection: (config: PostgresIntegrationConfig) => void;
+    isTestingConnection: boolean;
     onCancel: () => void;
 }
 
@@ -15,6 +18,8 @@ export const PostgresForm: React.FC<IPostgresFormProps> = ({
     existingConfig,
     integrationName,
     onSave,
+    onTestConnection,
+    isTestingConnection,
     onCancel
 }) => {
     const [name, setName] = React.useState(existingConfig?.name || integrationName || '');
@@ -46,12 +51,10 @@ export const PostgresForm: React.FC<IPostgresFormProps> = ({
         }
     }, [existingConfig, integrationName]);
 
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-
+    const buildConfig = (): PostgresIntegrationConfig => {
         const unnamedIntegration = getLocString('integrationsUnnamedIntegration', 'Unnamed Integration ({0})');
 
-        const config: PostgresIntegrationConfig = {
+        return {
             id: integrationId,
             name: (name || format(unnamedIntegration, integrationId)).trim(),
             type: 'postgres',
@@ -62,8 +65,11 @@ export const PostgresForm: React.FC<IPostgresFormProps> = ({
             password: password.trim(),
             ssl
         };
+    };
 
-        onSave(config);
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(buildConfig());
     };
 
     return (
@@ -174,6 +180,11 @@ export const PostgresForm: React.FC<IPostgresFormProps> = ({
                 <button type="submit" className="primary">
                     {getLocString('integrationsSave', 'Save')}
                 </button>
+                <TestConnectionButton
+                    getConfig={buildConfig}
+                    onTestConnection={onTestConnection}
+                    isTesting={isTestingConnection}
+                />
                 <button type="button" className="secondary" onClick={onCancel}>
                     {getLocString('integrationsCancel', 'Cancel')}
                 </button>
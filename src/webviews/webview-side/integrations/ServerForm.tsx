@@ -0,0 +1,266 @@
+import * as React from 'react';
+import { format, getLocString } from '../react-common/locReactSide';
+import { TestConnectionButton } from './ConnectionTest';
+import { getIntegrationTypeLabel } from './IntegrationItem';
+import { ServerIntegrationConfig, ServerIntegrationType } from './types';
+
+export interface IServerFormProps {
+    integrationId: string;
+    integrationType: ServerIntegrationType;
+    existingConfig: ServerIntegrationConfig | null;
+    integrationName?: string;
+    onSave: (config: ServerIntegrationConfig) => void;
+    onTestConnection: (config: ServerIntegrationConfig) => void;
+    isTestingConnection: boolean;
+    onCancel: () => void;
+}
+
+interface IServerDefaults {
+    port: string;
+    username: string;
+    /** Whether the ssl option enables SSL, HTTPS, or isn't supported by the driver */
+    encryption: 'ssl' | 'https' | null;
+}
+
+const SERVER_DEFAULTS: { [type in ServerIntegrationType]: IServerDefaults } = {
+    mysql: { port: '3306', username: 'root', encryption: 'ssl' },
+    mariadb: { port: '3306', username: 'root', encryption: 'ssl' },
+    sqlserver: { port: '1433', username: 'sa', encryption: null },
+    redshift: { port: '5439', username: 'awsuser', encryption: 'ssl' },
+    clickhouse: { port: '8123', username: 'default', encryption: 'https' },
+    trino: { port: '8080', username: 'trino', encryption: 'https' }
+};
+
+/**
+ * Form shared by the integrations connecting to a database server with a host, port, username and password:
+ * MySQL, MariaDB, SQL Server, Redshift, ClickHouse and Trino. Trino connects to a catalog instead of a database.
+ */
+export const ServerForm: React.FC<IServerFormProps> = ({
+    integrationId,
+    integrationType,
+    existingConfig,
+    integrationName,
+    onSave,
+    onTestConnection,
+    isTestingConnection,
+    onCancel
+}) => {
+    const defaults = SERVER_DEFAULTS[integrationType];
+    const isTrino = integrationType === 'trino';
+
+    const [name, setName] = React.useState(existingConfig?.name || integrationName || '');
+    const [host, setHost] = React.useState(existingConfig?.host || '');
+    const [port, setPort] = React.useState(existingConfig?.port?.toString() || defaults.port);
+    const [database, setDatabase] = React.useState(getDatabase(existingConfig));
+    const [schema, setSchema] = React.useState(existingConfig?.type === 'trino' ? existingConfig.schema || '' : '');
+    const [username, setUsername] = React.useState(existingConfig?.username || '');
+    const [password, setPassword] = React.useState(existingConfig?.password || '');
+    const [ssl, setSsl] = React.useState(existingConfig?.ssl || false);
+
+    // Update form fields when existingConfig, integrationName or integrationType changes
+    React.useEffect(() => {
+        setName(existingConfig?.name || integrationName || '');
+        setHost(existingConfig?.host || '');
+        setPort(existingConfig?.port?.toString() || SERVER_DEFAULTS[integrationType].port);
+        setDatabase(getDatabase(existingConfig));
+        setSchema(existingConfig?.type === 'trino' ? existingConfig.schema || '' : '');
+        setUsername(existingConfig?.username || '');
+        setPassword(existingConfig?.password || '');
+        setSsl(existingConfig?.ssl || false);
+    }, [existingConfig, integrationName, integrationType]);
+
+    const buildConfig = (): ServerIntegrationConfig => {
+        const unnamedIntegration = getLocString('integrationsUnnamedIntegration', 'Unnamed Integration ({0})');
+
+        const connection = {
+            id: integrationId,
+            name: (name || format(unnamedIntegration, integrationId)).trim(),
+            host,
+            port: parseInt(port, 10),
+            username: username.trim(),
+            password: password.trim(),
+            ssl: defaults.encryption !== null && ssl
+        };
+
+        if (integrationType === 'trino') {
+            return {
+                ...connection,
+                type: integrationType,
+                catalog: database.trim(),
+                schema: schema.trim() || undefined
+            };
+        }
+
+        return { ...connection, type: integrationType, database: database.trim() };
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(buildConfig());
+    };
+
+    const namePlaceholder = format(
+        getLocString('integrationsServerNamePlaceholder', 'My {0} Database'),
+        getIntegrationTypeLabel(integrationType)
+    );
+
+    return (
+        <form onSubmit={handleSubmit}>
+            <div className="form-group">
+                <label htmlFor="name">{getLocString('integrationsServerNameLabel', 'Name (optional)')}</label>
+                <input
+                    type="text"
+                    id="name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder={namePlaceholder}
+                    autoComplete="off"
+                />
+            </div>
+
+            <div className="form-group">
+                <label htmlFor="host">
+                    {getLocString('integrationsServerHostLabel', 'Host')}{' '}
+                    <span className="required">{getLocString('integrationsRequiredField', '*')}</span>
+                </label>
+                <input
+                    type="text"
+                    id="host"
+                    value={host}
+                    onChange={(e) => setHost(e.target.value)}
+                    placeholder="localhost"
+                    autoComplete="off"
+                    required
+                />
+            </div>
+
+            <div className="form-group">
+                <label htmlFor="port">
+                    {getLocString('integrationsServerPortLabel', 'Port')}{' '}
+                    <span className="required">{getLocString('integrationsRequiredField', '*')}</span>
+                </label>
+                <input
+                    type="number"
+                    id="port"
+                    value={port}
+                    onChange={(e) => setPort(e.target.value)}
+                    placeholder={defaults.port}
+                    min={1}
+                    max={65535}
+                    step={1}
+                    autoComplete="off"
+                    required
+                />
+            </div>
+
+            <div className="form-group">
+                <label htmlFor="database">
+                    {isTrino
+                        ? getLocString('integrationsServerCatalogLabel', 'Catalog')
+                        : getLocString('integrationsServerDatabaseLabel', 'Database')}{' '}
+                    <span className="required">{getLocString('integrationsRequiredField', '*')}</span>
+                </label>
+                <input
+                    type="text"
+                    id="database"
+                    value={database}
+                    onChange={(e) => setDatabase(e.target.value)}
+                    placeholder={
+                        isTrino
+                            ? getLocString('integrationsServerCatalogPlaceholder', 'hive')
+                            : getLocString('integrationsServerDatabasePlaceholder', 'mydb')
+                    }
+                    autoComplete="off"
+                    required
+                />
+            </div>
+
+            {isTrino && (
+                <div className="form-group">
+                    <label htmlFor="schema">{getLocString('integrationsServerSchemaLabel', 'Schema (optional)')}</label>
+                    <input
+                        type="text"
+                        id="schema"
+                        value={schema}
+                        onChange={(e) => setSchema(e.target.value)}
+                        autoComplete="off"
+                    />
+                </div>
+            )}
+
+            <div className="form-group">
+                <label htmlFor="username">
+                    {getLocString('integrationsServerUsernameLabel', 'Username')}{' '}
+                    <span className="required">{getLocString('integrationsRequiredField', '*')}</span>
+                </label>
+                <input
+                    type="text"
+                    id="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder={defaults.username}
+                    autoComplete="username"
+                    required
+                />
+            </div>
+
+            <div className="form-group">
+                <label htmlFor="password">
+                    {isTrino ? (
+                        getLocString('integrationsServerPasswordOptionalLabel', 'Password (optional)')
+                    ) : (
+                        <>
+                            {getLocString('integrationsServerPasswordLabel', 'Password')}{' '}
+                            <span className="required">{getLocString('integrationsRequiredField', '*')}</span>
+                        </>
+                    )}
+                </label>
+                <input
+                    type="password"
+                    id="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={getLocString('integrationsServerPasswordPlaceholder', '••••••••')}
+                    autoComplete="current-password"
+                    required={!isTrino}
+                />
+            </div>
+
+            {defaults.encryption && (
+                <div className="form-group checkbox-group">
+                    <label>
+                        <input type="checkbox" checked={ssl} onChange={(e) => setSsl(e.target.checked)} />
+                        {defaults.encryption === 'https'
+                            ? getLocString('integrationsServerHttpsLabel', 'Use HTTPS')
+                            : getLocString('integrationsServerSslLabel', 'Use SSL')}
+                    </label>
+                </div>
+            )}
+
+            <div className="form-actions">
+                <button type="submit" className="primary">
+                    {getLocString('integrationsSave', 'Save')}
+                </button>
+                <TestConnectionButton
+                    getConfig={buildConfig}
+                    onTestConnection={onTestConnection}
+                    isTesting={isTestingConnection}
+                />
+                <button type="button" className="secondary" onClick={onCancel}>
+                    {getLocString('integrationsCancel', 'Cancel')}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+/**
+ * Returns the database of the config, or the catalog for Trino.
+ */
+function getDatabase(config: ServerIntegrationConfig | null): string {
+    if (!config) {
+        return '';
+    }
+
+    return config.type === 'trino' ? config.catalog || '' : config.database || '';
+}
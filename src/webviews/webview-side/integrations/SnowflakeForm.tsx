@@ -1,9 +1,11 @@
 import * as React from 'react';
 import { format, getLocString } from '../react-common/locReactSide';
+import { TestConnectionButton } from './ConnectionTest';
 import {
     SnowflakeIntegrationConfig,
     SnowflakeAuthMethod,
     SnowflakeAuthMethods,
+    SNOWFLAKE_OAUTH_REDIRECT_URI,
     isSupportedSnowflakeAuthMethod
 } from './types';
 
@@ -12,44 +14,77 @@ export interface ISnowflakeFormProps {
     existingConfig: SnowflakeIntegrationConfig | null;
     integrationName?: string;
     onSave: (config: SnowflakeIntegrationConfig) => void;
+    onTestConnection: (config: SnowflakeIntegrationConfig) => void;
+    isTestingConnection: boolean;
     onCancel: () => void;
 }
 
+const EMPTY_VALUES = {
+    username: '',
+    password: '',
+    privateKey: '',
+    privateKeyPassphrase: '',
+    clientId: '',
+    clientSecret: '',
+    oktaSubdomain: '',
+    authorizationServer: '',
+    tenant: '',
+    resource: ''
+};
+
 // Helper to get initial values from existing config
-function getInitialValues(existingConfig: SnowflakeIntegrationConfig | null) {
+function getInitialValues(existingConfig: SnowflakeIntegrationConfig | null): typeof EMPTY_VALUES {
     if (!existingConfig) {
-        return {
-            username: '',
-            password: '',
-            privateKey: '',
-            privateKeyPassphrase: ''
-        };
+        return EMPTY_VALUES;
     }
 
     // Type narrowing based on authMethod
     // Note: existingConfig can have authMethod === null (legacy configs from backend)
-    if (existingConfig.authMethod === null || existingConfig.authMethod === SnowflakeAuthMethods.PASSWORD) {
-        return {
-            username: existingConfig.username || '',
-            password: existingConfig.password || '',
-            privateKey: '',
-            privateKeyPassphrase: ''
-        };
-    } else if (existingConfig.authMethod === SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR) {
-        return {
-            username: existingConfig.username || '',
-            password: '',
-            privateKey: existingConfig.privateKey || '',
-            privateKeyPassphrase: existingConfig.privateKeyPassphrase || ''
-        };
-    } else {
-        // Unsupported auth method - try to extract username if available
-        return {
-            username: 'username' in existingConfig ? String(existingConfig.username || '') : '',
-            password: '',
-            privateKey: '',
-            privateKeyPassphrase: ''
-        };
+    switch (existingConfig.authMethod) {
+        case null:
+        case SnowflakeAuthMethods.PASSWORD:
+            return {
+                ...EMPTY_VALUES,
+                username: existingConfig.username || '',
+                password: existingConfig.password || ''
+            };
+        case SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR:
+        case SnowflakeAuthMethods.KEY_PAIR:
+            return {
+                ...EMPTY_VALUES,
+                username: existingConfig.username || '',
+                privateKey: existingConfig.privateKey || '',
+                privateKeyPassphrase: existingConfig.privateKeyPassphrase || ''
+            };
+        case SnowflakeAuthMethods.EXTERNAL_BROWSER:
+            return { ...EMPTY_VALUES, username: existingConfig.username || '' };
+        case SnowflakeAuthMethods.NATIVE_SNOWFLAKE:
+            return {
+                ...EMPTY_VALUES,
+                clientId: existingConfig.clientId || '',
+                clientSecret: existingConfig.clientSecret || ''
+            };
+        case SnowflakeAuthMethods.OKTA:
+            return {
+                ...EMPTY_VALUES,
+                clientId: existingConfig.clientId || '',
+                clientSecret: existingConfig.clientSecret || '',
+                oktaSubdomain: existingConfig.oktaSubdomain || '',
+                authorizationServer: existingConfig.authorizationServer || ''
+            };
+        case SnowflakeAuthMethods.AZURE_AD:
+            return {
+                ...EMPTY_VALUES,
+                clientId: existingConfig.clientId || '',
+                clientSecret: existingConfig.clientSecret || '',
+                tenant: existingConfig.tenant || '',
+                resource: existingConfig.resource || ''
+            };
+        default: {
+            // Unsupported auth method - try to extract username if available
+            const config = existingConfig as Record<string, unknown>;
+            return { ...EMPTY_VALUES, username: 'username' in config ? String(config.username || '') : '' };
+        }
     }
 }
 
@@ -58,6 +93,8 @@ export const SnowflakeForm: React.FC<ISnowflakeFormProps> = ({
     existingConfig,
     integrationName,
     onSave,
+    onTestConnection,
+    isTestingConnection,
     onCancel
 }) => {
     const isUnsupported = existingConfig ? !isSupportedSnowflakeAuthMethod(existingConfig.authMethod) : false;
@@ -72,6 +109,12 @@ export const SnowflakeForm: React.FC<ISnowflakeFormProps> = ({
     const [password, setPassword] = React.useState(initialValues.password);
     const [privateKey, setPrivateKey] = React.useState(initialValues.privateKey);
     const [privateKeyPassphrase, setPrivateKeyPassphrase] = React.useState(initialValues.privateKeyPassphrase);
+    const [clientId, setClientId] = React.useState(initialValues.clientId);
+    const [clientSecret, setClientSecret] = React.useState(initialValues.clientSecret);
+    const [oktaSubdomain, setOktaSubdomain] = React.useState(initialValues.oktaSubdomain);
+    const [authorizationServer, setAuthorizationServer] = React.useState(initialValues.authorizationServer);
+    const [tenant, setTenant] = React.useState(initialValues.tenant);
+    const [resource, setResource] = React.useState(initialValues.resource);
     const [database, setDatabase] = React.useState(existingConfig?.database || '');
     const [warehouse, setWarehouse] = React.useState(existingConfig?.warehouse || '');
     const [role, setRole] = React.useState(existingConfig?.role || '');
@@ -87,6 +130,12 @@ export const SnowflakeForm: React.FC<ISnowflakeFormProps> = ({
             setPassword(values.password);
             setPrivateKey(values.privateKey);
             setPrivateKeyPassphrase(values.privateKeyPassphrase);
+            setClientId(values.clientId);
+            setClientSecret(values.clientSecret);
+            setOktaSubdomain(values.oktaSubdomain);
+            setAuthorizationServer(values.authorizationServer);
+            setTenant(values.tenant);
+            setResource(values.resource);
             setDatabase(existingConfig.database || '');
             setWarehouse(existingConfig.warehouse || '');
             setRole(existingConfig.role || '');
@@ -98,59 +147,95 @@ export const SnowflakeForm: React.FC<ISnowflakeFormProps> = ({
             setPassword('');
             setPrivateKey('');
             setPrivateKeyPassphrase('');
+            setClientId('');
+            setClientSecret('');
+            setOktaSubdomain('');
+            setAuthorizationServer('');
+            setTenant('');
+            setResource('');
             setDatabase('');
             setWarehouse('');
             setRole('');
         }
     }, [existingConfig, integrationName]);
 
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-
+    const buildConfig = (): SnowflakeIntegrationConfig | null => {
         const unnamedIntegration = getLocString('integrationsUnnamedIntegration', 'Unnamed Integration ({0})');
+        const base = {
+            id: integrationId,
+            name: (name || format(unnamedIntegration, integrationId)).trim(),
+            type: 'snowflake' as const,
+            account: account.trim(),
+            database: database.trim() || undefined,
+            warehouse: warehouse.trim() || undefined,
+            role: role.trim() || undefined
+        };
+        const oauthClient = { clientId: clientId.trim(), clientSecret: clientSecret.trim() };
 
-        let config: SnowflakeIntegrationConfig;
+        switch (authMethod) {
+            case SnowflakeAuthMethods.PASSWORD:
+                return { ...base, authMethod, username: username.trim(), password: password.trim() };
+            case SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR:
+            case SnowflakeAuthMethods.KEY_PAIR:
+                // Guard against empty private key
+                if (!privateKey.trim()) {
+                    return null;
+                }
 
-        if (authMethod === SnowflakeAuthMethods.PASSWORD) {
-            config = {
-                id: integrationId,
-                name: (name || format(unnamedIntegration, integrationId)).trim(),
-                type: 'snowflake',
-                account: account.trim(),
-                authMethod: authMethod,
-                username: username.trim(),
-                password: password.trim(),
-                database: database.trim() || undefined,
-                warehouse: warehouse.trim() || undefined,
-                role: role.trim() || undefined
-            };
-        } else if (authMethod === SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR) {
-            // Guard against empty private key
-            if (!privateKey.trim()) {
-                return;
-            }
-
-            config = {
-                id: integrationId,
-                name: (name || format(unnamedIntegration, integrationId)).trim(),
-                type: 'snowflake',
-                account: account.trim(),
-                authMethod: authMethod,
-                username: username.trim(),
-                privateKey: privateKey.trim(),
-                privateKeyPassphrase: privateKeyPassphrase.trim() || undefined,
-                database: database.trim() || undefined,
-                warehouse: warehouse.trim() || undefined,
-                role: role.trim() || undefined
-            };
-        } else {
-            // This shouldn't happen as we disable the form for unsupported methods
-            return;
+                return {
+                    ...base,
+                    authMethod,
+                    username: username.trim(),
+                    privateKey: privateKey.trim(),
+                    privateKeyPassphrase: privateKeyPassphrase.trim() || undefined
+                };
+            case SnowflakeAuthMethods.EXTERNAL_BROWSER:
+                return { ...base, authMethod, username: username.trim() };
+            case SnowflakeAuthMethods.NATIVE_SNOWFLAKE:
+                return { ...base, ...oauthClient, authMethod };
+            case SnowflakeAuthMethods.OKTA:
+                return {
+                    ...base,
+                    ...oauthClient,
+                    authMethod,
+                    oktaSubdomain: oktaSubdomain.trim(),
+                    authorizationServer: authorizationServer.trim() || undefined
+                };
+            case SnowflakeAuthMethods.AZURE_AD:
+                return { ...base, ...oauthClient, authMethod, tenant: tenant.trim(), resource: resource.trim() };
+            default:
+                // This shouldn't happen as we disable the form for unsupported methods
+                return null;
         }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
 
-        onSave(config);
+        const config = buildConfig();
+        if (config) {
+            onSave(config);
+        }
     };
 
+    const usernameField = (
+        <div className="form-group">
+            <label htmlFor="username">
+                {getLocString('integrationsSnowflakeUsernameLabel', 'Username')}{' '}
+                <span className="required">{getLocString('integrationsRequiredField', '*')}</span>
+            </label>
+            <input
+                type="text"
+                id="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                required
+                pattern=".*\S.*"
+            />
+        </div>
+    );
+
     return (
         <form onSubmit={handleSubmit}>
             {isUnsupported && (
@@ -209,27 +294,28 @@ export const SnowflakeForm: React.FC<ISnowflakeFormProps> = ({
                     <option value={SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR}>
                         {getLocString('integrationsSnowflakeAuthMethodKeyPair', 'Key-pair (service account)')}
                     </option>
+                    <option value={SnowflakeAuthMethods.KEY_PAIR}>
+                        {getLocString('integrationsSnowflakeAuthMethodUserKeyPair', 'Key-pair (user)')}
+                    </option>
+                    <option value={SnowflakeAuthMethods.EXTERNAL_BROWSER}>
+                        {getLocString('integrationsSnowflakeAuthMethodExternalBrowser', 'Single sign-on (browser)')}
+                    </option>
+                    <option value={SnowflakeAuthMethods.NATIVE_SNOWFLAKE}>
+                        {getLocString('integrationsSnowflakeAuthMethodNativeOAuth', 'Snowflake OAuth')}
+                    </option>
+                    <option value={SnowflakeAuthMethods.OKTA}>
+                        {getLocString('integrationsSnowflakeAuthMethodOkta', 'Okta (OAuth)')}
+                    </option>
+                    <option value={SnowflakeAuthMethods.AZURE_AD}>
+                        {getLocString('integrationsSnowflakeAuthMethodAzureAd', 'Azure AD (OAuth)')}
+                    </option>
                 </select>
             </div>
 
             {!isUnsupported &&
                 (authMethod === SnowflakeAuthMethods.PASSWORD ? (
                     <>
-                        <div className="form-group">
-                            <label htmlFor="username">
-                                {getLocString('integrationsSnowflakeUsernameLabel', 'Username')}{' '}
-                                <span className="required">{getLocString('integrationsRequiredField', '*')}</span>
-                            </label>
-                            <input
-                                type="text"
-                                id="username"
-                                value={username}
-                                onChange={(e) => setUsername(e.target.value)}
-                                autoComplete="username"
-                                required
-                                pattern=".*\S.*"
-                            />
-                        </div>
+                        {usernameField}
 
                         <div className="form-group">
                             <label htmlFor="password">
@@ -248,33 +334,38 @@ export const SnowflakeForm: React.FC<ISnowflakeFormProps> = ({
                             />
                         </div>
                     </>
-                ) : (
+                ) : authMethod === SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR ||
+                  authMethod === SnowflakeAuthMethods.KEY_PAIR ? (
                     <>
-                        <div className="form-group">
-                            <label htmlFor="username">
-                                {getLocString(
-                                    'integrationsSnowflakeServiceAccountUsernameLabel',
-                                    'Service Account Username'
-                                )}{' '}
-                                <span className="required">{getLocString('integrationsRequiredField', '*')}</span>
-                            </label>
-                            <p className="form-help-text" id="username-help">
-                                {getLocString(
-                                    'integrationsSnowflakeServiceAccountUsernameHelp',
-                                    'The username of the service account that will be used to connect to Snowflake'
-                                )}
-                            </p>
-                            <input
-                                type="text"
-                                id="username"
-                                value={username}
-                                onChange={(e) => setUsername(e.target.value)}
-                                autoComplete="username"
-                                required
-                                pattern=".*\S.*"
-                                aria-describedby="username-help"
-                            />
-                        </div>
+                        {authMethod === SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR ? (
+                            <div className="form-group">
+                                <label htmlFor="username">
+                                    {getLocString(
+                                        'integrationsSnowflakeServiceAccountUsernameLabel',
+                                        'Service Account Username'
+                                    )}{' '}
+                                    <span className="required">{getLocString('integrationsRequiredField', '*')}</span>
+                                </label>
+                                <p className="form-help-text" id="username-help">
+                                    {getLocString(
+                                        'integrationsSnowflakeServiceAccountUsernameHelp',
+                                        'The username of the service account that will be used to connect to Snowflake'
+                                    )}
+                                </p>
+                                <input
+                                    type="text"
+                                    id="username"
+                                    value={username}
+                                    onChange={(e) => setUsername(e.target.value)}
+                                    autoComplete="username"
+                                    required
+                                    pattern=".*\S.*"
+                                    aria-describedby="username-help"
+                                />
+                            </div>
+                        ) : (
+                            usernameField
+                        )}
 
                         <div className="form-group">
                             <label htmlFor="privateKey">
@@ -328,6 +419,144 @@ export const SnowflakeForm: React.FC<ISnowflakeFormProps> = ({
                             />
                         </div>
                     </>
+                ) : authMethod === SnowflakeAuthMethods.EXTERNAL_BROWSER ? (
+                    <>
+                        <p className="form-help-text">
+                            {getLocString(
+                                'integrationsSnowflakeExternalBrowserHelp',
+                                'A browser window opens to sign in with the identity provider of the Snowflake account when a query runs.'
+                            )}
+                        </p>
+                        {usernameField}
+                    </>
+                ) : (
+                    <>
+                        <p className="form-help-text">
+                            {format(
+                                getLocString(
+                                    'integrationsSnowflakeOAuthHelp',
+                                    'A browser window opens to sign in when a query runs. The OAuth client must allow the redirect URI {0}.'
+                                ),
+                                SNOWFLAKE_OAUTH_REDIRECT_URI
+                            )}
+                        </p>
+
+                        {authMethod === SnowflakeAuthMethods.OKTA && (
+                            <>
+                                <div className="form-group">
+                                    <label htmlFor="oktaSubdomain">
+                                        {getLocString('integrationsSnowflakeOktaSubdomainLabel', 'Okta subdomain')}{' '}
+                                        <span className="required">
+                                            {getLocString('integrationsRequiredField', '*')}
+                                        </span>
+                                    </label>
+                                    <input
+                                        type="text"
+                                        id="oktaSubdomain"
+                                        value={oktaSubdomain}
+                                        onChange={(e) => setOktaSubdomain(e.target.value)}
+                                        placeholder="acme"
+                                        autoComplete="off"
+                                        required
+                                        pattern=".*\S.*"
+                                    />
+                                </div>
+
+                                <div className="form-group">
+                                    <label htmlFor="authorizationServer">
+                                        {getLocString(
+                                            'integrationsSnowflakeOktaAuthorizationServerLabel',
+                                            'Authorization server (optional)'
+                                        )}
+                                    </label>
+                                    <input
+                                        type="text"
+                                        id="authorizationServer"
+                                        value={authorizationServer}
+                                        onChange={(e) => setAuthorizationServer(e.target.value)}
+                                        placeholder="default"
+                                        autoComplete="off"
+                                    />
+                                </div>
+                            </>
+                        )}
+
+                        {authMethod === SnowflakeAuthMethods.AZURE_AD && (
+                            <>
+                                <div className="form-group">
+                                    <label htmlFor="tenant">
+                                        {getLocString('integrationsSnowflakeAzureTenantLabel', 'Tenant ID')}{' '}
+                                        <span className="required">
+                                            {getLocString('integrationsRequiredField', '*')}
+                                        </span>
+                                    </label>
+                                    <input
+                                        type="text"
+                                        id="tenant"
+                                        value={tenant}
+                                        onChange={(e) => setTenant(e.target.value)}
+                                        autoComplete="off"
+                                        required
+                                        pattern=".*\S.*"
+                                    />
+                                </div>
+
+                                <div className="form-group">
+                                    <label htmlFor="resource">
+                                        {getLocString(
+                                            'integrationsSnowflakeAzureResourceLabel',
+                                            'Resource (Application ID URI)'
+                                        )}{' '}
+                                        <span className="required">
+                                            {getLocString('integrationsRequiredField', '*')}
+                                        </span>
+                                    </label>
+                                    <input
+                                        type="text"
+                                        id="resource"
+                                        value={resource}
+                                        onChange={(e) => setResource(e.target.value)}
+                                        placeholder="api://..."
+                                        autoComplete="off"
+                                        required
+                                        pattern=".*\S.*"
+                                    />
+                                </div>
+                            </>
+                        )}
+
+                        <div className="form-group">
+                            <label htmlFor="clientId">
+                                {getLocString('integrationsSnowflakeClientIdLabel', 'Client ID')}{' '}
+                                <span className="required">{getLocString('integrationsRequiredField', '*')}</span>
+                            </label>
+                            <input
+                                type="text"
+                                id="clientId"
+                                value={clientId}
+                                onChange={(e) => setClientId(e.target.value)}
+                                autoComplete="off"
+                                required
+                                pattern=".*\S.*"
+                            />
+                        </div>
+
+                        <div className="form-group">
+                            <label htmlFor="clientSecret">
+                                {getLocString('integrationsSnowflakeClientSecretLabel', 'Client secret')}{' '}
+                                <span className="required">{getLocString('integrationsRequiredField', '*')}</span>
+                            </label>
+                            <input
+                                type="password"
+                                id="clientSecret"
+                                value={clientSecret}
+                                onChange={(e) => setClientSecret(e.target.value)}
+                                autoComplete="off"
+                                required
+                                pattern=".*\S.*"
+                            />
+                        </div>
+                    </>
                 ))}
 
             <div className="form-group">
@@ -377,6 +606,12 @@ export const SnowflakeForm: React.FC<ISnowflakeFormProps> = ({
                 <button type="submit" className="primary" disabled={isUnsupported}>
                     {getLocString('integrationsSave', 'Save')}
                 </button>
+                <TestConnectionButton
+                    getConfig={buildConfig}
+                    onTestConnection={onTestConnection}
+                    isTesting={isTestingConnection}
+                    disabled={isUnsupported}
+                />
                 <button type="button" className="secondary" onClick={onCancel}>
                     {getLocString('integrationsCancel', 'Cancel')}
                 </button>
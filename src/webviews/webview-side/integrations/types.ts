@@ -2,18 +2,50 @@ import {
     type SnowflakeAuthMethod,
     SnowflakeAuthMethods,
     SUPPORTED_SNOWFLAKE_AUTH_METHODS,
+    SNOWFLAKE_OAUTH_AUTH_METHODS,
+    SNOWFLAKE_OAUTH_REDIRECT_URI,
     isSupportedSnowflakeAuthMethod
 } from '../../../platform/notebooks/deepnote/snowflakeAuthConstants';
 
-export type IntegrationType = 'postgres' | 'bigquery' | 'snowflake';
+export type IntegrationType =
+    | 'postgres'
+    | 'bigquery'
+    | 'snowflake'
+    | 'mysql'
+    | 'mariadb'
+    | 'sqlserver'
+    | 'redshift'
+    | 'clickhouse'
+    | 'trino';
 
 export type IntegrationStatus = 'connected' | 'disconnected' | 'error';
 
+export type ConnectionFailure = 'auth' | 'network' | 'ssl' | 'driver' | 'environment' | 'unknown';
+
+/**
+ * Field of a configuration whose value is read from an environment variable (`env`) or a key of the `.env` file (`dotenv`)
+ */
+export interface CredentialSource {
+    field: string;
+    source: 'env' | 'dotenv';
+    name: string;
+    /** Whether the variable is defined */
+    resolved: boolean;
+}
+
+export interface ConnectionTestResult {
+    success: boolean;
+    failure?: ConnectionFailure;
+    message?: string;
+}
+
 // Re-export Snowflake auth constants for convenience
 export {
     type SnowflakeAuthMethod,
     SnowflakeAuthMethods,
     SUPPORTED_SNOWFLAKE_AUTH_METHODS,
+    SNOWFLAKE_OAUTH_AUTH_METHODS,
+    SNOWFLAKE_OAUTH_REDIRECT_URI,
     isSupportedSnowflakeAuthMethod
 };
 
@@ -61,28 +93,107 @@ export type SnowflakeIntegrationConfig = BaseSnowflakeConfig &
               password: string;
           }
         | {
-              authMethod: typeof SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR;
+              // Key-pair of a service account, or of the user (KEY_PAIR)
+              authMethod: typeof SnowflakeAuthMethods.SERVICE_ACCOUNT_KEY_PAIR | typeof SnowflakeAuthMethods.KEY_PAIR;
               username: string;
               privateKey: string;
               privateKeyPassphrase?: string;
           }
         | {
-              // Unsupported auth methods - we store them but don't allow editing
-              authMethod:
-                  | typeof SnowflakeAuthMethods.OKTA
-                  | typeof SnowflakeAuthMethods.NATIVE_SNOWFLAKE
-                  | typeof SnowflakeAuthMethods.AZURE_AD
-                  | typeof SnowflakeAuthMethods.KEY_PAIR;
-              [key: string]: unknown; // Allow any additional fields for unsupported methods
+              // Single sign-on in the browser, with the identity provider of the Snowflake account
+              authMethod: typeof SnowflakeAuthMethods.EXTERNAL_BROWSER;
+              username: string;
           }
+        | (SnowflakeOAuthClient & {
+              // OAuth with Snowflake as the authorization server
+              authMethod: typeof SnowflakeAuthMethods.NATIVE_SNOWFLAKE;
+          })
+        | (SnowflakeOAuthClient & {
+              // External OAuth with Okta
+              authMethod: typeof SnowflakeAuthMethods.OKTA;
+              /** Subdomain of the Okta organization, e.g. `acme` for acme.okta.com */
+              oktaSubdomain: string;
+              /** ID of the Okta authorization server, `default` when not set */
+              authorizationServer?: string;
+          })
+        | (SnowflakeOAuthClient & {
+              // External OAuth with Azure AD
+              authMethod: typeof SnowflakeAuthMethods.AZURE_AD;
+              /** ID of the Azure AD tenant */
+              tenant: string;
+              /** Application ID URI of the Snowflake resource application */
+              resource: string;
+          })
     );
 
-export type IntegrationConfig = PostgresIntegrationConfig | BigQueryIntegrationConfig | SnowflakeIntegrationConfig;
+/**
+ * OAuth client registered for Snowflake with the authorization server
+ */
+interface SnowflakeOAuthClient {
+    clientId: string;
+    clientSecret: string;
+}
+
+/**
+ * Base configuration of integrations connecting to a database server with a username and password
+ */
+interface BaseServerIntegrationConfig extends BaseIntegrationConfig {
+    host: string;
+    port: number;
+    username: string;
+    password: string;
+    ssl?: boolean;
+}
+
+export interface MySqlIntegrationConfig extends BaseServerIntegrationConfig {
+    type: 'mysql' | 'mariadb';
+    database: string;
+}
+
+export interface SqlServerIntegrationConfig extends BaseServerIntegrationConfig {
+    type: 'sqlserver';
+    database: string;
+}
+
+export interface RedshiftIntegrationConfig extends BaseServerIntegrationConfig {
+    type: 'redshift';
+    database: string;
+}
+
+export interface ClickHouseIntegrationConfig extends BaseServerIntegrationConfig {
+    type: 'clickhouse';
+    database: string;
+}
+
+export interface TrinoIntegrationConfig extends BaseServerIntegrationConfig {
+    type: 'trino';
+    catalog: string;
+    schema?: string;
+}
+
+/**
+ * Integrations configured with the shared database server form
+ */
+export type ServerIntegrationConfig =
+    | MySqlIntegrationConfig
+    | SqlServerIntegrationConfig
+    | RedshiftIntegrationConfig
+    | ClickHouseIntegrationConfig
+    | TrinoIntegrationConfig;
+
+export type ServerIntegrationType = ServerIntegrationConfig['type'];
+
+export type IntegrationConfig =
+    | PostgresIntegrationConfig
+    | BigQueryIntegrationConfig
+    | SnowflakeIntegrationConfig
+    | ServerIntegrationConfig;
 
 export interface IntegrationWithStatus {
     id: string;
     config: IntegrationConfig | null;
     status: IntegrationStatus;
+    error?: string;
     integrationName?: string;
     integrationType?: IntegrationType;
 }
@@ -104,6 +215,13 @@ export interface ShowFormMessage {
     config: IntegrationConfig | null;
     integrationName?: string;
     integrationType?: IntegrationType;
+    credentialSources?: CredentialSource[];
+}
+
+export interface ConnectionTestResultMessage {
+    type: 'connectionTestResult';
+    integrationId: string;
+    result: ConnectionTestResult;
 }
 
 export interface StatusMessage {
@@ -116,4 +234,9 @@ export interface LocInitMessage {
     locStrings: Partial<import('../../../messageTypes').LocalizedMessages>;
 }
 
-export type WebviewMessage = UpdateMessage | ShowFormMessage | StatusMessage | LocInitMessage;
+export type WebviewMessage =
+    | UpdateMessage
+    | ShowFormMessage
+    | ConnectionTestResultMessage
+    | StatusMessage
+    | LocInitMessage;
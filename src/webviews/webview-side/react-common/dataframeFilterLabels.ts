@@ -0,0 +1,46 @@
+import type { DataframeFilterOperator } from '../../../platform/deepnote/dataframeFilters';
+import { getLocString } from './locReactSide';
+
+/**
+ * Localized label of a filter operator, e.g. `greater than`
+ */
+export function getOperatorLabel(operator: DataframeFilterOperator): string {
+    switch (operator) {
+        case 'is-equal':
+            return getLocString('dataframeFilterIsEqual', 'is');
+        case 'is-not-equal':
+            return getLocString('dataframeFilterIsNotEqual', 'is not');
+        case 'is-one-of':
+            return getLocString('dataframeFilterIsOneOf', 'is one of');
+        case 'is-not-one-of':
+            return getLocString('dataframeFilterIsNotOneOf', 'is not one of');
+        case 'is-not-null':
+            return getLocString('dataframeFilterIsNotNull', 'is not empty');
+        case 'is-null':
+            return getLocString('dataframeFilterIsNull', 'is empty');
+        case 'text-contains':
+            return getLocString('dataframeFilterTextContains', 'contains');
+        case 'text-does-not-contain':
+            return getLocString('dataframeFilterTextDoesNotContain', 'does not contain');
+        case 'greater-than':
+            return getLocString('dataframeFilterGreaterThan', 'greater than');
+        case 'greater-than-or-equal':
+            return getLocString('dataframeFilterGreaterThanOrEqual', 'greater than or equal to');
+        case 'less-than':
+            return getLocString('dataframeFilterLessThan', 'less than');
+        case 'less-than-or-equal':
+            return getLocString('dataframeFilterLessThanOrEqual', 'less than or equal to');
+        case 'between':
+            return getLocString('dataframeFilterBetween', 'between');
+        case 'outside-of':
+            return getLocString('dataframeFilterOutsideOf', 'outside of');
+        case 'is-relative-today':
+            return getLocString('dataframeFilterIsRelativeToday', 'is relative to today');
+        case 'is-after':
+            return getLocString('dataframeFilterIsAfter', 'is after');
+        case 'is-before':
+            return getLocString('dataframeFilterIsBefore', 'is before');
+        case 'is-on':
+            return getLocString('dataframeFilterIsOn', 'is on');
+    }
+}
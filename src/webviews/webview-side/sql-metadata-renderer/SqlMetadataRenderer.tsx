@@ -31,6 +31,12 @@ const getStatusMessage = (status: string) => {
                 text: 'Caching not supported for this query type',
                 color: 'var(--vscode-notificationsInfoIcon-foreground)'
             };
+        case 'cancelled':
+            return {
+                icon: '■',
+                text: 'Query cancelled',
+                color: 'var(--vscode-notificationsWarningIcon-foreground)'
+            };
         default:
             return {
                 icon: 'ℹ',